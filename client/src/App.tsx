@@ -1,4 +1,4 @@
-import { Switch, Route, Link, useLocation } from "wouter";
+import { Switch, Route, Link, useLocation, useRoute } from "wouter";
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { 
@@ -13,7 +13,10 @@ import {
   Sun,
   Moon,
   Monitor,
-  LogOut
+  LogOut,
+  GitCompare,
+  Users,
+  CalendarClock
 } from "lucide-react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -24,8 +27,14 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import PolicySummaryGenerator from "@/pages/PolicySummaryGenerator";
 import NotFound from "@/pages/not-found";
+import SharedSummary from "@/pages/SharedSummary";
 import { DocumentDashboard } from "@/components/DocumentDashboard";
 import { UserSettings } from "@/components/UserSettings";
+import { PolicyComparisonView } from "@/components/PolicyComparisonView";
+import { ClientList } from "@/components/ClientList";
+import { ClientDetail } from "@/components/ClientDetail";
+import { RenewalsDashboard } from "@/components/RenewalsDashboard";
+import { NotificationFeed } from "@/components/NotificationFeed";
 import { AuthPage } from "@/components/AuthPage";
 import { ThemeProvider, useTheme } from "@/hooks/use-theme";
 import { useToast } from "@/hooks/use-toast";
@@ -47,6 +56,9 @@ function Navigation({
   const navigationItems = [
     { path: "/", label: "Upload & Process", icon: Upload },
     { path: "/dashboard", label: "Document Dashboard", icon: BarChart3 },
+    { path: "/clients", label: "Clients", icon: Users },
+    { path: "/renewals", label: "Renewals", icon: CalendarClock },
+    { path: "/compare", label: "Compare Policies", icon: GitCompare },
     { path: "/settings", label: "Settings", icon: Settings },
   ];
 
@@ -139,6 +151,12 @@ function Navigation({
             {/* Theme Toggle */}
             <div className={`${isSidebarCollapsed ? 'px-2' : 'px-4'} pb-4 mt-auto`}>
               <Separator className="mb-4" />
+              <NotificationFeed
+                side="right"
+                align="end"
+                label={isSidebarCollapsed ? undefined : "Notifications"}
+                className={`w-full ${isSidebarCollapsed ? 'justify-center px-2' : 'justify-start space-x-2'} text-muted-foreground hover:text-foreground hover:bg-accent`}
+              />
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
@@ -199,6 +217,7 @@ function Navigation({
             <span className="text-sm text-gray-600 dark:text-gray-300">
               {agent?.username}
             </span>
+            <NotificationFeed />
             <Button
               variant="ghost"
               size="sm"
@@ -270,6 +289,10 @@ function SummaryView(props: any) {
   return <PolicySummaryGenerator documentId={props.params?.id} />;
 }
 
+function ClientDetailView(props: any) {
+  return <ClientDetail clientId={parseInt(props.params?.id)} />;
+}
+
 function PolicySummaryGeneratorWrapper() {
   return <PolicySummaryGenerator />;
 }
@@ -280,6 +303,10 @@ function AuthenticatedRouter() {
       <Route path="/" component={PolicySummaryGeneratorWrapper} />
       <Route path="/summary/:id" component={SummaryView} />
       <Route path="/dashboard" component={DocumentDashboard} />
+      <Route path="/compare" component={PolicyComparisonView} />
+      <Route path="/clients" component={ClientList} />
+      <Route path="/clients/:id" component={ClientDetailView} />
+      <Route path="/renewals" component={RenewalsDashboard} />
       <Route path="/settings" component={UserSettings} />
       <Route component={NotFound} />
     </Switch>
@@ -310,9 +337,15 @@ function AuthenticatedApp({ isSidebarCollapsed, setIsSidebarCollapsed }: {
 function AppContent() {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const { isAuthenticated, isLoading, agent } = useAuth();
+  const [isSharePage, shareParams] = useRoute("/share/:token");
 
   console.log("App auth state:", { isAuthenticated, isLoading, agent });
 
+  // Share links are opened by clients, who never sign in
+  if (isSharePage) {
+    return <SharedSummary token={shareParams!.token} />;
+  }
+
   // Show loading state while checking authentication
   if (isLoading) {
     return (
@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { ProcessingOptionsSchema, SUMMARY_LANGUAGES, SUMMARY_LANGUAGE_LABELS, type ProcessingOptions } from "@shared/schema";
 import { 
   Settings, 
   Brain, 
@@ -41,21 +41,6 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 
-const ProcessingOptionsSchema = z.object({
-  extractCoverage: z.boolean().default(true),
-  generateExplanations: z.boolean().default(true),
-  includeImportance: z.boolean().default(true),
-  detailLevel: z.enum(["basic", "standard", "comprehensive", "expert"]).default("comprehensive"),
-  focusAreas: z.array(z.enum(["coverage", "exclusions", "eligibility", "benefits", "contacts", "claims"])).default(["coverage", "exclusions", "eligibility"]),
-  outputFormat: z.enum(["structured", "narrative", "bullet", "detailed"]).default("structured"),
-  includeComparisons: z.boolean().default(false),
-  generateRecommendations: z.boolean().default(false),
-  highlightRisks: z.boolean().default(true),
-  includeScenarios: z.boolean().default(false),
-});
-
-type ProcessingOptions = z.infer<typeof ProcessingOptionsSchema>;
-
 interface AdvancedProcessingOptionsProps {
   initialOptions?: Partial<ProcessingOptions>;
   onOptionsChange?: (options: ProcessingOptions) => void;
@@ -71,28 +56,20 @@ export function AdvancedProcessingOptions({
 }: AdvancedProcessingOptionsProps) {
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
   
+  // Saved options may predate the current schema; fall back to the defaults
+  const parsedInitialOptions = ProcessingOptionsSchema.safeParse(initialOptions);
   const form = useForm<ProcessingOptions>({
     resolver: zodResolver(ProcessingOptionsSchema),
-    defaultValues: {
-      extractCoverage: true,
-      generateExplanations: true,
-      includeImportance: true,
-      detailLevel: "comprehensive",
-      focusAreas: ["coverage", "exclusions", "eligibility"],
-      outputFormat: "structured",
-      includeComparisons: false,
-      generateRecommendations: false,
-      highlightRisks: true,
-      includeScenarios: false,
-      ...initialOptions,
-    },
+    defaultValues: parsedInitialOptions.success ? parsedInitialOptions.data : ProcessingOptionsSchema.parse({}),
   });
 
   const watchedValues = form.watch();
 
-  const handleFormChange = (values: ProcessingOptions) => {
-    onOptionsChange?.(values);
-  };
+  // Switches and selects don't fire native change events, so watch the form instead
+  useEffect(() => {
+    const subscription = form.watch((values) => onOptionsChange?.(values as ProcessingOptions));
+    return () => subscription.unsubscribe();
+  }, [form, onOptionsChange]);
 
   const focusAreaOptions = [
     { id: "coverage", label: "Coverage Details", icon: CheckCircle, description: "Extract specific coverage limits and conditions" },
@@ -110,6 +87,11 @@ export function AdvancedProcessingOptions({
     expert: "Expert-level analysis with technical insights"
   };
 
+  const summaryLengthDescriptions = {
+    short: "Quick overview paragraph with key bullet points",
+    detailed: "Full summary with a section for each focus area"
+  };
+
   const outputFormatDescriptions = {
     structured: "Organized sections with clear headings",
     narrative: "Flowing paragraph format",
@@ -119,7 +101,7 @@ export function AdvancedProcessingOptions({
 
   return (
     <Form {...form}>
-      <form onChange={() => handleFormChange(form.getValues())} className="space-y-6">
+      <form className="space-y-6">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
@@ -205,8 +187,42 @@ export function AdvancedProcessingOptions({
 
             <Separator />
 
-            {/* Detail Level and Output Format */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Summary Length, Detail Level and Output Format */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="summaryLength"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base font-medium">Summary Length</FormLabel>
+                    <Select 
+                      onValueChange={field.onChange} 
+                      value={field.value}
+                      disabled={isProcessing}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select summary length" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(summaryLengthDescriptions).map(([value, description]) => (
+                          <SelectItem key={value} value={value}>
+                            <div>
+                              <div className="font-medium capitalize">{value}</div>
+                              <div className="text-sm text-gray-500">{description}</div>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {summaryLengthDescriptions[field.value]}
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="detailLevel"
@@ -215,7 +231,7 @@ export function AdvancedProcessingOptions({
                     <FormLabel className="text-base font-medium">Analysis Detail Level</FormLabel>
                     <Select 
                       onValueChange={field.onChange} 
-                      defaultValue={field.value}
+                      value={field.value}
                       disabled={isProcessing}
                     >
                       <FormControl>
@@ -249,7 +265,7 @@ export function AdvancedProcessingOptions({
                     <FormLabel className="text-base font-medium">Output Format</FormLabel>
                     <Select 
                       onValueChange={field.onChange} 
-                      defaultValue={field.value}
+                      value={field.value}
                       disabled={isProcessing}
                     >
                       <FormControl>
@@ -276,6 +292,38 @@ export function AdvancedProcessingOptions({
               />
             </div>
 
+            {/* Client Language */}
+            <FormField
+              control={form.control}
+              name="language"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-medium">Client Language</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    value={field.value}
+                    disabled={isProcessing}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="md:w-1/3">
+                        <SelectValue placeholder="Select language" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SUMMARY_LANGUAGES.map((language) => (
+                        <SelectItem key={language} value={language}>
+                          {SUMMARY_LANGUAGE_LABELS[language]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    The summary is reviewed in English; client PDFs (exports, share link downloads, email attachments) default to this language
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
             <Separator />
 
             {/* Focus Areas */}
@@ -343,13 +391,13 @@ export function AdvancedProcessingOptions({
               onOpenChange={setIsAdvancedOpen}
             >
               <CollapsibleTrigger asChild>
-                <Button variant="ghost" className="w-full justify-between">
+                <Button type="button" variant="ghost" className="w-full justify-between">
                   <span className="flex items-center space-x-2">
                     <Settings className="w-4 h-4" />
                     <span>Advanced Options</span>
                   </span>
                   <Badge variant="secondary">
-                    {[watchedValues.includeComparisons, watchedValues.generateRecommendations, watchedValues.includeScenarios].filter(Boolean).length} enabled
+                    {[watchedValues.includeComparisons, watchedValues.generateRecommendations, watchedValues.includeScenarios, watchedValues.includeImportance].filter(Boolean).length} enabled
                   </Badge>
                 </Button>
               </CollapsibleTrigger>
@@ -426,26 +474,52 @@ export function AdvancedProcessingOptions({
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="includeImportance"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base font-medium">
+                            Importance Ratings
+                          </FormLabel>
+                          <FormDescription className="text-sm">
+                            Rate each key benefit by importance
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            disabled={isProcessing}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
                 </div>
               </CollapsibleContent>
             </Collapsible>
 
             {/* Action Buttons */}
             <div className="flex justify-between pt-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => onSaveAsDefault?.(form.getValues())}
-                disabled={isProcessing}
-              >
-                Save as Default
-              </Button>
+              {onSaveAsDefault ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onSaveAsDefault(form.getValues())}
+                  disabled={isProcessing}
+                >
+                  Save as Default
+                </Button>
+              ) : <div />}
               
               <div className="space-x-2">
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => form.reset()}
+                  onClick={() => form.reset(ProcessingOptionsSchema.parse({}))}
                   disabled={isProcessing}
                 >
                   Reset to Defaults
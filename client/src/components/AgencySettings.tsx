@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Building2, FileText, Trash2, UserPlus, Users } from "lucide-react";
+import { AGENCY_ROLES, type AgencyBranding, type AgencyRole, type ProcessingOptions } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  api,
+  type AgencyDetails,
+  type AgencyDocumentListItem,
+  type AgencyMember,
+  type NewAgencyMember,
+} from "@/lib/api";
+import { AdvancedProcessingOptions } from "./AdvancedProcessingOptions";
+import { AuditTrailPanel } from "./AuditTrailPanel";
+
+const ROLE_LABELS: Record<AgencyRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  reviewer: "Reviewer",
+  producer: "Producer",
+  csr: "CSR",
+};
+
+const EMPTY_BRANDING: AgencyBranding = { firmName: "", firmAddress: "", firmPhone: "", firmWebsite: "" };
+const EMPTY_MEMBER: NewAgencyMember = { username: "", password: "", fullName: "", email: "", role: "producer" };
+
+// Agency details, members and (for owners and admins) every member's documents and the audit trail
+export function AgencySettings() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [branding, setBranding] = useState<AgencyBranding>(EMPTY_BRANDING);
+  const [newMember, setNewMember] = useState<NewAgencyMember>(EMPTY_MEMBER);
+
+  const { data: agency } = useQuery<AgencyDetails>({
+    queryKey: ["/api/agency"],
+  });
+  const { data: members = [] } = useQuery<AgencyMember[]>({
+    queryKey: ["/api/agency/members"],
+  });
+  const canManage = !!agency?.canManage;
+  const { data: documents = [] } = useQuery<AgencyDocumentListItem[]>({
+    queryKey: ["/api/agency/documents"],
+    enabled: canManage,
+  });
+
+  useEffect(() => {
+    if (agency) {
+      setName(agency.name);
+      setBranding({ ...EMPTY_BRANDING, ...(agency.branding as Partial<AgencyBranding>) });
+    }
+  }, [agency]);
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const updateAgencyMutation = useMutation({
+    mutationFn: api.updateAgency,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agency"] });
+      toast({ title: "Agency saved", description: "Changes apply to every member's new uploads and exports." });
+    },
+    onError: showError("Save failed"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: api.addAgencyMember,
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agency/members"] });
+      toast({ title: "Member added", description: `${member.fullName} can now sign in as ${member.username}.` });
+      setNewMember(EMPTY_MEMBER);
+    },
+    onError: showError("Add member failed"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: AgencyRole }) => api.updateAgencyMemberRole(id, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agency/members"] });
+    },
+    onError: showError("Role change failed"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: api.removeAgencyMember,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agency/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/agency/documents"] });
+    },
+    onError: showError("Remove failed"),
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: ({ documentId, agentId }: { documentId: number; agentId: number }) => api.reassignDocument(documentId, agentId),
+    onSuccess: (document) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agency/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({ title: "Document reassigned", description: `${document.originalName} now belongs to ${document.agentName}.` });
+    },
+    onError: showError("Reassign failed"),
+  });
+
+  if (!agency) {
+    return <p className="text-sm text-muted-foreground">Loading agency...</p>;
+  }
+
+  const brandingFields: { key: keyof AgencyBranding; label: string }[] = [
+    { key: "firmName", label: "Firm Name" },
+    { key: "firmPhone", label: "Firm Phone" },
+    { key: "firmAddress", label: "Firm Address" },
+    { key: "firmWebsite", label: "Firm Website" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Building2 className="w-5 h-5" />
+            <span>Agency</span>
+            <Badge variant="secondary">{ROLE_LABELS[agency.role]}</Badge>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Firm details shown on every member's PDF exports. {canManage ? "" : "Only owners and admins can change them."}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="agency-name">Agency Name</Label>
+            <Input id="agency-name" value={name} disabled={!canManage} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {brandingFields.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`agency-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`agency-${field.key}`}
+                  value={branding[field.key]}
+                  disabled={!canManage}
+                  onChange={(e) => setBranding(current => ({ ...current, [field.key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="agency-require-approval">Require approval before client exports</Label>
+              <p className="text-sm text-muted-foreground">
+                Client-facing PDF templates are refused until an owner, admin or reviewer approves the summary
+              </p>
+            </div>
+            <Switch
+              id="agency-require-approval"
+              checked={agency.requireApprovalForExport}
+              disabled={!canManage || updateAgencyMutation.isPending}
+              onCheckedChange={(requireApprovalForExport) => updateAgencyMutation.mutate({ requireApprovalForExport })}
+            />
+          </div>
+          {canManage && (
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => updateAgencyMutation.mutate({ name: name.trim(), branding })}
+                disabled={updateAgencyMutation.isPending || !name.trim()}
+              >
+                Save Agency
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Agency processing defaults apply to members who have not saved defaults of their own.
+          </p>
+          <AdvancedProcessingOptions
+            key={agency.updatedAt?.toString()}
+            initialOptions={{ summaryLength: "short", ...(agency.defaultProcessingOptions as Partial<ProcessingOptions>) }}
+            onSaveAsDefault={(options) => updateAgencyMutation.mutate({ defaultProcessingOptions: options })}
+            isProcessing={updateAgencyMutation.isPending}
+          />
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Users className="w-5 h-5" />
+            <span>Members</span>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Owners and admins see and reassign everyone's documents; reviewers see them to approve summaries; producers and CSRs work with their own.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+              <div className="min-w-0">
+                <p className="font-medium text-foreground truncate">{member.fullName}</p>
+                <p className="text-sm text-muted-foreground truncate">{member.username} · {member.email}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {canManage ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => roleMutation.mutate({ id: member.id, role: role as AgencyRole })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AGENCY_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                )}
+                {canManage && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={removeMemberMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Remove ${member.fullName} from the agency? Their documents stay with them.`)) {
+                        removeMemberMutation.mutate(member.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <UserPlus className="w-5 h-5" />
+              <span>Add Member</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="member-name">Full Name *</Label>
+                <Input
+                  id="member-name"
+                  value={newMember.fullName}
+                  onChange={(e) => setNewMember(current => ({ ...current, fullName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member-email">Email *</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  value={newMember.email}
+                  onChange={(e) => setNewMember(current => ({ ...current, email: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member-username">Username *</Label>
+                <Input
+                  id="member-username"
+                  value={newMember.username}
+                  onChange={(e) => setNewMember(current => ({ ...current, username: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member-password">Temporary Password *</Label>
+                <Input
+                  id="member-password"
+                  type="password"
+                  value={newMember.password}
+                  onChange={(e) => setNewMember(current => ({ ...current, password: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member-role">Role</Label>
+                <Select
+                  value={newMember.role}
+                  onValueChange={(role) => setNewMember(current => ({ ...current, role: role as AgencyRole }))}
+                >
+                  <SelectTrigger id="member-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AGENCY_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => addMemberMutation.mutate(newMember)}
+                disabled={addMemberMutation.isPending || !newMember.fullName || !newMember.email || !newMember.username || !newMember.password}
+              >
+                <UserPlus className="w-4 h-4 mr-2" />
+                {addMemberMutation.isPending ? "Adding..." : "Add Member"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FileText className="w-5 h-5" />
+              <span>Agency Documents</span>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Every member's policies. Reassigning moves a document to another member's dashboard.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No documents yet.</p>
+            ) : (
+              documents.map(document => (
+                <div key={document.id} className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{document.originalName}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {document.clientName || "No client"} · {new Date(document.uploadedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Select
+                    value={document.agentId ? String(document.agentId) : undefined}
+                    onValueChange={(agentId) => reassignMutation.mutate({ documentId: document.id, agentId: parseInt(agentId) })}
+                  >
+                    <SelectTrigger className="w-48 flex-shrink-0">
+                      <SelectValue placeholder="Unassigned" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members.map(member => (
+                        <SelectItem key={member.id} value={String(member.id)}>{member.fullName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {canManage && <AuditTrailPanel members={members} />}
+    </div>
+  );
+}
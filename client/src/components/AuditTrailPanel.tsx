@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Download, ShieldCheck, X } from "lucide-react";
+import { AUDIT_ACTIONS, type AuditAction } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { api, type AgencyMember, type AuditEventFilters, type AuditEventItem } from "@/lib/api";
+import { AUDIT_ACTION_LABELS } from "./DocumentActivityDialog";
+
+const ANY = "all";
+
+interface AuditTrailPanelProps {
+  members: AgencyMember[];
+}
+
+// Owners and admins browse the agency's audit trail and download it as CSV
+export function AuditTrailPanel({ members }: AuditTrailPanelProps) {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const update = (changes: Partial<AuditEventFilters>) => setFilters(current => ({ ...current, ...changes }));
+  const isFiltered = Object.values(filters).some(value => value !== undefined);
+
+  const { data: events = [], isLoading } = useQuery<AuditEventItem[]>({
+    queryKey: ["/api/agency/audit-events", filters],
+    queryFn: () => api.listAuditEvents(filters),
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await api.exportAuditEvents(filters);
+      const url = window.URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = url;
+      link.download = `audit-trail-${new Date().toISOString().slice(0, 10)}.csv`;
+      window.document.body.appendChild(link);
+      link.click();
+      window.URL.revokeObjectURL(url);
+      window.document.body.removeChild(link);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export the audit trail",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5" />
+          <span>Audit Trail</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Who viewed, edited, exported, reviewed or deleted each document. Entries cannot be changed or removed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Member</Label>
+            <Select
+              value={filters.actorId ? String(filters.actorId) : ANY}
+              onValueChange={(value) => update({ actorId: value === ANY ? undefined : Number(value) })}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All members</SelectItem>
+                {members.map(member => (
+                  <SelectItem key={member.id} value={String(member.id)}>{member.fullName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Action</Label>
+            <Select
+              value={filters.action ?? ANY}
+              onValueChange={(value) => update({ action: value === ANY ? undefined : value as AuditAction })}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All actions</SelectItem>
+                {AUDIT_ACTIONS.map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-document" className="text-xs text-muted-foreground">Document ID</Label>
+            <Input
+              id="audit-document"
+              type="number"
+              min={1}
+              className="w-28"
+              value={filters.documentId ?? ""}
+              onChange={(e) => update({ documentId: e.target.value ? Number(e.target.value) : undefined })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs text-muted-foreground">Between</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="audit-from"
+                type="date"
+                className="w-40"
+                value={filters.from ?? ""}
+                onChange={(e) => update({ from: e.target.value || undefined })}
+              />
+              <span className="text-sm text-muted-foreground">and</span>
+              <Input
+                type="date"
+                aria-label="On or before"
+                className="w-40"
+                value={filters.to ?? ""}
+                onChange={(e) => update({ to: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+
+          {isFiltered && (
+            <Button type="button" variant="ghost" onClick={() => setFilters({})}>
+              <X className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          )}
+
+          <Button type="button" variant="outline" className="ml-auto" onClick={exportCsv} disabled={isExporting}>
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export CSV"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading audit trail...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No matching events.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Document</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{event.actorName}</TableCell>
+                    <TableCell className="text-sm">{AUDIT_ACTION_LABELS[event.action] ?? event.action}</TableCell>
+                    <TableCell className="text-sm">
+                      {event.documentName ?? "—"}
+                      {event.documentId && <span className="text-muted-foreground"> (#{event.documentId})</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {events.length >= 500 && (
+          <p className="text-xs text-muted-foreground">Showing the latest 500 events. Narrow the filters or export to CSV for everything.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,7 +15,7 @@ export function AuthPage() {
   const queryClient = useQueryClient();
   
   const [loginData, setLoginData] = useState({ username: "", password: "" });
-  const [registerData, setRegisterData] = useState({ username: "", password: "", confirmPassword: "", fullName: "", email: "" });
+  const [registerData, setRegisterData] = useState({ username: "", password: "", confirmPassword: "", fullName: "", email: "", agencyName: "" });
 
   const loginMutation = useMutation({
     mutationFn: async (credentials: { username: string; password: string }) => {
@@ -63,7 +63,7 @@ export function AuthPage() {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: { username: string; password: string; fullName: string; email: string }) => {
+    mutationFn: async (credentials: { username: string; password: string; fullName: string; email: string; agencyName?: string }) => {
       const response = await apiRequest("POST", "/api/auth/register", credentials);
       return response.json();
     },
@@ -140,7 +140,8 @@ export function AuthPage() {
       username: registerData.username, 
       password: registerData.password,
       fullName: registerData.fullName,
-      email: registerData.email
+      email: registerData.email,
+      agencyName: registerData.agencyName.trim() || undefined
     });
   };
 
@@ -223,6 +224,17 @@ export function AuthPage() {
                           placeholder="Enter your email address"
                         />
                       </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="register-agency" className="text-base">Agency Name (optional)</Label>
+                        <Input
+                          id="register-agency"
+                          type="text"
+                          value={registerData.agencyName}
+                          className="text-base h-12"
+                          onChange={(e) => setRegisterData(prev => ({ ...prev, agencyName: e.target.value }))}
+                          placeholder="Your firm; colleagues are added from Settings"
+                        />
+                      </div>
                       <div className="space-y-2">
                         <Label htmlFor="register-username" className="text-base">Username</Label>
                         <Input
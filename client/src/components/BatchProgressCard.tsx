@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { AlertCircle, CheckCircle, ChevronDown, Loader2, Package, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { api, type BatchDetail } from '@/lib/api';
+
+interface BatchProgressCardProps {
+  batchId: number;
+  defaultExpanded?: boolean;
+}
+
+export function BatchProgressCard({ batchId, defaultExpanded = false }: BatchProgressCardProps) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: batch, isLoading } = useQuery<BatchDetail>({
+    queryKey: [`/api/batches/${batchId}`],
+    // Keep polling while documents are still being processed
+    refetchInterval: (query) => query.state.data?.status === 'processing' ? 3000 : false,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: () => api.retryBatch(batchId),
+    onSuccess: (result) => {
+      toast({
+        title: 'Retry Started',
+        description: result.message,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/batches/${batchId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/batches'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Retry Failed',
+        description: error instanceof Error ? error.message : 'Failed to retry batch',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading || !batch) {
+    return (
+      <Card>
+        <CardContent className="p-4 flex items-center space-x-2 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Loading batch...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const finished = batch.completed + batch.failed;
+  const percent = batch.totalDocuments > 0 ? Math.round((finished / batch.totalDocuments) * 100) : 0;
+
+  return (
+    <Card className={`border-l-4 ${
+      batch.status === 'processing' ? 'border-l-yellow-500' :
+      batch.status === 'completed_with_errors' ? 'border-l-red-500' :
+      'border-l-green-500'
+    }`}>
+      <CardHeader
+        className="pb-2 cursor-pointer hover:bg-muted/30 transition-colors"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            <Package className="w-5 h-5 text-valley-primary flex-shrink-0" />
+            <span className="font-medium text-foreground truncate">{batch.name}</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            {batch.status === 'processing' ? (
+              <Badge variant="secondary">Processing</Badge>
+            ) : batch.failed > 0 ? (
+              <Badge variant="destructive">{batch.failed} failed</Badge>
+            ) : (
+              <Badge className="bg-green-600 hover:bg-green-600">Complete</Badge>
+            )}
+            <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform duration-200 ${
+              isExpanded ? 'transform rotate-180' : ''
+            }`} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={percent} className="h-2" />
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {batch.completed} of {batch.totalDocuments} processed
+            {batch.processing > 0 && ` · ${batch.processing} in progress`}
+            {batch.failed > 0 && ` · ${batch.failed} failed`}
+          </span>
+          {batch.failed > 0 && batch.status !== 'processing' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => retryMutation.mutate()}
+              disabled={retryMutation.isPending}
+              className="h-7 px-2 text-xs"
+            >
+              <RefreshCw className={`w-3 h-3 mr-1 ${retryMutation.isPending ? 'animate-spin' : ''}`} />
+              Retry Failed
+            </Button>
+          )}
+        </div>
+
+        {isExpanded && (
+          <div className="space-y-1 pt-2 border-t border-border">
+            {batch.documents.map(doc => (
+              <div key={doc.id} className="flex items-center space-x-2 text-sm">
+                {!doc.processed ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-blue-600 flex-shrink-0" />
+                ) : doc.processingError ? (
+                  <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                )}
+                {doc.processed && !doc.processingError ? (
+                  <Link href={`/summary/${doc.id}`} className="truncate text-foreground hover:underline">
+                    {doc.originalName}
+                  </Link>
+                ) : (
+                  <span className="truncate text-foreground">{doc.originalName}</span>
+                )}
+                {doc.processingError && (
+                  <span className="text-xs text-red-600 truncate" title={doc.processingError}>
+                    {doc.processingError}
+                  </span>
+                )}
+              </div>
+            ))}
+            {batch.skippedFiles.length > 0 && (
+              <div className="pt-2 text-xs text-muted-foreground">
+                <p className="font-medium">Skipped:</p>
+                {batch.skippedFiles.map(file => (
+                  <p key={file}>• {file}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
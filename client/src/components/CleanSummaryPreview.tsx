@@ -1,4 +1,8 @@
+import { Fragment, type ReactNode } from 'react';
+import type { StructuredSummary } from '@shared/schema';
+import { parseSummaryMarkdown } from '@shared/summaryMarkdown';
 import { ProcessedDocument } from '@/lib/api';
+import { FactCheckReview, highlightUnsupported, unsupportedValues } from './FactCheckReview';
 
 interface CleanSummaryPreviewProps {
   document: ProcessedDocument | null;
@@ -23,9 +27,10 @@ export function CleanSummaryPreview({ document, isLoading, editedSummary }: Clea
     );
   }
 
-  const summaryToDisplay = editedSummary || document?.summary || '';
+  // Unsaved edits are previewed the way they will be saved
+  const summaryToDisplay = editedSummary ? parseSummaryMarkdown(editedSummary) : document?.structuredSummary;
   
-  if (!document || !summaryToDisplay) {
+  if (!document || !summaryToDisplay?.sections.length) {
     return (
       <div className="bg-muted/50 rounded-lg border border-border p-8 text-center">
         <p className="text-base text-muted-foreground">No summary available. Upload and process a document to see the analysis.</p>
@@ -33,6 +38,9 @@ export function CleanSummaryPreview({ document, isLoading, editedSummary }: Clea
     );
   }
 
+  const unsupported = unsupportedValues(document.extractedData);
+  const highlight = (text: string) => highlightUnsupported(text, unsupported);
+
   return (
     <div className="bg-card rounded-lg shadow-sm border border-border">
       {/* Header */}
@@ -43,107 +51,12 @@ export function CleanSummaryPreview({ document, isLoading, editedSummary }: Clea
 
       {/* Summary Content */}
       <div className="px-8 py-6">
-        <div className="prose prose-slate dark:prose-invert max-w-none">
-          <div className="text-foreground leading-relaxed space-y-4">
-            {summaryToDisplay.split('\n\n').map((paragraph, index) => {
-              // Skip empty lines
-              if (paragraph.trim() === '') {
-                return <div key={index} className="h-2"></div>;
-              }
-
-              // Check if paragraph starts with a subheader [like this] or **[like this]**
-              const subheaderMatch = paragraph.match(/^(?:\*\*)?\[([^\]]+)\](?:\*\*)?\s*([\s\S]*)/);
-              
-              if (subheaderMatch) {
-                const [, subheader, content] = subheaderMatch;
-                
-                // Check if content contains bullet points
-                if (content.includes('\n•')) {
-                  const [intro, ...bullets] = content.split('\n•');
-                  return (
-                    <div key={index} className="space-y-3">
-                      <h3 className="text-xl font-semibold text-foreground border-b-2 border-valley-primary pb-2 mb-3 text-valley-primary">
-                        {subheader}
-                      </h3>
-                      {intro.trim() && (
-                        <p className="text-lg text-muted-foreground leading-relaxed">
-                          {intro.trim()}
-                        </p>
-                      )}
-                      <div className="space-y-2 ml-4">
-                        {bullets.map((bullet, bulletIndex) => (
-                          <div key={bulletIndex} className="flex items-start space-x-3">
-                            <span className="text-valley-primary mt-1 font-semibold">•</span>
-                            <span className="text-lg text-muted-foreground flex-1">
-                              {bullet.trim()}
-                            </span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  );
-                }
-                
-                return (
-                  <div key={index} className="space-y-3">
-                    <h3 className="text-xl font-semibold text-foreground border-b-2 border-valley-primary pb-2 mb-3 text-valley-primary">
-                      {subheader}
-                    </h3>
-                    <p className="text-lg text-muted-foreground leading-relaxed">
-                      {content.trim()}
-                    </p>
-                  </div>
-                );
-              }
-
-              // Handle bold headings (**text**)
-              if (paragraph.includes('**')) {
-                const parts = paragraph.split('**');
-                return (
-                  <div key={index} className="space-y-2">
-                    {parts.map((part, partIndex) => {
-                      if (partIndex % 2 === 1) {
-                        // Bold text
-                        return (
-                          <h3 key={partIndex} className="text-xl font-semibold text-foreground mt-6 mb-3">
-                            {part}
-                          </h3>
-                        );
-                      } else if (part.trim()) {
-                        // Regular text
-                        return (
-                          <p key={partIndex} className="text-lg text-muted-foreground mb-3">
-                            {part}
-                          </p>
-                        );
-                      }
-                      return null;
-                    })}
-                  </div>
-                );
-              }
-
-              // Handle bullet points
-              if (paragraph.trim().startsWith('•')) {
-                return (
-                  <div key={index} className="flex items-start space-x-3 py-1">
-                    <span className="text-valley-primary mt-1 font-semibold">•</span>
-                    <span className="text-lg text-muted-foreground flex-1">
-                      {paragraph.trim().substring(1).trim()}
-                    </span>
-                  </div>
-                );
-              }
-
-              // Handle regular paragraphs
-              return (
-                <p key={index} className="text-lg text-muted-foreground mb-4 leading-relaxed">
-                  {paragraph}
-                </p>
-              );
-            })}
+        {unsupported.length > 0 && (
+          <div className="mb-6">
+            <FactCheckReview unsupported={unsupported} />
           </div>
-        </div>
+        )}
+        <SummaryContent summary={summaryToDisplay} highlight={highlight} />
       </div>
 
       {/* Footer */}
@@ -154,4 +67,57 @@ export function CleanSummaryPreview({ document, isLoading, editedSummary }: Clea
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface SummaryContentProps {
+  summary: StructuredSummary;
+  highlight?: (text: string) => ReactNode;
+}
+
+// Inline **bold** runs of a paragraph or bullet, with the rest highlighted
+function InlineText({ text, highlight }: { text: string; highlight: (text: string) => ReactNode }) {
+  return (
+    <>
+      {text.split(/\*\*([^*]+)\*\*/).map((part, index) =>
+        index % 2 === 1 ? <strong key={index} className="text-foreground">{highlight(part)}</strong> : <Fragment key={index}>{highlight(part)}</Fragment>
+      )}
+    </>
+  );
+}
+
+// The summary laid out as headed sections of paragraphs and bullet lists
+export function SummaryContent({ summary, highlight = text => text }: SummaryContentProps) {
+  return (
+    <div className="prose prose-slate dark:prose-invert max-w-none">
+      <div className="text-foreground leading-relaxed space-y-4">
+        {summary.sections.map((section, sectionIndex) => (
+          <div key={sectionIndex} className="space-y-3">
+            {section.title && (
+              <h3 className="text-xl font-semibold text-foreground border-b-2 border-valley-primary pb-2 mb-3 text-valley-primary">
+                {section.title}
+              </h3>
+            )}
+            {section.blocks.map((block, blockIndex) =>
+              block.type === 'paragraph' ? (
+                <p key={blockIndex} className="text-lg text-muted-foreground leading-relaxed whitespace-pre-line">
+                  <InlineText text={block.text} highlight={highlight} />
+                </p>
+              ) : (
+                <div key={blockIndex} className="space-y-2 ml-4">
+                  {block.items.map((item, itemIndex) => (
+                    <div key={itemIndex} className="flex items-start space-x-3">
+                      <span className="text-valley-primary mt-1 font-semibold">•</span>
+                      <span className="text-lg text-muted-foreground flex-1">
+                        <InlineText text={item} highlight={highlight} />
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useLocation } from 'wouter';
+import { ArrowLeft, Building2, CalendarClock, FileDown, FileText, Link2, Loader2, Mail, MapPin, Pencil, Phone, Trash2, Unlink, User } from 'lucide-react';
+import type { ClientPortfolioSummary, CoverageGapAnalysis } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { api, type ClientDetail as ClientDetailData, type ClientDetails, type DocumentListItem } from '@/lib/api';
+import { ClientFormDialog } from './ClientFormDialog';
+import { CoverageGapFindings } from './CoverageGapFindings';
+
+interface ClientDetailProps {
+  clientId: number;
+}
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+export function ClientDetail({ clientId }: ClientDetailProps) {
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const clientUrl = `/api/clients/${clientId}`;
+  const portfolioUrl = `/api/clients/${clientId}/portfolio`;
+  const coverageGapsUrl = `/api/clients/${clientId}/coverage-gaps`;
+
+  const { data: client, isLoading, error } = useQuery<ClientDetailData>({
+    queryKey: [clientUrl],
+  });
+  const { data: portfolio } = useQuery<ClientPortfolioSummary>({
+    queryKey: [portfolioUrl],
+    enabled: !!client,
+  });
+  const { data: gapAnalysis } = useQuery<CoverageGapAnalysis>({
+    queryKey: [coverageGapsUrl],
+    enabled: !!client,
+  });
+  const { data: documents = [] } = useQuery<DocumentListItem[]>({
+    queryKey: ['/api/documents'],
+  });
+  const unlinkedDocuments = documents.filter(doc => !doc.clientId);
+
+  const refreshClient = () => {
+    queryClient.invalidateQueries({ queryKey: [clientUrl] });
+    queryClient.invalidateQueries({ queryKey: [portfolioUrl] });
+    queryClient.invalidateQueries({ queryKey: [coverageGapsUrl] });
+    queryClient.invalidateQueries({ queryKey: ['/api/coverage-gaps'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+  };
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong',
+      variant: 'destructive',
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (details: ClientDetails) => api.updateClient(clientId, details),
+    onSuccess: () => {
+      setIsEditOpen(false);
+      toast({ title: 'Client Updated', description: 'Client details have been saved.' });
+      refreshClient();
+    },
+    onError: showError('Update Failed'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteClient(clientId),
+    onSuccess: () => {
+      toast({ title: 'Client Deleted', description: 'Linked policies were kept and unlinked.' });
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/coverage-gaps'] });
+      setLocation('/clients');
+    },
+    onError: showError('Delete Failed'),
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: ({ documentId, link }: { documentId: number; link: boolean }) =>
+      api.setDocumentClient(documentId, link ? clientId : null),
+    onSuccess: refreshClient,
+    onError: showError('Update Failed'),
+  });
+
+  const handleExportGaps = async () => {
+    setIsExporting(true);
+    try {
+      const pdfBlob = await api.exportCoverageGapsPDF(clientId);
+
+      const url = window.URL.createObjectURL(pdfBlob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `coverage-gaps-${client?.name || 'client'}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      showError('Export Failed')(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2 text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading client...</span>
+      </div>
+    );
+  }
+
+  if (error || !client) {
+    return (
+      <div className="space-y-4">
+        <Link href="/clients" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          All clients
+        </Link>
+        <p className="text-red-600">Client not found.</p>
+      </div>
+    );
+  }
+
+  const contactRows = [
+    { icon: User, value: client.contactName },
+    { icon: Mail, value: client.email },
+    { icon: Phone, value: client.phone },
+    { icon: MapPin, value: client.address },
+  ].filter(row => row.value);
+
+  return (
+    <div className="space-y-6">
+      <Link href="/clients" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        All clients
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <Building2 className="w-8 h-8 text-valley-primary" />
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">{client.name}</h1>
+            {client.businessType && <p className="text-muted-foreground">{client.businessType}</p>}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={deleteMutation.isPending}
+            onClick={() => {
+              if (confirm(`Delete ${client.name}? Linked policies are kept.`)) {
+                deleteMutation.mutate();
+              }
+            }}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Contact details */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {contactRows.length === 0 && !client.notes && (
+              <p className="text-muted-foreground">No contact details yet.</p>
+            )}
+            {contactRows.map(({ icon: Icon, value }) => (
+              <div key={value} className="flex items-start space-x-2">
+                <Icon className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                <span className="text-foreground break-words">{value}</span>
+              </div>
+            ))}
+            {client.notes && (
+              <div className="pt-2 border-t border-border">
+                <p className="text-xs font-medium text-muted-foreground mb-1">Notes</p>
+                <p className="text-foreground whitespace-pre-line">{client.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Portfolio summary */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Portfolio Summary</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!portfolio ? (
+              <div className="flex items-center space-x-2 text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Building portfolio summary...</span>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-2xl font-bold text-foreground">{portfolio.totalPolicies}</p>
+                    <p className="text-xs text-muted-foreground">Policies</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-foreground">{portfolio.coverages.length}</p>
+                    <p className="text-xs text-muted-foreground">Coverage lines</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-foreground">
+                      {portfolio.totalPremium !== null ? formatCurrency(portfolio.totalPremium) : '—'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Total premium</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-foreground">{portfolio.exclusionCount}</p>
+                    <p className="text-xs text-muted-foreground">Exclusions</p>
+                  </div>
+                </div>
+
+                {portfolio.nextExpiration && (
+                  <div className="flex items-center space-x-2 text-sm">
+                    <CalendarClock className="w-4 h-4 text-amber-600" />
+                    <span className="text-foreground">
+                      Next expiration: {portfolio.nextExpiration.expirationDate}
+                      {' '}({portfolio.policies.find(p => p.documentId === portfolio.nextExpiration!.documentId)?.policyType})
+                    </span>
+                  </div>
+                )}
+
+                {portfolio.insurers.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {portfolio.insurers.map(insurer => (
+                      <Badge key={insurer} variant="outline">{insurer}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                {portfolio.coverages.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Coverage</TableHead>
+                        <TableHead>Limit</TableHead>
+                        <TableHead>Deductible</TableHead>
+                        <TableHead>Policy</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {portfolio.coverages.map((coverage, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="font-medium">{coverage.coverage}</TableCell>
+                          <TableCell>{coverage.limit}</TableCell>
+                          <TableCell>{coverage.deductible || '—'}</TableCell>
+                          <TableCell>
+                            <Link href={`/summary/${coverage.documentId}`} className="hover:underline">
+                              {coverage.policyType}
+                            </Link>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Coverage gaps */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg">Coverage Gaps</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportGaps}
+              disabled={isExporting || !gapAnalysis || gapAnalysis.policiesAnalyzed === 0}
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+              Export PDF
+            </Button>
+          </div>
+          {gapAnalysis && gapAnalysis.appliedRuleSets.length > 0 && (
+            <p className="text-sm text-muted-foreground">Rules applied: {gapAnalysis.appliedRuleSets.join(', ')}</p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {!gapAnalysis ? (
+            <div className="flex items-center space-x-2 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Analyzing coverage...</span>
+            </div>
+          ) : gapAnalysis.policiesAnalyzed === 0 ? (
+            <p className="text-sm text-muted-foreground">Gap analysis runs once a linked policy has been processed.</p>
+          ) : (
+            <CoverageGapFindings findings={gapAnalysis.findings} />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Linked policies */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Policies</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {client.documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No policies linked to this client yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {client.documents.map(doc => (
+                <div key={doc.id} className="flex items-center justify-between gap-2 rounded-lg border border-border p-2">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    <Link href={`/summary/${doc.id}`} className="truncate text-foreground hover:underline">
+                      {doc.originalName}
+                    </Link>
+                    {!doc.processed && <Badge variant="secondary">Processing</Badge>}
+                    {doc.hasError && <Badge variant="destructive">Error</Badge>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => linkMutation.mutate({ documentId: doc.id, link: false })}
+                    disabled={linkMutation.isPending}
+                    title="Unlink from this client"
+                  >
+                    <Unlink className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {unlinkedDocuments.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Link2 className="w-4 h-4 text-muted-foreground" />
+              <Select
+                value=""
+                onValueChange={(value) => linkMutation.mutate({ documentId: parseInt(value), link: true })}
+              >
+                <SelectTrigger className="max-w-md">
+                  <SelectValue placeholder="Link an existing policy..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {unlinkedDocuments.map(doc => (
+                    <SelectItem key={doc.id} value={doc.id.toString()}>
+                      {doc.originalName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ClientFormDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        initialValues={{
+          name: client.name,
+          contactName: client.contactName,
+          email: client.email,
+          phone: client.phone,
+          address: client.address,
+          businessType: client.businessType,
+          notes: client.notes,
+        }}
+        title="Edit Client"
+        submitLabel="Save Changes"
+        isSubmitting={updateMutation.isPending}
+        onSubmit={(details) => updateMutation.mutate(details)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { ClientDetails } from '@/lib/api';
+
+interface ClientFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialValues?: Partial<ClientDetails>;
+  title: string;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (details: ClientDetails) => void;
+}
+
+const EMPTY_CLIENT: ClientDetails = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  businessType: '',
+  notes: '',
+};
+
+const FIELDS: { key: keyof ClientDetails; label: string; placeholder: string }[] = [
+  { key: 'contactName', label: 'Primary Contact', placeholder: 'Jane Smith' },
+  { key: 'email', label: 'Email', placeholder: 'jane@example.com' },
+  { key: 'phone', label: 'Phone', placeholder: '(540) 555-0100' },
+  { key: 'businessType', label: 'Business Type', placeholder: 'Restaurant, Contractor, ...' },
+  { key: 'address', label: 'Address', placeholder: '123 Main St, Staunton, VA' },
+];
+
+export function ClientFormDialog({
+  open,
+  onOpenChange,
+  initialValues,
+  title,
+  submitLabel,
+  isSubmitting = false,
+  onSubmit,
+}: ClientFormDialogProps) {
+  const [values, setValues] = useState<ClientDetails>(EMPTY_CLIENT);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues({ ...EMPTY_CLIENT, ...initialValues });
+    }
+  }, [open]);
+
+  const update = (key: keyof ClientDetails, value: string) => {
+    setValues(current => ({ ...current, [key]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ ...values, name: values.name.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              Policies whose insured name matches the client name are linked automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-name">Client Name *</Label>
+            <Input
+              id="client-name"
+              value={values.name}
+              onChange={(e) => update('name', e.target.value)}
+              placeholder="Smith's Grille LLC"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {FIELDS.map(field => (
+              <div key={field.key} className={`space-y-2 ${field.key === 'address' ? 'sm:col-span-2' : ''}`}>
+                <Label htmlFor={`client-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`client-${field.key}`}
+                  value={values[field.key] || ''}
+                  onChange={(e) => update(field.key, e.target.value)}
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-notes">Notes</Label>
+            <Textarea
+              id="client-notes"
+              value={values.notes || ''}
+              onChange={(e) => update('notes', e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !values.name.trim()}>
+              {isSubmitting ? 'Saving...' : submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
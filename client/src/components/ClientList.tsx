@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Building2, Loader2, Mail, Phone, Plus, Search, Users } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { api, type ClientListItem } from '@/lib/api';
+import { ClientFormDialog } from './ClientFormDialog';
+
+export function ClientList() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: clients = [], isLoading } = useQuery<ClientListItem[]>({
+    queryKey: ['/api/clients'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: api.createClient,
+    onSuccess: (client) => {
+      setIsCreateOpen(false);
+      toast({
+        title: 'Client Created',
+        description: client.linkedDocuments > 0
+          ? `${client.name} was linked to ${client.linkedDocuments} existing ${client.linkedDocuments === 1 ? 'policy' : 'policies'}.`
+          : `${client.name} was added.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      setLocation(`/clients/${client.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Create Failed',
+        description: error instanceof Error ? error.message : 'Failed to create client',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filteredClients = clients.filter(client => {
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      client.name.toLowerCase().includes(term) ||
+      client.contactName?.toLowerCase().includes(term) ||
+      client.businessType?.toLowerCase().includes(term);
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Clients</h1>
+          <p className="text-muted-foreground">Your clients and the policies on file for each</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Client
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Search clients..."
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Loading clients...</span>
+        </div>
+      ) : filteredClients.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            <Users className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            {clients.length === 0 ? (
+              <p>No clients yet. Create one to group its policies together.</p>
+            ) : (
+              <p>No clients match your search.</p>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filteredClients.map(client => (
+            <Card
+              key={client.id}
+              className="cursor-pointer hover:bg-muted/50 transition-colors"
+              onClick={() => setLocation(`/clients/${client.id}`)}
+            >
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <Building2 className="w-5 h-5 text-valley-primary flex-shrink-0" />
+                    <span className="font-medium text-foreground truncate">{client.name}</span>
+                  </div>
+                  <Badge variant="secondary" className="flex-shrink-0">
+                    {client.policyCount} {client.policyCount === 1 ? 'policy' : 'policies'}
+                  </Badge>
+                </div>
+                {client.businessType && (
+                  <p className="text-sm text-muted-foreground">{client.businessType}</p>
+                )}
+                <div className="space-y-1 text-sm text-muted-foreground">
+                  {client.email && (
+                    <div className="flex items-center space-x-2">
+                      <Mail className="w-3 h-3" />
+                      <span className="truncate">{client.email}</span>
+                    </div>
+                  )}
+                  {client.phone && (
+                    <div className="flex items-center space-x-2">
+                      <Phone className="w-3 h-3" />
+                      <span>{client.phone}</span>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ClientFormDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        title="New Client"
+        submitLabel="Create Client"
+        isSubmitting={createMutation.isPending}
+        onSubmit={(details) => createMutation.mutate(details)}
+      />
+    </div>
+  );
+}
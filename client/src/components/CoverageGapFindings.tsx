@@ -0,0 +1,46 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import type { CoverageGapFinding, GapPriority } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+
+const PRIORITY_STYLES: Record<GapPriority, string> = {
+  high: 'bg-red-600 text-white hover:bg-red-600',
+  medium: 'bg-amber-500 text-white hover:bg-amber-500',
+  low: 'bg-slate-200 text-slate-700 hover:bg-slate-200',
+};
+
+interface CoverageGapFindingsProps {
+  findings: CoverageGapFinding[];
+}
+
+export function CoverageGapFindings({ findings }: CoverageGapFindingsProps) {
+  if (findings.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-green-700 dark:text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        <span>No coverage gaps found across the policies on file.</span>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {findings.map((finding, index) => (
+        <li key={index} className="flex items-start gap-3">
+          <Badge className={`w-16 justify-center uppercase text-[10px] flex-shrink-0 ${PRIORITY_STYLES[finding.priority]}`}>
+            {finding.priority}
+          </Badge>
+          <div className="space-y-1 text-sm">
+            <p className="font-medium text-foreground flex items-center gap-1">
+              {finding.priority === 'high' && <AlertTriangle className="w-3 h-3 text-red-600" />}
+              {finding.title}
+            </p>
+            <p className="text-muted-foreground">{finding.detail}</p>
+            <p className="text-foreground">
+              <span className="font-medium">Recommendation:</span> {finding.recommendation}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
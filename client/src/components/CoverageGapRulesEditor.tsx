@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { RefreshCw, Save, ShieldAlert } from "lucide-react";
+import { COVERAGE_LINE_LABELS, GapRuleSetsSchema, type GapRuleSet } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface GapRulesResponse {
+  ruleSets: GapRuleSet[];
+  isDefault: boolean;
+  defaults: GapRuleSet[];
+}
+
+// Rule sets are edited as JSON: one entry per business type, with the keywords
+// matched against the client's business type and the lines it should carry
+export function CoverageGapRulesEditor() {
+  const { toast } = useToast();
+  const [rulesText, setRulesText] = useState("");
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const { data: rules } = useQuery<GapRulesResponse>({
+    queryKey: ["/api/coverage-gaps/rules"],
+  });
+
+  useEffect(() => {
+    if (rules) {
+      setRulesText(JSON.stringify(rules.ruleSets, null, 2));
+    }
+  }, [rules]);
+
+  const saveRulesMutation = useMutation({
+    // An empty list falls back to the built-in defaults
+    mutationFn: async (gapAnalysisRules: GapRuleSet[]) => {
+      const response = await apiRequest("PUT", "/api/settings", { gapAnalysisRules });
+      return response.json();
+    },
+    onSuccess: (_data, gapAnalysisRules) => {
+      toast({
+        title: gapAnalysisRules.length === 0 ? "Rules reset" : "Rules saved",
+        description: gapAnalysisRules.length === 0
+          ? "Coverage gap analysis is using the built-in rules again."
+          : "Coverage gap analysis will use your rules from now on.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/coverage-gaps/rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/coverage-gaps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save coverage gap rules.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rulesText);
+    } catch {
+      setParseError("Rules must be valid JSON.");
+      return;
+    }
+
+    const result = GapRuleSetsSchema.safeParse(parsed);
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      setParseError(`${issue.path.join(".") || "rules"}: ${issue.message}`);
+      return;
+    }
+
+    setParseError(null);
+    saveRulesMutation.mutate(result.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldAlert className="w-5 h-5" />
+          <span>Coverage Gap Rules</span>
+          {rules?.isDefault && <Badge variant="secondary">Built-in</Badge>}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Lines of coverage each kind of client should carry. A rule set applies when one of its keywords appears in
+          the client's business type; a rule set with no keywords applies to every commercial client.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={rulesText}
+          onChange={(e) => setRulesText(e.target.value)}
+          rows={18}
+          className="font-mono text-xs"
+          spellCheck={false}
+        />
+        {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+
+        <div className="bg-muted/50 rounded-lg p-4">
+          <p className="text-sm text-muted-foreground">
+            <strong>Coverage lines:</strong>{" "}
+            {Object.entries(COVERAGE_LINE_LABELS).map(([line, label]) => `${line} (${label})`).join(", ")}
+          </p>
+        </div>
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={saveRulesMutation.isPending || rules?.isDefault}
+            onClick={() => saveRulesMutation.mutate([])}
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Use Built-in Rules
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={saveRulesMutation.isPending || !rules}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {saveRulesMutation.isPending ? (
+              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save Rules
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Building2, Loader2, ShieldAlert } from 'lucide-react';
+import type { CoverageGapAnalysis } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CoverageGapFindings } from './CoverageGapFindings';
+
+// Dashboard view of gap findings for every client with processed policies,
+// ordered by the server so the most urgent clients come first
+export function CoverageGapsPanel() {
+  const { data: analyses = [], isLoading } = useQuery<CoverageGapAnalysis[]>({
+    queryKey: ['/api/coverage-gaps'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2 text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Analyzing client portfolios...</span>
+      </div>
+    );
+  }
+
+  if (analyses.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <ShieldAlert className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500">
+          Link processed policies to a client to see coverage gaps across their portfolio.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {analyses.map(analysis => {
+        const highCount = analysis.findings.filter(finding => finding.priority === 'high').length;
+        return (
+          <Card key={analysis.clientId}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-2">
+                <CardTitle className="text-lg flex items-center space-x-2">
+                  <Building2 className="w-5 h-5 text-valley-primary" />
+                  <Link href={`/clients/${analysis.clientId}`} className="hover:underline">
+                    {analysis.clientName}
+                  </Link>
+                </CardTitle>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {highCount > 0 && <Badge variant="destructive">{highCount} high</Badge>}
+                  <Badge variant="secondary">
+                    {analysis.policiesAnalyzed} {analysis.policiesAnalyzed === 1 ? 'policy' : 'policies'}
+                  </Badge>
+                </div>
+              </div>
+              {analysis.businessType && (
+                <p className="text-sm text-muted-foreground">{analysis.businessType}</p>
+              )}
+            </CardHeader>
+            <CardContent>
+              <CoverageGapFindings findings={analysis.findings} />
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Activity, Loader2 } from 'lucide-react';
+import type { AuditAction } from '@shared/schema';
+import type { DocumentActivityItem } from '@/lib/api';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  upload: 'Uploaded',
+  view: 'Viewed',
+  download_original: 'Downloaded original',
+  reprocess: 'Reprocessed',
+  cancel_processing: 'Cancelled processing',
+  edit_summary: 'Edited summary',
+  regenerate_summary: 'Regenerated summary',
+  restore_summary: 'Restored summary',
+  delete_summary_version: 'Deleted summary version',
+  export: 'Exported PDF',
+  export_comparison: 'Exported comparison',
+  delete: 'Deleted',
+  link_client: 'Changed client',
+  reassign: 'Reassigned',
+  submit_review: 'Submitted for review',
+  comment: 'Commented',
+  resolve_comment: 'Resolved comment',
+  approve: 'Approved',
+  request_changes: 'Requested changes',
+  share: 'Shared with client',
+  revoke_share: 'Revoked share link',
+  email: 'Emailed to client',
+  create_client: 'Added client',
+  update_client: 'Updated client',
+  delete_client: 'Deleted client',
+  create_pdf_template: 'Uploaded PDF template',
+  update_pdf_template: 'Updated PDF template',
+  delete_pdf_template: 'Deleted PDF template',
+  create_preset: 'Saved processing preset',
+  update_preset: 'Updated processing preset',
+  delete_preset: 'Deleted processing preset',
+  update_settings: 'Changed settings',
+  update_agency: 'Changed agency settings',
+  add_member: 'Added agency member',
+  change_member_role: 'Changed member role',
+  remove_member: 'Removed agency member',
+};
+
+// Short form of a summary hash, enough to tell versions apart at a glance
+function shortHash(hash: string | null): string {
+  return hash ? hash.slice(0, 8) : '—';
+}
+
+function describeDetails(item: DocumentActivityItem): string | null {
+  const details = item.details;
+  switch (item.action) {
+    case 'export':
+      return [details.template && `Template: ${details.template}`, details.clientName && `Client: ${details.clientName}`, details.customSummary && 'custom summary']
+        .filter(Boolean).join(' · ') || null;
+    case 'restore_summary':
+      return `From version ${details.restoredFromVersion}`;
+    case 'delete_summary_version':
+      return `Version ${details.version}`;
+    case 'approve':
+      return details.approvedVersion ? `Version ${details.approvedVersion}` : null;
+    case 'link_client':
+      return details.clientName ? `Linked to ${details.clientName}` : 'Unlinked from client';
+    case 'reassign':
+      return details.toAgentName ? `To ${details.toAgentName}` : null;
+    case 'share':
+      return [details.label && `With ${details.label}`, details.expiresAt && `Expires ${new Date(String(details.expiresAt)).toLocaleDateString()}`]
+        .filter(Boolean).join(' · ') || null;
+    case 'revoke_share':
+      return details.label ? `Link for ${details.label}` : null;
+    case 'email': {
+      const recipients = [...(details.to as string[] ?? []), ...(details.cc as string[] ?? [])].join(', ');
+      return [recipients && `To ${recipients}`, details.method === 'link' ? 'share link' : 'PDF attached', details.status === 'failed' && 'failed']
+        .filter(Boolean).join(' · ') || null;
+    }
+    case 'comment':
+    case 'request_changes':
+      return details.section ? `On ${details.section}` : null;
+    default:
+      return null;
+  }
+}
+
+interface DocumentActivityDialogProps {
+  documentId: number | null;
+  documentName?: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Who viewed, changed, exported or reviewed a document, from the audit trail
+export function DocumentActivityDialog({ documentId, documentName, isOpen, onClose }: DocumentActivityDialogProps) {
+  const { data: activity = [], isLoading } = useQuery<DocumentActivityItem[]>({
+    queryKey: [`/api/documents/${documentId}/activity`],
+    enabled: !!documentId && isOpen,
+    // Every action adds to the trail; reload whenever the dialog opens
+    staleTime: 0,
+  });
+
+  if (!documentId) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Activity className="w-5 h-5" />
+            <span>Activity</span>
+          </DialogTitle>
+          <DialogDescription>
+            {documentName ? `Everything done to ${documentName}` : 'Everything done to this document'}, newest first.
+            Summary fingerprints change whenever the summary text does.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : activity.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No activity recorded yet.</p>
+        ) : (
+          <ScrollArea className="h-[55vh] pr-4">
+            <ol className="relative border-l border-border ml-2 space-y-4">
+              {activity.map(item => {
+                const details = describeDetails(item);
+                const changed = item.beforeHash !== item.afterHash;
+                return (
+                  <li key={item.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-background bg-blue-600" />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium text-foreground">{AUDIT_ACTION_LABELS[item.action] ?? item.action}</span>
+                      <span className="text-sm text-muted-foreground">by {item.actorName}</span>
+                      {changed && <Badge variant="outline" className="text-xs">summary changed</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{new Date(item.createdAt).toLocaleString()}</p>
+                    {details && <p className="text-xs text-muted-foreground mt-0.5">{details}</p>}
+                    {(item.beforeHash || item.afterHash) && (
+                      <p className="text-xs text-muted-foreground font-mono mt-0.5">
+                        {changed ? `${shortHash(item.beforeHash)} → ${shortHash(item.afterHash)}` : shortHash(item.afterHash)}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
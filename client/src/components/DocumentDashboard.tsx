@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { 
   FileText, 
@@ -12,6 +12,9 @@ import {
   Eye,
   Download,
   History,
+  Activity,
+  Link2,
+  Send,
   Check,
   X,
   CheckSquare,
@@ -19,7 +22,13 @@ import {
   ExternalLink,
   FileDown,
   AlertCircle,
-  ChevronDown
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  Package,
+  GitCompare,
+  ShieldAlert
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -41,10 +50,21 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
 import { SummaryHistoryDialog } from "./SummaryHistoryDialog";
+import { DocumentActivityDialog } from "./DocumentActivityDialog";
+import { ShareLinksDialog } from "./ShareLinksDialog";
+import { SendEmailDialog } from "./SendEmailDialog";
+import { REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES } from "./SummaryReview";
+import type { ReviewStatus } from "@shared/schema";
 import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { api, type BatchSummary, type DocumentSearchParams, type DocumentSearchResponse } from "@/lib/api";
+import { BatchProgressCard } from "./BatchProgressCard";
+import { CoverageGapsPanel } from "./CoverageGapsPanel";
+import { DocumentSearchFilters, type DocumentFacetFilters } from "./DocumentSearchFilters";
 
 interface DocumentListItem {
   id: number;
@@ -61,27 +81,75 @@ interface DocumentListItem {
   policyReference?: string;
   pdfExportCount?: number;
   lastExportedAt?: string;
+  hasOriginal?: boolean;
+  reviewStatus?: ReviewStatus;
+  insurer?: string | null;
+  expirationDate?: string | null;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 24;
+
 export function DocumentDashboard() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState("uploadedAt");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [sortBy, setSortBy] = useState<NonNullable<DocumentSearchParams['sort']>>("relevance");
   const [filterBy, setFilterBy] = useState("all");
+  const [facetFilters, setFacetFilters] = useState<DocumentFacetFilters>({});
+  const [page, setPage] = useState(1);
   const [viewMode, setViewMode] = useState("grid");
   const [selectedDocuments, setSelectedDocuments] = useState<number[]>([]);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
   const [selectedDocumentForHistory, setSelectedDocumentForHistory] = useState<number | null>(null);
+  const [activityDocument, setActivityDocument] = useState<DocumentListItem | null>(null);
+  const [shareDocument, setShareDocument] = useState<DocumentListItem | null>(null);
+  const [emailDocument, setEmailDocument] = useState<DocumentListItem | null>(null);
   const [expandedCards, setExpandedCards] = useState<Set<number>>(new Set());
+  const [reprocessDocument, setReprocessDocument] = useState<DocumentListItem | null>(null);
+  const [reprocessSummaryLength, setReprocessSummaryLength] = useState<'short' | 'detailed'>('short');
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
-  const { data: documents = [], isLoading } = useQuery<DocumentListItem[]>({
+  const { data: documents = [] } = useQuery<DocumentListItem[]>({
     queryKey: ['/api/documents'],
   });
 
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // A new search or filter starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedQuery, sortBy, filterBy, facetFilters]);
+
+  const searchParams: DocumentSearchParams = {
+    ...facetFilters,
+    q: debouncedQuery || undefined,
+    processed: filterBy === "all" ? undefined : filterBy === "processed",
+    sort: sortBy,
+    page,
+    pageSize: PAGE_SIZE,
+  };
+  // Keyed under '/api/documents' so every change that refreshes the document list refreshes results too
+  const { data: searchResults, isLoading } = useQuery<DocumentSearchResponse>({
+    queryKey: ['/api/documents', 'search', searchParams],
+    queryFn: () => api.searchDocuments(searchParams),
+    placeholderData: keepPreviousData,
+  });
+  const pageDocuments = (searchResults?.documents ?? []) as DocumentListItem[];
+  const totalResults = searchResults?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(totalResults / PAGE_SIZE));
+  const isFiltered = !!debouncedQuery || filterBy !== "all" || Object.values(facetFilters).some(value => Array.isArray(value) ? value.length > 0 : value !== undefined);
+
+  const { data: batches = [] } = useQuery<BatchSummary[]>({
+    queryKey: ['/api/batches'],
+  });
+
   const deleteDocumentMutation = useMutation({
     mutationFn: async (id: number) => {
       return apiRequest('DELETE', `/api/documents/${id}`);
@@ -106,6 +174,47 @@ export function DocumentDashboard() {
     },
   });
 
+  const reprocessMutation = useMutation({
+    mutationFn: async ({ id, summaryLength }: { id: number; summaryLength: 'short' | 'detailed' }) => {
+      return api.reprocessDocument(id, { summaryLength });
+    },
+    onSuccess: () => {
+      setReprocessDocument(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      toast({
+        title: "Reprocessing Started",
+        description: "The original file is being processed again.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Reprocess Failed",
+        description: error instanceof Error ? error.message : "Failed to reprocess document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownloadOriginal = async (document: DocumentListItem) => {
+    try {
+      const blob = await api.downloadOriginal(document.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = document.originalName;
+      window.document.body.appendChild(link);
+      link.click();
+      window.URL.revokeObjectURL(url);
+      window.document.body.removeChild(link);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Failed to download original file",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Selection helper functions
   const toggleDocumentSelection = (id: number) => {
     setSelectedDocuments(prev => 
@@ -116,7 +225,7 @@ export function DocumentDashboard() {
   };
 
   const selectAllDocuments = () => {
-    const allIds = filteredDocuments.map((doc: DocumentListItem) => doc.id);
+    const allIds = pageDocuments.map((doc: DocumentListItem) => doc.id);
     setSelectedDocuments(allIds);
   };
 
@@ -168,31 +277,6 @@ export function DocumentDashboard() {
     });
   };
 
-  const filteredDocuments = documents.filter((doc: DocumentListItem) => {
-    const matchesSearch = doc.originalName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         doc.clientName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         doc.policyReference?.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesFilter = filterBy === "all" || 
-                         (filterBy === "processed" && doc.processed) ||
-                         (filterBy === "unprocessed" && !doc.processed);
-    
-    return matchesSearch && matchesFilter;
-  });
-
-  const sortedDocuments = [...filteredDocuments].sort((a, b) => {
-    switch (sortBy) {
-      case "name":
-        return a.originalName.localeCompare(b.originalName);
-      case "size":
-        return b.fileSize - a.fileSize;
-      case "lastViewed":
-        return new Date(b.lastViewedAt || 0).getTime() - new Date(a.lastViewedAt || 0).getTime();
-      default:
-        return new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime();
-    }
-  });
-
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -340,6 +424,38 @@ export function DocumentDashboard() {
                     <History className="w-4 h-4 mr-2" />
                     Version History
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setShareDocument(document)}
+                    disabled={!document.processed}
+                  >
+                    <Link2 className="w-4 h-4 mr-2" />
+                    Share with Client
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setEmailDocument(document)}
+                    disabled={!document.processed}
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    Email to Client
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setActivityDocument(document)}>
+                    <Activity className="w-4 h-4 mr-2" />
+                    Activity
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => handleDownloadOriginal(document)}
+                    disabled={!document.hasOriginal}
+                  >
+                    <FileDown className="w-4 h-4 mr-2" />
+                    Download Original
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setReprocessDocument(document)}
+                    disabled={!document.hasOriginal || !document.processed}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Reprocess from Source
+                  </DropdownMenuItem>
 
                   <DropdownMenuItem
                     className="text-red-600"
@@ -381,6 +497,18 @@ export function DocumentDashboard() {
                 </div>
               )}
               
+              {document.insurer && (
+                <div className="text-sm">
+                  <span className="font-medium">Insurer:</span> {document.insurer}
+                </div>
+              )}
+
+              {document.expirationDate && (
+                <div className="text-sm">
+                  <span className="font-medium">Expires:</span> {new Date(document.expirationDate).toLocaleDateString('en-US', { timeZone: 'UTC' })}
+                </div>
+              )}
+              
               {document.pdfExportCount && document.pdfExportCount > 0 && (
                 <div className="text-sm">
                   <span className="font-medium">PDF Exports:</span> {document.pdfExportCount}
@@ -392,6 +520,12 @@ export function DocumentDashboard() {
                   {document.processed ? "Processed" : "Processing..."}
                 </Badge>
 
+                {document.processed && document.reviewStatus && document.reviewStatus !== "draft" && (
+                  <Badge className={REVIEW_STATUS_STYLES[document.reviewStatus]}>
+                    {REVIEW_STATUS_LABELS[document.reviewStatus]}
+                  </Badge>
+                )}
+
                 {document.processingError && (
                   <Badge variant="destructive">Error</Badge>
                 )}
@@ -469,173 +603,285 @@ export function DocumentDashboard() {
         </div>
       </div>
 
-      {/* Search and Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-          <Input
-            placeholder="Search documents, clients, or policy references..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+      <Tabs defaultValue="documents" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="documents" className="flex items-center space-x-2">
+            <FileText className="w-4 h-4" />
+            <span>Documents</span>
+          </TabsTrigger>
+          <TabsTrigger value="batches" className="flex items-center space-x-2">
+            <Package className="w-4 h-4" />
+            <span>Batch Uploads</span>
+            {batches.length > 0 && <Badge variant="secondary" className="ml-1">{batches.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="coverage-gaps" className="flex items-center space-x-2">
+            <ShieldAlert className="w-4 h-4" />
+            <span>Coverage Gaps</span>
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="documents" className="space-y-6">
+          {/* Search and Filters */}
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Search names, insureds, insurers, form codes or policy text..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
         
-        <Select value={filterBy} onValueChange={setFilterBy}>
-          <SelectTrigger className="w-48">
-            <SelectValue placeholder="Filter by..." />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Documents</SelectItem>
-            <SelectItem value="processed">Processed</SelectItem>
-            <SelectItem value="unprocessed">Unprocessed</SelectItem>
-          </SelectContent>
-        </Select>
+            <Select value={filterBy} onValueChange={setFilterBy}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Filter by..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Documents</SelectItem>
+                <SelectItem value="processed">Processed</SelectItem>
+                <SelectItem value="unprocessed">Unprocessed</SelectItem>
+              </SelectContent>
+            </Select>
         
-        <Select value={sortBy} onValueChange={setSortBy}>
-          <SelectTrigger className="w-48">
-            <SelectValue placeholder="Sort by..." />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="uploadedAt">Upload Date</SelectItem>
-            <SelectItem value="lastViewed">Last Viewed</SelectItem>
-            <SelectItem value="name">Name</SelectItem>
-            <SelectItem value="size">File Size</SelectItem>
-          </SelectContent>
-        </Select>
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as typeof sortBy)}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Sort by..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relevance">Best Match</SelectItem>
+                <SelectItem value="uploadedAt">Upload Date</SelectItem>
+                <SelectItem value="expirationDate">Expiration Date</SelectItem>
+                <SelectItem value="lastViewed">Last Viewed</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+                <SelectItem value="size">File Size</SelectItem>
+              </SelectContent>
+            </Select>
         
-        {/* Batch Selection Controls */}
-        <div className="flex items-center gap-2">
-          <Button
-            variant={isSelectionMode ? "default" : "outline"}
-            size="sm"
-            onClick={() => {
-              setIsSelectionMode(!isSelectionMode);
-              if (!isSelectionMode) {
-                setSelectedDocuments([]);
-              }
-            }}
-          >
-            <CheckSquare className="w-4 h-4 mr-2" />
-            {isSelectionMode ? 'Exit Selection' : 'Select'}
-          </Button>
-        </div>
-      </div>
-
-      {/* Batch Action Bar */}
-      {isSelectionMode && (
-        <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-4 flex items-center justify-between">
-          <div className="flex items-center gap-4">
+            {/* Batch Selection Controls */}
             <div className="flex items-center gap-2">
               <Button
-                variant="outline"
+                variant={isSelectionMode ? "default" : "outline"}
                 size="sm"
-                onClick={selectedDocuments.length === filteredDocuments.length ? deselectAllDocuments : selectAllDocuments}
+                onClick={() => {
+                  setIsSelectionMode(!isSelectionMode);
+                  if (!isSelectionMode) {
+                    setSelectedDocuments([]);
+                  }
+                }}
               >
-                {selectedDocuments.length === filteredDocuments.length ? (
-                  <Square className="w-4 h-4 mr-2" />
-                ) : (
-                  <CheckSquare className="w-4 h-4 mr-2" />
-                )}
-                {selectedDocuments.length === filteredDocuments.length ? 'Deselect All' : 'Select All'}
+                <CheckSquare className="w-4 h-4 mr-2" />
+                {isSelectionMode ? 'Exit Selection' : 'Select'}
               </Button>
-              
-              <span className="text-sm text-muted-foreground">
-                {selectedDocuments.length} of {filteredDocuments.length} selected
-              </span>
             </div>
           </div>
+
+          <DocumentSearchFilters
+            facets={searchResults?.facets}
+            filters={facetFilters}
+            onChange={setFacetFilters}
+          />
+
+          {/* Batch Action Bar */}
+          {isSelectionMode && (
+            <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-4 flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={selectedDocuments.length === pageDocuments.length ? deselectAllDocuments : selectAllDocuments}
+                  >
+                    {selectedDocuments.length === pageDocuments.length ? (
+                      <Square className="w-4 h-4 mr-2" />
+                    ) : (
+                      <CheckSquare className="w-4 h-4 mr-2" />
+                    )}
+                    {selectedDocuments.length === pageDocuments.length ? 'Deselect All' : 'Select All'}
+                  </Button>
+              
+                  <span className="text-sm text-muted-foreground">
+                    {selectedDocuments.length} of {pageDocuments.length} selected
+                  </span>
+                </div>
+              </div>
           
-          <div className="flex items-center gap-2">
-            <Button
-              variant="destructive"
-              size="sm"
-              onClick={handleBatchDelete}
-              disabled={selectedDocuments.length === 0 || batchDeleteMutation.isPending}
-            >
-              <Trash2 className="w-4 h-4 mr-2" />
-              {batchDeleteMutation.isPending ? 'Deleting...' : `Delete ${selectedDocuments.length}`}
-            </Button>
-            
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => {
-                setIsSelectionMode(false);
-                setSelectedDocuments([]);
-              }}
-            >
-              <X className="w-4 h-4 mr-2" />
-              Cancel
-            </Button>
-          </div>
-        </div>
-      )}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLocation(`/compare?ids=${selectedDocuments.join(',')}`)}
+                  disabled={selectedDocuments.length < 2 || selectedDocuments.length > 5}
+                  title="Compare 2-5 processed policies side by side"
+                >
+                  <GitCompare className="w-4 h-4 mr-2" />
+                  Compare {selectedDocuments.length}
+                </Button>
 
-      {/* Statistics */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <Card>
-          <CardContent className="p-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600">Total Documents</p>
-                <p className="text-2xl font-bold">{documents.length}</p>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={handleBatchDelete}
+                  disabled={selectedDocuments.length === 0 || batchDeleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  {batchDeleteMutation.isPending ? 'Deleting...' : `Delete ${selectedDocuments.length}`}
+                </Button>
+            
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setIsSelectionMode(false);
+                    setSelectedDocuments([]);
+                  }}
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
               </div>
-              <FileText className="w-8 h-8 text-blue-500" />
             </div>
-          </CardContent>
-        </Card>
+          )}
+
+          {/* Statistics */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Total Documents</p>
+                    <p className="text-2xl font-bold">{documents.length}</p>
+                  </div>
+                  <FileText className="w-8 h-8 text-blue-500" />
+                </div>
+              </CardContent>
+            </Card>
         
-        <Card>
-          <CardContent className="p-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600">Processed</p>
-                <p className="text-2xl font-bold">
-                  {documents.filter((d: DocumentListItem) => d.processed).length}
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Processed</p>
+                    <p className="text-2xl font-bold">
+                      {documents.filter((d: DocumentListItem) => d.processed).length}
+                    </p>
+                  </div>
+                  <Calendar className="w-8 h-8 text-green-500" />
+                </div>
+              </CardContent>
+            </Card>
+        
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">PDF Exports</p>
+                    <p className="text-2xl font-bold">
+                      {documents.reduce((total: number, d: DocumentListItem) => total + (d.pdfExportCount || 0), 0)}
+                    </p>
+                  </div>
+                  <Download className="w-8 h-8 text-purple-500" />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Documents Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {isLoading ? (
+              <div className="col-span-full text-center py-8">
+                <p className="text-gray-500">Loading documents...</p>
+              </div>
+            ) : pageDocuments.length === 0 ? (
+              <div className="col-span-full text-center py-8">
+                <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-500">
+                  {isFiltered
+                    ? "No documents match your search criteria" 
+                    : "No documents uploaded yet"}
                 </p>
               </div>
-              <Calendar className="w-8 h-8 text-green-500" />
-            </div>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardContent className="p-4">
+            ) : (
+              pageDocuments.map((document: DocumentListItem) => (
+                <DocumentCard key={document.id} document={document} />
+              ))
+            )}
+          </div>
+
+          {totalResults > PAGE_SIZE && (
             <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600">PDF Exports</p>
-                <p className="text-2xl font-bold">
-                  {documents.reduce((total: number, d: DocumentListItem) => total + (d.pdfExportCount || 0), 0)}
-                </p>
+              <p className="text-sm text-muted-foreground">
+                Showing {(page - 1) * PAGE_SIZE + 1}-{Math.min(page * PAGE_SIZE, totalResults)} of {totalResults}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {page} of {pageCount}</span>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
               </div>
-              <Download className="w-8 h-8 text-purple-500" />
             </div>
-          </CardContent>
-        </Card>
-      </div>
+          )}
 
-      {/* Documents Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {isLoading ? (
-          <div className="col-span-full text-center py-8">
-            <p className="text-gray-500">Loading documents...</p>
-          </div>
-        ) : sortedDocuments.length === 0 ? (
-          <div className="col-span-full text-center py-8">
-            <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-500">
-              {searchQuery || filterBy !== "all" 
-                ? "No documents match your search criteria" 
-                : "No documents uploaded yet"}
-            </p>
+        </TabsContent>
+
+        <TabsContent value="batches" className="space-y-4">
+          {batches.length === 0 ? (
+            <div className="text-center py-8">
+              <Package className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No batch uploads yet. Drop several policies or a ZIP file on the upload page to start one.</p>
+            </div>
+          ) : (
+            batches.map(batch => (
+              <BatchProgressCard key={batch.id} batchId={batch.id} />
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="coverage-gaps" className="space-y-4">
+          <CoverageGapsPanel />
+        </TabsContent>
+      </Tabs>
+
+      {/* Reprocess Dialog */}
+      <Dialog open={!!reprocessDocument} onOpenChange={(open) => !open && setReprocessDocument(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reprocess from Source</DialogTitle>
+            <DialogDescription>
+              Re-run text extraction and AI analysis on the original file for {reprocessDocument?.originalName}. The new summary is saved as a new version.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Summary Length</Label>
+            <Select value={reprocessSummaryLength} onValueChange={(value) => setReprocessSummaryLength(value as 'short' | 'detailed')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="short">Brief</SelectItem>
+                <SelectItem value="detailed">Detailed</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
-        ) : (
-          sortedDocuments.map((document: DocumentListItem) => (
-            <DocumentCard key={document.id} document={document} />
-          ))
-        )}
-      </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReprocessDocument(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reprocessDocument && reprocessMutation.mutate({ id: reprocessDocument.id, summaryLength: reprocessSummaryLength })}
+              disabled={reprocessMutation.isPending}
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {reprocessMutation.isPending ? 'Starting...' : 'Reprocess'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       {/* Summary History Dialog */}
       <SummaryHistoryDialog
@@ -646,6 +892,30 @@ export function DocumentDashboard() {
           setSelectedDocumentForHistory(null);
         }}
       />
+
+      {/* Document Activity Dialog */}
+      <DocumentActivityDialog
+        documentId={activityDocument?.id ?? null}
+        documentName={activityDocument?.originalName}
+        isOpen={!!activityDocument}
+        onClose={() => setActivityDocument(null)}
+      />
+
+      {/* Share Links Dialog */}
+      <ShareLinksDialog
+        documentId={shareDocument?.id ?? null}
+        documentName={shareDocument?.originalName}
+        isOpen={!!shareDocument}
+        onClose={() => setShareDocument(null)}
+      />
+
+      {/* Send Email Dialog */}
+      <SendEmailDialog
+        documentId={emailDocument?.id ?? null}
+        documentName={emailDocument?.originalName}
+        isOpen={!!emailDocument}
+        onClose={() => setEmailDocument(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { Star, Tag, X } from "lucide-react";
+import type { DocumentSearchFacets, ExportStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DocumentSearchParams } from "@/lib/api";
+
+export type DocumentFacetFilters = Pick<DocumentSearchParams, 'tags' | 'favorite' | 'clientId' | 'insurer' | 'expiresFrom' | 'expiresTo' | 'exportStatus'>;
+
+const ANY = "all";
+
+interface DocumentSearchFiltersProps {
+  facets?: DocumentSearchFacets;
+  filters: DocumentFacetFilters;
+  onChange: (filters: DocumentFacetFilters) => void;
+}
+
+// Facet filters for the document search; counts cover every result, not just the current page
+export function DocumentSearchFilters({ facets, filters, onChange }: DocumentSearchFiltersProps) {
+  const update = (changes: Partial<DocumentFacetFilters>) => onChange({ ...filters, ...changes });
+  const selectedTags = filters.tags ?? [];
+  const toggleTag = (tag: string) => update({
+    tags: selectedTags.includes(tag) ? selectedTags.filter(selected => selected !== tag) : [...selectedTags, tag],
+  });
+  const isFiltered = Object.values(filters).some(value => Array.isArray(value) ? value.length > 0 : value !== undefined);
+  // Selected tags stay visible even when they drop out of the facet counts
+  const tags = [
+    ...(facets?.tags ?? []),
+    ...selectedTags.filter(tag => !facets?.tags.some(facet => facet.value === tag)).map(tag => ({ value: tag, label: tag, count: 0 })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Insurer</Label>
+          <Select value={filters.insurer ?? ANY} onValueChange={(value) => update({ insurer: value === ANY ? undefined : value })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All insurers</SelectItem>
+              {facets?.insurers.map(insurer => (
+                <SelectItem key={insurer.value} value={insurer.value}>{insurer.label} ({insurer.count})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Client</Label>
+          <Select value={filters.clientId ? String(filters.clientId) : ANY} onValueChange={(value) => update({ clientId: value === ANY ? undefined : Number(value) })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All clients</SelectItem>
+              {facets?.clients.map(client => (
+                <SelectItem key={client.value} value={String(client.value)}>{client.label} ({client.count})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Exports</Label>
+          <Select value={filters.exportStatus ?? ANY} onValueChange={(value) => update({ exportStatus: value === ANY ? undefined : value as ExportStatus })}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any export status</SelectItem>
+              <SelectItem value="exported">Exported ({facets?.exportStatus.exported ?? 0})</SelectItem>
+              <SelectItem value="notExported">Not exported ({facets?.exportStatus.notExported ?? 0})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="expires-from" className="text-xs text-muted-foreground">Expires between</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="expires-from"
+              type="date"
+              className="w-40"
+              value={filters.expiresFrom ?? ""}
+              min={facets?.expiration.earliest?.slice(0, 10)}
+              onChange={(e) => update({ expiresFrom: e.target.value || undefined })}
+            />
+            <span className="text-sm text-muted-foreground">and</span>
+            <Input
+              type="date"
+              aria-label="Expires on or before"
+              className="w-40"
+              value={filters.expiresTo ?? ""}
+              max={facets?.expiration.latest?.slice(0, 10)}
+              onChange={(e) => update({ expiresTo: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        <Button
+          type="button"
+          variant={filters.favorite ? "default" : "outline"}
+          onClick={() => update({ favorite: filters.favorite ? undefined : true })}
+        >
+          <Star className="w-4 h-4 mr-2" />
+          Favorites ({facets?.favorites ?? 0})
+        </Button>
+
+        {isFiltered && (
+          <Button type="button" variant="ghost" onClick={() => onChange({})}>
+            <X className="w-4 h-4 mr-2" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Tag className="w-4 h-4 text-muted-foreground" />
+          {tags.map(tag => (
+            <Badge
+              key={tag.value}
+              variant={selectedTags.includes(tag.value) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => toggleTag(tag.value)}
+            >
+              {tag.label} ({tag.count})
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
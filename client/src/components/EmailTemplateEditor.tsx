@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Mail, RefreshCw, Save } from "lucide-react";
+import { DEFAULT_EMAIL_TEMPLATE, EMAIL_TEMPLATE_FIELDS, EmailTemplateSchema, type EmailTemplate } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// The cover email used when sending summaries to clients; saved separately from the profile form
+export function EmailTemplateEditor() {
+  const { toast } = useToast();
+  const [template, setTemplate] = useState<EmailTemplate>(DEFAULT_EMAIL_TEMPLATE);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const { data: settings } = useQuery<{ emailTemplate?: unknown }>({
+    queryKey: ["/api/settings"],
+  });
+  const isDefault = !EmailTemplateSchema.safeParse(settings?.emailTemplate).success;
+
+  useEffect(() => {
+    if (settings) {
+      const current = EmailTemplateSchema.safeParse(settings.emailTemplate);
+      setTemplate(current.success ? current.data : DEFAULT_EMAIL_TEMPLATE);
+    }
+  }, [settings]);
+
+  const saveTemplateMutation = useMutation({
+    // An empty template falls back to the built-in one
+    mutationFn: async (emailTemplate: EmailTemplate | Record<string, never>) => {
+      const response = await apiRequest("PUT", "/api/settings", { emailTemplate });
+      return response.json();
+    },
+    onSuccess: (_data, emailTemplate) => {
+      const reset = Object.keys(emailTemplate).length === 0;
+      toast({
+        title: reset ? "Template reset" : "Template saved",
+        description: reset
+          ? "Summary emails will use the built-in template again."
+          : "Summary emails will start from your template.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the email template.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const result = EmailTemplateSchema.safeParse(template);
+    if (!result.success) {
+      setValidationError(result.error.errors[0].message);
+      return;
+    }
+    setValidationError(null);
+    saveTemplateMutation.mutate(result.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Mail className="w-5 h-5" />
+          <span>Email Template</span>
+          {isDefault && <Badge variant="secondary">Built-in</Badge>}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The cover note for summaries you email to clients. You can still edit it before each send. Your signature,
+          title and contact details from your agent profile are added below it, followed by the PDF or a link to the summary.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="email-template-subject">Subject</Label>
+          <Input
+            id="email-template-subject"
+            maxLength={200}
+            value={template.subject}
+            onChange={(e) => setTemplate({ ...template, subject: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="email-template-body">Message</Label>
+          <Textarea
+            id="email-template-body"
+            rows={10}
+            value={template.body}
+            onChange={(e) => setTemplate({ ...template, body: e.target.value })}
+          />
+        </div>
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        <div className="bg-muted/50 rounded-lg p-4">
+          <p className="text-sm text-muted-foreground">
+            <strong>Placeholders:</strong>{" "}
+            {Object.entries(EMAIL_TEMPLATE_FIELDS).map(([field, label]) => `{{${field}}} (${label})`).join(", ")}
+          </p>
+        </div>
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={saveTemplateMutation.isPending || isDefault}
+            onClick={() => saveTemplateMutation.mutate({})}
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Use Built-in Template
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={saveTemplateMutation.isPending || !settings}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {saveTemplateMutation.isPending ? (
+              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save Template
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
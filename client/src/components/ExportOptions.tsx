@@ -3,11 +3,11 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { FileText, Download, Mail, Printer, Info } from 'lucide-react';
 import { api, ExportOptions as ApiExportOptions } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
+import { PdfTemplateSelect } from './PdfTemplateSelect';
 
 interface ExportOptionsProps {
   documentId: number | null;
@@ -47,6 +47,7 @@ export function ExportOptions({ documentId, isReady }: ExportOptionsProps) {
         includeExplanations: exportSettings.includeExplanations,
         includeTechnicalDetails: exportSettings.includeTechnicalDetails,
         includeBranding: exportSettings.includeBranding,
+        template: exportSettings.templateStyle,
       };
 
       const pdfBlob = await api.exportPDF(documentId, options);
@@ -94,20 +95,11 @@ export function ExportOptions({ documentId, isReady }: ExportOptionsProps) {
                 <Label htmlFor="templateStyle" className="text-sm font-medium text-slate-700 mb-2 block">
                   Template Style
                 </Label>
-                <Select
+                <PdfTemplateSelect
+                  id="templateStyle"
                   value={exportSettings.templateStyle}
                   onValueChange={(value) => setExportSettings(prev => ({ ...prev, templateStyle: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="professional">Professional Summary (Recommended)</SelectItem>
-                    <SelectItem value="detailed">Detailed Technical Report</SelectItem>
-                    <SelectItem value="client-friendly">Client-Friendly Overview</SelectItem>
-                    <SelectItem value="quick-reference">Quick Reference Card</SelectItem>
-                  </SelectContent>
-                </Select>
+                />
               </div>
 
               <div>
@@ -1,3 +1,6 @@
+import { FileSearch } from 'lucide-react';
+import type { SourceCitation } from '@shared/schema';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ProcessedDocument } from '@/lib/api';
 
 interface ExtractedDataProps {
@@ -5,6 +8,34 @@ interface ExtractedDataProps {
   isLoading: boolean;
 }
 
+// Where an extracted entry was found in the original, so agents can check it without reopening the file
+function SourcePopover({ source }: { source?: SourceCitation }) {
+  if (!source) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center gap-0.5 ml-1 text-xs text-primary hover:underline align-baseline"
+          title="Show source"
+        >
+          <FileSearch className="w-3 h-3" />
+          {source.page ? `p. ${source.page}` : 'source'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm">
+        <p className="font-medium text-foreground mb-1">
+          {source.page ? `Page ${source.page} of the original document` : 'From the original document'}
+        </p>
+        <blockquote className="border-l-2 border-border pl-3 italic text-muted-foreground">
+          {source.quote}
+        </blockquote>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export function ExtractedData({ document, isLoading }: ExtractedDataProps) {
   if (isLoading) {
     return (
@@ -35,6 +66,14 @@ export function ExtractedData({ document, isLoading }: ExtractedDataProps) {
   }
 
   const policyData = document.extractedData;
+  const policyTerms: [string, string | undefined][] = [
+    ['Policy Type', policyData.policyType],
+    ['Insurer', policyData.insurer],
+    ['Insured', policyData.insuredName],
+    ['Policy Number', policyData.policyNumber],
+    ['Policy Period', policyData.policyPeriod],
+    ['Premium', policyData.premiumAmount],
+  ];
 
   return (
     <div className="p-6">
@@ -48,8 +87,14 @@ export function ExtractedData({ document, isLoading }: ExtractedDataProps) {
             <div className="space-y-2 text-sm">
               {policyData.coverageDetails?.map((coverage: any, index: number) => (
                 <div key={index} className="flex justify-between">
-                  <span className="text-muted-foreground">{coverage.type}:</span>
-                  <span className="font-medium text-foreground">{coverage.limit}</span>
+                  <span className="text-muted-foreground">
+                    {coverage.type}:
+                    <SourcePopover source={coverage.source} />
+                  </span>
+                  <span className="font-medium text-foreground text-right">
+                    {coverage.limit}
+                    {coverage.deductible && <span className="block text-xs text-muted-foreground">Deductible: {coverage.deductible}</span>}
+                  </span>
                 </div>
               ))}
             </div>
@@ -71,10 +116,12 @@ export function ExtractedData({ document, isLoading }: ExtractedDataProps) {
                   <span className="font-medium text-foreground">{policyData.eligibility.ageLimit}</span>
                 </div>
               )}
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Policy Type:</span>
-                <span className="font-medium text-foreground">{policyData.policyType}</span>
-              </div>
+              {policyTerms.map(([label, value]) => value && (
+                <div key={label} className="flex justify-between">
+                  <span className="text-muted-foreground">{label}:</span>
+                  <span className="font-medium text-foreground text-right">{value}</span>
+                </div>
+              ))}
             </div>
           </div>
         </div>
@@ -85,7 +132,10 @@ export function ExtractedData({ document, isLoading }: ExtractedDataProps) {
             <h3 className="text-sm font-medium text-foreground mb-3">Important Exclusions</h3>
             <ul className="text-sm text-muted-foreground space-y-1">
               {policyData.exclusions?.map((exclusion: any, index: number) => (
-                <li key={index}>• {typeof exclusion === 'string' ? exclusion : exclusion.description}</li>
+                <li key={index}>
+                  • {typeof exclusion === 'string' ? exclusion : exclusion.description}
+                  <SourcePopover source={exclusion.source} />
+                </li>
               ))}
             </ul>
           </div>
@@ -94,17 +144,31 @@ export function ExtractedData({ document, isLoading }: ExtractedDataProps) {
           <div className="bg-muted/50 p-4 rounded-lg">
             <h3 className="text-sm font-medium text-foreground mb-3">Contact Information</h3>
             <div className="text-sm text-muted-foreground space-y-1">
-              {policyData.importantContacts?.insurer && (
-                <p><strong className="text-foreground">Insurer:</strong> {policyData.importantContacts.insurer}</p>
-              )}
-              {policyData.importantContacts?.administrator && (
-                <p><strong className="text-foreground">Administrator:</strong> {policyData.importantContacts.administrator}</p>
-              )}
-              {policyData.importantContacts?.emergencyLine && (
-                <p><strong className="text-foreground">Emergency Line:</strong> {policyData.importantContacts.emergencyLine}</p>
+              {policyData.importantContacts?.length ? (
+                policyData.importantContacts.map((contact: any, index: number) => (
+                  <p key={index}><strong className="text-foreground">{contact.type}:</strong> {contact.details}</p>
+                ))
+              ) : (
+                <p>No contacts listed in the document.</p>
               )}
             </div>
           </div>
+
+          {/* Key Benefits */}
+          {policyData.keyBenefits?.length > 0 && (
+            <div className="bg-muted/50 p-4 rounded-lg">
+              <h3 className="text-sm font-medium text-foreground mb-3">Key Benefits</h3>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {policyData.keyBenefits.map((benefit: any, index: number) => (
+                  <li key={index}>
+                    • <span className="text-foreground">{benefit.benefit}</span>
+                    {benefit.description && ` — ${benefit.description}`}
+                    <SourcePopover source={benefit.source} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </div>
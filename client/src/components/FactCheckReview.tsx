@@ -0,0 +1,64 @@
+import type { ReactNode } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { UnsupportedValue } from '@shared/schema';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+
+const KIND_LABELS: Record<UnsupportedValue['kind'], string> = {
+  amount: 'Amount',
+  date: 'Date',
+  policyNumber: 'Policy number',
+  formCode: 'Form code',
+};
+
+// Values the fact check could not find in the uploaded document
+export function unsupportedValues(extractedData: any): UnsupportedValue[] {
+  return extractedData?.factCheck?.unsupported ?? [];
+}
+
+// Wrap every occurrence of an unsupported value in the text in a highlight
+export function highlightUnsupported(text: string, unsupported: UnsupportedValue[]): ReactNode {
+  const values = Array.from(new Set(unsupported.map(finding => finding.value)))
+    .sort((a, b) => b.length - a.length);
+  if (values.length === 0) return text;
+
+  const pattern = new RegExp(`(${values.map(value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'g');
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-amber-200 text-amber-950 rounded px-0.5" title="Not found in the uploaded document">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+}
+
+interface FactCheckReviewProps {
+  unsupported: UnsupportedValue[];
+}
+
+// Review list shown above the summary until the flagged values have been checked
+export function FactCheckReview({ unsupported }: FactCheckReviewProps) {
+  if (unsupported.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50 text-amber-900 [&>svg]:text-amber-600">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Review before export</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">
+          {unsupported.length === 1 ? 'This value was' : `These ${unsupported.length} values were`} not found in the uploaded
+          document and may have been added by the AI. Highlighted occurrences in the summary should be checked against the policy.
+        </p>
+        <ul className="space-y-1">
+          {unsupported.map((finding, index) => (
+            <li key={index}>
+              <span className="font-medium">{KIND_LABELS[finding.kind]}</span> <mark className="bg-amber-200 rounded px-0.5">{finding.value}</mark>
+              <span className="text-amber-700"> — {finding.location}</span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -5,19 +5,28 @@ import {
   CheckCircle, 
   AlertCircle, 
   RefreshCw, 
-  Loader2, 
-  Clock 
+  Loader2,
+  ChevronDown,
+  SlidersHorizontal
 } from 'lucide-react';
+import type { ProcessingOptions, UserSettings } from '@shared/schema';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { useQueryClient } from '@tanstack/react-query';
-import { api } from '../lib/api';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { api, type AgencyDetails, type ProcessingPresetItem } from '../lib/api';
+import { ProcessingTimeline } from './ProcessingTimeline';
+import { BatchProgressCard } from './BatchProgressCard';
+import { AdvancedProcessingOptions } from './AdvancedProcessingOptions';
+import { SavePresetDialog } from './SavePresetDialog';
 
 interface FileUploadProps {
   onUploadSuccess: (documentId: number) => void;
-  summaryLength?: 'short'; // Always brief summaries
 }
 
 interface UploadingFile {
@@ -27,14 +36,75 @@ interface UploadingFile {
   error?: string;
   documentId?: number;
   retryCount?: number;
-  processingStage?: string;
 }
 
-export function FileUpload({ onUploadSuccess, summaryLength = 'short' }: FileUploadProps) {
+const MAX_POLICY_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_ZIP_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+const isZipFile = (file: File) => file.name.toLowerCase().endsWith('.zip');
+
+export function FileUpload({ onUploadSuccess }: FileUploadProps) {
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
+  const [batchIds, setBatchIds] = useState<number[]>([]);
+  const [isUploadingBatch, setIsUploadingBatch] = useState(false);
+  const [isOptionsOpen, setIsOptionsOpen] = useState(false);
+  // Only set once the agent changes something; otherwise the server applies their saved defaults
+  const [processingOptions, setProcessingOptions] = useState<ProcessingOptions | undefined>();
+  // Preset id or 'none'; until the agent picks one their default preset applies
+  const [presetChoice, setPresetChoice] = useState<string | undefined>();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ['/api/settings'],
+  });
+
+  const { data: agency } = useQuery<AgencyDetails>({
+    queryKey: ['/api/agency'],
+  });
+
+  const { data: presets = [] } = useQuery<ProcessingPresetItem[]>({
+    queryKey: ['/api/processing-presets'],
+  });
+
+  const defaultPreset = presets.find(preset => preset.owned && preset.isDefault);
+  const selectedPresetValue = presetChoice ?? (defaultPreset ? String(defaultPreset.id) : 'none');
+  const selectedPreset = presets.find(preset => String(preset.id) === selectedPresetValue);
+  const uploadPreset = selectedPreset ? selectedPreset.id : 'none' as const;
+  const baseOptions: Partial<ProcessingOptions> = {
+    summaryLength: 'short',
+    ...(agency?.defaultProcessingOptions as Partial<ProcessingOptions>),
+    ...(settings?.defaultProcessingOptions as Partial<ProcessingOptions>),
+    ...selectedPreset?.options,
+  };
+
+  // Switching presets starts over from the preset's options
+  const handlePresetChange = (value: string) => {
+    setPresetChoice(value);
+    setProcessingOptions(undefined);
+  };
+
+  const saveDefaultsMutation = useMutation({
+    mutationFn: async (options: ProcessingOptions) => {
+      const response = await apiRequest('PUT', '/api/settings', { defaultProcessingOptions: options });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      toast({
+        title: 'Defaults Saved',
+        description: 'These processing options will be used for your future uploads.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Failed to save default options',
+        variant: 'destructive'
+      });
+    },
+  });
+
   const handleUpload = async (fileData: UploadingFile) => {
     const progressInterval = setInterval(() => {
       setUploadingFiles(prev => prev.map(f => 
@@ -45,21 +115,15 @@ export function FileUpload({ onUploadSuccess, summaryLength = 'short' }: FileUpl
     }, 200);
 
     try {
-      console.log('Uploading with summaryLength:', summaryLength);
-      
-      const result = await api.uploadDocument(fileData.file, { summaryLength });
+      const result = await api.uploadDocument(fileData.file, processingOptions, uploadPreset);
       
       clearInterval(progressInterval);
       
       setUploadingFiles(prev => prev.map(f => 
         f.file === fileData.file 
-          ? { ...f, progress: 100, status: 'processing', documentId: result.documentId, processingStage: 'Processing document...' }
+          ? { ...f, progress: 100, status: 'processing', documentId: result.documentId }
           : f
       ));
-      
-      if (result.documentId) {
-        await pollProcessingStatus(result.documentId, fileData.file);
-      }
     } catch (error: any) {
       clearInterval(progressInterval);
       const retryCount = (fileData.retryCount || 0) + 1;
@@ -103,87 +167,101 @@ export function FileUpload({ onUploadSuccess, summaryLength = 'short' }: FileUpl
     await handleUpload({ ...existingFile, status: 'uploading', progress: 0, error: undefined });
   };
 
-  const pollProcessingStatus = async (documentId: number, file: File) => {
-    const maxAttempts = 18; // 3 minutes with 10-second intervals
-    let attempts = 0;
-    const processingStages = [
-      'Processing document...',
-      'Analyzing coverage...',
-      'Summarizing policy...'
-    ];
-
-    // Immediately move to analyze stage after 8 seconds
-    setTimeout(() => {
-      setUploadingFiles(prev => prev.map(f => 
-        f.file === file && f.status === 'processing'
-          ? { ...f, processingStage: 'Analyzing coverage...' }
-          : f
-      ));
-    }, 8000);
-
-    // Move to summarize stage after 16 seconds
-    setTimeout(() => {
-      setUploadingFiles(prev => prev.map(f => 
-        f.file === file && f.status === 'processing'
-          ? { ...f, processingStage: 'Summarizing policy...' }
-          : f
-      ));
-    }, 16000);
-
-    const pollInterval = setInterval(async () => {
-      try {
-        attempts++;
-        const status = await api.getDocumentStatus(documentId);
+  // Called when the progress stream ends; the status endpoint has the final outcome
+  const handleProcessingFinished = async (documentId: number, file: File) => {
+    try {
+      const status = await api.getDocumentStatus(documentId);
+      
+      if (status.processed && status.hasSummary) {
+        setUploadingFiles(prev => prev.map(f => 
+          f.file === file 
+            ? { ...f, status: 'success', documentId }
+            : f
+        ));
+        
+        onUploadSuccess(documentId);
+        
+        // Invalidate queries to refresh document list
+        queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+        
+        toast({
+          title: 'Success',
+          description: 'Document processed successfully!',
+        });
+      } else {
+        const errorMessage = status.processingError || 'Processing failed';
         
-        if (status.processed && status.hasSummary) {
-          clearInterval(pollInterval);
-          setUploadingFiles(prev => prev.map(f => 
-            f.file === file 
-              ? { ...f, status: 'success', documentId }
-              : f
-          ));
-          
-          onUploadSuccess(documentId);
-          
-          // Invalidate queries to refresh document list
-          queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
-          
-          toast({
-            title: 'Success',
-            description: 'Document processed successfully!',
-          });
-        } else if (status.processingError || attempts >= maxAttempts) {
-          clearInterval(pollInterval);
-          const errorMessage = status.processingError || (attempts >= maxAttempts ? 'Processing timeout' : 'Processing failed');
-          
-          setUploadingFiles(prev => prev.map(f => 
-            f.file === file 
-              ? { ...f, status: 'error', error: errorMessage }
-              : f
-          ));
-          
-          toast({
-            title: 'Processing Failed',
-            description: errorMessage,
-            variant: 'destructive'
-          });
-        }
-      } catch (error) {
-        clearInterval(pollInterval);
         setUploadingFiles(prev => prev.map(f => 
           f.file === file 
-            ? { ...f, status: 'error', error: 'Failed to check processing status' }
+            ? { ...f, status: 'error', error: errorMessage }
             : f
         ));
+        
+        toast({
+          title: 'Processing Failed',
+          description: errorMessage,
+          variant: 'destructive'
+        });
       }
-    }, 10000); // Check every 10 seconds
+    } catch (error) {
+      setUploadingFiles(prev => prev.map(f => 
+        f.file === file 
+          ? { ...f, status: 'error', error: 'Failed to check processing status' }
+          : f
+      ));
+    }
+  };
+
+  const cancelProcessing = async (fileData: UploadingFile) => {
+    if (!fileData.documentId) return;
+    try {
+      await api.cancelProcessing(fileData.documentId);
+    } catch (error: any) {
+      toast({
+        title: 'Cancel Failed',
+        description: error.message || 'Failed to cancel processing',
+        variant: 'destructive'
+      });
+    }
   };
 
   const removeFile = (fileToRemove: File) => {
     setUploadingFiles(prev => prev.filter(f => f.file !== fileToRemove));
   };
 
+  // Several files or a ZIP archive become one batch that is processed in the background
+  const handleBatchUpload = async (files: File[]) => {
+    setIsUploadingBatch(true);
+    try {
+      const result = await api.uploadBatch(files, processingOptions, uploadPreset);
+      setBatchIds(prev => [result.batchId, ...prev]);
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/batches'] });
+      
+      toast({
+        title: 'Batch Uploaded',
+        description: result.skipped.length > 0
+          ? `${result.message}. Skipped ${result.skipped.length} file(s).`
+          : result.message,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Batch Upload Failed',
+        description: error.message || 'Failed to upload files',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsUploadingBatch(false);
+    }
+  };
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    if (acceptedFiles.length > 1 || acceptedFiles.some(isZipFile)) {
+      handleBatchUpload(acceptedFiles);
+      return;
+    }
+
     const newFiles = acceptedFiles.map(file => ({
       file,
       progress: 0,
@@ -195,15 +273,22 @@ export function FileUpload({ onUploadSuccess, summaryLength = 'short' }: FileUpl
     newFiles.forEach(fileData => {
       handleUpload(fileData);
     });
-  }, [summaryLength]);
+  }, [processingOptions, uploadPreset]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'application/zip': ['.zip'],
+    },
+    // ZIP archives may be larger; the files inside are still limited to 10MB each
+    validator: (file) => {
+      const limit = isZipFile(file) ? MAX_ZIP_FILE_SIZE : MAX_POLICY_FILE_SIZE;
+      return file.size > limit
+        ? { code: 'file-too-large', message: `File is larger than ${limit / 1024 / 1024}MB` }
+        : null;
     },
-    maxSize: 10 * 1024 * 1024, // 10MB
   });
 
   return (
@@ -211,7 +296,7 @@ export function FileUpload({ onUploadSuccess, summaryLength = 'short' }: FileUpl
       <CardHeader>
         <CardTitle className="text-2xl">Upload Insurance Policy</CardTitle>
         <CardDescription className="text-base">
-          Upload a PDF or DOCX file to analyze and generate a summary
+          Upload a PDF or DOCX file to analyze and generate a summary, or several files / a ZIP archive to process a batch
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -234,12 +319,81 @@ export function FileUpload({ onUploadSuccess, summaryLength = 'short' }: FileUpl
                 {isDragActive ? 'Drop your files here!' : 'Click here to upload files'}
               </p>
               <p className="text-sm text-blue-600 dark:text-blue-500">
-                PDF or DOCX insurance policies (up to 10MB)
+                PDF or DOCX insurance policies (up to 10MB each), or a ZIP of policies
               </p>
             </div>
           </div>
         </div>
 
+        {/* Processing Options */}
+        <Collapsible open={isOptionsOpen} onOpenChange={setIsOptionsOpen} className="mt-4">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-between">
+              <span className="flex items-center space-x-2">
+                <SlidersHorizontal className="w-4 h-4" />
+                <span>Processing Options</span>
+              </span>
+              <span className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <span>
+                  {processingOptions ? 'Custom for this upload' : selectedPreset ? selectedPreset.name : 'Your saved defaults'}
+                </span>
+                <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${isOptionsOpen ? 'transform rotate-180' : ''}`} />
+              </span>
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-4 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="processing-preset">Preset</Label>
+                <Select value={selectedPresetValue} onValueChange={handlePresetChange}>
+                  <SelectTrigger id="processing-preset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No preset (your saved defaults)</SelectItem>
+                    {presets.map(preset => (
+                      <SelectItem key={preset.id} value={String(preset.id)}>
+                        {preset.name}{preset.owned ? '' : ' (shared)'}{preset.owned && preset.isDefault ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <SavePresetDialog
+                options={processingOptions ?? baseOptions}
+                onSaved={(preset) => handlePresetChange(String(preset.id))}
+              />
+            </div>
+            {selectedPreset?.description && (
+              <p className="text-sm text-muted-foreground">{selectedPreset.description}</p>
+            )}
+            {settings && (
+              <AdvancedProcessingOptions
+                key={selectedPresetValue}
+                initialOptions={baseOptions}
+                onOptionsChange={setProcessingOptions}
+                onSaveAsDefault={(options) => saveDefaultsMutation.mutate(options)}
+                isProcessing={saveDefaultsMutation.isPending}
+              />
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+
+        {/* Batch Uploads */}
+        {(isUploadingBatch || batchIds.length > 0) && (
+          <div className="mt-6 space-y-3">
+            {isUploadingBatch && (
+              <div className="flex items-center space-x-2 rounded-lg bg-blue-50 dark:bg-blue-950/30 p-3 text-blue-600">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span className="text-base font-medium">Uploading batch...</span>
+              </div>
+            )}
+            {batchIds.map(batchId => (
+              <BatchProgressCard key={batchId} batchId={batchId} defaultExpanded />
+            ))}
+          </div>
+        )}
+
         {/* File List */}
         {uploadingFiles.length > 0 && (
           <div className="mt-6 space-y-3">
@@ -252,79 +406,22 @@ export function FileUpload({ onUploadSuccess, summaryLength = 'short' }: FileUpl
                   'bg-blue-50 dark:bg-blue-950/30'
                 } ${fileData.status === 'processing' ? 'p-1' : 'p-3'}`}
               >
-                {fileData.status === 'processing' ? (
+                {fileData.status === 'processing' && fileData.documentId ? (
                   <div className="mt-4 mb-2">
-                    <div className="flex flex-col items-center justify-center space-y-4 py-4">
-                      <div className="flex items-center space-x-2">
-                        <Clock className="w-6 h-6 text-blue-600 animate-pulse" />
-                        <p className="text-lg text-blue-600 font-semibold">
-                          {fileData.processingStage || 'Processing document...'}
-                        </p>
-                      </div>
-                      
-                      <div className="w-full max-w-sm">
-                        <div className="flex justify-center items-center space-x-8">
-                          {[...Array(3)].map((_, i) => {
-                            const currentStage = fileData.processingStage || '';
-                            const stages = [
-                              'Processing document...',
-                              'Analyzing coverage...',
-                              'Summarizing policy...'
-                            ];
-                            const stageLabels = ['Process', 'Analyze', 'Summarize'];
-                            const stageIndex = stages.findIndex(stage => stage === currentStage);
-                            const isActive = i <= stageIndex;
-                            const isCurrentStep = i === stageIndex;
-                            const isCompleted = i < stageIndex;
-                            
-                            return (
-                              <div key={i} className="flex flex-col items-center">
-                                <div className="relative">
-                                  <div 
-                                    className={`w-14 h-14 rounded-full flex items-center justify-center font-medium text-sm transition-all duration-500 ${
-                                      isActive
-                                        ? 'bg-blue-600 text-white scale-110 shadow-lg' 
-                                        : 'bg-gray-200 text-gray-500'
-                                    }`}
-                                  >
-                                    {isCurrentStep ? (
-                                      <Loader2 className="w-6 h-6 animate-spin" />
-                                    ) : isCompleted ? (
-                                      <div className="text-lg">✓</div>
-                                    ) : (
-                                      i + 1
-                                    )}
-                                  </div>
-                                  {isCurrentStep && (
-                                    <div className="absolute inset-0 rounded-full bg-blue-600 opacity-20 animate-ping" />
-                                  )}
-                                  {i < 2 && (
-                                    <div 
-                                      className={`absolute top-7 left-14 h-0.5 transition-all duration-500 ${
-                                        i < stageIndex ? 'bg-blue-600' : 
-                                        i === stageIndex ? 'bg-gray-300 animate-pulse' :
-                                        'bg-gray-300'
-                                      }`}
-                                      style={{ width: '32px' }}
-                                    />
-                                  )}
-                                </div>
-                                <span className={`text-sm mt-2 transition-all duration-300 ${
-                                  isCurrentStep ? 'text-blue-700 font-semibold' : 
-                                  isActive ? 'text-blue-600 font-medium' : 
-                                  'text-gray-400'
-                                }`}>
-                                  {stageLabels[i]}
-                                </span>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      </div>
-                      
-                      <p className="text-sm text-muted-foreground text-center">
-                        {fileData.processingStage || 'Processing document...'}
-                      </p>
+                    <div className="flex flex-col items-center justify-center space-y-2 pb-4">
+                      <ProcessingTimeline
+                        documentId={fileData.documentId}
+                        onFinished={() => handleProcessingFinished(fileData.documentId!, fileData.file)}
+                      />
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => cancelProcessing(fileData)}
+                        className="h-7 px-3 text-xs"
+                      >
+                        Cancel
+                      </Button>
                     </div>
                   </div>
                 ) : (
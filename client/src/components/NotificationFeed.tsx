@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { api, type NotificationFeed as NotificationFeedData, type NotificationItem } from '@/lib/api';
+
+const NOTIFICATIONS_KEY = ['/api/notifications'];
+
+function timeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+interface NotificationFeedProps {
+  align?: 'start' | 'center' | 'end';
+  side?: 'top' | 'right' | 'bottom' | 'left';
+  label?: string; // shown next to the bell, e.g. in the expanded sidebar
+  className?: string;
+}
+
+// Bell with an unread count; opening it lists renewal reminders and other notifications
+export function NotificationFeed({ align = 'end', side = 'bottom', label, className = 'w-8 h-8 p-0' }: NotificationFeedProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<NotificationFeedData>({
+    queryKey: NOTIFICATIONS_KEY,
+    // Reminders are created by a server-side sweep, so poll for them
+    refetchInterval: 60000,
+    staleTime: 0,
+  });
+  const notifications = data?.notifications ?? [];
+  const unread = data?.unread ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: api.markNotificationsRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY }),
+  });
+
+  const openNotification = (notification: NotificationItem) => {
+    if (!notification.readAt) markReadMutation.mutate([notification.id]);
+    setIsOpen(false);
+    if (notification.link) setLocation(notification.link);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={`relative ${className}`} title="Notifications">
+          <Bell className="w-4 h-4" />
+          {label && <span>{label}</span>}
+          {unread > 0 && (
+            <span className="absolute top-0 left-4 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align={align} side={side} className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <span className="font-medium text-sm">Notifications</span>
+          {unread > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              <CheckCheck className="w-3 h-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-muted-foreground text-center">No notifications yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={`w-full text-left px-4 py-3 border-b border-border last:border-b-0 hover:bg-accent transition-colors ${
+                  notification.readAt ? 'opacity-70' : ''
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.readAt && <span className="mt-1.5 w-2 h-2 rounded-full bg-blue-600 shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground mt-0.5">{notification.message}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{timeAgo(notification.createdAt)}</p>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
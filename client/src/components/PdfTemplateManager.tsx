@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileCode, Trash2, Upload } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { api, type PdfTemplateDetails, type PdfTemplateList } from "@/lib/api";
+
+const EXAMPLE_TEMPLATE = `<html>
+<body style="font-family: Arial, sans-serif">
+  {{#if logo}}<img src="{{logo}}" style="height: 32px">{{/if}}
+  <h1>{{clientName}}</h1>
+  <p>{{policy.policyType}} · {{policy.insurer}} · {{policy.policyNumber}}</p>
+  <table>
+    {{#each policy.coverageDetails}}<tr><td>{{type}}</td><td>{{limit}}</td></tr>{{/each}}
+  </table>
+  {{#each sections}}<h2>{{title}}</h2>{{{html}}}{{/each}}
+  {{#if agent}}<p>{{agent.name}} · {{agent.phone}}</p>{{/if}}
+</body>
+</html>`;
+
+// Upload and remove agency PDF templates used by the export "Template Style" selector
+export function PdfTemplateManager() {
+  const { toast } = useToast();
+  const [details, setDetails] = useState<PdfTemplateDetails>({ name: "", description: "", html: "" });
+
+  const { data } = useQuery<PdfTemplateList>({
+    queryKey: ["/api/pdf-templates"],
+  });
+  const customTemplates = data?.templates.filter(template => template.custom) || [];
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: api.createPdfTemplate,
+    onSuccess: (template) => {
+      toast({ title: "Template uploaded", description: `${template.label} is now available when exporting.` });
+      setDetails({ name: "", description: "", html: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/pdf-templates"] });
+    },
+    onError: showError("Upload failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deletePdfTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pdf-templates"] });
+    },
+    onError: showError("Delete failed"),
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setDetails(current => ({
+        ...current,
+        name: current.name || file.name.replace(/\.html?$/i, ""),
+        html: String(reader.result || ""),
+      }));
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <FileCode className="w-5 h-5" />
+            <span>Custom PDF Templates</span>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Templates uploaded by anyone in your agency appear under "Custom Templates" in the export Template Style selector.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {customTemplates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No custom templates yet.</p>
+          ) : (
+            customTemplates.map(template => (
+              <div key={template.name} className="flex items-center justify-between gap-2 rounded-lg border border-border p-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">{template.label}</p>
+                  <p className="text-sm text-muted-foreground truncate">{template.description}</p>
+                </div>
+                {template.editable && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (template.id && confirm(`Delete the "${template.label}" template?`)) {
+                        deleteMutation.mutate(template.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Upload className="w-5 h-5" />
+            <span>Upload Template</span>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            An HTML file with placeholders such as {"{{policy.insurer}}"} or{" "}
+            {"{{#each policy.coverageDetails}}…{{/each}}"}. Use triple braces for HTML values like {"{{{summaryHtml}}}"}.
+            Scripts and external images are not loaded; embed images as data URLs.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name *</Label>
+              <Input
+                id="template-name"
+                value={details.name}
+                onChange={(e) => setDetails(current => ({ ...current, name: e.target.value }))}
+                placeholder="Renewal Letter"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                value={details.description || ""}
+                onChange={(e) => setDetails(current => ({ ...current, description: e.target.value }))}
+                placeholder="One-page renewal summary on agency letterhead"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-file">HTML File</Label>
+            <Input id="template-file" type="file" accept=".html,.htm,text/html" onChange={handleFileChange} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="template-html">Template HTML *</Label>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setDetails(current => ({ ...current, html: EXAMPLE_TEMPLATE }))}
+              >
+                Start from example
+              </Button>
+            </div>
+            <Textarea
+              id="template-html"
+              value={details.html}
+              onChange={(e) => setDetails(current => ({ ...current, html: e.target.value }))}
+              rows={12}
+              className="font-mono text-xs"
+              spellCheck={false}
+            />
+          </div>
+
+          {data?.fields && (
+            <div className="bg-muted/50 rounded-lg p-4 space-y-1">
+              <p className="text-sm font-medium text-foreground">Available fields</p>
+              {data.fields.map(field => (
+                <p key={field.path} className="text-xs text-muted-foreground">
+                  <Badge variant="outline" className="font-mono mr-2">{field.path}</Badge>
+                  {field.description}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              onClick={() => createMutation.mutate({ ...details, name: details.name.trim() })}
+              disabled={createMutation.isPending || !details.name.trim() || !details.html.trim()}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Uploading..." : "Upload Template"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { PdfTemplateList } from '@/lib/api';
+
+interface PdfTemplateSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  id?: string;
+}
+
+// Built-in layouts and the agent's uploaded templates from /api/pdf-templates
+export function PdfTemplateSelect({ value, onValueChange, id }: PdfTemplateSelectProps) {
+  const { data } = useQuery<PdfTemplateList>({
+    queryKey: ['/api/pdf-templates'],
+  });
+
+  const builtIn = data?.templates.filter(template => !template.custom) || [];
+  const custom = data?.templates.filter(template => template.custom) || [];
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Professional Summary" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectGroup>
+          {builtIn.map(template => (
+            <SelectItem key={template.name} value={template.name}>
+              {template.label}{template.name === 'professional' ? ' (Recommended)' : ''}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+        {custom.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Custom Templates</SelectLabel>
+            {custom.map(template => (
+              <SelectItem key={template.name} value={template.name}>
+                {template.label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
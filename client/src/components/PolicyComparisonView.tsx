@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useSearch } from 'wouter';
+import { AlertCircle, Download, GitCompare, Loader2 } from 'lucide-react';
+import type { ComparisonFinding, PolicyComparison } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { api, type DocumentListItem } from '@/lib/api';
+
+const MAX_SELECTED = 5;
+
+const SEVERITY_STYLES: Record<ComparisonFinding['severity'], string> = {
+  high: 'bg-red-600 hover:bg-red-600 text-white',
+  medium: 'bg-amber-500 hover:bg-amber-500 text-white',
+  low: 'bg-muted text-muted-foreground hover:bg-muted',
+};
+
+function parseIds(search: string): number[] {
+  const ids = new URLSearchParams(search).get('ids') || '';
+  return ids.split(',').map(id => parseInt(id)).filter(id => !isNaN(id));
+}
+
+function policyLabel(comparison: PolicyComparison, index: number): string {
+  const policy = comparison.policies[index];
+  return policy.insurer || policy.name;
+}
+
+export function PolicyComparisonView() {
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const comparedIds = parseIds(search);
+  const [selected, setSelected] = useState<number[]>(comparedIds);
+  const [clientName, setClientName] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: documents = [] } = useQuery<DocumentListItem[]>({
+    queryKey: ['/api/documents'],
+  });
+  const processedDocuments = documents.filter(doc => doc.processed && !doc.hasError);
+
+  const comparisonUrl = `/api/comparisons?ids=${comparedIds.join(',')}`;
+  const { data: comparison, isLoading, error } = useQuery<PolicyComparison>({
+    queryKey: [comparisonUrl],
+    enabled: comparedIds.length >= 2,
+  });
+
+  // Selection order matters: the first policy picked is the baseline
+  const toggleDocument = (id: number) => {
+    setSelected(current => current.includes(id)
+      ? current.filter(selectedId => selectedId !== id)
+      : current.length < MAX_SELECTED ? [...current, id] : current);
+  };
+
+  const handleCompare = () => {
+    setLocation(`/compare?ids=${selected.join(',')}`);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const pdfBlob = await api.exportComparisonPDF(comparedIds, {
+        clientName: clientName || undefined,
+        includeTechnicalDetails: true,
+      });
+
+      const url = window.URL.createObjectURL(pdfBlob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `policy-comparison-${clientName || 'client'}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: 'Comparison Exported',
+        description: 'The comparison PDF has been downloaded.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Export Failed',
+        description: error instanceof Error ? error.message : 'Failed to export comparison',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Compare Policies</h1>
+        <p className="text-muted-foreground">
+          Compare an expiring policy with its renewal or competing quotes side by side
+        </p>
+      </div>
+
+      {/* Policy picker */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Select Policies</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Pick 2-{MAX_SELECTED} processed policies. The first one you pick is the baseline the others are measured against.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {processedDocuments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No processed policies yet. Upload documents to compare them.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-64 overflow-y-auto">
+              {processedDocuments.map(doc => {
+                const order = selected.indexOf(doc.id);
+                return (
+                  <label
+                    key={doc.id}
+                    className={`flex items-center space-x-3 rounded-lg border p-2 cursor-pointer transition-colors ${
+                      order >= 0 ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30' : 'border-border hover:bg-muted/50'
+                    }`}
+                  >
+                    <Checkbox
+                      checked={order >= 0}
+                      onCheckedChange={() => toggleDocument(doc.id)}
+                      disabled={order < 0 && selected.length >= MAX_SELECTED}
+                    />
+                    <span className="truncate text-sm text-foreground flex-1">
+                      {doc.clientName ? `${doc.clientName} · ` : ''}{doc.originalName}
+                    </span>
+                    {order === 0 && <Badge variant="secondary">Baseline</Badge>}
+                    {order > 0 && <Badge variant="outline">Option {order}</Badge>}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+          <Button
+            onClick={handleCompare}
+            disabled={selected.length < 2}
+            className="bg-valley-primary hover:bg-valley-primary/90"
+          >
+            <GitCompare className="w-4 h-4 mr-2" />
+            Compare {selected.length} Policies
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading && (
+        <div className="flex items-center space-x-2 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Comparing policies...</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error instanceof Error ? error.message : 'Comparison failed'}</span>
+        </div>
+      )}
+
+      {comparison && (
+        <>
+          {/* Export */}
+          <Card>
+            <CardContent className="p-4 flex flex-col md:flex-row md:items-end gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="comparison-client-name">Client Name (optional)</Label>
+                <Input
+                  id="comparison-client-name"
+                  value={clientName}
+                  onChange={(e) => setClientName(e.target.value)}
+                  placeholder="Shown in the PDF header"
+                />
+              </div>
+              <Button onClick={handleExport} disabled={isExporting}>
+                {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                {isExporting ? 'Exporting...' : 'Export PDF'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Key differences */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Key Differences</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {comparison.policies.slice(1).map((policy, offset) => {
+                const index = offset + 1;
+                const findings = comparison.findings.filter(f => f.policyIndex === index);
+                return (
+                  <div key={policy.documentId} className="space-y-2">
+                    <h3 className="font-medium text-foreground">
+                      {policyLabel(comparison, index)} vs. {policyLabel(comparison, 0)}
+                    </h3>
+                    {findings.length === 0 ? (
+                      <p className="text-sm text-muted-foreground italic">No material differences found.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {findings.map((finding, i) => (
+                          <li key={i} className="flex items-start space-x-2 text-sm">
+                            <Badge className={`${SEVERITY_STYLES[finding.severity]} w-16 justify-center flex-shrink-0 capitalize`}>
+                              {finding.severity}
+                            </Badge>
+                            <span className="text-foreground">{finding.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {/* Coverage table */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Coverage Limits</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Coverage</TableHead>
+                    {comparison.policies.map((policy, index) => (
+                      <TableHead key={policy.documentId}>
+                        <div>{policyLabel(comparison, index)}</div>
+                        <div className="text-xs font-normal">
+                          {index === 0 ? 'Baseline' : `Option ${index}`}
+                          {policy.premium ? ` · ${policy.premium}` : ''}
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.coverages.map(row => (
+                    <TableRow key={row.coverage}>
+                      <TableCell className="font-medium">{row.coverage}</TableCell>
+                      {row.cells.map((cell, index) => {
+                        const flagged = index > 0 && comparison.findings.some(f =>
+                          f.policyIndex === index && f.coverage === row.coverage && f.severity !== 'low');
+                        if (!cell) {
+                          return (
+                            <TableCell
+                              key={index}
+                              className={index > 0 && row.cells[0] ? 'bg-red-50 dark:bg-red-950/30 text-red-700 dark:text-red-400 font-medium' : 'text-muted-foreground'}
+                            >
+                              Not included
+                            </TableCell>
+                          );
+                        }
+                        return (
+                          <TableCell key={index} className={flagged ? 'bg-amber-50 dark:bg-amber-950/30' : ''}>
+                            <div>{cell.limit}</div>
+                            {cell.deductible && (
+                              <div className="text-xs text-muted-foreground">Deductible: {cell.deductible}</div>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Exclusions table */}
+          {comparison.exclusions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Exclusions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Exclusion</TableHead>
+                      {comparison.policies.map((policy, index) => (
+                        <TableHead key={policy.documentId}>{policyLabel(comparison, index)}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparison.exclusions.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        <TableCell className="font-medium">{row.exclusion}</TableCell>
+                        {row.presentIn.map((present, index) => (
+                          <TableCell
+                            key={index}
+                            className={present && index > 0 && !row.presentIn[0] ? 'bg-amber-50 dark:bg-amber-950/30 font-medium' : ''}
+                          >
+                            {present ? 'Excluded' : '—'}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
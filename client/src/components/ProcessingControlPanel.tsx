@@ -1,4 +1,6 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { ProcessingOptions } from '@shared/schema';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
@@ -19,9 +21,10 @@ import {
   AlertTriangle,
   CheckCircle,
   Sparkles,
-  Save,
   RotateCcw
 } from 'lucide-react';
+import type { ProcessingPresetItem } from '@/lib/api';
+import { SavePresetDialog } from './SavePresetDialog';
 
 interface ProcessingControlPanelProps {
   onProcessingChange?: (config: ProcessingConfig) => void;
@@ -50,6 +53,43 @@ interface ProcessingConfig {
   priorityLevel: 'routine' | 'urgent' | 'critical';
 }
 
+const FOCUS_AREAS: ProcessingOptions['focusAreas'] = ['coverage', 'exclusions', 'eligibility', 'benefits', 'contacts', 'claims'];
+
+// Panel template names and the PDF layouts they correspond to
+const TEMPLATE_LAYOUTS: Record<ProcessingConfig['summaryTemplate'], string> = {
+  standard: 'professional',
+  detailed: 'detailed',
+  executive: 'quick-reference',
+  'client-friendly': 'client-friendly',
+};
+
+function toProcessingOptions(config: ProcessingConfig): Partial<ProcessingOptions> {
+  return {
+    detailLevel: config.languageComplexity === 'technical' ? 'expert' : config.analysisDepth,
+    focusAreas: FOCUS_AREAS.filter(area => config.extractionFocus.includes(area)),
+    generateExplanations: config.languageComplexity !== 'technical',
+    highlightRisks: config.includeRiskAssessment,
+    generateRecommendations: config.generateRecommendations,
+    includeComparisons: config.includeCoverageComparison,
+    summaryLength: config.summaryTemplate === 'executive' ? 'short' : 'detailed',
+  };
+}
+
+function fromPreset(preset: ProcessingPresetItem): Partial<ProcessingConfig> {
+  const { options } = preset;
+  const template = (Object.keys(TEMPLATE_LAYOUTS) as ProcessingConfig['summaryTemplate'][])
+    .find(name => TEMPLATE_LAYOUTS[name] === preset.pdfTemplate);
+  return {
+    analysisDepth: options.detailLevel === 'expert' ? 'comprehensive' : options.detailLevel,
+    extractionFocus: options.focusAreas,
+    languageComplexity: options.detailLevel === 'expert' ? 'technical' : options.generateExplanations ? 'professional' : 'simple',
+    includeRiskAssessment: options.highlightRisks,
+    generateRecommendations: options.generateRecommendations,
+    includeCoverageComparison: options.includeComparisons,
+    ...(template ? { summaryTemplate: template } : {}),
+  };
+}
+
 export function ProcessingControlPanel({ onProcessingChange, currentDocument }: ProcessingControlPanelProps) {
   const [config, setConfig] = useState<ProcessingConfig>({
     analysisDepth: 'standard',
@@ -66,11 +106,9 @@ export function ProcessingControlPanel({ onProcessingChange, currentDocument }:
     priorityLevel: 'routine'
   });
 
-  const [savedConfigs, setSavedConfigs] = useState<string[]>([
-    'Standard Business Policy',
-    'Personal Insurance Review',
-    'Commercial Coverage Analysis'
-  ]);
+  const { data: savedConfigs = [] } = useQuery<ProcessingPresetItem[]>({
+    queryKey: ['/api/processing-presets'],
+  });
 
   const updateConfig = (updates: Partial<ProcessingConfig>) => {
     const newConfig = { ...config, ...updates };
@@ -85,11 +123,6 @@ export function ProcessingControlPanel({ onProcessingChange, currentDocument }:
     updateConfig({ extractionFocus: newFocus });
   };
 
-  const saveCurrentConfig = () => {
-    const name = `Custom Config ${savedConfigs.length + 1}`;
-    setSavedConfigs([...savedConfigs, name]);
-  };
-
   const resetToDefault = () => {
     const defaultConfig: ProcessingConfig = {
       analysisDepth: 'standard',
@@ -348,15 +381,10 @@ export function ProcessingControlPanel({ onProcessingChange, currentDocument }:
         <div className="space-y-3">
           <Label className="text-sm font-medium">Quick Actions</Label>
           <div className="flex gap-2">
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={saveCurrentConfig}
-              className="flex-1"
-            >
-              <Save className="w-4 h-4 mr-1" />
-              Save
-            </Button>
+            <SavePresetDialog
+              options={toProcessingOptions(config)}
+              pdfTemplate={TEMPLATE_LAYOUTS[config.summaryTemplate]}
+            />
             <Button 
               variant="outline" 
               size="sm" 
@@ -374,15 +402,16 @@ export function ProcessingControlPanel({ onProcessingChange, currentDocument }:
           <div className="space-y-2">
             <Label className="text-sm font-medium">Saved Configurations</Label>
             <div className="space-y-1">
-              {savedConfigs.slice(0, 3).map((configName, index) => (
+              {savedConfigs.slice(0, 3).map(preset => (
                 <Button
-                  key={index}
+                  key={preset.id}
                   variant="ghost"
                   size="sm"
                   className="w-full justify-start text-xs"
+                  onClick={() => updateConfig(fromPreset(preset))}
                 >
                   <Sparkles className="w-3 h-3 mr-2" />
-                  {configName}
+                  {preset.name}
                 </Button>
               ))}
             </div>
@@ -0,0 +1,144 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bookmark, Star, Trash2, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { api, type PdfTemplateList, type ProcessingPresetItem, type ProcessingPresetDetails } from "@/lib/api";
+
+// List the agent's processing presets and the ones shared with them. New presets
+// are saved from the upload form's Processing Options.
+export function ProcessingPresetManager() {
+  const { toast } = useToast();
+
+  const { data: presets = [] } = useQuery<ProcessingPresetItem[]>({
+    queryKey: ["/api/processing-presets"],
+  });
+  const { data: templates } = useQuery<PdfTemplateList>({
+    queryKey: ["/api/pdf-templates"],
+  });
+
+  const templateLabel = (name: string | null) =>
+    templates?.templates.find(template => template.name === name)?.label || name;
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, details }: { id: number; details: Partial<ProcessingPresetDetails> }) =>
+      api.updateProcessingPreset(id, details),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/processing-presets"] });
+    },
+    onError: showError("Update failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteProcessingPreset,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/processing-presets"] });
+    },
+    onError: showError("Delete failed"),
+  });
+
+  const ownPresets = presets.filter(preset => preset.owned);
+  const sharedPresets = presets.filter(preset => !preset.owned);
+
+  const describe = (preset: ProcessingPresetItem) => [
+    preset.options.summaryLength === "detailed" ? `${preset.options.detailLevel} detail` : "short summary",
+    preset.options.outputFormat,
+    preset.pdfTemplate ? templateLabel(preset.pdfTemplate) : null,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Bookmark className="w-5 h-5" />
+            <span>My Presets</span>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Save a preset from Processing Options on the upload form. Your default preset is preselected for new uploads.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {ownPresets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No presets yet.</p>
+          ) : (
+            ownPresets.map(preset => (
+              <div key={preset.id} className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">
+                    {preset.name}
+                    {preset.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">{preset.description || describe(preset)}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className="text-sm text-muted-foreground">Shared</span>
+                  <Switch
+                    checked={preset.shared}
+                    disabled={updateMutation.isPending}
+                    onCheckedChange={(shared) => updateMutation.mutate({ id: preset.id, details: { shared } })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title={preset.isDefault ? "Stop using by default" : "Use by default"}
+                    disabled={updateMutation.isPending}
+                    onClick={() => updateMutation.mutate({ id: preset.id, details: { isDefault: !preset.isDefault } })}
+                  >
+                    <Star className={`w-4 h-4 ${preset.isDefault ? "fill-yellow-400 text-yellow-500" : ""}`} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Delete the "${preset.name}" preset?`)) {
+                        deleteMutation.mutate(preset.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Users className="w-5 h-5" />
+            <span>Shared With Me</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {sharedPresets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No one else in your agency has shared a preset.</p>
+          ) : (
+            sharedPresets.map(preset => (
+              <div key={preset.id} className="rounded-lg border border-border p-3">
+                <p className="font-medium text-foreground truncate">{preset.name}</p>
+                <p className="text-sm text-muted-foreground truncate">{preset.description || describe(preset)}</p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
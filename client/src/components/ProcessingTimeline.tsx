@@ -0,0 +1,140 @@
+import { AlertCircle, CheckCircle, Clock, FileSearch, Loader2, RefreshCw, ScanText, ShieldCheck, Sparkles, XCircle } from 'lucide-react';
+import type { ProcessingEvent, ProcessingEventType, ProcessingStage } from '@shared/schema';
+import { Progress } from '@/components/ui/progress';
+import { useProcessingEvents } from '@/hooks/useProcessingEvents';
+
+interface ProcessingTimelineProps {
+  documentId: number;
+  onFinished?: (lastEvent: ProcessingEvent | undefined) => void;
+}
+
+const STEPS: { label: string; stages: ProcessingStage[] }[] = [
+  { label: 'Process', stages: ['queued', 'extracting'] },
+  { label: 'Analyze', stages: ['analyzing'] },
+  { label: 'Summarize', stages: ['saving', 'completed'] },
+];
+
+const EVENT_ICONS: Record<ProcessingEventType, typeof Clock> = {
+  queued: Clock,
+  stage: Loader2,
+  text_extraction: FileSearch,
+  ocr_page: ScanText,
+  llm_call: Sparkles,
+  validation: ShieldCheck,
+  retry: RefreshCw,
+  saved: CheckCircle,
+  failed: AlertCircle,
+  cancelled: XCircle,
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export function ProcessingTimeline({ documentId, onFinished }: ProcessingTimelineProps) {
+  const { events, latest } = useProcessingEvents(documentId, onFinished);
+
+  const stepIndex = latest ? STEPS.findIndex(step => step.stages.includes(latest.stage)) : 0;
+  const isComplete = latest?.type === 'saved';
+  const ocrProgress = latest?.type === 'ocr_page' && latest.total
+    ? Math.round(((latest.current || 0) / latest.total) * 100)
+    : null;
+
+  return (
+    <div className="flex flex-col items-center space-y-4 py-4">
+      <div className="flex items-center space-x-2">
+        <Clock className="w-6 h-6 text-blue-600 animate-pulse" />
+        <p className="text-lg text-blue-600 font-semibold">
+          {latest?.message || 'Processing document...'}
+        </p>
+      </div>
+
+      {/* Step indicator */}
+      <div className="w-full max-w-sm">
+        <div className="flex justify-center items-center space-x-8">
+          {STEPS.map((step, i) => {
+            const isActive = i <= stepIndex;
+            const isCurrentStep = i === stepIndex && !isComplete;
+            const isCompleted = i < stepIndex || isComplete;
+
+            return (
+              <div key={step.label} className="flex flex-col items-center">
+                <div className="relative">
+                  <div
+                    className={`w-14 h-14 rounded-full flex items-center justify-center font-medium text-sm transition-all duration-500 ${
+                      isActive
+                        ? 'bg-blue-600 text-white scale-110 shadow-lg'
+                        : 'bg-gray-200 text-gray-500'
+                    }`}
+                  >
+                    {isCurrentStep ? (
+                      <Loader2 className="w-6 h-6 animate-spin" />
+                    ) : isCompleted ? (
+                      <div className="text-lg">✓</div>
+                    ) : (
+                      i + 1
+                    )}
+                  </div>
+                  {isCurrentStep && (
+                    <div className="absolute inset-0 rounded-full bg-blue-600 opacity-20 animate-ping" />
+                  )}
+                  {i < STEPS.length - 1 && (
+                    <div
+                      className={`absolute top-7 left-14 h-0.5 transition-all duration-500 ${
+                        i < stepIndex ? 'bg-blue-600' :
+                        i === stepIndex ? 'bg-gray-300 animate-pulse' :
+                        'bg-gray-300'
+                      }`}
+                      style={{ width: '32px' }}
+                    />
+                  )}
+                </div>
+                <span className={`text-sm mt-2 transition-all duration-300 ${
+                  isCurrentStep ? 'text-blue-700 font-semibold' :
+                  isActive ? 'text-blue-600 font-medium' :
+                  'text-gray-400'
+                }`}>
+                  {step.label}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {ocrProgress !== null && (
+        <div className="w-full max-w-sm">
+          <Progress value={ocrProgress} className="h-2" />
+        </div>
+      )}
+
+      {/* Event log */}
+      {events.length > 0 && (
+        <ol className="w-full max-w-md space-y-1.5 text-sm">
+          {events.map((event, index) => {
+            const Icon = EVENT_ICONS[event.type];
+            const isLatest = index === events.length - 1;
+            return (
+              <li key={event.id} className="flex items-start space-x-2">
+                <Icon
+                  className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                    event.type === 'failed' || event.type === 'cancelled' ? 'text-red-600' :
+                    event.type === 'retry' ? 'text-amber-600' :
+                    event.type === 'saved' ? 'text-green-600' :
+                    'text-blue-600'
+                  } ${isLatest && event.type === 'stage' ? 'animate-spin' : ''}`}
+                />
+                <span className={isLatest ? 'text-foreground font-medium' : 'text-muted-foreground'}>
+                  {event.message}
+                </span>
+                <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                  {formatTime(event.at)}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { CalendarClock, Copy, Loader2, RefreshCw } from 'lucide-react';
+import type { RenewalsOverview, RenewalWindow } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { api, type CalendarFeed } from '@/lib/api';
+
+const WINDOW_STYLES: Record<RenewalWindow, string> = {
+  30: 'text-red-600 dark:text-red-400',
+  60: 'text-amber-600 dark:text-amber-400',
+  90: 'text-blue-600 dark:text-blue-400',
+};
+
+function formatExpiration(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { timeZone: 'UTC', dateStyle: 'medium' });
+}
+
+function urgencyBadge(days: number) {
+  if (days <= 0) return <Badge variant="destructive">{days === 0 ? 'Today' : 'Expired'}</Badge>;
+  if (days <= 30) return <Badge variant="destructive">{days} days</Badge>;
+  if (days <= 60) return <Badge variant="secondary">{days} days</Badge>;
+  return <Badge variant="outline">{days} days</Badge>;
+}
+
+export function RenewalsDashboard() {
+  const [selectedWindow, setSelectedWindow] = useState<RenewalWindow>(90);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: overview, isLoading } = useQuery<RenewalsOverview>({
+    queryKey: ['/api/renewals'],
+    staleTime: 0, // newly processed policies show up on every visit
+  });
+
+  const { data: calendarFeed } = useQuery<CalendarFeed>({
+    queryKey: ['/api/renewals/calendar'],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: api.resetCalendarFeed,
+    onSuccess: (feed) => {
+      queryClient.setQueryData(['/api/renewals/calendar'], feed);
+      toast({
+        title: 'Calendar Link Reset',
+        description: 'The old link no longer works. Subscribe again with the new one.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Reset Failed',
+        description: error instanceof Error ? error.message : 'Failed to reset the calendar link',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const copyCalendarUrl = async () => {
+    if (!calendarFeed) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeed.url);
+      toast({ title: 'Link Copied', description: 'Add it to your calendar app as a subscription.' });
+    } catch {
+      toast({ title: 'Copy Failed', description: 'Select the link and copy it manually.', variant: 'destructive' });
+    }
+  };
+
+  const renewals = (overview?.renewals ?? []).filter(renewal => renewal.daysUntilExpiration <= selectedWindow);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Renewals</h1>
+        <p className="text-muted-foreground">Policies expiring in the next 90 days</p>
+      </div>
+
+      {/* Window counts */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(overview?.windows ?? []).map(({ days, count }) => (
+          <Card
+            key={days}
+            className={`cursor-pointer transition-colors ${selectedWindow === days ? 'border-primary' : 'hover:border-muted-foreground/50'}`}
+            onClick={() => setSelectedWindow(days)}
+          >
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Next {days} days</p>
+                  <p className="text-2xl font-bold">{count}</p>
+                </div>
+                <CalendarClock className={`w-8 h-8 ${WINDOW_STYLES[days]}`} />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Expiring policies */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Expiring in the next {selectedWindow} days</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : renewals.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              No processed policies expire in the next {selectedWindow} days.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Insured</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Insurer</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {renewals.map(renewal => (
+                  <TableRow
+                    key={renewal.documentId}
+                    className="cursor-pointer"
+                    onClick={() => setLocation(`/summary/${renewal.documentId}`)}
+                  >
+                    <TableCell className="font-medium">
+                      {renewal.insuredName || renewal.clientName || renewal.name}
+                    </TableCell>
+                    <TableCell>
+                      <div>{renewal.policyType || renewal.name}</div>
+                      {renewal.policyNumber && (
+                        <div className="text-xs text-muted-foreground">{renewal.policyNumber}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{renewal.insurer || '—'}</TableCell>
+                    <TableCell>{formatExpiration(renewal.expirationDate)}</TableCell>
+                    <TableCell>{urgencyBadge(renewal.daysUntilExpiration)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Calendar subscription */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Calendar Feed</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see every policy
+            expiration, with a reminder 30 days ahead. Keep it private: anyone with the link can see your renewals.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input readOnly value={calendarFeed?.url ?? ''} placeholder="Loading…" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={copyCalendarUrl} disabled={!calendarFeed}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy
+            </Button>
+            <Button variant="outline" onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending}>
+              {resetMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4 mr-2" />
+              )}
+              Reset Link
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Bookmark } from "lucide-react";
+import type { ProcessingOptions } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { api, type ProcessingPresetItem } from "@/lib/api";
+import { PdfTemplateSelect } from "./PdfTemplateSelect";
+
+interface SavePresetDialogProps {
+  options: Partial<ProcessingOptions>;
+  pdfTemplate?: string;
+  onSaved?: (preset: ProcessingPresetItem) => void;
+}
+
+const EMPTY_PRESET = { name: "", description: "", pdfTemplate: "professional", shared: false, isDefault: false };
+
+// Save the current processing options, plus an export layout, as a named preset
+export function SavePresetDialog({ options, pdfTemplate, onSaved }: SavePresetDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [details, setDetails] = useState(EMPTY_PRESET);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDetails({ ...EMPTY_PRESET, pdfTemplate: pdfTemplate || EMPTY_PRESET.pdfTemplate });
+    }
+    setOpen(nextOpen);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.createProcessingPreset({ ...details, name: details.name.trim(), options }),
+    onSuccess: (preset) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/processing-presets"] });
+      toast({ title: "Preset saved", description: `"${preset.name}" is now available when uploading.` });
+      setOpen(false);
+      onSaved?.(preset);
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save preset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Bookmark className="w-4 h-4 mr-2" />
+          Save as Preset
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save Processing Preset</DialogTitle>
+          <DialogDescription>
+            Reuse these processing options for a policy type, e.g. "Commercial GL – detailed".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="preset-name">Name *</Label>
+            <Input
+              id="preset-name"
+              value={details.name}
+              onChange={(e) => setDetails(current => ({ ...current, name: e.target.value }))}
+              placeholder="Commercial GL – detailed"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-description">Description</Label>
+            <Input
+              id="preset-description"
+              value={details.description}
+              onChange={(e) => setDetails(current => ({ ...current, description: e.target.value }))}
+              placeholder="Full coverage breakdown for general liability renewals"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-template">PDF Template</Label>
+            <PdfTemplateSelect
+              id="preset-template"
+              value={details.pdfTemplate}
+              onValueChange={(pdfTemplate) => setDetails(current => ({ ...current, pdfTemplate }))}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="preset-shared">Share with agency</Label>
+              <p className="text-sm text-muted-foreground">Everyone in your agency can use it; only you and agency admins can change it</p>
+            </div>
+            <Switch
+              id="preset-shared"
+              checked={details.shared}
+              onCheckedChange={(shared) => setDetails(current => ({ ...current, shared }))}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="preset-default">Use by default</Label>
+              <p className="text-sm text-muted-foreground">Preselected for your new uploads</p>
+            </div>
+            <Switch
+              id="preset-default"
+              checked={details.isDefault}
+              onCheckedChange={(isDefault) => setDetails(current => ({ ...current, isDefault }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !details.name.trim()}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Preset"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle, Loader2, Send } from 'lucide-react';
+import type { EmailDeliveryMethod } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { api, type EmailDeliveryItem, type EmailDraft, type EmailStatus } from '@/lib/api';
+
+// "a@x.com, b@y.com; c@z.com" -> three addresses
+function parseAddresses(value: string): string[] {
+  return value.split(/[,;\s]+/).map(address => address.trim()).filter(Boolean);
+}
+
+interface SendEmailDialogProps {
+  documentId: number | null;
+  documentName?: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Email a summary to the client with a cover note, as a PDF attachment or a share link
+export function SendEmailDialog({ documentId, documentName, isOpen, onClose }: SendEmailDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [to, setTo] = useState('');
+  const [cc, setCc] = useState('');
+  const [subject, setSubject] = useState('');
+  const [message, setMessage] = useState('');
+  const [method, setMethod] = useState<EmailDeliveryMethod>('attachment');
+  const deliveriesKey = [`/api/documents/${documentId}/email-deliveries`];
+
+  const { data: status } = useQuery<EmailStatus>({
+    queryKey: ['/api/email/status'],
+    enabled: isOpen,
+  });
+
+  const { data: draft, isLoading: isDraftLoading } = useQuery<EmailDraft>({
+    queryKey: [`/api/documents/${documentId}/email/draft`],
+    enabled: !!documentId && isOpen,
+    // The template or linked client may have changed since the last send
+    staleTime: 0,
+  });
+
+  const { data: deliveries = [] } = useQuery<EmailDeliveryItem[]>({
+    queryKey: deliveriesKey,
+    enabled: !!documentId && isOpen,
+    staleTime: 0,
+  });
+
+  // Start each send from the filled-in template
+  useEffect(() => {
+    if (draft && isOpen) {
+      setTo(draft.to.join(', '));
+      setCc('');
+      setSubject(draft.subject);
+      setMessage(draft.message);
+    }
+  }, [draft, isOpen]);
+
+  const sendMutation = useMutation({
+    mutationFn: () => api.sendSummaryEmail(documentId!, {
+      to: parseAddresses(to),
+      cc: parseAddresses(cc),
+      subject,
+      message,
+      method,
+    }),
+    onSuccess: (delivery) => {
+      toast({
+        title: 'Email Sent',
+        description: `Sent to ${[...delivery.recipients, ...delivery.cc].join(', ')}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/share-links`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      onClose();
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      toast({
+        title: 'Email Failed',
+        description: error instanceof Error ? error.message : 'Failed to send the email',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!documentId) return null;
+
+  const canSend = status?.configured && parseAddresses(to).length > 0 && subject.trim() && message.trim();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Send className="w-5 h-5" />
+            <span>Email to Client</span>
+          </DialogTitle>
+          <DialogDescription>
+            {documentName ? `Send the summary of ${documentName}` : 'Send this summary'} with a cover note.
+            Your signature from your agent profile is added below the message, and replies come back to you.
+          </DialogDescription>
+        </DialogHeader>
+
+        {status && !status.configured && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Email is not set up on this server. Ask your administrator to configure SMTP.</AlertDescription>
+          </Alert>
+        )}
+
+        {isDraftLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="email-to">To</Label>
+              <Input id="email-to" placeholder="client@example.com" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="email-cc">Cc (optional)</Label>
+              <Input id="email-cc" value={cc} onChange={(e) => setCc(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="email-subject">Subject</Label>
+              <Input id="email-subject" maxLength={200} value={subject} onChange={(e) => setSubject(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="email-message">Message</Label>
+              <Textarea id="email-message" rows={8} value={message} onChange={(e) => setMessage(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Include the summary as</Label>
+              <RadioGroup value={method} onValueChange={(value) => setMethod(value as EmailDeliveryMethod)} className="flex gap-6">
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="attachment" id="email-attachment" />
+                  <Label htmlFor="email-attachment" className="font-normal">PDF attachment</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="link" id="email-link" />
+                  <Label htmlFor="email-link" className="font-normal">Link to the web summary</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+        )}
+
+        {deliveries.length > 0 && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <p className="text-sm font-medium">Sent before</p>
+            <div className="max-h-40 overflow-y-auto space-y-2">
+              {deliveries.map(delivery => (
+                <div key={delivery.id} className="text-xs text-muted-foreground">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={delivery.status === 'sent' ? 'secondary' : 'destructive'}>
+                      {delivery.status === 'sent' ? 'Sent' : 'Failed'}
+                    </Badge>
+                    <span>{new Date(delivery.createdAt).toLocaleString()}</span>
+                    <span>to {[...delivery.recipients, ...delivery.cc].join(', ')}</span>
+                    <span>· {delivery.method === 'link' ? 'link' : 'PDF'}</span>
+                    {delivery.sentBy && <span>· by {delivery.sentBy}</span>}
+                  </div>
+                  {delivery.error && <p className="mt-0.5 text-red-600">{delivery.error}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => sendMutation.mutate()} disabled={!canSend || sendMutation.isPending}>
+            {sendMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, Copy, Link2, Loader2 } from 'lucide-react';
+import { SHARE_LINK_DEFAULT_DAYS } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { api, type ShareLinkItem } from '@/lib/api';
+
+const EXPIRY_CHOICES = [7, 14, 30, 60, 90];
+
+const STATUS_BADGES: Record<ShareLinkItem['status'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'outline' },
+};
+
+interface ShareLinksDialogProps {
+  documentId: number | null;
+  documentName?: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Create, copy and revoke the public links a client uses to read a summary online
+export function ShareLinksDialog({ documentId, documentName, isOpen, onClose }: ShareLinksDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [label, setLabel] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(SHARE_LINK_DEFAULT_DAYS);
+  const queryKey = [`/api/documents/${documentId}/share-links`];
+
+  const { data: links = [], isLoading } = useQuery<ShareLinkItem[]>({
+    queryKey,
+    enabled: !!documentId && isOpen,
+    // View counts change whenever the client opens the link
+    staleTime: 0,
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Link Copied', description: 'Send it to your client. It works without signing in.' });
+    } catch {
+      toast({ title: 'Copy Failed', description: 'Select the link and copy it manually.', variant: 'destructive' });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createShareLink(documentId!, { label: label.trim() || undefined, expiresInDays }),
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey });
+      setLabel('');
+      copyLink(link.url);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Share Failed',
+        description: error instanceof Error ? error.message : 'Failed to create the share link',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: number) => api.revokeShareLink(documentId!, linkId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Link Revoked', description: 'Anyone opening it now sees that it has been turned off.' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Revoke Failed',
+        description: error instanceof Error ? error.message : 'Failed to revoke the share link',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!documentId) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Link2 className="w-5 h-5" />
+            <span>Share with Client</span>
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read {documentName ? `the summary of ${documentName}` : 'this summary'} online
+            and download the PDF, with your branding, until the link expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1 flex-1 min-w-48">
+            <Label htmlFor="share-label" className="text-xs text-muted-foreground">Shared with (optional)</Label>
+            <Input
+              id="share-label"
+              placeholder="e.g. Jane Smith"
+              maxLength={200}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Expires after</Label>
+            <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_CHOICES.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+            {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+            Create Link
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">Not shared yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {links.map(link => {
+              const badge = STATUS_BADGES[link.status];
+              return (
+                <div key={link.id} className="border border-border rounded-lg p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{link.label || 'Unlabeled link'}</span>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'} · {link.downloadCount} PDF {link.downloadCount === 1 ? 'download' : 'downloads'}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created {new Date(link.createdAt).toLocaleDateString()}
+                    {link.status === 'revoked' && link.revokedAt
+                      ? ` · revoked ${new Date(link.revokedAt).toLocaleDateString()}`
+                      : ` · ${link.status === 'expired' ? 'expired' : 'expires'} ${new Date(link.expiresAt).toLocaleDateString()}`}
+                    {link.lastViewedAt && ` · last opened ${new Date(link.lastViewedAt).toLocaleString()}`}
+                  </p>
+                  {link.status === 'active' && (
+                    <div className="flex gap-2">
+                      <Input readOnly value={link.url} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                      <Button variant="outline" size="sm" onClick={() => copyLink(link.url)}>
+                        <Copy className="w-3 h-3 mr-1" />
+                        Copy
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => revokeMutation.mutate(link.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        <Ban className="w-3 h-3 mr-1" />
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
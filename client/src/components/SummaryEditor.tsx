@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Save, RotateCcw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { summaryToMarkdown } from '@shared/summaryMarkdown';
 import { ProcessedDocument, api } from '@/lib/api';
 
 interface SummaryEditorProps {
@@ -67,23 +68,21 @@ export function SummaryEditor({ document, onSummaryUpdate, isLoading }: SummaryE
     },
   });
 
-  // Clean up summary text for editing (remove ** around brackets)
-  const cleanSummaryForEditing = (summary: string): string => {
-    return summary.replace(/\*\*\[([^\]]+)\]\*\*/g, '[$1]');
-  };
+  // Edit the text the stored sections write out, so headings and bullets look the same
+  // in every summary
+  const summaryForEditing = (document: ProcessedDocument): string => summaryToMarkdown(document.structuredSummary);
 
   // Update edited summary when document changes
   useEffect(() => {
     if (document?.summary) {
-      const cleanedSummary = cleanSummaryForEditing(document.summary);
-      setEditedSummary(cleanedSummary);
+      setEditedSummary(summaryForEditing(document));
       setHasChanges(false);
     }
   }, [document?.summary]);
 
   const handleSummaryChange = (value: string) => {
     setEditedSummary(value);
-    setHasChanges(value !== document?.summary);
+    setHasChanges(!!document && value !== summaryForEditing(document));
     // Update preview in real-time
     onSummaryUpdate(value);
   };
@@ -120,8 +119,7 @@ export function SummaryEditor({ document, onSummaryUpdate, isLoading }: SummaryE
 
   const handleReset = () => {
     if (document?.summary) {
-      const cleanedSummary = cleanSummaryForEditing(document.summary);
-      setEditedSummary(cleanedSummary);
+      setEditedSummary(summaryForEditing(document));
       setHasChanges(false);
       // Reset the preview to show the original summary
       onSummaryUpdate('');
@@ -209,6 +207,7 @@ export function SummaryEditor({ document, onSummaryUpdate, isLoading }: SummaryE
             </p>
             <ul className="list-disc pl-6 mt-2 space-y-1">
               <li>Use [subheader] format to create section headings</li>
+              <li>Start bullet points with • or - and leave a blank line between paragraphs</li>
               <li>Keep paragraphs substantial (80-120 words each)</li>
               <li>Maintain professional, client-friendly language</li>
               <li>Include specific coverage amounts and limits</li>
@@ -11,28 +11,37 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   Clock, 
-  Star, 
+  RotateCcw, 
   Trash2, 
   Eye, 
   CheckCircle,
   Calendar,
   User,
-  FileText
+  FileText,
+  GitCompare
 } from 'lucide-react';
-import { api } from '@/lib/api';
+import { SUMMARY_LANGUAGE_LABELS, type SummaryVersionSource } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { api, type SummaryVersion } from '@/lib/api';
+import { diffWords } from '@/lib/wordDiff';
 
-interface SummaryVersion {
-  id: number;
-  documentId: number;
-  versionNumber: number;
-  summary: string;
-  generatedAt: string;
-  isActive: boolean;
-  generatedBy?: string;
-  processingOptions?: any;
-}
+const SOURCE_LABELS: Record<SummaryVersionSource, string> = {
+  processing: 'Processed',
+  edit: 'Manual edit',
+  regeneration: 'Regenerated',
+  restore: 'Restored',
+  translation: 'Translation',
+};
 
 interface SummaryHistoryDialogProps {
   documentId: number | null;
@@ -42,43 +51,59 @@ interface SummaryHistoryDialogProps {
 
 export function SummaryHistoryDialog({ documentId, isOpen, onClose }: SummaryHistoryDialogProps) {
   const [selectedVersion, setSelectedVersion] = useState<SummaryVersion | null>(null);
+  const [compareVersionId, setCompareVersionId] = useState<number | null>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   const { data: summaryHistory, isLoading } = useQuery<SummaryVersion[]>({
     queryKey: [`/api/documents/${documentId}/summary-history`],
     enabled: !!documentId && isOpen,
+    // Edits, regenerations and reprocessing add versions elsewhere; reload whenever the dialog opens
+    staleTime: 0,
   });
 
-  const setActiveMutation = useMutation({
-    mutationFn: async (versionId: number) => {
-      const response = await fetch(`/api/documents/${documentId}/summary-history/${versionId}/activate`, {
-        method: 'POST',
-      });
-      if (!response.ok) throw new Error('Failed to set active summary');
-      return response.json();
-    },
-    onSuccess: () => {
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong',
+      variant: 'destructive',
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (versionId: number) => api.restoreSummaryVersion(documentId!, versionId),
+    onSuccess: (document) => {
+      queryClient.setQueryData([`/api/documents/${documentId}`], document);
       queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/summary-history`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}`] });
+      toast({ title: 'Summary restored', description: `Version ${selectedVersion?.versionNumber} is the current summary again.` });
+      setSelectedVersion(null);
     },
+    onError: showError('Restore failed'),
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (versionId: number) => {
-      const response = await fetch(`/api/documents/${documentId}/summary-history/${versionId}`, {
-        method: 'DELETE',
-      });
-      if (!response.ok) throw new Error('Failed to delete summary version');
-      return response.json();
-    },
+    mutationFn: (versionId: number) => api.deleteSummaryVersion(documentId!, versionId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/summary-history`] });
       setSelectedVersion(null);
     },
+    onError: showError('Delete failed'),
   });
 
   if (!documentId) return null;
 
+  // Compare against the chosen version, defaulting to the one just before the selection
+  const otherVersions = summaryHistory?.filter(version => version.id !== selectedVersion?.id) ?? [];
+  const compareVersion = otherVersions.find(version => version.id === compareVersionId)
+    ?? otherVersions.find(version => selectedVersion && version.versionNumber < selectedVersion.versionNumber)
+    ?? otherVersions[0];
+  const diff = selectedVersion && compareVersion ? diffWords(compareVersion.summary, selectedVersion.summary) : [];
+
+  const selectVersion = (version: SummaryVersion) => {
+    setSelectedVersion(version);
+    setCompareVersionId(null);
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[80vh]">
@@ -88,7 +113,7 @@ export function SummaryHistoryDialog({ documentId, isOpen, onClose }: SummaryHis
             <span>Summary History</span>
           </DialogTitle>
           <DialogDescription>
-            View and manage different versions of this document's summary
+            Every edit, regeneration and restore is kept as a version. Compare versions word by word or restore an earlier one.
           </DialogDescription>
         </DialogHeader>
 
@@ -114,7 +139,7 @@ export function SummaryHistoryDialog({ documentId, isOpen, onClose }: SummaryHis
                           ? 'ring-2 ring-valley-primary bg-valley-primary/5' 
                           : 'hover:bg-slate-50'
                       }`}
-                      onClick={() => setSelectedVersion(version)}
+                      onClick={() => selectVersion(version)}
                     >
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
@@ -128,6 +153,10 @@ export function SummaryHistoryDialog({ documentId, isOpen, onClose }: SummaryHis
                                 Active
                               </Badge>
                             )}
+                            <Badge variant="outline">{SOURCE_LABELS[version.source]}</Badge>
+                            {version.language !== 'en' && (
+                              <Badge variant="outline">{SUMMARY_LANGUAGE_LABELS[version.language]}</Badge>
+                            )}
                           </div>
                           
                           <div className="flex items-center space-x-4 text-sm text-slate-600">
@@ -171,15 +200,16 @@ export function SummaryHistoryDialog({ documentId, isOpen, onClose }: SummaryHis
                     Version {selectedVersion.versionNumber} Details
                   </h3>
                   <div className="flex space-x-2">
-                    {!selectedVersion.isActive && (
+                    {/* Translations are used for exports in their language, never as the working summary */}
+                    {!selectedVersion.isActive && selectedVersion.source !== 'translation' && (
                       <Button
                         size="sm"
-                        onClick={() => setActiveMutation.mutate(selectedVersion.id)}
-                        disabled={setActiveMutation.isPending}
+                        onClick={() => restoreMutation.mutate(selectedVersion.id)}
+                        disabled={restoreMutation.isPending}
                         className="valley-primary valley-primary-hover"
                       >
-                        <Star className="w-4 h-4 mr-1" />
-                        Make Active
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
                       </Button>
                     )}
                     <Button
@@ -202,12 +232,19 @@ export function SummaryHistoryDialog({ documentId, isOpen, onClose }: SummaryHis
                         {new Date(selectedVersion.generatedAt).toLocaleString()}
                       </span>
                     </div>
-                    {selectedVersion.generatedBy && (
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="text-slate-600">Generated by:</span>
-                        <span className="font-medium">{selectedVersion.generatedBy}</span>
-                      </div>
-                    )}
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-600">Change:</span>
+                      <span className="font-medium">
+                        {SOURCE_LABELS[selectedVersion.source]}
+                        {selectedVersion.restoredFromVersion && ` from version ${selectedVersion.restoredFromVersion}`}
+                        {selectedVersion.translatedFromVersion &&
+                          ` of version ${selectedVersion.translatedFromVersion} into ${SUMMARY_LANGUAGE_LABELS[selectedVersion.language]}`}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-600">By:</span>
+                      <span className="font-medium">{selectedVersion.generatedBy}</span>
+                    </div>
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-slate-600">Status:</span>
                       <Badge variant={selectedVersion.isActive ? "default" : "secondary"}>
@@ -216,49 +253,94 @@ export function SummaryHistoryDialog({ documentId, isOpen, onClose }: SummaryHis
                     </div>
                   </div>
 
-                  <div className="border-t pt-4">
-                    <div className="flex items-center space-x-2 mb-3">
-                      <FileText className="w-4 h-4 text-slate-600" />
-                      <span className="font-medium text-slate-900">Summary Content</span>
-                    </div>
-                    <ScrollArea className="h-64">
-                      <div className="prose prose-sm max-w-none">
-                        <div className="text-slate-700 leading-relaxed space-y-3">
-                          {selectedVersion.summary.split('\n').map((paragraph, index) => {
-                            if (paragraph.trim() === '') {
-                              return <div key={index} className="h-2"></div>;
-                            }
+                  <Tabs defaultValue="content" className="border-t pt-4">
+                    <TabsList className="mb-3">
+                      <TabsTrigger value="content">
+                        <FileText className="w-4 h-4 mr-1" />
+                        Summary Content
+                      </TabsTrigger>
+                      <TabsTrigger value="compare" disabled={!compareVersion}>
+                        <GitCompare className="w-4 h-4 mr-1" />
+                        Compare
+                      </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="content">
+                      <ScrollArea className="h-64">
+                        <div className="prose prose-sm max-w-none">
+                          <div className="text-slate-700 leading-relaxed space-y-3">
+                            {selectedVersion.summary.split('\n').map((paragraph, index) => {
+                              if (paragraph.trim() === '') {
+                                return <div key={index} className="h-2"></div>;
+                              }
+                            
+                              if (paragraph.includes('**')) {
+                                const parts = paragraph.split('**');
+                                return (
+                                  <div key={index}>
+                                    {parts.map((part, partIndex) => {
+                                      if (partIndex % 2 === 1) {
+                                        return (
+                                          <strong key={partIndex} className="font-semibold text-slate-900">
+                                            {part}
+                                          </strong>
+                                        );
+                                      } else if (part.trim()) {
+                                        return <span key={partIndex}>{part}</span>;
+                                      }
+                                      return null;
+                                    })}
+                                  </div>
+                                );
+                              }
                             
-                            if (paragraph.includes('**')) {
-                              const parts = paragraph.split('**');
                               return (
-                                <div key={index}>
-                                  {parts.map((part, partIndex) => {
-                                    if (partIndex % 2 === 1) {
-                                      return (
-                                        <strong key={partIndex} className="font-semibold text-slate-900">
-                                          {part}
-                                        </strong>
-                                      );
-                                    } else if (part.trim()) {
-                                      return <span key={partIndex}>{part}</span>;
-                                    }
-                                    return null;
-                                  })}
-                                </div>
+                                <p key={index} className="text-sm">
+                                  {paragraph}
+                                </p>
                               );
-                            }
-                            
-                            return (
-                              <p key={index} className="text-sm">
-                                {paragraph}
-                              </p>
-                            );
-                          })}
+                            })}
+                          </div>
                         </div>
-                      </div>
-                    </ScrollArea>
-                  </div>
+                      </ScrollArea>
+                    </TabsContent>
+                    <TabsContent value="compare" className="space-y-3">
+                      {compareVersion && (
+                        <>
+                          <div className="flex items-center space-x-2 text-sm text-slate-600">
+                            <span>Changes since</span>
+                            <Select
+                              value={String(compareVersion.id)}
+                              onValueChange={(value) => setCompareVersionId(parseInt(value))}
+                            >
+                              <SelectTrigger className="w-40 h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {otherVersions.map(version => (
+                                  <SelectItem key={version.id} value={String(version.id)}>
+                                    Version {version.versionNumber}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <ScrollArea className="h-56">
+                            <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
+                              {diff.map((part, index) => (
+                                part.type === 'added' ? (
+                                  <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+                                ) : part.type === 'removed' ? (
+                                  <del key={index} className="bg-red-100 text-red-800">{part.text}</del>
+                                ) : (
+                                  <span key={index}>{part.text}</span>
+                                )
+                              ))}
+                            </p>
+                          </ScrollArea>
+                        </>
+                      )}
+                    </TabsContent>
+                  </Tabs>
                 </Card>
               </>
             ) : (
@@ -1,4 +1,5 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FactCheckReview, highlightUnsupported, unsupportedValues } from './FactCheckReview';
 
 interface ProcessedDocument {
   id: number;
@@ -40,9 +41,13 @@ export function SummaryPreview({ document, isLoading }: SummaryPreviewProps) {
   }
 
   const policyData = document.extractedData;
+  const unsupported = unsupportedValues(policyData);
+  const highlight = (text: string) => highlightUnsupported(text, unsupported);
 
   return (
     <div className="space-y-6">
+      <FactCheckReview unsupported={unsupported} />
+
       <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
         <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center">
           <span className="mr-2">📊</span>Policy Analysis Summary
@@ -122,9 +127,9 @@ export function SummaryPreview({ document, isLoading }: SummaryPreviewProps) {
                         <p key={index} className="mb-3">
                           {parts.map((part, partIndex) => 
                             partIndex % 2 === 1 ? (
-                              <strong key={partIndex} className="font-semibold text-valley-primary">{part}</strong>
+                              <strong key={partIndex} className="font-semibold text-valley-primary">{highlight(part)}</strong>
                             ) : (
-                              part
+                              highlight(part)
                             )
                           )}
                         </p>
@@ -135,7 +140,7 @@ export function SummaryPreview({ document, isLoading }: SummaryPreviewProps) {
                       return (
                         <div key={index} className="flex items-start ml-4 mb-2">
                           <span className="text-valley-primary mr-2 mt-1">•</span>
-                          <span className="text-slate-700">{line.trim().substring(1).trim()}</span>
+                          <span className="text-slate-700">{highlight(line.trim().substring(1).trim())}</span>
                         </div>
                       );
                     }
@@ -147,7 +152,7 @@ export function SummaryPreview({ document, isLoading }: SummaryPreviewProps) {
                     else {
                       return (
                         <p key={index} className="mb-3 text-slate-700 leading-relaxed">
-                          {line}
+                          {highlight(line)}
                         </p>
                       );
                     }
@@ -169,13 +174,13 @@ export function SummaryPreview({ document, isLoading }: SummaryPreviewProps) {
                 <div key={index} className="bg-white p-4 rounded-lg shadow-sm">
                   <div className="flex justify-between items-start mb-2">
                     <span className="font-medium text-blue-900">{coverage.type}</span>
-                    <span className="text-lg font-bold text-blue-700">{coverage.limit}</span>
+                    <span className="text-lg font-bold text-blue-700">{highlight(coverage.limit)}</span>
                   </div>
                   {coverage.deductible && (
-                    <p className="text-sm text-blue-600">Deductible: {coverage.deductible}</p>
+                    <p className="text-sm text-blue-600">Deductible: {highlight(coverage.deductible)}</p>
                   )}
                   {coverage.description && (
-                    <p className="text-sm text-slate-600 mt-2">{coverage.description}</p>
+                    <p className="text-sm text-slate-600 mt-2">{highlight(coverage.description)}</p>
                   )}
                 </div>
               ))}
@@ -196,7 +201,7 @@ export function SummaryPreview({ document, isLoading }: SummaryPreviewProps) {
                         {typeof benefit === 'string' ? benefit : benefit.benefit}
                       </p>
                       {benefit.description && (
-                        <p className="text-sm text-slate-600 mt-1">{benefit.description}</p>
+                        <p className="text-sm text-slate-600 mt-1">{highlight(benefit.description)}</p>
                       )}
                       {benefit.importance && (
                         <span className={`inline-block px-2 py-1 text-xs font-medium rounded mt-2 ${
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, Lock, MessageSquare, Send, Undo2, XCircle } from 'lucide-react';
+import type { ReviewStatus, StructuredSummary } from '@shared/schema';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { api, type DocumentReview } from '@/lib/api';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+  delivered: 'Delivered',
+};
+
+export const REVIEW_STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700',
+  in_review: 'bg-blue-100 text-blue-800',
+  changes_requested: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  delivered: 'bg-emerald-600 text-white',
+};
+
+const WHOLE_SUMMARY = '__summary__';
+
+// The headed sections a comment can be about
+function summarySections(summary: StructuredSummary): string[] {
+  return Array.from(new Set(summary.sections.map(section => section.title).filter(Boolean)));
+}
+
+interface SummaryReviewProps {
+  documentId: number;
+  summary: StructuredSummary;
+}
+
+// Review workflow for a summary: submit it, comment on its sections, and (for
+// reviewers other than the document's agent) approve it or ask for changes
+export function SummaryReview({ documentId, summary }: SummaryReviewProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [section, setSection] = useState(WHOLE_SUMMARY);
+  const [comment, setComment] = useState('');
+  const reviewKey = [`/api/documents/${documentId}/review`];
+
+  const { data: review, isLoading } = useQuery<DocumentReview>({
+    queryKey: reviewKey,
+    // Summary edits elsewhere send an approved summary back to draft
+    staleTime: 0,
+  });
+
+  const onUpdated = (message?: string) => (updated: DocumentReview) => {
+    queryClient.setQueryData(reviewKey, updated);
+    queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    setComment('');
+    if (message) toast({ title: message });
+  };
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong',
+      variant: 'destructive',
+    });
+  };
+  const selectedSection = section === WHOLE_SUMMARY ? null : section;
+
+  const submitMutation = useMutation({
+    mutationFn: () => api.submitForReview(documentId, comment.trim() || undefined),
+    onSuccess: onUpdated('Submitted for review'),
+    onError: onError('Submit failed'),
+  });
+  const commentMutation = useMutation({
+    mutationFn: () => api.addReviewComment(documentId, { section: selectedSection, body: comment.trim() }),
+    onSuccess: onUpdated(),
+    onError: onError('Comment failed'),
+  });
+  const resolveMutation = useMutation({
+    mutationFn: ({ commentId, resolved }: { commentId: number; resolved: boolean }) =>
+      api.resolveReviewComment(documentId, commentId, resolved),
+    onSuccess: onUpdated(),
+    onError: onError('Update failed'),
+  });
+  const approveMutation = useMutation({
+    mutationFn: () => api.approveSummary(documentId, comment.trim() || undefined),
+    onSuccess: onUpdated('Summary approved'),
+    onError: onError('Approve failed'),
+  });
+  const rejectMutation = useMutation({
+    mutationFn: () => api.rejectSummary(documentId, comment.trim(), selectedSection),
+    onSuccess: onUpdated('Changes requested'),
+    onError: onError('Request changes failed'),
+  });
+
+  if (isLoading || !review) {
+    return <div className="p-6 text-sm text-muted-foreground">Loading review...</div>;
+  }
+
+  const sections = summarySections(summary);
+  const canSubmit = review.status === 'draft' || review.status === 'changes_requested';
+  const canDecide = review.canReview && review.status === 'in_review';
+  const isApproved = review.status === 'approved' || review.status === 'delivered';
+  const busy = submitMutation.isPending || commentMutation.isPending || approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Status</span>
+            <Badge className={REVIEW_STATUS_STYLES[review.status]}>{REVIEW_STATUS_LABELS[review.status]}</Badge>
+          </div>
+          {isApproved && review.approvedBy && review.approvedAt && (
+            <p className="text-sm text-muted-foreground">
+              Approved by {review.approvedBy} on {new Date(review.approvedAt).toLocaleDateString()}
+              {review.approvedVersion ? ` (version ${review.approvedVersion})` : ''}
+              {review.deliveredAt ? ` · delivered ${new Date(review.deliveredAt).toLocaleDateString()}` : ''}
+            </p>
+          )}
+          {review.requireApprovalForExport && !isApproved && (
+            <p className="text-sm text-amber-700 flex items-center gap-1">
+              <Lock className="w-3 h-3" />
+              Client-facing PDF exports are locked until this summary is approved.
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {canSubmit && (
+            <Button type="button" onClick={() => submitMutation.mutate()} disabled={busy}>
+              <Send className="w-4 h-4 mr-2" />
+              {review.status === 'changes_requested' ? 'Resubmit for Review' : 'Submit for Review'}
+            </Button>
+          )}
+          {canDecide && (
+            <>
+              <Button type="button" variant="outline" onClick={() => rejectMutation.mutate()} disabled={busy || !comment.trim()}
+                title={comment.trim() ? undefined : 'Write what needs to change below first'}>
+                <XCircle className="w-4 h-4 mr-2" />
+                Request Changes
+              </Button>
+              <Button type="button" onClick={() => approveMutation.mutate()} disabled={busy}>
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Approve
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Card className="p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="review-section">About</Label>
+            <Select value={section} onValueChange={setSection}>
+              <SelectTrigger id="review-section">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_SUMMARY}>Whole summary</SelectItem>
+                {sections.map(title => (
+                  <SelectItem key={title} value={title}>{title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="review-comment">Comment</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={canDecide ? 'What should change, or a note to go with your approval' : 'Add a note for the reviewer'}
+              rows={3}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button type="button" variant="outline" size="sm" onClick={() => commentMutation.mutate()} disabled={busy || !comment.trim()}>
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Add Comment
+          </Button>
+        </div>
+      </Card>
+
+      <div className="space-y-3">
+        {review.comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet.</p>
+        ) : (
+          review.comments.map(item => (
+            <div key={item.id} className={`rounded-lg border border-border p-3 ${item.resolved ? 'opacity-60' : ''}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium text-foreground">{item.authorName}</span>
+                  <span className="text-muted-foreground">{new Date(item.createdAt).toLocaleString()}</span>
+                  <Badge variant="outline">{item.section || 'Whole summary'}</Badge>
+                  {item.summaryVersion && <span className="text-muted-foreground">v{item.summaryVersion}</span>}
+                  {item.decision === 'approved' && <Badge className={REVIEW_STATUS_STYLES.approved}>Approved</Badge>}
+                  {item.decision === 'changes_requested' && <Badge className={REVIEW_STATUS_STYLES.changes_requested}>Changes requested</Badge>}
+                </div>
+                {!item.decision && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ commentId: item.id, resolved: !item.resolved })}
+                  >
+                    {item.resolved ? <Undo2 className="w-4 h-4 mr-1" /> : <CheckCircle className="w-4 h-4 mr-1" />}
+                    {item.resolved ? 'Reopen' : 'Resolve'}
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-foreground whitespace-pre-wrap">{item.body}</p>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -33,6 +33,11 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useTheme } from "@/hooks/use-theme";
 import { queryClient } from "@/lib/queryClient";
+import { CoverageGapRulesEditor } from "./CoverageGapRulesEditor";
+import { EmailTemplateEditor } from "./EmailTemplateEditor";
+import { PdfTemplateManager } from "./PdfTemplateManager";
+import { ProcessingPresetManager } from "./ProcessingPresetManager";
+import { AgencySettings } from "./AgencySettings";
 
 const AgentProfileSchema = z.object({
   agentProfile: z.object({
@@ -76,7 +81,7 @@ export function UserSettings() {
         license: "",
         signature: "",
         agentImage: "",
-        firmName: "Valley Trust Insurance",
+        firmName: "",
         firmAddress: "",
         firmPhone: "",
         firmWebsite: ""
@@ -196,7 +201,7 @@ export function UserSettings() {
         email: "",
         license: "",
         signature: "",
-        firmName: "Valley Trust Insurance",
+        firmName: "",
         firmAddress: "",
         firmPhone: "",
         firmWebsite: ""
@@ -227,7 +232,7 @@ export function UserSettings() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-foreground">Agent Settings</h1>
-          <p className="text-muted-foreground">Configure your profile and appearance preferences</p>
+          <p className="text-muted-foreground">Configure your profile, appearance, coverage gap rules, email and PDF templates</p>
         </div>
         <Badge variant="outline" className="bg-blue-50 dark:bg-blue-950 text-blue-700 dark:text-blue-300">
           <Shield className="w-4 h-4 mr-2" />
@@ -238,9 +243,14 @@ export function UserSettings() {
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <Tabs defaultValue="profile" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="profile">Agent Profile</TabsTrigger>
               <TabsTrigger value="appearance">Appearance</TabsTrigger>
+              <TabsTrigger value="coverage-gaps">Coverage Gap Rules</TabsTrigger>
+              <TabsTrigger value="email">Email</TabsTrigger>
+              <TabsTrigger value="pdf-templates">PDF Templates</TabsTrigger>
+              <TabsTrigger value="presets">Presets</TabsTrigger>
+              <TabsTrigger value="agency">Agency</TabsTrigger>
             </TabsList>
 
             {/* Agent Profile Tab */}
@@ -366,6 +376,9 @@ export function UserSettings() {
                     <Building2 className="w-5 h-5" />
                     <span>Firm Information</span>
                   </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Exports use your agency's branding from the Agency tab; these details fill in anything it leaves blank.
+                  </p>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -517,6 +530,31 @@ export function UserSettings() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            {/* Coverage Gap Rules Tab (saved separately from the profile form) */}
+            <TabsContent value="coverage-gaps" className="space-y-6">
+              <CoverageGapRulesEditor />
+            </TabsContent>
+
+            {/* Email Template Tab (saved separately from the profile form) */}
+            <TabsContent value="email" className="space-y-6">
+              <EmailTemplateEditor />
+            </TabsContent>
+
+            {/* PDF Templates Tab (uploads are saved as they are made) */}
+            <TabsContent value="pdf-templates" className="space-y-6">
+              <PdfTemplateManager />
+            </TabsContent>
+
+            {/* Processing Presets Tab */}
+            <TabsContent value="presets" className="space-y-6">
+              <ProcessingPresetManager />
+            </TabsContent>
+
+            {/* Agency Tab (members, shared branding and defaults) */}
+            <TabsContent value="agency" className="space-y-6">
+              <AgencySettings />
+            </TabsContent>
           </Tabs>
 
           {/* Action Buttons */}
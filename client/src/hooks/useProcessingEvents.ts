@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from "react";
+import { TERMINAL_PROCESSING_EVENTS, type ProcessingEvent } from "@shared/schema";
+
+interface ProcessingEventsState {
+  events: ProcessingEvent[];
+  latest: ProcessingEvent | undefined;
+  finished: boolean;
+}
+
+// Subscribes to /api/documents/:id/events and collects the progress timeline.
+// onFinished fires once the stream ends (saved, failed, cancelled, or the
+// document had already finished before we connected).
+export function useProcessingEvents(
+  documentId: number | null | undefined,
+  onFinished?: (lastEvent: ProcessingEvent | undefined) => void,
+): ProcessingEventsState {
+  const [events, setEvents] = useState<ProcessingEvent[]>([]);
+  const [finished, setFinished] = useState(false);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    setEvents([]);
+    setFinished(false);
+    if (!documentId) return;
+
+    let lastEvent: ProcessingEvent | undefined;
+    const source = new EventSource(`/api/documents/${documentId}/events`, { withCredentials: true });
+
+    source.addEventListener("progress", (message) => {
+      const event: ProcessingEvent = JSON.parse((message as MessageEvent).data);
+      lastEvent = event;
+      // A new "queued" event means the document is being processed again
+      setEvents(prev => event.type === "queued" ? [event] : [...prev, event]);
+    });
+
+    source.addEventListener("end", () => {
+      source.close();
+      setFinished(true);
+      onFinishedRef.current?.(lastEvent);
+    });
+
+    return () => source.close();
+  }, [documentId]);
+
+  return {
+    events,
+    latest: events[events.length - 1],
+    finished,
+  };
+}
+
+export function isTerminalProcessingEvent(event: ProcessingEvent | undefined): boolean {
+  return !!event && TERMINAL_PROCESSING_EVENTS.includes(event.type);
+}
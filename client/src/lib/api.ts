@@ -1,10 +1,24 @@
 import { apiRequest } from "./queryClient";
+import type { Agency, AgencyBranding, AgencyRole, AuditAction, AuditEvent, Client, EmailDeliveryMethod, EmailDeliveryStatus, DocumentSearchQuery, DocumentSearchResult, Notification, PdfTemplate, PdfTemplateOption, ProcessingOptions, ProcessingPreset, ReviewComment, ReviewStatus, StructuredSummary, SummaryLanguage, SummaryVersionSource } from "@shared/schema";
 
 export interface UploadResponse {
   documentId: number;
+  jobId: number;
   message: string;
 }
 
+export type ProcessingStage = 'queued' | 'extracting' | 'analyzing' | 'saving' | 'completed';
+
+export interface ProcessingJobProgress {
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  stage: ProcessingStage;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  etaSeconds: number | null;
+}
+
 export interface DocumentStatus {
   id: number;
   originalName: string;
@@ -12,6 +26,10 @@ export interface DocumentStatus {
   processingError?: string;
   hasData: boolean;
   hasSummary: boolean;
+  stage: ProcessingStage;
+  attempts: number;
+  etaSeconds: number | null;
+  job: ProcessingJobProgress | null;
 }
 
 export interface ProcessedDocument {
@@ -19,9 +37,39 @@ export interface ProcessedDocument {
   originalName: string;
   extractedData: any;
   summary: string;
+  structuredSummary: StructuredSummary;
   processed: boolean;
   uploadedAt: string;
   processingOptions?: any;
+  hasOriginal?: boolean;
+  reviewStatus?: ReviewStatus;
+}
+
+export interface SummaryVersion {
+  id: number;
+  documentId: number;
+  versionNumber: number;
+  summary: string;
+  generatedAt: string;
+  isActive: boolean;
+  source: SummaryVersionSource;
+  authorId: number | null;
+  generatedBy: string;
+  restoredFromVersion: number | null;
+  language: SummaryLanguage;
+  translatedFromVersion: number | null;
+  processingOptions?: any;
+}
+
+export interface DocumentReview {
+  status: ReviewStatus;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  approvedVersion: number | null;
+  deliveredAt: string | null;
+  canReview: boolean; // reviewer role, and not the document's own agent
+  requireApprovalForExport: boolean;
+  comments: (Omit<ReviewComment, 'createdAt'> & { createdAt: string; authorName: string })[];
 }
 
 export interface DocumentListItem {
@@ -40,6 +88,232 @@ export interface DocumentListItem {
   tags?: string[];
   lastViewedAt?: string;
   processingError?: string | null;
+  hasOriginal?: boolean;
+  clientId?: number | null;
+  reviewStatus?: ReviewStatus;
+  insurer?: string | null;
+  expirationDate?: string | null;
+}
+
+// Dates are sent as YYYY-MM-DD; the server fills in page 1 and its default page size
+export type DocumentSearchParams = Partial<Omit<DocumentSearchQuery, 'expiresFrom' | 'expiresTo'>> & {
+  expiresFrom?: string;
+  expiresTo?: string;
+};
+
+export type DocumentSearchResponse = DocumentSearchResult<DocumentListItem>;
+
+export type NotificationItem = Omit<Notification, 'createdAt' | 'readAt'> & { createdAt: string; readAt: string | null };
+
+export interface NotificationFeed {
+  notifications: NotificationItem[];
+  unread: number;
+}
+
+// One entry in a document's activity timeline
+export interface DocumentActivityItem {
+  id: number;
+  action: AuditAction;
+  actorId: number;
+  actorName: string;
+  createdAt: string;
+  beforeHash: string | null; // SHA-256 of the summary before and after the action
+  afterHash: string | null;
+  details: Record<string, unknown>;
+}
+
+export type AuditEventItem = Omit<AuditEvent, 'createdAt'> & { createdAt: string };
+
+// Days are YYYY-MM-DD and inclusive
+export interface AuditEventFilters {
+  actorId?: number;
+  documentId?: number;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+}
+
+function auditQueryString(filters: AuditEventFilters): string {
+  const query = new URLSearchParams();
+  Object.entries(filters).forEach(([name, value]) => {
+    if (value !== undefined && value !== '') query.set(name, String(value));
+  });
+  return query.toString();
+}
+
+export interface CalendarFeed {
+  url: string; // private iCalendar URL; anyone holding it can read the agent's renewals
+}
+
+export interface ShareLinkItem {
+  id: number;
+  label: string | null;
+  url: string; // public page; anyone holding it can read the summary until it expires or is revoked
+  status: 'active' | 'expired' | 'revoked';
+  expiresAt: string;
+  revokedAt: string | null;
+  viewCount: number;
+  downloadCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+export interface NewShareLink {
+  label?: string;
+  expiresInDays?: number;
+}
+
+export interface EmailStatus {
+  configured: boolean;
+  from: string | null;
+}
+
+export interface EmailDraft {
+  to: string[];
+  subject: string;
+  message: string;
+}
+
+export interface SendSummaryEmail {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  message: string;
+  method: EmailDeliveryMethod;
+  expiresInDays?: number;
+}
+
+export interface EmailDeliveryItem {
+  id: number;
+  recipients: string[];
+  cc: string[];
+  subject: string;
+  method: EmailDeliveryMethod;
+  status: EmailDeliveryStatus;
+  error: string | null;
+  sentBy: string | null;
+  createdAt: string;
+}
+
+// The public web summary a client sees behind a share link
+export interface SharedSummary {
+  name: string;
+  clientName: string | null;
+  summary: StructuredSummary;
+  language: SummaryLanguage; // the summary and policy details are in this language, as in the PDF
+  policy: {
+    policyType: string;
+    insurer: string;
+    policyNumber?: string;
+    insuredName?: string;
+    effectiveDate?: string;
+    expirationDate?: string;
+    premiumAmount?: string;
+  };
+  coverages: { type: string; limit: string; deductible?: string; description?: string }[];
+  agent: {
+    name?: string;
+    title?: string;
+    phone?: string;
+    email?: string;
+    license?: string;
+    agentImage?: string;
+    firmName?: string;
+    firmAddress?: string;
+    firmPhone?: string;
+    firmWebsite?: string;
+  } | null;
+  approvedAt: string | null;
+  expiresAt: string;
+}
+
+export interface BatchUploadResponse {
+  batchId: number;
+  documentIds: number[];
+  skipped: string[];
+  message: string;
+}
+
+export interface BatchSummary {
+  id: number;
+  name: string;
+  createdAt: string;
+  totalDocuments: number;
+  completed: number;
+  failed: number;
+  processing: number;
+  skippedFiles: string[];
+  status: 'processing' | 'completed' | 'completed_with_errors';
+}
+
+export interface BatchDetail extends BatchSummary {
+  documents: {
+    id: number;
+    originalName: string;
+    processed: boolean;
+    processingError: string | null;
+    hasSummary: boolean;
+  }[];
+}
+
+export type ClientDetails = Pick<Client, 'name'> & Partial<Pick<Client, 'contactName' | 'email' | 'phone' | 'address' | 'businessType' | 'notes'>>;
+
+export interface PdfTemplateList {
+  templates: PdfTemplateOption[];
+  fields: { path: string; description: string }[];
+}
+
+export type PdfTemplateDetails = Pick<PdfTemplate, 'name' | 'html'> & { description?: string | null };
+
+// Shared presets from other agents come back with owned: false and are read-only
+export interface ProcessingPresetItem extends Omit<ProcessingPreset, 'options'> {
+  options: ProcessingOptions;
+  owned: boolean;
+}
+
+export interface ProcessingPresetDetails {
+  name: string;
+  description?: string | null;
+  options: Partial<ProcessingOptions>;
+  pdfTemplate?: string | null;
+  shared?: boolean;
+  isDefault?: boolean;
+}
+
+export interface AgencyDetails extends Agency {
+  role: AgencyRole;
+  canManage: boolean;
+  canReview: boolean;
+}
+
+export interface AgencyMember {
+  id: number;
+  username: string;
+  fullName: string;
+  email: string;
+  agencyId: number | null;
+  role: AgencyRole;
+}
+
+export interface NewAgencyMember {
+  username: string;
+  password: string;
+  fullName: string;
+  email: string;
+  role: AgencyRole;
+}
+
+export interface AgencyDocumentListItem extends DocumentListItem {
+  agentId: number | null;
+  agentName: string | null;
+}
+
+export interface ClientListItem extends Client {
+  policyCount: number;
+}
+
+export interface ClientDetail extends Client {
+  documents: DocumentListItem[];
 }
 
 export interface ExportOptions {
@@ -49,14 +323,18 @@ export interface ExportOptions {
   includeTechnicalDetails?: boolean;
   includeBranding?: boolean;
   customSummary?: string;
+  template?: string; // built-in layout name or "custom:<id>"
+  language?: SummaryLanguage; // defaults to the document's processing language
 }
 
-interface UploadOptions {
-  summaryLength?: 'short' | 'detailed';
-}
+// Any subset of ProcessingOptions; the server fills in the agent's saved defaults
+type UploadOptions = Partial<ProcessingOptions>;
+
+// A preset id, or 'none' to skip the agent's default preset
+type UploadPreset = number | 'none';
 
 export const api = {
-  async uploadDocument(file: File, options?: UploadOptions): Promise<UploadResponse> {
+  async uploadDocument(file: File, options?: UploadOptions, presetId?: UploadPreset): Promise<UploadResponse> {
     const formData = new FormData();
     formData.append('document', file);
     
@@ -64,6 +342,9 @@ export const api = {
     if (options) {
       formData.append('options', JSON.stringify(options));
     }
+    if (presetId) {
+      formData.append('presetId', String(presetId));
+    }
     
     const response = await fetch('/api/documents/upload', {
       method: 'POST',
@@ -79,11 +360,50 @@ export const api = {
     return response.json();
   },
 
+  async uploadBatch(files: File[], options?: UploadOptions, presetId?: UploadPreset): Promise<BatchUploadResponse> {
+    const formData = new FormData();
+    files.forEach(file => formData.append('documents', file));
+    
+    if (options) {
+      formData.append('options', JSON.stringify(options));
+    }
+    if (presetId) {
+      formData.append('presetId', String(presetId));
+    }
+    
+    const response = await fetch('/api/documents/batch-upload', {
+      method: 'POST',
+      body: formData,
+      credentials: 'include', // Include session cookies
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Batch upload failed');
+    }
+    
+    return response.json();
+  },
+
+  async getBatch(id: number): Promise<BatchDetail> {
+    const response = await apiRequest('GET', `/api/batches/${id}`);
+    return response.json();
+  },
+
+  async retryBatch(id: number): Promise<{ retried: number; message: string }> {
+    const response = await apiRequest('POST', `/api/batches/${id}/retry`);
+    return response.json();
+  },
+
   async getDocumentStatus(id: number): Promise<DocumentStatus> {
     const response = await apiRequest('GET', `/api/documents/${id}/status`);
     return response.json();
   },
 
+  async cancelProcessing(id: number): Promise<void> {
+    await apiRequest('POST', `/api/documents/${id}/cancel`);
+  },
+
   async getDocument(id: number): Promise<ProcessedDocument> {
     const response = await apiRequest('GET', `/api/documents/${id}`);
     return response.json();
@@ -107,11 +427,60 @@ export const api = {
     return response.blob();
   },
 
+  async exportComparisonPDF(documentIds: number[], options: ExportOptions = {}): Promise<Blob> {
+    const response = await fetch('/api/comparisons/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...options, documentIds }),
+      credentials: 'include', // Include session cookies
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Export failed');
+    }
+    
+    return response.blob();
+  },
+
+  async exportCoverageGapsPDF(clientId: number, options: ExportOptions = {}): Promise<Blob> {
+    const response = await fetch(`/api/clients/${clientId}/coverage-gaps/export`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+      credentials: 'include', // Include session cookies
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Export failed');
+    }
+    
+    return response.blob();
+  },
+
   async listDocuments(): Promise<DocumentListItem[]> {
     const response = await apiRequest('GET', '/api/documents');
     return response.json();
   },
 
+  async searchDocuments(params: DocumentSearchParams): Promise<DocumentSearchResponse> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([name, value]) => {
+      if (Array.isArray(value)) {
+        value.forEach(item => query.append(name, item));
+      } else if (value !== undefined && value !== '') {
+        query.set(name, String(value));
+      }
+    });
+    const response = await apiRequest('GET', `/api/documents/search?${query}`);
+    return response.json();
+  },
+
   async deleteDocument(id: number): Promise<void> {
     await apiRequest('DELETE', `/api/documents/${id}`);
   },
@@ -123,10 +492,203 @@ export const api = {
     return response.json();
   },
 
-  async regenerateSummary(id: number, summaryLength: 'short' | 'detailed'): Promise<{ success: boolean; document: ProcessedDocument }> {
+  async restoreSummaryVersion(id: number, versionId: number): Promise<ProcessedDocument> {
+    const response = await apiRequest('POST', `/api/documents/${id}/summary-history/${versionId}/restore`);
+    return response.json();
+  },
+
+  async deleteSummaryVersion(id: number, versionId: number): Promise<void> {
+    await apiRequest('DELETE', `/api/documents/${id}/summary-history/${versionId}`);
+  },
+
+  async submitForReview(id: number, comment?: string): Promise<DocumentReview> {
+    const response = await apiRequest('POST', `/api/documents/${id}/review/submit`, { comment });
+    return response.json();
+  },
+
+  async addReviewComment(id: number, comment: { section?: string | null; body: string }): Promise<DocumentReview> {
+    const response = await apiRequest('POST', `/api/documents/${id}/review/comments`, comment);
+    return response.json();
+  },
+
+  async resolveReviewComment(id: number, commentId: number, resolved: boolean): Promise<DocumentReview> {
+    const response = await apiRequest('PATCH', `/api/documents/${id}/review/comments/${commentId}`, { resolved });
+    return response.json();
+  },
+
+  async approveSummary(id: number, comment?: string): Promise<DocumentReview> {
+    const response = await apiRequest('POST', `/api/documents/${id}/review/approve`, { comment });
+    return response.json();
+  },
+
+  async rejectSummary(id: number, comment: string, section?: string | null): Promise<DocumentReview> {
+    const response = await apiRequest('POST', `/api/documents/${id}/review/reject`, { comment, section });
+    return response.json();
+  },
+
+  async downloadOriginal(id: number): Promise<Blob> {
+    const response = await fetch(`/api/documents/${id}/original`, {
+      credentials: 'include', // Include session cookies
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Download failed');
+    }
+    
+    return response.blob();
+  },
+
+  async reprocessDocument(id: number, options: Partial<ProcessingOptions>): Promise<UploadResponse> {
+    const response = await apiRequest('POST', `/api/documents/${id}/reprocess`, { options });
+    return response.json();
+  },
+
+  async regenerateSummary(id: number, options: Partial<ProcessingOptions>): Promise<{ success: boolean; document: ProcessedDocument }> {
     const response = await apiRequest('POST', `/api/documents/${id}/regenerate`, {
-      summaryLength
+      options
     });
     return response.json();
   },
+
+  async createClient(details: ClientDetails): Promise<Client & { linkedDocuments: number }> {
+    const response = await apiRequest('POST', '/api/clients', details);
+    return response.json();
+  },
+
+  async updateClient(id: number, details: Partial<ClientDetails>): Promise<Client> {
+    const response = await apiRequest('PUT', `/api/clients/${id}`, details);
+    return response.json();
+  },
+
+  async deleteClient(id: number): Promise<void> {
+    await apiRequest('DELETE', `/api/clients/${id}`);
+  },
+
+  async setDocumentClient(documentId: number, clientId: number | null): Promise<DocumentListItem> {
+    const response = await apiRequest('PUT', `/api/documents/${documentId}/client`, { clientId });
+    return response.json();
+  },
+
+  async createPdfTemplate(details: PdfTemplateDetails): Promise<PdfTemplateOption> {
+    const response = await apiRequest('POST', '/api/pdf-templates', details);
+    return response.json();
+  },
+
+  async updatePdfTemplate(id: number, details: Partial<PdfTemplateDetails>): Promise<PdfTemplateOption> {
+    const response = await apiRequest('PUT', `/api/pdf-templates/${id}`, details);
+    return response.json();
+  },
+
+  async deletePdfTemplate(id: number): Promise<void> {
+    await apiRequest('DELETE', `/api/pdf-templates/${id}`);
+  },
+
+  async updateAgency(details: { name?: string; branding?: AgencyBranding; defaultProcessingOptions?: Partial<ProcessingOptions>; requireApprovalForExport?: boolean }): Promise<Agency> {
+    const response = await apiRequest('PUT', '/api/agency', details);
+    return response.json();
+  },
+
+  async addAgencyMember(member: NewAgencyMember): Promise<AgencyMember> {
+    const response = await apiRequest('POST', '/api/agency/members', member);
+    return response.json();
+  },
+
+  async updateAgencyMemberRole(id: number, role: AgencyRole): Promise<AgencyMember> {
+    const response = await apiRequest('PUT', `/api/agency/members/${id}`, { role });
+    return response.json();
+  },
+
+  async removeAgencyMember(id: number): Promise<void> {
+    await apiRequest('DELETE', `/api/agency/members/${id}`);
+  },
+
+  async reassignDocument(documentId: number, agentId: number): Promise<AgencyDocumentListItem> {
+    const response = await apiRequest('PUT', `/api/documents/${documentId}/owner`, { agentId });
+    return response.json();
+  },
+
+  async createProcessingPreset(details: ProcessingPresetDetails): Promise<ProcessingPresetItem> {
+    const response = await apiRequest('POST', '/api/processing-presets', details);
+    return response.json();
+  },
+
+  async updateProcessingPreset(id: number, details: Partial<ProcessingPresetDetails>): Promise<ProcessingPresetItem> {
+    const response = await apiRequest('PUT', `/api/processing-presets/${id}`, details);
+    return response.json();
+  },
+
+  async deleteProcessingPreset(id: number): Promise<void> {
+    await apiRequest('DELETE', `/api/processing-presets/${id}`);
+  },
+
+  // Marks every notification read when no ids are given
+  async markNotificationsRead(ids?: number[]): Promise<{ updated: number; unread: number }> {
+    const response = await apiRequest('POST', '/api/notifications/read', { ids });
+    return response.json();
+  },
+
+  async listAuditEvents(filters: AuditEventFilters): Promise<AuditEventItem[]> {
+    const response = await apiRequest('GET', `/api/agency/audit-events?${auditQueryString(filters)}`);
+    return response.json();
+  },
+
+  async exportAuditEvents(filters: AuditEventFilters): Promise<Blob> {
+    const response = await fetch(`/api/agency/audit-events/export?${auditQueryString(filters)}`, {
+      credentials: 'include', // Include session cookies
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Audit export failed');
+    }
+
+    return response.blob();
+  },
+
+  async resetCalendarFeed(): Promise<CalendarFeed> {
+    const response = await apiRequest('POST', '/api/renewals/calendar/reset');
+    return response.json();
+  },
+
+  async createShareLink(documentId: number, details: NewShareLink): Promise<ShareLinkItem> {
+    const response = await apiRequest('POST', `/api/documents/${documentId}/share-links`, details);
+    return response.json();
+  },
+
+  async revokeShareLink(documentId: number, linkId: number): Promise<ShareLinkItem> {
+    const response = await apiRequest('POST', `/api/documents/${documentId}/share-links/${linkId}/revoke`);
+    return response.json();
+  },
+
+  async sendSummaryEmail(documentId: number, email: SendSummaryEmail): Promise<EmailDeliveryItem> {
+    const response = await fetch(`/api/documents/${documentId}/email`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(email),
+      credentials: 'include', // Include session cookies
+    });
+
+    // Show why the SMTP server refused, not the raw response
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Sending email failed');
+    }
+
+    return response.json();
+  },
+
+  // Public; used by the share page, where nobody is signed in
+  async getSharedSummary(token: string): Promise<SharedSummary> {
+    const response = await fetch(`/api/share/${encodeURIComponent(token)}`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'This link could not be opened');
+    }
+
+    return response.json();
+  },
 };
@@ -0,0 +1,67 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Word-level diff of two texts: the longest common subsequence of their words, each
+// word carrying the whitespace after it. Adjacent parts of the same type are merged.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  // Edits are usually local, so only the middle between the shared start and end is compared
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  a.slice(0, start).forEach(word => push('same', word));
+
+  // lengths[i * width + j] = common subsequence length of a[i..endA) and b[j..endB)
+  const rows = endA - start + 1;
+  const width = endB - start + 1;
+  const lengths = new Uint32Array(rows * width);
+  for (let i = rows - 2; i >= 0; i--) {
+    for (let j = width - 2; j >= 0; j--) {
+      lengths[i * width + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows - 1 && j < width - 1) {
+    if (a[start + i] === b[start + j]) {
+      push('same', a[start + i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[start + i++]);
+    } else {
+      push('added', b[start + j++]);
+    }
+  }
+  while (i < rows - 1) push('removed', a[start + i++]);
+  while (j < width - 1) push('added', b[start + j++]);
+
+  a.slice(endA).forEach(word => push('same', word));
+  return parts;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/^\s+|\S+\s*/g) ?? [];
+}
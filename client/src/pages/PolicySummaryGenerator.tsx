@@ -11,7 +11,14 @@ import { FileUpload } from '@/components/FileUpload';
 import { CleanSummaryPreview } from '@/components/CleanSummaryPreview';
 import { SummaryEditor } from '@/components/SummaryEditor';
 import { SummaryHistoryDialog } from '@/components/SummaryHistoryDialog';
-import { Clock, FileText, CheckCircle, User, Eye, Edit3, Download, Image, X, Upload, LogOut } from 'lucide-react';
+import { ExtractedData } from '@/components/ExtractedData';
+import { ProcessingTimeline } from '@/components/ProcessingTimeline';
+import { AdvancedProcessingOptions } from '@/components/AdvancedProcessingOptions';
+import { PdfTemplateSelect } from '@/components/PdfTemplateSelect';
+import { unsupportedValues } from '@/components/FactCheckReview';
+import { SummaryReview } from '@/components/SummaryReview';
+import { Clock, FileText, CheckCircle, User, Eye, Edit3, Download, Image, X, Upload, LogOut, ListChecks, RefreshCw, ClipboardCheck } from 'lucide-react';
+import { SUMMARY_LANGUAGES, SUMMARY_LANGUAGE_LABELS, type ProcessingOptions, type SummaryLanguage } from '@shared/schema';
 import { api, type ProcessedDocument, type DocumentListItem } from '@/lib/api';
 
 import { useToast } from '@/hooks/use-toast';
@@ -32,10 +39,13 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
   const [activeTab, setActiveTab] = useState<string>("preview");
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [exportFilename, setExportFilename] = useState<string>('');
+  const [exportTemplate, setExportTemplate] = useState<string>('professional');
+  const [exportLanguage, setExportLanguage] = useState<SummaryLanguage>('en');
   const [clientName, setClientName] = useState<string>('');
   const [clientLogo, setClientLogo] = useState<string>('');
   const [logoPreview, setLogoPreview] = useState<string>('');
-  const summaryLength: 'short' = 'short'; // Always use brief summaries
+  const [isRegenerateDialogOpen, setIsRegenerateDialogOpen] = useState(false);
+  const [regenerateOptions, setRegenerateOptions] = useState<ProcessingOptions | undefined>();
   const { toast } = useToast();
   const { agent, logout, isLoggingOut } = useAuth();
   const queryClient = useQueryClient();
@@ -62,32 +72,29 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
     queryKey: ['/api/documents'],
   });
 
-  // Check if document's summary format differs from selected format
-  const getDocumentSummaryLength = (): 'short' | 'detailed' | undefined => {
-    if (!document?.processingOptions) return undefined;
+  // Options the current summary was generated with (older rows store a JSON string)
+  const getDocumentProcessingOptions = (): Partial<ProcessingOptions> => {
+    if (!document?.processingOptions) return {};
     try {
-      const options = typeof document.processingOptions === 'string' 
+      return typeof document.processingOptions === 'string' 
         ? JSON.parse(document.processingOptions) 
         : document.processingOptions;
-      return options.summaryLength || 'detailed';
     } catch {
-      return 'detailed';
+      return {};
     }
   };
 
-  const documentSummaryLength = getDocumentSummaryLength();
-  const needsRegeneration = document && documentSummaryLength && documentSummaryLength !== summaryLength;
-
   // Regenerate summary mutation
   const regenerateSummaryMutation = useMutation({
     mutationFn: async () => {
       if (!currentDocumentId) throw new Error('No document selected');
-      return api.regenerateSummary(currentDocumentId, summaryLength);
+      return api.regenerateSummary(currentDocumentId, regenerateOptions ?? getDocumentProcessingOptions());
     },
     onSuccess: (result) => {
+      setIsRegenerateDialogOpen(false);
       toast({
         title: "Summary Regenerated",
-        description: `Successfully generated ${summaryLength === 'short' ? 'concise' : 'detailed'} summary.`,
+        description: "Successfully generated a new summary with the selected options.",
       });
       // Update the query cache with the new document data
       queryClient.setQueryData([`/api/documents/${currentDocumentId}`], result.document);
@@ -119,6 +126,8 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
         includeTechnicalDetails: false,
         includeBranding: true,
         customSummary: editedSummary || undefined, // Use edited summary if available for preview
+        template: exportTemplate,
+        language: exportLanguage,
       };
       
       const blob = await api.exportPDF(documentId, options);
@@ -166,6 +175,7 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
       const defaultFilename = `policy-summary-${dateStr}-${timeStr}`;
       
       setExportFilename(defaultFilename);
+      setExportLanguage(getDocumentProcessingOptions().language ?? 'en');
       setIsExportDialogOpen(true);
     }
   };
@@ -269,18 +279,30 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
 
         {/* Upload Section */}
         <div className="mb-8">
-          <FileUpload 
-            onUploadSuccess={handleUploadSuccess} 
-            summaryLength={summaryLength}
-          />
+          <FileUpload onUploadSuccess={handleUploadSuccess} />
         </div>
 
+        {/* Live progress for a document that is still processing */}
+        {currentDocumentId && document && !document.processed && (
+          <div className="mb-8">
+            <Card className="shadow-sm border border-border bg-card">
+              <div className="border-b border-border p-4">
+                <div className="flex items-center space-x-2">
+                  <Clock className="w-5 h-5 text-valley-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">Processing Progress</h2>
+                </div>
+              </div>
+              <ProcessingTimeline documentId={currentDocumentId} onFinished={() => refetch()} />
+            </Card>
+          </div>
+        )}
+
 
 
         {/* Summary Tabs Section */}
         <div className="w-full">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="preview" className="flex items-center space-x-2">
                 <Eye className="w-4 h-4" />
                 <span>Summary Preview</span>
@@ -289,6 +311,14 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
                 <Edit3 className="w-4 h-4" />
                 <span>Edit Summary</span>
               </TabsTrigger>
+              <TabsTrigger value="data" className="flex items-center space-x-2">
+                <ListChecks className="w-4 h-4" />
+                <span>Extracted Data</span>
+              </TabsTrigger>
+              <TabsTrigger value="review" className="flex items-center space-x-2">
+                <ClipboardCheck className="w-4 h-4" />
+                <span>Review</span>
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="preview" className="mt-4">
@@ -312,6 +342,22 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
                 isLoading={isLoading}
               />
             </TabsContent>
+
+            <TabsContent value="data" className="mt-4">
+              <Card className="shadow-sm border border-border bg-card">
+                <ExtractedData document={document || null} isLoading={isLoading} />
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="review" className="mt-4">
+              <Card className="shadow-sm border border-border bg-card">
+                {currentDocumentId && document?.processed ? (
+                  <SummaryReview documentId={currentDocumentId} summary={document.structuredSummary} />
+                ) : (
+                  <p className="p-6 text-sm text-muted-foreground">The summary can be reviewed once the document has been processed.</p>
+                )}
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -447,6 +493,18 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
                 <Clock className="w-4 h-4 mr-2" />
                 View History
               </Button>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => {
+                  setRegenerateOptions(undefined);
+                  setIsRegenerateDialogOpen(true);
+                }}
+                disabled={!isDocumentReady || regenerateSummaryMutation.isPending}
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${regenerateSummaryMutation.isPending ? 'animate-spin' : ''}`} />
+                Regenerate
+              </Button>
               <Button 
                 className="valley-secondary valley-secondary-hover"
                 disabled={!isDocumentReady || exportPDFMutation.isPending}
@@ -471,6 +529,37 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
         onClose={() => setIsHistoryDialogOpen(false)}
       />
       
+      {/* Regenerate Summary Dialog */}
+      <Dialog open={isRegenerateDialogOpen} onOpenChange={setIsRegenerateDialogOpen}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <RefreshCw className="w-5 h-5" />
+              <span>Regenerate Summary</span>
+            </DialogTitle>
+          </DialogHeader>
+          {isRegenerateDialogOpen && (
+            <AdvancedProcessingOptions
+              initialOptions={getDocumentProcessingOptions()}
+              onOptionsChange={setRegenerateOptions}
+              isProcessing={regenerateSummaryMutation.isPending}
+            />
+          )}
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsRegenerateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="valley-secondary valley-secondary-hover"
+              onClick={() => regenerateSummaryMutation.mutate()}
+              disabled={regenerateSummaryMutation.isPending}
+            >
+              {regenerateSummaryMutation.isPending ? 'Regenerating...' : 'Regenerate Summary'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Export PDF Dialog */}
       <Dialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -496,6 +585,41 @@ export default function PolicySummaryGenerator({ documentId }: PolicySummaryGene
             <div className="text-sm text-muted-foreground">
               The .pdf extension will be added automatically if not included.
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="export-template" className="text-right">
+                Template
+              </Label>
+              <div className="col-span-3">
+                <PdfTemplateSelect id="export-template" value={exportTemplate} onValueChange={setExportTemplate} />
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="export-language" className="text-right">
+                Language
+              </Label>
+              <div className="col-span-3">
+                <Select value={exportLanguage} onValueChange={(value) => setExportLanguage(value as SummaryLanguage)}>
+                  <SelectTrigger id="export-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUMMARY_LANGUAGES.map(language => (
+                      <SelectItem key={language} value={language}>{SUMMARY_LANGUAGE_LABELS[language]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {exportLanguage !== 'en' && (
+              <div className="text-sm text-muted-foreground">
+                The saved summary is translated on the first {SUMMARY_LANGUAGE_LABELS[exportLanguage]} export and kept in its version history. Coverage gap findings are only included in English exports.
+              </div>
+            )}
+            {unsupportedValues(document?.extractedData).length > 0 && (
+              <div className="text-sm text-amber-700">
+                Some amounts, dates or identifiers were not found in the uploaded document. Check the highlighted values in the Summary Preview before sending this to a client.
+              </div>
+            )}
           </div>
           <div className="flex justify-end space-x-2">
             <Button
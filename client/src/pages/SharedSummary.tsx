@@ -0,0 +1,186 @@
+import { useQuery } from '@tanstack/react-query';
+import { AlertCircle, Download, Globe, Loader2, Mail, MapPin, Phone, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SummaryContent } from '@/components/CleanSummaryPreview';
+import { api, type SharedSummary as SharedSummaryData } from '@/lib/api';
+
+interface SharedSummaryProps {
+  token: string;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { dateStyle: 'long' });
+}
+
+// Public, read-only summary a client opens from a share link; nobody is signed in here
+export default function SharedSummary({ token }: SharedSummaryProps) {
+  const { data: shared, isLoading, error } = useQuery<SharedSummaryData>({
+    queryKey: ['/api/share', token],
+    queryFn: () => api.getSharedSummary(token),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 mb-3">
+              <AlertCircle className="w-6 h-6 text-red-500" />
+              <h1 className="text-xl font-semibold text-foreground">Summary unavailable</h1>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'This link could not be opened'}. Contact your agent for a new link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { agent, policy } = shared;
+  const phone = agent?.phone || agent?.firmPhone;
+  const policyFacts = [
+    ['Insured', policy.insuredName || shared.clientName],
+    ['Policy Type', policy.policyType],
+    ['Insurer', policy.insurer],
+    ['Policy Number', policy.policyNumber],
+    ['Effective', policy.effectiveDate],
+    ['Expires', policy.expirationDate],
+    ['Premium', policy.premiumAmount],
+  ].filter((fact): fact is [string, string] => !!fact[1]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground" lang={shared.language}>
+      {/* Agent branding */}
+      <header className="border-b border-border bg-card">
+        <div className="max-w-4xl mx-auto px-4 py-5 flex flex-col sm:flex-row sm:items-center gap-4">
+          {agent?.agentImage && (
+            <img src={agent.agentImage} alt={agent.name} className="w-16 h-16 rounded-full object-cover" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-lg font-semibold">{agent?.firmName || agent?.name || 'Your Insurance Agent'}</p>
+            {agent?.name && (
+              <p className="text-sm text-muted-foreground">
+                {agent.name}{agent.title && `, ${agent.title}`}{agent.license && ` · License ${agent.license}`}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-muted-foreground">
+              {phone && (
+                <a href={`tel:${phone}`} className="flex items-center gap-1 hover:underline">
+                  <Phone className="w-3 h-3" />{phone}
+                </a>
+              )}
+              {agent?.email && (
+                <a href={`mailto:${agent.email}`} className="flex items-center gap-1 hover:underline">
+                  <Mail className="w-3 h-3" />{agent.email}
+                </a>
+              )}
+              {agent?.firmWebsite && (
+                <span className="flex items-center gap-1"><Globe className="w-3 h-3" />{agent.firmWebsite}</span>
+              )}
+              {agent?.firmAddress && (
+                <span className="flex items-center gap-1"><MapPin className="w-3 h-3" />{agent.firmAddress}</span>
+              )}
+            </div>
+          </div>
+          <Button asChild>
+            <a href={`/api/share/${encodeURIComponent(token)}/pdf`} download>
+              <Download className="w-4 h-4 mr-2" />
+              Download PDF
+            </a>
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Your Policy Summary</h1>
+          <p className="text-muted-foreground mt-1">
+            {policy.policyType} from {policy.insurer}
+            {shared.approvedAt && (
+              <span className="inline-flex items-center gap-1 ml-2 text-sm">
+                <ShieldCheck className="w-4 h-4 text-green-600" />
+                Reviewed {formatDate(shared.approvedAt)}
+              </span>
+            )}
+          </p>
+        </div>
+
+        {/* Policy basics */}
+        {policyFacts.length > 0 && (
+          <Card>
+            <CardContent className="pt-6">
+              <dl className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+                {policyFacts.map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-xs uppercase tracking-wide text-muted-foreground">{label}</dt>
+                    <dd className="font-medium">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Key coverages */}
+        {shared.coverages.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Key Coverages</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Coverage</TableHead>
+                    <TableHead>Limit</TableHead>
+                    <TableHead>Deductible</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shared.coverages.map((coverage, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <div className="font-medium">{coverage.type}</div>
+                        {coverage.description && (
+                          <div className="text-xs text-muted-foreground">{coverage.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{coverage.limit}</TableCell>
+                      <TableCell>{coverage.deductible || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Summary */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Summary</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SummaryContent summary={shared.summary} />
+          </CardContent>
+        </Card>
+
+        <p className="text-xs text-muted-foreground text-center">
+          This summary is for your convenience and does not replace your policy documents. Link valid until {formatDate(shared.expiresAt)}.
+        </p>
+      </main>
+    </div>
+  );
+}
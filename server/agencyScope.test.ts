@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import type { PolicyDocument } from "@shared/schema";
+import { storage } from "./storage";
+import { createProcessedDocument, createTestApp, signUp } from "./test/app";
+
+// An agency owner, a producer they added, and an agent of another agency
+describe("agency-scoped lists and branding", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof signUp>>;
+  let outsider: Awaited<ReturnType<typeof signUp>>;
+  let producer: { client: ReturnType<typeof request.agent>; agentId: number };
+  let producerDocument: PolicyDocument;
+  let producerClientId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await signUp(app, "agencyowner");
+    outsider = await signUp(app, "otheragency");
+
+    const member = await owner.client.post("/api/agency/members").send({
+      username: "producer1",
+      password: "password123",
+      fullName: "Pat Producer",
+      email: "producer1@example.com",
+      role: "producer",
+    }).expect(201);
+    const client = request.agent(app);
+    await client.post("/api/auth/login").send({ username: "producer1", password: "password123" }).expect(200);
+    producer = { client, agentId: member.body.id };
+
+    producerDocument = await createProcessedDocument(producer.agentId);
+    const created = await producer.client.post("/api/clients").send({ name: "Shenandoah Farms" }).expect(201);
+    producerClientId = created.body.id;
+  });
+
+  function ids(items: { id: number }[]) {
+    return items.map(item => item.id);
+  }
+
+  it("shows members' documents to the owner in lists and search", async () => {
+    expect(ids((await owner.client.get("/api/documents").expect(200)).body)).toContain(producerDocument.id);
+    expect(ids((await owner.client.get("/api/documents/search").expect(200)).body.documents)).toContain(producerDocument.id);
+
+    expect(ids((await outsider.client.get("/api/documents").expect(200)).body)).not.toContain(producerDocument.id);
+    expect(ids((await outsider.client.get("/api/documents/search").expect(200)).body.documents)).not.toContain(producerDocument.id);
+  });
+
+  it("shows members' clients to the owner only", async () => {
+    expect(ids((await owner.client.get("/api/clients").expect(200)).body)).toContain(producerClientId);
+    expect(ids((await outsider.client.get("/api/clients").expect(200)).body)).not.toContain(producerClientId);
+  });
+
+  it("refuses favorites and tags on another agency's document", async () => {
+    expect(await storage.toggleFavorite(producerDocument.id, outsider.agentId)).toBeUndefined();
+    expect(await storage.updateTags(producerDocument.id, ["stolen"], outsider.agentId)).toBeUndefined();
+    expect((await storage.getPolicyDocument(producerDocument.id))).toMatchObject({ isFavorite: false, tags: [] });
+
+    expect((await storage.toggleFavorite(producerDocument.id, owner.agentId))?.isFavorite).toBe(true);
+    expect((await storage.updateTags(producerDocument.id, ["renewal"], producer.agentId))?.tags).toEqual(["renewal"]);
+  });
+
+  it("writes regenerated summaries with the agency's firm details", async () => {
+    await storage.updatePolicyDocument(producerDocument.id, {
+      extractedData: { ...(producerDocument.extractedData as object), eligibility: {} },
+    });
+    await owner.client.put("/api/agency").send({
+      branding: { firmName: "Blue Ridge Brokers", firmAddress: "", firmPhone: "(555) 010-2000", firmWebsite: "" },
+    }).expect(200);
+
+    const response = await producer.client.post(`/api/documents/${producerDocument.id}/regenerate`).send({ options: { summaryLength: "detailed" } }).expect(200);
+    const summary = response.body.document.summary as string;
+    expect(summary).toContain("[Your Blue Ridge Brokers Partnership & Support]");
+    expect(summary).toContain("Blue Ridge Brokers at (555) 010-2000");
+    expect(summary).not.toContain("Valley Trust");
+  });
+});
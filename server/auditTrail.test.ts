@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import { storage } from "./storage";
+import { createProcessedDocument, createTestApp, signUp } from "./test/app";
+
+describe("audit trail", () => {
+  let app: Express;
+  let agent: Awaited<ReturnType<typeof signUp>>;
+  let agencyId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    agent = await signUp(app, "auditor");
+    agencyId = (await storage.getAgent(agent.agentId))!.agencyId!;
+  });
+
+  async function actions() {
+    return (await storage.listAuditEvents(agencyId, {})).map(event => event.action);
+  }
+
+  it("records a polled summary once per session", async () => {
+    const document = await createProcessedDocument(agent.agentId);
+    for (let poll = 0; poll < 5; poll++) {
+      await agent.client.get(`/api/documents/${document.id}`).expect(200);
+    }
+    expect(await storage.listDocumentAuditEvents(document.id)).toHaveLength(1);
+
+    // Editing changes the summary, so the next view is of different text
+    await agent.client.patch(`/api/documents/${document.id}/summary`).send({ summary: "[Your Coverage]\nEdited." }).expect(200);
+    await agent.client.get(`/api/documents/${document.id}`).expect(200);
+    await agent.client.get(`/api/documents/${document.id}`).expect(200);
+
+    // A fresh sign-in is a new session
+    const again = request.agent(app);
+    await again.post("/api/auth/login").send({ username: "auditor", password: "password123" }).expect(200);
+    await again.get(`/api/documents/${document.id}`).expect(200);
+
+    const views = (await storage.listDocumentAuditEvents(document.id)).filter(event => event.action === "view");
+    expect(views).toHaveLength(3);
+  });
+
+  it("records client, template, preset and settings changes", async () => {
+    const client = await agent.client.post("/api/clients").send({ name: "Acme Bakery" }).expect(201);
+    await agent.client.put(`/api/clients/${client.body.id}`).send({ email: "owner@acme.test" }).expect(200);
+    await agent.client.delete(`/api/clients/${client.body.id}`).expect(200);
+
+    const template = await agent.client.post("/api/pdf-templates").send({ name: "Letterhead", html: "<h1>{{clientName}}</h1>{{summary}}" }).expect(201);
+    await agent.client.put(`/api/pdf-templates/${template.body.id}`).send({ name: "Letterhead v2" }).expect(200);
+    await agent.client.delete(`/api/pdf-templates/${template.body.id}`).expect(200);
+
+    const preset = await agent.client.post("/api/processing-presets").send({ name: "Brief", options: {} }).expect(201);
+    await agent.client.put(`/api/processing-presets/${preset.body.id}`).send({ name: "Briefer" }).expect(200);
+    await agent.client.delete(`/api/processing-presets/${preset.body.id}`).expect(200);
+
+    await agent.client.put("/api/settings").send({ uiPreferences: { theme: "dark" } }).expect(200);
+
+    expect(await actions()).toEqual(expect.arrayContaining([
+      "create_client", "update_client", "delete_client",
+      "create_pdf_template", "update_pdf_template", "delete_pdf_template",
+      "create_preset", "update_preset", "delete_preset",
+      "update_settings",
+    ]));
+    const deletedClient = (await storage.listAuditEvents(agencyId, { action: "delete_client" }))[0];
+    expect(deletedClient.details).toMatchObject({ clientId: client.body.id, name: "Acme Bakery" });
+  });
+
+  it("records agency settings and membership changes", async () => {
+    await agent.client.put("/api/agency").send({ requireApprovalForExport: true }).expect(200);
+    const member = await agent.client.post("/api/agency/members").send({
+      username: "auditedmember",
+      password: "password123",
+      fullName: "Morgan Member",
+      email: "member@example.com",
+      role: "producer",
+    }).expect(201);
+    await agent.client.put(`/api/agency/members/${member.body.id}`).send({ role: "reviewer" }).expect(200);
+    await agent.client.delete(`/api/agency/members/${member.body.id}`).expect(200);
+
+    const [settings] = await storage.listAuditEvents(agencyId, { action: "update_agency" });
+    expect(settings.details).toEqual({ fields: ["requireApprovalForExport"], requireApprovalForExport: true });
+    const [added] = await storage.listAuditEvents(agencyId, { action: "add_member" });
+    expect(added.details).toMatchObject({ memberId: member.body.id, username: "auditedmember", role: "producer" });
+    const [changed] = await storage.listAuditEvents(agencyId, { action: "change_member_role" });
+    expect(changed.details).toMatchObject({ memberId: member.body.id, fromRole: "producer", toRole: "reviewer" });
+    const [removed] = await storage.listAuditEvents(agencyId, { action: "remove_member" });
+    expect(removed).toMatchObject({ actorId: agent.agentId, details: { memberId: member.body.id, role: "reviewer" } });
+  });
+
+  it("ignores changes that did not happen", async () => {
+    const before = (await actions()).length;
+    await agent.client.delete("/api/clients/9999").expect(404);
+    await agent.client.delete("/api/pdf-templates/9999").expect(404);
+    await agent.client.put("/api/processing-presets/9999").send({ name: "Missing" }).expect(404);
+    await agent.client.put("/api/agency/members/9999").send({ role: "admin" }).expect(404);
+    await agent.client.delete("/api/agency/members/9999").expect(404);
+    expect(await actions()).toHaveLength(before);
+  });
+});
@@ -12,7 +12,6 @@ export async function checkDeploymentReadiness(): Promise<{
   // Check required environment variables
   const requiredEnvVars = [
     'DATABASE_URL',
-    'XAI_API_KEY',
     'SESSION_SECRET'
   ];
 
@@ -41,11 +40,24 @@ export async function checkDeploymentReadiness(): Promise<{
     }
   }
 
+  // Check the configured LLM provider has credentials
+  const llmProvider = process.env.LLM_PROVIDER?.toLowerCase();
+  if (llmProvider === 'offline') {
+    warnings.push('LLM_PROVIDER=offline: summaries use the rule-based analyzer, not a hosted model');
+  } else if (!process.env.LLM_API_KEY && !process.env.XAI_API_KEY && !process.env.OPENAI_API_KEY) {
+    issues.push('Missing LLM credentials: set XAI_API_KEY, OPENAI_API_KEY or LLM_API_KEY (or LLM_PROVIDER=offline)');
+  }
+
   // Check XAI API key format
   if (process.env.XAI_API_KEY && !process.env.XAI_API_KEY.startsWith('xai-')) {
     warnings.push('XAI_API_KEY format may be incorrect (should start with "xai-")');
   }
 
+  // Original uploads on local disk are lost if the deployment filesystem is ephemeral
+  if ((process.env.FILE_STORAGE || 'local').toLowerCase() === 'local') {
+    warnings.push('FILE_STORAGE=local: original uploads are stored on the server filesystem; use FILE_STORAGE=s3 if it is not persistent');
+  }
+
   // Log session store configuration
   console.log('✅ Session store: Memory store (simplified for deployment stability)');
 
@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { PolicyDocument } from "@shared/schema";
+import { storage } from "./storage";
+import { createProcessedDocument, createTestApp, signUp } from "./test/app";
+
+// Two agents of different agencies: neither may reach the other's documents
+describe("document access across agents", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof signUp>>;
+  let outsider: Awaited<ReturnType<typeof signUp>>;
+  let document: PolicyDocument;
+  let outsiderDocument: PolicyDocument;
+  let olderVersionId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await signUp(app, "owner");
+    outsider = await signUp(app, "outsider");
+    document = await createProcessedDocument(owner.agentId);
+    outsiderDocument = await createProcessedDocument(outsider.agentId);
+
+    // A second version, so the first one can be restored or deleted
+    await owner.client.patch(`/api/documents/${document.id}/summary`).send({ summary: "[Your Coverage]\nEdited by the owner." }).expect(200);
+    const history = await storage.getSummaryHistory(document.id);
+    olderVersionId = history.find(version => !version.isActive)!.id;
+  });
+
+  it("requires a session", async () => {
+    const { default: request } = await import("supertest");
+    await request(app).get(`/api/documents/${document.id}`).expect(401);
+    await request(app).get("/api/settings").expect(401);
+  });
+
+  it("hides another agent's document", async () => {
+    await owner.client.get(`/api/documents/${document.id}`).expect(200);
+    await outsider.client.get(`/api/documents/${document.id}`).expect(404);
+    await outsider.client.patch(`/api/documents/${document.id}/summary`).send({ summary: "Overwritten" }).expect(404);
+    await outsider.client.post(`/api/documents/${document.id}/export`).send({}).expect(404);
+    await outsider.client.delete(`/api/documents/${document.id}`).expect(404);
+
+    const list = await outsider.client.get("/api/documents").expect(200);
+    expect(list.body.map((item: { id: number }) => item.id)).not.toContain(document.id);
+    expect((await storage.getPolicyDocument(document.id))?.summary).toContain("Edited by the owner.");
+  });
+
+  it("hides another agent's summary history", async () => {
+    await outsider.client.get(`/api/documents/${document.id}/summary-history`).expect(404);
+    await outsider.client.post(`/api/documents/${document.id}/summary-history/${olderVersionId}/restore`).expect(404);
+    await outsider.client.delete(`/api/documents/${document.id}/summary-history/${olderVersionId}`).expect(404);
+
+    // A version is only reachable through its own document
+    await outsider.client.post(`/api/documents/${outsiderDocument.id}/summary-history/${olderVersionId}/restore`).expect(404);
+    await outsider.client.delete(`/api/documents/${outsiderDocument.id}/summary-history/${olderVersionId}`).expect(404);
+    expect(await storage.getSummaryVersion(document.id, olderVersionId)).toBeDefined();
+  });
+
+  it("hides another agent's share links", async () => {
+    const created = await owner.client.post(`/api/documents/${document.id}/share-links`).send({}).expect(201);
+    const linkId = created.body.id;
+
+    await outsider.client.get(`/api/documents/${document.id}/share-links`).expect(404);
+    await outsider.client.post(`/api/documents/${document.id}/share-links`).send({}).expect(404);
+    await outsider.client.post(`/api/documents/${document.id}/share-links/${linkId}/revoke`).expect(404);
+    await outsider.client.post(`/api/documents/${outsiderDocument.id}/share-links/${linkId}/revoke`).expect(404);
+
+    const links = await owner.client.get(`/api/documents/${document.id}/share-links`).expect(200);
+    expect(links.body[0].status).toBe("active");
+  });
+
+  it("hides another agent's email routes", async () => {
+    await outsider.client.get(`/api/documents/${document.id}/email/draft`).expect(404);
+    await outsider.client.post(`/api/documents/${document.id}/email`).send({ to: ["client@example.com"], subject: "Hi", message: "Hello" }).expect(404);
+    await outsider.client.get(`/api/documents/${document.id}/email-deliveries`).expect(404);
+    expect(await storage.listEmailDeliveries(document.id)).toHaveLength(0);
+  });
+
+  it("keeps settings with the signed-in agent", async () => {
+    await owner.client.put("/api/settings").send({ agentId: outsider.agentId, uiPreferences: { theme: "dark" } }).expect(200);
+
+    const ownerSettings = await owner.client.get("/api/settings").expect(200);
+    const outsiderSettings = await outsider.client.get("/api/settings").expect(200);
+    expect(ownerSettings.body.agentId).toBe(owner.agentId);
+    expect(ownerSettings.body.uiPreferences).toEqual({ theme: "dark" });
+    expect(outsiderSettings.body.agentId).toBe(outsider.agentId);
+    expect(outsiderSettings.body.uiPreferences).toEqual({});
+  });
+});
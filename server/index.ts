@@ -2,6 +2,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { processingJobQueue } from "./services/jobQueue";
+import { renewalTracker } from "./services/renewalTracker";
+import { getLLMProvider } from "./services/llmProvider";
 import "./deployment-check";
 
 const app = express();
@@ -91,6 +94,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Stop here rather than on the first upload if no AI provider is configured
+  const llmProvider = getLLMProvider();
+  log(`using the ${llmProvider.name} LLM provider`);
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -120,5 +127,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Resume any processing interrupted by the last restart
+    processingJobQueue.start();
+    // Renewal reminders for policies nearing expiration
+    void renewalTracker.start();
   });
 })();
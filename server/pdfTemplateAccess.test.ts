@@ -0,0 +1,74 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import { storage } from "./storage";
+import { pdfGenerator } from "./services/pdfGenerator";
+import { createProcessedDocument, createTestApp, signUp } from "./test/app";
+
+const html = "<h1>{{clientName}}</h1>{{{summaryHtml}}}";
+
+// Custom templates are the agency's: members use each other's, outsiders see none
+describe("custom PDF templates across an agency", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof signUp>>;
+  let outsider: Awaited<ReturnType<typeof signUp>>;
+  let producer: { client: ReturnType<typeof request.agent>; agentId: number };
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await signUp(app, "templateowner");
+    outsider = await signUp(app, "templateoutsider");
+
+    const member = await owner.client.post("/api/agency/members").send({
+      username: "templateproducer",
+      password: "password123",
+      fullName: "Pat Producer",
+      email: "templateproducer@example.com",
+      role: "producer",
+    }).expect(201);
+    const client = request.agent(app);
+    await client.post("/api/auth/login").send({ username: "templateproducer", password: "password123" }).expect(200);
+    producer = { client, agentId: member.body.id };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function customTemplates(agent: { client: ReturnType<typeof request.agent> }) {
+    const response = await agent.client.get("/api/pdf-templates").expect(200);
+    return (response.body.templates as { id?: number; custom: boolean; editable?: boolean }[]).filter(template => template.custom);
+  }
+
+  it("lists a member's upload for the whole agency only", async () => {
+    const uploaded = await producer.client.post("/api/pdf-templates").send({ name: "Producer letterhead", html }).expect(201);
+
+    expect(await customTemplates(owner)).toContainEqual(expect.objectContaining({ id: uploaded.body.id, editable: true }));
+    expect(await customTemplates(producer)).toContainEqual(expect.objectContaining({ id: uploaded.body.id, editable: true }));
+    expect((await customTemplates(outsider)).map(template => template.id)).not.toContain(uploaded.body.id);
+    await outsider.client.get(`/api/pdf-templates/${uploaded.body.id}`).expect(404);
+
+    // Managers may tidy up members' templates
+    await owner.client.put(`/api/pdf-templates/${uploaded.body.id}`).send({ name: "Agency letterhead" }).expect(200);
+  });
+
+  it("lets members export with a colleague's template but not change it", async () => {
+    const uploaded = await owner.client.post("/api/pdf-templates").send({ name: "Owner letterhead", html }).expect(201);
+    const id = uploaded.body.id as number;
+
+    expect(await customTemplates(producer)).toContainEqual(expect.objectContaining({ id, editable: false }));
+    await producer.client.get(`/api/pdf-templates/${id}`).expect(200);
+    await producer.client.put(`/api/pdf-templates/${id}`).send({ name: "Mine now" }).expect(404);
+    await producer.client.delete(`/api/pdf-templates/${id}`).expect(404);
+    await outsider.client.delete(`/api/pdf-templates/${id}`).expect(404);
+    expect((await storage.getPdfTemplate(id))?.name).toBe("Owner letterhead");
+
+    const render = vi.spyOn(pdfGenerator, "generatePolicyPDF").mockResolvedValue(Buffer.from("%PDF-1.4 custom"));
+    const document = await createProcessedDocument(producer.agentId);
+    await producer.client.post(`/api/documents/${document.id}/export`).send({ template: `custom:${id}` }).expect(200);
+    expect(render.mock.calls[0][2].customTemplateHtml).toBe(html);
+
+    const outsiderDocument = await createProcessedDocument(outsider.agentId);
+    await outsider.client.post(`/api/documents/${outsiderDocument.id}/export`).send({ template: `custom:${id}` }).expect(400);
+  });
+});
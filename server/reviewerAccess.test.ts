@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import type { AgencyRole, PolicyDocument } from "@shared/schema";
+import { storage } from "./storage";
+import { createProcessedDocument, createTestApp, signUp } from "./test/app";
+
+// A reviewer reads and reviews a producer's documents but cannot change them
+describe("reviewer access", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof signUp>>;
+  let producer: { client: ReturnType<typeof request.agent>; agentId: number };
+  let reviewer: { client: ReturnType<typeof request.agent>; agentId: number };
+  let document: PolicyDocument;
+  let clientId: number;
+
+  async function addMember(username: string, role: AgencyRole) {
+    const member = await owner.client.post("/api/agency/members").send({
+      username,
+      password: "password123",
+      fullName: `${role} ${username}`,
+      email: `${username}@example.com`,
+      role,
+    }).expect(201);
+    const client = request.agent(app);
+    await client.post("/api/auth/login").send({ username, password: "password123" }).expect(200);
+    return { client, agentId: member.body.id as number };
+  }
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await signUp(app, "revowner");
+    producer = await addMember("revproducer", "producer");
+    reviewer = await addMember("revreviewer", "reviewer");
+
+    document = await createProcessedDocument(producer.agentId);
+    await producer.client.post(`/api/documents/${document.id}/review/submit`).send({}).expect(200);
+    clientId = (await producer.client.post("/api/clients").send({ name: "Rappahannock Orchards" }).expect(201)).body.id;
+  });
+
+  it("finds and reads colleagues' documents", async () => {
+    const search = await reviewer.client.get("/api/documents/search").expect(200);
+    expect(search.body.documents.map((item: { id: number }) => item.id)).toContain(document.id);
+
+    await reviewer.client.get(`/api/documents/${document.id}`).expect(200);
+    await reviewer.client.get(`/api/documents/${document.id}/summary-history`).expect(200);
+    await reviewer.client.get(`/api/documents/${document.id}/activity`).expect(200);
+    const review = await reviewer.client.get(`/api/documents/${document.id}/review`).expect(200);
+    expect(review.body.canReview).toBe(true);
+  });
+
+  it("comments on and approves a colleague's summary", async () => {
+    await reviewer.client.post(`/api/documents/${document.id}/review/comments`).send({ body: "Check the deductible" }).expect(201);
+    const approved = await reviewer.client.post(`/api/documents/${document.id}/review/approve`).send({}).expect(200);
+    expect(approved.body.status).toBe("approved");
+    expect((await storage.getPolicyDocument(document.id))?.approvedById).toBe(reviewer.agentId);
+  });
+
+  it("cannot change, share or delete a colleague's document", async () => {
+    await reviewer.client.patch(`/api/documents/${document.id}/summary`).send({ summary: "[Your Coverage]\nRewritten." }).expect(404);
+    await reviewer.client.post(`/api/documents/${document.id}/reprocess`).send({}).expect(404);
+    await reviewer.client.post(`/api/documents/${document.id}/regenerate`).send({}).expect(404);
+    await reviewer.client.post(`/api/documents/${document.id}/share-links`).send({}).expect(404);
+    await reviewer.client.post(`/api/documents/${document.id}/export`).send({}).expect(404);
+    await reviewer.client.delete(`/api/documents/${document.id}`).expect(404);
+
+    const stored = await storage.getPolicyDocument(document.id);
+    expect(stored?.summary).toBe(document.summary);
+    expect(await storage.listShareLinks(document.id)).toHaveLength(0);
+  });
+
+  it("cannot see or edit a colleague's clients", async () => {
+    const clients = await reviewer.client.get("/api/clients").expect(200);
+    expect(clients.body.map((item: { id: number }) => item.id)).not.toContain(clientId);
+    await reviewer.client.put(`/api/clients/${clientId}`).send({ name: "Renamed" }).expect(404);
+    await reviewer.client.delete(`/api/clients/${clientId}`).expect(404);
+    expect((await storage.getClient(clientId))?.name).toBe("Rappahannock Orchards");
+  });
+
+  it("keeps producers to their own documents", async () => {
+    const other = await addMember("revproducer2", "producer");
+    await other.client.get(`/api/documents/${document.id}`).expect(404);
+    await other.client.get(`/api/documents/${document.id}/review`).expect(404);
+    await other.client.post(`/api/documents/${document.id}/review/comments`).send({ body: "Looks fine" }).expect(404);
+  });
+});
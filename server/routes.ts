@@ -3,18 +3,52 @@ import { createServer, type Server } from "http";
 import multer from "multer";
 import session from "express-session";
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
 import { z } from "zod";
 import { storage } from "./storage";
-import { documentProcessor } from "./services/documentProcessor";
-import { pdfGenerator } from "./services/pdfGenerator";
-import { xaiService } from "./services/xai";
-import { insertPolicyDocumentSchema, PolicyDataSchema, insertAgentSchema } from "@shared/schema";
+import { processingJobQueue } from "./services/jobQueue";
+import { processingEvents } from "./services/processingEvents";
+import { fileStorage, originalFileKey } from "./services/fileStorage";
+import { expandBatchUpload, MAX_BATCH_FILES, type UploadedPolicyFile } from "./services/archiveExtractor";
+import { mergeProcessingOptions, validateRequestedOptions } from "./services/processingOptions";
+import { pdfGenerator, type PDFOptions } from "./services/pdfGenerator";
+import { getPdfTemplate, listPdfTemplates, validateCustomTemplate, CUSTOM_TEMPLATE_FIELDS } from "./services/pdfTemplates";
+import { policyComparator, MIN_COMPARED_POLICIES, MAX_COMPARED_POLICIES } from "./services/policyComparison";
+import { getLLMProvider } from "./services/llmProvider";
+import { firmContact } from "./services/firmBranding";
+import { clientPortfolio } from "./services/clientPortfolio";
+import { coverageGapAnalyzer, DEFAULT_GAP_RULE_SETS } from "./services/coverageGapAnalyzer";
+import { renewalTracker } from "./services/renewalTracker";
+import { auditTrail, hashContent, type AuditEntry } from "./services/auditTrail";
+import { mailer } from "./services/mailer";
+import { composeSummaryEmail, emailTemplateFor, emailTemplateValues, fillEmailTemplate } from "./services/summaryEmail";
+import { summaryTranslator, type TranslatedSummary } from "./services/summaryTranslation";
+import { sharedPdfCache, sharedPdfDownloads, sharedSummaryViews } from "./services/sharedPdfs";
+import { insertPolicyDocumentSchema, PolicyDataSchema, insertAgentSchema, insertAgencySchema, insertClientSchema, insertPdfTemplateSchema, insertProcessingPresetSchema, GapRuleSetsSchema, AgencyBrandingSchema, DocumentSearchQuerySchema, AuditEventQuerySchema, AGENCY_ROLES, AGENCY_MANAGER_ROLES, AGENCY_REVIEWER_ROLES, TERMINAL_PROCESSING_EVENTS, type ProcessingOptions, type ProcessingEvent, type PolicyDocument, type UploadBatch, type PdfTemplate, type PdfTemplateOption, type ProcessingPreset, type Agent, type AgencyRole, type AgencyBranding, type SummaryVersionSource, type ReviewStatus, type ReviewDecision, type AuditAction, type AuditEvent, type ShareLink, type PolicyData, type EmailDelivery, EmailTemplateSchema, EMAIL_DELIVERY_METHODS, SHARE_LINK_DEFAULT_DAYS, SHARE_LINK_MAX_DAYS, SUMMARY_LANGUAGES, SUMMARY_LANGUAGE_LABELS, type SummaryLanguage } from "@shared/schema";
+import { parseSummaryMarkdown, structuredSummaryOf, summaryToMarkdown } from "@shared/summaryMarkdown";
 
 // Extend Express session to include agent
 declare module 'express-session' {
   interface SessionData {
     agentId?: number;
     agentUsername?: string;
+    auditedViews?: Record<string, number>; // "documentId:summaryHash" -> when the view was recorded
+  }
+}
+
+// The signed-in agent's agency membership, loaded by requireAuth
+interface AgentAccess {
+  agentId: number;
+  agencyId: number | null;
+  role: AgencyRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      access?: AgentAccess;
+      document?: PolicyDocument;
+    }
   }
 }
 
@@ -34,8 +68,31 @@ const upload = multer({
   },
 });
 
-// Authentication middleware
-function requireAuth(req: Request, res: Response, next: NextFunction) {
+// Batch uploads accept ZIP archives as well; each extracted file is still capped at 10MB
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB per file (ZIP archives)
+    files: MAX_BATCH_FILES,
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = [
+      'application/pdf',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/zip',
+      'application/x-zip-compressed',
+    ];
+    if (allowedTypes.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.zip')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF, DOCX and ZIP files are allowed'));
+    }
+  },
+});
+
+// Authentication middleware: the session must belong to an existing agent, whose
+// agency and role are loaded onto req.access
+async function requireAuth(req: Request, res: Response, next: NextFunction) {
   // Check if session exists and has agent ID
   if (!req.session || !req.session.agentId) {
     // Clear any invalid session
@@ -45,10 +102,69 @@ function requireAuth(req: Request, res: Response, next: NextFunction) {
     
     return res.status(401).json({ error: "Authentication required" });
   }
-  
+
+  try {
+    const agent = await storage.getAgent(req.session.agentId);
+    if (!agent) {
+      req.session.destroy(() => {});
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    req.access = { agentId: agent.id, agencyId: agent.agencyId, role: agent.role };
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Use after requireAuth: only agency owners and admins may continue
+function requireAgencyManager(req: Request, res: Response, next: NextFunction) {
+  if (!req.access?.agencyId || !AGENCY_MANAGER_ROLES.includes(req.access.role)) {
+    return res.status(403).json({ error: "Agency owner or admin role required" });
+  }
+  next();
+}
+
+// Use after requireAuth: only agency owners, admins and reviewers may continue
+function requireReviewer(req: Request, res: Response, next: NextFunction) {
+  if (!req.access?.agencyId || !AGENCY_REVIEWER_ROLES.includes(req.access.role)) {
+    return res.status(403).json({ error: "Reviewer role required" });
+  }
   next();
 }
 
+// Use after requireAuth on /api/documents/:id routes: loads the document onto req.document
+// when the signed-in agent may reach it. Other agents' documents answer 404, like missing ones.
+function requireDocumentAccess(req: Request, res: Response, next: NextFunction) {
+  return loadDocumentAccess(req, res, next, (id, agentId) => storage.getPolicyDocument(id, agentId));
+}
+
+// Like requireDocumentAccess, for routes that only read or review the document: reviewers
+// also reach their colleagues' documents here, but cannot change, share or delete them
+function requireReviewAccess(req: Request, res: Response, next: NextFunction) {
+  return loadDocumentAccess(req, res, next, (id, agentId) => storage.getReviewablePolicyDocument(id, agentId));
+}
+
+async function loadDocumentAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  load: (id: number, agentId: number) => Promise<PolicyDocument | undefined>
+) {
+  try {
+    const id = parseInt(req.params.id);
+    const document = isNaN(id) ? undefined : await load(id, req.access!.agentId);
+    if (!document) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    req.document = document;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
 
   // Agent registration route
@@ -66,27 +182,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const hashedPassword = await bcrypt.hash(validatedData.password, 10);
       
       // Create agent
-      const agent = await storage.createAgent({
+      const createdAgent = await storage.createAgent({
         ...validatedData,
         password: hashedPassword
       });
 
-      // Create default user settings with registration information populated
-      await storage.createDefaultSettings(agent.id, {
-        agentProfile: {
-          name: agent.fullName,
-          title: "",
-          phone: "",
-          email: agent.email,
-          license: "",
-          signature: "",
-          firmName: "Valley Trust Insurance",
-          firmAddress: "",
-          firmPhone: "",
-          firmWebsite: ""
-        }
+      // Create default user settings with registration information populated.
+      // Processing defaults start empty so the agency's defaults apply.
+      const agencyName = typeof req.body.agencyName === 'string' ? req.body.agencyName.trim() : '';
+      await storage.createDefaultSettings(createdAgent.id, {
+        agentProfile: newAgentProfile(createdAgent, { firmName: agencyName }),
+        defaultProcessingOptions: {},
       });
 
+      // Every new registration founds its own agency; colleagues are added by its owner or admins
+      const agent = await ensureAgency(createdAgent, agencyName);
+
       // Create session
       req.session.agentId = agent.id;
       req.session.agentUsername = agent.username;
@@ -105,12 +216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         res.status(201).json({ 
           success: true, 
-          agent: { 
-            id: agent.id, 
-            username: agent.username, 
-            fullName: agent.fullName,
-            email: agent.email 
-          } 
+          agent: toAgentSummary(agent)
         });
       });
     } catch (error) {
@@ -129,17 +235,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Find agent
-      const agent = await storage.getAgentByUsername(username);
-      if (!agent) {
+      const existingAgent = await storage.getAgentByUsername(username);
+      if (!existingAgent) {
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
       // Verify password
-      const isValidPassword = await bcrypt.compare(password, agent.password);
+      const isValidPassword = await bcrypt.compare(password, existingAgent.password);
       if (!isValidPassword) {
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
+      // Agents from before agencies existed get an agency of their own on first login
+      const agent = await ensureAgency(existingAgent);
+
       // Create session
       req.session.agentId = agent.id;
       req.session.agentUsername = agent.username;
@@ -153,12 +262,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         res.json({ 
           success: true, 
-          agent: { 
-            id: agent.id, 
-            username: agent.username, 
-            fullName: agent.fullName,
-            email: agent.email 
-          } 
+          agent: toAgentSummary(agent)
         });
       });
     } catch (error) {
@@ -191,12 +295,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Return same format as login endpoint for consistency
-      res.json({ 
-        id: agent.id, 
-        username: agent.username, 
-        fullName: agent.fullName,
-        email: agent.email 
-      });
+      res.json(toAgentSummary(agent));
     } catch (error) {
       console.error("Get agent error:", error);
       res.status(500).json({ error: "Failed to get agent" });
@@ -210,37 +309,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      // Always use short summary for ultra-fast processing
-      const processingOptions = { summaryLength: 'short' };
+      const agentId = req.session.agentId!;
+      const preset = await resolveUploadPreset(agentId, req.body?.presetId);
+      if (preset === null) {
+        return res.status(404).json({ error: "Processing preset not found" });
+      }
+      const optionsResult = await resolveProcessingOptions(agentId, req.body?.options, preset?.options);
+      if (!optionsResult.success) {
+        return res.status(400).json({ error: "Invalid processing options", details: optionsResult.error.errors });
+      }
 
-      // Create document record with agent association
-      const documentData = {
-        agentId: req.session.agentId!,
-        filename: `${Date.now()}-${req.file.originalname}`,
+      const { document, job } = await createAndQueueDocument(agentId, {
         originalName: req.file.originalname,
-        fileSize: req.file.size,
-        fileType: req.file.mimetype,
-        processed: false,
-        extractedData: null,
-        summary: null,
-        processingError: null,
-      };
-
-      const document = await storage.createPolicyDocument(documentData);
-
-      // Start processing in background with options
-      processDocumentAsync(document.id, req.file.buffer, req.file.originalname, processingOptions)
-        .catch(error => {
-          console.error(`❌ Background processing failed for document ${document.id}:`, error);
-          // Update document status to failed
-          storage.updatePolicyDocument(document.id, {
-            processed: true,
-            processingError: error.message
-          }, req.session.agentId!);
-        });
+        buffer: req.file.buffer,
+        mimetype: req.file.mimetype,
+        size: req.file.size,
+      }, optionsResult.data, { presetId: preset?.id });
+      await recordAudit(req, 'upload', {
+        document,
+        details: { jobId: job.id, presetId: preset?.id ?? null, options: optionsResult.data },
+      });
 
       res.json({ 
         documentId: document.id,
+        jobId: job.id,
         message: "Document uploaded successfully and processing started" 
       });
     } catch (error) {
@@ -249,17 +341,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get document processing status
-  app.get("/api/documents/:id/status", requireAuth, async (req, res) => {
+  // Upload many policies at once (multiple files and/or ZIP archives) as one batch
+  app.post("/api/documents/batch-upload", requireAuth, batchUpload.array('documents', MAX_BATCH_FILES), async (req, res) => {
+    try {
+      const uploads = req.files as Express.Multer.File[] | undefined;
+      if (!uploads || uploads.length === 0) {
+        return res.status(400).json({ error: "No files uploaded" });
+      }
+
+      const agentId = req.session.agentId!;
+      const preset = await resolveUploadPreset(agentId, req.body?.presetId);
+      if (preset === null) {
+        return res.status(404).json({ error: "Processing preset not found" });
+      }
+      const optionsResult = await resolveProcessingOptions(agentId, req.body?.options, preset?.options);
+      if (!optionsResult.success) {
+        return res.status(400).json({ error: "Invalid processing options", details: optionsResult.error.errors });
+      }
+
+      const { files, skipped } = await expandBatchUpload(uploads);
+      if (files.length === 0) {
+        return res.status(400).json({ error: "No PDF or DOCX files found in the upload", skipped });
+      }
+
+      const processingOptions = optionsResult.data;
+      const batch = await storage.createUploadBatch({
+        agentId,
+        name: uploads.length === 1 ? uploads[0].originalname : `${files.length} policies (${new Date().toLocaleDateString('en-US')})`,
+        totalDocuments: files.length,
+        skippedFiles: skipped,
+      });
+
+      const documentIds: number[] = [];
+      for (const file of files) {
+        const { document } = await createAndQueueDocument(agentId, file, processingOptions, { batchId: batch.id, presetId: preset?.id });
+        await recordAudit(req, 'upload', {
+          document,
+          details: { batchId: batch.id, presetId: preset?.id ?? null, options: processingOptions },
+        });
+        documentIds.push(document.id);
+      }
+
+      console.log(`📦 Batch ${batch.id}: queued ${files.length} document(s), skipped ${skipped.length}`);
+      res.json({
+        batchId: batch.id,
+        documentIds,
+        skipped,
+        message: `${files.length} document(s) uploaded and queued for processing`,
+      });
+    } catch (error) {
+      console.error("Batch upload error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Batch upload failed' });
+    }
+  });
+
+  // List upload batches with aggregate progress
+  app.get("/api/batches", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const batches = await storage.listUploadBatches(agentId);
+      const summaries = await Promise.all(batches.map(async batch =>
+        summarizeBatch(batch, await storage.listBatchDocuments(batch.id))
+      ));
+      res.json(summaries);
+    } catch (error) {
+      console.error("List batches error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List batches failed' });
+    }
+  });
+
+  // Get a batch with the status of each document in it
+  app.get("/api/batches/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const agentId = req.session.agentId!;
-      const document = await storage.getPolicyDocument(id, agentId);
-      
-      if (!document) {
-        return res.status(404).json({ error: "Document not found" });
+      const batch = await storage.getUploadBatch(id, agentId);
+
+      if (!batch) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+
+      const documents = await storage.listBatchDocuments(id);
+      res.json({
+        ...summarizeBatch(batch, documents),
+        documents: documents.map(doc => ({
+          id: doc.id,
+          originalName: doc.originalName,
+          processed: doc.processed,
+          processingError: doc.processingError,
+          hasSummary: !!doc.summary,
+        })),
+      });
+    } catch (error) {
+      console.error("Get batch error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Get batch failed' });
+    }
+  });
+
+  // Requeue every failed document in a batch
+  app.post("/api/batches/:id/retry", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const agentId = req.session.agentId!;
+      const batch = await storage.getUploadBatch(id, agentId);
+
+      if (!batch) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+
+      const failed = (await storage.listBatchDocuments(id))
+        .filter(doc => doc.processed && doc.processingError && doc.storageKey);
+
+      for (const doc of failed) {
+        await storage.updatePolicyDocument(doc.id, { processed: false, processingError: null }, agentId);
+        const job = await processingJobQueue.enqueue(doc.id, doc.originalName, doc.processingOptions as object, { storageKey: doc.storageKey! });
+        await recordAudit(req, 'reprocess', { document: doc, details: { jobId: job.id, batchId: batch.id, retry: true } });
       }
 
+      res.json({
+        retried: failed.length,
+        message: failed.length > 0 ? `Retrying ${failed.length} failed document(s)` : "No failed documents to retry",
+      });
+    } catch (error) {
+      console.error("Retry batch error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Retry batch failed' });
+    }
+  });
+
+  // Get document processing status
+  app.get("/api/documents/:id/status", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const document = req.document!;
+
+      const job = await processingJobQueue.getProgress(id);
+
       res.json({
         id: document.id,
         originalName: document.originalName,
@@ -267,6 +483,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         processingError: document.processingError,
         hasData: !!document.extractedData,
         hasSummary: !!document.summary,
+        stage: job?.stage ?? (document.processed ? 'completed' : 'queued'),
+        attempts: job?.attempts ?? 0,
+        etaSeconds: job?.etaSeconds ?? null,
+        job: job ?? null,
       });
     } catch (error) {
       console.error("Status check error:", error);
@@ -274,17 +494,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get processed document data
-  app.get("/api/documents/:id", requireAuth, async (req, res) => {
+  // Stream processing progress as Server-Sent Events
+  app.get("/api/documents/:id/events", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const document = req.document!;
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      let closed = false;
+      let unsubscribe = () => {};
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.write('event: end\ndata: {}\n\n');
+        res.end();
+      };
+      const send = (event: ProcessingEvent) => {
+        if (closed) return;
+        res.write(`id: ${event.id}\nevent: progress\ndata: ${JSON.stringify(event)}\n\n`);
+        if (TERMINAL_PROCESSING_EVENTS.includes(event.type)) {
+          close();
+        }
+      };
+
+      req.on('close', () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+
+      // Replay what the client missed (EventSource sends Last-Event-ID on reconnect)
+      const lastEventId = parseInt(req.header('Last-Event-ID') || '0') || 0;
+      const history = processingEvents.getHistory(id, lastEventId);
+      history.forEach(send);
+
+      // Nothing left to stream for documents that already finished
+      if (!closed && document.processed && !history.length) {
+        return close();
+      }
+
+      unsubscribe = processingEvents.subscribe(id, send);
+    } catch (error) {
+      console.error("Processing events error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Processing events failed' });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Download the original uploaded file
+  app.get("/api/documents/:id/original", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+
+      if (!document.storageKey) {
+        return res.status(404).json({ error: "The original file was not stored for this document" });
+      }
+
+      const data = await fileStorage.read(document.storageKey);
+      await recordAudit(req, 'download_original', { document, details: { fileHash: hashContent(data) } });
+      res.setHeader('Content-Type', document.fileType);
+      res.setHeader('Content-Disposition', `attachment; filename="${document.originalName.replace(/"/g, '')}"`);
+      res.setHeader('Content-Length', data.length);
+      res.send(data);
+    } catch (error) {
+      console.error("Download original error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Download original failed' });
+    }
+  });
+
+  // Re-run extraction and summarization from the stored original
+  app.post("/api/documents/:id/reprocess", requireAuth, requireDocumentAccess, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const agentId = req.session.agentId!;
-      const document = await storage.getPolicyDocument(id, agentId);
-      
-      if (!document) {
-        return res.status(404).json({ error: "Document not found" });
+      const document = req.document!;
+
+      if (!document.storageKey) {
+        return res.status(409).json({ error: "The original file was not stored for this document. Please upload it again." });
+      }
+
+      const currentJob = await processingJobQueue.getProgress(id);
+      if (currentJob && (currentJob.status === 'queued' || currentJob.status === 'running')) {
+        return res.status(409).json({ error: "Document is already being processed" });
+      }
+
+      // Requested options override the ones the document was last processed with
+      const parsed = await resolveProcessingOptions(agentId, req.body?.options, document.processingOptions);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid processing options", details: parsed.error.errors });
+      }
+
+      await storage.updatePolicyDocument(id, {
+        processed: false,
+        processingError: null,
+      }, agentId);
+      const job = await processingJobQueue.enqueue(id, document.originalName, parsed.data, { storageKey: document.storageKey });
+      await recordAudit(req, 'reprocess', { document, details: { jobId: job.id, options: parsed.data } });
+
+      res.json({
+        documentId: id,
+        jobId: job.id,
+        message: "Reprocessing started",
+      });
+    } catch (error) {
+      console.error("Reprocess document error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Reprocess document failed' });
+    }
+  });
+
+  // Cancel queued or in-progress processing
+  app.post("/api/documents/:id/cancel", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      const cancelled = await processingJobQueue.cancel(id);
+      if (!cancelled) {
+        return res.status(409).json({ error: "Document is not being processed" });
+      }
+
+      await recordAudit(req, 'cancel_processing', { document: req.document! });
+      res.json({ message: "Processing cancelled" });
+    } catch (error) {
+      console.error("Cancel processing error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Cancel processing failed' });
+    }
+  });
+
+  // Full-text and faceted search over the agent's documents, one page at a time
+  app.get("/api/documents/search", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const parsed = parseDocumentSearch(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid search", details: parsed.error.errors });
       }
 
+      const result = await storage.searchDocuments(parsed.data, agentId);
+      // Results change with every upload, export and favorite
+      res.set({ 'Cache-Control': 'no-cache, no-store, must-revalidate' });
+      res.json({ ...result, documents: result.documents.map(toDocumentListItem) });
+    } catch (error) {
+      console.error("Search documents error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Search failed' });
+    }
+  });
+
+  // Get processed document data
+  app.get("/api/documents/:id", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+
       if (!document.processed) {
         return res.status(202).json({ 
           message: "Document is still being processed",
@@ -299,15 +670,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      res.json({
-        id: document.id,
-        originalName: document.originalName,
-        extractedData: document.extractedData,
-        summary: document.summary,
-        processed: document.processed,
-        uploadedAt: document.uploadedAt,
-        processingOptions: document.processingOptions,
-      });
+      await recordView(req, document);
+      res.json(toDocumentDetails(document));
     } catch (error) {
       console.error("Get document error:", error);
       res.status(500).json({ error: error instanceof Error ? error.message : 'Get document failed' });
@@ -315,35 +679,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update document summary
-  app.patch("/api/documents/:id/summary", requireAuth, async (req, res) => {
+  app.patch("/api/documents/:id/summary", requireAuth, requireDocumentAccess, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
       const agentId = req.session.agentId!;
+      const document = req.document!;
       const { summary } = req.body;
       
       if (!summary || typeof summary !== 'string') {
         return res.status(400).json({ error: "Summary is required and must be a string" });
       }
-      
-      const document = await storage.getPolicyDocument(id, agentId);
-      if (!document) {
-        return res.status(404).json({ error: "Document not found" });
+
+      // Summaries are saved in their parsed form, so edits that only change formatting
+      // (bullet characters, line wrapping) are not a new version
+      if (summaryToMarkdown(parseSummaryMarkdown(summary)) === document.summary) {
+        return res.json(toDocumentDetails(document));
       }
       
-      const updatedDocument = await storage.updatePolicyDocument(id, { summary }, agentId);
+      const updatedDocument = await saveSummaryVersion(document, agentId, summary, { source: 'edit' });
       if (!updatedDocument) {
         return res.status(500).json({ error: "Failed to update document summary" });
       }
+      await recordAudit(req, 'edit_summary', { document, summaryAfter: updatedDocument.summary });
       
-      res.json({
-        id: updatedDocument.id,
-        originalName: updatedDocument.originalName,
-        extractedData: updatedDocument.extractedData,
-        summary: updatedDocument.summary,
-        processed: updatedDocument.processed,
-        uploadedAt: updatedDocument.uploadedAt,
-        processingOptions: updatedDocument.processingOptions,
-      });
+      res.json(toDocumentDetails(updatedDocument));
     } catch (error) {
       console.error("Update summary error:", error);
       res.status(500).json({ error: error instanceof Error ? error.message : 'Update summary failed' });
@@ -351,80 +709,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate PDF export
-  app.post("/api/documents/:id/export", requireAuth, async (req, res) => {
+  app.post("/api/documents/:id/export", requireAuth, requireDocumentAccess, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const agentId = req.session.agentId!;
-      const document = await storage.getPolicyDocument(id, agentId);
-      
-      if (!document) {
-        return res.status(404).json({ error: "Document not found" });
-      }
+      const document = req.document!;
 
       if (!document.processed || !document.extractedData) {
         return res.status(400).json({ error: "Document not processed or no data available" });
       }
 
-      // Get agent settings for agent profile information
-      
-      let settings = await storage.getUserSettings(agentId);
-      if (!settings) {
-        settings = await storage.createDefaultSettings(agentId);
+      // The linked client's name beats the agent-wide default client name
+      const client = document.clientId ? await storage.getClient(document.clientId, agentId) : undefined;
+      const options = await buildPDFOptions(agentId, req.body, client?.name || document.clientName);
+      // Without an explicit choice, documents keep the layout of the preset they were processed with
+      const preset = !req.body.template && document.presetId ? await storage.getProcessingPreset(document.presetId, agentId) : undefined;
+      const templateName = req.body.template || preset?.pdfTemplate || undefined;
+      const layout = await resolvePdfTemplate(agentId, templateName);
+      if (!layout) {
+        return res.status(400).json({ error: `Unknown PDF template: ${templateName}` });
       }
-      
-      console.log('[PDF Export] Settings retrieved:', !!settings);
-      console.log('[PDF Export] Agent profile:', settings?.agentProfile ? 'found' : 'not found');
-      if (settings?.agentProfile) {
-        console.log('[PDF Export] Agent profile keys:', Object.keys(settings.agentProfile));
-        console.log('[PDF Export] Has agentImage:', !!(settings.agentProfile as any).agentImage);
-      }
-
-      // Type-safe access to settings with proper casting
-      const exportPrefs = settings.exportPreferences as { 
-        defaultClientName?: string; 
-        defaultPolicyReference?: string; 
-        includeAgentSignature?: boolean; 
-      };
-      const agentProfile = settings.agentProfile as { 
-        name?: string; 
-        title?: string; 
-        phone?: string; 
-        email?: string; 
-        license?: string; 
-        signature?: string; 
-        agentImage?: string; 
-        firmName?: string; 
-        firmAddress?: string; 
-        firmPhone?: string; 
-        firmWebsite?: string; 
-      };
-      
-      const options: any = {
-        clientName: req.body.clientName || exportPrefs?.defaultClientName || '',
-        policyReference: req.body.policyReference || exportPrefs?.defaultPolicyReference || '',
-        clientLogo: req.body.clientLogo || '',
-        includeExplanations: req.body.includeExplanations !== false,
-        includeTechnicalDetails: req.body.includeTechnicalDetails === true,
-        includeBranding: req.body.includeBranding !== false,
-        includeAgentSignature: true,
-        agentProfile: agentProfile && agentProfile.name ? {
-          name: agentProfile.name || '',
-          title: agentProfile.title || '',
-          phone: agentProfile.phone || '',
-          email: agentProfile.email || '',
-          license: agentProfile.license || '',
-          signature: agentProfile.signature || '',
-          agentImage: agentProfile.agentImage || '',
-          firmName: agentProfile.firmName || '',
-          firmAddress: agentProfile.firmAddress || '',
-          firmPhone: agentProfile.firmPhone || '',
-          firmWebsite: agentProfile.firmWebsite || '',
-        } : undefined,
-      };
+      Object.assign(options, layout.options);
+
+      const languageResult = exportLanguageSchema.safeParse(req.body.language);
+      if (!languageResult.success) {
+        return res.status(400).json({ error: "Invalid language", details: languageResult.error.errors });
+      }
+      const language = languageResult.data ?? documentLanguage(document);
 
-      const policyData = document.extractedData as any;
       // Use custom summary if provided, otherwise use document summary
-      const summary = req.body.customSummary || document.summary || '';
+      const usesDocumentSummary = !req.body.customSummary || req.body.customSummary === document.summary;
+      // Only saved summary versions are translated; an unsaved edit would go out in English
+      if (!usesDocumentSummary && language !== 'en') {
+        return res.status(400).json({ error: `Save the edited summary before exporting it in ${SUMMARY_LANGUAGE_LABELS[language]}` });
+      }
+      // An approval covers the document's current summary (and its translations), not other
+      // text sent with the export
+      const approved = isApproved(document.reviewStatus) && usesDocumentSummary;
+      if (layout.clientFacing && !approved && (await getAgentAgency(agentId))?.requireApprovalForExport) {
+        return res.status(409).json({
+          error: "This summary must be approved before it can be exported with a client-facing template",
+          reviewStatus: document.reviewStatus,
+        });
+      }
+      if (approved) {
+        options.approval = await approvalFooter(document);
+      }
+
+      let translation: TranslatedSummary;
+      try {
+        translation = await summaryTranslator.translate(document, language, agentId);
+      } catch (translationError) {
+        console.error("Summary translation error:", translationError);
+        const message = translationError instanceof Error ? translationError.message : String(translationError);
+        return res.status(502).json({ error: `Could not translate the summary to ${SUMMARY_LANGUAGE_LABELS[language]}: ${message}` });
+      }
+      const summary: string = usesDocumentSummary ? translation.summary : req.body.customSummary;
+      // Edits sent with the export are parsed like a saved summary would be
+      const structuredSummary = usesDocumentSummary ? translation.structuredSummary : parseSummaryMarkdown(summary);
+      const policyData = translation.policyData;
+      options.language = language;
+
+      // Gap findings are written in English, so translated exports leave them out
+      if (client && req.body.includeCoverageGaps !== false && language === 'en') {
+        options.coverageGaps = (await coverageGapAnalyzer.analyzeClient(client)).findings;
+      }
 
       // Debug log for agent image
       if (options.agentProfile?.agentImage) {
@@ -433,7 +782,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('[PDF Export] No agent image found');
       }
 
-      const pdfBuffer = await pdfGenerator.generatePolicyPDF(policyData, summary, options);
+      const pdfBuffer = await pdfGenerator.generatePolicyPDF(policyData, structuredSummary, options);
 
       // Track PDF export
       const newCount = (document.pdfExportCount || 0) + 1;
@@ -442,9 +791,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.updatePolicyDocument(id, {
         pdfExportCount: newCount,
         lastExportedAt: new Date(),
+        // Exporting an approved summary for the client completes its review
+        ...(approved && layout.clientFacing ? { reviewStatus: 'delivered' as const, deliveredAt: new Date() } : {}),
       }, agentId);
       
       console.log(`[PDF Export] Document ${id}: export count updated successfully`);
+      await recordAudit(req, 'export', {
+        document,
+        details: {
+          ...auditExportOptions(req.body),
+          template: templateName ?? layout.options.template ?? null,
+          clientFacing: layout.clientFacing,
+          approvedVersion: approved ? document.approvedVersion : null,
+          language,
+          translatedVersion: translation.version?.version ?? null,
+          exportedSummaryHash: hashContent(summary),
+          fileHash: hashContent(pdfBuffer),
+        },
+      });
 
       // Create a simple, short filename
       const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, ''); // YYYYMMDD format
@@ -461,83 +825,617 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // List all documents (agent-specific)
-  app.get("/api/documents", requireAuth, async (req, res) => {
+  // Compare 2-5 processed policies side by side (?ids=1,2,3; the first is the baseline)
+  app.get("/api/comparisons", requireAuth, async (req, res) => {
     try {
       const agentId = req.session.agentId!;
-      const documents = await storage.listPolicyDocuments(agentId);
-      
-      // Prevent caching to ensure fresh data after exports
-      res.set({
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'Pragma': 'no-cache',
-        'Expires': '0'
-      });
-      
-      res.json(documents.map(doc => ({
-        id: doc.id,
-        originalName: doc.originalName,
-        fileSize: doc.fileSize,
-        fileType: doc.fileType,
-        processed: doc.processed,
-        uploadedAt: doc.uploadedAt,
-        hasError: !!doc.processingError,
-        processingError: doc.processingError,
-        pdfExportCount: doc.pdfExportCount || 0,
-        lastExportedAt: doc.lastExportedAt,
-        clientName: doc.clientName,
-        policyReference: doc.policyReference,
-        isFavorite: doc.isFavorite || false,
-        tags: doc.tags || [],
-      })));
+      const result = await loadComparison(agentId, req.query.ids);
+      if (!result.comparison) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.comparison);
     } catch (error) {
-      console.error("List documents error:", error);
-      res.status(500).json({ error: error instanceof Error ? error.message : 'List documents failed' });
+      console.error("Policy comparison error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Policy comparison failed' });
     }
   });
 
-  // Regenerate document summary with different options
-  app.post("/api/documents/:id/regenerate", requireAuth, async (req, res) => {
+  // Export a policy comparison as PDF
+  app.post("/api/comparisons/export", requireAuth, async (req, res) => {
     try {
-      const documentId = parseInt(req.params.id);
       const agentId = req.session.agentId!;
-      const { summaryLength = 'detailed' } = req.body;
-      
-      console.log(`📋 Regenerating summary for document ${documentId} with length: ${summaryLength}`);
-      
-      // Get the existing document
-      const document = await storage.getPolicyDocument(documentId, agentId);
-      
-      if (!document) {
-        return res.status(404).json({ error: "Document not found" });
+      const result = await loadComparison(agentId, req.body.documentIds);
+      if (!result.comparison) {
+        return res.status(result.status).json({ error: result.error });
       }
-      
-      if (!document.extractedData) {
-        return res.status(400).json({ error: "Document has no extracted data to regenerate summary from" });
+
+      const options = await buildPDFOptions(agentId, req.body);
+      const pdfBuffer = await pdfGenerator.generateComparisonPDF(result.comparison, options);
+      const documentIds = result.documents.map(document => document.id);
+      for (const document of result.documents) {
+        await recordAudit(req, 'export_comparison', {
+          document,
+          details: { ...auditExportOptions(req.body), documentIds, fileHash: hashContent(pdfBuffer) },
+        });
       }
-      
-      // Process the document again with new options
-      try {
-        console.log(`🔄 Regenerating ${summaryLength} summary for document ${documentId}`);
-        
-        // Use the existing extracted data and generate new summary
-        const existingData = typeof document.extractedData === 'string' 
-          ? JSON.parse(document.extractedData) 
-          : document.extractedData;
-          
-        const newSummary = await xaiService.generateEnhancedSummary(existingData, '', summaryLength);
-        
-        // Update the document with new summary and processing options
-        const existingOptions = typeof document.processingOptions === 'string' 
-          ? JSON.parse(document.processingOptions || '{}') 
-          : (document.processingOptions || {});
-          
-        const updatedDocument = await storage.updatePolicyDocument(documentId, {
-          summary: newSummary,
-          processingOptions: JSON.stringify({ ...existingOptions, summaryLength })
-        }, agentId);
-        
-        res.json({
+
+      const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, ''); // YYYYMMDD format
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="policy-comparison-${dateStr}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Comparison PDF export error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Comparison PDF export failed' });
+    }
+  });
+
+  // List the agent's clients with how many policies each has
+  app.get("/api/clients", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const [clients, documents] = await Promise.all([
+        storage.listClients(agentId),
+        storage.listPolicyDocuments(agentId),
+      ]);
+
+      res.json(clients.map(client => ({
+        ...client,
+        policyCount: documents.filter(doc => doc.clientId === client.id).length,
+      })));
+    } catch (error) {
+      console.error("List clients error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List clients failed' });
+    }
+  });
+
+  // Create a client and link existing policies whose insured name matches
+  app.post("/api/clients", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const parsed = clientBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid client details", details: parsed.error.errors });
+      }
+
+      const client = await storage.createClient({ ...parsed.data, agentId });
+      const linkedDocuments = await clientPortfolio.linkMatchingDocuments(client);
+      console.log(`👤 Client ${client.id} created for agent ${agentId} (${linkedDocuments} policies linked)`);
+      await recordAudit(req, 'create_client', { details: { clientId: client.id, name: client.name, linkedDocuments } });
+
+      res.status(201).json({ ...client, linkedDocuments });
+    } catch (error) {
+      console.error("Create client error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Create client failed' });
+    }
+  });
+
+  // Client details with every linked policy
+  app.get("/api/clients/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const client = await storage.getClient(parseInt(req.params.id), agentId);
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const documents = await storage.listClientDocuments(client.id);
+      res.json({ ...client, documents: documents.map(toDocumentListItem) });
+    } catch (error) {
+      console.error("Get client error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Get client failed' });
+    }
+  });
+
+  app.put("/api/clients/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const parsed = clientBodySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid client details", details: parsed.error.errors });
+      }
+
+      const client = await storage.updateClient(parseInt(req.params.id), parsed.data, agentId);
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      await recordAudit(req, 'update_client', { details: { clientId: client.id, name: client.name, fields: Object.keys(parsed.data) } });
+      res.json(client);
+    } catch (error) {
+      console.error("Update client error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Update client failed' });
+    }
+  });
+
+  // Delete a client; its policies are kept and simply unlinked
+  app.delete("/api/clients/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const client = await storage.getClient(parseInt(req.params.id), agentId);
+      if (!client || !(await storage.deleteClient(client.id, agentId))) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      await recordAudit(req, 'delete_client', { details: { clientId: client.id, name: client.name } });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete client error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Delete client failed' });
+    }
+  });
+
+  // Consolidated summary across all of a client's policies
+  app.get("/api/clients/:id/portfolio", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const client = await storage.getClient(parseInt(req.params.id), agentId);
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const documents = await storage.listClientDocuments(client.id);
+      res.json(clientPortfolio.buildPortfolioSummary(client, documents));
+    } catch (error) {
+      console.error("Client portfolio error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Client portfolio failed' });
+    }
+  });
+
+  // Coverage gap analysis across all of a client's processed policies
+  app.get("/api/clients/:id/coverage-gaps", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const client = await storage.getClient(parseInt(req.params.id), agentId);
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      res.json(await coverageGapAnalyzer.analyzeClient(client));
+    } catch (error) {
+      console.error("Coverage gap analysis error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Coverage gap analysis failed' });
+    }
+  });
+
+  // Export a client's coverage gap analysis as PDF
+  app.post("/api/clients/:id/coverage-gaps/export", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const client = await storage.getClient(parseInt(req.params.id), agentId);
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const analysis = await coverageGapAnalyzer.analyzeClient(client);
+      const options = await buildPDFOptions(agentId, req.body, client.name);
+      const pdfBuffer = await pdfGenerator.generateGapAnalysisPDF(analysis, options);
+
+      const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, ''); // YYYYMMDD format
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="coverage-gaps-${dateStr}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Coverage gap PDF export error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Coverage gap PDF export failed' });
+    }
+  });
+
+  // Coverage gap analysis for every client with processed policies, most urgent first
+  app.get("/api/coverage-gaps", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const [clients, documents, ruleSets] = await Promise.all([
+        storage.listClients(agentId),
+        storage.listPolicyDocuments(agentId),
+        coverageGapAnalyzer.getRuleSets(agentId),
+      ]);
+
+      const analyses = clients
+        .map(client => coverageGapAnalyzer.analyze(client, documents.filter(doc => doc.clientId === client.id), ruleSets))
+        .filter(analysis => analysis.policiesAnalyzed > 0);
+
+      const highCount = (analysis: { findings: { priority: string }[] }) =>
+        analysis.findings.filter(finding => finding.priority === 'high').length;
+      analyses.sort((a, b) => highCount(b) - highCount(a) || b.findings.length - a.findings.length);
+
+      res.json(analyses);
+    } catch (error) {
+      console.error("Coverage gap overview error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Coverage gap overview failed' });
+    }
+  });
+
+  // The rule sets gap analysis uses for this agent (saved via PUT /api/settings gapAnalysisRules)
+  app.get("/api/coverage-gaps/rules", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const ruleSets = await coverageGapAnalyzer.getRuleSets(agentId);
+      res.json({ ruleSets, isDefault: ruleSets === DEFAULT_GAP_RULE_SETS, defaults: DEFAULT_GAP_RULE_SETS });
+    } catch (error) {
+      console.error("Coverage gap rules error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Loading coverage gap rules failed' });
+    }
+  });
+
+  // Policies expiring in the next 30/60/90 days, soonest first
+  app.get("/api/renewals", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      res.json(await renewalTracker.overview(agentId));
+    } catch (error) {
+      console.error("Renewals overview error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Loading renewals failed' });
+    }
+  });
+
+  // The agent's private calendar feed URL, created on first request
+  app.get("/api/renewals/calendar", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      let agent = await storage.getAgent(agentId);
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+      if (!agent.calendarToken) {
+        agent = await storage.setCalendarToken(agentId, newCalendarToken());
+      }
+
+      res.json({ url: calendarFeedUrl(req, agent!.calendarToken!) });
+    } catch (error) {
+      console.error("Calendar feed error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Loading calendar feed failed' });
+    }
+  });
+
+  // Replace the calendar feed URL so anyone holding the old one loses access
+  app.post("/api/renewals/calendar/reset", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const agent = await storage.setCalendarToken(agentId, newCalendarToken());
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+
+      res.json({ url: calendarFeedUrl(req, agent.calendarToken!) });
+    } catch (error) {
+      console.error("Calendar feed reset error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Resetting calendar feed failed' });
+    }
+  });
+
+  // iCalendar feed of policy expirations. Calendar apps cannot log in, so the
+  // unguessable token in the URL is the only credential.
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const agent = await storage.getAgentByCalendarToken(req.params.token);
+      if (!agent) {
+        return res.status(404).json({ error: "Calendar not found" });
+      }
+
+      const appUrl = `${req.protocol}://${req.get('host')}`;
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="policy-renewals.ics"');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(await renewalTracker.calendar(agent, appUrl));
+    } catch (error) {
+      console.error("Calendar feed error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Calendar feed failed' });
+    }
+  });
+
+  // The agent's latest notifications and how many are unread
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const [notifications, unread] = await Promise.all([
+        storage.listNotifications(agentId, NOTIFICATION_FEED_LIMIT),
+        storage.countUnreadNotifications(agentId),
+      ]);
+      res.json({ notifications, unread });
+    } catch (error) {
+      console.error("List notifications error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Loading notifications failed' });
+    }
+  });
+
+  // Mark the given notifications read, or all of them when no ids are sent
+  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const result = markNotificationsReadBodySchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid notification ids", details: result.error.errors });
+      }
+
+      const updated = await storage.markNotificationsRead(agentId, result.data.ids);
+      res.json({ updated, unread: await storage.countUnreadNotifications(agentId) });
+    } catch (error) {
+      console.error("Mark notifications read error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Marking notifications read failed' });
+    }
+  });
+
+  // Built-in layouts plus the templates uploaded in the agent's agency, for the export selector
+  app.get("/api/pdf-templates", requireAuth, async (req, res) => {
+    try {
+      const { agentId, role } = req.access!;
+      const customTemplates = await storage.listPdfTemplates(agentId);
+      const templates: PdfTemplateOption[] = [
+        ...listPdfTemplates().map(({ name, label, description, clientFacing }) => ({ name, label, description, clientFacing, custom: false })),
+        // Mirrors the storage rule for who may change or delete a template
+        ...customTemplates.map(template => toPdfTemplateOption(template, template.agentId === agentId || AGENCY_MANAGER_ROLES.includes(role))),
+      ];
+
+      res.json({ templates, fields: CUSTOM_TEMPLATE_FIELDS });
+    } catch (error) {
+      console.error("List PDF templates error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List PDF templates failed' });
+    }
+  });
+
+  app.get("/api/pdf-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const template = await storage.getPdfTemplate(parseInt(req.params.id), agentId);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      console.error("Get PDF template error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Get PDF template failed' });
+    }
+  });
+
+  // Upload a custom template; placeholders are checked before it is saved
+  app.post("/api/pdf-templates", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const parsed = pdfTemplateBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid template", details: parsed.error.errors });
+      }
+
+      const templateError = validateCustomTemplate(parsed.data.html);
+      if (templateError) {
+        return res.status(400).json({ error: `Template error: ${templateError}` });
+      }
+
+      const template = await storage.createPdfTemplate({ ...parsed.data, agentId });
+      console.log(`🎨 PDF template ${template.id} uploaded by agent ${agentId}`);
+      await recordAudit(req, 'create_pdf_template', { details: { templateId: template.id, name: template.name } });
+      res.status(201).json(toPdfTemplateOption(template));
+    } catch (error) {
+      console.error("Create PDF template error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Create PDF template failed' });
+    }
+  });
+
+  app.put("/api/pdf-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const parsed = pdfTemplateBodySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid template", details: parsed.error.errors });
+      }
+
+      const templateError = parsed.data.html !== undefined ? validateCustomTemplate(parsed.data.html) : null;
+      if (templateError) {
+        return res.status(400).json({ error: `Template error: ${templateError}` });
+      }
+
+      const template = await storage.updatePdfTemplate(parseInt(req.params.id), parsed.data, agentId);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      await recordAudit(req, 'update_pdf_template', { details: { templateId: template.id, name: template.name, fields: Object.keys(parsed.data) } });
+      res.json(toPdfTemplateOption(template));
+    } catch (error) {
+      console.error("Update PDF template error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Update PDF template failed' });
+    }
+  });
+
+  app.delete("/api/pdf-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const template = await storage.getPdfTemplate(parseInt(req.params.id), agentId);
+      if (!template || !(await storage.deletePdfTemplate(template.id, agentId))) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      await recordAudit(req, 'delete_pdf_template', { details: { templateId: template.id, name: template.name } });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete PDF template error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Delete PDF template failed' });
+    }
+  });
+
+  // The agent's own presets plus presets shared by other members of their agency
+  app.get("/api/processing-presets", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const presets = await storage.listProcessingPresets(agentId);
+      res.json(presets.map(preset => ({ ...preset, owned: preset.agentId === agentId })));
+    } catch (error) {
+      console.error("List processing presets error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List processing presets failed' });
+    }
+  });
+
+  app.post("/api/processing-presets", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const parsed = processingPresetBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid preset", details: parsed.error.errors });
+      }
+      const { options: requested, ...fields } = parsed.data;
+      const checked = await checkPresetChoices(agentId, requested, fields.pdfTemplate);
+      if (!checked.success) {
+        return res.status(400).json({ error: checked.error, details: checked.details });
+      }
+
+      const preset = await storage.createProcessingPreset({ ...fields, options: checked.options, agentId });
+      console.log(`🧩 Processing preset ${preset.id} "${preset.name}" saved by agent ${agentId}${preset.shared ? ' (shared)' : ''}`);
+      await recordAudit(req, 'create_preset', { details: { presetId: preset.id, name: preset.name, shared: preset.shared } });
+      res.status(201).json({ ...preset, owned: true });
+    } catch (error) {
+      console.error("Create processing preset error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Create processing preset failed' });
+    }
+  });
+
+  // Only the agent who created a preset, or an admin of their agency, may change or delete it
+  app.put("/api/processing-presets/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const existing = await storage.getProcessingPreset(parseInt(req.params.id), agentId);
+      if (!existing) {
+        return res.status(404).json({ error: "Processing preset not found" });
+      }
+
+      const parsed = processingPresetBodySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid preset", details: parsed.error.errors });
+      }
+      const { options: requested, ...fields } = parsed.data;
+      const checked = await checkPresetChoices(agentId, requested, fields.pdfTemplate, existing.options);
+      if (!checked.success) {
+        return res.status(400).json({ error: checked.error, details: checked.details });
+      }
+
+      const preset = await storage.updateProcessingPreset(existing.id, { ...fields, options: checked.options }, agentId);
+      if (!preset) {
+        return res.status(403).json({ error: "Only the agent who created this preset or an agency admin can change it" });
+      }
+      await recordAudit(req, 'update_preset', { details: { presetId: preset.id, name: preset.name, shared: preset.shared, fields: Object.keys(parsed.data) } });
+      res.json({ ...preset, owned: preset.agentId === agentId });
+    } catch (error) {
+      console.error("Update processing preset error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Update processing preset failed' });
+    }
+  });
+
+  app.delete("/api/processing-presets/:id", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const existing = await storage.getProcessingPreset(parseInt(req.params.id), agentId);
+      if (!existing) {
+        return res.status(404).json({ error: "Processing preset not found" });
+      }
+
+      const deleted = await storage.deleteProcessingPreset(existing.id, agentId);
+      if (!deleted) {
+        return res.status(403).json({ error: "Only the agent who created this preset or an agency admin can delete it" });
+      }
+      await recordAudit(req, 'delete_preset', { details: { presetId: existing.id, name: existing.name } });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete processing preset error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Delete processing preset failed' });
+    }
+  });
+
+  // Link a document to a client, or unlink it with { clientId: null }
+  app.put("/api/documents/:id/client", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const documentId = parseInt(req.params.id);
+
+      const clientId = req.body?.clientId;
+      if (clientId === null) {
+        const updated = await storage.updatePolicyDocument(documentId, { clientId: null }, agentId);
+        await recordAudit(req, 'link_client', { document: req.document!, details: { clientId: null, previousClientId: req.document!.clientId } });
+        return res.json(toDocumentListItem(updated!));
+      }
+
+      const client = typeof clientId === 'number' ? await storage.getClient(clientId, agentId) : undefined;
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const updated = await clientPortfolio.linkDocument(documentId, client);
+      await recordAudit(req, 'link_client', {
+        document: req.document!,
+        details: { clientId: client.id, clientName: client.name, previousClientId: req.document!.clientId },
+      });
+      res.json(toDocumentListItem(updated!));
+    } catch (error) {
+      console.error("Link document error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Link document failed' });
+    }
+  });
+
+  // List all documents (agent-specific)
+  app.get("/api/documents", requireAuth, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const documents = await storage.listPolicyDocuments(agentId);
+      
+      // Prevent caching to ensure fresh data after exports
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      res.json(documents.map(toDocumentListItem));
+    } catch (error) {
+      console.error("List documents error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List documents failed' });
+    }
+  });
+
+  // Regenerate document summary with different options
+  app.post("/api/documents/:id/regenerate", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const agentId = req.session.agentId!;
+      // Older clients send only { summaryLength }
+      const requestedOptions = req.body?.options ?? (req.body?.summaryLength ? { summaryLength: req.body.summaryLength } : {});
+      
+      // Get the existing document
+      const document = req.document!;
+      
+      if (!document.extractedData) {
+        return res.status(400).json({ error: "Document has no extracted data to regenerate summary from" });
+      }
+
+      const optionsResult = await resolveProcessingOptions(agentId, requestedOptions, document.processingOptions);
+      if (!optionsResult.success) {
+        return res.status(400).json({ error: "Invalid processing options", details: optionsResult.error.errors });
+      }
+      const options = optionsResult.data;
+      
+      // Process the document again with new options
+      try {
+        console.log(`🔄 Regenerating ${options.summaryLength} ${options.detailLevel} summary for document ${documentId}`);
+        
+        // Use the existing extracted data and generate new summary
+        const existingData = typeof document.extractedData === 'string' 
+          ? JSON.parse(document.extractedData) 
+          : document.extractedData;
+          
+        const agency = await getAgentAgency(agentId);
+        const newSummary = await getLLMProvider().generateEnhancedSummary(existingData, '', options, {
+          firm: firmContact(agency?.branding as Partial<AgencyBranding> | undefined),
+        });
+        
+        // Update the document with new summary and processing options
+        const updatedDocument = await saveSummaryVersion(document, agentId, newSummary, {
+          source: 'regeneration',
+          processingOptions: options,
+        });
+        await recordAudit(req, 'regenerate_summary', { document, summaryAfter: updatedDocument?.summary ?? newSummary, details: { options } });
+        if (updatedDocument) {
+          await summaryTranslator.prepare(updatedDocument, options.language, agentId);
+        }
+        
+        res.json({
           success: true,
           document: updatedDocument
         });
@@ -546,97 +1444,790 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Error regenerating summary:", processingError);
         res.status(500).json({ error: "Failed to regenerate summary" });
       }
-      
+      
+    } catch (error) {
+      console.error("Error in regenerate endpoint:", error);
+      res.status(500).json({ error: "Failed to regenerate document summary" });
+    }
+  });
+
+  // Delete document
+  app.delete("/api/documents/:id", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const agentId = req.session.agentId!;
+      const document = req.document!;
+      const deleted = await storage.deletePolicyDocument(id, agentId);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      await recordAudit(req, 'delete', { document, summaryAfter: null });
+
+      if (document.storageKey) {
+        await fileStorage.delete(document.storageKey).catch(error =>
+          console.warn(`Failed to delete stored original for document ${id}:`, error)
+        );
+      }
+
+      res.json({ message: "Document deleted successfully" });
+    } catch (error) {
+      console.error("Delete document error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Delete document failed' });
+    }
+  });
+
+  // Everything done to a document, newest first
+  app.get("/api/documents/:id/activity", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const events = await storage.listDocumentAuditEvents(req.document!.id);
+      res.json(events.map(toActivityItem));
+    } catch (error) {
+      console.error("Get document activity error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Get document activity failed' });
+    }
+  });
+
+  // Get summary history for a document
+  app.get("/api/documents/:id/summary-history", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const history = await storage.getSummaryHistory(documentId);
+      const authors = await loadAgentNames(history.map(h => h.authorId));
+
+      res.json(history.map(h => ({
+        id: h.id,
+        documentId: h.documentId,
+        versionNumber: h.version,
+        summary: h.summary,
+        generatedAt: h.createdAt,
+        isActive: h.isActive,
+        source: h.source,
+        authorId: h.authorId,
+        generatedBy: h.authorId ? authors.get(h.authorId) ?? 'Former agent' : 'Automated processing',
+        restoredFromVersion: h.restoredFromVersion,
+        language: h.language,
+        translatedFromVersion: h.translatedFromVersion,
+        processingOptions: h.processingOptions
+      })));
+    } catch (error) {
+      console.error("Get summary history error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Get summary history failed' });
+    }
+  });
+
+  // Restore an earlier summary: it becomes the document's summary again as a new version
+  app.post("/api/documents/:id/summary-history/:versionId/restore", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const agentId = req.session.agentId!;
+      const document = req.document!;
+      const version = await storage.getSummaryVersion(document.id, parseInt(req.params.versionId));
+      
+      if (!version) {
+        return res.status(404).json({ error: "Summary version not found" });
+      }
+      if (version.isActive) {
+        return res.status(409).json({ error: "This version is already the current summary" });
+      }
+      if (version.source === 'translation') {
+        return res.status(409).json({ error: "Translations are only used for exports; restore the version it was translated from instead" });
+      }
+
+      const updatedDocument = await saveSummaryVersion(document, agentId, version.summary, {
+        source: 'restore',
+        restoredFromVersion: version.version,
+        processingOptions: version.processingOptions as ProcessingOptions,
+      });
+      if (!updatedDocument) {
+        return res.status(500).json({ error: "Failed to restore summary version" });
+      }
+      await recordAudit(req, 'restore_summary', {
+        document,
+        summaryAfter: version.summary,
+        details: { restoredFromVersion: version.version },
+      });
+
+      res.json(toDocumentDetails(updatedDocument));
+    } catch (error) {
+      console.error("Restore summary version error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Restore summary version failed' });
+    }
+  });
+
+  // Delete summary version
+  app.delete("/api/documents/:id/summary-history/:versionId", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const version = await storage.getSummaryVersion(documentId, parseInt(req.params.versionId));
+      
+      if (!version) {
+        return res.status(404).json({ error: "Summary version not found" });
+      }
+      if (version.isActive) {
+        return res.status(409).json({ error: "The current summary version cannot be deleted" });
+      }
+
+      await storage.deleteSummaryVersion(documentId, version.id);
+      await recordAudit(req, 'delete_summary_version', {
+        document: req.document!,
+        details: { version: version.version, versionHash: hashContent(version.summary) },
+      });
+      res.json({ message: "Summary version deleted successfully" });
+    } catch (error) {
+      console.error("Delete summary version error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Delete summary version failed' });
+    }
+  });
+
+  // Review status, approval and comments for a document's summary
+  app.get("/api/documents/:id/review", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      res.json(await loadReview(req.document!, req.access!));
+    } catch (error) {
+      console.error("Get review error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Get review failed' });
+    }
+  });
+
+  // Send a draft (or a summary with requested changes) to reviewers
+  app.post("/api/documents/:id/review/submit", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+      if (!document.processed || !document.summary) {
+        return res.status(400).json({ error: "Only processed documents with a summary can be submitted for review" });
+      }
+      if (document.reviewStatus !== 'draft' && document.reviewStatus !== 'changes_requested') {
+        return res.status(409).json({ error: `Summary is already ${REVIEW_STATUS_LABELS[document.reviewStatus]}` });
+      }
+      const parsed = z.object({ comment: z.string().trim().max(5000).optional() }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review comment", details: parsed.error.errors });
+      }
+
+      const updated = await storage.updatePolicyDocument(document.id, { reviewStatus: 'in_review' }, req.access!.agentId);
+      if (parsed.data.comment) {
+        await addReviewComment(document.id, req.access!.agentId, { body: parsed.data.comment });
+      }
+      await recordAudit(req, 'submit_review', { document });
+      res.json(await loadReview(updated!, req.access!));
+    } catch (error) {
+      console.error("Submit for review error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Submit for review failed' });
+    }
+  });
+
+  // Comment on the summary or one of its sections
+  app.post("/api/documents/:id/review/comments", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const parsed = reviewCommentBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review comment", details: parsed.error.errors });
+      }
+
+      await addReviewComment(req.document!.id, req.access!.agentId, parsed.data);
+      await recordAudit(req, 'comment', { document: req.document!, details: { section: parsed.data.section ?? null } });
+      res.status(201).json(await loadReview(req.document!, req.access!));
+    } catch (error) {
+      console.error("Add review comment error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Add review comment failed' });
+    }
+  });
+
+  // Mark a comment as addressed (or reopen it)
+  app.patch("/api/documents/:id/review/comments/:commentId", requireAuth, requireReviewAccess, async (req, res) => {
+    try {
+      const parsed = z.object({ resolved: z.boolean() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review comment", details: parsed.error.errors });
+      }
+
+      const comment = await storage.updateReviewComment(req.document!.id, parseInt(req.params.commentId), parsed.data);
+      if (!comment) {
+        return res.status(404).json({ error: "Review comment not found" });
+      }
+      await recordAudit(req, 'resolve_comment', { document: req.document!, details: { commentId: comment.id, resolved: comment.resolved } });
+      res.json(await loadReview(req.document!, req.access!));
+    } catch (error) {
+      console.error("Update review comment error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Update review comment failed' });
+    }
+  });
+
+  // Approve the summary in review as it stands; changing it afterwards needs a new approval
+  app.post("/api/documents/:id/review/approve", requireAuth, requireReviewer, requireReviewAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+      const agentId = req.access!.agentId;
+      const refusal = reviewDecisionRefusal(document, agentId);
+      if (refusal) {
+        return res.status(refusal.status).json({ error: refusal.error });
+      }
+      const parsed = reviewDecisionBodySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review comment", details: parsed.error.errors });
+      }
+
+      const active = await storage.getActiveSummary(document.id);
+      const updated = await storage.updatePolicyDocument(document.id, {
+        reviewStatus: 'approved',
+        approvedById: agentId,
+        approvedAt: new Date(),
+        approvedVersion: active?.version ?? null,
+      });
+      await addReviewComment(document.id, agentId, { ...parsed.data, body: parsed.data.comment || 'Approved' }, 'approved');
+      await recordAudit(req, 'approve', { document, details: { approvedVersion: active?.version ?? null } });
+      console.log(`✅ Summary for document ${document.id} approved by agent ${agentId}`);
+      res.json(await loadReview(updated!, req.access!));
+    } catch (error) {
+      console.error("Approve summary error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Approve summary failed' });
+    }
+  });
+
+  // Send the summary back to its agent with what needs to change
+  app.post("/api/documents/:id/review/reject", requireAuth, requireReviewer, requireReviewAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+      const agentId = req.access!.agentId;
+      const refusal = reviewDecisionRefusal(document, agentId);
+      if (refusal) {
+        return res.status(refusal.status).json({ error: refusal.error });
+      }
+      const parsed = reviewDecisionBodySchema.extend({
+        comment: z.string().trim().min(1, "Explain what needs to change").max(5000),
+      }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review comment", details: parsed.error.errors });
+      }
+
+      const updated = await storage.updatePolicyDocument(document.id, { reviewStatus: 'changes_requested' });
+      await addReviewComment(document.id, agentId, { ...parsed.data, body: parsed.data.comment }, 'changes_requested');
+      await recordAudit(req, 'request_changes', { document, details: { section: parsed.data.section ?? null } });
+      res.json(await loadReview(updated!, req.access!));
+    } catch (error) {
+      console.error("Reject summary error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Reject summary failed' });
+    }
+  });
+
+  // Share links to a web version of the summary, newest first
+  app.get("/api/documents/:id/share-links", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const links = await storage.listShareLinks(req.document!.id);
+      res.json(links.map(link => toShareLinkItem(req, link)));
+    } catch (error) {
+      console.error("List share links error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Loading share links failed' });
+    }
+  });
+
+  // Create an expiring link the client can open without signing in
+  app.post("/api/documents/:id/share-links", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+      const agentId = req.access!.agentId;
+      const parsed = shareLinkBodySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid share link", details: parsed.error.errors });
+      }
+      if (!document.processed || !document.extractedData || !document.summary) {
+        return res.status(400).json({ error: "Document not processed or no summary available" });
+      }
+      // A share link is as client-facing as it gets
+      if (!isApproved(document.reviewStatus) && (await getAgentAgency(agentId))?.requireApprovalForExport) {
+        return res.status(409).json({
+          error: "This summary must be approved before it can be shared with a client",
+          reviewStatus: document.reviewStatus,
+        });
+      }
+
+      const { label, expiresInDays } = parsed.data;
+      const link = await storage.createShareLink({
+        documentId: document.id,
+        createdBy: agentId,
+        token: newShareToken(),
+        label: label || null,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+      await recordAudit(req, 'share', { document, details: { shareLinkId: link.id, label: link.label, expiresAt: link.expiresAt } });
+      // The public page only shows stored translations
+      await summaryTranslator.prepare(document, documentLanguage(document), agentId);
+
+      console.log(`🔗 Share link ${link.id} created for document ${document.id}`);
+      res.status(201).json(toShareLinkItem(req, link));
+    } catch (error) {
+      console.error("Create share link error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Creating share link failed' });
+    }
+  });
+
+  // Stop a share link from working; revoked links stay listed with their view counts
+  app.post("/api/documents/:id/share-links/:linkId/revoke", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+      const link = await storage.revokeShareLink(document.id, parseInt(req.params.linkId));
+      if (!link) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+      await recordAudit(req, 'revoke_share', { document, details: { shareLinkId: link.id, label: link.label } });
+
+      res.json(toShareLinkItem(req, link));
+    } catch (error) {
+      console.error("Revoke share link error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Revoking share link failed' });
+    }
+  });
+
+  // Public, read-only web summary behind a share link. Clients do not have
+  // accounts, so the token in the URL is the only credential.
+  app.get("/api/share/:token", async (req, res) => {
+    try {
+      setShareHeaders(res);
+      const limit = sharedSummaryViews.take(req.ip || 'unknown');
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+        return res.status(429).json({ error: "Too many requests. Please try again in a minute." });
+      }
+
+      const shared = await loadSharedDocument(req.params.token);
+      if (!shared.document) {
+        return res.status(shared.status).json({ error: shared.error });
+      }
+
+      const { link, document } = shared;
+      await trackShareAccess(req, link, 'view');
+      const options = await buildPDFOptions(link.createdBy, {}, await documentClientName(document, link.createdBy));
+      // The same language as the PDF behind the page's download button
+      res.json(toSharedSummary(link, document, await sharedTranslation(document), options));
+    } catch (error) {
+      console.error("Shared summary error:", error);
+      res.status(500).json({ error: 'Loading shared summary failed' });
+    }
+  });
+
+  // The same summary as a PDF, laid out as the sharing agent would export it.
+  // Rendered once per link and summary version, and limited per client address.
+  app.get("/api/share/:token/pdf", async (req, res) => {
+    try {
+      setShareHeaders(res);
+      const limit = sharedPdfDownloads.take(req.ip || 'unknown');
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+        return res.status(429).json({ error: "Too many downloads. Please try again in a minute." });
+      }
+
+      const shared = await loadSharedDocument(req.params.token);
+      if (!shared.document) {
+        return res.status(shared.status).json({ error: shared.error });
+      }
+
+      const { link, document } = shared;
+      const translation = await sharedTranslation(document);
+      const pdfBuffer = await sharedPdfCache.get(sharedPdfKey(link, document, translation), () => renderClientPDF(document, link.createdBy, translation));
+      await trackShareAccess(req, link, 'download');
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="policy-summary-${document.id}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Shared PDF error:", error);
+      res.status(500).json({ error: 'Shared PDF download failed' });
+    }
+  });
+
+  // Whether summaries can be emailed, and the address they are sent from
+  app.get("/api/email/status", requireAuth, async (req, res) => {
+    res.json({ configured: !!mailer, from: mailer?.from ?? null });
+  });
+
+  // The agent's email template filled in for this document, to edit before sending
+  app.get("/api/documents/:id/email/draft", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+      const agentId = req.access!.agentId;
+      if (!document.processed || !document.extractedData) {
+        return res.status(400).json({ error: "Document not processed or no data available" });
+      }
+
+      const client = document.clientId ? await storage.getClient(document.clientId, agentId) : undefined;
+      const options = await buildPDFOptions(agentId, {}, client?.name || document.clientName);
+      const settings = await storage.getUserSettings(agentId);
+      const template = emailTemplateFor(settings?.emailTemplate);
+      const values = emailTemplateValues(document.extractedData as PolicyData, options.clientName, options.agentProfile);
+
+      res.json({
+        to: client?.email ? [client.email] : [],
+        subject: fillEmailTemplate(template.subject, values),
+        message: fillEmailTemplate(template.body, values),
+      });
+    } catch (error) {
+      console.error("Email draft error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Preparing email failed' });
+    }
+  });
+
+  // Email the summary to the client, as a PDF attachment or a share link, and log the delivery
+  app.post("/api/documents/:id/email", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const document = req.document!;
+      const agentId = req.access!.agentId;
+      if (!mailer) {
+        return res.status(503).json({ error: "Email is not configured on this server" });
+      }
+      const parsed = sendSummaryEmailBodySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid email", details: parsed.error.errors });
+      }
+      if (!document.processed || !document.extractedData || !document.summary) {
+        return res.status(400).json({ error: "Document not processed or no summary available" });
+      }
+      const approved = isApproved(document.reviewStatus);
+      if (!approved && (await getAgentAgency(agentId))?.requireApprovalForExport) {
+        return res.status(409).json({
+          error: "This summary must be approved before it can be emailed to a client",
+          reviewStatus: document.reviewStatus,
+        });
+      }
+
+      const { to, cc, method, expiresInDays } = parsed.data;
+      const options = await buildPDFOptions(agentId, {}, await documentClientName(document, agentId));
+      const values = emailTemplateValues(document.extractedData as PolicyData, options.clientName, options.agentProfile);
+      const shareLink = method === 'link'
+        ? await storage.createShareLink({
+          documentId: document.id,
+          createdBy: agentId,
+          token: newShareToken(),
+          label: to.join(', ').slice(0, 200),
+          expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        })
+        : undefined;
+      const language = documentLanguage(document);
+      let attachments: { filename: string; contentType: string; content: Buffer }[] = [];
+      const attachmentName = 'policy-summary.pdf';
+      if (method === 'attachment') {
+        let translation: TranslatedSummary;
+        try {
+          translation = await summaryTranslator.translate(document, language, agentId);
+        } catch (translationError) {
+          console.error("Summary translation error:", translationError);
+          const message = translationError instanceof Error ? translationError.message : String(translationError);
+          return res.status(502).json({ error: `Could not translate the summary to ${SUMMARY_LANGUAGE_LABELS[language]}: ${message}` });
+        }
+        attachments = [{ filename: attachmentName, contentType: 'application/pdf', content: await renderClientPDF(document, agentId, translation) }];
+      } else {
+        // The public page only shows stored translations
+        await summaryTranslator.prepare(document, language, agentId);
+      }
+      const content = composeSummaryEmail({
+        subject: fillEmailTemplate(parsed.data.subject, values),
+        message: fillEmailTemplate(parsed.data.message, values),
+        agentProfile: options.agentProfile,
+        shareLink: shareLink && { url: shareLinkUrl(req, shareLink), expiresAt: shareLink.expiresAt },
+        attachmentName: method === 'attachment' ? attachmentName : undefined,
+      });
+
+      const agent = await storage.getAgent(agentId);
+      const senders = new Map([[agentId, agent?.fullName ?? '']]);
+      const logged = { documentId: document.id, agentId, recipients: to, cc, subject: content.subject, method, shareLinkId: shareLink?.id ?? null };
+      let delivery;
+      try {
+        const sent = await mailer.send({
+          fromName: options.agentProfile?.name || agent?.fullName,
+          replyTo: options.agentProfile?.email || agent?.email,
+          to,
+          cc,
+          ...content,
+          attachments,
+        });
+        delivery = await storage.createEmailDelivery({ ...logged, status: 'sent', messageId: sent.messageId });
+      } catch (error) {
+        // Nobody received the link, so it should not keep working
+        if (shareLink) await storage.revokeShareLink(document.id, shareLink.id);
+        const message = error instanceof Error ? error.message : String(error);
+        delivery = await storage.createEmailDelivery({ ...logged, shareLinkId: null, status: 'failed', error: message });
+        await recordAudit(req, 'email', { document, details: { deliveryId: delivery.id, to, cc, method, status: 'failed' } });
+        console.error(`📧 Email of document ${document.id} failed:`, message);
+        return res.status(502).json({ error: `Email could not be sent: ${message}`, delivery: toEmailDeliveryItem(delivery, senders) });
+      }
+
+      if (shareLink) {
+        await recordAudit(req, 'share', { document, details: { shareLinkId: shareLink.id, label: shareLink.label, expiresAt: shareLink.expiresAt } });
+      }
+      await recordAudit(req, 'email', {
+        document,
+        details: { deliveryId: delivery.id, to, cc, method, status: 'sent', shareLinkId: shareLink?.id ?? null, exportedSummaryHash: hashContent(document.summary) },
+      });
+      // Sending an approved summary to the client completes its review, as a client-facing export does
+      if (approved) {
+        await storage.updatePolicyDocument(document.id, { reviewStatus: 'delivered', deliveredAt: new Date() }, agentId);
+      }
+
+      console.log(`📧 Document ${document.id} emailed to ${to.length + cc.length} recipient(s) by ${method}`);
+      res.status(201).json(toEmailDeliveryItem(delivery, senders));
+    } catch (error) {
+      console.error("Email summary error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Emailing summary failed' });
+    }
+  });
+
+  // Emails sent for the document, newest first
+  app.get("/api/documents/:id/email-deliveries", requireAuth, requireDocumentAccess, async (req, res) => {
+    try {
+      const deliveries = await storage.listEmailDeliveries(req.document!.id);
+      const senders = await loadAgentNames(deliveries.map(delivery => delivery.agentId));
+      res.json(deliveries.map(delivery => toEmailDeliveryItem(delivery, senders)));
+    } catch (error) {
+      console.error("List email deliveries error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Loading email deliveries failed' });
+    }
+  });
+
+
+
+  // The signed-in agent's agency, with their role
+  app.get("/api/agency", requireAuth, async (req, res) => {
+    try {
+      const { agencyId, role } = req.access!;
+      const agency = agencyId ? await storage.getAgency(agencyId) : undefined;
+      if (!agency) {
+        return res.status(404).json({ error: "Agency not found" });
+      }
+
+      res.json({ ...agency, role, canManage: AGENCY_MANAGER_ROLES.includes(role), canReview: AGENCY_REVIEWER_ROLES.includes(role) });
+    } catch (error) {
+      console.error("Get agency error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Get agency failed' });
+    }
+  });
+
+  // Agency name, shared branding and default processing options
+  app.put("/api/agency", requireAuth, requireAgencyManager, async (req, res) => {
+    try {
+      const parsed = insertAgencySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid agency details", details: parsed.error.errors });
+      }
+
+      const updates = parsed.data;
+      if (updates.defaultProcessingOptions !== undefined) {
+        const optionsResult = validateRequestedOptions(updates.defaultProcessingOptions);
+        if (!optionsResult.success) {
+          return res.status(400).json({ error: "Invalid default processing options", details: optionsResult.error.errors });
+        }
+        updates.defaultProcessingOptions = optionsResult.data;
+      }
+
+      const agency = await storage.updateAgency(req.access!.agencyId!, updates);
+      await recordAudit(req, 'update_agency', {
+        details: {
+          fields: Object.keys(updates),
+          ...(updates.requireApprovalForExport !== undefined && { requireApprovalForExport: updates.requireApprovalForExport }),
+        },
+      });
+      res.json(agency);
+    } catch (error) {
+      console.error("Update agency error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Update agency failed' });
+    }
+  });
+
+  app.get("/api/agency/members", requireAuth, async (req, res) => {
+    try {
+      const { agentId, agencyId } = req.access!;
+      const members = agencyId ? await storage.listAgencyMembers(agencyId) : [await storage.getAgent(agentId)];
+      res.json(members.filter((member): member is Agent => !!member).map(toAgentSummary));
+    } catch (error) {
+      console.error("List agency members error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List agency members failed' });
+    }
+  });
+
+  // Create an account for a colleague; they sign in with the username and password given here
+  app.post("/api/agency/members", requireAuth, requireAgencyManager, async (req, res) => {
+    try {
+      const { agencyId, role: actorRole } = req.access!;
+      const parsed = agencyMemberBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid member details", details: parsed.error.errors });
+      }
+      if (!canAssignRole(actorRole, parsed.data.role)) {
+        return res.status(403).json({ error: "Only an agency owner can add owners or admins" });
+      }
+      if (await storage.getAgentByUsername(parsed.data.username)) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+
+      const member = await storage.createAgent({
+        ...parsed.data,
+        password: await bcrypt.hash(parsed.data.password, 10),
+        agencyId,
+      });
+      const agency = await storage.getAgency(agencyId!);
+      await storage.createDefaultSettings(member.id, {
+        agentProfile: newAgentProfile(member, agency?.branding as Partial<AgencyBranding> | undefined),
+        defaultProcessingOptions: {},
+      });
+
+      await recordAudit(req, 'add_member', { details: { memberId: member.id, username: member.username, name: member.fullName, role: member.role } });
+      console.log(`👥 Agent ${member.id} (${member.username}) added to agency ${agencyId} as ${member.role}`);
+      res.status(201).json(toAgentSummary(member));
     } catch (error) {
-      console.error("Error in regenerate endpoint:", error);
-      res.status(500).json({ error: "Failed to regenerate document summary" });
+      console.error("Add agency member error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Add agency member failed' });
     }
   });
 
-  // Delete document
-  app.delete("/api/documents/:id", requireAuth, async (req, res) => {
+  app.put("/api/agency/members/:id", requireAuth, requireAgencyManager, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const agentId = req.session.agentId!;
-      const deleted = await storage.deletePolicyDocument(id, agentId);
-      
-      if (!deleted) {
-        return res.status(404).json({ error: "Document not found or access denied" });
+      const { agencyId, role: actorRole } = req.access!;
+      const member = await storage.getAgent(parseInt(req.params.id));
+      if (!member || member.agencyId !== agencyId) {
+        return res.status(404).json({ error: "Agency member not found" });
       }
 
-      res.json({ message: "Document deleted successfully" });
+      const parsed = z.object({ role: z.enum(AGENCY_ROLES) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid role", details: parsed.error.errors });
+      }
+      if (!canAssignRole(actorRole, parsed.data.role, member.role)) {
+        return res.status(403).json({ error: "Only an agency owner can change owners or admins" });
+      }
+      if (await isLastOwner(member) && parsed.data.role !== 'owner') {
+        return res.status(400).json({ error: "An agency needs at least one owner" });
+      }
+
+      const updated = await storage.updateAgent(member.id, { role: parsed.data.role });
+      await recordAudit(req, 'change_member_role', {
+        details: { memberId: member.id, username: member.username, name: member.fullName, fromRole: member.role, toRole: parsed.data.role },
+      });
+      console.log(`👥 Agent ${member.id} is now ${parsed.data.role} of agency ${agencyId}`);
+      res.json(toAgentSummary(updated!));
     } catch (error) {
-      console.error("Delete document error:", error);
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Delete document failed' });
+      console.error("Update agency member error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Update agency member failed' });
     }
   });
 
-  // Get summary history for a document
-  app.get("/api/documents/:id/summary-history", async (req, res) => {
+  // Remove a colleague from the agency. Their records stay with them, and they get
+  // an agency of their own the next time they sign in.
+  app.delete("/api/agency/members/:id", requireAuth, requireAgencyManager, async (req, res) => {
     try {
-      const documentId = parseInt(req.params.id);
-      const history = await storage.getSummaryHistory(documentId);
-      
-      res.json(history.map(h => ({
-        id: h.id,
-        documentId: h.documentId,
-        versionNumber: h.version,
-        summary: h.summary,
-        generatedAt: h.createdAt,
-        isActive: h.isActive,
-        generatedBy: 'xAI Analysis',
-        processingOptions: h.processingOptions
+      const { agentId, agencyId, role: actorRole } = req.access!;
+      const member = await storage.getAgent(parseInt(req.params.id));
+      if (!member || member.agencyId !== agencyId) {
+        return res.status(404).json({ error: "Agency member not found" });
+      }
+      if (member.id === agentId) {
+        return res.status(400).json({ error: "You cannot remove yourself from the agency" });
+      }
+      if (!canAssignRole(actorRole, 'producer', member.role)) {
+        return res.status(403).json({ error: "Only an agency owner can remove owners or admins" });
+      }
+      if (await isLastOwner(member)) {
+        return res.status(400).json({ error: "An agency needs at least one owner" });
+      }
+
+      await storage.updateAgent(member.id, { agencyId: null, role: 'producer' });
+      await recordAudit(req, 'remove_member', { details: { memberId: member.id, username: member.username, name: member.fullName, role: member.role } });
+      console.log(`👥 Agent ${member.id} removed from agency ${agencyId}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Remove agency member error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Remove agency member failed' });
+    }
+  });
+
+  // Every member's documents, with the agent each one belongs to
+  app.get("/api/agency/documents", requireAuth, requireAgencyManager, async (req, res) => {
+    try {
+      const agencyId = req.access!.agencyId!;
+      const [documents, members] = await Promise.all([
+        storage.listAgencyDocuments(agencyId),
+        storage.listAgencyMembers(agencyId),
+      ]);
+      const memberNames = new Map(members.map(member => [member.id, member.fullName]));
+
+      res.json(documents.map(doc => ({
+        ...toDocumentListItem(doc),
+        agentId: doc.agentId,
+        agentName: doc.agentId ? memberNames.get(doc.agentId) || null : null,
       })));
     } catch (error) {
-      console.error("Get summary history error:", error);
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Get summary history failed' });
+      console.error("List agency documents error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List agency documents failed' });
     }
   });
 
-  // Set active summary version
-  app.post("/api/documents/:id/summary-history/:versionId/activate", async (req, res) => {
+  // The agency's audit trail, filtered by member, document, action and days (newest first)
+  app.get("/api/agency/audit-events", requireAuth, requireAgencyManager, async (req, res) => {
     try {
-      const documentId = parseInt(req.params.id);
-      const versionId = parseInt(req.params.versionId);
-      
-      const success = await storage.setActiveSummary(documentId, versionId);
-      
-      if (!success) {
-        return res.status(404).json({ error: "Summary version not found" });
+      const parsed = parseAuditQuery(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid audit filters", details: parsed.error.errors });
       }
 
-      res.json({ message: "Summary version activated successfully" });
+      const events = await storage.listAuditEvents(req.access!.agencyId!, parsed.data, AUDIT_EVENTS_PAGE_LIMIT);
+      res.json(events);
     } catch (error) {
-      console.error("Set active summary error:", error);
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Set active summary failed' });
+      console.error("List audit events error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'List audit events failed' });
     }
   });
 
-  // Delete summary version
-  app.delete("/api/documents/:id/summary-history/:versionId", async (req, res) => {
+  // The same filters, every matching event, as CSV
+  app.get("/api/agency/audit-events/export", requireAuth, requireAgencyManager, async (req, res) => {
     try {
-      const versionId = parseInt(req.params.versionId);
-      
-      const deleted = await storage.deleteSummaryVersion(versionId);
-      
-      if (!deleted) {
-        return res.status(404).json({ error: "Summary version not found" });
+      const parsed = parseAuditQuery(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid audit filters", details: parsed.error.errors });
       }
 
-      res.json({ message: "Summary version deleted successfully" });
+      const events = await storage.listAuditEvents(req.access!.agencyId!, parsed.data);
+      const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, ''); // YYYYMMDD format
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-trail-${dateStr}.csv"`);
+      res.send(auditTrail.toCsv(events));
     } catch (error) {
-      console.error("Delete summary version error:", error);
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Delete summary version failed' });
+      console.error("Export audit events error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Export audit events failed' });
     }
   });
 
+  // Hand a document to another member of the agency
+  app.put("/api/documents/:id/owner", requireAuth, requireAgencyManager, requireDocumentAccess, async (req, res) => {
+    try {
+      const { agentId, agencyId } = req.access!;
+      const document = req.document!;
+
+      const newOwnerId = parseInt(req.body?.agentId);
+      const newOwner = isNaN(newOwnerId) ? undefined : await storage.getAgent(newOwnerId);
+      if (!newOwner || newOwner.agencyId !== agencyId) {
+        return res.status(400).json({ error: "The new owner must be a member of your agency" });
+      }
+
+      // The client link only survives when the new owner has access to that client
+      const client = document.clientId ? await storage.getClient(document.clientId, newOwner.id) : undefined;
+      const updated = await storage.updatePolicyDocument(document.id, {
+        agentId: newOwner.id,
+        clientId: client ? client.id : null,
+      }, agentId);
 
+      await recordAudit(req, 'reassign', {
+        document,
+        details: { fromAgentId: document.agentId, toAgentId: newOwner.id, toAgentName: newOwner.fullName },
+      });
+      console.log(`🔀 Document ${document.id} reassigned from agent ${document.agentId} to agent ${newOwner.id}`);
+      res.json({ ...toDocumentListItem(updated!), agentId: newOwner.id, agentName: newOwner.fullName });
+    } catch (error) {
+      console.error("Reassign document error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Reassign document failed' });
+    }
+  });
 
   // Settings routes
-  app.get("/api/settings", async (req, res) => {
+  app.get("/api/settings", requireAuth, async (req, res) => {
     try {
-      // Use session agent ID or default
-      const agentId = req.session.agentId || 1;
+      const { agentId } = req.access!;
       
       let settings = await storage.getUserSettings(agentId);
       if (!settings) {
@@ -650,13 +2241,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/settings", async (req, res) => {
+  app.put("/api/settings", requireAuth, async (req, res) => {
     try {
-      // Use session agent ID or default
-      const agentId = req.session.agentId || 1;
+      const { agentId } = req.access!;
       
-      const settingsData = req.body;
+      // Settings always stay with the signed-in agent
+      const { id: _id, agentId: _agentId, updatedAt: _updatedAt, ...settingsData } = req.body ?? {};
+      if (settingsData.defaultProcessingOptions !== undefined) {
+        const optionsResult = validateRequestedOptions(settingsData.defaultProcessingOptions);
+        if (!optionsResult.success) {
+          return res.status(400).json({ error: "Invalid default processing options", details: optionsResult.error.errors });
+        }
+        settingsData.defaultProcessingOptions = optionsResult.data;
+      }
+      if (settingsData.gapAnalysisRules !== undefined) {
+        const rulesResult = GapRuleSetsSchema.safeParse(settingsData.gapAnalysisRules);
+        if (!rulesResult.success) {
+          return res.status(400).json({ error: "Invalid coverage gap rules", details: rulesResult.error.errors });
+        }
+        settingsData.gapAnalysisRules = rulesResult.data;
+      }
+      // An empty template goes back to the built-in one
+      if (settingsData.emailTemplate !== undefined && Object.keys(settingsData.emailTemplate ?? {}).length > 0) {
+        const templateResult = EmailTemplateSchema.safeParse(settingsData.emailTemplate);
+        if (!templateResult.success) {
+          return res.status(400).json({ error: "Invalid email template", details: templateResult.error.errors });
+        }
+        settingsData.emailTemplate = templateResult.data;
+      }
+
       const updatedSettings = await storage.updateUserSettings(agentId, settingsData);
+      await recordAudit(req, 'update_settings', { details: { fields: Object.keys(settingsData) } });
       
       res.json(updatedSettings);
     } catch (error) {
@@ -669,73 +2284,771 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
-// Background document processing with deployment-ready timeout handling
-async function processDocumentAsync(documentId: number, buffer: Buffer, filename: string, options?: any) {
-  const startTime = Date.now();
-  console.log(`🚀 Starting document processing for ID: ${documentId}`);
-  console.log(`📋 Processing options passed to async function:`, options);
-  console.log(`📋 Summary length in options:`, options?.summaryLength || 'not specified');
-  console.log(`📋 Environment: NODE_ENV=${process.env.NODE_ENV}, REPLIT_DEPLOYMENT=${process.env.REPLIT_DEPLOYMENT}`);
-  
-  try {
-    // Wrap document processing with timeout for deployment environments
-    const processingPromise = documentProcessor.processDocument(buffer, filename, options);
-    
-    // Optimized timeout for Grok 4 (faster overall processing)
-    // Check both NODE_ENV and Replit deployment indicators
-    const isDeployed = process.env.NODE_ENV === 'production' || process.env.REPLIT_DEPLOYMENT === '1';
-    const timeoutMs = isDeployed ? 600000 : 420000; // 10 or 7 minutes
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Document processing timed out')), timeoutMs);
-    });
-    
-    const result = await Promise.race([processingPromise, timeoutPromise]);
-    
-    const processingTime = Date.now() - startTime;
-    console.log(`✅ Document processing completed in ${processingTime}ms`);
-    
-    // Update the document
-    await storage.updatePolicyDocument(documentId, {
-      processed: true,
-      extractedData: result.policyData as any,
-      summary: result.summary,
-      processingError: null,
-      processingOptions: JSON.stringify(options || {}),
-    });
+// What the client sees of an agent; never includes the password hash
+function toAgentSummary(agent: Agent) {
+  return {
+    id: agent.id,
+    username: agent.username,
+    fullName: agent.fullName,
+    email: agent.email,
+    agencyId: agent.agencyId,
+    role: agent.role,
+  };
+}
 
-    // Create summary history entry
-    if (result.summary) {
-      await storage.createSummaryVersion({
-        documentId,
-        summary: result.summary,
-        version: 1, // First version
-        isActive: true,
-        processingOptions: options || {}
-      });
+// Starting profile for a new agent, with the firm details of their agency
+function newAgentProfile(agent: Agent, firm: Partial<AgencyBranding> = {}) {
+  return {
+    name: agent.fullName,
+    title: "",
+    phone: "",
+    email: agent.email,
+    license: "",
+    signature: "",
+    firmName: firm.firmName || "",
+    firmAddress: firm.firmAddress || "",
+    firmPhone: firm.firmPhone || "",
+    firmWebsite: firm.firmWebsite || ""
+  };
+}
+
+// Agents without an agency (registered before agencies existed, or removed from one)
+// become the owner of a new agency seeded from their profile's firm details
+async function ensureAgency(agent: Agent, agencyName?: string): Promise<Agent> {
+  if (agent.agencyId) return agent;
+
+  const settings = await storage.getUserSettings(agent.id);
+  const profileBranding = AgencyBrandingSchema.safeParse(settings?.agentProfile ?? {});
+  const branding = profileBranding.success ? profileBranding.data : AgencyBrandingSchema.parse({});
+  const agency = await storage.createAgency({
+    name: agencyName || branding.firmName || `${agent.fullName}'s Agency`,
+    branding: { ...branding, firmName: branding.firmName || agencyName || '' },
+  });
+
+  console.log(`🏢 Agency ${agency.id} created for agent ${agent.id}`);
+  return (await storage.updateAgent(agent.id, { agencyId: agency.id, role: 'owner' })) || agent;
+}
+
+async function getAgentAgency(agentId: number) {
+  const agent = await storage.getAgent(agentId);
+  return agent?.agencyId ? storage.getAgency(agent.agencyId) : undefined;
+}
+
+// Owners may grant or change any role; admins only manage reviewers, producers and CSRs
+function canAssignRole(actorRole: AgencyRole, newRole: AgencyRole, currentRole?: AgencyRole): boolean {
+  if (actorRole === 'owner') return true;
+  const touchesManager = AGENCY_MANAGER_ROLES.includes(newRole) || (!!currentRole && AGENCY_MANAGER_ROLES.includes(currentRole));
+  return !touchesManager;
+}
+
+async function isLastOwner(member: Agent): Promise<boolean> {
+  if (member.role !== 'owner' || !member.agencyId) return false;
+  const members = await storage.listAgencyMembers(member.agencyId);
+  return members.filter(other => other.role === 'owner').length === 1;
+}
+
+// Account details for a colleague added by an agency owner or admin
+const agencyMemberBodySchema = insertAgentSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  email: z.string().trim().email("A valid email is required"),
+  role: z.enum(AGENCY_ROLES).default('producer'),
+});
+
+// Client fields an agent may set; the owning agent always comes from the session
+const clientBodySchema = insertClientSchema.omit({ agentId: true }).extend({
+  name: z.string().trim().min(1, "Client name is required"),
+});
+
+// Template fields an agent may set; the owning agent always comes from the session
+const pdfTemplateBodySchema = insertPdfTemplateSchema.omit({ agentId: true }).extend({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  html: z.string().min(1, "Template HTML is required").max(500_000, "Template HTML is too large"),
+});
+
+// Preset fields an agent may set; options are validated separately against the processing options schema
+const processingPresetBodySchema = insertProcessingPresetSchema.omit({ agentId: true, options: true }).extend({
+  name: z.string().trim().min(1, "Preset name is required").max(100),
+  options: z.unknown().optional(),
+});
+
+// Validate a preset's options and export layout. Options are stored complete (schema
+// defaults filled in) so a preset behaves the same after the agent changes their own defaults.
+async function checkPresetChoices(agentId: number, requested: unknown, pdfTemplate?: string | null, base?: unknown) {
+  const requestedResult = validateRequestedOptions(requested);
+  if (!requestedResult.success) {
+    return { success: false as const, error: "Invalid processing options", details: requestedResult.error.errors };
+  }
+  const optionsResult = mergeProcessingOptions(base, requestedResult.data);
+  if (!optionsResult.success) {
+    return { success: false as const, error: "Invalid processing options", details: optionsResult.error.errors };
+  }
+
+  if (pdfTemplate && !(await resolvePdfTemplate(agentId, pdfTemplate))) {
+    return { success: false as const, error: `Unknown PDF template: ${pdfTemplate}`, details: [] };
+  }
+  return { success: true as const, options: optionsResult.data };
+}
+
+// The preset an upload was processed with: the one picked in the request, otherwise
+// the agent's default preset; "none" skips presets. Null means the requested preset
+// does not exist or is not visible to the agent.
+async function resolveUploadPreset(agentId: number, rawPresetId: unknown): Promise<ProcessingPreset | null | undefined> {
+  if (rawPresetId === 'none') return undefined;
+  if (rawPresetId === undefined || rawPresetId === null || rawPresetId === '') {
+    return storage.getDefaultProcessingPreset(agentId);
+  }
+
+  const preset = await storage.getProcessingPreset(parseInt(String(rawPresetId)), agentId);
+  return preset ?? null;
+}
+
+function toPdfTemplateOption(template: PdfTemplate, editable = true): PdfTemplateOption {
+  return {
+    name: `custom:${template.id}`,
+    label: template.name,
+    description: template.description || 'Custom template',
+    clientFacing: true,
+    custom: true,
+    id: template.id,
+    editable,
+  };
+}
+
+// Map the export "template" name to a built-in layout or one of the templates
+// uploaded in the agent's agency. Undefined means the name matches neither.
+async function resolvePdfTemplate(agentId: number, name?: string): Promise<{ options: Pick<PDFOptions, 'template' | 'customTemplateHtml'>; clientFacing: boolean } | undefined> {
+  const customMatch = typeof name === 'string' ? name.match(/^custom:(\d+)$/) : null;
+  if (customMatch) {
+    const template = await storage.getPdfTemplate(parseInt(customMatch[1]), agentId);
+    // Uploaded layouts are assumed to go to clients
+    return template ? { options: { customTemplateHtml: template.html }, clientFacing: true } : undefined;
+  }
+
+  const builtIn = getPdfTemplate(typeof name === 'string' ? name : undefined);
+  return builtIn ? { options: { template: builtIn.name }, clientFacing: builtIn.clientFacing } : undefined;
+}
+
+// New uploads default to the fast short summary unless the agent's defaults or the request say otherwise
+const UPLOAD_DEFAULT_OPTIONS = { summaryLength: 'short' };
+
+// Validate requested options and layer them over the agency's defaults, the agent's
+// saved defaults and a base layer: the chosen preset on upload, or the options a
+// document was last processed with when it is processed again
+async function resolveProcessingOptions(agentId: number, requested: unknown, base?: unknown) {
+  const requestedResult = validateRequestedOptions(requested);
+  if (!requestedResult.success) {
+    return { success: false as const, error: requestedResult.error };
+  }
+  const [agency, settings] = await Promise.all([getAgentAgency(agentId), storage.getUserSettings(agentId)]);
+  return mergeProcessingOptions(
+    UPLOAD_DEFAULT_OPTIONS,
+    agency?.defaultProcessingOptions,
+    settings?.defaultProcessingOptions,
+    base,
+    requestedResult.data
+  );
+}
+
+// Save the original, create the document record and queue it for processing
+async function createAndQueueDocument(
+  agentId: number,
+  file: UploadedPolicyFile,
+  processingOptions: ProcessingOptions,
+  { batchId, presetId }: { batchId?: number; presetId?: number } = {}
+) {
+  // Keep the original so the document can be reprocessed or downloaded later
+  const filename = `${Date.now()}-${file.originalName}`;
+  const storageKey = originalFileKey(filename);
+  await fileStorage.save(storageKey, file.buffer, file.mimetype);
+
+  // Create document record with agent association
+  const document = await storage.createPolicyDocument({
+    agentId,
+    filename,
+    storageKey,
+    batchId: batchId ?? null,
+    presetId: presetId ?? null,
+    originalName: file.originalName,
+    fileSize: file.size,
+    fileType: file.mimetype,
+    processed: false,
+    extractedData: null,
+    summary: null,
+    processingError: null,
+  });
+
+  // Queue processing; the background worker picks it up and retries on failure
+  const job = await processingJobQueue.enqueue(document.id, file.originalName, processingOptions, { storageKey });
+  return { document, job };
+}
+
+// Aggregate progress for a batch from the state of its documents
+function summarizeBatch(batch: UploadBatch, documents: PolicyDocument[]) {
+  const completed = documents.filter(doc => doc.processed && !doc.processingError).length;
+  const failed = documents.filter(doc => doc.processed && doc.processingError).length;
+  const processing = documents.length - completed - failed;
+
+  return {
+    id: batch.id,
+    name: batch.name,
+    createdAt: batch.createdAt,
+    totalDocuments: documents.length,
+    completed,
+    failed,
+    processing,
+    skippedFiles: batch.skippedFiles,
+    status: processing > 0 ? 'processing' : failed > 0 ? 'completed_with_errors' : 'completed',
+  };
+}
+
+// PDF export options: request body overrides, falling back to the given client name
+// and then the agent's export preferences and profile. Firm details come from the
+// agency's branding where it has them.
+async function buildPDFOptions(agentId: number, body: any, clientName?: string | null): Promise<PDFOptions> {
+  let settings = await storage.getUserSettings(agentId);
+  if (!settings) {
+    settings = await storage.createDefaultSettings(agentId);
+  }
+  const agency = await getAgentAgency(agentId);
+  const branding = (agency?.branding || {}) as Partial<AgencyBranding>;
+
+  console.log('[PDF Export] Agent profile:', settings?.agentProfile ? 'found' : 'not found');
+
+  // Type-safe access to settings with proper casting
+  const exportPrefs = settings.exportPreferences as { 
+    defaultClientName?: string; 
+    defaultPolicyReference?: string; 
+    includeAgentSignature?: boolean; 
+  };
+  const agentProfile = settings.agentProfile as { 
+    name?: string; 
+    title?: string; 
+    phone?: string; 
+    email?: string; 
+    license?: string; 
+    signature?: string; 
+    agentImage?: string; 
+    firmName?: string; 
+    firmAddress?: string; 
+    firmPhone?: string; 
+    firmWebsite?: string; 
+  };
+
+  return {
+    clientName: body.clientName || clientName || exportPrefs?.defaultClientName || '',
+    policyReference: body.policyReference || exportPrefs?.defaultPolicyReference || '',
+    clientLogo: body.clientLogo || '',
+    firmName: branding.firmName || agentProfile?.firmName || '',
+    includeExplanations: body.includeExplanations !== false,
+    includeTechnicalDetails: body.includeTechnicalDetails === true,
+    includeBranding: body.includeBranding !== false,
+    includeAgentSignature: true,
+    agentProfile: agentProfile && agentProfile.name ? {
+      name: agentProfile.name || '',
+      title: agentProfile.title || '',
+      phone: agentProfile.phone || '',
+      email: agentProfile.email || '',
+      license: agentProfile.license || '',
+      signature: agentProfile.signature || '',
+      agentImage: agentProfile.agentImage || '',
+      firmName: branding.firmName || agentProfile.firmName || '',
+      firmAddress: branding.firmAddress || agentProfile.firmAddress || '',
+      firmPhone: branding.firmPhone || agentProfile.firmPhone || '',
+      firmWebsite: branding.firmWebsite || agentProfile.firmWebsite || '',
+    } : undefined,
+  };
+}
+
+// Load the documents to compare, in the requested order (the first is the baseline).
+// Returns an error message and status instead when the selection is not comparable.
+async function loadComparison(agentId: number, rawIds: unknown) {
+  const ids = (Array.isArray(rawIds) ? rawIds : String(rawIds ?? '').split(','))
+    .map(id => parseInt(String(id)))
+    .filter(id => !isNaN(id));
+  const uniqueIds = Array.from(new Set(ids));
+
+  if (uniqueIds.length < MIN_COMPARED_POLICIES || uniqueIds.length > MAX_COMPARED_POLICIES) {
+    return { status: 400, error: `Select between ${MIN_COMPARED_POLICIES} and ${MAX_COMPARED_POLICIES} policies to compare` };
+  }
+
+  const inputs = [];
+  const documents: PolicyDocument[] = [];
+  for (const id of uniqueIds) {
+    const document = await storage.getPolicyDocument(id, agentId);
+    if (!document) {
+      return { status: 404, error: `Document ${id} not found` };
     }
-    
-    console.log(`📊 Document ${documentId} processing completed successfully`);
-  } catch (error) {
-    const processingTime = Date.now() - startTime;
-    console.error(`❌ Processing error for document ${documentId} after ${processingTime}ms:`, error);
-    
-    // Provide more specific error messages for deployment troubleshooting
-    let errorMessage = 'Processing failed';
-    if (error.message.includes('timeout')) {
-      errorMessage = 'Document processing timed out. This usually happens with very large documents (over 50 pages). Please try splitting the document into smaller sections or contact support.';
-    } else if (error.message.includes('API') || error.message.includes('fetch')) {
-      errorMessage = 'External AI service temporarily unavailable. Please wait a few minutes and try again.';
-    } else if (error.message.includes('extract')) {
-      errorMessage = 'Unable to extract text from document. Please ensure the PDF contains readable text (not just images).';
-    } else if (error.message.includes('xAI')) {
-      errorMessage = error.message; // Pass through xAI-specific error messages
-    } else {
-      errorMessage = error instanceof Error ? error.message : 'Processing failed';
+    if (!document.processed || !document.extractedData) {
+      return { status: 400, error: `${document.originalName} has not finished processing` };
     }
-    
-    await storage.updatePolicyDocument(documentId, {
-      processed: true,
-      processingError: errorMessage,
+    documents.push(document);
+    inputs.push({
+      documentId: document.id,
+      name: document.originalName,
+      policyData: document.extractedData as any,
+    });
+  }
+
+  return { comparison: policyComparator.compare(inputs), documents };
+}
+
+// Shape of a single processed document (viewer, summary editing)
+function toDocumentDetails(doc: PolicyDocument) {
+  return {
+    id: doc.id,
+    originalName: doc.originalName,
+    extractedData: doc.extractedData,
+    summary: doc.summary,
+    structuredSummary: structuredSummaryOf(doc),
+    processed: doc.processed,
+    uploadedAt: doc.uploadedAt,
+    processingOptions: doc.processingOptions,
+    hasOriginal: !!doc.storageKey,
+    reviewStatus: doc.reviewStatus,
+  };
+}
+
+// Make a new summary the document's current one and keep it as a version. Documents
+// summarized before versioning get their existing summary recorded first, so it can
+// still be restored.
+async function saveSummaryVersion(
+  document: PolicyDocument,
+  agentId: number,
+  summary: string,
+  details: { source: SummaryVersionSource; restoredFromVersion?: number; processingOptions?: ProcessingOptions },
+) {
+  if (document.summary && !(await storage.getActiveSummary(document.id))) {
+    await storage.createSummaryVersion({
+      documentId: document.id,
+      version: 1,
+      summary: document.summary,
+      processingOptions: document.processingOptions as ProcessingOptions,
+      source: 'processing',
+      isActive: true,
+    });
+  }
+
+  const processingOptions = details.processingOptions ?? document.processingOptions as ProcessingOptions;
+  // A changed summary has to be approved again; one still in review stays there
+  const review: Partial<PolicyDocument> = isApproved(document.reviewStatus)
+    ? { reviewStatus: 'draft', approvedById: null, approvedAt: null, approvedVersion: null }
+    : {};
+  const updated = await storage.updatePolicyDocument(document.id, { summary, processingOptions, ...review }, agentId);
+  if (updated) {
+    await storage.createSummaryVersion({
+      documentId: document.id,
+      version: 1,
+      summary,
+      processingOptions,
+      source: details.source,
+      authorId: agentId,
+      restoredFromVersion: details.restoredFromVersion ?? null,
+      isActive: true,
+    });
+  }
+  return updated;
+}
+
+// Shape of a document in list responses (dashboard, client detail)
+function toDocumentListItem(doc: PolicyDocument) {
+  return {
+    id: doc.id,
+    originalName: doc.originalName,
+    fileSize: doc.fileSize,
+    fileType: doc.fileType,
+    processed: doc.processed,
+    uploadedAt: doc.uploadedAt,
+    hasError: !!doc.processingError,
+    processingError: doc.processingError,
+    pdfExportCount: doc.pdfExportCount || 0,
+    lastExportedAt: doc.lastExportedAt,
+    clientId: doc.clientId,
+    clientName: doc.clientName,
+    policyReference: doc.policyReference,
+    isFavorite: doc.isFavorite || false,
+    tags: doc.tags || [],
+    hasOriginal: !!doc.storageKey,
+    reviewStatus: doc.reviewStatus,
+    insurer: (doc.extractedData as any)?.insurer ?? null,
+    expirationDate: doc.expirationDate,
+  };
+}
+
+// Query strings carry every value as text (and repeated keys as arrays)
+function parseDocumentSearch(query: Request["query"]) {
+  const value = (name: string) => {
+    const raw = query[name];
+    return typeof raw === 'string' && raw !== '' ? raw : undefined;
+  };
+  const flag = (name: string) => value(name) === undefined ? undefined : value(name) === 'true';
+  const number = (name: string) => value(name) === undefined ? undefined : Number(value(name));
+  const tags = ([] as unknown[]).concat(query.tags ?? []).filter((tag): tag is string => typeof tag === 'string' && tag !== '');
+
+  return DocumentSearchQuerySchema.safeParse({
+    q: value('q'),
+    tags: tags.length > 0 ? tags : undefined,
+    favorite: flag('favorite'),
+    clientId: number('clientId'),
+    insurer: value('insurer'),
+    expiresFrom: value('expiresFrom'),
+    expiresTo: value('expiresTo'),
+    exportStatus: value('exportStatus'),
+    processed: flag('processed'),
+    sort: value('sort'),
+    page: number('page'),
+    pageSize: number('pageSize'),
+  });
+}
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'a draft',
+  in_review: 'in review',
+  changes_requested: 'waiting on changes',
+  approved: 'approved',
+  delivered: 'delivered',
+};
+
+function isApproved(status: ReviewStatus): boolean {
+  return status === 'approved' || status === 'delivered';
+}
+
+// The "approved by" line for exports of an approved summary
+async function approvalFooter(document: PolicyDocument): Promise<PDFOptions['approval']> {
+  if (!isApproved(document.reviewStatus) || !document.approvedById || !document.approvedAt) return undefined;
+  const approvers = await loadAgentNames([document.approvedById]);
+  return {
+    approvedBy: approvers.get(document.approvedById) ?? 'Former agent',
+    approvedAt: document.approvedAt,
+    version: document.approvedVersion,
+  };
+}
+
+// Full names of the given agents by id; agents who have since been deleted are left out
+async function loadAgentNames(ids: (number | null)[]): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+  for (const id of Array.from(new Set(ids))) {
+    if (id === null) continue;
+    const agent = await storage.getAgent(id);
+    if (agent) names.set(id, agent.fullName);
+  }
+  return names;
+}
+
+// A document's review state and comments as the signed-in agent sees them
+async function loadReview(document: PolicyDocument, access: AgentAccess) {
+  const [comments, agency] = await Promise.all([
+    storage.listReviewComments(document.id),
+    access.agencyId ? storage.getAgency(access.agencyId) : undefined,
+  ]);
+  const names = await loadAgentNames([document.approvedById, ...comments.map(comment => comment.authorId)]);
+
+  return {
+    status: document.reviewStatus,
+    approvedBy: document.approvedById ? names.get(document.approvedById) ?? 'Former agent' : null,
+    approvedAt: document.approvedAt,
+    approvedVersion: document.approvedVersion,
+    deliveredAt: document.deliveredAt,
+    canReview: AGENCY_REVIEWER_ROLES.includes(access.role) && document.agentId !== access.agentId,
+    requireApprovalForExport: !!agency?.requireApprovalForExport,
+    comments: comments.map(comment => ({
+      ...comment,
+      authorName: names.get(comment.authorId) ?? 'Former agent',
+    })),
+  };
+}
+
+async function addReviewComment(
+  documentId: number,
+  authorId: number,
+  { section, body }: { section?: string | null; body: string },
+  decision?: ReviewDecision,
+) {
+  const active = await storage.getActiveSummary(documentId);
+  return storage.createReviewComment({
+    documentId,
+    authorId,
+    section: section || null,
+    body,
+    decision: decision ?? null,
+    summaryVersion: active?.version ?? null,
+  });
+}
+
+// Why the agent may not approve or reject this summary now, if they may not
+function reviewDecisionRefusal(document: PolicyDocument, agentId: number): { status: number; error: string } | undefined {
+  if (document.agentId === agentId) {
+    return { status: 403, error: "Summaries must be approved by someone other than their agent" };
+  }
+  if (document.reviewStatus !== 'in_review') {
+    return { status: 409, error: `Only summaries in review can be approved or rejected; this one is ${REVIEW_STATUS_LABELS[document.reviewStatus]}` };
+  }
+  return undefined;
+}
+
+// A comment on the whole summary, or on one of its "[Section]" headings
+const reviewCommentBodySchema = z.object({
+  section: z.string().trim().max(200).nullish(),
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+});
+
+const reviewDecisionBodySchema = z.object({
+  section: z.string().trim().max(200).nullish(),
+  comment: z.string().trim().max(5000).optional(),
+});
+
+const NOTIFICATION_FEED_LIMIT = 50;
+
+const markNotificationsReadBodySchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(),
+});
+
+function newCalendarToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function calendarFeedUrl(req: Request, token: string): string {
+  return `${req.protocol}://${req.get('host')}/api/calendar/${token}.ics`;
+}
+
+// Most events the audit trail page lists; the CSV export has no limit
+const AUDIT_EVENTS_PAGE_LIMIT = 500;
+
+// Record an action in the audit trail as the signed-in agent
+function recordAudit(req: Request, action: AuditAction, entry?: AuditEntry) {
+  const { agentId, agencyId } = req.access!;
+  return auditTrail.record({ agentId, agencyId, ipAddress: req.ip }, action, entry);
+}
+
+// The summary page polls the document while it is open, so a session records a view
+// of the same summary at most once in this long
+const VIEW_AUDIT_WINDOW_MS = 30 * 60 * 1000;
+
+// Record a summary view, unless this session already recorded one of the same text
+// recently. The marks live in the session, so signing in again starts afresh.
+async function recordView(req: Request, document: PolicyDocument) {
+  const now = Date.now();
+  const key = `${document.id}:${hashContent(document.summary)}`;
+  const viewed = req.session.auditedViews ?? {};
+  if (viewed[key] !== undefined && now - viewed[key] < VIEW_AUDIT_WINDOW_MS) return;
+
+  // Forget marks that can no longer suppress a view so the session stays small
+  for (const [viewKey, time] of Object.entries(viewed)) {
+    if (now - time >= VIEW_AUDIT_WINDOW_MS) delete viewed[viewKey];
+  }
+  viewed[key] = now;
+  req.session.auditedViews = viewed;
+  await recordAudit(req, 'view', { document });
+}
+
+// The export choices worth keeping in the audit trail; custom summary text and
+// images are left out (the exported summary is recorded by hash)
+function auditExportOptions(body: any) {
+  const options: Record<string, unknown> = {};
+  for (const key of ['clientName', 'policyReference', 'includeExplanations', 'includeTechnicalDetails', 'includeBranding', 'includeCoverageGaps']) {
+    if (body?.[key] !== undefined) options[key] = body[key];
+  }
+  if (body?.customSummary) options.customSummary = true;
+  return options;
+}
+
+// A document timeline entry; IP addresses stay in the admin audit export
+function toActivityItem(event: AuditEvent) {
+  return {
+    id: event.id,
+    action: event.action,
+    actorId: event.actorId,
+    actorName: event.actorName,
+    createdAt: event.createdAt,
+    beforeHash: event.beforeHash,
+    afterHash: event.afterHash,
+    details: event.details,
+  };
+}
+
+function parseAuditQuery(query: Request["query"]) {
+  const value = (name: string) => {
+    const raw = query[name];
+    return typeof raw === 'string' && raw !== '' ? raw : undefined;
+  };
+  const number = (name: string) => value(name) === undefined ? undefined : Number(value(name));
+
+  return AuditEventQuerySchema.safeParse({
+    actorId: number('actorId'),
+    documentId: number('documentId'),
+    action: value('action'),
+    from: value('from'),
+    to: value('to'),
+  });
+}
+
+const shareLinkBodySchema = z.object({
+  label: z.string().trim().max(200).optional(),
+  expiresInDays: z.number().int().min(1).max(SHARE_LINK_MAX_DAYS).default(SHARE_LINK_DEFAULT_DAYS),
+});
+
+function newShareToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function shareLinkStatus(link: ShareLink): 'active' | 'expired' | 'revoked' {
+  if (link.revokedAt) return 'revoked';
+  return link.expiresAt.getTime() <= Date.now() ? 'expired' : 'active';
+}
+
+function shareLinkUrl(req: Request, link: ShareLink): string {
+  return `${req.protocol}://${req.get('host')}/share/${link.token}`;
+}
+
+function toShareLinkItem(req: Request, link: ShareLink) {
+  return {
+    id: link.id,
+    label: link.label,
+    url: shareLinkUrl(req, link),
+    status: shareLinkStatus(link),
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    viewCount: link.viewCount,
+    downloadCount: link.downloadCount,
+    lastViewedAt: link.lastViewedAt,
+    createdAt: link.createdAt,
+  };
+}
+
+// The link behind a public share URL and its document, or why it cannot be shown
+async function loadSharedDocument(token: string) {
+  const link = await storage.getShareLinkByToken(token);
+  if (!link) {
+    return { status: 404, error: "This link is not valid" };
+  }
+  const status = shareLinkStatus(link);
+  if (status !== 'active') {
+    return { status: 410, error: status === 'revoked' ? "This link has been turned off" : "This link has expired" };
+  }
+
+  const document = await storage.getPolicyDocument(link.documentId);
+  if (!document?.processed || !document.extractedData || !document.summary) {
+    return { status: 404, error: "This summary is no longer available" };
+  }
+  // A summary edited after sharing has to be approved again before clients see it
+  if (!isApproved(document.reviewStatus) && (await getAgentAgency(link.createdBy))?.requireApprovalForExport) {
+    return { status: 409, error: "This summary is being updated. Please check back soon." };
+  }
+  return { link, document };
+}
+
+// Public pages must not be cached or indexed
+function setShareHeaders(res: Response) {
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('X-Robots-Tag', 'noindex, nofollow');
+}
+
+// The linked client's name, if `agentId` may see that client
+async function documentClientName(document: PolicyDocument, agentId: number) {
+  const client = document.clientId ? await storage.getClient(document.clientId, agentId) : undefined;
+  return client?.name || document.clientName;
+}
+
+// The PDF a client receives by share link or email: the layout of the document's
+// preset (or the default one) with the agent's branding and any approval footer
+async function renderClientPDF(document: PolicyDocument, agentId: number, translation: TranslatedSummary): Promise<Buffer> {
+  const options = await buildPDFOptions(agentId, {}, await documentClientName(document, agentId));
+  const preset = document.presetId ? await storage.getProcessingPreset(document.presetId, agentId) : undefined;
+  // Fall back to the default layout if the preset's template has since been deleted
+  const layout = await resolvePdfTemplate(agentId, preset?.pdfTemplate || undefined)
+    ?? await resolvePdfTemplate(agentId);
+  Object.assign(options, layout!.options);
+  options.approval = await approvalFooter(document);
+  options.language = translation.language;
+  return pdfGenerator.generatePolicyPDF(translation.policyData, translation.structuredSummary, options);
+}
+
+// A new summary version, approval or translation renders a new PDF
+function sharedPdfKey(link: ShareLink, document: PolicyDocument, translation: TranslatedSummary): string {
+  return [link.id, hashContent(document.summary || ''), document.reviewStatus, document.approvedVersion ?? '', translation.language].join(':');
+}
+
+// Clients get the summary in the language the document was processed for once that
+// translation is stored, and the English original until then. Public routes never
+// call the AI provider: anyone holding a link could run up translation costs.
+async function sharedTranslation(document: PolicyDocument): Promise<TranslatedSummary> {
+  return await summaryTranslator.stored(document, documentLanguage(document)) ?? summaryTranslator.original(document);
+}
+
+function documentLanguage(document: PolicyDocument): SummaryLanguage {
+  const options = document.processingOptions as Partial<ProcessingOptions> | null;
+  return options?.language ?? 'en';
+}
+
+// Count a view or download. The agent who shared the link previewing it is not
+// counted; they hear about the first real view.
+async function trackShareAccess(req: Request, link: ShareLink, kind: 'view' | 'download') {
+  if (req.session.agentId === link.createdBy) return;
+  const updated = await storage.recordShareLinkAccess(link.id, kind);
+  if (kind === 'view' && updated?.viewCount === 1) {
+    await storage.createNotification({
+      agentId: link.createdBy,
+      documentId: link.documentId,
+      type: 'share_viewed',
+      key: `share:${link.id}:viewed`,
+      title: 'Shared summary opened',
+      message: `${link.label || 'Your client'} opened the summary you shared.`,
+      link: `/summary/${link.documentId}`,
     });
   }
 }
+
+// What the public summary page shows: the summary, policy basics, key coverages and
+// the sharing agent's branding. Source citations and review details stay internal.
+function toSharedSummary(link: ShareLink, document: PolicyDocument, translation: TranslatedSummary, options: PDFOptions) {
+  const policy = translation.policyData;
+  const { signature, ...agent } = options.agentProfile ?? {};
+  return {
+    name: document.originalName,
+    clientName: options.clientName || null,
+    summary: translation.structuredSummary,
+    language: translation.language,
+    policy: {
+      policyType: policy.policyType,
+      insurer: policy.insurer,
+      policyNumber: policy.policyNumber,
+      insuredName: policy.insuredName,
+      effectiveDate: policy.effectiveDate,
+      expirationDate: policy.expirationDate,
+      premiumAmount: policy.premiumAmount,
+    },
+    coverages: (policy.coverageDetails ?? []).map(({ type, limit, deductible, description }) => ({ type, limit, deductible, description })),
+    agent: options.agentProfile ? agent : null,
+    approvedAt: isApproved(document.reviewStatus) ? document.approvedAt : null,
+    expiresAt: link.expiresAt,
+  };
+}
+
+// Language of a PDF export; without one the document's processing language applies
+const exportLanguageSchema = z.enum(SUMMARY_LANGUAGES).optional();
+
+const emailAddressesSchema = z.array(z.string().trim().email()).max(10);
+
+const sendSummaryEmailBodySchema = z.object({
+  to: emailAddressesSchema.min(1, "Add at least one recipient"),
+  cc: emailAddressesSchema.default([]),
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  message: z.string().trim().min(1, "Message is required").max(10000),
+  method: z.enum(EMAIL_DELIVERY_METHODS).default('attachment'),
+  expiresInDays: z.number().int().min(1).max(SHARE_LINK_MAX_DAYS).default(SHARE_LINK_DEFAULT_DAYS),
+});
+
+function toEmailDeliveryItem(delivery: EmailDelivery, senders: Map<number, string>) {
+  return {
+    id: delivery.id,
+    recipients: delivery.recipients,
+    cc: delivery.cc,
+    subject: delivery.subject,
+    method: delivery.method,
+    status: delivery.status,
+    error: delivery.error,
+    sentBy: senders.get(delivery.agentId) || null,
+    createdAt: delivery.createdAt,
+  };
+}
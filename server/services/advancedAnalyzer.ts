@@ -17,7 +17,7 @@ export class AdvancedPolicyAnalyzer {
       insurer: policyInfo.insurer,
       coverageDetails: coverageData.details,
       keyBenefits: coverageData.benefits,
-      eligibility: this.extractEligibilityRequirements(documentText),
+      eligibility: { requirements: this.extractEligibilityRequirements(documentText) },
       exclusions: this.extractExclusions(documentText),
       importantContacts: contactInfo,
       whyItMatters: this.generateContextualExplanation(policyType, coverageData, documentText),
@@ -43,7 +43,7 @@ export class AdvancedPolicyAnalyzer {
     const insurerPatterns = [
       /(?:Company|Insurer|Carrier|Underwriter)[:\s]*([A-Z][A-Za-z\s&,\.]+?)(?:\n|Policy|Certificate)/i,
       /(Valley Trust Insurance[^|\n]*)/i,
-      /([A-Z][A-Za-z\s&,\.]+Insurance[^|\n]*)/i,
+      /((?:[A-Z][A-Za-z&,\.]*\s+){1,4}Insurance(?:\s+(?:Company|Exchange|Group))?)/,
       /Underwritten by\s+([A-Z][A-Za-z\s&,\.]+)/i
     ];
 
@@ -254,10 +254,18 @@ export class AdvancedPolicyAnalyzer {
     const emails = [...text.matchAll(emailPattern)].map(match => match[1]);
     const websites = [...text.matchAll(websitePattern)].map(match => match[1]);
 
-    return [
-      { type: 'Customer Service', phone: phones[0] || '1-800-555-0123', email: emails[0] || 'support@valleytrust.com' },
-      { type: 'Claims Department', phone: phones[1] || '1-800-555-0124', email: 'claims@valleytrust.com' }
-    ];
+    // Only report contact details that actually appear in the document
+    const contacts: { type: string; details: string }[] = [];
+    if (phones[0] || emails[0]) {
+      contacts.push({ type: 'Customer Service', details: [phones[0], emails[0]].filter(Boolean).join(' | ') });
+    }
+    if (phones[1]) {
+      contacts.push({ type: 'Claims Department', details: phones[1] });
+    }
+    if (websites[0]) {
+      contacts.push({ type: 'Website', details: websites[0] });
+    }
+    return contacts;
   }
 
   // Extract eligibility requirements
@@ -412,17 +420,17 @@ export class AdvancedPolicyAnalyzer {
   private createRiskScenarios(policyType: string) {
     const scenarios = {
       'Travel Insurance': [
-        { scenario: 'Trip Cancellation', impact: 'Loss of non-refundable trip costs', mitigation: 'Coverage pays for covered cancellation reasons' },
-        { scenario: 'Medical Emergency Abroad', impact: 'High medical costs in foreign country', mitigation: 'Emergency medical coverage and evacuation benefits' }
+        { situation: 'Trip Cancellation', coverage: 'Loss of non-refundable trip costs', outcome: 'Coverage pays for covered cancellation reasons' },
+        { situation: 'Medical Emergency Abroad', coverage: 'High medical costs in foreign country', outcome: 'Emergency medical coverage and evacuation benefits' }
       ],
       'Health Insurance': [
-        { scenario: 'Emergency Room Visit', impact: 'High out-of-pocket costs', mitigation: 'Coverage reduces your financial responsibility' },
-        { scenario: 'Prescription Medications', impact: 'Ongoing medication costs', mitigation: 'Prescription drug coverage helps manage costs' }
+        { situation: 'Emergency Room Visit', coverage: 'High out-of-pocket costs', outcome: 'Coverage reduces your financial responsibility' },
+        { situation: 'Prescription Medications', coverage: 'Ongoing medication costs', outcome: 'Prescription drug coverage helps manage costs' }
       ]
     };
     
     return scenarios[policyType] || [
-      { scenario: 'Covered Loss Event', impact: 'Financial impact from unexpected event', mitigation: 'Policy provides financial protection per coverage terms' }
+      { situation: 'Covered Loss Event', coverage: 'Financial impact from unexpected event', outcome: 'Policy provides financial protection per coverage terms' }
     ];
   }
 
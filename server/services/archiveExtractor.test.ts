@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { expandBatchUpload, MAX_BATCH_EXTRACTED_SIZE, MAX_BATCH_FILES } from "./archiveExtractor";
+
+const MB = 1024 * 1024;
+
+function upload(originalname: string, buffer: Buffer, mimetype = "application/zip") {
+  return { originalname, buffer, mimetype, size: buffer.length } as Express.Multer.File;
+}
+
+async function zip(entries: Record<string, Buffer | string>): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [name, content] of Object.entries(entries)) archive.file(name, content);
+  return archive.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+describe("expandBatchUpload", () => {
+  it("extracts policies and reports everything else", async () => {
+    const archive = await zip({
+      "policies/auto.pdf": "%PDF-1.4 auto",
+      "home.docx": "docx",
+      "notes.txt": "not a policy",
+      "__MACOSX/._auto.pdf": "metadata",
+      ".DS_Store": "metadata",
+    });
+
+    const { files, skipped } = await expandBatchUpload([upload("policies.zip", archive), upload("loose.pdf", Buffer.from("%PDF"), "application/pdf")]);
+
+    expect(files.map(file => [file.originalName, file.mimetype])).toEqual([
+      ["auto.pdf", "application/pdf"],
+      ["home.docx", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+      ["loose.pdf", "application/pdf"],
+    ]);
+    expect(skipped).toEqual(["notes.txt (not a PDF or DOCX file)"]);
+  });
+
+  it("stops inflating an entry at the per-file limit", async () => {
+    // 16MB of zeros deflates to a few KB; only the inflated bytes reveal the size
+    const archive = await zip({ "bomb.pdf": Buffer.alloc(16 * MB), "real.pdf": "%PDF" });
+
+    const { files, skipped } = await expandBatchUpload([upload("bomb.zip", archive)]);
+
+    expect(files.map(file => file.originalName)).toEqual(["real.pdf"]);
+    expect(skipped).toEqual(["bomb.pdf (larger than 10MB)"]);
+  });
+
+  it("stops reading archives once the batch is full", async () => {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < MAX_BATCH_FILES + 10; i++) entries[`policy-${i}.pdf`] = "%PDF";
+
+    const { files, skipped } = await expandBatchUpload([upload("many.zip", await zip(entries))]);
+
+    expect(files).toHaveLength(MAX_BATCH_FILES);
+    expect(skipped).toEqual([`many.zip (10 more files not read: batch limit of ${MAX_BATCH_FILES} files reached)`]);
+  });
+
+  it("caps the bytes inflated across the whole batch", async () => {
+    const nearLimit = Buffer.alloc(10 * MB - 1);
+    const count = Math.ceil(MAX_BATCH_EXTRACTED_SIZE / nearLimit.length) + 1;
+    const entries: Record<string, Buffer> = {};
+    for (let i = 0; i < count; i++) entries[`policy-${i}.pdf`] = nearLimit;
+
+    const { files, skipped } = await expandBatchUpload([upload("large.zip", await zip(entries))]);
+
+    expect(files.reduce((total, file) => total + file.size, 0)).toBeLessThanOrEqual(MAX_BATCH_EXTRACTED_SIZE);
+    expect(files.length).toBeLessThan(count);
+    expect(skipped.at(-1)).toMatch(/batch extraction limit of 200MB reached/);
+  }, 60_000);
+
+  it("reports an archive it cannot read", async () => {
+    const { files, skipped } = await expandBatchUpload([upload("broken.zip", Buffer.from("not a zip"))]);
+
+    expect(files).toHaveLength(0);
+    expect(skipped).toEqual(["broken.zip (could not read ZIP archive)"]);
+  });
+});
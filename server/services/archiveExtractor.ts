@@ -0,0 +1,129 @@
+import JSZip from 'jszip';
+import path from 'path';
+
+export const MAX_BATCH_FILES = 50;
+const MAX_POLICY_FILE_SIZE = 10 * 1024 * 1024; // same limit as single uploads
+// Most bytes inflated from all the archives in one batch, so a pile of files just
+// under the per-file limit cannot exhaust memory either
+export const MAX_BATCH_EXTRACTED_SIZE = 200 * 1024 * 1024;
+
+const POLICY_MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed', 'multipart/x-zip'];
+
+export interface UploadedPolicyFile {
+  originalName: string;
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
+
+export interface ExpandedUpload {
+  files: UploadedPolicyFile[];
+  skipped: string[];
+}
+
+// Inflate an archive entry, giving up (null) once it produces more than `limit` bytes.
+// The sizes in a ZIP's directory are whatever the archive claims, so only the bytes
+// actually inflated are counted.
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // Paused with nothing reading, the inflater stops once its buffer fills
+        stream.pause();
+        stream.removeAllListeners();
+        stream.on('error', () => {});
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+export function isZipUpload(file: { originalname: string; mimetype: string }): boolean {
+  return ZIP_MIME_TYPES.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.zip');
+}
+
+// Flatten a batch upload (loose PDFs/DOCX files and ZIP archives) into the
+// individual policy files it contains. Anything else is reported as skipped.
+export async function expandBatchUpload(uploads: Express.Multer.File[]): Promise<ExpandedUpload> {
+  const files: UploadedPolicyFile[] = [];
+  const skipped: string[] = [];
+  let extractedSize = 0;
+
+  const add = (originalName: string, buffer: Buffer) => {
+    const mimetype = POLICY_MIME_TYPES[path.extname(originalName).toLowerCase()];
+    if (!mimetype) {
+      skipped.push(`${originalName} (not a PDF or DOCX file)`);
+    } else if (buffer.length > MAX_POLICY_FILE_SIZE) {
+      skipped.push(`${originalName} (larger than 10MB)`);
+    } else if (files.length >= MAX_BATCH_FILES) {
+      skipped.push(`${originalName} (batch limit of ${MAX_BATCH_FILES} files reached)`);
+    } else {
+      files.push({ originalName, buffer, mimetype, size: buffer.length });
+    }
+  };
+
+  for (const upload of uploads) {
+    if (!isZipUpload(upload)) {
+      add(upload.originalname, upload.buffer);
+      continue;
+    }
+
+    let archive: JSZip;
+    try {
+      archive = await JSZip.loadAsync(upload.buffer);
+    } catch (error) {
+      skipped.push(`${upload.originalname} (could not read ZIP archive)`);
+      continue;
+    }
+
+    // Skip folders and macOS/hidden metadata files
+    const entries = Object.values(archive.files).filter(entry =>
+      !entry.dir && !entry.name.startsWith('__MACOSX/') && !path.basename(entry.name).startsWith('.'));
+
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      if (files.length >= MAX_BATCH_FILES) {
+        skipped.push(`${upload.originalname} (${entries.length - index} more files not read: batch limit of ${MAX_BATCH_FILES} files reached)`);
+        break;
+      }
+
+      const baseName = path.basename(entry.name);
+      if (!POLICY_MIME_TYPES[path.extname(baseName).toLowerCase()]) {
+        skipped.push(`${baseName} (not a PDF or DOCX file)`);
+        continue;
+      }
+
+      const remaining = MAX_BATCH_EXTRACTED_SIZE - extractedSize;
+      const limit = Math.min(MAX_POLICY_FILE_SIZE, remaining);
+      let buffer: Buffer | null;
+      try {
+        buffer = await inflateEntry(entry, limit);
+      } catch (error) {
+        skipped.push(`${baseName} (could not be extracted)`);
+        continue;
+      }
+      if (!buffer) {
+        skipped.push(limit === MAX_POLICY_FILE_SIZE ? `${baseName} (larger than 10MB)` : `${baseName} (batch extraction limit of ${MAX_BATCH_EXTRACTED_SIZE / 1024 / 1024}MB reached)`);
+        continue;
+      }
+
+      extractedSize += buffer.length;
+      add(baseName, buffer);
+    }
+  }
+
+  return { files, skipped };
+}
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import type { AuditAction, AuditEvent, PolicyDocument } from '@shared/schema';
+import { storage } from '../storage';
+
+const CSV_COLUMNS = ['Time (UTC)', 'Actor', 'Actor ID', 'Action', 'Document ID', 'Document', 'Before Hash', 'After Hash', 'Details', 'IP Address'];
+
+export interface AuditActor {
+  agentId: number;
+  agencyId: number | null;
+  ipAddress?: string;
+}
+
+export interface AuditEntry {
+  document?: Pick<PolicyDocument, 'id' | 'originalName' | 'summary'>;
+  summaryBefore?: string | null; // defaults to the document's summary
+  summaryAfter?: string | null; // defaults to summaryBefore
+  details?: Record<string, unknown>;
+}
+
+// SHA-256 of a summary, so the trail proves which text was shown, edited or exported
+// without copying it
+export function hashContent(content: string | Buffer | null | undefined): string | null {
+  return content == null ? null : crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+function csvCell(value: unknown): string {
+  let text = value == null ? '' : value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class AuditTrail {
+  // Append an event. The action has already happened by the time it is recorded,
+  // so a failed write is logged rather than failing the request.
+  async record(actor: AuditActor, action: AuditAction, entry: AuditEntry = {}): Promise<AuditEvent | undefined> {
+    try {
+      const { document } = entry;
+      const summaryBefore = entry.summaryBefore !== undefined ? entry.summaryBefore : document?.summary ?? null;
+      const summaryAfter = entry.summaryAfter !== undefined ? entry.summaryAfter : summaryBefore;
+      return await storage.createAuditEvent({
+        agencyId: actor.agencyId,
+        actorId: actor.agentId,
+        actorName: await this.actorName(actor.agentId),
+        action,
+        documentId: document?.id ?? null,
+        documentName: document?.originalName ?? null,
+        beforeHash: hashContent(summaryBefore),
+        afterHash: hashContent(summaryAfter),
+        details: entry.details ?? {},
+        ipAddress: actor.ipAddress ?? null,
+      });
+    } catch (error) {
+      console.error(`Failed to record audit event ${action} for agent ${actor.agentId}:`, error);
+      return undefined;
+    }
+  }
+
+  toCsv(events: AuditEvent[]): string {
+    const rows = events.map(event => [
+      event.createdAt,
+      event.actorName,
+      event.actorId,
+      event.action,
+      event.documentId,
+      event.documentName,
+      event.beforeHash,
+      event.afterHash,
+      Object.keys(event.details ?? {}).length > 0 ? JSON.stringify(event.details) : '',
+      event.ipAddress,
+    ]);
+    return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  // Names are copied onto each event so it still reads correctly after the agent leaves
+  private async actorName(agentId: number): Promise<string> {
+    const agent = await storage.getAgent(agentId);
+    return agent?.fullName || agent?.username || `Agent ${agentId}`;
+  }
+}
+
+export const auditTrail = new AuditTrail();
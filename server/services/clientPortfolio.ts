@@ -0,0 +1,153 @@
+import type {
+  Client,
+  ClientPortfolioCoverage,
+  ClientPortfolioPolicy,
+  ClientPortfolioSummary,
+  PolicyData,
+  PolicyDocument,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { parseAmount } from './policyComparison';
+
+// Legal-entity suffixes that vary between a client record and a declarations page
+const ENTITY_SUFFIXES = /\b(llc|l l c|inc|incorporated|corp|corporation|co|company|ltd|limited|lp|llp|pc|pllc)\b/g;
+
+// "Smith's Grille, LLC" and "SMITHS GRILLE" both become "smiths grille"
+export function normalizeClientName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(ENTITY_SUFFIXES, ' ')
+    .replace(/^the\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function insuredNameOf(document: PolicyDocument): string | undefined {
+  const policyData = document.extractedData as PolicyData | null;
+  const insuredName = policyData?.insuredName;
+  // The extractor flags conflicting names instead of guessing
+  if (!insuredName || insuredName.startsWith('Inconsistent')) return undefined;
+  return insuredName;
+}
+
+export class ClientPortfolioService {
+  // Link a newly processed document to the agent's client whose name matches
+  // the extracted insured name. Documents already linked by hand are left alone.
+  async autoLinkDocument(documentId: number): Promise<Client | undefined> {
+    const document = await storage.getPolicyDocument(documentId);
+    if (!document || !document.agentId || document.clientId) return undefined;
+
+    const insuredName = insuredNameOf(document);
+    if (!insuredName) return undefined;
+
+    const key = normalizeClientName(insuredName);
+    const clients = await storage.listClients(document.agentId);
+    const client = clients.find(c => normalizeClientName(c.name) === key);
+    if (!client) return undefined;
+
+    await this.linkDocument(document.id, client);
+    console.log(`🔗 Linked document ${document.id} to client ${client.id} (${client.name})`);
+    return client;
+  }
+
+  // Link the agent's unlinked documents whose insured name matches the client,
+  // e.g. right after the client is created. Returns how many were linked.
+  async linkMatchingDocuments(client: Client): Promise<number> {
+    const key = normalizeClientName(client.name);
+    const documents = await storage.listPolicyDocuments(client.agentId);
+
+    let linked = 0;
+    for (const document of documents) {
+      if (document.clientId) continue;
+      const insuredName = insuredNameOf(document);
+      if (insuredName && normalizeClientName(insuredName) === key) {
+        await this.linkDocument(document.id, client);
+        linked++;
+      }
+    }
+    return linked;
+  }
+
+  async linkDocument(documentId: number, client: Client) {
+    return storage.updatePolicyDocument(documentId, {
+      clientId: client.id,
+      clientName: client.name,
+    }, client.agentId);
+  }
+
+  buildPortfolioSummary(client: Client, documents: PolicyDocument[]): ClientPortfolioSummary {
+    const policies: ClientPortfolioPolicy[] = [];
+    const coverages: ClientPortfolioCoverage[] = [];
+    const insurers = new Set<string>();
+    const policyTypes = new Set<string>();
+    let totalPremium: number | null = null;
+    let exclusionCount = 0;
+    let nextExpiration: ClientPortfolioSummary['nextExpiration'];
+    let nextExpirationTime = Infinity;
+    const now = Date.now();
+
+    for (const document of documents) {
+      const policyData = document.processed ? document.extractedData as PolicyData | null : null;
+      if (!policyData) {
+        policies.push({ documentId: document.id, name: document.originalName, processed: false });
+        continue;
+      }
+
+      policies.push({
+        documentId: document.id,
+        name: document.originalName,
+        processed: true,
+        policyType: policyData.policyType,
+        insurer: policyData.insurer,
+        policyNumber: policyData.policyNumber,
+        effectiveDate: policyData.effectiveDate,
+        expirationDate: policyData.expirationDate,
+        premium: policyData.premiumAmount,
+      });
+
+      if (policyData.insurer) insurers.add(policyData.insurer);
+      if (policyData.policyType) policyTypes.add(policyData.policyType);
+
+      const premium = parseAmount(policyData.premiumAmount);
+      if (premium !== null) {
+        totalPremium = (totalPremium ?? 0) + premium;
+      }
+
+      exclusionCount += policyData.exclusions?.length || 0;
+      for (const coverage of policyData.coverageDetails || []) {
+        coverages.push({
+          coverage: coverage.type,
+          limit: coverage.limit,
+          deductible: coverage.deductible,
+          documentId: document.id,
+          policyType: policyData.policyType,
+        });
+      }
+
+      const expiresAt = policyData.expirationDate ? Date.parse(policyData.expirationDate) : NaN;
+      if (!isNaN(expiresAt) && expiresAt >= now && expiresAt < nextExpirationTime) {
+        nextExpirationTime = expiresAt;
+        nextExpiration = { documentId: document.id, expirationDate: policyData.expirationDate! };
+      }
+    }
+
+    return {
+      clientId: client.id,
+      totalPolicies: documents.length,
+      processedPolicies: policies.filter(policy => policy.processed).length,
+      totalPremium,
+      insurers: Array.from(insurers),
+      policyTypes: Array.from(policyTypes),
+      policies,
+      coverages,
+      exclusionCount,
+      nextExpiration,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+export const clientPortfolio = new ClientPortfolioService();
@@ -0,0 +1,319 @@
+import {
+  COVERAGE_LINE_LABELS,
+  GapRuleSetsSchema,
+  type Client,
+  type CoverageGapAnalysis,
+  type CoverageGapFinding,
+  type CoverageLine,
+  type GapPriority,
+  type GapRuleSet,
+  type PolicyData,
+  type PolicyDocument,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { parseAmount } from './policyComparison';
+
+// Built-in rules; an agent can replace them from Settings (userSettings.gapAnalysisRules)
+export const DEFAULT_GAP_RULE_SETS: GapRuleSet[] = [
+  {
+    businessType: 'All commercial insureds',
+    keywords: [],
+    requiredLines: [
+      { line: 'general_liability', priority: 'high', reason: 'Core protection against third-party injury and property damage claims' },
+      { line: 'property', priority: 'medium', reason: 'Buildings, equipment and inventory are not covered by liability policies' },
+      { line: 'umbrella', priority: 'medium', reason: 'Adds limits above general liability, auto and employers liability for severe claims' },
+      { line: 'cyber', priority: 'medium', reason: 'Data breach, ransomware and privacy costs are excluded from GL and property forms' },
+      { line: 'epli', priority: 'medium', reason: 'Wrongful termination, discrimination and harassment claims are excluded from GL' },
+      { line: 'flood', priority: 'low', reason: 'Flood is excluded from standard commercial property forms' },
+    ],
+  },
+  {
+    businessType: 'Restaurants & bars',
+    keywords: ['restaurant', 'bar', 'tavern', 'grill', 'cafe', 'brewery', 'pub', 'winery', 'catering'],
+    requiredLines: [
+      { line: 'liquor_liability', priority: 'high', reason: 'GL excludes claims arising from serving alcohol' },
+      { line: 'business_income', priority: 'high', reason: 'Kitchen fires and equipment breakdowns can close the business for weeks' },
+      { line: 'workers_compensation', priority: 'high', reason: 'Kitchen and service staff injuries are frequent and usually required by law' },
+    ],
+  },
+  {
+    businessType: 'Contractors',
+    keywords: ['contractor', 'construction', 'roofing', 'plumb', 'electric', 'hvac', 'landscap', 'builder', 'remodel'],
+    requiredLines: [
+      { line: 'commercial_auto', priority: 'high', reason: 'Work trucks and vans are excluded from GL' },
+      { line: 'inland_marine', priority: 'high', reason: 'Tools and equipment at job sites are not covered by building property forms' },
+      { line: 'workers_compensation', priority: 'high', reason: 'Construction injuries are common and coverage is usually required by contract' },
+    ],
+  },
+  {
+    businessType: 'Professional services',
+    keywords: ['consult', 'accounting', 'cpa', 'law', 'legal', 'architect', 'engineer', 'technology', 'software', 'medical', 'dental', 'agency'],
+    requiredLines: [
+      { line: 'professional_liability', priority: 'high', reason: 'GL excludes claims for errors in professional advice or services' },
+      { line: 'cyber', priority: 'high', reason: 'Client data is the main exposure for professional firms' },
+    ],
+  },
+  {
+    businessType: 'Retail',
+    keywords: ['retail', 'store', 'shop', 'boutique'],
+    requiredLines: [
+      { line: 'property', priority: 'high', reason: 'Inventory is usually the largest asset' },
+      { line: 'business_income', priority: 'medium', reason: 'Covers lost sales while the store is closed after a covered loss' },
+    ],
+  },
+  {
+    businessType: 'Manufacturing',
+    keywords: ['manufactur', 'fabricat', 'factory', 'machin'],
+    requiredLines: [
+      { line: 'workers_compensation', priority: 'high', reason: 'Plant injuries are frequent and usually required by law' },
+      { line: 'business_income', priority: 'high', reason: 'A production stoppage stops revenue' },
+      { line: 'commercial_auto', priority: 'medium', reason: 'Delivery and shipping vehicles are excluded from GL' },
+    ],
+  },
+  {
+    businessType: 'Real estate & property management',
+    keywords: ['real estate', 'property management', 'landlord', 'apartment', 'rental', 'realty'],
+    requiredLines: [
+      { line: 'property', priority: 'high', reason: 'Owned buildings are the core asset' },
+      { line: 'umbrella', priority: 'high', reason: 'Premises injuries at rental properties can exceed primary limits' },
+      { line: 'flood', priority: 'medium', reason: 'Flood is excluded from standard property forms' },
+    ],
+  },
+  {
+    businessType: 'Nonprofits',
+    keywords: ['nonprofit', 'non-profit', 'charity', 'foundation', 'church', 'association'],
+    requiredLines: [
+      { line: 'directors_officers', priority: 'high', reason: 'Board members are personally exposed to management liability claims' },
+      { line: 'epli', priority: 'medium', reason: 'Staff and volunteer employment claims are excluded from GL' },
+    ],
+  },
+];
+
+// Keywords that identify each line in a coverage type or policy type
+const LINE_PATTERNS: Record<CoverageLine, RegExp> = {
+  general_liability: /general liability|\bcgl\b|commercial liability|premises liability|products.completed|businessowners?|\bbop\b/,
+  property: /property|building|\bbpp\b|businessowners?|\bbop\b|special form|\bfire\b/,
+  business_income: /business income|business interruption|extra expense|loss of income/,
+  commercial_auto: /\bauto|vehicle|hired|non.owned/,
+  workers_compensation: /workers.? comp|workmen|employers.? liability/,
+  umbrella: /umbrella|excess/,
+  cyber: /cyber|data breach|network security|privacy liability/,
+  epli: /employment practices|\bepli\b/,
+  flood: /flood/,
+  professional_liability: /professional liability|errors (and|&) omissions|\be&o\b|malpractice/,
+  liquor_liability: /liquor/,
+  inland_marine: /inland marine|contractors.? equipment|equipment floater|installation floater|\btools\b/,
+  directors_officers: /directors (and|&) officers|\bd&o\b|management liability/,
+};
+
+const COMMERCIAL_PATTERN = /commercial|business|\bbop\b|general liability|workers.? comp|\bllc\b|\binc\b/;
+
+// What umbrella carriers typically require underneath when the schedule is not itemized
+const DEFAULT_UNDERLYING_MINIMUMS: { line: CoverageLine; pattern: RegExp; label: string; minimum: number }[] = [
+  { line: 'general_liability', pattern: /general liability|\bcgl\b|\bgl\b/, label: 'General Liability', minimum: 1_000_000 },
+  { line: 'commercial_auto', pattern: /\bauto/, label: 'Auto Liability', minimum: 1_000_000 },
+  { line: 'workers_compensation', pattern: /employers.? liability/, label: "Employers' Liability", minimum: 500_000 },
+];
+
+const PRIORITY_ORDER: Record<GapPriority, number> = { high: 0, medium: 1, low: 2 };
+
+interface AnalyzedPolicy {
+  documentId: number;
+  policyData: PolicyData;
+  lines: Set<CoverageLine>;
+}
+
+function linesFor(text: string): CoverageLine[] {
+  const lower = text.toLowerCase();
+  return (Object.keys(LINE_PATTERNS) as CoverageLine[]).filter(line => LINE_PATTERNS[line].test(lower));
+}
+
+// Lines a policy provides, from its policy type and each listed coverage part
+export function classifyCoverageLines(policyData: PolicyData): Set<CoverageLine> {
+  const lines = new Set<CoverageLine>(linesFor(policyData.policyType || ''));
+  for (const coverage of policyData.coverageDetails || []) {
+    linesFor(coverage.type).forEach(line => lines.add(line));
+  }
+  return lines;
+}
+
+function matchesBusinessType(ruleSet: GapRuleSet, businessType: string): boolean {
+  const lower = businessType.toLowerCase();
+  return ruleSet.keywords.some(keyword =>
+    new RegExp(`\\b${keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(lower));
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString('en-US')}`;
+}
+
+export class CoverageGapAnalyzer {
+  // The agent's saved rule sets, or the defaults when none are saved
+  async getRuleSets(agentId: number): Promise<GapRuleSet[]> {
+    const settings = await storage.getUserSettings(agentId);
+    const parsed = GapRuleSetsSchema.safeParse(settings?.gapAnalysisRules);
+    return parsed.success && parsed.data.length > 0 ? parsed.data : DEFAULT_GAP_RULE_SETS;
+  }
+
+  async analyzeClient(client: Client): Promise<CoverageGapAnalysis> {
+    const [documents, ruleSets] = await Promise.all([
+      storage.listClientDocuments(client.id),
+      this.getRuleSets(client.agentId),
+    ]);
+    return this.analyze(client, documents, ruleSets);
+  }
+
+  analyze(client: Client, documents: PolicyDocument[], ruleSets: GapRuleSet[]): CoverageGapAnalysis {
+    const policies: AnalyzedPolicy[] = documents
+      .filter(doc => doc.processed && !doc.processingError && doc.extractedData)
+      .map(doc => {
+        const policyData = doc.extractedData as PolicyData;
+        return { documentId: doc.id, policyData, lines: classifyCoverageLines(policyData) };
+      });
+
+    const linesPresent = new Set<CoverageLine>();
+    policies.forEach(policy => policy.lines.forEach(line => linesPresent.add(line)));
+
+    const businessType = client.businessType?.trim() || null;
+    const isCommercial = !!businessType || policies.some(({ policyData }) =>
+      COMMERCIAL_PATTERN.test(`${policyData.policyType} ${policyData.insuredName || ''}`.toLowerCase()));
+
+    // Personal-lines insureds are not held to commercial coverage rules
+    const appliedRuleSets = !isCommercial || policies.length === 0 ? [] : ruleSets.filter(ruleSet =>
+      ruleSet.keywords.length === 0 || (businessType !== null && matchesBusinessType(ruleSet, businessType)));
+
+    const findings = [
+      ...this.missingLineFindings(appliedRuleSets, linesPresent),
+      ...this.umbrellaFindings(policies),
+    ].sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+
+    return {
+      clientId: client.id,
+      clientName: client.name,
+      businessType,
+      isCommercial,
+      appliedRuleSets: appliedRuleSets.map(ruleSet => ruleSet.businessType),
+      linesPresent: Array.from(linesPresent),
+      policiesAnalyzed: policies.length,
+      findings,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private missingLineFindings(ruleSets: GapRuleSet[], linesPresent: Set<CoverageLine>): CoverageGapFinding[] {
+    // The same line can be required by several rule sets; keep the highest priority
+    const required = new Map<CoverageLine, { priority: GapPriority; reason: string; ruleSet: string }>();
+    for (const ruleSet of ruleSets) {
+      for (const { line, priority, reason } of ruleSet.requiredLines) {
+        const existing = required.get(line);
+        if (!existing || PRIORITY_ORDER[priority] < PRIORITY_ORDER[existing.priority]) {
+          required.set(line, { priority, reason, ruleSet: ruleSet.businessType });
+        }
+      }
+    }
+
+    const findings: CoverageGapFinding[] = [];
+    required.forEach(({ priority, reason, ruleSet }, line) => {
+      if (linesPresent.has(line)) return;
+      const label = COVERAGE_LINE_LABELS[line];
+      findings.push({
+        type: 'missing_line',
+        priority,
+        line,
+        title: `No ${label} coverage on file`,
+        detail: reason ? `${reason} (${ruleSet})` : `Recommended for ${ruleSet}`,
+        recommendation: `Confirm whether the insured carries ${label} elsewhere; if not, quote it.`,
+        documentIds: [],
+      });
+    });
+    return findings;
+  }
+
+  private umbrellaFindings(policies: AnalyzedPolicy[]): CoverageGapFinding[] {
+    const umbrellas = policies.filter(policy => policy.lines.has('umbrella'));
+    const findings: CoverageGapFinding[] = [];
+
+    for (const umbrella of umbrellas) {
+      const underlyingPolicies = policies.filter(policy => policy !== umbrella);
+
+      for (const requirement of DEFAULT_UNDERLYING_MINIMUMS) {
+        // Prefer the umbrella's own schedule of underlying insurance when it was extracted
+        const scheduled = umbrella.policyData.coverageDetails.find(coverage => {
+          const text = `${coverage.type} ${coverage.description || ''}`.toLowerCase();
+          return text.includes('underlying') && requirement.pattern.test(text);
+        });
+        const requiredLimit = parseAmount(scheduled?.limit) ?? requirement.minimum;
+
+        const underlying = underlyingPolicies.filter(policy => policy.lines.has(requirement.line));
+        if (underlying.length === 0) {
+          // Auto and employers' liability only matter when the umbrella schedules them
+          if (requirement.line === 'general_liability' || scheduled) {
+            findings.push({
+              type: 'umbrella_underlying_missing',
+              priority: 'medium',
+              line: requirement.line,
+              title: `Umbrella has no ${requirement.label} policy on file underneath`,
+              detail: `The umbrella expects ${requirement.label} of at least ${formatAmount(requiredLimit)} underneath, but no matching policy is linked to this client.`,
+              recommendation: `Add the ${requirement.label} policy to the client file so the underlying limits can be verified.`,
+              documentIds: [umbrella.documentId],
+            });
+          }
+          continue;
+        }
+
+        const actual = this.underlyingLimit(underlying, requirement.pattern);
+        if (actual && actual.amount < requiredLimit) {
+          findings.push({
+            type: 'umbrella_underlying_limit',
+            priority: 'high',
+            line: requirement.line,
+            title: `${requirement.label} limit is below the umbrella's underlying requirement`,
+            detail: `${requirement.label} carries ${formatAmount(actual.amount)} but the umbrella requires ${formatAmount(requiredLimit)} underneath, leaving a ${formatAmount(requiredLimit - actual.amount)} gap the insured would pay.`,
+            recommendation: `Raise the ${requirement.label} limit to ${formatAmount(requiredLimit)} or confirm the umbrella drops down.`,
+            documentIds: [umbrella.documentId, actual.documentId],
+          });
+        }
+      }
+
+      const umbrellaExpires = Date.parse(umbrella.policyData.expirationDate || '');
+      const mismatched = underlyingPolicies.filter(policy => {
+        if (!policy.lines.has('general_liability') && !policy.lines.has('commercial_auto')) return false;
+        const expires = Date.parse(policy.policyData.expirationDate || '');
+        return !isNaN(umbrellaExpires) && !isNaN(expires) && expires !== umbrellaExpires;
+      });
+      if (mismatched.length > 0) {
+        findings.push({
+          type: 'umbrella_term_mismatch',
+          priority: 'low',
+          line: 'umbrella',
+          title: 'Umbrella and underlying policies expire on different dates',
+          detail: `The umbrella expires ${umbrella.policyData.expirationDate}; ${mismatched.map(policy => `${policy.policyData.policyType} expires ${policy.policyData.expirationDate}`).join(', ')}.`,
+          recommendation: 'Align the terms so a lapse in underlying coverage cannot open a gap beneath the umbrella.',
+          documentIds: [umbrella.documentId, ...mismatched.map(policy => policy.documentId)],
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  // Highest per-occurrence style limit among the underlying policies' matching coverage parts
+  private underlyingLimit(policies: AnalyzedPolicy[], pattern: RegExp): { amount: number; documentId: number } | null {
+    let best: { amount: number; documentId: number } | null = null;
+    for (const policy of policies) {
+      for (const coverage of policy.policyData.coverageDetails) {
+        const type = coverage.type.toLowerCase();
+        if (!pattern.test(type) && !pattern.test(policy.policyData.policyType.toLowerCase())) continue;
+        // Aggregate limits are not what the umbrella schedules
+        if (/aggregate/.test(type)) continue;
+        const amount = parseAmount(coverage.limit);
+        if (amount !== null && (!best || amount > best.amount)) {
+          best = { amount, documentId: policy.documentId };
+        }
+      }
+    }
+    return best;
+  }
+}
+
+export const coverageGapAnalyzer = new CoverageGapAnalyzer();
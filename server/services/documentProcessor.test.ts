@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { documentProcessor } from "./documentProcessor";
+import { LLMResponseParseError, MalformedPolicyDataError } from "./llmErrors";
+import { getLLMProvider } from "./llmProvider";
+
+// Skip text extraction; these tests are about what happens to the model's answers
+function withExtractedText() {
+  vi.spyOn(documentProcessor as any, "extractTextFromDocument").mockResolvedValue({ pages: ["Commercial General Liability Policy"], paginated: false });
+}
+
+describe("structured extraction retries", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("asks again when the response cannot be parsed, then gives up for good", async () => {
+    withExtractedText();
+    const analyze = vi.spyOn(getLLMProvider(), "analyzePolicy").mockRejectedValue(new LLMResponseParseError("Could not parse xAI response: Unexpected token"));
+
+    const processing = documentProcessor.processDocument(Buffer.from("policy"), "policy.docx", { summaryLength: "detailed" });
+    await expect(processing).rejects.toBeInstanceOf(MalformedPolicyDataError);
+    await expect(processing).rejects.toThrow(/after 3 attempts \(Could not parse xAI response/);
+    expect(analyze).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not repeat calls that failed for other reasons", async () => {
+    withExtractedText();
+    // Mentioning parsing in the message is not enough to be retried
+    const analyze = vi.spyOn(getLLMProvider(), "analyzePolicy").mockRejectedValue(new Error("xAI API error: 502 - Could not parse upstream reply"));
+
+    await expect(documentProcessor.processDocument(Buffer.from("policy"), "policy.docx", { summaryLength: "detailed" }))
+      .rejects.toThrow("Failed to process document: xAI API error: 502");
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+});
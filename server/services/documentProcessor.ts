@@ -1,18 +1,48 @@
 import mammoth from 'mammoth';
-import { PolicyData, PolicyDataSchema, ProcessingOptions } from '@shared/schema';
-import { extractPolicyData } from './openai-simplified';
-import { xaiService } from './xai';
+import { PolicyData, PolicyDataSchema, ProcessingOptions, ProcessingStage } from '@shared/schema';
+import { factChecker } from './factChecker';
+import { LLMResponseParseError, MalformedPolicyDataError } from './llmErrors';
+import { getLLMProvider, type LLMCallContext } from './llmProvider';
 import { pdfExtractor } from './pdfExtractor';
+import type { ProgressReporter } from './processingEvents';
+import { withDefaults } from './processingOptions';
+import { sourceCitations, type SourceText } from './sourceCitations';
+
+const MAX_EXTRACTION_ATTEMPTS = 3;
+
+// Models often emit null for unknown fields; the schema treats those as absent
+function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== null).map(stripNulls);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, stripNulls(v)])
+    );
+  }
+  return value;
+}
 
 export class DocumentProcessor {
-  async processDocument(buffer: Buffer, filename: string, options?: ProcessingOptions): Promise<{
+  async processDocument(
+    buffer: Buffer,
+    filename: string,
+    options?: Partial<ProcessingOptions>,
+    onStage?: (stage: ProcessingStage) => Promise<void>,
+    onProgress?: ProgressReporter,
+    context: LLMCallContext = {}
+  ): Promise<{
     extractedText: string;
     policyData: PolicyData;
     summary: string;
   }> {
     try {
       console.log(`📄 Starting document processing for: ${filename}`);
-      const extractedText = await this.extractTextFromDocument(buffer, filename);
+      await onStage?.('extracting');
+      const source = await this.extractTextFromDocument(buffer, filename, onProgress);
+      const extractedText = source.pages.filter(Boolean).join('\n\n');
       
       if (!extractedText || extractedText.trim().length === 0) {
         throw new Error('No text content could be extracted from the document');
@@ -26,64 +56,179 @@ export class DocumentProcessor {
         // Still process the full text, but warn about size
         processedText = extractedText;
       }
+      onProgress?.('text_extraction', `Extracted ${processedText.length.toLocaleString()} characters of text`);
+
+      await onStage?.('analyzing');
+      const llmProvider = getLLMProvider();
+      const resolvedOptions = withDefaults(options);
+      let policyData: PolicyData;
+      let summary: string;
+
+      if (resolvedOptions.summaryLength === 'short') {
+        // Short summaries come straight from the text, so run them alongside extraction
+        console.log(`⚡ Processing document with ${llmProvider.name} provider (extraction + quick summary)...`);
+        onProgress?.('llm_call', `Generating client summary with ${llmProvider.name}`);
+        [policyData, summary] = await Promise.all([
+          this.extractPolicyData(processedText, resolvedOptions, onProgress, context.signal),
+          llmProvider.generateQuickSummary(processedText, resolvedOptions, context),
+        ]);
+      } else {
+        // Detailed summaries are built section by section from the validated data
+        console.log(`⚡ Processing document with ${llmProvider.name} provider (extraction, then ${resolvedOptions.detailLevel} summary)...`);
+        policyData = await this.extractPolicyData(processedText, resolvedOptions, onProgress, context.signal);
+        onProgress?.('llm_call', `Writing ${resolvedOptions.outputFormat} ${resolvedOptions.detailLevel} summary with ${llmProvider.name}`);
+        summary = await llmProvider.generateEnhancedSummary(policyData, undefined, resolvedOptions, context);
+      }
 
-
-
-      // Use direct text extraction for all files - faster and more reliable
-      console.log('⚡ Processing document with ultra-fast summary generation...');
-      const quickSummary = await xaiService.generateQuickSummary(processedText);
-      
-      // Create minimal policyData for compatibility
-      const policyData: PolicyData = {
-        policyType: 'Insurance Policy',
-        insurer: 'See document',
-        policyNumber: 'See document',
-        policyPeriod: 'See document',
-        insuredName: 'See document',
-        coverageDetails: [],
-        keyBenefits: [],
-        exclusions: [],
-        eligibilityRequirements: [],
-        claimsProcedure: 'See document',
-        importantContacts: [],
-        additionalNotes: '',
-        confidenceScore: 1.0,
-        extractionWarnings: []
-      };
+      policyData = this.citeSources(policyData, source, onProgress);
+      policyData = this.checkFacts(policyData, summary, source, onProgress);
       
       return {
-        extractedText: processedText.substring(0, 5000), // Keep first 5k chars for better context
+        extractedText: processedText, // indexed for document search
         policyData,
-        summary: quickSummary,
+        summary,
       };
     } catch (error) {
       console.error('Document processing error:', error);
+      // Keep the type so the job queue can tell it will not succeed on retry
+      if (error instanceof MalformedPolicyDataError) throw error;
       throw new Error(`Failed to process document: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async extractTextFromDocument(buffer: Buffer, filename: string): Promise<string> {
+  // Ask the provider for structured policy data and validate it against
+  // PolicyDataSchema. Malformed or unparseable output is retried.
+  private async extractPolicyData(text: string, options: ProcessingOptions, onProgress?: ProgressReporter, signal?: AbortSignal): Promise<PolicyData> {
+    const llmProvider = getLLMProvider();
+    let lastIssue = '';
+
+    for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+      signal?.throwIfAborted();
+      let raw: unknown;
+      onProgress?.('llm_call', `Extracting structured policy data with ${llmProvider.name} (attempt ${attempt} of ${MAX_EXTRACTION_ATTEMPTS})`, { current: attempt, total: MAX_EXTRACTION_ATTEMPTS });
+      try {
+        raw = await llmProvider.analyzePolicy(text, options, { signal });
+      } catch (error) {
+        // Only unparseable responses are worth retrying; network and timeout errors are not
+        if (!(error instanceof LLMResponseParseError)) {
+          throw error;
+        }
+        lastIssue = error.message;
+        console.warn(`⚠️ Extraction attempt ${attempt}/${MAX_EXTRACTION_ATTEMPTS} returned unparseable output: ${error.message}`);
+        onProgress?.('validation', 'Model response could not be parsed');
+        continue;
+      }
+
+      const result = PolicyDataSchema.safeParse(this.normalizePolicyData(raw));
+      if (result.success) {
+        console.log(`✅ Structured extraction validated on attempt ${attempt}: ${result.data.coverageDetails.length} coverages, ${result.data.exclusions.length} exclusions`);
+        onProgress?.('validation', `Validated ${result.data.coverageDetails.length} coverages and ${result.data.exclusions.length} exclusions`);
+        return result.data;
+      }
+
+      lastIssue = result.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+        .join('; ');
+      console.warn(`⚠️ Extraction attempt ${attempt}/${MAX_EXTRACTION_ATTEMPTS} failed validation: ${lastIssue}`);
+      onProgress?.('validation', `Extracted data failed validation: ${lastIssue}`);
+    }
+
+    throw new MalformedPolicyDataError(`AI returned malformed policy data after ${MAX_EXTRACTION_ATTEMPTS} attempts (${lastIssue})`);
+  }
+
+  // Link extracted entries to the pages they came from so agents can check them
+  // against the original without re-reading it
+  private citeSources(policyData: PolicyData, source: SourceText, onProgress?: ProgressReporter): PolicyData {
+    const cited = sourceCitations.cite(policyData, source);
+    const entries = [...cited.coverageDetails, ...cited.exclusions, ...cited.keyBenefits];
+    const found = entries.filter(entry => entry.source).length;
+    console.log(`📑 Cited sources for ${found} of ${entries.length} extracted entries`);
+    onProgress?.('validation', `Linked ${found} of ${entries.length} coverages, exclusions and benefits to the source text`);
+    return cited;
+  }
+
+  // Flag amounts, dates, policy numbers and form codes the model may have made up
+  private checkFacts(policyData: PolicyData, summary: string, source: SourceText, onProgress?: ProgressReporter): PolicyData {
+    const checked = factChecker.check(policyData, summary, source);
+    const { checkedValues, unsupported } = checked.factCheck!;
+    if (unsupported.length > 0) {
+      console.warn(`⚠️ ${unsupported.length} of ${checkedValues} checked values were not found in the source text`);
+    } else {
+      console.log(`🔎 All ${checkedValues} checked values were found in the source text`);
+    }
+    onProgress?.('validation', unsupported.length > 0
+      ? `${unsupported.length} of ${checkedValues} amounts, dates and identifiers could not be found in the document; flagged for review`
+      : `Verified ${checkedValues} amounts, dates and identifiers against the document`);
+    return checked;
+  }
+
+  // Coerce the common shapes models return (nulls, plain strings, the
+  // verification-style coverage list, keyed contact objects) into the schema shape.
+  private normalizePolicyData(raw: unknown): unknown {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return raw;
+    const data = stripNulls(raw) as Record<string, any>;
+
+    if (!Array.isArray(data.coverageDetails) && Array.isArray(data.verifiedCoverageDetails)) {
+      data.coverageDetails = data.verifiedCoverageDetails.map((coverage: any) => ({
+        type: coverage.type,
+        limit: coverage.limit ?? 'Not specified in excerpt',
+        deductible: coverage.deductible,
+        description: coverage.formCode ? `Form ${coverage.formCode}` : undefined,
+      }));
+    }
+    data.coverageDetails = (data.coverageDetails ?? []).map((coverage: any) => ({
+      ...coverage,
+      limit: coverage?.limit ?? 'Not specified in excerpt',
+    }));
+
+    data.exclusions = (data.exclusions ?? []).map((exclusion: any) =>
+      typeof exclusion === 'string' ? { description: exclusion } : exclusion
+    );
+    data.keyBenefits = (data.keyBenefits ?? []).map((benefit: any) =>
+      typeof benefit === 'string' ? { benefit } : benefit
+    );
+    // Citations and fact checks come from the document text, never from the model
+    delete data.factCheck;
+    for (const entry of [...data.coverageDetails, ...data.exclusions, ...data.keyBenefits]) {
+      if (entry && typeof entry === 'object') delete entry.source;
+    }
+
+    if (data.importantContacts && !Array.isArray(data.importantContacts) && typeof data.importantContacts === 'object') {
+      data.importantContacts = Object.entries(data.importantContacts)
+        .filter(([, details]) => typeof details === 'string' && details)
+        .map(([type, details]) => ({ type, details }));
+    }
+
+    data.eligibility = data.eligibility ?? {};
+    data.whyItMatters = data.whyItMatters ?? '';
+
+    return data;
+  }
+
+  private async extractTextFromDocument(buffer: Buffer, filename: string, onProgress?: ProgressReporter): Promise<SourceText> {
     const extension = filename.toLowerCase().split('.').pop();
 
     switch (extension) {
       case 'pdf':
-        return await this.extractFromPDF(buffer);
+        return await this.extractFromPDF(buffer, onProgress);
       case 'docx':
-        return await this.extractFromDOCX(buffer);
+        onProgress?.('text_extraction', 'Reading Word document');
+        return { pages: [await this.extractFromDOCX(buffer)], paginated: false };
       default:
         throw new Error(`Unsupported file format: ${extension}. Only PDF and DOCX files are supported.`);
     }
   }
 
-  private async extractFromPDF(buffer: Buffer): Promise<string> {
+  private async extractFromPDF(buffer: Buffer, onProgress?: ProgressReporter): Promise<SourceText> {
     try {
-      return await pdfExtractor.extractText(buffer);
+      return { pages: await pdfExtractor.extractPages(buffer, onProgress), paginated: true };
     } catch (error) {
       console.error('PDF extraction error:', error);
       
       // For image-based PDFs, provide a helpful fallback
       if (error.message.includes('image-based') || error.message.includes('insufficient readable text')) {
-        return this.generateFallbackContent();
+        return { pages: [this.generateFallbackContent()], paginated: false };
       }
       
       throw new Error(`Failed to extract text from PDF. The document may be image-based, password-protected, or corrupted. Please ensure the document contains readable text and try again. Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -200,9 +345,7 @@ ${policyData.whyItMatters || policyData.explanation || 'This policy provides ess
 
 **EMERGENCY CONTACTS** *(Keep This Information Handy)*
 
-${policyData.importantContacts.emergencyLine ? `• **Emergency Assistance**: ${policyData.importantContacts.emergencyLine}` : ''}
-${policyData.importantContacts.insurer ? `• **Insurance Company**: ${policyData.importantContacts.insurer}` : ''}
-${policyData.importantContacts.administrator ? `• **Policy Administrator**: ${policyData.importantContacts.administrator}` : ''}
+${(policyData.importantContacts ?? []).map(contact => `• **${contact.type}**: ${contact.details}`).join('\n')}
 
 **QUICK ACTION STEPS**
 
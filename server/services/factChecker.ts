@@ -0,0 +1,215 @@
+import type { FactCheckKind, PolicyData, UnsupportedValue } from '@shared/schema';
+import { PLACEHOLDER_VALUE, type SourceText } from './sourceCitations';
+
+export const SUMMARY_LOCATION = 'Summary';
+
+const KIND_LABELS: Record<FactCheckKind, string> = {
+  amount: 'amount',
+  date: 'date',
+  policyNumber: 'policy number',
+  formCode: 'form code',
+};
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  thousand: 1e3, k: 1e3,
+  million: 1e6, mil: 1e6, mm: 1e6, m: 1e6,
+  billion: 1e9, bn: 1e9,
+};
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?(?:\\s?(thousand|million|billion|mil|mm|bn|k|m)\\b)?';
+// Models keep the "$"; the extractor strips it, so the document side matches bare numbers
+const CLAIMED_AMOUNT = new RegExp(`\\$\\s?${NUMBER}`, 'gi');
+const SOURCE_NUMBER = new RegExp(`\\b${NUMBER}`, 'gi');
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Policy numbers written out in a summary, e.g. "Policy Number: BOP-1234567"
+const SUMMARY_POLICY_NUMBER = /policy\s*(?:number|no\.?|#)\s*(?:is\s*)?[:#]?\s*([A-Z0-9][A-Z0-9\-\/.]*\d[A-Z0-9\-\/.]*[A-Z0-9])/gi;
+// ISO-style form codes, e.g. "CG 00 01 04 13" or "IL 00 17"
+const SUMMARY_FORM_CODE = /\b[A-Z]{2,4}[ -]?\d{2}[ -]?\d{2,3}(?:[ -]?\d{2}[ -]?\d{2})?\b/g;
+const IDENTIFIER = /[A-Z0-9][A-Z0-9\-\/.]*[A-Z0-9]/gi;
+
+interface Claim extends UnsupportedValue {
+  // Normalized forms of the value; the claim holds if the document contains any of them
+  keys: string[];
+}
+
+interface SourceIndex {
+  amounts: Set<string>;
+  dates: Set<string>;
+  // Uppercase letters and digits only, so "CG 21 47" and "CG2147" compare equal
+  compact: string;
+}
+
+function compact(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function amountKey(whole: string, fraction: string | undefined, unit: string | undefined): string {
+  const value = parseFloat(`${whole.replace(/,/g, '')}${fraction ? `.${fraction}` : ''}`);
+  return String(Math.round(value * (unit ? AMOUNT_MULTIPLIERS[unit.toLowerCase()] : 1) * 100));
+}
+
+function isoDate(year: string, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  let fullYear = parseInt(year, 10);
+  if (year.length === 2) fullYear += fullYear < 70 ? 2000 : 1900;
+  return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Every date in the text with the ISO dates it could mean. Numeric dates are read both
+// month-first and day-first because policies from either convention come through.
+function findDates(text: string, separator: string): { text: string; keys: string[] }[] {
+  const found: { text: string; keys: string[] }[] = [];
+  const add = (match: string, keys: (string | null)[]) => {
+    const valid = keys.filter((key): key is string => key !== null);
+    if (valid.length > 0) found.push({ text: match.trim(), keys: Array.from(new Set(valid)) });
+  };
+
+  for (const m of Array.from(text.matchAll(new RegExp(`\\b(\\d{4})${separator}(\\d{1,2})${separator}(\\d{1,2})\\b`, 'g')))) {
+    add(m[0], [isoDate(m[1], +m[2], +m[3])]);
+  }
+  for (const m of Array.from(text.matchAll(new RegExp(`\\b(\\d{1,2})${separator}(\\d{1,2})${separator}(\\d{4}|\\d{2})\\b`, 'g')))) {
+    add(m[0], [isoDate(m[3], +m[1], +m[2]), isoDate(m[3], +m[2], +m[1])]);
+  }
+  for (const m of Array.from(text.matchAll(new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi')))) {
+    add(m[0], [isoDate(m[3], MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, +m[2])]);
+  }
+  for (const m of Array.from(text.matchAll(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH},?\\s+(\\d{4})\\b`, 'gi')))) {
+    add(m[0], [isoDate(m[3], MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, +m[1])]);
+  }
+  return found;
+}
+
+export class FactChecker {
+  // Check the dollar amounts, dates, policy numbers and form codes in the extracted
+  // data and summary against the document text. Values from extracted fields that
+  // cannot be found are added to documentInconsistencies, values that only appear in
+  // the summary to unverifiedInformation, and all of them to factCheck for review.
+  check(policyData: PolicyData, summary: string, source: SourceText): PolicyData {
+    const index = this.indexSource(source.pages.join('\n\n'));
+    const claims = [...this.fieldClaims(policyData), ...this.textClaims(summary, SUMMARY_LOCATION)];
+
+    const seen = new Set<string>();
+    const unsupported: UnsupportedValue[] = [];
+    for (const claim of claims) {
+      const id = `${claim.kind}|${claim.keys.join(',')}|${claim.location}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const reported = unsupported.some(finding => finding.kind === claim.kind && finding.value === claim.value && finding.location === claim.location);
+      if (!reported && !this.isSupported(claim, index)) {
+        unsupported.push({ kind: claim.kind, value: claim.value, location: claim.location });
+      }
+    }
+
+    const inconsistencies = [...(policyData.documentInconsistencies ?? [])];
+    const unverified = [...(policyData.unverifiedInformation ?? [])];
+    const reportedFieldValues = new Set<string>();
+    for (const finding of unsupported.filter(finding => finding.location !== SUMMARY_LOCATION)) {
+      reportedFieldValues.add(finding.value);
+      // The model may already have flagged this value as conflicting
+      if (inconsistencies.some(existing => existing.variations.includes(finding.value))) continue;
+      inconsistencies.push({
+        field: finding.location,
+        variations: [finding.value],
+        recommendation: `"${finding.value}" does not appear in the uploaded document. Confirm it against the policy before sending.`,
+      });
+    }
+    for (const finding of unsupported.filter(finding => finding.location === SUMMARY_LOCATION)) {
+      if (reportedFieldValues.has(finding.value)) continue;
+      unverified.push(`The summary states ${KIND_LABELS[finding.kind]} "${finding.value}", which does not appear in the uploaded document`);
+    }
+
+    return {
+      ...policyData,
+      documentInconsistencies: inconsistencies.length > 0 ? inconsistencies : policyData.documentInconsistencies,
+      unverifiedInformation: unverified.length > 0 ? unverified : policyData.unverifiedInformation,
+      factCheck: { checkedValues: seen.size, unsupported },
+    };
+  }
+
+  private indexSource(text: string): SourceIndex {
+    const amounts = new Set<string>();
+    for (const m of Array.from(text.matchAll(SOURCE_NUMBER))) {
+      amounts.add(amountKey(m[1], m[2], undefined));
+      if (m[3]) amounts.add(amountKey(m[1], m[2], m[3]));
+    }
+    // The extractor turns "01/15/2025" into "01 15 2025", so any separator counts
+    const dates = new Set(findDates(text, '[\\s\\/.-]+').flatMap(date => date.keys));
+    return { amounts, dates, compact: compact(text) };
+  }
+
+  private isSupported(claim: Claim, index: SourceIndex): boolean {
+    switch (claim.kind) {
+      case 'amount':
+        return claim.keys.some(key => index.amounts.has(key));
+      case 'date':
+        return claim.keys.some(key => index.dates.has(key));
+      default:
+        return claim.keys.some(key => index.compact.includes(key));
+    }
+  }
+
+  private fieldClaims(policyData: PolicyData): Claim[] {
+    const claims: Claim[] = [];
+    const add = (text: string | undefined, location: string, kinds: ('amount' | 'date')[]) => {
+      if (!text || PLACEHOLDER_VALUE.test(text.trim())) return;
+      if (kinds.includes('amount')) claims.push(...this.amountClaims(text, location));
+      if (kinds.includes('date')) claims.push(...this.dateClaims(text, location));
+    };
+    const addIdentifier = (value: string | undefined, kind: 'policyNumber' | 'formCode', location: string) => {
+      if (!value || PLACEHOLDER_VALUE.test(value.trim())) return;
+      const keys = (value.match(IDENTIFIER) ?? []).filter(token => /\d/.test(token)).map(compact).filter(key => key.length >= 4);
+      // Each number-bearing part must appear, e.g. both halves of "BOP 1234567 / CA 7654321"
+      keys.forEach(key => claims.push({ kind, value: value.trim(), location, keys: [key] }));
+    };
+
+    addIdentifier(policyData.policyNumber, 'policyNumber', 'Policy number');
+    add(policyData.effectiveDate, 'Effective date', ['date']);
+    add(policyData.expirationDate, 'Expiration date', ['date']);
+    add(policyData.policyPeriod, 'Policy period', ['date']);
+    add(policyData.premiumAmount, 'Premium', ['amount']);
+
+    for (const coverage of [...(policyData.coverageDetails ?? []), ...(policyData.verifiedCoverageDetails ?? [])]) {
+      add(coverage.limit, `${coverage.type} limit`, ['amount']);
+      add(coverage.deductible, `${coverage.type} deductible`, ['amount']);
+      if ('description' in coverage) add(coverage.description, `${coverage.type} description`, ['amount', 'date']);
+      if ('formCode' in coverage) addIdentifier(coverage.formCode, 'formCode', `${coverage.type} form code`);
+    }
+    for (const exclusion of policyData.exclusions ?? []) {
+      addIdentifier(exclusion.formCode, 'formCode', 'Exclusion form code');
+    }
+    for (const benefit of policyData.keyBenefits ?? []) {
+      add(`${benefit.benefit} ${benefit.description ?? ''}`, `Benefit: ${benefit.benefit}`, ['amount']);
+    }
+    return claims;
+  }
+
+  private textClaims(text: string, location: string): Claim[] {
+    const claims = [...this.amountClaims(text, location), ...this.dateClaims(text, location)];
+    for (const m of Array.from(text.matchAll(SUMMARY_POLICY_NUMBER))) {
+      claims.push({ kind: 'policyNumber', value: m[1], location, keys: [compact(m[1])] });
+    }
+    for (const m of Array.from(text.matchAll(SUMMARY_FORM_CODE))) {
+      claims.push({ kind: 'formCode', value: m[0], location, keys: [compact(m[0])] });
+    }
+    return claims;
+  }
+
+  private amountClaims(text: string, location: string): Claim[] {
+    return Array.from(text.matchAll(CLAIMED_AMOUNT)).map(m => ({
+      kind: 'amount' as const,
+      value: m[0].trim(),
+      location,
+      keys: [amountKey(m[1], m[2], m[3])],
+    }));
+  }
+
+  // Written dates keep their separators, so only "/", "-" and "." are read as dates
+  // here; "10 15 20" in prose is more likely a list of numbers
+  private dateClaims(text: string, location: string): Claim[] {
+    return findDates(text, '[\\/.-]').map(date => ({ kind: 'date' as const, value: date.text, location, keys: date.keys }));
+  }
+}
+
+export const factChecker = new FactChecker();
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export type FileStorageBackend = 'local' | 's3';
+
+// Where original uploads live. Keys are relative paths such as
+// "policies/1720000000000-policy.pdf"; each backend maps them to its own layout.
+export interface FileStorage {
+  readonly backend: FileStorageBackend;
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export interface S3StorageConfig {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export class LocalFileStorage implements FileStorage {
+  readonly backend: FileStorageBackend = 'local';
+
+  constructor(private rootDir: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        throw new Error(`Stored file not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  // Keep every key inside the storage root
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+// Minimal S3 client (PUT/GET/DELETE object) signed with AWS Signature V4.
+// Uses path-style URLs so it works against MinIO and other S3-compatible servers.
+export class S3FileStorage implements FileStorage {
+  readonly backend: FileStorageBackend = 's3';
+
+  constructor(private config: S3StorageConfig) {}
+
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.request('PUT', key, data, { 'content-type': contentType });
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const url = new URL(this.config.endpoint);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/${encodeRfc3986(this.config.bucket)}/${encodedKey}`;
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+
+    const { host, ...requestHeaders } = headers;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: signS3Request(this.config, method, url.pathname, headers),
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      if (response.status === 404) {
+        throw new Error(`Stored file not found: ${key}`);
+      }
+      throw new Error(`S3 ${method} ${key} failed (${response.status}): ${detail.slice(0, 200)}`);
+    }
+    return response;
+  }
+}
+
+// The AWS Signature V4 Authorization header for an S3 request. `headers` are the
+// headers to sign with lower-case names, including host, x-amz-date and
+// x-amz-content-sha256; `pathname` is already URI-encoded.
+export function signS3Request(
+  config: Pick<S3StorageConfig, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  method: string,
+  pathname: string,
+  headers: Record<string, string>
+): string {
+  const amzDate = headers['x-amz-date'];
+  const dateStamp = amzDate.slice(0, 8);
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map(name => `${name}:${headers[name].trim()}\n`).join('');
+  const signedHeaders = signedHeaderNames.join(';');
+
+  const canonicalRequest = [method, pathname, '', canonicalHeaders, signedHeaders, headers['x-amz-content-sha256']].join('\n');
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey: Buffer = hmac(`AWS4${config.secretAccessKey}`, dateStamp);
+  for (const part of [config.region, 's3', 'aws4_request']) {
+    signingKey = hmac(signingKey, part);
+  }
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+  return `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// FILE_STORAGE=local (default) writes under FILE_STORAGE_DIR (./uploads);
+// FILE_STORAGE=s3 needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.
+export function createFileStorage(env: NodeJS.ProcessEnv = process.env): FileStorage {
+  const backend = (env.FILE_STORAGE || 'local').toLowerCase();
+
+  if (backend === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('FILE_STORAGE=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    console.log(`🗄️ File storage: S3-compatible (${S3_ENDPOINT}, bucket ${S3_BUCKET})`);
+    return new S3FileStorage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  if (backend !== 'local') {
+    throw new Error(`Unknown FILE_STORAGE backend: ${backend} (expected "local" or "s3")`);
+  }
+
+  const rootDir = env.FILE_STORAGE_DIR || path.join(process.cwd(), 'uploads');
+  console.log(`🗄️ File storage: local filesystem (${rootDir})`);
+  return new LocalFileStorage(rootDir);
+}
+
+export const fileStorage = createFileStorage();
+
+// Storage key for a newly uploaded original
+export function originalFileKey(filename: string): string {
+  return `policies/${filename.replace(/[^\w.\-]+/g, '_')}`;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FIRM_CONTACT, firmContact, firmContactLine, firmSignOff } from "./firmBranding";
+import { OfflineProvider } from "./offlineProvider";
+import { shortSummaryBullets, summarySections, withDefaults } from "./processingOptions";
+
+const policyText = "Commercial General Liability Policy\nUnderwritten by Acme Mutual\nPolicy Number: GL-12345\nEach Occurrence Limit $1,000,000";
+
+describe("firm branding", () => {
+  it("uses the agency's firm name and falls back to the default firm", () => {
+    expect(firmContact({ firmName: " Blue Ridge Brokers ", firmPhone: "" })).toEqual({ name: "Blue Ridge Brokers", shortName: "Blue Ridge Brokers", phone: "" });
+    expect(firmContact({ firmName: "" })).toBe(DEFAULT_FIRM_CONTACT);
+    expect(firmContact(undefined)).toBe(DEFAULT_FIRM_CONTACT);
+  });
+
+  it("leaves out a phone number the firm has not given", () => {
+    const firm = firmContact({ firmName: "Blue Ridge Brokers" });
+    expect(firmContactLine(firm)).toBe("Blue Ridge Brokers");
+    expect(firmSignOff(firm)).toBe("Contact Blue Ridge Brokers");
+    expect(shortSummaryBullets(withDefaults({}), firm).at(-1)).toBe("How to reach Blue Ridge Brokers");
+  });
+
+  it("names the firm in the support section", () => {
+    const firm = firmContact({ firmName: "Blue Ridge Brokers", firmPhone: "(555) 010-2000" });
+    expect(summarySections(withDefaults({}), firm).at(-1)?.heading).toBe("Your Blue Ridge Brokers Partnership & Support");
+    expect(summarySections(withDefaults({})).at(-1)?.heading).toBe("Your Valley Trust Partnership & Support");
+  });
+
+  it("translates offline summaries for any firm name", async () => {
+    const provider = new OfflineProvider();
+    const firm = firmContact({ firmName: "Blue Ridge Brokers", firmPhone: "(555) 010-2000" });
+    const policyData = await provider.analyzePolicy(policyText);
+    const detailed = await provider.generateEnhancedSummary(policyData, undefined, {}, { firm });
+    const quick = await provider.generateQuickSummary(policyText, { summaryLength: "short" }, { firm });
+
+    const { summary } = await provider.translateSummary(`${detailed}\n\n${quick}`, [], "es");
+    expect(summary).toContain("[Su relación con Blue Ridge Brokers y nuestro apoyo]");
+    expect(summary).toContain("Comuníquese con Blue Ridge Brokers: (555) 010-2000");
+    expect(summary).not.toContain("Valley Trust");
+  });
+});
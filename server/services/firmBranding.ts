@@ -0,0 +1,36 @@
+import type { AgencyBranding } from '@shared/schema';
+
+// The firm a summary or export points the client to
+export interface FirmContact {
+  name: string;
+  shortName: string; // in section headings: "Your Valley Trust Partnership & Support"
+  phone: string;
+}
+
+// The firm this app was first built for, used until an agency enters its own
+// firm name; its bundled logo is only drawn on that firm's exports
+export const DEFAULT_FIRM_CONTACT: FirmContact = {
+  name: 'Valley Trust Insurance',
+  shortName: 'Valley Trust',
+  phone: '(540) 885-5531',
+};
+
+export function firmContact(branding?: Partial<AgencyBranding> | null): FirmContact {
+  const name = branding?.firmName?.trim();
+  if (!name) return DEFAULT_FIRM_CONTACT;
+  return { name, shortName: name, phone: branding?.firmPhone?.trim() ?? '' };
+}
+
+export function isDefaultFirm(firmName: string): boolean {
+  return firmName === DEFAULT_FIRM_CONTACT.name;
+}
+
+// "Valley Trust Insurance at (540) 885-5531", or just the name without a phone number
+export function firmContactLine(firm: FirmContact): string {
+  return firm.phone ? `${firm.name} at ${firm.phone}` : firm.name;
+}
+
+// Closing line of a quick summary: "Contact Valley Trust: (540) 885-5531"
+export function firmSignOff(firm: FirmContact): string {
+  return firm.phone ? `Contact ${firm.shortName}: ${firm.phone}` : `Contact ${firm.name}`;
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { documentProcessor } from "./documentProcessor";
+import { MalformedPolicyDataError } from "./llmErrors";
+import { processingJobQueue } from "./jobQueue";
+
+// An attempt that runs until the test ends it, like a slow AI call
+function holdProcessing() {
+  let started!: (signal: AbortSignal) => void;
+  const running = new Promise<AbortSignal>(resolve => { started = resolve; });
+  let finish!: (error: unknown) => void;
+
+  vi.spyOn(documentProcessor, "processDocument").mockImplementation((_buffer, _filename, _options, _onStage, _onProgress, context) =>
+    new Promise((_, reject) => {
+      finish = reject;
+      started(context!.signal!);
+    }));
+  return { running, finish: (error: unknown) => finish(error) };
+}
+
+async function queueDocument() {
+  const document = await storage.createPolicyDocument({ agentId: 1, filename: "policy.pdf", originalName: "policy.pdf", fileSize: 4, fileType: "application/pdf" });
+  const job = await processingJobQueue.enqueue(document.id, "policy.pdf", {}, { buffer: Buffer.from("%PDF") });
+  return { document, job };
+}
+
+describe("processing job queue", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("aborts a running attempt when the job row is cancelled", async () => {
+    const attempt = holdProcessing();
+    const { document, job } = await queueDocument();
+    const signal = await attempt.running;
+
+    // Written straight to the row, as a cancel handled by another server process would be
+    await storage.updateProcessingJob(job.id, { status: "cancelled", cancelRequestedAt: new Date() });
+    await vi.waitFor(() => expect(signal.aborted).toBe(true), { timeout: 5000 });
+    attempt.finish(signal.reason);
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const stored = await storage.getProcessingJob(job.id);
+    expect(stored?.status).toBe("cancelled");
+    expect(stored?.lastError).toBeNull();
+    expect((await storage.getPolicyDocument(document.id))?.processed).toBe(false);
+  });
+
+  it("marks the cancellation on the job and document", async () => {
+    const attempt = holdProcessing();
+    const { document, job } = await queueDocument();
+    const signal = await attempt.running;
+
+    expect(await processingJobQueue.cancel(document.id)).toBe(true);
+    await vi.waitFor(() => expect(signal.aborted).toBe(true), { timeout: 5000 });
+    attempt.finish(signal.reason);
+
+    expect((await storage.getProcessingJob(job.id))?.cancelRequestedAt).toBeInstanceOf(Date);
+    expect((await storage.getPolicyDocument(document.id))?.processingError).toBe("Processing cancelled");
+  });
+
+  it("fails a job at once when the model keeps returning malformed data", async () => {
+    vi.spyOn(documentProcessor, "processDocument").mockRejectedValue(new MalformedPolicyDataError("AI returned malformed policy data after 3 attempts (root: Required)"));
+    const { document, job } = await queueDocument();
+
+    await vi.waitFor(async () => expect((await storage.getProcessingJob(job.id))?.status).toBe("failed"));
+    const stored = await storage.getProcessingJob(job.id);
+    expect(stored).toMatchObject({ attempts: 1, lastError: "AI returned malformed policy data after 3 attempts (root: Required)" });
+    expect((await storage.getPolicyDocument(document.id))?.processingError).toMatch(/malformed policy data/);
+  });
+
+  it("retries a timed-out attempt only after it has stopped", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const attempt = holdProcessing();
+    const { job } = await queueDocument();
+    const signal = await attempt.running;
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(signal.aborted).toBe(true);
+    expect((await storage.getProcessingJob(job.id))?.status).toBe("running");
+
+    attempt.finish(signal.reason);
+    await vi.waitFor(async () => expect((await storage.getProcessingJob(job.id))?.status).toBe("queued"));
+    expect((await storage.getProcessingJob(job.id))?.lastError).toBe("Document processing timed out");
+  });
+
+  it("fails interrupted jobs on their last attempt and requeues the rest once their heartbeat is stale", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const runningJob = async (attempts: number) => {
+      const document = await storage.createPolicyDocument({ agentId: 1, filename: "policy.pdf", originalName: "policy.pdf", fileSize: 4, fileType: "application/pdf" });
+      const job = await storage.createProcessingJob({ documentId: document.id, filename: "policy.pdf", options: {}, sourceData: "JVBERg==", status: "running", stage: "analyzing" });
+      await storage.updateProcessingJob(job.id, { attempts });
+      return { document, job };
+    };
+    const exhausted = await runningJob(3);
+    const retryable = await runningJob(1);
+
+    // A worker on another server process is still touching this one
+    vi.setSystemTime(Date.now() + 10 * 60 * 1000);
+    const live = await runningJob(1);
+    await processingJobQueue.recoverInterruptedJobs();
+
+    expect(await storage.getProcessingJob(exhausted.job.id)).toMatchObject({ status: "failed", lastError: "Processing stopped unexpectedly on every attempt", sourceData: null });
+    expect((await storage.getPolicyDocument(exhausted.document.id))?.processingError).toBe("Processing stopped unexpectedly on every attempt");
+    expect(await storage.getProcessingJob(retryable.job.id)).toMatchObject({ status: "queued", stage: "queued", attempts: 1 });
+    expect((await storage.getProcessingJob(live.job.id))?.status).toBe("running");
+  });
+});
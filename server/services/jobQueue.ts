@@ -0,0 +1,361 @@
+import { SUMMARY_LANGUAGE_LABELS, type AgencyBranding, type ProcessingJob, type ProcessingJobStatus, type ProcessingOptions, type ProcessingStage } from '@shared/schema';
+import { storage } from '../storage';
+import { documentProcessor } from './documentProcessor';
+import { firmContact, type FirmContact } from './firmBranding';
+import { MalformedPolicyDataError } from './llmErrors';
+import { clientPortfolio } from './clientPortfolio';
+import { fileStorage } from './fileStorage';
+import { processingEvents } from './processingEvents';
+import { policyEffectiveDate, policyExpirationDate } from './policyDates';
+import { summaryTranslator } from './summaryTranslation';
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 30000; // running jobs touch their row this often
+const STALE_JOB_MS = 4 * HEARTBEAT_INTERVAL_MS; // a running job untouched this long has lost its worker
+const RETRY_BASE_DELAY_MS = 30000; // 30s, 60s, 120s...
+const DEFAULT_JOB_DURATION_MS = 90000; // ETA fallback until some jobs have completed
+const CANCELLED_MESSAGE = 'Processing cancelled';
+const TIMED_OUT_MESSAGE = 'Document processing timed out';
+const INTERRUPTED_MESSAGE = 'Processing stopped unexpectedly on every attempt';
+
+const STAGE_MESSAGES: Record<ProcessingStage, string> = {
+  queued: 'Waiting in queue',
+  extracting: 'Extracting text from document',
+  analyzing: 'Analyzing policy with AI',
+  saving: 'Saving results',
+  completed: 'Processing complete',
+};
+
+// Failures that will repeat on every attempt, so retrying only delays the error
+const PERMANENT_ERROR_PATTERNS = ['Unsupported file format', 'No text content', 'no source file', 'Stored file not found'];
+
+export interface ProcessingJobProgress {
+  status: ProcessingJobStatus;
+  stage: ProcessingStage;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  etaSeconds: number | null;
+}
+
+// Turn raw processing errors into messages an agent can act on
+function describeProcessingError(message: string): string {
+  if (message.includes('timed out')) {
+    return 'Document processing timed out. This usually happens with very large documents (over 50 pages). Please try splitting the document into smaller sections or contact support.';
+  } else if (message.includes('API') || message.includes('fetch')) {
+    return 'External AI service temporarily unavailable. Please wait a few minutes and try again.';
+  } else if (message.includes('extract')) {
+    return 'Unable to extract text from document. Please ensure the PDF contains readable text (not just images).';
+  }
+  return message || 'Processing failed';
+}
+
+export class ProcessingJobQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private busy = false;
+
+  // Recover jobs whose worker stopped, then start polling. Recovery keeps running so
+  // jobs abandoned by another server process are picked up without a restart here.
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.recoverInterruptedJobs();
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.recoveryTimer = setInterval(() => this.recoverInterruptedJobs(), HEARTBEAT_INTERVAL_MS);
+    console.log(`✅ Processing job worker started (polling every ${POLL_INTERVAL_MS}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+  }
+
+  // Running jobs without a recent heartbeat were interrupted (crash, restart or deploy).
+  // Jobs that already used every attempt are failed so a job that takes the server
+  // down cannot restart it forever.
+  async recoverInterruptedJobs(): Promise<void> {
+    try {
+      const { requeued, failed } = await storage.requeueInterruptedProcessingJobs(new Date(Date.now() - STALE_JOB_MS));
+      if (requeued > 0) {
+        console.log(`🔁 Requeued ${requeued} interrupted processing job(s)`);
+      }
+      for (const job of failed) {
+        console.error(`❌ Job ${job.id} interrupted on its last attempt (${job.attempts}/${job.maxAttempts})`);
+        await storage.updateProcessingJob(job.id, { lastError: INTERRUPTED_MESSAGE });
+        await storage.updatePolicyDocument(job.documentId, {
+          processed: true,
+          processingError: describeProcessingError(INTERRUPTED_MESSAGE),
+        });
+        processingEvents.publish(job.documentId, 'failed', job.stage as ProcessingStage, INTERRUPTED_MESSAGE);
+      }
+    } catch (error) {
+      console.error('Failed to recover interrupted processing jobs:', error);
+    }
+  }
+
+  // Jobs read the original from file storage; pass the buffer only when no stored copy exists
+  async enqueue(
+    documentId: number,
+    filename: string,
+    options: ProcessingOptions | Record<string, any>,
+    source: { storageKey: string } | { buffer: Buffer }
+  ): Promise<ProcessingJob> {
+    const job = await storage.createProcessingJob({
+      documentId,
+      filename,
+      options,
+      storageKey: 'storageKey' in source ? source.storageKey : null,
+      sourceData: 'buffer' in source ? source.buffer.toString('base64') : null,
+      status: 'queued',
+      stage: 'queued',
+    });
+    console.log(`📥 Queued processing job ${job.id} for document ${documentId}`);
+    processingEvents.publish(documentId, 'queued', 'queued', 'Queued for processing');
+
+    // Pick it up straight away instead of waiting for the next poll
+    void this.tick();
+    return job;
+  }
+
+  async cancel(documentId: number): Promise<boolean> {
+    const job = await storage.getLatestProcessingJob(documentId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return false;
+    }
+
+    // Whichever worker is running the job sees the request on its row, stops its
+    // AI calls and discards the result
+    await storage.updateProcessingJob(job.id, {
+      status: 'cancelled',
+      cancelRequestedAt: new Date(),
+      completedAt: new Date(),
+      sourceData: null,
+    });
+    await storage.updatePolicyDocument(documentId, {
+      processed: true,
+      processingError: CANCELLED_MESSAGE,
+    });
+    console.log(`🛑 Cancelled processing job ${job.id} for document ${documentId}`);
+    processingEvents.publish(documentId, 'cancelled', job.stage as ProcessingStage, CANCELLED_MESSAGE);
+    return true;
+  }
+
+  async getProgress(documentId: number): Promise<ProcessingJobProgress | undefined> {
+    const job = await storage.getLatestProcessingJob(documentId);
+    if (!job) return undefined;
+
+    return {
+      status: job.status as ProcessingJobStatus,
+      stage: job.stage as ProcessingStage,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lastError: job.lastError,
+      nextAttemptAt: job.status === 'queued' && job.attempts > 0 ? job.runAfter : null,
+      etaSeconds: await this.estimateSecondsRemaining(job),
+    };
+  }
+
+  private async estimateSecondsRemaining(job: ProcessingJob): Promise<number | null> {
+    if (job.status !== 'queued' && job.status !== 'running') return null;
+
+    const averageMs = (await storage.getAverageProcessingDuration()) ?? DEFAULT_JOB_DURATION_MS;
+    const now = Date.now();
+    const remainingMs = job.status === 'running' && job.startedAt
+      ? Math.max(averageMs - (now - job.startedAt.getTime()), 0)
+      : Math.max(job.runAfter.getTime() - now, 0) + averageMs;
+
+    return Math.round(remainingMs / 1000);
+  }
+
+  private async loadSource(job: ProcessingJob): Promise<Buffer> {
+    if (job.storageKey) {
+      return fileStorage.read(job.storageKey);
+    }
+    if (job.sourceData) {
+      return Buffer.from(job.sourceData, 'base64');
+    }
+    throw new Error('Job has no source file to process');
+  }
+
+  // Summaries point clients to the firm of the agency that uploaded the document
+  private async firmFor(documentId: number): Promise<FirmContact> {
+    const document = await storage.getPolicyDocument(documentId);
+    const agent = document?.agentId ? await storage.getAgent(document.agentId) : undefined;
+    const agency = agent?.agencyId ? await storage.getAgency(agent.agencyId) : undefined;
+    return firmContact(agency?.branding as Partial<AgencyBranding> | undefined);
+  }
+
+  private async isCancelRequested(jobId: number): Promise<boolean> {
+    const job = await storage.getProcessingJob(jobId);
+    return !!job?.cancelRequestedAt;
+  }
+
+  // Process queued jobs one at a time until none are due
+  private async tick(): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+
+    try {
+      let job: ProcessingJob | undefined;
+      while ((job = await storage.claimNextProcessingJob())) {
+        await this.run(job);
+      }
+    } catch (error) {
+      console.error('Processing job worker error:', error);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async run(job: ProcessingJob): Promise<void> {
+    const startTime = Date.now();
+    const options = job.options as ProcessingOptions;
+    console.log(`🚀 Starting job ${job.id} for document ${job.documentId} (attempt ${job.attempts}/${job.maxAttempts})`);
+    console.log(`📋 Processing options:`, options);
+
+    // Cancelling or timing out aborts the attempt's AI calls; the attempt still runs
+    // to the end before the job is retried, so two attempts never overlap
+    const controller = new AbortController();
+    let stopReason: 'cancelled' | 'timed_out' | undefined;
+    const stop = (reason: 'cancelled' | 'timed_out') => {
+      if (stopReason) return;
+      stopReason = reason;
+      controller.abort(new Error(reason === 'cancelled' ? CANCELLED_MESSAGE : TIMED_OUT_MESSAGE));
+    };
+
+    let currentStage: ProcessingStage = 'queued';
+    const report = processingEvents.reporter(job.documentId, () => currentStage);
+    const onStage = async (stage: ProcessingStage) => {
+      if (await this.isCancelRequested(job.id)) stop('cancelled');
+      controller.signal.throwIfAborted();
+      currentStage = stage;
+      await storage.updateProcessingJob(job.id, { stage });
+      report('stage', job.attempts > 1 ? `${STAGE_MESSAGES[stage]} (attempt ${job.attempts} of ${job.maxAttempts})` : STAGE_MESSAGES[stage]);
+    };
+
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    // The cancel request may come from another server process, so watch the job row
+    const cancelWatch = setInterval(() => {
+      this.isCancelRequested(job.id)
+        .then(cancelled => { if (cancelled) stop('cancelled'); })
+        .catch(error => console.error(`Failed to check job ${job.id} for cancellation:`, error));
+    }, POLL_INTERVAL_MS);
+    // Touching the row tells recovery on every server process that this job is still alive
+    const heartbeat = setInterval(() => {
+      storage.updateProcessingJob(job.id, { updatedAt: new Date() })
+        .catch(error => console.error(`Failed to record heartbeat for job ${job.id}:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+    try {
+      const source = await this.loadSource(job);
+      const firm = await this.firmFor(job.documentId);
+
+      // Optimized timeout for Grok 4 (faster overall processing)
+      // Check both NODE_ENV and Replit deployment indicators
+      const isDeployed = process.env.NODE_ENV === 'production' || process.env.REPLIT_DEPLOYMENT === '1';
+      const timeoutMs = isDeployed ? 600000 : 420000; // 10 or 7 minutes
+      timeoutHandle = setTimeout(() => stop('timed_out'), timeoutMs);
+
+      const result = await documentProcessor.processDocument(source, job.filename, options, onStage, report, { signal: controller.signal, firm });
+
+      await onStage('saving');
+      await storage.saveDocumentText(job.documentId, result.extractedText);
+      await storage.updatePolicyDocument(job.documentId, {
+        processed: true,
+        extractedData: result.policyData as any,
+        summary: result.summary,
+        processingError: null,
+        processingOptions: options || {},
+        effectiveDate: policyEffectiveDate(result.policyData),
+        expirationDate: policyExpirationDate(result.policyData),
+        // A new summary needs its own review
+        reviewStatus: 'draft',
+        approvedById: null,
+        approvedAt: null,
+        approvedVersion: null,
+      });
+
+      // Linking is a convenience; never fail a finished job over it
+      await clientPortfolio.autoLinkDocument(job.documentId).catch(error => {
+        console.error(`Client auto-link failed for document ${job.documentId}:`, error);
+      });
+
+      if (result.summary) {
+        await storage.createSummaryVersion({
+          documentId: job.documentId,
+          summary: result.summary,
+          version: 1,
+          isActive: true,
+          processingOptions: options || {},
+          source: 'processing',
+        });
+
+        // The English summary is reviewed; the translation is kept for client exports
+        if (options?.language && options.language !== 'en') {
+          report('llm_call', `Translating summary to ${SUMMARY_LANGUAGE_LABELS[options.language]}`);
+          const document = await storage.getPolicyDocument(job.documentId);
+          if (document) await summaryTranslator.prepare(document, options.language);
+        }
+      }
+
+      await storage.updateProcessingJob(job.id, {
+        status: 'completed',
+        stage: 'completed',
+        completedAt: new Date(),
+        lastError: null,
+        sourceData: null,
+      });
+      console.log(`✅ Job ${job.id} completed in ${Date.now() - startTime}ms`);
+      currentStage = 'completed';
+      report('saved', 'Summary saved');
+    } catch (error) {
+      if (stopReason === 'cancelled' || await this.isCancelRequested(job.id).catch(() => false)) {
+        console.log(`🛑 Job ${job.id} stopped after cancellation`);
+        return;
+      }
+
+      const message = stopReason === 'timed_out' ? TIMED_OUT_MESSAGE : error instanceof Error ? error.message : String(error);
+
+      const permanent = error instanceof MalformedPolicyDataError || PERMANENT_ERROR_PATTERNS.some(pattern => message.includes(pattern));
+      if (!permanent && job.attempts < job.maxAttempts) {
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+        console.warn(`⚠️ Job ${job.id} attempt ${job.attempts} failed after ${Date.now() - startTime}ms, retrying in ${delayMs / 1000}s: ${message}`);
+        await storage.updateProcessingJob(job.id, {
+          status: 'queued',
+          stage: 'queued',
+          lastError: message,
+          runAfter: new Date(Date.now() + delayMs),
+        });
+        currentStage = 'queued';
+        report('retry', `Attempt ${job.attempts} failed (${message}); retrying in ${delayMs / 1000}s`);
+        return;
+      }
+
+      console.error(`❌ Job ${job.id} failed after ${job.attempts} attempt(s):`, error);
+      await storage.updateProcessingJob(job.id, {
+        status: 'failed',
+        completedAt: new Date(),
+        lastError: message,
+        sourceData: null,
+      });
+      await storage.updatePolicyDocument(job.documentId, {
+        processed: true,
+        processingError: describeProcessingError(message),
+      });
+      report('failed', describeProcessingError(message));
+    } finally {
+      clearTimeout(timeoutHandle);
+      clearInterval(cancelWatch);
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+export const processingJobQueue = new ProcessingJobQueue();
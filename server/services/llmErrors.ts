@@ -0,0 +1,17 @@
+// The model answered, but not with JSON that could be read. Worth asking again:
+// the same prompt often parses on the next attempt.
+export class LLMResponseParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMResponseParseError';
+  }
+}
+
+// Every extraction attempt came back unparseable or failed validation. Retrying
+// the job would only repeat the same calls, so the job fails straight away.
+export class MalformedPolicyDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MalformedPolicyDataError';
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest";
+import { createLLMProvider, loadLLMConfig } from "./llmProvider";
+
+describe("LLM provider configuration", () => {
+  it("uses the vendor whose key is set", () => {
+    expect(loadLLMConfig({ NODE_ENV: "production", XAI_API_KEY: "xai-key" }).provider).toBe("xai");
+    expect(loadLLMConfig({ NODE_ENV: "production", OPENAI_API_KEY: "sk-key" }).provider).toBe("openai");
+  });
+
+  it("refuses to fall back to the offline analyzer in production", () => {
+    expect(() => loadLLMConfig({ NODE_ENV: "production" })).toThrow(/No LLM provider is configured/);
+    // A generic key says nothing about which vendor it is for
+    expect(() => loadLLMConfig({ NODE_ENV: "production", LLM_API_KEY: "key" })).toThrow(/LLM_PROVIDER/);
+    expect(loadLLMConfig({ NODE_ENV: "production", LLM_PROVIDER: "offline" }).provider).toBe("offline");
+  });
+
+  it("falls back to the offline analyzer in development", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(loadLLMConfig({ NODE_ENV: "development" }).provider).toBe("offline");
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("names the missing key for a chosen vendor", () => {
+    const config = loadLLMConfig({ NODE_ENV: "production", LLM_PROVIDER: "openai" });
+    expect(() => createLLMProvider(config)).toThrow("OPENAI_API_KEY (or LLM_API_KEY) environment variable is required for the OpenAI provider");
+  });
+});
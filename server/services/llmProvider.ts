@@ -0,0 +1,150 @@
+import type { PolicyData, ProcessingOptions, SummaryLanguage } from '@shared/schema';
+import { XAIService } from './xai';
+import { OpenAICompatibleProvider } from './openai';
+import { OfflineProvider } from './offlineProvider';
+import type { FirmContact } from './firmBranding';
+
+export type LLMProviderName = 'xai' | 'openai' | 'offline';
+
+// Every AI call in the pipeline (document processing, regeneration, analysis)
+// goes through this interface so the backend can be swapped by configuration.
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  analyzePolicy(documentText: string, options?: Partial<ProcessingOptions>, context?: LLMCallContext): Promise<PolicyData>;
+  generateEnhancedSummary(policyData: PolicyData, clientContext?: string, options?: Partial<ProcessingOptions>, context?: LLMCallContext): Promise<string>;
+  generateQuickSummary(documentText: string, options?: Partial<ProcessingOptions>, context?: LLMCallContext): Promise<string>;
+  // Translate an English summary and the free-text extracted fields (same order and
+  // count back) into `language`, keeping figures, names and numbers as written
+  translateSummary(summary: string, texts: string[], language: SummaryLanguage): Promise<{ summary: string; texts: string[] }>;
+}
+
+// What a single call needs beyond its input
+export interface LLMCallContext {
+  firm?: FirmContact; // who summaries point the client to (the agency's branding)
+  signal?: AbortSignal; // aborts the request when a processing job is cancelled or times out
+}
+
+export interface LLMTimeouts {
+  analysisMs: number;
+  summaryMs: number;
+  quickSummaryMs: number;
+  retryMs: number;
+}
+
+// Settings shared by all OpenAI-style chat completion backends
+export interface ChatCompletionsConfig {
+  label: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  fastModel: string;
+  timeouts: LLMTimeouts;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  fastModel?: string;
+  timeouts: LLMTimeouts;
+}
+
+const PROVIDER_DEFAULTS: Record<Exclude<LLMProviderName, 'offline'>, Omit<ChatCompletionsConfig, 'apiKey' | 'timeouts'>> = {
+  xai: {
+    label: 'xAI',
+    baseUrl: 'https://api.x.ai/v1',
+    model: 'grok-4-0709',
+    fastModel: 'grok-3-mini-fast',
+  },
+  openai: {
+    label: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o',
+    fastModel: 'gpt-4o-mini',
+  },
+};
+
+function readNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  // Check both NODE_ENV and Replit deployment indicators
+  const isDeployed = env.NODE_ENV === 'production' || !!env.REPL_ID || env.REPLIT_DEPLOYMENT === '1';
+
+  let provider = env.LLM_PROVIDER?.toLowerCase() as LLMProviderName | undefined;
+  if (provider && !['xai', 'openai', 'offline'].includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Expected one of: xai, openai, offline`);
+  }
+
+  // Without an explicit choice, use whichever vendor has a key configured. Only
+  // development falls back to the offline analyzer: in production that would
+  // quietly hand clients rule-based summaries, so a missing key is an error.
+  if (!provider) {
+    if (env.XAI_API_KEY) {
+      provider = 'xai';
+    } else if (env.OPENAI_API_KEY) {
+      provider = 'openai';
+    } else if (env.NODE_ENV === 'production') {
+      throw new Error('No LLM provider is configured: set XAI_API_KEY or OPENAI_API_KEY (or LLM_PROVIDER with LLM_API_KEY), or set LLM_PROVIDER=offline to use the rule-based analyzer');
+    } else {
+      console.warn('⚠️ No LLM API key is set; using the offline rule-based analyzer (set LLM_PROVIDER to choose a provider)');
+      provider = 'offline';
+    }
+  }
+
+  const vendorKey = provider === 'xai' ? env.XAI_API_KEY : provider === 'openai' ? env.OPENAI_API_KEY : undefined;
+
+  return {
+    provider,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY || vendorKey,
+    model: env.LLM_MODEL,
+    fastModel: env.LLM_FAST_MODEL,
+    timeouts: {
+      analysisMs: readNumber('LLM_ANALYSIS_TIMEOUT_MS', isDeployed ? 240000 : 120000),
+      summaryMs: readNumber('LLM_SUMMARY_TIMEOUT_MS', isDeployed ? 120000 : 90000),
+      quickSummaryMs: readNumber('LLM_QUICK_SUMMARY_TIMEOUT_MS', 45000),
+      retryMs: readNumber('LLM_RETRY_TIMEOUT_MS', 60000),
+    },
+  };
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  if (config.provider === 'offline') {
+    return new OfflineProvider();
+  }
+
+  const defaults = PROVIDER_DEFAULTS[config.provider];
+  if (!config.apiKey) {
+    const keyName = config.provider === 'xai' ? 'XAI_API_KEY' : 'OPENAI_API_KEY';
+    throw new Error(`${keyName} (or LLM_API_KEY) environment variable is required for the ${defaults.label} provider`);
+  }
+
+  const chatConfig: ChatCompletionsConfig = {
+    label: defaults.label,
+    baseUrl: (config.baseUrl || defaults.baseUrl).replace(/\/+$/, ''),
+    apiKey: config.apiKey,
+    model: config.model || defaults.model,
+    fastModel: config.fastModel || config.model || defaults.fastModel,
+    timeouts: config.timeouts,
+  };
+
+  return config.provider === 'xai'
+    ? new XAIService(chatConfig)
+    : new OpenAICompatibleProvider(chatConfig);
+}
+
+let configuredProvider: LLMProvider | undefined;
+
+// The provider the environment configures, created on first use so importing
+// this module never fails. The server calls it at startup to surface
+// configuration errors before accepting uploads.
+export function getLLMProvider(): LLMProvider {
+  configuredProvider ??= createLLMProvider(loadLLMConfig());
+  return configuredProvider;
+}
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from "vitest";
+import net from "net";
+import { createMailer, SmtpMailer, type OutgoingEmail, type SmtpConfig } from "./mailer";
+
+// A scripted SMTP server on a local port that records every command it receives
+async function fakeSmtpServer(capabilities: string[]) {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.setEncoding("utf8");
+    let buffer = "";
+    let inData = false;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end < 0) return;
+        messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        reply("250 2.0.0 Ok: queued as TEST123");
+      }
+
+      let end: number;
+      while (!inData && (end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          const lines = ["fake.test", ...capabilities];
+          lines.forEach((text, index) => reply(`250${index === lines.length - 1 ? " " : "-"}${text}`));
+        } else if (verb === "STARTTLS") {
+          // No certificate here: accept, then drop the connection as a failed handshake would
+          reply("220 2.0.0 Ready to start TLS");
+          socket.end();
+        } else if (verb === "AUTH") {
+          reply("235 2.7.0 Authentication successful");
+        } else if (verb === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (verb === "QUIT") {
+          reply("221 2.0.0 Bye");
+          socket.end();
+        } else {
+          reply("250 2.1.0 Ok");
+        }
+      }
+    });
+    socket.on("close", () => sockets.delete(socket));
+    reply("220 fake.test ESMTP");
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as net.AddressInfo).port;
+  return {
+    port,
+    commands,
+    messages,
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+}
+
+const email: OutgoingEmail = {
+  fromName: "Jordan Agent",
+  replyTo: "jordan@agency.test",
+  to: ["client@example.com"],
+  subject: "Your policy summary",
+  text: "Hello\n.\nSee attached.",
+  html: "<p>Hello</p>",
+};
+
+function mailerFor(port: number, overrides: Partial<SmtpConfig> = {}) {
+  return new SmtpMailer({
+    host: "127.0.0.1",
+    port,
+    secure: false,
+    allowInsecureAuth: false,
+    from: "summaries@agency.test",
+    timeoutMs: 5000,
+    ...overrides,
+  });
+}
+
+describe("SMTP mailer", () => {
+  let server: Awaited<ReturnType<typeof fakeSmtpServer>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("delivers a message through a server that needs no login", async () => {
+    server = await fakeSmtpServer(["8BITMIME"]);
+
+    const sent = await mailerFor(server.port).send(email);
+
+    expect(server.commands.map(command => command.split(" ")[0])).toEqual(["EHLO", "MAIL", "RCPT", "DATA", "QUIT"]);
+    expect(server.commands[1]).toBe("MAIL FROM:<summaries@agency.test>");
+    expect(server.commands[2]).toBe("RCPT TO:<client@example.com>");
+    expect(server.messages[0]).toContain("Subject: Your policy summary");
+    expect(server.messages[0]).toContain("Reply-To: jordan@agency.test");
+    expect(sent.response).toContain("queued as TEST123");
+  });
+
+  it("will not log in over a connection without TLS", async () => {
+    server = await fakeSmtpServer(["AUTH PLAIN LOGIN"]);
+
+    await expect(mailerFor(server.port, { user: "agency", password: "secret" }).send(email))
+      .rejects.toThrow(/does not offer STARTTLS; refusing to send the password unencrypted/);
+    expect(server.commands.some(command => command.startsWith("AUTH"))).toBe(false);
+    expect(server.commands.some(command => command.startsWith("MAIL"))).toBe(false);
+  });
+
+  it("logs in without TLS only when allowed", async () => {
+    server = await fakeSmtpServer(["AUTH PLAIN LOGIN"]);
+
+    await mailerFor(server.port, { user: "agency", password: "secret", allowInsecureAuth: true }).send(email);
+
+    expect(server.commands).toContain(`AUTH PLAIN ${Buffer.from("\0agency\0secret").toString("base64")}`);
+    expect(server.messages).toHaveLength(1);
+  });
+
+  it("starts TLS before sending credentials when the server offers it", async () => {
+    server = await fakeSmtpServer(["STARTTLS", "AUTH PLAIN LOGIN"]);
+
+    await expect(mailerFor(server.port, { user: "agency", password: "secret", allowInsecureAuth: true }).send(email)).rejects.toThrow();
+    expect(server.commands).toEqual(["EHLO localhost", "STARTTLS"]);
+  });
+
+  it("reads SMTP_ALLOW_INSECURE from the environment", () => {
+    expect(createMailer({ SMTP_HOST: "mail.test" })?.config.allowInsecureAuth).toBe(false);
+    expect(createMailer({ SMTP_HOST: "localhost", SMTP_PORT: "1025", SMTP_ALLOW_INSECURE: "true" })?.config).toMatchObject({ port: 1025, allowInsecureAuth: true });
+  });
+});
@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import net from 'net';
+import tls from 'tls';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (usually port 465); otherwise STARTTLS when the server offers it
+  user?: string;
+  password?: string;
+  // Send credentials over an unencrypted connection when the server offers no
+  // STARTTLS. Only for local catchers; real servers would see the password in the clear.
+  allowInsecureAuth: boolean;
+  from: string; // envelope and From address; agents' own addresses go in Reply-To
+  timeoutMs: number;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface OutgoingEmail {
+  fromName?: string;
+  replyTo?: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface SentEmail {
+  messageId: string;
+  response: string; // the server's reply to the message, usually with its queue id
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Header values must stay on one line; anything outside ASCII is sent as an encoded word
+function headerText(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ').trim();
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`;
+}
+
+function mailbox(address: string, name?: string): string {
+  const clean = address.replace(/[\r\n<>]/g, '');
+  if (!name) return clean;
+  const display = headerText(name);
+  return display.startsWith('=?') ? `${display} <${clean}>` : `"${display.replace(/(["\\])/g, '\\$1')}" <${clean}>`;
+}
+
+function base64Lines(content: string | Buffer): string {
+  return (Buffer.isBuffer(content) ? content : Buffer.from(content)).toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+// RFC 5322 message with plain text and HTML alternatives and any attachments. Every
+// part is base64 encoded, so no line gets too long whatever the summary contains.
+export function buildMimeMessage(config: Pick<SmtpConfig, 'from'>, email: OutgoingEmail, messageId: string): string {
+  const boundary = (kind: string) => `=_${kind}_${crypto.randomBytes(12).toString('hex')}`;
+  const alternative = boundary('alt');
+  const headers = [
+    `From: ${mailbox(config.from, email.fromName)}`,
+    ...(email.replyTo ? [`Reply-To: ${mailbox(email.replyTo)}`] : []),
+    `To: ${email.to.map(address => mailbox(address)).join(', ')}`,
+    ...(email.cc?.length ? [`Cc: ${email.cc.map(address => mailbox(address)).join(', ')}`] : []),
+    `Subject: ${headerText(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+  ];
+
+  const body = [
+    `--${alternative}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.text),
+    `--${alternative}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.html),
+    `--${alternative}--`,
+  ];
+
+  if (!email.attachments?.length) {
+    return [...headers, `Content-Type: multipart/alternative; boundary="${alternative}"`, '', ...body, ''].join('\r\n');
+  }
+
+  const mixed = boundary('mixed');
+  const parts = email.attachments.flatMap(attachment => {
+    const filename = headerText(attachment.filename).replace(/"/g, '');
+    return [
+      `--${mixed}`,
+      `Content-Type: ${attachment.contentType}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(attachment.content),
+    ];
+  });
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${mixed}"`,
+    '',
+    `--${mixed}`,
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    '',
+    ...body,
+    ...parts,
+    `--${mixed}--`,
+    '',
+  ].join('\r\n');
+}
+
+// One conversation with an SMTP server: send a command, wait for its (possibly
+// multi-line) reply
+class SmtpSession {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private config: SmtpConfig) {
+    this.listen(socket);
+  }
+
+  static connect(config: SmtpConfig): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const options = { host: config.host, port: config.port, servername: config.host };
+      const socket = config.secure ? tls.connect(options) : net.connect(options);
+      const onError = (error: Error) => reject(new Error(`Could not connect to SMTP server ${config.host}:${config.port}: ${error.message}`));
+      socket.once('error', onError);
+      socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error('timed out')));
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        resolve(new SmtpSession(socket, config));
+      });
+    });
+  }
+
+  get isSecure(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  // Switch the connection to TLS after STARTTLS
+  upgrade(): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+    plain.setTimeout(0);
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: this.config.host }, () => {
+        secure.off('error', reject);
+        this.socket = secure;
+        this.listen(secure);
+        resolve();
+      });
+      secure.once('error', reject);
+    });
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+
+  private listen(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.config.timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP server closed the connection')));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.replyLines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.replyLines });
+        this.replyLines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply) {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure ?? error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+}
+
+export class SmtpMailer {
+  constructor(readonly config: SmtpConfig) {}
+
+  get from(): string {
+    return this.config.from;
+  }
+
+  async send(email: OutgoingEmail): Promise<SentEmail> {
+    const domain = this.config.from.split('@')[1] || 'localhost';
+    const messageId = `<${crypto.randomUUID()}@${domain}>`;
+    const message = buildMimeMessage(this.config, email, messageId);
+    const session = await SmtpSession.connect(this.config);
+
+    try {
+      await session.expect([220], 'greeting');
+      let capabilities = await this.hello(session);
+      if (!session.isSecure && capabilities.includes('STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade();
+        capabilities = await this.hello(session);
+      }
+      if (this.config.user) {
+        if (!session.isSecure && !this.config.allowInsecureAuth) {
+          throw new Error(`SMTP server ${this.config.host} does not offer STARTTLS; refusing to send the password unencrypted (set SMTP_SECURE=true for TLS, or SMTP_ALLOW_INSECURE=true for a local test server)`);
+        }
+        await this.authenticate(session, capabilities);
+      }
+
+      await session.command(`MAIL FROM:<${this.config.from}>`, [250]);
+      for (const recipient of [...email.to, ...(email.cc ?? [])]) {
+        await session.command(`RCPT TO:<${recipient}>`, [250, 251], `RCPT TO <${recipient}>`);
+      }
+      await session.command('DATA', [354]);
+      // Lines starting with a dot are doubled so they are not read as the end of the message
+      const reply = await session.command(`${message.replace(/\r\n\./g, '\r\n..')}\r\n.`, [250], 'DATA');
+      await session.command('QUIT', [221]).catch(() => undefined);
+
+      return { messageId, response: reply.lines.join(' ') };
+    } finally {
+      session.close();
+    }
+  }
+
+  private async hello(session: SmtpSession): Promise<string[]> {
+    const reply = await session.command('EHLO localhost', [250], 'EHLO');
+    return reply.lines.map(line => line.toUpperCase());
+  }
+
+  private async authenticate(session: SmtpSession, capabilities: string[]) {
+    const { user = '', password = '' } = this.config;
+    const mechanisms = capabilities.find(line => line.startsWith('AUTH'))?.split(/[\s=]+/) ?? [];
+    if (mechanisms.includes('PLAIN')) {
+      const credentials = Buffer.from(`\0${user}\0${password}`).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN');
+    } else if (mechanisms.includes('LOGIN')) {
+      await session.command('AUTH LOGIN', [334]);
+      await session.command(Buffer.from(user).toString('base64'), [334], 'AUTH LOGIN username');
+      await session.command(Buffer.from(password).toString('base64'), [235], 'AUTH LOGIN password');
+    } else {
+      throw new Error('SMTP server does not offer PLAIN or LOGIN authentication');
+    }
+  }
+}
+
+// SMTP_HOST turns email on. SMTP_PORT defaults to 465 with SMTP_SECURE=true and 587
+// otherwise; a local catcher such as MailHog needs SMTP_HOST=localhost SMTP_PORT=1025.
+export function createMailer(env: NodeJS.ProcessEnv = process.env): SmtpMailer | null {
+  if (!env.SMTP_HOST) {
+    console.log('📧 Email: not configured (set SMTP_HOST to email summaries)');
+    return null;
+  }
+
+  const secure = env.SMTP_SECURE === 'true';
+  const config: SmtpConfig = {
+    host: env.SMTP_HOST,
+    port: parseInt(env.SMTP_PORT || '', 10) || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    allowInsecureAuth: env.SMTP_ALLOW_INSECURE === 'true',
+    from: env.SMTP_FROM || `no-reply@${env.SMTP_HOST}`,
+    timeoutMs: parseInt(env.SMTP_TIMEOUT_MS || '', 10) || 30000,
+  };
+  console.log(`📧 Email: SMTP (${config.host}:${config.port}, from ${config.from})`);
+  return new SmtpMailer(config);
+}
+
+export const mailer = createMailer();
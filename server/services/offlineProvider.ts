@@ -0,0 +1,173 @@
+import type { PolicyData, ProcessingOptions, SummaryLanguage } from '@shared/schema';
+import type { LLMCallContext, LLMProvider, LLMProviderName } from './llmProvider';
+import { advancedAnalyzer } from './advancedAnalyzer';
+import { DEFAULT_FIRM_CONTACT, firmContactLine, firmSignOff } from './firmBranding';
+import { summarySections, supportSectionHeading, withDefaults } from './processingOptions';
+
+// Section headings and fixed wording the offline summaries use, in Spanish
+const SPANISH_PHRASES: [string, string][] = [
+  ['[Your Coverage Summary]', '[Resumen de su cobertura]'],
+  ['[Key Coverage Points]', '[Puntos clave de la cobertura]'],
+  ['[Policy Overview]', '[Resumen de la póliza]'],
+  ['[Coverage Details]', '[Detalles de la cobertura]'],
+  ['[Important Exclusions]', '[Exclusiones importantes]'],
+  ['[Eligibility & Requirements]', '[Elegibilidad y requisitos]'],
+  ['[Key Benefits]', '[Beneficios clave]'],
+  ['[Important Contacts]', '[Contactos importantes]'],
+  ['[How to File a Claim]', '[Cómo presentar un reclamo]'],
+  ['[Risks & Coverage Gaps]', '[Riesgos y brechas de cobertura]'],
+  ['[Coverage in Action]', '[La cobertura en acción]'],
+  ['[How This Compares]', '[Cómo se compara]'],
+  ['[Recommendations]', '[Recomendaciones]'],
+  ['[Client Context]', '[Contexto del cliente]'],
+  ['(Deductible: ', '(Deducible: '],
+  ['• Coverage Period: ', '• Período de cobertura: '],
+  ['• Policy Number: ', '• Número de póliza: '],
+  ['• Primary Coverage: ', '• Cobertura principal: '],
+  ['• Deductible: ', '• Deducible: '],
+  ['• Policy Cost: ', '• Costo de la póliza: '],
+  ['• Key Exclusion: ', '• Exclusión clave: '],
+  ['• Recommendation: ', '• Recomendación: '],
+  ['Contact agent for details', 'Consulte a su agente'],
+];
+
+// Wording that carries the agency's firm name
+const SPANISH_FIRM_PATTERNS: [RegExp, string][] = [
+  [/\[Your (.+?) Partnership & Support\]/g, '[Su relación con $1 y nuestro apoyo]'],
+  [/• Questions\? Contact (.+?) at /g, '• ¿Preguntas? Comuníquese con $1 al '],
+  [/• Questions\? Contact /g, '• ¿Preguntas? Comuníquese con '],
+  [/^Contact (.+?):/gm, 'Comuníquese con $1:'],
+];
+
+// Deterministic stand-in for the hosted models. Uses the rule-based
+// AdvancedPolicyAnalyzer so staging and tests can run without an API key.
+// The same input always produces the same output.
+export class OfflineProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'offline';
+
+  constructor() {
+    console.log('🔌 Offline LLM provider initialized (rule-based analyzer, no API calls)');
+  }
+
+  async analyzePolicy(documentText: string, requestedOptions?: Partial<ProcessingOptions>): Promise<PolicyData> {
+    const options = withDefaults(requestedOptions);
+    const policyData = advancedAnalyzer.analyzePolicy(documentText);
+    const policyNumber = documentText.match(/Policy\s*(?:Number|No\.?|#)[:\s-]*([A-Z0-9\-]{2,20}(?:\s[0-9]{2,10})*)/i)?.[1];
+    const premium = documentText.match(/(?:Total\s+)?Premium[:\s]*(\$[0-9,]+(?:\.\d{2})?)/i)?.[1];
+    const period = documentText.match(/(\d{1,2}\/\d{1,2}\/\d{2,4})\s*(?:to|-|through)\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i);
+
+    // Mirror the extraction preferences the hosted prompts ask for
+    const listLimit = options.detailLevel === 'basic' ? 5 : undefined;
+    const coverageDetails = policyData.coverageDetails.slice(0, listLimit).map(coverage => ({
+      ...coverage,
+      description: options.generateExplanations ? coverage.description : undefined,
+    }));
+    const keyBenefits = policyData.keyBenefits.slice(0, options.detailLevel === 'basic' ? 3 : undefined).map(benefit => ({
+      ...benefit,
+      description: options.generateExplanations ? benefit.description : undefined,
+      importance: options.includeImportance ? benefit.importance : undefined,
+    }));
+
+    return {
+      ...policyData,
+      coverageDetails,
+      keyBenefits,
+      exclusions: policyData.exclusions.slice(0, listLimit),
+      policyNumber: policyNumber?.trim(),
+      premiumAmount: premium,
+      effectiveDate: period?.[1],
+      expirationDate: period?.[2],
+      policyPeriod: period ? `${period[1]} to ${period[2]}` : undefined,
+      documentAccuracyNotes: 'Generated by the offline rule-based analyzer; verify all values against the policy.',
+    };
+  }
+
+  async generateEnhancedSummary(policyData: PolicyData, clientContext?: string, requestedOptions?: Partial<ProcessingOptions>, { firm = DEFAULT_FIRM_CONTACT }: LLMCallContext = {}): Promise<string> {
+    const options = withDefaults(requestedOptions);
+    const coverageBullets = policyData.coverageDetails
+      .slice(0, options.summaryLength === 'short' ? 4 : 8)
+      .map(c => `• ${c.type}: ${c.limit}${c.deductible ? ` (Deductible: ${c.deductible})` : ''}${options.generateExplanations && c.description ? ` - ${c.description}` : ''}`);
+    const exclusionBullets = policyData.exclusions
+      .slice(0, 5)
+      .map(e => `• ${e.category ? `${e.category}: ` : ''}${e.description}`);
+
+    const overview = `This ${policyData.policyType} from ${policyData.insurer} provides ${policyData.coverageDetails.length} coverage part${policyData.coverageDetails.length === 1 ? '' : 's'} for ${policyData.insuredName || 'the insured'}.${policyData.policyPeriod ? ` The policy period is ${policyData.policyPeriod}.` : ''}`;
+
+    if (options.summaryLength === 'short') {
+      const extraBullets: string[] = [];
+      if ((options.focusAreas.includes('exclusions') || options.highlightRisks) && exclusionBullets[0]) {
+        extraBullets.push(exclusionBullets[0].replace('• ', '• Key Exclusion: '));
+      }
+      if (options.generateRecommendations) {
+        extraBullets.push('• Recommendation: Review your limits with your agent at each renewal');
+      }
+      return `[Your Coverage Summary]
+${overview}
+
+[Key Coverage Points]
+${[...coverageBullets, ...extraBullets].join('\n')}
+• Questions? Contact ${firmContactLine(firm)}`;
+    }
+
+    const bodies: Record<string, string> = {
+      'Policy Overview': `${overview} ${policyData.whyItMatters}`.trim(),
+      'Coverage Details': coverageBullets.join('\n') || '• Coverage limits are listed in the policy declarations.',
+      'Important Exclusions': exclusionBullets.join('\n') || '• Review the policy for exclusions that may apply.',
+      'Eligibility & Requirements': [
+        ...(policyData.eligibility.restrictions ?? []),
+        ...(policyData.eligibility.requirements ?? []),
+      ].map(item => `• ${item}`).join('\n') || '• No specific eligibility restrictions were identified.',
+      'Key Benefits': policyData.keyBenefits
+        .map(b => `• ${b.benefit}${b.description ? `: ${b.description}` : ''}`)
+        .join('\n') || '• See the policy for included benefits.',
+      'Important Contacts': (policyData.importantContacts ?? [])
+        .map(contact => `• ${contact.type}: ${contact.details}`)
+        .join('\n') || `• ${firm.name}${firm.phone ? `: ${firm.phone}` : ''}`,
+      'How to File a Claim': `• Report any claim to your insurer as soon as possible and keep records of the loss.\n• ${firm.name} can help with the claim process${firm.phone ? ` at ${firm.phone}` : ''}.`,
+      'Risks & Coverage Gaps': exclusionBullets.length > 0
+        ? `Pay particular attention to these exclusions:\n${exclusionBullets.slice(0, 3).join('\n')}`
+        : 'No significant exclusions were identified; confirm with the full policy wording.',
+      'Coverage in Action': policyData.coverageDetails.slice(0, 2)
+        .map(c => `• If a covered ${c.type.toLowerCase()} loss occurs, the policy responds up to ${c.limit}.`)
+        .join('\n') || '• Scenarios depend on the coverage parts listed in the declarations.',
+      'How This Compares': 'Compare these limits with similar policies for your industry before renewal.',
+      'Recommendations': '• Review your limits with your agent at each renewal.\n• Ask about endorsements that close the gaps listed above.',
+      [supportSectionHeading(firm)]: `Questions about your coverage or a claim? Contact ${firmContactLine(firm)}.`,
+    };
+
+    const sections = summarySections(options, firm).map(section => `[${section.heading}]\n${bodies[section.heading]}`);
+    if (clientContext) {
+      sections.splice(sections.length - 1, 0, `[Client Context]\n${clientContext}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  async generateQuickSummary(documentText: string, requestedOptions?: Partial<ProcessingOptions>, { firm = DEFAULT_FIRM_CONTACT }: LLMCallContext = {}): Promise<string> {
+    const options = withDefaults(requestedOptions);
+    const policyData = await this.analyzePolicy(documentText, options);
+    const primary = policyData.coverageDetails[0];
+    const deductible = policyData.coverageDetails.find(c => c.deductible)?.deductible;
+
+    return `[Your Coverage Summary]
+${policyData.insurer} provides this ${policyData.policyType.toLowerCase()}${policyData.insuredName ? ` for ${policyData.insuredName}` : ''}. ${policyData.whyItMatters}
+• Coverage Period: ${policyData.policyPeriod || 'Contact agent for details'}
+• Policy Number: ${policyData.policyNumber || 'Contact agent for details'}
+• Primary Coverage: ${primary ? `${primary.type} - ${primary.limit}` : 'Contact agent for details'}
+• Deductible: ${deductible || 'Contact agent for details'}
+• Policy Cost: ${policyData.premiumAmount || 'Contact agent for details'}${options.highlightRisks && policyData.exclusions[0] ? `
+• Key Exclusion: ${policyData.exclusions[0].description}` : ''}${options.generateRecommendations ? `
+• Recommendation: Review your limits with your agent at each renewal` : ''}
+
+${firmSignOff(firm)}`;
+  }
+
+  // Without a model only the offline summaries' own headings and labels can be
+  // translated; text taken from the document stays as written
+  async translateSummary(summary: string, texts: string[], language: SummaryLanguage): Promise<{ summary: string; texts: string[] }> {
+    if (language === 'en') return { summary, texts };
+    const phrased = SPANISH_PHRASES.reduce((text, [english, spanish]) => text.split(english).join(spanish), summary);
+    const translated = SPANISH_FIRM_PATTERNS.reduce((text, [pattern, spanish]) => text.replace(pattern, spanish), phrased);
+    return { summary: translated, texts };
+  }
+}
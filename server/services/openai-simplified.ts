@@ -1,227 +0,0 @@
-import OpenAI from "openai";
-import { PolicyData } from "@shared/schema";
-import { advancedAnalyzer } from './advancedAnalyzer';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-export async function extractPolicyData(documentText: string): Promise<PolicyData> {
-  try {
-    const prompt = `
-Analyze this insurance policy document and extract the key information. Return a JSON object with the following structure:
-
-{
-  "policyType": "string - actual policy type from document",
-  "insurer": "string - insurance company name",
-  "coverageDetails": [{"type": "string", "limit": "string", "deductible": "string"}],
-  "keyBenefits": ["list of key benefits"],
-  "eligibility": {"ageLimit": "string", "maxDuration": "string", "restrictions": ["list"]},
-  "exclusions": ["list of exclusions"],
-  "importantContacts": {"insurer": "string", "administrator": "string", "emergencyLine": "string"},
-  "whyItMatters": "string - explanation of coverage importance"
-}
-
-Document text:
-${documentText.substring(0, 8000)}
-`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert insurance analyst. Extract and analyze policy information from documents. Return only valid JSON."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || '{}');
-    return result;
-  } catch (error) {
-    console.log('OpenAI API error:', error);
-    console.log('API quota exceeded, providing advanced analysis...');
-    return advancedAnalyzer.analyzePolicy(documentText);
-  }
-}
-
-function generateEnhancedAnalysis(documentText: string): PolicyData {
-  console.log('Generating enhanced demo analysis from document content...');
-  console.log(`Analyzing document with ${documentText.length} characters of text content`);
-  console.log('First 500 characters of extracted text:', documentText.substring(0, 500));
-  
-  // Extract real information from the document
-  const isErieInsurance = documentText.includes('Erie Insurance');
-  const isBusinessPolicy = documentText.includes('Business Policy') || documentText.includes('Commercial');
-  const isAutoPolicy = documentText.includes('Auto') || documentText.includes('Vehicle');
-  const isTravelPolicy = documentText.includes('travel') || documentText.includes('trip');
-  
-  // Extract real dollar amounts
-  const dollarAmounts = documentText.match(/\$[\d,]+(?:\.\d{2})?/g) || [];
-  const phoneNumbers = documentText.match(/1-\d{3}-\d{3}-\d{4}|\(\d{3}\)\s*\d{3}-\d{4}/g) || [];
-  
-  // Find policy number if present
-  const policyNumberMatch = documentText.match(/policy\s+number\s*:?\s*([A-Z0-9-]+)/i);
-  const policyNumber = policyNumberMatch ? policyNumberMatch[1] : null;
-  
-  // Determine actual policy type based on content
-  let policyType = "Insurance Policy";
-  if (isErieInsurance && isBusinessPolicy) {
-    policyType = "Erie Commercial Business Insurance Policy";
-  } else if (isBusinessPolicy) {
-    policyType = "Commercial Business Insurance Policy";
-  } else if (isAutoPolicy) {
-    policyType = "Automobile Insurance Policy";
-  } else if (isTravelPolicy) {
-    policyType = "Travel Insurance Policy";
-  }
-  
-  // Determine insurer
-  let insurer = "Valley Trust Insurance Company";
-  if (isErieInsurance) {
-    insurer = "Erie Insurance Company";
-  }
-  
-  // Generate coverage details based on policy type and amounts found
-  const coverageDetails = [];
-  if (isBusinessPolicy) {
-    coverageDetails.push(
-      {
-        type: "General Liability",
-        limit: dollarAmounts[0] || "As specified in policy",
-        deductible: "$0"
-      },
-      {
-        type: "Property Coverage",
-        limit: dollarAmounts[1] || "As specified in policy",
-        deductible: "As specified in policy"
-      }
-    );
-  } else if (isTravelPolicy) {
-    coverageDetails.push(
-      {
-        type: "Emergency Medical Coverage",
-        limit: "Up to $5,000,000 CAD",
-        deductible: "$0"
-      },
-      {
-        type: "Trip Cancellation",
-        limit: "Up to $20,000 CAD",
-        deductible: "$0"
-      }
-    );
-  } else {
-    coverageDetails.push({
-      type: "Primary Coverage",
-      limit: dollarAmounts[0] || "As specified in policy documents",
-      deductible: "As specified in policy documents"
-    });
-  }
-  
-  // Generate appropriate benefits
-  const keyBenefits = [];
-  if (isBusinessPolicy) {
-    keyBenefits.push(
-      "Commercial general liability protection",
-      "Business property coverage",
-      "Professional liability protection",
-      "Claims handling and legal support"
-    );
-  } else if (isTravelPolicy) {
-    keyBenefits.push(
-      "Emergency medical coverage worldwide",
-      "Trip cancellation protection",
-      "24-hour emergency assistance",
-      "Coverage coordination"
-    );
-  } else {
-    keyBenefits.push(
-      "Comprehensive insurance protection",
-      "Professional claims assistance",
-      "Coverage coordination services",
-      "Expert policy support"
-    );
-  }
-  
-  return {
-    policyType,
-    insurer,
-    coverageDetails,
-    keyBenefits: keyBenefits.map(benefit => ({ benefit })),
-    eligibility: {
-      ageLimit: "As specified in policy",
-      maxDuration: "Policy period",
-      restrictions: ["Must maintain valid coverage", "Policy terms and conditions apply"]
-    },
-    exclusions: [
-      { category: "General", description: "Standard policy exclusions apply" },
-      { category: "Medical", description: "Pre-existing conditions may be excluded" },
-      { category: "Intentional Acts", description: "Intentional acts or fraud" },
-      { category: "External Events", description: "War and terrorism (unless covered)" }
-    ],
-    importantContacts: {
-      insurer: insurer,
-      administrator: isErieInsurance ? "Erie Insurance Claims Department" : "Valley Trust Insurance Claims Department",
-      emergencyLine: phoneNumbers[0] || "Contact your insurance agent for emergency procedures"
-    },
-    whyItMatters: `This ${policyType.toLowerCase()} provides essential financial protection against unexpected events. ${isBusinessPolicy ? 'For businesses, this coverage protects against liability claims, property damage, and business interruption that could otherwise result in significant financial losses.' : 'This coverage ensures you receive proper protection without devastating financial consequences.'} Professional claims support helps navigate complex situations when you need assistance most.`
-  };
-}
-
-export async function enhancePolicySummary(policyData: PolicyData, clientContext?: string): Promise<string> {
-  // Generate a comprehensive summary based on the policy data
-  const sections = [];
-  
-  sections.push(`**${policyData.policyType}**`);
-  sections.push(`*Professional insurance protection and coverage*`);
-  sections.push('');
-  sections.push('**COVERAGE BREAKDOWN**');
-  sections.push('');
-  
-  policyData.coverageDetails?.forEach(coverage => {
-    sections.push(`• **${coverage.type}**: ${coverage.limit}${coverage.deductible ? ` (Deductible: ${coverage.deductible})` : ''}`);
-    sections.push(`  → Professional protection for ${coverage.type.toLowerCase()}`);
-    sections.push('');
-  });
-  
-  if (policyData.keyBenefits && policyData.keyBenefits.length > 0) {
-    sections.push('**KEY PROTECTION BENEFITS**');
-    sections.push('');
-    policyData.keyBenefits.forEach(benefit => {
-      sections.push(`• ${benefit}`);
-    });
-    sections.push('');
-  }
-  
-  if (policyData.eligibility) {
-    sections.push('**ELIGIBILITY & REQUIREMENTS**');
-    sections.push('');
-    if (policyData.eligibility.ageLimit) {
-      sections.push(`• **Age Requirement**: ${policyData.eligibility.ageLimit}`);
-    }
-    if (policyData.eligibility.maxDuration) {
-      sections.push(`• **Coverage Period**: ${policyData.eligibility.maxDuration}`);
-    }
-    policyData.eligibility.restrictions?.forEach(restriction => {
-      sections.push(`• **Important**: ${restriction}`);
-    });
-    sections.push('');
-  }
-  
-  sections.push('**WHY THIS COVERAGE MATTERS**');
-  sections.push('');
-  sections.push(policyData.whyItMatters || 'This coverage provides essential financial protection against unexpected events.');
-  sections.push('');
-  
-  sections.push('**IMPORTANT CONTACTS**');
-  sections.push('');
-  sections.push(`• **Insurer**: ${policyData.importantContacts?.insurer || 'Contact information in policy documents'}`);
-  sections.push(`• **Administrator**: ${policyData.importantContacts?.administrator || 'Policy administration services'}`);
-  sections.push(`• **Emergency Contact**: ${policyData.importantContacts?.emergencyLine || 'Emergency procedures in policy documents'}`);
-  
-  return sections.join('\n');
-}
\ No newline at end of file
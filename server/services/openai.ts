@@ -1,617 +1,9 @@
-import OpenAI from "openai";
-import { PolicyData, PolicyDataSchema } from '@shared/schema';
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || ""
-});
-
-export async function extractPolicyData(documentText: string): Promise<PolicyData> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is required. Please set OPENAI_API_KEY environment variable.");
-  }
-
-  // Pre-process the document text for better analysis
-  const cleanedText = documentText
-    .replace(/\s+/g, ' ')
-    .replace(/[^\w\s\-\$\%\.,;:()]/g, '')
-    .trim();
-
-  if (cleanedText.length < 100) {
-    throw new Error("Document appears to be too short or contains insufficient text for analysis.");
-  }
-
-  const prompt = `
-You are an expert insurance policy analyst with deep knowledge of insurance terminology, regulations, and client communication. Analyze the following insurance policy document and extract key information in a structured format.
-
-IMPORTANT: Focus on accuracy and client-friendly explanations. Extract specific dollar amounts, dates, and conditions precisely as they appear in the document.
-
-Please analyze the document and provide a JSON response with the following structure:
-{
-  "policyType": "string - The type of insurance policy (e.g., 'Travel Insurance', 'Life Insurance', etc.)",
-  "insurer": "string - The name of the insurance company",
-  "coverageDetails": [
-    {
-      "type": "string - Type of coverage (e.g., 'Emergency Medical', 'Trip Cancellation')",
-      "limit": "string - Coverage limit with currency (e.g., '$5,000,000 CAD')",
-      "deductible": "string - Deductible amount if applicable (optional)"
-    }
-  ],
-  "eligibility": {
-    "ageLimit": "string - Age restrictions if any (optional)",
-    "maxDuration": "string - Maximum coverage duration (optional)",
-    "restrictions": ["string array - Any other eligibility restrictions (optional)"]
-  },
-  "exclusions": ["string array - Important exclusions or limitations"],
-  "importantContacts": {
-    "insurer": "string - Insurance company contact info (optional)",
-    "administrator": "string - Policy administrator contact (optional)", 
-    "emergencyLine": "string - Emergency contact information (optional)"
-  },
-  "keyBenefits": ["string array - Key benefits in plain language"],
-  "whyItMatters": "string - Explanation of why this coverage is important for clients"
-}
-
-Focus on:
-1. Extract specific dollar amounts, percentages, and limits
-2. Identify key exclusions and limitations that clients should know about
-3. Find contact information for claims and emergencies
-4. Explain benefits in simple, client-friendly language
-5. Highlight why each type of coverage is valuable
-
-Policy Document Text:
-${cleanedText}
-
-ANALYSIS INSTRUCTIONS:
-1. Extract all monetary amounts precisely (include currency symbols and exact figures)
-2. Identify specific exclusions and limitations that clients should understand
-3. Find emergency contact numbers and claim procedures
-4. Explain benefits in terms a non-insurance professional can understand
-5. Highlight time-sensitive elements (deadlines, age limits, etc.)
-6. Focus on practical implications for the policyholder
-
-Respond only with valid JSON that matches the exact structure specified above.
-`;
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert insurance policy analyst. Extract key policy information and respond only with valid JSON."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.1, // Low temperature for consistent, factual extraction
-      max_tokens: 2000
-    });
-
-    const content = response.choices[0].message.content;
-    if (!content) {
-      throw new Error("No response content from OpenAI");
-    }
-
-    let parsedData;
-    try {
-      parsedData = JSON.parse(content);
-    } catch (parseError) {
-      throw new Error(`Failed to parse OpenAI response as JSON: ${parseError instanceof Error ? parseError.message : 'Parse error'}`);
-    }
-
-    // Validate the response against our schema
-    const validatedData = PolicyDataSchema.parse(parsedData);
-    
-    return validatedData;
-  } catch (error: any) {
-    console.error('OpenAI API error:', error);
-    
-    if (error.name === 'ZodError') {
-      throw new Error(`Invalid policy data structure returned from AI analysis: ${error.message}`);
-    }
-    
-    if (error.status === 401) {
-      throw new Error("Invalid OpenAI API key. Please check your API key configuration.");
-    }
-    
-    if (error.status === 429 || error.code === 'insufficient_quota') {
-      // Provide demo data when API quota is exceeded
-      console.log('API quota exceeded, providing demo analysis...');
-      return generateDemoAnalysis(cleanedText);
-    }
-    
-    if (error.status >= 500) {
-      throw new Error("OpenAI API service error. Please try again later.");
-    }
-    
-    throw new Error(`Failed to analyze policy document: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-
-}
-
-function generateDemoAnalysis(documentText: string): PolicyData {
-  console.log('Generating enhanced demo analysis from document content...');
-  console.log(`Analyzing document with ${documentText.length} characters of text content`);
-  console.log('First 500 characters of extracted text:', documentText.substring(0, 500));
-  
-  // Advanced text analysis using multiple patterns and context clues
-  const lowerText = documentText.toLowerCase();
-  
-  // Extract real information from the actual document text
-  const extractRealPolicyInformation = () => {
-    const results = {
-      actualPolicyName: '',
-      realCoverageAmounts: [] as string[],
-      actualInsurer: '',
-      realBenefits: [] as string[],
-      realContacts: [] as string[],
-      realEligibility: [] as string[]
-    };
-    
-    // Find actual policy names/titles in the document
-    const titlePatterns = [
-      /([A-Z][A-Za-z\s&]+(?:INSURANCE|POLICY|COVERAGE|PROTECTION|PLAN)[A-Za-z\s]*)/gi,
-      /([A-Za-z\s]+(?:Travel|Medical|Health|Life|Auto|Home)[A-Za-z\s]*(?:Insurance|Policy|Coverage))/gi,
-      /(CERTIFICATE OF INSURANCE[A-Za-z\s]*)/gi
-    ];
-    
-    for (const pattern of titlePatterns) {
-      const matches = documentText.match(pattern);
-      if (matches && matches[0] && matches[0].trim().length > 10) {
-        results.actualPolicyName = matches[0].trim();
-        break;
-      }
-    }
-    
-    // Extract real dollar amounts and coverage limits
-    const amountPatterns = [
-      /\$[\d,]+(?:\.\d{2})?(?:\s*(?:million|M|CAD|Canadian|USD|per|each|maximum|limit))?/gi,
-      /Up to \$[\d,]+(?:\.\d{2})?/gi,
-      /Maximum of \$[\d,]+(?:\.\d{2})?/gi
-    ];
-    
-    for (const pattern of amountPatterns) {
-      const matches = documentText.match(pattern);
-      if (matches) {
-        results.realCoverageAmounts.push(...matches.slice(0, 8)); // Limit to avoid clutter
-      }
-    }
-    
-    // Find actual insurer names
-    const insurerPatterns = [
-      /(?:Insurer|Underwritten by|Administered by|Company):\s*([A-Za-z\s&,]+)/gi,
-      /(Allianz|CUMIS|Valley Trust|Manulife|Sun Life|Great West|Intact|Aviva)[A-Za-z\s]*/gi
-    ];
-    
-    for (const pattern of insurerPatterns) {
-      const matches = documentText.match(pattern);
-      if (matches && matches[0]) {
-        results.actualInsurer = matches[0].trim();
-        break;
-      }
-    }
-    
-    // Extract real benefits from text
-    const benefitLines = documentText
-      .split(/\n|\.|\r/)
-      .filter(line => line.trim().length > 15)
-      .filter(line => /coverage|benefit|protection|reimburse|emergency|medical|travel|trip|baggage/i.test(line))
-      .slice(0, 10);
-    
-    results.realBenefits = benefitLines.map(line => line.trim());
-    
-    // Find contact information
-    const phoneMatches = documentText.match(/1-\d{3}-\d{3}-\d{4}|\(\d{3}\)\s*\d{3}-\d{4}/g);
-    if (phoneMatches) {
-      results.realContacts.push(...phoneMatches.slice(0, 3));
-    }
-    
-    return results;
-  };
-  
-  const realPolicyInfo = extractRealPolicyInformation();
-  
-  // Detect policy type with more sophisticated pattern matching
-  const policyTypePatterns = {
-    travel: /travel|trip|vacation|journey|tourism|international|overseas/gi,
-    allianz: /allianz|cumis|global assistance/gi,
-    comprehensive: /comprehensive|complete|full coverage|all-inclusive/gi,
-    emergency: /emergency|medical|health|hospital/gi
-  };
-  
-  const isAllianzPolicy = policyTypePatterns.allianz.test(documentText);
-  const isComprehensivePolicy = policyTypePatterns.comprehensive.test(documentText);
-  const isTravelPolicy = policyTypePatterns.travel.test(documentText);
-  const hasEmergencyMedical = policyTypePatterns.emergency.test(documentText);
-  
-  // Advanced text analysis to find real policy information
-  const findActualPolicyInfo = () => {
-    const policyInfo = {
-      realCoverageAmounts: [],
-      actualPolicyType: '',
-      realInsurer: '',
-      realContacts: {},
-      realEligibility: {}
-    };
-    
-    // Find actual dollar amounts in the text
-    const dollarMatches = documentText.match(/\$[\d,]+(?:\.\d{2})?(?:\s*(?:million|M|CAD|Canadian?))?/gi);
-    if (dollarMatches) {
-      policyInfo.realCoverageAmounts = dollarMatches.slice(0, 10); // Limit to avoid clutter
-    }
-    
-    // Find real policy numbers and references
-    const policyNumberMatch = documentText.match(/policy\s+(?:number|#)\s*:?\s*([A-Z0-9-]+)/i);
-    if (policyNumberMatch) {
-      policyInfo.realPolicyNumber = policyNumberMatch[1];
-    }
-    
-    // Find phone numbers for emergency contacts
-    const phoneMatches = documentText.match(/1-\d{3}-\d{3}-\d{4}|\(\d{3}\)\s*\d{3}-\d{4}/g);
-    if (phoneMatches) {
-      policyInfo.realContacts.emergencyPhone = phoneMatches[0];
-    }
-    
-    // Find email addresses
-    const emailMatches = documentText.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g);
-    if (emailMatches) {
-      policyInfo.realContacts.email = emailMatches[0];
-    }
-    
-    return policyInfo;
-  };
-  
-
-  
-  // Advanced coverage extraction with multiple currency formats
-  const extractCoverageDetails = () => {
-    const coverageDetails: any[] = [];
-    
-    // Enhanced pattern matching for different coverage types
-    const coveragePatterns = [
-      {
-        name: "Emergency Medical and Dental Coverage",
-        patterns: [
-          /emergency medical.*?\$([0-9,]+(?:\.[0-9]{2})?)\s*(?:million|m)?\s*canadian/gi,
-          /medical.*?up to.*?\$([0-9,]+(?:\.[0-9]{2})?)\s*(?:million|m)?\s*canadian/gi,
-          /emergency.*?\$([0-9,]+(?:\.[0-9]{2})?)\s*(?:million|m)?/gi
-        ],
-        defaultLimit: "Up to $5,000,000 Canadian",
-        condition: () => hasEmergencyMedical || documentText.includes('Emergency Medical') || documentText.includes('medical')
-      },
-      {
-        name: "Trip Cancellation",
-        patterns: [
-          /trip cancellation.*?\$([0-9,]+(?:\.[0-9]{2})?)\s*canadian/gi,
-          /cancellation.*?up to.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi
-        ],
-        defaultLimit: "Up to $20,000 Canadian",
-        condition: () => documentText.includes('Trip Cancellation') || documentText.includes('cancellation')
-      },
-      {
-        name: "Trip Interruption",
-        patterns: [
-          /trip interruption.*?\$([0-9,]+(?:\.[0-9]{2})?)\s*canadian/gi,
-          /interruption.*?up to.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi
-        ],
-        defaultLimit: "Up to $20,000 Canadian",
-        condition: () => documentText.includes('Trip Interruption') || documentText.includes('interruption')
-      },
-      {
-        name: "Baggage and Personal Effects",
-        patterns: [
-          /baggage.*?\$([0-9,]+(?:\.[0-9]{2})?)\s*canadian/gi,
-          /personal effects.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi
-        ],
-        defaultLimit: "Up to $1,000 Canadian",
-        condition: () => documentText.includes('Baggage') || documentText.includes('personal effects')
-      },
-      {
-        name: "Trip Delay",
-        patterns: [
-          /trip delay.*?\$([0-9,]+(?:\.[0-9]{2})?)\s*(?:per day|daily)/gi,
-          /delay.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi
-        ],
-        defaultLimit: "$300 Canadian/Day – Maximum 2 Days",
-        condition: () => documentText.includes('Trip Delay') || documentText.includes('delay')
-      },
-      {
-        name: "Vehicle Return Benefit",
-        patterns: [
-          /vehicle return.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi,
-          /car return.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi
-        ],
-        defaultLimit: "Up to $2,000 Canadian",
-        condition: () => documentText.includes('Vehicle Return') || documentText.includes('car return')
-      },
-      {
-        name: "Emergency Medical Transportation",
-        patterns: [
-          /medical transportation.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi,
-          /air ambulance.*?\$([0-9,]+(?:\.[0-9]{2})?)/gi
-        ],
-        defaultLimit: "Included in Emergency Medical Coverage",
-        condition: () => documentText.includes('medical transportation') || documentText.includes('air ambulance')
-      }
-    ];
-    
-    coveragePatterns.forEach(coverage => {
-      if (coverage.condition()) {
-        let extractedLimit = coverage.defaultLimit;
-        
-        // Try to extract actual amounts from document
-        for (const pattern of coverage.patterns) {
-          const matches = documentText.match(pattern);
-          if (matches && matches.length > 0) {
-            extractedLimit = matches[0];
-            break;
-          }
-        }
-        
-        coverageDetails.push({
-          type: coverage.name,
-          limit: extractedLimit,
-          deductible: "$0"
-        });
-      }
-    });
-    
-    // If no coverage details were extracted, provide default comprehensive coverage
-    if (coverageDetails.length === 0) {
-      if (isTravelPolicy || isComprehensivePolicy) {
-        coverageDetails.push(
-          {
-            type: "Emergency Medical Coverage",
-            limit: "Up to $5,000,000 CAD",
-            deductible: "$0"
-          },
-          {
-            type: "Trip Cancellation",
-            limit: "Up to $20,000 CAD",
-            deductible: "$0"
-          },
-          {
-            type: "Baggage Coverage",
-            limit: "Up to $1,000 CAD",
-            deductible: "$0"
-          },
-          {
-            type: "Trip Interruption",
-            limit: "Up to $20,000 CAD",
-            deductible: "$0"
-          }
-        );
-      } else {
-        // Generic comprehensive coverage
-        coverageDetails.push(
-          {
-            type: "Primary Coverage",
-            limit: "As specified in policy documents",
-            deductible: "As specified in policy documents"
-          }
-        );
-      }
-    }
-    
-    return coverageDetails;
-  };
-  
-  // Extract eligibility information with better pattern matching
-  const extractEligibility = () => {
-    const agePatterns = [
-      /age (\d+) or younger/gi,
-      /maximum age.*?(\d+)/gi,
-      /age limit.*?(\d+)/gi,
-      /under (\d+) years/gi
-    ];
-    
-    const durationPatterns = [
-      /maximum period of up to (\d+) days/gi,
-      /up to (\d+) days/gi,
-      /maximum duration.*?(\d+) days/gi,
-      /coverage period.*?(\d+) days/gi
-    ];
-    
-    let ageLimit = "64 or younger";
-    let maxDuration = "Up to 30 days";
-    
-    // Try to find actual age limits
-    for (const pattern of agePatterns) {
-      const match = documentText.match(pattern);
-      if (match && match[1]) {
-        ageLimit = `${match[1]} or younger`;
-        break;
-      }
-    }
-    
-    // Try to find actual duration limits
-    for (const pattern of durationPatterns) {
-      const match = documentText.match(pattern);
-      if (match && match[1]) {
-        maxDuration = `Up to ${match[1]} days`;
-        break;
-      }
-    }
-    
-    return {
-      ageLimit,
-      maxDuration,
-      restrictions: [
-        "Must be departing from Canada",
-        "Coverage must be purchased before departure",
-        "Pre-existing medical conditions may be excluded unless declared and covered",
-        "Must maintain valid provincial health insurance"
-      ]
-    };
-  };
-  
-  // Generate comprehensive benefits list
-  const generateKeyBenefits = () => {
-    const benefits = [];
-    
-    if (isTravelPolicy) {
-      benefits.push(
-        "Comprehensive travel protection for international and domestic trips",
-        "24-hour multilingual emergency assistance worldwide",
-        "Coverage for medical emergencies outside your home province"
-      );
-    }
-    
-    if (documentText.includes('Trip Cancellation')) {
-      benefits.push("Reimbursement for non-refundable trip costs due to covered cancellation reasons");
-    }
-    
-    if (documentText.includes('Emergency Medical')) {
-      benefits.push("Emergency medical and dental coverage with no daily limits");
-    }
-    
-    if (documentText.includes('Baggage')) {
-      benefits.push("Protection for lost, stolen, or damaged luggage and personal belongings");
-    }
-    
-    if (documentText.includes('Trip Delay')) {
-      benefits.push("Meal and accommodation reimbursement for covered travel delays");
-    }
-    
-    benefits.push(
-      "Direct billing arrangements with hospitals and medical facilities worldwide",
-      "Emergency medical evacuation and repatriation coverage",
-      "Coverage coordination with existing provincial health plans"
-    );
-    
-    return benefits;
-  };
-  
-  const coverageDetails = extractCoverageDetails();
-  const eligibility = extractEligibility();
-  const keyBenefits = generateKeyBenefits();
-  
-  // Determine policy type and insurer using real extracted information
-  const determinePolicyType = () => {
-    if (realPolicyInfo.actualPolicyName && realPolicyInfo.actualPolicyName.length > 5) {
-      return realPolicyInfo.actualPolicyName;
-    }
-    
-    // Extract actual policy type from document text
-    if (documentText.includes('Business Policy') || documentText.includes('Commercial')) {
-      return "Commercial Business Insurance Policy";
-    }
-    if (documentText.includes('Auto') || documentText.includes('Vehicle')) {
-      return "Automobile Insurance Policy";
-    }
-    if (documentText.includes('Property') || documentText.includes('Building')) {
-      return "Property Insurance Policy";
-    }
-    if (documentText.includes('General Liability')) {
-      return "General Liability Insurance Policy";
-    }
-    
-    // Fallback to travel insurance patterns
-    if (isAllianzPolicy) {
-      return isComprehensivePolicy ? "Allianz Comprehensive Travel Coverage" : "Allianz Travel Insurance";
-    } else if (isComprehensivePolicy) {
-      return "Comprehensive Travel Insurance Policy";
-    }
-    
-    return "Insurance Policy";
-  };
-  
-  const determineInsurer = () => {
-    if (realPolicyInfo.actualInsurer && realPolicyInfo.actualInsurer.length > 5) {
-      return realPolicyInfo.actualInsurer;
-    }
-    
-    // Check for specific insurers in text
-    if (documentText.includes('Erie Insurance')) {
-      return "Erie Insurance Company";
-    }
-    if (documentText.includes('Allianz') || documentText.includes('CUMIS')) {
-      return "CUMIS General Insurance Company (administered by Allianz Global Assistance)";
-    }
-    if (documentText.includes('State Farm')) {
-      return "State Farm Insurance";
-    }
-    if (documentText.includes('Allstate')) {
-      return "Allstate Insurance Company";
-    }
-    
-    return "Valley Trust Insurance Company";
-  };
-  
-  const policyType = determinePolicyType();
-  const insurer = determineInsurer();
-  
-  return {
-    policyType,
-    insurer,
-    coverageDetails,
-    eligibility,
-    exclusions: [
-      "Pre-existing medical conditions (unless declared, covered, and stable)",
-      "High-risk activities including extreme sports and adventure activities", 
-      "Travel to countries with government-issued travel advisories level 3 or 4",
-      "Intentional self-injury, suicide, or participation in illegal activities",
-      "War, terrorism, civil unrest, or acts of foreign enemies",
-      "Nuclear contamination or radiation exposure",
-      "Pregnancy-related expenses (unless complications arise)",
-      "Routine medical care, check-ups, or elective procedures",
-      "Mental health conditions (unless specifically covered)",
-      "Alcohol or drug-related incidents"
-    ],
-    importantContacts: {
-      insurer: insurer,
-      administrator: isAllianzPolicy ? "Allianz Global Assistance" : "Valley Trust Insurance Claims Department",
-      emergencyLine: "24-Hour Emergency Travel Assistance: 1-866-520-2571 (see policy documents for international numbers)"
-    },
-    keyBenefits,
-    whyItMatters: `This ${policyType.toLowerCase()} provides crucial financial protection against unexpected events that could cost thousands of dollars. Travel medical emergencies alone can result in bills exceeding $100,000, especially in countries like the USA. This coverage ensures you receive proper medical care without devastating financial consequences, while also protecting your travel investment through trip cancellation and interruption benefits. The 24-hour emergency assistance service provides invaluable support when you need it most, including medical referrals, translation services, and coordination with your home healthcare providers.`
-  };
-}
-
-export async function enhancePolicySummary(policyData: PolicyData, clientContext?: string): Promise<string> {
-  const prompt = `
-As an insurance expert, create a comprehensive, client-friendly policy summary based on the following policy data.
-
-Policy Data:
-${JSON.stringify(policyData, null, 2)}
-
-${clientContext ? `Client Context: ${clientContext}` : ''}
-
-Create a detailed, professional summary that:
-1. Explains the coverage in plain language
-2. Highlights the most important benefits
-3. Explains why each type of coverage matters
-4. Uses specific examples when helpful
-5. Maintains a professional but approachable tone
-
-Focus on helping clients understand the value and importance of their coverage.
-`;
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system", 
-          content: "You are an expert insurance advisor helping to explain policy benefits to clients in clear, understandable language."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 1500
-    });
-
-    return response.choices[0].message.content || "Unable to generate enhanced summary.";
-  } catch (error) {
-    console.error('Summary enhancement error:', error);
-    // Return basic summary if enhancement fails
-    return `This ${policyData.policyType} provides essential coverage with key benefits including ${policyData.keyBenefits.join(', ')}. ${policyData.whyItMatters}`;
-  }
+import type { LLMProviderName } from './llmProvider';
+import { XAIService } from './xai';
+
+// OpenAI-compatible provider. OpenAI, Azure OpenAI gateways and local servers
+// (Ollama, vLLM, LM Studio) all speak the same chat completions protocol as
+// xAI, so this reuses the xAI prompts and only changes endpoint and models.
+export class OpenAICompatibleProvider extends XAIService {
+  readonly name: LLMProviderName = 'openai';
 }
@@ -3,29 +3,38 @@ import tesseract from 'node-tesseract-ocr';
 import { execSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
+import type { ProgressReporter } from './processingEvents';
 
 export class PDFExtractor {
-  async extractText(buffer: Buffer): Promise<string> {
+  async extractText(buffer: Buffer, onProgress?: ProgressReporter): Promise<string> {
+    const pages = await this.extractPages(buffer, onProgress);
+    return pages.filter(Boolean).join('\n\n');
+  }
+
+  // Text of each page, in page order (index 0 is page 1); pages without text are empty
+  async extractPages(buffer: Buffer, onProgress?: ProgressReporter): Promise<string[]> {
     console.log('Starting PDF text extraction...');
     
     // Try multiple extraction strategies
     const strategies = [
-      () => this.extractWithAdvancedPdfjs(buffer),
-      () => this.extractWithBasicPdfjs(buffer),
-      () => this.extractWithLenientOptions(buffer),
-      () => this.extractWithOCR(buffer)
+      { label: 'Reading PDF text layer', run: () => this.extractWithAdvancedPdfjs(buffer) },
+      { label: 'Retrying with basic text extraction', run: () => this.extractWithBasicPdfjs(buffer) },
+      { label: 'Retrying with lenient PDF parsing', run: () => this.extractWithLenientOptions(buffer) },
+      { label: 'No text layer found, running OCR', run: () => this.extractWithOCR(buffer, onProgress) },
     ];
 
     for (let i = 0; i < strategies.length; i++) {
       try {
         console.log(`Trying extraction strategy ${i + 1}...`);
-        const text = await strategies[i]();
+        onProgress?.('text_extraction', strategies[i].label);
+        const pages = (await strategies[i].run()).map(page => this.cleanText(page));
+        const length = pages.reduce((total, page) => total + page.length, 0);
         
-        if (text && text.trim().length >= 20) {
-          console.log(`Strategy ${i + 1} succeeded, extracted ${text.length} characters`);
-          return this.cleanText(text);
+        if (length >= 20) {
+          console.log(`Strategy ${i + 1} succeeded, extracted ${length} characters from ${pages.length} pages`);
+          return pages;
         }
-        console.log(`Strategy ${i + 1} produced insufficient text (${text?.length || 0} chars)`);
+        console.log(`Strategy ${i + 1} produced insufficient text (${length} chars)`);
       } catch (error) {
         console.log(`Strategy ${i + 1} failed:`, error instanceof Error ? error.message : String(error));
         continue;
@@ -35,7 +44,7 @@ export class PDFExtractor {
     throw new Error('Document appears to be image-based or contains no readable text. This may be a scanned document that requires OCR processing.');
   }
 
-  private async extractWithAdvancedPdfjs(buffer: Buffer): Promise<string> {
+  private async extractWithAdvancedPdfjs(buffer: Buffer): Promise<string[]> {
     const loadingTask = pdfjsLib.getDocument({
       data: new Uint8Array(buffer),
       useSystemFonts: true,
@@ -45,9 +54,10 @@ export class PDFExtractor {
     });
     
     const pdfDocument = await loadingTask.promise;
-    let fullText = '';
+    const pages: string[] = [];
     
     for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      pages.push('');
       try {
         const page = await pdfDocument.getPage(pageNumber);
         const textContent = await page.getTextContent();
@@ -63,19 +73,17 @@ export class PDFExtractor {
           .join(' ')
           .replace(/\s+/g, ' ');
         
-        if (pageText.trim().length > 0) {
-          fullText += `${pageText}\n\n`;
-        }
+        pages[pageNumber - 1] = pageText.trim();
       } catch (pageError) {
         console.warn(`Failed to extract page ${pageNumber}:`, pageError instanceof Error ? pageError.message : String(pageError));
         continue;
       }
     }
     
-    return fullText;
+    return pages;
   }
 
-  private async extractWithBasicPdfjs(buffer: Buffer): Promise<string> {
+  private async extractWithBasicPdfjs(buffer: Buffer): Promise<string[]> {
     const loadingTask = pdfjsLib.getDocument({
       data: new Uint8Array(buffer),
       useSystemFonts: false,
@@ -84,33 +92,31 @@ export class PDFExtractor {
     });
     
     const pdfDocument = await loadingTask.promise;
-    let fullText = '';
+    const pages: string[] = [];
     
     for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      pages.push('');
       try {
         const page = await pdfDocument.getPage(pageNumber);
         const textContent = await page.getTextContent();
         
-        const pageText = textContent.items
+        pages[pageNumber - 1] = textContent.items
           .filter((item: any) => item.str && item.str.trim())
           .map((item: any) => item.str)
-          .join(' ');
-        
-        if (pageText.trim()) {
-          fullText += pageText + '\n\n';
-        }
+          .join(' ')
+          .trim();
       } catch (pageError) {
         console.warn(`Basic extraction failed for page ${pageNumber}:`, pageError instanceof Error ? pageError.message : String(pageError));
         continue;
       }
     }
     
-    return fullText;
+    return pages;
   }
 
 
 
-  private async extractWithLenientOptions(buffer: Buffer): Promise<string> {
+  private async extractWithLenientOptions(buffer: Buffer): Promise<string[]> {
     const loadingTask = pdfjsLib.getDocument({
       data: new Uint8Array(buffer),
       useSystemFonts: false,
@@ -124,13 +130,14 @@ export class PDFExtractor {
     });
     
     const pdfDocument = await loadingTask.promise;
-    let fullText = '';
+    const pages: string[] = [];
     let extractedPages = 0;
     
     // Extract all pages for comprehensive policy analysis
     const maxPages = Math.min(pdfDocument.numPages, 100);
     
     for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      pages.push('');
       try {
         const page = await pdfDocument.getPage(pageNumber);
         
@@ -151,7 +158,7 @@ export class PDFExtractor {
               .trim();
             
             if (pageText.length > 5) {
-              fullText += `${pageText} `;
+              pages[pageNumber - 1] = pageText;
               extractedPages++;
             }
           }
@@ -161,7 +168,7 @@ export class PDFExtractor {
             const operators = await page.getOperatorList();
             // This is a fallback - we might get some text from operators
             if (operators.fnArray.length > 0) {
-              fullText += `[Page ${pageNumber} contains graphics/images] `;
+              pages[pageNumber - 1] = `[Page ${pageNumber} contains graphics/images]`;
             }
           } catch (opError) {
             console.warn(`All text extraction methods failed for page ${pageNumber}`);
@@ -174,10 +181,10 @@ export class PDFExtractor {
     }
     
     console.log(`Lenient extraction processed ${extractedPages}/${maxPages} pages`);
-    return fullText;
+    return pages;
   }
 
-  private async extractWithOCR(buffer: Buffer): Promise<string> {
+  private async extractWithOCR(buffer: Buffer, onProgress?: ProgressReporter): Promise<string[]> {
     console.log('Attempting OCR extraction for image-based PDF...');
     
     // Check if we're in a deployment environment and adjust timeouts
@@ -220,14 +227,16 @@ export class PDFExtractor {
       
       console.log(`Processing ${imageFiles.length} pages with OCR...`);
       
-      // Extract text from each image using Tesseract
-      const extractedTexts = [];
+      // Extract text from each image using Tesseract (pdftoppm names them in page order)
+      const extractedTexts: string[] = [];
       
-      for (const imageFile of imageFiles) {
+      for (let index = 0; index < imageFiles.length; index++) {
+        const imageFile = imageFiles[index];
         const imagePath = path.join(tempDir, imageFile);
         
         try {
           console.log(`OCR processing page: ${imageFile} at ${imagePath}`);
+          onProgress?.('ocr_page', `OCR page ${index + 1} of ${imageFiles.length}`, { current: index + 1, total: imageFiles.length });
           const startTime = Date.now();
           
           // Create a timeout wrapper for OCR
@@ -247,13 +256,12 @@ export class PDFExtractor {
           
           const text = await Promise.race([ocrPromise, timeoutPromise]);
           
-          if (text && text.trim().length > 10) {
-            extractedTexts.push(text.trim());
-          }
+          extractedTexts.push(text && text.trim().length > 10 ? text.trim() : '');
         } catch (pageError) {
+          extractedTexts.push('');
           console.warn(`OCR failed for page ${imageFile}:`, pageError instanceof Error ? pageError.message : String(pageError));
           // In deployment, if we get at least some text, continue
-          if (isDeployed && extractedTexts.length > 0) {
+          if (isDeployed && extractedTexts.some(Boolean)) {
             console.log('Deployment: Stopping OCR after error to preserve partial results');
             break;
           }
@@ -277,11 +285,11 @@ export class PDFExtractor {
       // In deployment, accept whatever we got
       if (isDeployed && fullText.length > 0) {
         console.log(`OCR extraction (deployment): ${fullText.length} characters from ${extractedTexts.length} pages`);
-        return fullText;
+        return extractedTexts;
       }
       
       console.log(`OCR extraction successful: ${fullText.length} characters from ${extractedTexts.length} pages`);
-      return fullText;
+      return extractedTexts;
       
     } catch (error) {
       console.error('OCR extraction failed:', error instanceof Error ? error.message : String(error));
@@ -1,12 +1,21 @@
 import puppeteer from 'puppeteer';
-import path from 'path';
-import fs from 'fs';
-import { PolicyData } from '@shared/schema';
+import { PolicyData, PolicyComparison, COVERAGE_LINE_LABELS, type CoverageGapAnalysis, type CoverageGapFinding, type StructuredSummary, type SummaryLanguage } from '@shared/schema';
+import { getPdfTemplate, pdfStrings, renderCustomTemplate, type PDFTemplateContext, type PdfStrings } from './pdfTemplates';
+import { sourceCitations } from './sourceCitations';
+import {
+  escapeHtml,
+  exportingFirm,
+  formatLongDate,
+  renderFirmLogo,
+  renderGapFindings,
+  renderSummaryHtml,
+} from './pdfTemplates/helpers';
 
 export interface PDFOptions {
   clientName?: string;
   policyReference?: string;
   clientLogo?: string; // Base64 encoded image
+  firmName?: string; // shown in the header; the default firm when empty
   includeExplanations: boolean;
   includeTechnicalDetails: boolean;
   includeBranding: boolean;
@@ -24,12 +33,27 @@ export interface PDFOptions {
     firmPhone: string;
     firmWebsite: string;
   };
+  // Prioritized gaps across the linked client's portfolio, shown after the summary
+  coverageGaps?: CoverageGapFinding[];
+  // Built-in layout name from server/services/pdfTemplates (defaults to professional)
+  template?: string;
+  // HTML of an agency-uploaded template; takes precedence over `template`
+  customTemplateHtml?: string;
+  // Who approved the exported summary; stamped into the footer of every page
+  approval?: {
+    approvedBy: string;
+    approvedAt: Date;
+    version: number | null;
+  };
+  // Language of the layout's fixed wording and dates; the summary and policy data
+  // passed in should already be in it (defaults to English)
+  language?: SummaryLanguage;
 }
 
 export class PDFGenerator {
   async generatePolicyPDF(
     policyData: PolicyData,
-    summary: string,
+    summary: StructuredSummary,
     options: PDFOptions
   ): Promise<Buffer> {
     console.log('[PDF Generator] Agent profile present:', !!options.agentProfile);
@@ -39,6 +63,55 @@ export class PDFGenerator {
         console.log('[PDF Generator] Agent image length:', options.agentProfile.agentImage.length);
       }
     }
+
+    const strings = pdfStrings(options.language);
+    const context: PDFTemplateContext = {
+      policyData,
+      summary,
+      summaryHtml: renderSummaryHtml(summary),
+      citations: sourceCitations.list(policyData),
+      options,
+      ...exportingFirm(options.firmName),
+      generatedDate: formatLongDate(new Date(), strings.locale),
+      strings,
+    };
+
+    const footer = options.approval ? this.renderApprovalFooter(options.approval, strings) : undefined;
+
+    if (options.customTemplateHtml) {
+      // Uploaded markup is rendered without scripts or outside requests
+      return this.renderPDF(renderCustomTemplate(options.customTemplateHtml, context), { sandboxed: true, footer });
+    }
+
+    const template = getPdfTemplate(options.template);
+    if (!template) {
+      throw new Error(`Unknown PDF template: ${options.template}`);
+    }
+    return this.renderPDF(template.render(context), { footer });
+  }
+
+  // Page footer for approved summaries. Chromium renders footer templates in their own
+  // unstyled document, so the styles are inline.
+  private renderApprovalFooter(approval: NonNullable<PDFOptions['approval']>, strings: PdfStrings): string {
+    const { common } = strings;
+    const version = approval.version ? common.approvedVersion(approval.version) : '';
+    return `
+      <div style="width: 100%; padding: 0 10mm; font-family: Georgia, serif; font-size: 8px; color: #555555; display: flex; justify-content: space-between;">
+        <span>${common.approvedBy(escapeHtml(approval.approvedBy), formatLongDate(approval.approvedAt, strings.locale))}${version}</span>
+        <span>${common.page} <span class="pageNumber"></span> ${common.pageOf} <span class="totalPages"></span></span>
+      </div>
+    `;
+  }
+
+  async generateComparisonPDF(comparison: PolicyComparison, options: PDFOptions): Promise<Buffer> {
+    return this.renderPDF(this.generateComparisonHTML(comparison, options));
+  }
+
+  async generateGapAnalysisPDF(analysis: CoverageGapAnalysis, options: PDFOptions): Promise<Buffer> {
+    return this.renderPDF(this.generateGapAnalysisHTML(analysis, options));
+  }
+
+  private async renderPDF(html: string, { sandboxed = false, footer }: { sandboxed?: boolean; footer?: string } = {}): Promise<Buffer> {
     const browser = await puppeteer.launch({
       executablePath: '/nix/store/zi4f80l169xlmivz8vja8wlphq74qqk0-chromium-125.0.6422.141/bin/chromium',
       args: [
@@ -57,8 +130,20 @@ export class PDFGenerator {
 
     try {
       const page = await browser.newPage();
+
+      if (sandboxed) {
+        await page.setJavaScriptEnabled(false);
+        await page.setRequestInterception(true);
+        page.on('request', request => {
+          const url = request.url();
+          if (url.startsWith('data:') || url === 'about:blank') {
+            request.continue();
+          } else {
+            request.abort();
+          }
+        });
+      }
       
-      const html = this.generateHTML(policyData, summary, options);
       await page.setContent(html, { waitUntil: 'networkidle0' });
       
       const pdfBuffer = await page.pdf({
@@ -67,10 +152,11 @@ export class PDFGenerator {
         margin: {
           top: '10mm',
           right: '10mm',
-          bottom: '10mm',
+          bottom: footer ? '16mm' : '10mm',
           left: '10mm',
         },
         preferCSSPageSize: true,
+        ...(footer ? { displayHeaderFooter: true, headerTemplate: '<span></span>', footerTemplate: footer } : {}),
       });
 
       return Buffer.from(pdfBuffer);
@@ -79,47 +165,163 @@ export class PDFGenerator {
     }
   }
 
-  private generateHTML(policyData: PolicyData, summary: string, options: PDFOptions): string {
-    const logoBase64 = this.getLogoBase64();
-    
-    // Parse and format the summary content with proper styling
-    const formattedSummary = this.parseAndFormatSummary(summary);
+  private generateComparisonHTML(comparison: PolicyComparison, options: PDFOptions): string {
+    const { policies, coverages, exclusions, findings } = comparison;
+    const severityLabel = { high: 'High', medium: 'Medium', low: 'Low' };
+
+    const policyHeaders = policies.map((policy, index) => `
+                    <th>
+                        ${escapeHtml(policy.insurer || policy.name)}
+                        <div class="policy-sub">${index === 0 ? 'Baseline' : `Option ${index}`} · ${escapeHtml(policy.name)}</div>
+                    </th>`).join('');
+
+    const coverageRows = coverages.map(row => `
+                <tr>
+                    <td class="row-label">${escapeHtml(row.coverage)}</td>
+                    ${row.cells.map((cell, index) => {
+                      const finding = index > 0 && findings.find(f => f.policyIndex === index && f.coverage === row.coverage && f.severity !== 'low');
+                      if (!cell) {
+                        return `<td class="${index > 0 && row.cells[0] ? 'cell-gap' : 'cell-missing'}">Not included</td>`;
+                      }
+                      return `<td class="${finding ? 'cell-warn' : ''}">${escapeHtml(cell.limit)}${cell.deductible ? `<div class="policy-sub">Deductible: ${escapeHtml(cell.deductible)}</div>` : ''}</td>`;
+                    }).join('')}
+                </tr>`).join('');
+
+    const exclusionRows = exclusions.map(row => `
+                <tr>
+                    <td class="row-label">${escapeHtml(row.exclusion)}</td>
+                    ${row.presentIn.map((present, index) =>
+                      `<td class="${present && index > 0 && !row.presentIn[0] ? 'cell-warn' : ''}">${present ? 'Excluded' : '—'}</td>`
+                    ).join('')}
+                </tr>`).join('');
+
+    const findingGroups = policies.slice(1).map((policy, offset) => {
+      const index = offset + 1;
+      const items = findings.filter(f => f.policyIndex === index);
+      return `
+            <div class="section-block">
+                <h3 class="finding-title">${escapeHtml(policy.insurer || policy.name)} vs. ${escapeHtml(policies[0].insurer || policies[0].name)}</h3>
+                ${items.length === 0 ? '<p class="no-findings">No material differences found.</p>' : `
+                <ul class="findings">
+                    ${items.map(f => `<li><span class="severity severity-${f.severity}">${severityLabel[f.severity]}</span>${escapeHtml(f.message)}</li>`).join('')}
+                </ul>`}
+            </div>`;
+    }).join('');
+
+    return this.renderReportHTML('Policy Comparison', `
+    <h2 class="subheader">Policies Compared</h2>
+    <table>
+        <thead>
+            <tr>
+                <th></th>${policyHeaders}
+            </tr>
+        </thead>
+        <tbody>
+            <tr>
+                <td class="row-label">Policy Type</td>
+                ${policies.map(p => `<td>${escapeHtml(p.policyType)}</td>`).join('')}
+            </tr>
+            <tr>
+                <td class="row-label">Policy Number</td>
+                ${policies.map(p => `<td>${escapeHtml(p.policyNumber || '—')}</td>`).join('')}
+            </tr>
+            <tr>
+                <td class="row-label">Policy Period</td>
+                ${policies.map(p => `<td>${escapeHtml(p.policyPeriod || '—')}</td>`).join('')}
+            </tr>
+            <tr>
+                <td class="row-label">Premium</td>
+                ${policies.map(p => `<td>${escapeHtml(p.premium || '—')}</td>`).join('')}
+            </tr>
+        </tbody>
+    </table>
+
+    <h2 class="subheader">Key Differences</h2>
+    ${findingGroups}
+
+    <h2 class="subheader">Coverage Limits</h2>
+    <table>
+        <thead>
+            <tr>
+                <th>Coverage</th>${policyHeaders}
+            </tr>
+        </thead>
+        <tbody>${coverageRows}
+        </tbody>
+    </table>
+
+    ${options.includeTechnicalDetails && exclusions.length > 0 ? `
+    <h2 class="subheader">Exclusions</h2>
+    <table>
+        <thead>
+            <tr>
+                <th>Exclusion</th>${policyHeaders}
+            </tr>
+        </thead>
+        <tbody>${exclusionRows}
+        </tbody>
+    </table>
+    ` : ''}
+    `, options, comparison.generatedAt);
+  }
+
+  private generateGapAnalysisHTML(analysis: CoverageGapAnalysis, options: PDFOptions): string {
+    const lines = analysis.linesPresent.map(line => COVERAGE_LINE_LABELS[line]);
+
+    return this.renderReportHTML('Coverage Gap Review', `
+    <h2 class="subheader">Portfolio Reviewed</h2>
+    <table>
+        <tbody>
+            <tr>
+                <td class="row-label">Client</td>
+                <td>${escapeHtml(analysis.clientName)}${analysis.businessType ? ` · ${escapeHtml(analysis.businessType)}` : ''}</td>
+            </tr>
+            <tr>
+                <td class="row-label">Policies Reviewed</td>
+                <td>${analysis.policiesAnalyzed}</td>
+            </tr>
+            <tr>
+                <td class="row-label">Coverage In Place</td>
+                <td>${lines.length > 0 ? escapeHtml(lines.join(', ')) : '—'}</td>
+            </tr>
+            <tr>
+                <td class="row-label">Rules Applied</td>
+                <td>${analysis.appliedRuleSets.length > 0 ? escapeHtml(analysis.appliedRuleSets.join(', ')) : 'Umbrella checks only'}</td>
+            </tr>
+        </tbody>
+    </table>
+
+    <h2 class="subheader">Findings</h2>
+    ${analysis.findings.length === 0
+      ? '<p class="no-findings">No coverage gaps found across the policies on file.</p>'
+      : renderGapFindings(analysis.findings)}
+    `, options, analysis.generatedAt);
+  }
+
+  // Page shell shared by the multi-policy reports (comparison, coverage gaps):
+  // branded header, report styles and the agent footer around the given body
+  private renderReportHTML(title: string, body: string, options: PDFOptions, generatedAt: string): string {
+    const { firmName, logoBase64 } = exportingFirm(options.firmName);
 
     return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Policy Summary - Valley Trust Insurance</title>
+    <title>${escapeHtml(title)} - ${escapeHtml(firmName)}</title>
     <style>
-        * {
-            margin: 0;
-            padding: 0;
-            box-sizing: border-box;
-        }
-        
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
         body {
             font-family: 'Georgia', 'Times New Roman', serif;
-            line-height: 1.8;
             color: #1e293b;
             background: white;
-            font-size: 13px;
-            text-rendering: optimizeLegibility;
-            -webkit-font-smoothing: antialiased;
-            -moz-osx-font-smoothing: grayscale;
-        }
-        
-        .page {
-            max-width: 210mm;
-            margin: 0 auto;
-            padding: 0;
-            min-height: 100vh;
-            display: flex;
-            flex-direction: column;
-            position: relative;
+            font-size: 12px;
+            line-height: 1.5;
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
         }
-        
+
         .header {
             display: flex;
             align-items: center;
@@ -127,683 +329,103 @@ export class PDFGenerator {
             padding: 12px 16px;
             border-bottom: 1px solid #000000;
             margin-bottom: 12px;
-            background: #ffffff;
-        }
-        
-        .header-left {
-            display: flex;
-            align-items: center;
-        }
-        
-        .header-right {
-            display: flex;
-            align-items: center;
-            gap: 12px;
-        }
-        
-        .client-logo-header {
-            height: 32px;
-            max-width: 80px;
-            object-fit: contain;
-            border: 1px solid #dee2e6;
-            border-radius: 2px;
-            padding: 4px;
-            background: white;
-        }
-        
-        .client-info-header {
-            text-align: right;
-        }
-        
-        .client-name {
-            font-size: 18px;
-            font-weight: 700;
-            color: #000000;
-            margin: 0;
-            line-height: 1.2;
-        }
-        
-        .analysis-date {
-            font-size: 13px;
-            color: #666666;
-            margin: 2px 0 0 0;
-            font-style: italic;
-            line-height: 1.2;
-        }
-        
-        .logo {
-            height: 32px;
-            margin-right: 12px;
-        }
-        
-        .header-text h1 {
-            font-size: 18px;
-            color: #000000;
-            margin-bottom: 3px;
-            font-weight: 700;
-            letter-spacing: -0.025em;
-            text-transform: uppercase;
-        }
-        
-        .header-text p {
-            color: #333333;
-            font-size: 14px;
-            font-style: italic;
-            font-weight: 500;
-        }
-        
-        .client-logo-section {
-            flex-shrink: 0;
-            text-align: center;
-            min-width: 120px;
-        }
-        
-        .policy-header {
-            text-align: center;
-            margin: 10px 0;
-            padding: 10px;
-            background: #f8f9fa;
-            color: #000000;
-            border: 1px solid #dee2e6;
-            border-radius: 2px;
-        }
-        
-        .policy-header.with-client-logo {
-            text-align: left;
-            padding: 12px;
-        }
-        
-        .policy-header-with-logo {
-            display: flex;
-            align-items: center;
-            gap: 15px;
-            margin-bottom: 10px;
-        }
-        
-        .policy-main-section {
-            flex: 1;
-            text-align: center;
-        }
-        
-        .policy-client-details {
-            padding-top: 10px;
-            margin-top: 10px;
-            border-top: 1px solid #dee2e6;
-            font-size: 12px;
-            color: #333;
-        }
-        
-        .policy-client-details div {
-            margin-bottom: 4px;
-        }
-        
-        .policy-client-details strong {
-            color: #000000;
-            font-weight: 600;
-        }
-        
-        .policy-header h1 {
-            font-size: 16px;
-            margin-bottom: 4px;
-            font-weight: 600;
-            text-transform: uppercase;
-            letter-spacing: 0.5px;
-        }
-        
-        .policy-header p {
-            font-size: 12px;
-            font-style: italic;
-            font-weight: 500;
-        }
-        
-        .summary-content {
-            padding: 10px 0;
-            background: white;
-            margin: 10px 0;
-        }
-        
-        .summary-wrapper {
-            max-width: 100%;
-        }
-        
-        .section-block {
-            margin-bottom: 12px;
-            page-break-inside: avoid;
         }
-        
-        .section-header {
-            margin-bottom: 8px;
-        }
-        
+
+        .header-left { display: flex; align-items: center; }
+        .logo { height: 32px; margin-right: 12px; }
+        .header-text h1 { font-size: 18px; color: #000000; font-weight: 700; text-transform: uppercase; }
+        .header-text p { color: #333333; font-size: 14px; font-style: italic; }
+        .client-info-header { text-align: right; }
+        .client-name { font-size: 18px; font-weight: 700; color: #000000; }
+        .analysis-date { font-size: 13px; color: #666666; font-style: italic; }
+
         .subheader {
-            font-size: 16px;
+            font-size: 15px;
             color: #000000;
-            margin: 0 0 8px 0;
+            margin: 16px 0 8px 0;
             padding: 6px 0;
             border-bottom: 1px solid #000000;
             font-weight: 700;
             text-transform: uppercase;
             letter-spacing: 0.5px;
-            background: #ffffff;
-        }
-        
-        .section-content {
-            margin-top: 0;
         }
-        
-        .section-paragraph {
-            font-size: 16px;
-            line-height: 1.7;
-            color: #1e293b;
-            margin: 0 0 8px 0;
-            text-align: justify;
-            hyphens: auto;
-        }
-        
-        .main-heading {
-            font-size: 18px;
-            color: #000000;
-            margin: 25px 0 15px 0;
-            padding-bottom: 8px;
-            border-bottom: 3px solid #000000;
-            font-weight: 700;
-            letter-spacing: -0.025em;
+
+        table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+        tr { page-break-inside: avoid; }
+        th, td { border: 1px solid #dee2e6; padding: 6px 8px; text-align: left; vertical-align: top; }
+        th { background: #f8f9fa; font-weight: 700; color: #000000; }
+        .row-label { font-weight: 600; color: #000000; width: 28%; }
+        .policy-sub { font-size: 10px; font-weight: normal; color: #666666; }
+        .cell-gap { background: #fee2e2; color: #991b1b; font-weight: 600; }
+        .cell-warn { background: #fef3c7; }
+        .cell-missing { color: #94a3b8; }
+
+        .section-block { margin-bottom: 12px; page-break-inside: avoid; }
+        .finding-title { font-size: 13px; color: #000000; margin-bottom: 6px; }
+        .findings { list-style: none; }
+        .findings li { margin: 4px 0; display: flex; align-items: flex-start; gap: 8px; }
+        .no-findings { font-style: italic; color: #666666; }
+
+        .severity {
+            flex-shrink: 0;
+            min-width: 54px;
             text-align: center;
-            text-transform: uppercase;
-        }
-        
-        .regular-paragraph {
-            font-size: 16px;
-            line-height: 1.7;
-            color: #1e293b;
-            margin-bottom: 10px;
-            text-align: justify;
-            hyphens: auto;
-            text-indent: 0;
-        }
-        
-        .paragraph-break {
-            height: 12px;
-        }
-        
-        .bullet-point {
-            display: flex;
-            align-items: flex-start;
-            margin: 8px 0;
-            padding-left: 20px;
-        }
-        
-        .bullet-icon {
-            color: #000000;
-            font-weight: bold;
-            margin-right: 12px;
-            margin-top: 2px;
-            font-size: 16px;
-            min-width: 16px;
-        }
-        
-        .bullet-content {
-            flex: 1;
-            font-size: 16px;
-            line-height: 1.6;
-            color: #000000;
-            text-align: justify;
-        }
-        
-        .coverage-highlights {
-            display: grid;
-            grid-template-columns: 1fr 1fr;
-            gap: 20px;
-            margin: 25px 0;
-        }
-        
-        .coverage-box {
-            background: #f8f9fa;
-            padding: 15px;
-            border: 1px solid #dee2e6;
-            margin-bottom: 15px;
-            border-radius: 4px;
-        }
-        
-        .coverage-box h3 {
-            color: #000000;
-            margin-bottom: 12px;
-            font-size: 16px;
-            font-weight: 600;
-            text-transform: uppercase;
-        }
-        
-        .coverage-box ul {
-            list-style: none;
-        }
-        
-        .coverage-box li {
-            margin: 6px 0;
-            color: #000000;
-            font-size: 12px;
-            line-height: 1.5;
-            display: flex;
-            align-items: flex-start;
-        }
-        
-        .coverage-box li::before {
-            content: "•";
-            color: #000000;
-            font-weight: bold;
-            margin-right: 8px;
-            font-size: 12px;
-            margin-top: 2px;
-        }
-        
-        .contact-section {
-            background: #ffffff;
-            padding: 15px;
-            margin: 15px 0;
-            border: 2px solid #000000;
-        }
-        
-        .contact-section h2 {
-            color: #000000;
-            margin-bottom: 12px;
-            font-size: 16px;
+            font-size: 10px;
             font-weight: 700;
             text-transform: uppercase;
-            border-bottom: 2px solid #000000;
-            padding-bottom: 6px;
-        }
-        
-        .contact-section p {
-            margin: 6px 0;
-            font-size: 12px;
-            color: #000000;
-        }
-        
-        .contact-section strong {
-            color: #000000;
-            font-weight: 700;
+            padding: 1px 6px;
+            border-radius: 2px;
         }
-        
+        .severity-high { background: #dc2626; color: white; }
+        .severity-medium { background: #f59e0b; color: white; }
+        .severity-low { background: #e2e8f0; color: #334155; }
 
-        
-        .agent-signature {
-            margin-top: auto;
-            padding: 8px 15px;
-            background: #ffffff;
+        .agent-footer {
+            margin-top: 20px;
+            padding-top: 8px;
             border-top: 1px solid #000000;
-            flex-shrink: 0;
-        }
-        
-        .agent-signature h3 {
-            color: #000000;
-            font-size: 15px;
-            margin: 0 0 5px 0;
-            font-weight: 700;
-            text-transform: uppercase;
-        }
-        
-        .agent-signature-wrapper {
-            display: flex;
-            align-items: flex-start;
-            justify-content: space-between;
-            gap: 20px;
-        }
-        
-        .agent-signature-left {
-            flex: 0 0 40%;
-            min-width: 0;
-        }
-        
-        .agent-signature .signature-content {
-            white-space: pre-line;
-            font-size: 13px;
+            font-size: 11px;
             color: #000000;
-            line-height: 1.3;
-            margin: 0;
-            font-style: italic;
-        }
-        
-        .agent-signature-right {
-            flex: 0 0 58%;
-            display: flex;
-            align-items: center;
-            gap: 15px;
-        }
-        
-        .agent-signature .agent-details {
-            flex: 1;
-            padding: 0;
-            margin: 0;
-            border: none;
-        }
-        
-        .agent-signature .agent-details p {
-            margin: 0 0 2px 0;
-            font-size: 12px;
-            color: #000000;
-            font-weight: 500;
-            line-height: 1.3;
-        }
-        
-        .agent-signature .agent-details strong {
-            color: #000000;
-            font-weight: 700;
-        }
-        
-        .agent-image {
-            flex-shrink: 0;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-        }
-        
-        .agent-photo {
-            max-width: 80px;
-            max-height: 80px;
-            width: auto;
-            height: auto;
-            border-radius: 4px;
-            object-fit: contain;
-            border: 2px solid #ddd;
-            display: block;
-        }
-        
-        @media print {
-            body { 
-                font-size: 11px; 
-                -webkit-print-color-adjust: exact;
-                print-color-adjust: exact;
-            }
-            .page-break { page-break-before: always; }
-            .no-break { page-break-inside: avoid; }
-        }
-        
-        @page {
-            margin: 10mm;
-            size: A4;
-        }
-        
-        .page-break-avoid {
-            page-break-inside: avoid;
-            break-inside: avoid;
-        }
-        
-        .section-block {
-            page-break-inside: avoid;
         }
+
+        @page { margin: 10mm; size: A4; }
     </style>
 </head>
 <body>
-    <div class="page">
-        ${options.includeBranding ? `
-        <div class="header">
-            <div class="header-left">
-                <img src="data:image/png;base64,${logoBase64}" alt="Valley Trust Insurance" class="logo">
-                <div class="header-text">
-                    <h1>Valley Trust Insurance</h1>
-                    <p>Professional Policy Analysis & Summary</p>
-                </div>
-            </div>
-            ${options.clientName || options.clientLogo ? `
-            <div class="header-right">
-                ${options.clientLogo ? `
-                <img src="${options.clientLogo}" alt="Client Logo" class="client-logo-header">
-                ` : ''}
-                ${options.clientName ? `
-                <div class="client-info-header">
-                    <p class="client-name">${options.clientName}</p>
-                    <p class="analysis-date">${new Date().toLocaleDateString('en-US', { 
-                        year: 'numeric', 
-                        month: 'long', 
-                        day: 'numeric' 
-                    })}</p>
-                </div>
-                ` : ''}
-            </div>
-            ` : ''}
-        </div>
-        ` : ''}
-        
-
-
-        ${options.includeTechnicalDetails ? `
-        <div class="coverage-highlights">
-            <div class="coverage-box">
-                <h3>Coverage Summary</h3>
-                <ul>
-                    ${policyData.coverageDetails?.slice(0, 6).map(coverage => 
-                        `<li><strong>${coverage.type}:</strong> ${coverage.limit}${coverage.deductible ? ` (Deductible: ${coverage.deductible})` : ''}</li>`
-                    ).join('')}
-                </ul>
-            </div>
-            
-            <div class="coverage-box">
-                <h3>Key Contacts</h3>
-                <ul>
-                    ${policyData.importantContacts?.map(contact => {
-                        if (typeof contact === 'object' && contact.details) {
-                            return `<li><strong>${contact.type}:</strong> ${contact.details}</li>`;
-                        }
-                        return '';
-                    }).filter(Boolean).join('')}
-                </ul>
+    ${options.includeBranding ? `
+    <div class="header">
+        <div class="header-left">
+            ${logoBase64 ? renderFirmLogo(logoBase64, firmName) : ''}
+            <div class="header-text">
+                <h1>${escapeHtml(firmName)}</h1>
+                <p>${escapeHtml(title)}</p>
             </div>
         </div>
-        ` : ''}
-
-        <div class="summary-content">
-            ${formattedSummary}
-        </div>
-
-        ${options.includeAgentSignature && options.agentProfile ? `
-        <div class="agent-signature">
-            <h3>Your Insurance Agent</h3>
-            <div class="agent-signature-wrapper">
-                <div class="agent-signature-left">
-                    <div class="signature-content">${options.agentProfile.signature}</div>
-                </div>
-                <div class="agent-signature-right">
-                    ${options.agentProfile.agentImage ? `
-                    <div class="agent-image">
-                        <img src="${options.agentProfile.agentImage}" alt="Agent Photo" class="agent-photo">
-                    </div>
-                    ` : ''}
-                    <div class="agent-details">
-                        <p><strong>${options.agentProfile.name}</strong>, ${options.agentProfile.title}</p>
-                        <p>License: ${options.agentProfile.license}</p>
-                        <p>${options.agentProfile.phone} | ${options.agentProfile.email}</p>
-                        <p>${options.agentProfile.firmWebsite}</p>
-                    </div>
-                </div>
-            </div>
+        ${options.clientName ? `
+        <div class="client-info-header">
+            <p class="client-name">${escapeHtml(options.clientName)}</p>
+            <p class="analysis-date">${new Date(generatedAt).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            })}</p>
         </div>
         ` : ''}
+    </div>
+    ` : ''}
 
+    ${body}
 
+    ${options.includeAgentSignature && options.agentProfile ? `
+    <div class="agent-footer">
+        <p><strong>${escapeHtml(options.agentProfile.name)}</strong>, ${escapeHtml(options.agentProfile.title)}</p>
+        <p>${escapeHtml(options.agentProfile.phone)} | ${escapeHtml(options.agentProfile.email)}</p>
     </div>
+    ` : ''}
 </body>
 </html>
     `;
   }
-
-  private parseAndFormatSummary(summary: string): string {
-    console.log('PDF Generator: Parsing summary content:');
-    console.log('Raw summary:', summary);
-    
-    // First split by double newlines to get main sections
-    const sections = summary.split('\n\n');
-    let formattedHtml = '<div class="summary-wrapper">';
-    
-    console.log('PDF Generator: Found', sections.length, 'sections');
-    
-    for (let i = 0; i < sections.length; i++) {
-      const section = sections[i].trim();
-      
-      console.log(`PDF Generator: Processing section ${i}:`, section);
-      
-      // Skip empty sections
-      if (section === '') {
-        formattedHtml += '<div class="paragraph-break"></div>';
-        continue;
-      }
-      
-      // Handle bracket headers at the start of the section (like [Your Coverage Summary])
-      if (section.startsWith('[') && section.includes(']')) {
-        const lines = section.split('\n');
-        const firstLine = lines[0].trim();
-        
-        console.log('PDF Generator: Found bracket section, first line:', firstLine);
-        
-        // Check if first line is a bracket header
-        const bracketHeaderMatch = firstLine.match(/^\[([^\]]+)\]$/);
-        if (bracketHeaderMatch) {
-          const headerText = bracketHeaderMatch[1];
-          const remainingContent = lines.slice(1).join('\n').trim();
-          
-          console.log('PDF Generator: Parsed bracket header:', headerText);
-          console.log('PDF Generator: Remaining content:', remainingContent);
-          
-          formattedHtml += `
-            <div class="section-block">
-              <div class="section-header">
-                <h3 class="subheader">${headerText}</h3>
-              </div>
-          `;
-          
-          // Parse the remaining content to separate paragraph from bullet points
-          if (remainingContent) {
-            const contentLines = remainingContent.split('\n');
-            let paragraphLines = [];
-            let bulletPoints = [];
-            
-            for (const line of contentLines) {
-              const trimmedLine = line.trim();
-              if (trimmedLine.startsWith('• ')) {
-                bulletPoints.push(trimmedLine);
-              } else if (trimmedLine) {
-                paragraphLines.push(trimmedLine);
-              }
-            }
-            
-            // Add paragraph content
-            if (paragraphLines.length > 0) {
-              const paragraphText = paragraphLines.join(' ');
-              formattedHtml += `<div class="section-content"><p class="section-paragraph">${paragraphText}</p></div>`;
-            }
-            
-            // Add bullet points
-            for (const bullet of bulletPoints) {
-              const bulletContent = bullet.substring(1).trim();
-              formattedHtml += `
-                <div class="bullet-point">
-                  <span class="bullet-icon">•</span>
-                  <div class="bullet-content">${bulletContent}</div>
-                </div>
-              `;
-            }
-          }
-          
-          formattedHtml += `</div>`;
-          continue;
-        }
-      }
-      
-      // Check if this section contains bullet points
-      if (section.includes('•')) {
-        // Split by single newlines to handle individual bullet points
-        const lines = section.split('\n');
-        
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-          
-          if (trimmedLine === '') continue;
-          
-          // Handle bullet points
-          if (trimmedLine.startsWith('•')) {
-            const bulletContent = trimmedLine.substring(1).trim();
-            formattedHtml += `
-              <div class="bullet-point">
-                <span class="bullet-icon">•</span>
-                <div class="bullet-content">${bulletContent}</div>
-              </div>
-            `;
-          } else {
-            // Handle regular text mixed with bullet points
-            formattedHtml += `<p class="regular-paragraph">${trimmedLine}</p>`;
-          }
-        }
-        continue;
-      }
-      
-      // Handle subheaders in brackets [like this] or **[like this]**
-      const subheaderMatch = section.match(/^(?:\*\*)?\[([^\]]+)\](?:\*\*)?\s*([\s\S]*)/);
-      if (subheaderMatch) {
-        const [, subheader, content] = subheaderMatch;
-        formattedHtml += `
-          <div class="section-block">
-            <div class="section-header">
-              <h3 class="subheader">${subheader}</h3>
-            </div>
-            ${content.trim() ? `<div class="section-content"><p class="section-paragraph">${content.trim()}</p></div>` : ''}
-          </div>
-        `;
-        continue;
-      }
-      
-      // Handle standalone bracket headers at the start of a section
-      if (section.startsWith('[') && section.includes(']')) {
-        const bracketMatch = section.match(/^\[([^\]]+)\]\s*([\s\S]*)/);
-        if (bracketMatch) {
-          const [, header, content] = bracketMatch;
-          formattedHtml += `
-            <div class="section-block">
-              <div class="section-header">
-                <h3 class="subheader">${header}</h3>
-              </div>
-              ${content.trim() ? `<div class="section-content"><p class="section-paragraph">${content.trim()}</p></div>` : ''}
-            </div>
-          `;
-          continue;
-        }
-      }
-      
-      // Handle bold headings (**text**)
-      if (section.includes('**')) {
-        const parts = section.split('**');
-        let processedLine = '';
-        
-        for (let j = 0; j < parts.length; j++) {
-          if (j % 2 === 1) {
-            // Bold text - make it a main heading
-            processedLine += `<h2 class="main-heading">${parts[j]}</h2>`;
-          } else if (parts[j].trim()) {
-            // Regular text around the bold
-            processedLine += `<p class="regular-paragraph">${parts[j].trim()}</p>`;
-          }
-        }
-        formattedHtml += processedLine;
-        continue;
-      }
-      
-      // Handle regular paragraphs
-      if (section.length > 0) {
-        formattedHtml += `<p class="regular-paragraph">${section}</p>`;
-      }
-    }
-    
-    formattedHtml += '</div>';
-    return formattedHtml;
-  }
-
-  private getLogoBase64(): string {
-    try {
-      const logoPath = path.resolve(process.cwd(), 'attached_assets', 'Valley-Trust-Insurance-Logo_1751344889285.png');
-      const logoBuffer = fs.readFileSync(logoPath);
-      return logoBuffer.toString('base64');
-    } catch (error) {
-      console.warn('Could not load logo file:', error);
-      return '';
-    }
-  }
 }
 
 export const pdfGenerator = new PDFGenerator();
@@ -0,0 +1,197 @@
+import type { PDFTemplate } from './types';
+import { escapeHtml, renderFirmLogo, renderSummaryBlocks } from './helpers';
+
+// Plain-language overview for the insured: large type, "what's covered /
+// what's not" cards and no form codes or technical tables
+export const clientFriendlyTemplate: PDFTemplate = {
+  name: 'client-friendly',
+  label: 'Client-Friendly Overview',
+  description: 'Plain-language overview with what is and is not covered and how to reach your agent',
+  clientFacing: true,
+  render({ policyData, summary, options, firmName, logoBase64, generatedDate, strings }) {
+    const text = strings.clientFriendly;
+    const glance = [
+      [text.insuranceCompany, policyData.insurer],
+      [text.policyNumber, policyData.policyNumber || options.policyReference],
+      [text.coverageStarts, policyData.effectiveDate],
+      [text.coverageEnds, policyData.expirationDate],
+      [text.premium, policyData.premiumAmount],
+    ].filter(([, value]) => value);
+
+    const covered = (policyData.keyBenefits || []).slice(0, 6);
+    const notCovered = (policyData.exclusions || []).slice(0, 5);
+    const claimSteps = policyData.claimsProcess?.howToClaim || [];
+    const agent = options.includeAgentSignature ? options.agentProfile : undefined;
+
+    return `
+<!DOCTYPE html>
+<html lang="${strings.lang}">
+<head>
+    <meta charset="UTF-8">
+    <title>${text.title} - ${escapeHtml(firmName)}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
+        body {
+            font-family: 'Helvetica Neue', Arial, sans-serif;
+            color: #1f2937;
+            background: white;
+            font-size: 14px;
+            line-height: 1.65;
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+        }
+
+        .hero {
+            background: #1e3a5f;
+            color: white;
+            padding: 24px 28px;
+            border-radius: 10px;
+            margin-bottom: 20px;
+        }
+        .hero-top { display: flex; align-items: center; justify-content: space-between; margin-bottom: 12px; }
+        .logo { height: 30px; background: white; padding: 4px 6px; border-radius: 4px; }
+        .logo-text { font-size: 16px; font-weight: 600; }
+        .hero h1 { font-size: 26px; font-weight: 700; }
+        .hero p { font-size: 15px; opacity: 0.9; }
+
+        .glance {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+            gap: 10px;
+            margin-bottom: 22px;
+        }
+        .glance div { background: #f1f5f9; border-radius: 8px; padding: 10px 12px; }
+        .glance span { display: block; font-size: 11px; color: #64748b; text-transform: uppercase; letter-spacing: 0.4px; }
+        .glance strong { font-size: 15px; }
+
+        h2 { font-size: 19px; color: #1e3a5f; margin: 20px 0 8px 0; }
+        p { margin: 6px 0; }
+
+        .cards { display: grid; grid-template-columns: 1fr 1fr; gap: 14px; }
+        .card { border-radius: 8px; padding: 14px 16px; page-break-inside: avoid; }
+        .card h3 { font-size: 16px; margin-bottom: 6px; }
+        .card ul { list-style: none; }
+        .card li { margin: 6px 0; }
+        .card li small { display: block; color: #475569; font-size: 12px; }
+        .covered { background: #ecfdf5; border: 1px solid #a7f3d0; }
+        .covered h3 { color: #047857; }
+        .not-covered { background: #fff7ed; border: 1px solid #fed7aa; }
+        .not-covered h3 { color: #c2410c; }
+
+        .section { margin-bottom: 12px; page-break-inside: avoid; }
+        .section ul { margin-left: 20px; }
+
+        .steps { counter-reset: step; list-style: none; }
+        .steps li { counter-increment: step; margin: 8px 0; padding-left: 34px; position: relative; }
+        .steps li::before {
+            content: counter(step);
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 24px;
+            height: 24px;
+            border-radius: 50%;
+            background: #1e3a5f;
+            color: white;
+            text-align: center;
+            font-size: 13px;
+            line-height: 24px;
+        }
+
+        .talk { background: #f8fafc; border-left: 4px solid #1e3a5f; padding: 10px 14px; margin: 8px 0; page-break-inside: avoid; }
+
+        .agent-card {
+            display: flex;
+            align-items: center;
+            gap: 16px;
+            margin-top: 24px;
+            padding: 16px;
+            border: 1px solid #cbd5e1;
+            border-radius: 10px;
+            page-break-inside: avoid;
+        }
+        .agent-photo { width: 64px; height: 64px; border-radius: 50%; object-fit: cover; }
+        .agent-card p { margin: 2px 0; }
+
+        @page { margin: 12mm; size: A4; }
+    </style>
+</head>
+<body>
+    <div class="hero">
+        <div class="hero-top">
+            ${options.includeBranding ? renderFirmLogo(logoBase64, firmName) : '<span></span>'}
+            <span>${generatedDate}</span>
+        </div>
+        <h1>${options.clientName ? text.heading(escapeHtml(options.clientName)) : text.headingWithoutClient}</h1>
+        <p>${escapeHtml(policyData.policyType)}</p>
+    </div>
+
+    ${glance.length > 0 ? `
+    <div class="glance">
+        ${glance.map(([label, value]) => `<div><span>${label}</span><strong>${escapeHtml(value!)}</strong></div>`).join('')}
+    </div>
+    ` : ''}
+
+    ${policyData.whyItMatters ? `
+    <h2>${text.whyItMatters}</h2>
+    <p>${escapeHtml(policyData.whyItMatters)}</p>
+    ` : ''}
+
+    ${covered.length > 0 || notCovered.length > 0 ? `
+    <div class="cards">
+        <div class="card covered">
+            <h3>${text.covered}</h3>
+            <ul>
+                ${covered.map(benefit => `
+                <li>✓ ${escapeHtml(benefit.benefit)}${benefit.description ? `<small>${escapeHtml(benefit.description)}</small>` : ''}</li>`).join('')}
+            </ul>
+        </div>
+        <div class="card not-covered">
+            <h3>${text.notCovered}</h3>
+            <ul>
+                ${notCovered.map(exclusion => `
+                <li>✗ ${escapeHtml(exclusion.description)}${exclusion.impact ? `<small>${escapeHtml(exclusion.impact)}</small>` : ''}</li>`).join('')}
+            </ul>
+        </div>
+    </div>
+    ` : ''}
+
+    ${summary.sections.length > 0 ? `
+    <h2>${text.explained}</h2>
+    ${summary.sections.map(section => `
+    <div class="section">
+        ${section.title ? `<h3>${escapeHtml(section.title)}</h3>` : ''}
+        ${renderSummaryBlocks(section.blocks)}
+    </div>`).join('')}
+    ` : ''}
+
+    ${claimSteps.length > 0 ? `
+    <h2>${text.makeAClaim}</h2>
+    <ol class="steps">${claimSteps.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ol>
+    ` : ''}
+
+    ${options.coverageGaps && options.coverageGaps.length > 0 ? `
+    <h2>${text.talkAbout}</h2>
+    ${options.coverageGaps.filter(gap => gap.priority !== 'low').map(gap => `
+    <div class="talk">
+        <strong>${escapeHtml(gap.title)}</strong>
+        <p>${escapeHtml(gap.recommendation)}</p>
+    </div>`).join('')}
+    ` : ''}
+
+    ${agent ? `
+    <div class="agent-card">
+        ${agent.agentImage ? `<img src="${agent.agentImage}" alt="Agent Photo" class="agent-photo">` : ''}
+        <div>
+            <p>${text.questions}</p>
+            <p><strong>${escapeHtml(agent.name)}</strong>, ${escapeHtml(agent.title)}</p>
+            <p>${escapeHtml(agent.phone)} · ${escapeHtml(agent.email)}</p>
+        </div>
+    </div>
+    ` : ''}
+</body>
+</html>
+    `;
+  },
+};
@@ -0,0 +1,195 @@
+import { summaryToMarkdown } from '@shared/summaryMarkdown';
+import type { PDFTemplateContext } from './types';
+import { escapeHtml, formatLongDate, renderSummaryBlocks } from './helpers';
+
+// Agency-uploaded layouts are plain HTML with Handlebars-style placeholders:
+//   {{policy.insurer}}            escaped value
+//   {{{summaryHtml}}}             raw HTML
+//   {{#each policy.coverageDetails}}{{type}}: {{limit}}{{/each}}
+//   {{#if agent}}...{{else}}...{{/if}}
+// Inside #each, names resolve against the current item first; {{this}} is the item itself.
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string; raw: boolean }
+  | { kind: 'each'; path: string; children: TemplateNode[] }
+  | { kind: 'if'; path: string; children: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: 'each' | 'if' }>;
+
+const TAG = /\{\{\{\s*([^}]+?)\s*\}\}\}|\{\{\s*([^}]+?)\s*\}\}/g;
+const PATH = /^(this|[A-Za-z_$][\w$]*)(\.[A-Za-z_$][\w$]*|\.\d+)*$/;
+
+// Documented for the template editor; every path is relative to the root context
+export const CUSTOM_TEMPLATE_FIELDS: { path: string; description: string }[] = [
+  { path: 'policy', description: 'Extracted policy data: policyType, insurer, policyNumber, insuredName, effectiveDate, expirationDate, premiumAmount, whyItMatters' },
+  { path: 'policy.coverageDetails', description: 'List of { type, limit, deductible, description, source: { page, quote } }' },
+  { path: 'policy.exclusions', description: 'List of { category, description, impact, formCode, source: { page, quote } }' },
+  { path: 'policy.keyBenefits', description: 'List of { benefit, description, importance, source: { page, quote } }' },
+  { path: 'policy.importantContacts', description: 'List of { type, details }' },
+  { path: 'summary', description: 'The summary as text, with [Heading] lines and • bullets' },
+  { path: 'summaryHtml', description: 'The summary formatted as HTML (use triple braces)' },
+  { path: 'sections', description: 'Summary sections: { title, blocks, paragraphs, bullets, html }; each block is { type: "paragraph", text } (text keeps its line breaks) or { type: "bullets", items } in reading order' },
+  { path: 'clientName', description: 'Client name chosen on export' },
+  { path: 'policyReference', description: 'Policy reference chosen on export' },
+  { path: 'date', description: 'Export date, e.g. "October 19, 2026"' },
+  { path: 'firmName', description: "The agency's firm name" },
+  { path: 'logo', description: "The firm's logo as a data URL (empty when branding is off or the firm has no logo)" },
+  { path: 'clientLogo', description: 'Client logo as a data URL, if uploaded' },
+  { path: 'agent', description: 'Agent profile: name, title, phone, email, license, firmName, firmAddress, firmPhone, firmWebsite' },
+  { path: 'coverageGaps', description: 'Coverage gap findings: { priority, title, detail, recommendation }' },
+  { path: 'citations', description: 'Where extracted entries appear in the document: { section, entry, page, quote }' },
+  { path: 'approval', description: 'Set once the summary is approved: { approvedBy, approvedAt, version }; also stamped into the page footer' },
+  { path: 'language', description: 'Language code of the export ("en" or "es"); the summary and policy data are already translated' },
+];
+
+function parse(html: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: BlockNode; inElse: boolean }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.node.kind === 'if' && top.inElse ? top.node.otherwise : top.node.children;
+  };
+
+  let lastIndex = 0;
+  for (const match of Array.from(html.matchAll(TAG))) {
+    if (match.index! > lastIndex) {
+      target().push({ kind: 'text', text: html.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    if (match[1] !== undefined) {
+      target().push({ kind: 'value', path: checkPath(match[1]), raw: true });
+      continue;
+    }
+
+    const tag = match[2];
+    const open = tag.match(/^#(each|if)\s+(.+)$/);
+    if (open) {
+      const node: BlockNode = open[1] === 'each'
+        ? { kind: 'each', path: checkPath(open[2]), children: [] }
+        : { kind: 'if', path: checkPath(open[2]), children: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.kind !== 'if' || top.inElse) {
+        throw new Error('{{else}} must be inside an {{#if}} block');
+      }
+      top.inElse = true;
+    } else if (tag.startsWith('/')) {
+      const top = stack.pop();
+      const kind = tag.slice(1).trim();
+      if (!top || top.node.kind !== kind) {
+        throw new Error(`Unexpected {{${tag}}}${top ? ` while {{#${top.node.kind} ${top.node.path}}} is open` : ''}`);
+      }
+    } else if (tag.startsWith('#')) {
+      throw new Error(`Unknown block {{${tag}}}; only #each and #if are supported`);
+    } else {
+      target().push({ kind: 'value', path: checkPath(tag), raw: false });
+    }
+  }
+
+  if (stack.length > 0) {
+    const top = stack[stack.length - 1].node;
+    throw new Error(`{{#${top.kind} ${top.path}}} is never closed`);
+  }
+  if (lastIndex < html.length) {
+    root.push({ kind: 'text', text: html.slice(lastIndex) });
+  }
+  return root;
+}
+
+function checkPath(path: string): string {
+  const trimmed = path.trim();
+  if (!PATH.test(trimmed)) {
+    throw new Error(`"${trimmed}" is not a valid field name`);
+  }
+  return trimmed;
+}
+
+// Scopes run from the innermost #each item out to the root context
+function lookup(path: string, scopes: unknown[]): unknown {
+  const [head, ...rest] = path.split('.');
+  const follow = (value: unknown) => rest.reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as any)[key] : undefined),
+    value
+  );
+
+  if (head === 'this') return follow(scopes[0]);
+  for (const scope of scopes) {
+    if (scope !== null && typeof scope === 'object' && head in scope) {
+      return follow((scope as any)[head]);
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'value': {
+        const value = lookup(node.path, scopes);
+        if (value === undefined || value === null || typeof value === 'object') return '';
+        return node.raw ? String(value) : escapeHtml(String(value));
+      }
+      case 'each': {
+        const items = lookup(node.path, scopes);
+        if (!Array.isArray(items)) return '';
+        return items.map(item => renderNodes(node.children, [item, ...scopes])).join('');
+      }
+      case 'if':
+        return renderNodes(isTruthy(lookup(node.path, scopes)) ? node.children : node.otherwise, scopes);
+    }
+  }).join('');
+}
+
+// Returns a description of the first syntax problem, or null when the template parses
+export function validateCustomTemplate(html: string): string | null {
+  try {
+    parse(html);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid template';
+  }
+}
+
+export function renderCustomTemplate(html: string, context: PDFTemplateContext): string {
+  const { policyData, options } = context;
+  const data = {
+    policy: policyData,
+    summary: summaryToMarkdown(context.summary),
+    summaryHtml: context.summaryHtml,
+    sections: context.summary.sections.map(section => ({
+      title: section.title,
+      blocks: section.blocks,
+      paragraphs: section.blocks.flatMap(block => (block.type === 'paragraph' ? [block.text] : [])),
+      bullets: section.blocks.flatMap(block => (block.type === 'bullets' ? block.items : [])),
+      html: renderSummaryBlocks(section.blocks),
+    })),
+    clientName: options.clientName || '',
+    policyReference: options.policyReference || policyData.policyNumber || '',
+    date: context.generatedDate,
+    firmName: context.firmName,
+    logo: options.includeBranding && context.logoBase64 ? `data:image/png;base64,${context.logoBase64}` : '',
+    clientLogo: options.clientLogo || '',
+    agent: options.includeAgentSignature ? options.agentProfile : undefined,
+    coverageGaps: options.coverageGaps || [],
+    citations: context.citations,
+    approval: options.approval ? {
+      approvedBy: options.approval.approvedBy,
+      approvedAt: formatLongDate(options.approval.approvedAt, context.strings.locale),
+      version: options.approval.version,
+    } : undefined,
+    language: context.strings.lang,
+  };
+
+  return renderNodes(parse(html), [data]);
+}
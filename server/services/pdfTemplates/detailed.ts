@@ -0,0 +1,254 @@
+import type { StructuredSummarySection } from '@shared/schema';
+import type { PDFTemplate } from './types';
+import { escapeHtml, renderCitationAppendix, renderFirmLogo, renderGapFindings, renderSummaryBlocks } from './helpers';
+
+function renderSection(section: StructuredSummarySection): string {
+  return `
+    <div class="section-block">
+        ${section.title ? `<h3>${escapeHtml(section.title)}</h3>` : ''}
+        ${renderSummaryBlocks(section.blocks)}
+    </div>`;
+}
+
+function listItems(items: string[] | undefined): string {
+  return (items || []).map(item => `<li>${escapeHtml(item)}</li>`).join('');
+}
+
+// Underwriting-style report: every extracted field in tables, with the
+// narrative summary as an appendix-like analysis section
+export const detailedTemplate: PDFTemplate = {
+  name: 'detailed',
+  label: 'Detailed Technical Report',
+  description: 'Full declarations, coverage, exclusion and claims tables followed by the analysis',
+  clientFacing: false,
+  render({ policyData, summary, citations, options, firmName, logoBase64, generatedDate, strings }) {
+    const text = strings.detailed;
+    const { common } = strings;
+    const facts = [
+      [text.namedInsured, policyData.insuredName],
+      [text.policyType, policyData.policyType],
+      [text.insurer, policyData.insurer],
+      [text.policyNumber, policyData.policyNumber || options.policyReference],
+      [text.policyPeriod, policyData.policyPeriod],
+      [text.effectiveDate, policyData.effectiveDate],
+      [text.expirationDate, policyData.expirationDate],
+      [text.premium, policyData.premiumAmount],
+    ].filter(([, value]) => value);
+
+    const claims = policyData.claimsProcess;
+    const risk = policyData.riskAssessment;
+
+    return `
+<!DOCTYPE html>
+<html lang="${strings.lang}">
+<head>
+    <meta charset="UTF-8">
+    <title>${text.title} - ${escapeHtml(firmName)}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
+        body {
+            font-family: 'Helvetica Neue', Arial, sans-serif;
+            color: #111827;
+            background: white;
+            font-size: 11px;
+            line-height: 1.45;
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+        }
+
+        .header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            padding-bottom: 8px;
+            border-bottom: 2px solid #111827;
+            margin-bottom: 14px;
+        }
+        .header-left { display: flex; align-items: center; gap: 10px; }
+        .logo { height: 28px; }
+        .logo-text { font-size: 14px; font-weight: 600; }
+        .header h1 { font-size: 16px; text-transform: uppercase; letter-spacing: 0.5px; }
+        .header p { font-size: 11px; color: #4b5563; }
+        .header-right { text-align: right; font-size: 11px; color: #4b5563; }
+        .header-right strong { display: block; font-size: 13px; color: #111827; }
+
+        h2 {
+            font-size: 12px;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            background: #111827;
+            color: white;
+            padding: 4px 8px;
+            margin: 16px 0 6px 0;
+        }
+        h3 { font-size: 12px; margin: 10px 0 4px 0; }
+        p { margin: 4px 0; }
+        ul { margin: 4px 0 4px 18px; }
+
+        table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+        tr { page-break-inside: avoid; }
+        th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+        th { background: #f3f4f6; font-weight: 700; }
+        .row-label { font-weight: 600; width: 30%; background: #f9fafb; }
+        .muted { color: #6b7280; }
+
+        .section-block { margin-bottom: 8px; page-break-inside: avoid; }
+
+        .citations td { font-size: 9px; }
+        .citation-quote { font-style: italic; color: #374151; }
+
+        .findings { list-style: none; margin-left: 0; }
+        .findings li { display: flex; align-items: flex-start; gap: 8px; margin: 6px 0; }
+        .policy-sub { font-size: 10px; color: #6b7280; }
+        .severity {
+            flex-shrink: 0;
+            min-width: 54px;
+            text-align: center;
+            font-size: 9px;
+            font-weight: 700;
+            text-transform: uppercase;
+            padding: 1px 6px;
+        }
+        .severity-high { background: #dc2626; color: white; }
+        .severity-medium { background: #f59e0b; color: white; }
+        .severity-low { background: #e5e7eb; color: #374151; }
+
+        .footer {
+            margin-top: 18px;
+            padding-top: 6px;
+            border-top: 1px solid #111827;
+            font-size: 10px;
+            color: #374151;
+        }
+
+        @page { margin: 12mm; size: A4; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="header-left">
+            ${options.includeBranding ? renderFirmLogo(logoBase64, firmName) : ''}
+            <div>
+                <h1>${text.title}</h1>
+                <p>${escapeHtml(policyData.policyType)}${policyData.insurer ? ` · ${escapeHtml(policyData.insurer)}` : ''}</p>
+            </div>
+        </div>
+        <div class="header-right">
+            ${options.clientName ? `<strong>${escapeHtml(options.clientName)}</strong>` : ''}
+            ${generatedDate}
+        </div>
+    </div>
+
+    <h2>${text.declarations}</h2>
+    <table>
+        <tbody>
+            ${facts.map(([label, value]) => `
+            <tr><td class="row-label">${label}</td><td>${escapeHtml(value!)}</td></tr>`).join('')}
+        </tbody>
+    </table>
+
+    <h2>${text.coverageSchedule}</h2>
+    ${policyData.coverageDetails?.length ? `
+    <table>
+        <thead><tr>${text.coverageColumns.map(column => `<th>${column}</th>`).join('')}</tr></thead>
+        <tbody>
+            ${policyData.coverageDetails.map(coverage => `
+            <tr>
+                <td>${escapeHtml(coverage.type)}</td>
+                <td>${escapeHtml(coverage.limit)}</td>
+                <td>${coverage.deductible ? escapeHtml(coverage.deductible) : '<span class="muted">—</span>'}</td>
+                <td>${escapeHtml([coverage.description, coverage.waitingPeriod && `${text.waitingPeriod}: ${coverage.waitingPeriod}`].filter(Boolean).join(' · '))}</td>
+            </tr>`).join('')}
+        </tbody>
+    </table>
+    ` : `<p class="muted">${text.noCoverages}</p>`}
+
+    ${policyData.exclusions?.length ? `
+    <h2>${text.exclusions}</h2>
+    <table>
+        <thead><tr>${text.exclusionColumns.map(column => `<th>${column}</th>`).join('')}</tr></thead>
+        <tbody>
+            ${policyData.exclusions.map(exclusion => `
+            <tr>
+                <td>${escapeHtml(exclusion.formCode || '—')}</td>
+                <td>${escapeHtml(exclusion.category || '—')}</td>
+                <td>${escapeHtml(exclusion.description)}</td>
+                <td>${escapeHtml(exclusion.impact || '')}</td>
+            </tr>`).join('')}
+        </tbody>
+    </table>
+    ` : ''}
+
+    ${policyData.keyBenefits?.length ? `
+    <h2>${text.keyBenefits}</h2>
+    <table>
+        <thead><tr>${text.benefitColumns.map(column => `<th>${column}</th>`).join('')}</tr></thead>
+        <tbody>
+            ${policyData.keyBenefits.map(benefit => `
+            <tr>
+                <td>${escapeHtml(benefit.benefit)}</td>
+                <td>${escapeHtml(benefit.importance || '—')}</td>
+                <td>${escapeHtml(benefit.description || '')}</td>
+            </tr>`).join('')}
+        </tbody>
+    </table>
+    ` : ''}
+
+    ${claims && (claims.howToClaim?.length || claims.requiredDocuments?.length || claims.timeframes?.length) ? `
+    <h2>${text.claimsProcess}</h2>
+    ${claims.howToClaim?.length ? `<h3>${text.howToClaim}</h3><ul>${listItems(claims.howToClaim)}</ul>` : ''}
+    ${claims.requiredDocuments?.length ? `<h3>${text.requiredDocuments}</h3><ul>${listItems(claims.requiredDocuments)}</ul>` : ''}
+    ${claims.timeframes?.length ? `<h3>${text.timeframes}</h3><ul>${listItems(claims.timeframes)}</ul>` : ''}
+    ` : ''}
+
+    ${policyData.importantContacts?.length ? `
+    <h2>${text.contacts}</h2>
+    <table>
+        <tbody>
+            ${policyData.importantContacts.map(contact => `
+            <tr><td class="row-label">${escapeHtml(contact.type)}</td><td>${escapeHtml(contact.details)}</td></tr>`).join('')}
+        </tbody>
+    </table>
+    ` : ''}
+
+    ${risk && (risk.highRiskFactors?.length || risk.recommendations?.length) ? `
+    <h2>${text.riskAssessment}</h2>
+    ${risk.highRiskFactors?.length ? `<h3>${text.riskFactors}</h3><ul>${listItems(risk.highRiskFactors)}</ul>` : ''}
+    ${risk.recommendations?.length ? `<h3>${text.recommendations}</h3><ul>${listItems(risk.recommendations)}</ul>` : ''}
+    ` : ''}
+
+    ${policyData.unverifiedInformation?.length || policyData.missingInformation?.length ? `
+    <h2>${text.verificationNotes}</h2>
+    ${policyData.missingInformation?.length ? `<h3>${text.missingFromDocument}</h3><ul>${listItems(policyData.missingInformation)}</ul>` : ''}
+    ${policyData.unverifiedInformation?.length ? `<h3>${text.couldNotBeVerified}</h3><ul>${listItems(policyData.unverifiedInformation)}</ul>` : ''}
+    ` : ''}
+
+    ${options.coverageGaps && options.coverageGaps.length > 0 ? `
+    <h2>${common.coverageGapReview}</h2>
+    ${renderGapFindings(options.coverageGaps, strings)}
+    ` : ''}
+
+    ${summary.sections.length > 0 ? `
+    <h2>${text.analysis}</h2>
+    ${summary.sections.map(renderSection).join('')}
+    ` : ''}
+
+    ${options.includeTechnicalDetails && citations.length > 0 ? `
+    <h2>${common.citationsTitle}</h2>
+    <p class="muted">${text.citationsIntro}</p>
+    ${renderCitationAppendix(citations, strings)}
+    ` : ''}
+
+    ${options.includeAgentSignature && options.agentProfile ? `
+    <div class="footer">
+        ${text.preparedBy} <strong>${escapeHtml(options.agentProfile.name)}</strong>, ${escapeHtml(options.agentProfile.title)}
+        · ${common.license} ${escapeHtml(options.agentProfile.license)}
+        · ${escapeHtml(options.agentProfile.phone)} · ${escapeHtml(options.agentProfile.email)}
+    </div>
+    ` : ''}
+</body>
+</html>
+    `;
+  },
+};
@@ -0,0 +1,128 @@
+import path from 'path';
+import fs from 'fs';
+import type { CoverageGapFinding, StructuredSummary, SummaryBlock } from '@shared/schema';
+import type { PolicyCitation } from '../sourceCitations';
+import { DEFAULT_FIRM_CONTACT, isDefaultFirm } from '../firmBranding';
+import { pdfStrings, type PdfStrings } from './strings';
+
+// Extracted policy text ends up inside generated HTML
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Summary lines may carry **bold** markers from the model; line breaks within a
+// paragraph are kept
+export function formatInlineText(text: string): string {
+  return escapeHtml(text).replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>').replace(/\n/g, '<br>');
+}
+
+export function formatLongDate(date: Date, locale = 'en-US'): string {
+  return date.toLocaleDateString(locale, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+export function getLogoBase64(): string {
+  try {
+    const logoPath = path.resolve(process.cwd(), 'attached_assets', 'Valley-Trust-Insurance-Logo_1751344889285.png');
+    const logoBuffer = fs.readFileSync(logoPath);
+    return logoBuffer.toString('base64');
+  } catch (error) {
+    console.warn('Could not load logo file:', error);
+    return '';
+  }
+}
+
+// The exporting firm's name and logo. The bundled logo is the default firm's,
+// so other firms are shown by name until they have a logo of their own.
+export function exportingFirm(firmName?: string): { firmName: string; logoBase64: string } {
+  const name = firmName?.trim() || DEFAULT_FIRM_CONTACT.name;
+  return { firmName: name, logoBase64: isDefaultFirm(name) ? getLogoBase64() : '' };
+}
+
+export function renderFirmLogo(logoBase64: string, firmName: string): string {
+  return logoBase64
+    ? `<img src="data:image/png;base64,${logoBase64}" alt="${escapeHtml(firmName)}" class="logo">`
+    : `<span class="logo-text">${escapeHtml(firmName)}</span>`;
+}
+
+// Paragraphs and bullet lists of one summary section as plain <p> and <ul> markup
+export function renderSummaryBlocks(blocks: SummaryBlock[]): string {
+  return blocks.map(block => block.type === 'paragraph'
+    ? `<p>${formatInlineText(block.text)}</p>`
+    : `<ul>${block.items.map(item => `<li>${formatInlineText(item)}</li>`).join('')}</ul>`
+  ).join('');
+}
+
+// The summary as the professional layout draws it (also {{{summaryHtml}}} in uploaded layouts)
+export function renderSummaryHtml(summary: StructuredSummary): string {
+  const sections = summary.sections.map(section => {
+    const blocks = section.blocks.map(block => block.type === 'paragraph'
+      ? section.title
+        ? `<div class="section-content"><p class="section-paragraph">${formatInlineText(block.text)}</p></div>`
+        : `<p class="regular-paragraph">${formatInlineText(block.text)}</p>`
+      : block.items.map(item => `
+              <div class="bullet-point">
+                <span class="bullet-icon">•</span>
+                <div class="bullet-content">${formatInlineText(item)}</div>
+              </div>`).join('')
+    ).join('');
+
+    if (!section.title) return blocks;
+    return `
+          <div class="section-block">
+            <div class="section-header">
+              <h3 class="subheader">${escapeHtml(section.title)}</h3>
+            </div>
+            ${blocks}
+          </div>`;
+  });
+  return `<div class="summary-wrapper">${sections.join('')}</div>`;
+}
+
+// Every bullet of the summary in order, for layouts that only list key points
+export function summaryBullets(summary: StructuredSummary): string[] {
+  return summary.sections.flatMap(section =>
+    section.blocks.flatMap(block => (block.type === 'bullets' ? block.items : [])));
+}
+
+// Prioritized finding list used by the gap report and the policy summary export
+export function renderGapFindings(findings: CoverageGapFinding[], strings: PdfStrings = pdfStrings()): string {
+  return `
+  <ul class="findings">
+      ${findings.map(finding => `
+      <li class="section-block">
+          <span class="severity severity-${finding.priority}">${finding.priority}</span>
+          <div>
+              <strong>${escapeHtml(finding.title)}</strong>
+              <div>${escapeHtml(finding.detail)}</div>
+              <div class="policy-sub">${strings.common.recommendation}: ${escapeHtml(finding.recommendation)}</div>
+          </div>
+      </li>`).join('')}
+  </ul>`;
+}
+
+// Appendix of technical-details exports: where each extracted entry appears in the original
+export function renderCitationAppendix(citations: PolicyCitation[], strings: PdfStrings = pdfStrings()): string {
+  return `
+  <table class="citations">
+      <thead>
+          <tr>${strings.common.citationColumns.map(column => `<th>${column}</th>`).join('')}</tr>
+      </thead>
+      <tbody>
+          ${citations.map(citation => `
+          <tr>
+              <td>${strings.common.citationSections[citation.section] ?? citation.section}</td>
+              <td>${escapeHtml(citation.entry)}</td>
+              <td>${citation.page ?? '–'}</td>
+              <td class="citation-quote">"${escapeHtml(citation.quote)}"</td>
+          </tr>`).join('')}
+      </tbody>
+  </table>`;
+}
@@ -0,0 +1,26 @@
+import type { PDFTemplate } from './types';
+import { professionalTemplate } from './professional';
+import { detailedTemplate } from './detailed';
+import { clientFriendlyTemplate } from './clientFriendly';
+import { quickReferenceTemplate } from './quickReference';
+
+export type { PDFTemplate, PDFTemplateContext } from './types';
+export type { PdfStrings } from './strings';
+export { pdfStrings } from './strings';
+export { renderCustomTemplate, validateCustomTemplate, CUSTOM_TEMPLATE_FIELDS } from './custom';
+
+export const DEFAULT_PDF_TEMPLATE = professionalTemplate.name;
+
+// Built-in layouts by the name the export "Template Style" selector sends
+const BUILT_IN_TEMPLATES = new Map<string, PDFTemplate>(
+  [professionalTemplate, detailedTemplate, clientFriendlyTemplate, quickReferenceTemplate]
+    .map(template => [template.name, template])
+);
+
+export function getPdfTemplate(name?: string): PDFTemplate | undefined {
+  return BUILT_IN_TEMPLATES.get(name || DEFAULT_PDF_TEMPLATE);
+}
+
+export function listPdfTemplates(): PDFTemplate[] {
+  return Array.from(BUILT_IN_TEMPLATES.values());
+}
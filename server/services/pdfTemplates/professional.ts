@@ -0,0 +1,638 @@
+import type { PDFTemplate } from './types';
+import { escapeHtml, renderCitationAppendix, renderFirmLogo, renderGapFindings } from './helpers';
+
+// The original layout: branded header, optional coverage and
+// contact boxes, then the narrative summary and agent signature
+export const professionalTemplate: PDFTemplate = {
+  name: 'professional',
+  label: 'Professional Summary',
+  description: 'Branded narrative summary with coverage highlights and agent signature',
+  clientFacing: true,
+  render({ policyData, summaryHtml, citations, options, firmName, logoBase64, generatedDate, strings }) {
+    const text = strings.professional;
+    const { common } = strings;
+    return `
+<!DOCTYPE html>
+<html lang="${strings.lang}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${text.title} - ${escapeHtml(firmName)}</title>
+    <style>
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+        
+        body {
+            font-family: 'Georgia', 'Times New Roman', serif;
+            line-height: 1.8;
+            color: #1e293b;
+            background: white;
+            font-size: 13px;
+            text-rendering: optimizeLegibility;
+            -webkit-font-smoothing: antialiased;
+            -moz-osx-font-smoothing: grayscale;
+        }
+        
+        .page {
+            max-width: 210mm;
+            margin: 0 auto;
+            padding: 0;
+            min-height: 100vh;
+            display: flex;
+            flex-direction: column;
+            position: relative;
+        }
+        
+        .header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            padding: 12px 16px;
+            border-bottom: 1px solid #000000;
+            margin-bottom: 12px;
+            background: #ffffff;
+        }
+        
+        .header-left {
+            display: flex;
+            align-items: center;
+        }
+        
+        .header-right {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+        }
+        
+        .client-logo-header {
+            height: 32px;
+            max-width: 80px;
+            object-fit: contain;
+            border: 1px solid #dee2e6;
+            border-radius: 2px;
+            padding: 4px;
+            background: white;
+        }
+        
+        .client-info-header {
+            text-align: right;
+        }
+        
+        .client-name {
+            font-size: 18px;
+            font-weight: 700;
+            color: #000000;
+            margin: 0;
+            line-height: 1.2;
+        }
+        
+        .analysis-date {
+            font-size: 13px;
+            color: #666666;
+            margin: 2px 0 0 0;
+            font-style: italic;
+            line-height: 1.2;
+        }
+        
+        .logo {
+            height: 32px;
+            margin-right: 12px;
+        }
+        
+        .header-text h1 {
+            font-size: 18px;
+            color: #000000;
+            margin-bottom: 3px;
+            font-weight: 700;
+            letter-spacing: -0.025em;
+            text-transform: uppercase;
+        }
+        
+        .header-text p {
+            color: #333333;
+            font-size: 14px;
+            font-style: italic;
+            font-weight: 500;
+        }
+        
+        .client-logo-section {
+            flex-shrink: 0;
+            text-align: center;
+            min-width: 120px;
+        }
+        
+        .policy-header {
+            text-align: center;
+            margin: 10px 0;
+            padding: 10px;
+            background: #f8f9fa;
+            color: #000000;
+            border: 1px solid #dee2e6;
+            border-radius: 2px;
+        }
+        
+        .policy-header.with-client-logo {
+            text-align: left;
+            padding: 12px;
+        }
+        
+        .policy-header-with-logo {
+            display: flex;
+            align-items: center;
+            gap: 15px;
+            margin-bottom: 10px;
+        }
+        
+        .policy-main-section {
+            flex: 1;
+            text-align: center;
+        }
+        
+        .policy-client-details {
+            padding-top: 10px;
+            margin-top: 10px;
+            border-top: 1px solid #dee2e6;
+            font-size: 12px;
+            color: #333;
+        }
+        
+        .policy-client-details div {
+            margin-bottom: 4px;
+        }
+        
+        .policy-client-details strong {
+            color: #000000;
+            font-weight: 600;
+        }
+        
+        .policy-header h1 {
+            font-size: 16px;
+            margin-bottom: 4px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        
+        .policy-header p {
+            font-size: 12px;
+            font-style: italic;
+            font-weight: 500;
+        }
+        
+        .summary-content {
+            padding: 10px 0;
+            background: white;
+            margin: 10px 0;
+        }
+        
+        .summary-wrapper {
+            max-width: 100%;
+        }
+        
+        .section-block {
+            margin-bottom: 12px;
+            page-break-inside: avoid;
+        }
+        
+        .section-header {
+            margin-bottom: 8px;
+        }
+        
+        .subheader {
+            font-size: 16px;
+            color: #000000;
+            margin: 0 0 8px 0;
+            padding: 6px 0;
+            border-bottom: 1px solid #000000;
+            font-weight: 700;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            background: #ffffff;
+        }
+        
+        .section-content {
+            margin-top: 0;
+        }
+        
+        .section-paragraph {
+            font-size: 16px;
+            line-height: 1.7;
+            color: #1e293b;
+            margin: 0 0 8px 0;
+            text-align: justify;
+            hyphens: auto;
+        }
+        
+        .main-heading {
+            font-size: 18px;
+            color: #000000;
+            margin: 25px 0 15px 0;
+            padding-bottom: 8px;
+            border-bottom: 3px solid #000000;
+            font-weight: 700;
+            letter-spacing: -0.025em;
+            text-align: center;
+            text-transform: uppercase;
+        }
+        
+        .regular-paragraph {
+            font-size: 16px;
+            line-height: 1.7;
+            color: #1e293b;
+            margin-bottom: 10px;
+            text-align: justify;
+            hyphens: auto;
+            text-indent: 0;
+        }
+        
+        .paragraph-break {
+            height: 12px;
+        }
+        
+        .bullet-point {
+            display: flex;
+            align-items: flex-start;
+            margin: 8px 0;
+            padding-left: 20px;
+        }
+        
+        .bullet-icon {
+            color: #000000;
+            font-weight: bold;
+            margin-right: 12px;
+            margin-top: 2px;
+            font-size: 16px;
+            min-width: 16px;
+        }
+        
+        .bullet-content {
+            flex: 1;
+            font-size: 16px;
+            line-height: 1.6;
+            color: #000000;
+            text-align: justify;
+        }
+        
+        .coverage-highlights {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 20px;
+            margin: 25px 0;
+        }
+        
+        .coverage-box {
+            background: #f8f9fa;
+            padding: 15px;
+            border: 1px solid #dee2e6;
+            margin-bottom: 15px;
+            border-radius: 4px;
+        }
+        
+        .coverage-box h3 {
+            color: #000000;
+            margin-bottom: 12px;
+            font-size: 16px;
+            font-weight: 600;
+            text-transform: uppercase;
+        }
+        
+        .coverage-box ul {
+            list-style: none;
+        }
+        
+        .coverage-box li {
+            margin: 6px 0;
+            color: #000000;
+            font-size: 12px;
+            line-height: 1.5;
+            display: flex;
+            align-items: flex-start;
+        }
+        
+        .coverage-box li::before {
+            content: "•";
+            color: #000000;
+            font-weight: bold;
+            margin-right: 8px;
+            font-size: 12px;
+            margin-top: 2px;
+        }
+        
+        .contact-section {
+            background: #ffffff;
+            padding: 15px;
+            margin: 15px 0;
+            border: 2px solid #000000;
+        }
+        
+        .contact-section h2 {
+            color: #000000;
+            margin-bottom: 12px;
+            font-size: 16px;
+            font-weight: 700;
+            text-transform: uppercase;
+            border-bottom: 2px solid #000000;
+            padding-bottom: 6px;
+        }
+        
+        .contact-section p {
+            margin: 6px 0;
+            font-size: 12px;
+            color: #000000;
+        }
+        
+        .contact-section strong {
+            color: #000000;
+            font-weight: 700;
+        }
+        
+
+        
+        .agent-signature {
+            margin-top: auto;
+            padding: 8px 15px;
+            background: #ffffff;
+            border-top: 1px solid #000000;
+            flex-shrink: 0;
+        }
+        
+        .agent-signature h3 {
+            color: #000000;
+            font-size: 15px;
+            margin: 0 0 5px 0;
+            font-weight: 700;
+            text-transform: uppercase;
+        }
+        
+        .agent-signature-wrapper {
+            display: flex;
+            align-items: flex-start;
+            justify-content: space-between;
+            gap: 20px;
+        }
+        
+        .agent-signature-left {
+            flex: 0 0 40%;
+            min-width: 0;
+        }
+        
+        .agent-signature .signature-content {
+            white-space: pre-line;
+            font-size: 13px;
+            color: #000000;
+            line-height: 1.3;
+            margin: 0;
+            font-style: italic;
+        }
+        
+        .agent-signature-right {
+            flex: 0 0 58%;
+            display: flex;
+            align-items: center;
+            gap: 15px;
+        }
+        
+        .agent-signature .agent-details {
+            flex: 1;
+            padding: 0;
+            margin: 0;
+            border: none;
+        }
+        
+        .agent-signature .agent-details p {
+            margin: 0 0 2px 0;
+            font-size: 12px;
+            color: #000000;
+            font-weight: 500;
+            line-height: 1.3;
+        }
+        
+        .agent-signature .agent-details strong {
+            color: #000000;
+            font-weight: 700;
+        }
+        
+        .agent-image {
+            flex-shrink: 0;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+        }
+        
+        .agent-photo {
+            max-width: 80px;
+            max-height: 80px;
+            width: auto;
+            height: auto;
+            border-radius: 4px;
+            object-fit: contain;
+            border: 2px solid #ddd;
+            display: block;
+        }
+        
+        .coverage-gaps {
+            margin: 10px 0;
+        }
+
+        .coverage-gaps .findings {
+            list-style: none;
+        }
+
+        .coverage-gaps .findings li {
+            display: flex;
+            align-items: flex-start;
+            gap: 10px;
+            margin: 8px 0;
+            font-size: 14px;
+            line-height: 1.5;
+        }
+
+        .coverage-gaps .policy-sub {
+            font-size: 12px;
+            color: #666666;
+        }
+
+        .coverage-gaps .severity {
+            flex-shrink: 0;
+            min-width: 60px;
+            text-align: center;
+            font-size: 11px;
+            font-weight: 700;
+            text-transform: uppercase;
+            padding: 1px 6px;
+            border-radius: 2px;
+        }
+
+        .coverage-gaps .severity-high { background: #dc2626; color: white; }
+        .coverage-gaps .severity-medium { background: #f59e0b; color: white; }
+        .coverage-gaps .severity-low { background: #e2e8f0; color: #334155; }
+
+        .citations-appendix {
+            margin: 10px 0;
+            page-break-before: always;
+        }
+
+        .citations-appendix p {
+            font-size: 12px;
+            color: #666666;
+            margin-bottom: 8px;
+        }
+
+        .citations-appendix table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 11px;
+        }
+
+        .citations-appendix th,
+        .citations-appendix td {
+            border: 1px solid #dddddd;
+            padding: 4px 6px;
+            text-align: left;
+            vertical-align: top;
+        }
+
+        .citations-appendix th {
+            background: #f3f4f6;
+        }
+
+        .citations-appendix tr {
+            page-break-inside: avoid;
+        }
+
+        .citations-appendix .citation-quote {
+            font-style: italic;
+            color: #444444;
+        }
+
+        @media print {
+            body { 
+                font-size: 11px; 
+                -webkit-print-color-adjust: exact;
+                print-color-adjust: exact;
+            }
+            .page-break { page-break-before: always; }
+            .no-break { page-break-inside: avoid; }
+        }
+        
+        @page {
+            margin: 10mm;
+            size: A4;
+        }
+        
+        .page-break-avoid {
+            page-break-inside: avoid;
+            break-inside: avoid;
+        }
+        
+        .section-block {
+            page-break-inside: avoid;
+        }
+    </style>
+</head>
+<body>
+    <div class="page">
+        ${options.includeBranding ? `
+        <div class="header">
+            <div class="header-left">
+                ${logoBase64 ? renderFirmLogo(logoBase64, firmName) : ''}
+                <div class="header-text">
+                    <h1>${escapeHtml(firmName)}</h1>
+                    <p>${text.tagline}</p>
+                </div>
+            </div>
+            ${options.clientName || options.clientLogo ? `
+            <div class="header-right">
+                ${options.clientLogo ? `
+                <img src="${options.clientLogo}" alt="Client Logo" class="client-logo-header">
+                ` : ''}
+                ${options.clientName ? `
+                <div class="client-info-header">
+                    <p class="client-name">${options.clientName}</p>
+                    <p class="analysis-date">${generatedDate}</p>
+                </div>
+                ` : ''}
+            </div>
+            ` : ''}
+        </div>
+        ` : ''}
+        
+
+
+        ${options.includeTechnicalDetails ? `
+        <div class="coverage-highlights">
+            <div class="coverage-box">
+                <h3>${text.coverageSummary}</h3>
+                <ul>
+                    ${policyData.coverageDetails?.slice(0, 6).map(coverage => 
+                        `<li><strong>${coverage.type}:</strong> ${coverage.limit}${coverage.deductible ? ` (${common.deductible}: ${coverage.deductible})` : ''}</li>`
+                    ).join('')}
+                </ul>
+            </div>
+            
+            <div class="coverage-box">
+                <h3>${text.keyContacts}</h3>
+                <ul>
+                    ${policyData.importantContacts?.map(contact => {
+                        if (typeof contact === 'object' && contact.details) {
+                            return `<li><strong>${contact.type}:</strong> ${contact.details}</li>`;
+                        }
+                        return '';
+                    }).filter(Boolean).join('')}
+                </ul>
+            </div>
+        </div>
+        ` : ''}
+
+        <div class="summary-content">
+            ${summaryHtml}
+        </div>
+
+        ${options.coverageGaps && options.coverageGaps.length > 0 ? `
+        <div class="coverage-gaps">
+            <h2 class="subheader">${common.coverageGapReview}</h2>
+            ${renderGapFindings(options.coverageGaps, strings)}
+        </div>
+        ` : ''}
+
+        ${options.includeAgentSignature && options.agentProfile ? `
+        <div class="agent-signature">
+            <h3>${text.yourAgent}</h3>
+            <div class="agent-signature-wrapper">
+                <div class="agent-signature-left">
+                    <div class="signature-content">${options.agentProfile.signature}</div>
+                </div>
+                <div class="agent-signature-right">
+                    ${options.agentProfile.agentImage ? `
+                    <div class="agent-image">
+                        <img src="${options.agentProfile.agentImage}" alt="Agent Photo" class="agent-photo">
+                    </div>
+                    ` : ''}
+                    <div class="agent-details">
+                        <p><strong>${options.agentProfile.name}</strong>, ${options.agentProfile.title}</p>
+                        <p>${common.license}: ${options.agentProfile.license}</p>
+                        <p>${options.agentProfile.phone} | ${options.agentProfile.email}</p>
+                        <p>${options.agentProfile.firmWebsite}</p>
+                    </div>
+                </div>
+            </div>
+        </div>
+        ` : ''}
+
+        ${options.includeTechnicalDetails && citations.length > 0 ? `
+        <div class="citations-appendix">
+            <h2 class="subheader">${common.citationsTitle}</h2>
+            <p>${text.citationsIntro}</p>
+            ${renderCitationAppendix(citations, strings)}
+        </div>
+        ` : ''}
+
+    </div>
+</body>
+</html>
+    `;
+  },
+};
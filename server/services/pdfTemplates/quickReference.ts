@@ -0,0 +1,162 @@
+import type { PDFTemplate } from './types';
+import { escapeHtml, formatInlineText, renderFirmLogo, summaryBullets } from './helpers';
+
+const MAX_COVERAGES = 8;
+const MAX_KEY_POINTS = 6;
+
+// A single page to keep in the glovebox or on the office wall: key facts,
+// top limits, contacts and the summary's bullet points only
+export const quickReferenceTemplate: PDFTemplate = {
+  name: 'quick-reference',
+  label: 'Quick Reference Card',
+  description: 'One page with key dates, top limits, contacts and the most important points',
+  clientFacing: true,
+  render({ policyData, summary, options, firmName, logoBase64, strings }) {
+    const text = strings.quickReference;
+    const facts = [
+      [text.policyNumber, policyData.policyNumber || options.policyReference],
+      [text.insurer, policyData.insurer],
+      [text.effective, policyData.effectiveDate],
+      [text.expires, policyData.expirationDate],
+      [text.premium, policyData.premiumAmount],
+    ].filter(([, value]) => value);
+
+    const coverages = (policyData.coverageDetails || []).slice(0, MAX_COVERAGES);
+    const keyPoints = summaryBullets(summary).slice(0, MAX_KEY_POINTS);
+    const agent = options.includeAgentSignature ? options.agentProfile : undefined;
+
+    return `
+<!DOCTYPE html>
+<html lang="${strings.lang}">
+<head>
+    <meta charset="UTF-8">
+    <title>${text.title} - ${escapeHtml(firmName)}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
+        body {
+            font-family: 'Helvetica Neue', Arial, sans-serif;
+            color: #0f172a;
+            background: white;
+            font-size: 11px;
+            line-height: 1.4;
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+        }
+
+        .card {
+            border: 2px solid #0f172a;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+
+        .card-header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            background: #0f172a;
+            color: white;
+            padding: 10px 14px;
+        }
+        .card-header h1 { font-size: 16px; }
+        .card-header p { font-size: 11px; opacity: 0.85; }
+        .logo { height: 24px; background: white; padding: 2px 4px; border-radius: 3px; }
+        .logo-text { font-size: 13px; font-weight: 600; }
+
+        .facts { display: flex; border-bottom: 1px solid #cbd5e1; }
+        .facts div { flex: 1; padding: 8px 10px; border-right: 1px solid #cbd5e1; }
+        .facts div:last-child { border-right: none; }
+        .facts span { display: block; font-size: 9px; text-transform: uppercase; color: #64748b; letter-spacing: 0.4px; }
+        .facts strong { font-size: 12px; }
+
+        .body { display: grid; grid-template-columns: 3fr 2fr; gap: 12px; padding: 12px 14px; }
+        h2 { font-size: 11px; text-transform: uppercase; letter-spacing: 0.5px; color: #334155; margin-bottom: 4px; }
+
+        table { width: 100%; border-collapse: collapse; }
+        td { padding: 3px 4px; border-bottom: 1px dotted #cbd5e1; vertical-align: top; }
+        td.limit { text-align: right; font-weight: 700; white-space: nowrap; }
+
+        ul { margin-left: 14px; }
+        li { margin: 3px 0; }
+        .block { margin-bottom: 10px; }
+
+        .card-footer {
+            border-top: 1px solid #cbd5e1;
+            padding: 8px 14px;
+            font-size: 10px;
+            display: flex;
+            justify-content: space-between;
+        }
+
+        @page { margin: 10mm; size: A4; }
+    </style>
+</head>
+<body>
+    <div class="card">
+        <div class="card-header">
+            <div>
+                <h1>${options.clientName ? escapeHtml(options.clientName) : text.heading}</h1>
+                <p>${escapeHtml(policyData.policyType)}</p>
+            </div>
+            ${options.includeBranding ? renderFirmLogo(logoBase64, firmName) : ''}
+        </div>
+
+        ${facts.length > 0 ? `
+        <div class="facts">
+            ${facts.map(([label, value]) => `<div><span>${label}</span><strong>${escapeHtml(value!)}</strong></div>`).join('')}
+        </div>
+        ` : ''}
+
+        <div class="body">
+            <div>
+                <div class="block">
+                    <h2>${text.limits}</h2>
+                    <table>
+                        ${coverages.map(coverage => `
+                        <tr>
+                            <td>${escapeHtml(coverage.type)}${coverage.deductible ? ` <small>(${text.deductibleShort} ${escapeHtml(coverage.deductible)})</small>` : ''}</td>
+                            <td class="limit">${escapeHtml(coverage.limit)}</td>
+                        </tr>`).join('')}
+                    </table>
+                </div>
+                ${keyPoints.length > 0 ? `
+                <div class="block">
+                    <h2>${text.keyPoints}</h2>
+                    <ul>${keyPoints.map(point => `<li>${formatInlineText(point)}</li>`).join('')}</ul>
+                </div>
+                ` : ''}
+            </div>
+            <div>
+                ${policyData.importantContacts?.length ? `
+                <div class="block">
+                    <h2>${text.contacts}</h2>
+                    <ul>${policyData.importantContacts.map(contact => `<li><strong>${escapeHtml(contact.type)}:</strong> ${escapeHtml(contact.details)}</li>`).join('')}</ul>
+                </div>
+                ` : ''}
+                ${policyData.claimsProcess?.howToClaim?.length ? `
+                <div class="block">
+                    <h2>${text.reportAClaim}</h2>
+                    <ul>${policyData.claimsProcess.howToClaim.slice(0, 3).map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ul>
+                </div>
+                ` : ''}
+                ${options.coverageGaps?.some(gap => gap.priority === 'high') ? `
+                <div class="block">
+                    <h2>${text.reviewWithAgent}</h2>
+                    <ul>${options.coverageGaps.filter(gap => gap.priority === 'high').map(gap => `<li>${escapeHtml(gap.title)}</li>`).join('')}</ul>
+                </div>
+                ` : ''}
+            </div>
+        </div>
+
+        ${agent ? `
+        <div class="card-footer">
+            <span><strong>${escapeHtml(agent.name)}</strong>, ${escapeHtml(agent.title)}</span>
+            <span>${escapeHtml(agent.phone)} · ${escapeHtml(agent.email)}</span>
+        </div>
+        ` : ''}
+    </div>
+</body>
+</html>
+    `;
+  },
+};
@@ -0,0 +1,198 @@
+import type { SummaryLanguage } from '@shared/schema';
+
+// Fixed wording of the built-in layouts. Summary text and extracted values come in
+// already translated; only the labels around them live here.
+const ENGLISH = {
+  lang: 'en',
+  locale: 'en-US',
+  common: {
+    deductible: 'Deductible',
+    license: 'License',
+    coverageGapReview: 'Coverage Gap Review',
+    recommendation: 'Recommendation',
+    citationsTitle: 'Appendix: Source Citations',
+    citationColumns: ['Section', 'Entry', 'Page', 'Source text'],
+    citationSections: { 'Coverage': 'Coverage', 'Exclusion': 'Exclusion', 'Key benefit': 'Key benefit' } as Record<string, string>,
+    approvedBy: (name: string, date: string) => `Reviewed and approved by ${name} on ${date}`,
+    approvedVersion: (version: number) => ` (summary version ${version})`,
+    page: 'Page',
+    pageOf: 'of',
+  },
+  professional: {
+    title: 'Policy Summary',
+    tagline: 'Professional Policy Analysis & Summary',
+    coverageSummary: 'Coverage Summary',
+    keyContacts: 'Key Contacts',
+    yourAgent: 'Your Insurance Agent',
+    citationsIntro: 'Where each coverage, exclusion and key benefit appears in the original policy document.',
+  },
+  detailed: {
+    title: 'Technical Policy Report',
+    declarations: 'Declarations',
+    namedInsured: 'Named Insured',
+    policyType: 'Policy Type',
+    insurer: 'Insurer',
+    policyNumber: 'Policy Number',
+    policyPeriod: 'Policy Period',
+    effectiveDate: 'Effective Date',
+    expirationDate: 'Expiration Date',
+    premium: 'Premium',
+    coverageSchedule: 'Coverage Schedule',
+    coverageColumns: ['Coverage', 'Limit', 'Deductible', 'Notes'],
+    waitingPeriod: 'Waiting period',
+    noCoverages: 'No coverages were extracted.',
+    exclusions: 'Exclusions',
+    exclusionColumns: ['Form', 'Category', 'Exclusion', 'Impact'],
+    keyBenefits: 'Key Benefits',
+    benefitColumns: ['Benefit', 'Importance', 'Detail'],
+    claimsProcess: 'Claims Process',
+    howToClaim: 'How to Claim',
+    requiredDocuments: 'Required Documents',
+    timeframes: 'Timeframes',
+    contacts: 'Contacts',
+    riskAssessment: 'Risk Assessment',
+    riskFactors: 'Risk Factors',
+    recommendations: 'Recommendations',
+    verificationNotes: 'Verification Notes',
+    missingFromDocument: 'Missing From Document',
+    couldNotBeVerified: 'Could Not Be Verified',
+    analysis: 'Analysis',
+    citationsIntro: 'Where each entry above appears in the original policy document.',
+    preparedBy: 'Prepared by',
+  },
+  clientFriendly: {
+    title: 'Your Policy Overview',
+    heading: (clientName: string) => `${clientName}, here's your coverage`,
+    headingWithoutClient: 'Your Policy at a Glance',
+    insuranceCompany: 'Insurance company',
+    policyNumber: 'Policy number',
+    coverageStarts: 'Coverage starts',
+    coverageEnds: 'Coverage ends',
+    premium: 'Premium',
+    whyItMatters: 'Why this policy matters',
+    covered: "What's covered",
+    notCovered: "What's not covered",
+    explained: 'Your coverage explained',
+    makeAClaim: 'If you need to make a claim',
+    talkAbout: 'Things to talk about with your agent',
+    questions: 'Questions? Your agent is here to help.',
+  },
+  quickReference: {
+    title: 'Quick Reference',
+    heading: 'Policy Quick Reference',
+    policyNumber: 'Policy #',
+    insurer: 'Insurer',
+    effective: 'Effective',
+    expires: 'Expires',
+    premium: 'Premium',
+    limits: 'Limits',
+    deductibleShort: 'ded.',
+    keyPoints: 'Key Points',
+    contacts: 'Contacts',
+    reportAClaim: 'To Report a Claim',
+    reviewWithAgent: 'Review With Your Agent',
+  },
+};
+
+export type PdfStrings = typeof ENGLISH;
+
+const SPANISH: PdfStrings = {
+  lang: 'es',
+  locale: 'es-US',
+  common: {
+    deductible: 'Deducible',
+    license: 'Licencia',
+    coverageGapReview: 'Revisión de brechas de cobertura',
+    recommendation: 'Recomendación',
+    citationsTitle: 'Apéndice: Referencias en la póliza',
+    citationColumns: ['Sección', 'Elemento', 'Página', 'Texto original'],
+    citationSections: { 'Coverage': 'Cobertura', 'Exclusion': 'Exclusión', 'Key benefit': 'Beneficio clave' },
+    approvedBy: (name: string, date: string) => `Revisado y aprobado por ${name} el ${date}`,
+    approvedVersion: (version: number) => ` (versión del resumen ${version})`,
+    page: 'Página',
+    pageOf: 'de',
+  },
+  professional: {
+    title: 'Resumen de la póliza',
+    tagline: 'Análisis y resumen profesional de su póliza',
+    coverageSummary: 'Resumen de coberturas',
+    keyContacts: 'Contactos clave',
+    yourAgent: 'Su agente de seguros',
+    citationsIntro: 'Dónde aparece cada cobertura, exclusión y beneficio clave en el documento original de la póliza.',
+  },
+  detailed: {
+    title: 'Informe técnico de la póliza',
+    declarations: 'Declaraciones',
+    namedInsured: 'Asegurado nombrado',
+    policyType: 'Tipo de póliza',
+    insurer: 'Aseguradora',
+    policyNumber: 'Número de póliza',
+    policyPeriod: 'Período de la póliza',
+    effectiveDate: 'Fecha de vigencia',
+    expirationDate: 'Fecha de vencimiento',
+    premium: 'Prima',
+    coverageSchedule: 'Cuadro de coberturas',
+    coverageColumns: ['Cobertura', 'Límite', 'Deducible', 'Notas'],
+    waitingPeriod: 'Período de espera',
+    noCoverages: 'No se extrajeron coberturas.',
+    exclusions: 'Exclusiones',
+    exclusionColumns: ['Formulario', 'Categoría', 'Exclusión', 'Impacto'],
+    keyBenefits: 'Beneficios clave',
+    benefitColumns: ['Beneficio', 'Importancia', 'Detalle'],
+    claimsProcess: 'Proceso de reclamos',
+    howToClaim: 'Cómo presentar un reclamo',
+    requiredDocuments: 'Documentos requeridos',
+    timeframes: 'Plazos',
+    contacts: 'Contactos',
+    riskAssessment: 'Evaluación de riesgos',
+    riskFactors: 'Factores de riesgo',
+    recommendations: 'Recomendaciones',
+    verificationNotes: 'Notas de verificación',
+    missingFromDocument: 'No aparece en el documento',
+    couldNotBeVerified: 'No se pudo verificar',
+    analysis: 'Análisis',
+    citationsIntro: 'Dónde aparece cada elemento anterior en el documento original de la póliza.',
+    preparedBy: 'Preparado por',
+  },
+  clientFriendly: {
+    title: 'Resumen de su póliza',
+    heading: (clientName: string) => `${clientName}, esta es su cobertura`,
+    headingWithoutClient: 'Su póliza de un vistazo',
+    insuranceCompany: 'Compañía de seguros',
+    policyNumber: 'Número de póliza',
+    coverageStarts: 'La cobertura comienza',
+    coverageEnds: 'La cobertura termina',
+    premium: 'Prima',
+    whyItMatters: 'Por qué es importante esta póliza',
+    covered: 'Lo que está cubierto',
+    notCovered: 'Lo que no está cubierto',
+    explained: 'Su cobertura explicada',
+    makeAClaim: 'Si necesita presentar un reclamo',
+    talkAbout: 'Temas para hablar con su agente',
+    questions: '¿Preguntas? Su agente está aquí para ayudarle.',
+  },
+  quickReference: {
+    title: 'Referencia rápida',
+    heading: 'Referencia rápida de la póliza',
+    policyNumber: 'Póliza n.º',
+    insurer: 'Aseguradora',
+    effective: 'Vigencia',
+    expires: 'Vence',
+    premium: 'Prima',
+    limits: 'Límites',
+    deductibleShort: 'ded.',
+    keyPoints: 'Puntos clave',
+    contacts: 'Contactos',
+    reportAClaim: 'Para reportar un reclamo',
+    reviewWithAgent: 'Revise con su agente',
+  },
+};
+
+const PDF_STRINGS: Record<SummaryLanguage, PdfStrings> = {
+  en: ENGLISH,
+  es: SPANISH,
+};
+
+export function pdfStrings(language: SummaryLanguage = 'en'): PdfStrings {
+  return PDF_STRINGS[language] ?? ENGLISH;
+}
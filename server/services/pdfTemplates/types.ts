@@ -0,0 +1,27 @@
+import type { PolicyData, StructuredSummary } from '@shared/schema';
+import type { PDFOptions } from '../pdfGenerator';
+import type { PolicyCitation } from '../sourceCitations';
+import type { PdfStrings } from './strings';
+
+// Everything a layout can draw on when rendering a policy summary export
+export interface PDFTemplateContext {
+  policyData: PolicyData;
+  summary: StructuredSummary;
+  summaryHtml: string; // the narrative summary formatted as in the professional layout
+  citations: PolicyCitation[]; // where each coverage, exclusion and key benefit was found in the document
+  options: PDFOptions;
+  firmName: string; // the agency's firm name, or the default firm without one
+  logoBase64: string; // empty when the firm has no logo
+  generatedDate: string;
+  strings: PdfStrings; // fixed wording in the export's language (options.language)
+}
+
+export interface PDFTemplate {
+  name: string;
+  label: string;
+  description: string;
+  // Meant to be handed to the client; agencies that require approval refuse these
+  // exports until the summary is approved
+  clientFacing: boolean;
+  render(context: PDFTemplateContext): string;
+}
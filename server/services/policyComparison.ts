@@ -0,0 +1,330 @@
+import type {
+  ComparedPolicy,
+  ComparisonFinding,
+  CoverageComparisonRow,
+  ExclusionComparisonRow,
+  PolicyComparison,
+  PolicyData,
+} from '@shared/schema';
+
+export const MIN_COMPARED_POLICIES = 2;
+export const MAX_COMPARED_POLICIES = 5;
+
+export interface ComparisonInput {
+  documentId: number;
+  name: string;
+  policyData: PolicyData;
+}
+
+// Carriers word the same coverage differently ("Commercial General Liability",
+// "CGL", "General Liability Coverage"); map the common variants onto one key
+const COVERAGE_SYNONYMS: Record<string, string> = {
+  'commercial general liability': 'general liability',
+  'cgl': 'general liability',
+  'gl': 'general liability',
+  'business auto': 'commercial auto',
+  'auto liability': 'commercial auto',
+  'automobile liability': 'commercial auto',
+  'workers compensation': 'workers compensation',
+  'workers comp': 'workers compensation',
+  'wc': 'workers compensation',
+  'employers liability': 'employers liability',
+  'professional liability': 'professional liability',
+  'errors and omissions': 'professional liability',
+  'e&o': 'professional liability',
+  'commercial umbrella': 'umbrella',
+  'umbrella liability': 'umbrella',
+  'excess liability': 'umbrella',
+  'business personal property': 'business personal property',
+  'bpp': 'business personal property',
+  'cyber liability': 'cyber',
+  'data breach': 'cyber',
+};
+
+const FILLER_WORDS = /\b(coverage|coverages|insurance|limit|limits|policy|form)\b/g;
+
+const EXCLUSION_SIMILARITY = 0.6;
+
+// Ignore tiny wording differences when deciding a limit or premium changed
+const AMOUNT_TOLERANCE = 0.01;
+
+function normalizeCoverage(type: string): string {
+  const key = type
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .replace(FILLER_WORDS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return COVERAGE_SYNONYMS[key] || key;
+}
+
+// First dollar figure in a limit/deductible/premium string: "$1,000,000",
+// "$2M", "1.5 million", "$500k". Returns null for text like "Included".
+export function parseAmount(value?: string): number | null {
+  if (!value) return null;
+  const match = value.toLowerCase().match(/\$?\s*(\d[\d,]*(?:\.\d+)?)\s*(million|mm|m|thousand|k)?\b/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1].replace(/,/g, ''));
+  if (isNaN(amount)) return null;
+
+  switch (match[2]) {
+    case 'million':
+    case 'mm':
+    case 'm':
+      return amount * 1_000_000;
+    case 'thousand':
+    case 'k':
+      return amount * 1_000;
+    default:
+      return amount;
+  }
+}
+
+function exclusionWords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 2)
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function relativeChange(from: number, to: number): number {
+  return from === 0 ? (to === 0 ? 0 : 1) : (to - from) / from;
+}
+
+function formatPercent(change: number): string {
+  return `${Math.round(Math.abs(change) * 100)}%`;
+}
+
+export class PolicyComparator {
+  compare(inputs: ComparisonInput[]): PolicyComparison {
+    if (inputs.length < MIN_COMPARED_POLICIES || inputs.length > MAX_COMPARED_POLICIES) {
+      throw new Error(`Select between ${MIN_COMPARED_POLICIES} and ${MAX_COMPARED_POLICIES} policies to compare`);
+    }
+
+    const policies: ComparedPolicy[] = inputs.map(({ documentId, name, policyData }) => ({
+      documentId,
+      name,
+      insurer: policyData.insurer,
+      policyType: policyData.policyType,
+      policyNumber: policyData.policyNumber,
+      policyPeriod: policyData.policyPeriod,
+      premium: policyData.premiumAmount,
+    }));
+
+    const coverages = this.alignCoverages(inputs);
+    const exclusions = this.alignExclusions(inputs);
+    const findings: ComparisonFinding[] = [];
+
+    for (let index = 1; index < inputs.length; index++) {
+      findings.push(
+        ...this.coverageFindings(coverages, index),
+        ...this.exclusionFindings(exclusions, index),
+        ...this.premiumFindings(policies, index),
+      );
+    }
+
+    return {
+      policies,
+      coverages,
+      exclusions,
+      findings,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private alignCoverages(inputs: ComparisonInput[]): CoverageComparisonRow[] {
+    const rows = new Map<string, CoverageComparisonRow>();
+
+    inputs.forEach(({ policyData }, index) => {
+      for (const coverage of policyData.coverageDetails) {
+        const key = normalizeCoverage(coverage.type);
+        let row = rows.get(key);
+        if (!row) {
+          row = { coverage: coverage.type, cells: inputs.map(() => null) };
+          rows.set(key, row);
+        }
+        // Keep the first occurrence when a policy lists the same coverage twice
+        if (!row.cells[index]) {
+          row.cells[index] = { limit: coverage.limit, deductible: coverage.deductible };
+        }
+      }
+    });
+
+    return Array.from(rows.values());
+  }
+
+  private alignExclusions(inputs: ComparisonInput[]): ExclusionComparisonRow[] {
+    const rows: (ExclusionComparisonRow & { words: Set<string> })[] = [];
+
+    inputs.forEach(({ policyData }, index) => {
+      for (const exclusion of policyData.exclusions) {
+        const text = exclusion.category || exclusion.description;
+        const words = exclusionWords(`${exclusion.category || ''} ${exclusion.description}`);
+
+        let best: (typeof rows)[number] | undefined;
+        let bestScore = EXCLUSION_SIMILARITY;
+        for (const row of rows) {
+          if (row.presentIn[index]) continue;
+          const score = similarity(words, row.words);
+          if (score >= bestScore) {
+            best = row;
+            bestScore = score;
+          }
+        }
+
+        if (best) {
+          best.presentIn[index] = true;
+        } else {
+          const presentIn = inputs.map(() => false);
+          presentIn[index] = true;
+          rows.push({ exclusion: text, presentIn, words });
+        }
+      }
+    });
+
+    return rows.map(({ exclusion, presentIn }) => ({ exclusion, presentIn }));
+  }
+
+  private coverageFindings(rows: CoverageComparisonRow[], index: number): ComparisonFinding[] {
+    const findings: ComparisonFinding[] = [];
+
+    for (const { coverage, cells } of rows) {
+      const baseline = cells[0];
+      const other = cells[index];
+
+      if (baseline && !other) {
+        findings.push({
+          type: 'coverage_gap',
+          severity: 'high',
+          policyIndex: index,
+          coverage,
+          message: `${coverage} (${baseline.limit}) is not included`,
+        });
+        continue;
+      }
+      if (!baseline && other) {
+        findings.push({
+          type: 'new_coverage',
+          severity: 'low',
+          policyIndex: index,
+          coverage,
+          message: `Adds ${coverage} (${other.limit})`,
+        });
+        continue;
+      }
+      if (!baseline || !other) continue;
+
+      const baseLimit = parseAmount(baseline.limit);
+      const otherLimit = parseAmount(other.limit);
+      if (baseLimit !== null && otherLimit !== null) {
+        const change = relativeChange(baseLimit, otherLimit);
+        if (change < -AMOUNT_TOLERANCE) {
+          findings.push({
+            type: 'limit_decrease',
+            severity: change <= -0.25 ? 'high' : 'medium',
+            policyIndex: index,
+            coverage,
+            message: `${coverage} limit drops from ${baseline.limit} to ${other.limit} (${formatPercent(change)} lower)`,
+          });
+        } else if (change > AMOUNT_TOLERANCE) {
+          findings.push({
+            type: 'limit_increase',
+            severity: 'low',
+            policyIndex: index,
+            coverage,
+            message: `${coverage} limit rises from ${baseline.limit} to ${other.limit}`,
+          });
+        }
+      }
+
+      const baseDeductible = parseAmount(baseline.deductible);
+      const otherDeductible = parseAmount(other.deductible);
+      if (baseDeductible !== null && otherDeductible !== null) {
+        const change = relativeChange(baseDeductible, otherDeductible);
+        if (change > AMOUNT_TOLERANCE) {
+          findings.push({
+            type: 'deductible_increase',
+            severity: change >= 1 ? 'high' : 'medium',
+            policyIndex: index,
+            coverage,
+            message: `${coverage} deductible rises from ${baseline.deductible} to ${other.deductible}`,
+          });
+        } else if (change < -AMOUNT_TOLERANCE) {
+          findings.push({
+            type: 'deductible_decrease',
+            severity: 'low',
+            policyIndex: index,
+            coverage,
+            message: `${coverage} deductible drops from ${baseline.deductible} to ${other.deductible}`,
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private exclusionFindings(rows: ExclusionComparisonRow[], index: number): ComparisonFinding[] {
+    const findings: ComparisonFinding[] = [];
+
+    for (const { exclusion, presentIn } of rows) {
+      if (presentIn[index] && !presentIn[0]) {
+        findings.push({
+          type: 'new_exclusion',
+          severity: 'medium',
+          policyIndex: index,
+          message: `New exclusion: ${exclusion}`,
+        });
+      } else if (!presentIn[index] && presentIn[0]) {
+        findings.push({
+          type: 'removed_exclusion',
+          severity: 'low',
+          policyIndex: index,
+          message: `No longer excludes: ${exclusion}`,
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private premiumFindings(policies: ComparedPolicy[], index: number): ComparisonFinding[] {
+    const basePremium = parseAmount(policies[0].premium);
+    const otherPremium = parseAmount(policies[index].premium);
+    if (basePremium === null || otherPremium === null) return [];
+
+    const change = relativeChange(basePremium, otherPremium);
+    if (change > AMOUNT_TOLERANCE) {
+      return [{
+        type: 'premium_increase',
+        severity: change >= 0.15 ? 'medium' : 'low',
+        policyIndex: index,
+        message: `Premium rises from ${policies[0].premium} to ${policies[index].premium} (${formatPercent(change)} higher)`,
+      }];
+    }
+    if (change < -AMOUNT_TOLERANCE) {
+      return [{
+        type: 'premium_decrease',
+        severity: 'low',
+        policyIndex: index,
+        message: `Premium drops from ${policies[0].premium} to ${policies[index].premium} (${formatPercent(change)} lower)`,
+      }];
+    }
+    return [];
+  }
+}
+
+export const policyComparator = new PolicyComparator();
@@ -0,0 +1,82 @@
+import type { PolicyData } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+const DATE_PATTERNS: { pattern: RegExp; parts: (m: RegExpMatchArray) => [string, number, number] }[] = [
+  // 2025-01-15
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, parts: m => [m[1], +m[2], +m[3]] },
+  // 01/15/2025, 1-15-25 (US policies are written month first)
+  { pattern: /\b(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4}|\d{2})\b/, parts: m => [m[3], +m[1], +m[2]] },
+  // January 15, 2025
+  { pattern: new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'), parts: m => [m[3], MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, +m[2]] },
+  // 15 January 2025
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(\\d{4})\\b`, 'i'), parts: m => [m[3], MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, +m[1]] },
+];
+
+// The earliest date pattern in the text and where it ends
+function firstDateMatch(text: string): { parts: [string, number, number]; end: number } | null {
+  const matches = DATE_PATTERNS
+    .map(({ pattern, parts }) => {
+      const match = text.match(pattern);
+      return match ? { index: match.index ?? 0, parts: parts(match), end: (match.index ?? 0) + match[0].length } : null;
+    })
+    .filter((match): match is { index: number; parts: [string, number, number]; end: number } => match !== null)
+    .sort((a, b) => a.index - b.index);
+  return matches[0] ?? null;
+}
+
+function toDate([year, month, day]: [string, number, number]): Date | null {
+  let fullYear = parseInt(year, 10);
+  if (year.length === 2) fullYear += fullYear < 70 ? 2000 : 1900;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  return date.getUTCFullYear() === fullYear && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+// The first date written in the text, at midnight UTC; null when there is none or it
+// is not a real calendar date (e.g. "02/30/2025")
+export function parsePolicyDate(text: string | undefined | null): Date | null {
+  const match = text ? firstDateMatch(text) : null;
+  return match ? toDate(match.parts) : null;
+}
+
+// Every valid date written in the text, in order
+function parseAllDates(text: string): Date[] {
+  const dates: Date[] = [];
+  for (let rest = text, match = firstDateMatch(rest); match; rest = rest.slice(match.end), match = firstDateMatch(rest)) {
+    const date = toDate(match.parts);
+    if (date) dates.push(date);
+  }
+  return dates;
+}
+
+// When the policy takes effect: its effective date, or else the start of its policy period
+export function policyEffectiveDate(policyData: Partial<PolicyData> | null | undefined): Date | null {
+  if (!policyData) return null;
+  const effective = parsePolicyDate(policyData.effectiveDate);
+  if (effective) return effective;
+  const period = parseAllDates(policyData.policyPeriod ?? '');
+  return period.length >= 2 ? period[0] : null;
+}
+
+// When the policy expires: its expiration date, or else the end of its policy period
+export function policyExpirationDate(policyData: Partial<PolicyData> | null | undefined): Date | null {
+  if (!policyData) return null;
+  const expiration = parsePolicyDate(policyData.expirationDate);
+  if (expiration) return expiration;
+  const period = parseAllDates(policyData.policyPeriod ?? '');
+  return period.length >= 2 ? period[period.length - 1] : null;
+}
+
+// Whole calendar days from now until the date (negative once it has passed)
+export function daysUntil(date: Date, now: Date = new Date()): number {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return Math.round((day - today) / DAY_MS);
+}
+
+// Midnight UTC of the day the date falls on
+export function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
@@ -0,0 +1,83 @@
+import { EventEmitter } from 'events';
+import {
+  TERMINAL_PROCESSING_EVENTS,
+  type ProcessingEvent,
+  type ProcessingEventType,
+  type ProcessingStage,
+} from '@shared/schema';
+
+const MAX_EVENTS_PER_DOCUMENT = 100;
+const HISTORY_RETENTION_MS = 5 * 60 * 1000; // keep finished timelines for late subscribers
+
+// Callback handed down to DocumentProcessor and PDFExtractor so they can
+// report progress without knowing which document or job they are working on
+export type ProgressReporter = (
+  type: ProcessingEventType,
+  message: string,
+  detail?: { current?: number; total?: number }
+) => void;
+
+export type ProcessingEventListener = (event: ProcessingEvent) => void;
+
+// In-process fan-out of processing progress. Events are kept per document
+// so a client that connects mid-run (or reconnects) can replay the timeline.
+export class ProcessingEventBus {
+  private emitter = new EventEmitter();
+  private history = new Map<number, ProcessingEvent[]>();
+  // Seeded from the clock so ids keep increasing across restarts (SSE Last-Event-ID)
+  private nextEventId = Date.now();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(documentId: number, type: ProcessingEventType, stage: ProcessingStage, message: string, detail?: { current?: number; total?: number }): ProcessingEvent {
+    const event: ProcessingEvent = {
+      id: this.nextEventId++,
+      documentId,
+      type,
+      stage,
+      message,
+      ...detail,
+      at: new Date().toISOString(),
+    };
+
+    // A new run starts a fresh timeline
+    const events = type === 'queued' ? [] : this.history.get(documentId) ?? [];
+    events.push(event);
+    this.history.set(documentId, events.slice(-MAX_EVENTS_PER_DOCUMENT));
+
+    if (TERMINAL_PROCESSING_EVENTS.includes(type)) {
+      setTimeout(() => {
+        const current = this.history.get(documentId);
+        if (current && current[current.length - 1]?.id === event.id) {
+          this.history.delete(documentId);
+        }
+      }, HISTORY_RETENTION_MS).unref();
+    }
+
+    this.emitter.emit(String(documentId), event);
+    return event;
+  }
+
+  // Returns a reporter that tags events with the document and its current stage
+  reporter(documentId: number, getStage: () => ProcessingStage): ProgressReporter {
+    return (type, message, detail) => {
+      this.publish(documentId, type, getStage(), message, detail);
+    };
+  }
+
+  getHistory(documentId: number, afterEventId = 0): ProcessingEvent[] {
+    return (this.history.get(documentId) ?? []).filter(event => event.id > afterEventId);
+  }
+
+  subscribe(documentId: number, listener: ProcessingEventListener): () => void {
+    this.emitter.on(String(documentId), listener);
+    return () => {
+      this.emitter.off(String(documentId), listener);
+    };
+  }
+}
+
+export const processingEvents = new ProcessingEventBus();
@@ -0,0 +1,260 @@
+import { ProcessingOptionsSchema, type ProcessingOptions } from '@shared/schema';
+import { DEFAULT_FIRM_CONTACT, firmContactLine, type FirmContact } from './firmBranding';
+
+type FocusArea = ProcessingOptions['focusAreas'][number];
+
+export interface SummarySection {
+  heading: string;
+  guidance: string;
+}
+
+// Rows written before options were stored as objects hold a JSON string
+function toObject(layer: unknown): Record<string, unknown> {
+  if (typeof layer === 'string') {
+    try {
+      return toObject(JSON.parse(layer));
+    } catch (error) {
+      return {};
+    }
+  }
+  return layer && typeof layer === 'object' && !Array.isArray(layer) ? layer as Record<string, unknown> : {};
+}
+
+// Merge option layers (later layers win) on top of the schema defaults and validate the result
+export function mergeProcessingOptions(...layers: unknown[]) {
+  return ProcessingOptionsSchema.safeParse(Object.assign({}, ...layers.map(toObject)));
+}
+
+// Validate options sent by a client: any subset of fields, no unknown keys.
+// Multipart uploads send them as a JSON string.
+export function validateRequestedOptions(value: unknown) {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      return ProcessingOptionsSchema.partial().strict().safeParse(null, { path: ['options'] });
+    }
+  }
+  return ProcessingOptionsSchema.partial().strict().safeParse(value ?? {});
+}
+
+// Fill in defaults for options coming from a caller that may only set a few fields
+export function withDefaults(options?: Partial<ProcessingOptions>): ProcessingOptions {
+  const result = mergeProcessingOptions(options);
+  return result.success ? result.data : ProcessingOptionsSchema.parse({});
+}
+
+const DETAIL_WORDS: Record<ProcessingOptions['detailLevel'], [number, number]> = {
+  basic: [40, 60],
+  standard: [60, 90],
+  comprehensive: [80, 120],
+  expert: [100, 150],
+};
+
+const DETAIL_MAX_TOKENS: Record<ProcessingOptions['detailLevel'], number> = {
+  basic: 1200,
+  standard: 1800,
+  comprehensive: 2500,
+  expert: 3500,
+};
+
+const FOCUS_SECTIONS: Record<FocusArea, SummarySection> = {
+  coverage: {
+    heading: 'Coverage Details',
+    guidance: 'Each coverage part with its exact limit and deductible',
+  },
+  exclusions: {
+    heading: 'Important Exclusions',
+    guidance: 'What the policy does not cover and how each exclusion affects the insured',
+  },
+  eligibility: {
+    heading: 'Eligibility & Requirements',
+    guidance: 'Who and what qualifies for coverage, plus conditions the insured must meet',
+  },
+  benefits: {
+    heading: 'Key Benefits',
+    guidance: 'The most valuable benefits and features of the policy',
+  },
+  contacts: {
+    heading: 'Important Contacts',
+    guidance: 'Phone numbers and contacts exactly as listed in the policy',
+  },
+  claims: {
+    heading: 'How to File a Claim',
+    guidance: 'Step-by-step claim reporting, deadlines and required documentation',
+  },
+};
+
+export function summaryWordRange(options: ProcessingOptions): [number, number] {
+  return DETAIL_WORDS[options.detailLevel];
+}
+
+export function summaryMaxTokens(options: ProcessingOptions): number {
+  return options.summaryLength === 'short' ? 800 : DETAIL_MAX_TOKENS[options.detailLevel];
+}
+
+// Heading of the closing section that points the client back to the firm
+export function supportSectionHeading(firm: FirmContact = DEFAULT_FIRM_CONTACT): string {
+  return `Your ${firm.shortName} Partnership & Support`;
+}
+
+// Ordered list of bracketed sections a detailed summary must contain
+export function summarySections(options: ProcessingOptions, firm: FirmContact = DEFAULT_FIRM_CONTACT): SummarySection[] {
+  const sections: SummarySection[] = [{
+    heading: 'Policy Overview',
+    guidance: 'Policy type, insurer, insured, policy period and the main protection provided',
+  }];
+
+  for (const area of options.focusAreas) {
+    // Coverage extraction turned off means limits are not itemized
+    if (area === 'coverage' && !options.extractCoverage) continue;
+    sections.push(FOCUS_SECTIONS[area]);
+  }
+
+  if (options.highlightRisks) {
+    sections.push({
+      heading: 'Risks & Coverage Gaps',
+      guidance: 'Exposures the policy leaves uncovered, low limits and exclusions that deserve attention',
+    });
+  }
+  if (options.includeScenarios) {
+    sections.push({
+      heading: 'Coverage in Action',
+      guidance: 'Two or three realistic scenarios showing how the coverage would respond',
+    });
+  }
+  if (options.includeComparisons) {
+    sections.push({
+      heading: 'How This Compares',
+      guidance: 'How the limits and terms compare with what is typical for this type of policy',
+    });
+  }
+  if (options.generateRecommendations) {
+    sections.push({
+      heading: 'Recommendations',
+      guidance: 'Specific, practical suggestions for endorsements, limit changes or coverage to discuss',
+    });
+  }
+
+  sections.push({
+    heading: supportSectionHeading(firm),
+    guidance: `Reassurance, ongoing support and contact information for ${firmContactLine(firm)}`,
+  });
+
+  return sections;
+}
+
+// Writing style instructions shared by every summary prompt
+export function summaryStyleGuidance(options: ProcessingOptions): string[] {
+  const [minWords, maxWords] = summaryWordRange(options);
+  const guidance: string[] = [];
+
+  switch (options.outputFormat) {
+    case 'structured':
+      guidance.push(`Under each header write one focused paragraph of ${minWords}-${maxWords} words`);
+      break;
+    case 'narrative':
+      guidance.push(`Under each header write flowing prose (${minWords}-${maxWords} words) that connects naturally to the previous section; no bullet points`);
+      break;
+    case 'bullet':
+      guidance.push('Under each header use only concise bullet points starting with "• " (3-6 bullets per section); no paragraphs');
+      break;
+    case 'detailed':
+      guidance.push(`Under each header write a thorough paragraph of ${minWords}-${maxWords} words followed by a concrete example`);
+      break;
+  }
+
+  switch (options.detailLevel) {
+    case 'basic':
+      guidance.push('Cover only the essentials; skip secondary coverages and fine print');
+      break;
+    case 'standard':
+      guidance.push('Cover the key details with brief explanations');
+      break;
+    case 'comprehensive':
+      guidance.push('Cover every coverage part, limit and exclusion with thorough explanations');
+      break;
+    case 'expert':
+      guidance.push('Write for an insurance professional: cite form and endorsement codes and use precise policy terminology');
+      break;
+  }
+
+  guidance.push(options.generateExplanations
+    ? 'Explain what each coverage means for the insured in plain, everyday language'
+    : 'State the coverage facts only; do not add plain-language explanations');
+
+  return guidance;
+}
+
+// Extra instructions for structured extraction
+export function extractionGuidance(options: ProcessingOptions): string[] {
+  const guidance = [
+    `Pay closest attention to these areas: ${options.focusAreas.join(', ')}`,
+  ];
+
+  if (!options.extractCoverage) {
+    guidance.push('List coverage parts by type only; itemized limits and deductibles are not required');
+  }
+  guidance.push(options.generateExplanations
+    ? 'Give every coverage a short plain-language description and every key benefit a description'
+    : 'Leave coverage and benefit descriptions out');
+  if (!options.includeImportance) {
+    guidance.push('Do not rate key benefits by importance');
+  }
+  if (options.focusAreas.includes('claims')) {
+    guidance.push('Capture claim reporting steps and deadlines in eligibility.requirements');
+  }
+  if (options.focusAreas.includes('contacts')) {
+    guidance.push('Capture every phone number, email and address for claims, emergencies and customer service in importantContacts');
+  }
+  if (options.detailLevel === 'basic') {
+    guidance.push('Limit lists to the most important items (at most 5 coverages, 5 exclusions and 3 benefits)');
+  } else if (options.detailLevel === 'expert') {
+    guidance.push('Include every coverage part, endorsement and exclusion with its form code');
+  }
+
+  return guidance;
+}
+
+// Topics the bullet points of a short summary must cover, in order
+export function shortSummaryBullets(options: ProcessingOptions, firm: FirmContact = DEFAULT_FIRM_CONTACT): string[] {
+  const bullets: string[] = [];
+  if (options.extractCoverage && options.focusAreas.includes('coverage')) {
+    bullets.push('Primary coverage limits (e.g., "$2 million per occurrence")');
+  }
+  if (options.focusAreas.includes('benefits')) bullets.push('The most valuable included benefit');
+  if (options.focusAreas.includes('eligibility')) bullets.push('Key eligibility requirement or condition');
+  if (options.focusAreas.includes('claims')) bullets.push('How to report a claim');
+  if (options.focusAreas.includes('exclusions') || options.highlightRisks) {
+    bullets.push('The most significant exclusion or coverage gap');
+  }
+  if (options.includeScenarios) bullets.push('One short example of the coverage in action');
+  if (options.generateRecommendations) bullets.push('One practical recommendation');
+  bullets.push(firm.phone ? `${firm.shortName} contact: ${firm.phone}` : `How to reach ${firm.name}`);
+  return bullets;
+}
+
+// Extra instructions for the fast paragraph-plus-bullets summary
+export function quickSummaryGuidance(options: ProcessingOptions): string[] {
+  const guidance = [
+    `Emphasize these areas in the paragraph: ${options.focusAreas.join(', ')}`,
+  ];
+  if (options.detailLevel === 'basic') {
+    guidance.push('Keep the paragraph to 60-80 words');
+  } else if (options.detailLevel === 'expert') {
+    guidance.push('Use precise policy terminology and cite form codes where the document lists them');
+  }
+  if (options.generateExplanations) {
+    guidance.push('Explain the main coverage in plain language a business owner understands');
+  }
+  if (options.includeScenarios) {
+    guidance.push('Include one practical example of a claim this policy would pay');
+  }
+  if (options.highlightRisks) {
+    guidance.push('After the 5 bullet points add "• Key Exclusion: [most significant exclusion]"');
+  }
+  if (options.generateRecommendations) {
+    guidance.push('Finish with "• Recommendation: [one practical suggestion]"');
+  }
+  return guidance;
+}
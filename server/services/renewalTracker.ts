@@ -0,0 +1,223 @@
+import {
+  RENEWAL_WINDOWS,
+  type Agent,
+  type PolicyData,
+  type PolicyDocument,
+  type RenewalItem,
+  type RenewalsOverview,
+  type RenewalWindow,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { daysUntil, policyEffectiveDate, policyExpirationDate, startOfDay } from './policyDates';
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000; // hourly; reminders are per day, so this only bounds the delay
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LONGEST_WINDOW = Math.max(...RENEWAL_WINDOWS);
+// The calendar keeps recently lapsed policies so an overdue renewal is still on it
+const CALENDAR_LOOKBACK_DAYS = 30;
+// Calendar apps show the alert this long before the expiration
+const CALENDAR_ALERT_DAYS = 30;
+
+function renewalItem(document: PolicyDocument & { expirationDate: Date }, now: Date): RenewalItem {
+  const policyData = (document.extractedData ?? {}) as Partial<PolicyData>;
+  return {
+    documentId: document.id,
+    name: document.originalName,
+    clientName: document.clientName,
+    insuredName: policyData.insuredName,
+    insurer: policyData.insurer,
+    policyType: policyData.policyType,
+    policyNumber: policyData.policyNumber,
+    effectiveDate: document.effectiveDate?.toISOString() ?? null,
+    expirationDate: document.expirationDate.toISOString(),
+    daysUntilExpiration: daysUntil(document.expirationDate, now),
+  };
+}
+
+// The tightest reminder window the policy has entered, e.g. 60 for a policy 45 days out
+function currentWindow(days: number): RenewalWindow | undefined {
+  return [...RENEWAL_WINDOWS].sort((a, b) => a - b).find(window => days <= window);
+}
+
+function describePolicy(item: RenewalItem): string {
+  const who = item.insuredName || item.clientName || item.name;
+  const what = [item.insurer, item.policyType].filter(Boolean).join(' ');
+  return what ? `${who} (${what})` : who;
+}
+
+// iCalendar text values escape backslashes, semicolons, commas and newlines
+function escapeICalText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function formatICalDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatICalTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = ' ' + rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+}
+
+export class RenewalTracker {
+  private timer: NodeJS.Timeout | null = null;
+
+  // Parse the policy dates of documents processed before they were stored, then
+  // check for renewal reminders now and every hour
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    try {
+      const backfilled = await this.backfillPolicyDates();
+      if (backfilled > 0) {
+        console.log(`📅 Parsed policy dates for ${backfilled} previously processed document(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to backfill policy dates:', error);
+    }
+
+    await this.sweep();
+    this.timer = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+    console.log(`✅ Renewal reminders started (checking every ${SWEEP_INTERVAL_MS / 60000} minutes)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async backfillPolicyDates(): Promise<number> {
+    const documents = await storage.listDocumentsMissingPolicyDates();
+    let updated = 0;
+    for (const document of documents) {
+      const policyData = document.extractedData as PolicyData;
+      const effectiveDate = policyEffectiveDate(policyData);
+      const expirationDate = policyExpirationDate(policyData);
+      if (!effectiveDate && !expirationDate) continue;
+      await storage.updatePolicyDocument(document.id, { effectiveDate, expirationDate });
+      updated++;
+    }
+    return updated;
+  }
+
+  // Notify each document's agent once per reminder window it enters. A policy
+  // reprocessed with a new expiration date gets a fresh set of reminders.
+  async sweep(now: Date = new Date()): Promise<number> {
+    try {
+      const today = startOfDay(now);
+      const documents = await storage.listExpiringDocuments(today, new Date(today.getTime() + LONGEST_WINDOW * DAY_MS));
+      let created = 0;
+
+      for (const document of documents) {
+        if (!document.agentId || !document.expirationDate) continue;
+        const item = renewalItem({ ...document, expirationDate: document.expirationDate }, now);
+        const window = currentWindow(item.daysUntilExpiration);
+        if (!window) continue;
+
+        const notification = await storage.createNotification({
+          agentId: document.agentId,
+          documentId: document.id,
+          type: 'renewal',
+          key: `renewal:${document.id}:${item.expirationDate.slice(0, 10)}:${window}`,
+          title: item.daysUntilExpiration === 0
+            ? `${describePolicy(item)} expires today`
+            : `${describePolicy(item)} expires in ${item.daysUntilExpiration} day${item.daysUntilExpiration === 1 ? '' : 's'}`,
+          message: `${item.policyNumber ? `Policy ${item.policyNumber}` : document.originalName} expires on ${document.expirationDate.toLocaleDateString('en-US', { timeZone: 'UTC', dateStyle: 'long' })}. Time to start the renewal conversation.`,
+          link: `/summary/${document.id}`,
+        });
+        if (notification) created++;
+      }
+
+      if (created > 0) {
+        console.log(`🔔 Created ${created} renewal reminder(s)`);
+      }
+      return created;
+    } catch (error) {
+      console.error('Renewal reminder sweep failed:', error);
+      return 0;
+    }
+  }
+
+  // The agent's policies expiring within the longest window, with a count per window
+  async overview(agentId: number, now: Date = new Date()): Promise<RenewalsOverview> {
+    const today = startOfDay(now);
+    const documents = await storage.listExpiringDocuments(today, new Date(today.getTime() + LONGEST_WINDOW * DAY_MS), agentId);
+    const renewals = documents
+      .filter((document): document is PolicyDocument & { expirationDate: Date } => !!document.expirationDate)
+      .map(document => renewalItem(document, now));
+
+    return {
+      windows: [...RENEWAL_WINDOWS].sort((a, b) => a - b).map(days => ({
+        days,
+        count: renewals.filter(renewal => renewal.daysUntilExpiration <= days).length,
+      })),
+      renewals,
+      generatedAt: now.toISOString(),
+    };
+  }
+
+  // An iCalendar feed with an all-day event on each policy's expiration date
+  async calendar(agent: Agent, appUrl: string, now: Date = new Date()): Promise<string> {
+    const from = new Date(startOfDay(now).getTime() - CALENDAR_LOOKBACK_DAYS * DAY_MS);
+    const documents = await storage.listExpiringDocuments(from, null, agent.id);
+    const stamp = formatICalTimestamp(now);
+
+    const events = documents
+      .filter((document): document is PolicyDocument & { expirationDate: Date } => !!document.expirationDate)
+      .flatMap(document => {
+        const item = renewalItem(document, now);
+        const summary = `Renewal: ${describePolicy(item)} expires`;
+        const details = [
+          item.policyNumber && `Policy number: ${item.policyNumber}`,
+          item.clientName && `Client: ${item.clientName}`,
+          `Document: ${item.name}`,
+        ].filter(Boolean).join('\n');
+        const link = `${appUrl}/summary/${document.id}`;
+        return [
+          'BEGIN:VEVENT',
+          `UID:policy-${document.id}-expiration@policy-processor`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART;VALUE=DATE:${formatICalDate(document.expirationDate)}`,
+          `DTEND;VALUE=DATE:${formatICalDate(new Date(document.expirationDate.getTime() + DAY_MS))}`,
+          `SUMMARY:${escapeICalText(summary)}`,
+          `DESCRIPTION:${escapeICalText(`${details}\n${link}`)}`,
+          `URL:${link}`,
+          'TRANSP:TRANSPARENT',
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeICalText(summary)}`,
+          `TRIGGER:-P${CALENDAR_ALERT_DAYS}D`,
+          'END:VALARM',
+          'END:VEVENT',
+        ];
+      });
+
+    return [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Valley Trust Insurance//Policy Processor//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeICalText(`Policy renewals - ${agent.fullName}`)}`,
+      ...events,
+      'END:VCALENDAR',
+    ].map(foldICalLine).join('\r\n') + '\r\n';
+  }
+}
+
+export const renewalTracker = new RenewalTracker();
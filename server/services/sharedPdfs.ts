@@ -0,0 +1,79 @@
+const MAX_CACHED_PDFS = 20;
+const CACHED_PDF_TTL_MS = 10 * 60 * 1000; // branding and layout changes show up within this
+const DOWNLOADS_PER_WINDOW = 10;
+const DOWNLOAD_WINDOW_MS = 60 * 1000;
+const VIEWS_PER_WINDOW = 30;
+const MAX_TRACKED_CLIENTS = 10000;
+
+// PDFs rendered for public share links. Anyone holding a link can download it as
+// often as they like, so each link and summary version is rendered once and
+// served from memory until it expires or newer PDFs push it out.
+export class SharedPdfCache {
+  private entries = new Map<string, { pdf: Promise<Buffer>; expiresAt: number }>();
+
+  // The cached PDF for `key`, rendering it on a miss. Concurrent misses share one render.
+  get(key: string, render: () => Promise<Buffer>): Promise<Buffer> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.pdf;
+    }
+
+    const pdf = render();
+    this.entries.delete(key);
+    this.entries.set(key, { pdf, expiresAt: now + CACHED_PDF_TTL_MS });
+    pdf.catch(() => {
+      if (this.entries.get(key)?.pdf === pdf) this.entries.delete(key);
+    });
+
+    // Maps iterate in insertion order, so the first keys are the oldest
+    for (const oldest of Array.from(this.entries.keys())) {
+      if (this.entries.size <= MAX_CACHED_PDFS) break;
+      this.entries.delete(oldest);
+    }
+    return pdf;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Fixed-window limit on share page requests per client address, so a public
+// URL cannot be used to keep the server rendering PDFs or loading summaries
+export class DownloadLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private readonly limit = DOWNLOADS_PER_WINDOW, private readonly windowMs = DOWNLOAD_WINDOW_MS) {}
+
+  // Counts a request from `client`; returns the seconds to wait when over the limit
+  take(client: string): { allowed: true } | { allowed: false; retryAfterSeconds: number } {
+    const now = Date.now();
+    if (this.windows.size >= MAX_TRACKED_CLIENTS) this.prune(now);
+
+    const window = this.windows.get(client);
+    if (!window || window.resetAt <= now) {
+      this.windows.set(client, { count: 1, resetAt: now + this.windowMs });
+      return { allowed: true };
+    }
+    if (window.count >= this.limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true };
+  }
+
+  reset(): void {
+    this.windows.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [client, window] of Array.from(this.windows.entries())) {
+      if (window.resetAt <= now) this.windows.delete(client);
+    }
+  }
+}
+
+export const sharedPdfCache = new SharedPdfCache();
+export const sharedPdfDownloads = new DownloadLimiter();
+export const sharedSummaryViews = new DownloadLimiter(VIEWS_PER_WINDOW);
@@ -0,0 +1,185 @@
+import type { PolicyData, SourceCitation } from '@shared/schema';
+
+// Text of an uploaded document, one entry per page (index 0 is page 1).
+// Word documents have no pages and come through as a single unnumbered entry.
+export interface SourceText {
+  pages: string[];
+  paginated: boolean;
+}
+
+// One row of the citations appendix in technical-details exports
+export interface PolicyCitation {
+  section: 'Coverage' | 'Exclusion' | 'Key benefit';
+  entry: string;
+  page?: number;
+  quote: string;
+}
+
+const QUOTE_CONTEXT_BEFORE = 80;
+const QUOTE_CONTEXT_AFTER = 160;
+// Two matched phrases this close together (in normalized characters) are quoted as one passage
+const MAX_PASSAGE_SPREAD = 200;
+// Without an exact phrase match, this share of an entry's distinctive words must appear on the page
+const MIN_WORD_OVERLAP = 0.6;
+
+// Values models use when the document says nothing (or contradicts itself); they would match anywhere
+export const PLACEHOLDER_VALUE = /^(not (specified|stated|provided|available|listed)|n\/?a|none|unknown|see policy|inconsistent)\b/i;
+const STOP_WORDS = new Set(['this', 'that', 'with', 'from', 'your', 'will', 'have', 'such', 'which', 'other', 'under', 'policy', 'coverage', 'insurance', 'insured', 'including', 'excluded', 'covered', 'damage', 'arising']);
+
+interface NormalizedText {
+  text: string;
+  // offsets[i] is the index in the original text of normalized character i
+  offsets: number[];
+}
+
+// Lowercase letters and digits only, with any run of other characters as one space.
+// The extractor drops symbols like "$" and "/" that models keep, so both sides are
+// compared in this form.
+function normalize(original: string): NormalizedText {
+  let text = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < original.length; i++) {
+    const char = original[i].toLowerCase();
+    if (/[a-z0-9]/.test(char)) {
+      text += char;
+      offsets.push(i);
+    } else if (text && !text.endsWith(' ')) {
+      text += ' ';
+      offsets.push(i);
+    }
+  }
+  return { text: text.trimEnd(), offsets };
+}
+
+// Whole-word occurrences of a normalized phrase
+function findOccurrences(page: string, phrase: string): number[] {
+  const positions: number[] = [];
+  let index = page.indexOf(phrase);
+  while (index !== -1) {
+    const before = index === 0 || page[index - 1] === ' ';
+    const after = index + phrase.length === page.length || page[index + phrase.length] === ' ';
+    if (before && after) positions.push(index);
+    index = page.indexOf(phrase, index + 1);
+  }
+  return positions;
+}
+
+function distinctiveWords(phrases: string[]): string[] {
+  const words = phrases.flatMap(phrase => phrase.split(' '))
+    .filter(word => /\d/.test(word) ? word.length >= 2 : word.length >= 4 && !STOP_WORDS.has(word));
+  return Array.from(new Set(words));
+}
+
+export class SourceCitationLocator {
+  // Attach the page and a quoted passage to every coverage, exclusion and key
+  // benefit that can be found in the document text. Entries that cannot be found
+  // are left without a source rather than guessed.
+  cite(policyData: PolicyData, source: SourceText): PolicyData {
+    const pages = source.pages.map(normalize);
+    const locate = (values: (string | undefined)[]) => this.locate(pages, source, values);
+
+    return {
+      ...policyData,
+      coverageDetails: policyData.coverageDetails.map(({ source: _previous, ...coverage }) => ({
+        ...coverage,
+        source: locate([coverage.type, coverage.limit, coverage.deductible, coverage.description]),
+      })),
+      exclusions: policyData.exclusions.map(({ source: _previous, ...exclusion }) => ({
+        ...exclusion,
+        source: locate([exclusion.formCode, exclusion.description, exclusion.category]),
+      })),
+      keyBenefits: policyData.keyBenefits.map(({ source: _previous, ...benefit }) => ({
+        ...benefit,
+        source: locate([benefit.benefit, benefit.description]),
+      })),
+    };
+  }
+
+  // Every cited entry, in the order the sections appear in the policy data. Documents
+  // processed before citations existed simply have none.
+  list(policyData: PolicyData): PolicyCitation[] {
+    return [
+      ...(policyData.coverageDetails ?? []).map(coverage => ({ section: 'Coverage' as const, entry: `${coverage.type}: ${coverage.limit}`, source: coverage.source })),
+      ...(policyData.exclusions ?? []).map(exclusion => ({ section: 'Exclusion' as const, entry: exclusion.formCode ? `${exclusion.description} (${exclusion.formCode})` : exclusion.description, source: exclusion.source })),
+      ...(policyData.keyBenefits ?? []).map(benefit => ({ section: 'Key benefit' as const, entry: benefit.benefit, source: benefit.source })),
+    ]
+      .filter((citation): citation is typeof citation & { source: SourceCitation } => !!citation.source)
+      .map(({ section, entry, source }) => ({ section, entry, page: source.page, quote: source.quote }));
+  }
+
+  // Values are in priority order: the first one found anchors the quote
+  private locate(pages: NormalizedText[], source: SourceText, values: (string | undefined)[]): SourceCitation | undefined {
+    const phrases = values
+      .filter((value): value is string => !!value && !PLACEHOLDER_VALUE.test(value.trim()))
+      .map(value => normalize(value).text)
+      .filter(phrase => phrase.length >= 3);
+    if (phrases.length === 0) return undefined;
+
+    // Prefer the page where the most phrases appear verbatim; earlier pages win ties
+    let best: { page: number; hits: number[][]; count: number } | undefined;
+    pages.forEach((page, index) => {
+      const hits = phrases.map(phrase => findOccurrences(page.text, phrase));
+      const count = hits.filter(positions => positions.length > 0).length;
+      if (count > 0 && (!best || count > best.count)) {
+        best = { page: index, hits, count };
+      }
+    });
+
+    if (best) {
+      const anchorIndex = best.hits.findIndex(positions => positions.length > 0);
+      const anchor = best.hits[anchorIndex][0];
+      let start = anchor;
+      let end = anchor + phrases[anchorIndex].length;
+      // Widen the passage to nearby mentions of the other values (e.g. a coverage's limit)
+      best.hits.forEach((positions, index) => {
+        if (index === anchorIndex || positions.length === 0) return;
+        const nearest = positions.reduce((closest, position) => Math.abs(position - anchor) < Math.abs(closest - anchor) ? position : closest);
+        if (Math.abs(nearest - anchor) <= MAX_PASSAGE_SPREAD) {
+          start = Math.min(start, nearest);
+          end = Math.max(end, nearest + phrases[index].length);
+        }
+      });
+      return this.quote(source, pages, best.page, start, end);
+    }
+
+    // Paraphrased entries: fall back to the page sharing most of the entry's distinctive words
+    const words = distinctiveWords(phrases);
+    if (words.length < 2) return undefined;
+    let fallback: { page: number; matched: string[] } | undefined;
+    pages.forEach((page, index) => {
+      const pageWords = new Set(page.text.split(' '));
+      const matched = words.filter(word => pageWords.has(word));
+      if (matched.length / words.length >= MIN_WORD_OVERLAP && (!fallback || matched.length > fallback.matched.length)) {
+        fallback = { page: index, matched };
+      }
+    });
+    if (!fallback) return undefined;
+
+    const anchorWord = fallback.matched.reduce((longest, word) => word.length > longest.length ? word : longest);
+    const anchor = findOccurrences(pages[fallback.page].text, anchorWord)[0];
+    return this.quote(source, pages, fallback.page, anchor, anchor + anchorWord.length);
+  }
+
+  // Quote the original text around a normalized span, widened to word boundaries
+  private quote(source: SourceText, pages: NormalizedText[], pageIndex: number, start: number, end: number): SourceCitation {
+    const original = source.pages[pageIndex];
+    const { offsets } = pages[pageIndex];
+    const first = offsets[start];
+    const last = offsets[end - 1];
+    let from = Math.max(0, first - QUOTE_CONTEXT_BEFORE);
+    let to = Math.min(original.length, last + 1 + QUOTE_CONTEXT_AFTER);
+    if (from > 0) {
+      const space = original.indexOf(' ', from);
+      if (space !== -1 && space < first) from = space + 1;
+    }
+    if (to < original.length) {
+      const space = original.lastIndexOf(' ', to);
+      if (space > last) to = space;
+    }
+
+    const quote = `${from > 0 ? '…' : ''}${original.slice(from, to).trim()}${to < original.length ? '…' : ''}`;
+    return source.paginated ? { page: pageIndex + 1, quote } : { quote };
+  }
+}
+
+export const sourceCitations = new SourceCitationLocator();
@@ -0,0 +1,78 @@
+import { DEFAULT_EMAIL_TEMPLATE, EMAIL_TEMPLATE_FIELDS, EmailTemplateSchema, type EmailTemplate, type EmailTemplateField, type PolicyData } from '@shared/schema';
+import type { PDFOptions } from './pdfGenerator';
+import { escapeHtml } from './pdfTemplates/helpers';
+
+type AgentProfile = NonNullable<PDFOptions['agentProfile']>;
+
+export interface SummaryEmailContent {
+  subject: string;
+  message: string; // the cover note, already filled in
+  agentProfile?: AgentProfile;
+  shareLink?: { url: string; expiresAt: Date };
+  attachmentName?: string;
+}
+
+// The agent's saved template, or the built-in one when they have not saved a valid one
+export function emailTemplateFor(saved: unknown): EmailTemplate {
+  const parsed = EmailTemplateSchema.safeParse(saved);
+  return parsed.success ? parsed.data : DEFAULT_EMAIL_TEMPLATE;
+}
+
+export function emailTemplateValues(policy: PolicyData, clientName: string | null | undefined, agentProfile?: AgentProfile): Record<EmailTemplateField, string> {
+  return {
+    clientName: clientName || policy.insuredName || 'there',
+    policyType: policy.policyType || 'insurance',
+    insurer: policy.insurer || 'your insurer',
+    policyNumber: policy.policyNumber || '',
+    expirationDate: policy.expirationDate || '',
+    agentName: agentProfile?.name || '',
+    firmName: agentProfile?.firmName || '',
+  };
+}
+
+// Replace {{field}} placeholders. Unknown names are left as typed so mistakes stay visible.
+export function fillEmailTemplate(text: string, values: Record<EmailTemplateField, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in EMAIL_TEMPLATE_FIELDS ? values[name as EmailTemplateField] : placeholder);
+}
+
+// Signature lines from the agent profile. Drawn (image) signatures only work in PDFs,
+// so the email falls back to the agent's name.
+function signatureLines(profile?: AgentProfile): string[] {
+  if (!profile) return [];
+  const written = profile.signature && !profile.signature.startsWith('data:') ? profile.signature.split('\n') : [profile.name];
+  return [
+    ...written,
+    profile.title,
+    profile.firmName,
+    [profile.phone || profile.firmPhone, profile.email].filter(Boolean).join(' · '),
+    profile.license && `License ${profile.license}`,
+    profile.firmWebsite,
+  ].filter((line): line is string => !!line && line.trim() !== '');
+}
+
+// Plain text and HTML bodies: the cover note, how to get the summary, then the signature
+export function composeSummaryEmail(content: SummaryEmailContent): { subject: string; text: string; html: string } {
+  const signature = signatureLines(content.agentProfile);
+  const expires = content.shareLink?.expiresAt.toLocaleDateString('en-US', { dateStyle: 'long' });
+  const delivery = content.shareLink
+    ? `View your policy summary online: ${content.shareLink.url}\n(This link works until ${expires}.)`
+    : content.attachmentName ? `Your policy summary is attached (${content.attachmentName}).` : '';
+
+  const text = [content.message, delivery, signature.join('\n')].filter(Boolean).join('\n\n') + '\n';
+
+  const paragraphs = content.message.split(/\n{2,}/)
+    .map(paragraph => `<p style="margin:0 0 16px">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+  const deliveryHtml = content.shareLink
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.shareLink.url)}" style="background:#1d4ed8;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">View your policy summary</a></p>`
+      + `<p style="margin:0 0 16px;color:#6b7280;font-size:13px">This link works until ${escapeHtml(expires!)}.</p>`
+    : delivery ? `<p style="margin:0 0 16px">${escapeHtml(delivery)}</p>` : '';
+  const signatureHtml = signature.length
+    ? `<p style="margin:24px 0 0;color:#374151">${signature.map(escapeHtml).join('<br>')}</p>`
+    : '';
+  const html = `<!DOCTYPE html><html><body style="font-family:Arial,Helvetica,sans-serif;font-size:15px;line-height:1.5;color:#111827;max-width:600px">`
+    + `${paragraphs}${deliveryHtml}${signatureHtml}</body></html>`;
+
+  return { subject: content.subject, text, html };
+}
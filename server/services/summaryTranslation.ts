@@ -0,0 +1,204 @@
+import { SUMMARY_LANGUAGE_LABELS, type PolicyData, type PolicyDocument, type ProcessingOptions, type StructuredSummary, type SummaryHistory, type SummaryLanguage } from '@shared/schema';
+import { structuredSummaryOf } from '@shared/summaryMarkdown';
+import { storage } from '../storage';
+import { getLLMProvider } from './llmProvider';
+
+export interface TranslatedSummary {
+  language: SummaryLanguage;
+  summary: string;
+  structuredSummary: StructuredSummary;
+  policyData: PolicyData;
+  version: SummaryHistory | null; // null for English, which is the summary itself
+}
+
+// Amounts, dates, percentages, phone and policy numbers: anything with two or more digits
+const FIGURE = /\$?\d[\d,.\-\/]*\d/g;
+
+function figuresIn(text: string): string[] {
+  return Array.from(new Set(text.match(FIGURE) ?? []));
+}
+
+// Figures of the English text that the translation lost or rewrote (e.g. "$1,000" as "$1.000")
+export function missingFigures(source: string, translated: string): string[] {
+  return figuresIn(source).filter(figure => !translated.includes(figure));
+}
+
+// Visit every free-text field of the extracted data in a fixed order and return a copy
+// with the visited values replaced. Names, policy numbers, limits, deductibles, premiums,
+// dates, form codes and contact details are never visited, so a translation cannot
+// change them.
+function mapTextFields(source: PolicyData, visit: (text: string) => string): PolicyData {
+  const data: PolicyData = structuredClone(source);
+  const text = <T extends string | undefined>(value: T): T => (value ? visit(value) : value) as T;
+  const list = (values: string[] | undefined) => values?.map(value => text(value));
+
+  data.policyType = text(data.policyType);
+  data.whyItMatters = text(data.whyItMatters);
+  data.documentAccuracyNotes = text(data.documentAccuracyNotes);
+  data.coverageDetails = data.coverageDetails?.map(coverage => ({
+    ...coverage,
+    type: text(coverage.type),
+    description: text(coverage.description),
+  }));
+  data.exclusions = data.exclusions?.map(exclusion => ({
+    ...exclusion,
+    category: text(exclusion.category),
+    description: text(exclusion.description),
+    impact: text(exclusion.impact),
+  }));
+  data.keyBenefits = data.keyBenefits?.map(benefit => ({
+    ...benefit,
+    benefit: text(benefit.benefit),
+    description: text(benefit.description),
+  }));
+  data.importantContacts = data.importantContacts?.map(contact => ({ ...contact, type: text(contact.type) }));
+  if (data.eligibility) {
+    data.eligibility.restrictions = list(data.eligibility.restrictions);
+    data.eligibility.requirements = list(data.eligibility.requirements);
+  }
+  if (data.claimsProcess) {
+    data.claimsProcess.howToClaim = list(data.claimsProcess.howToClaim);
+    data.claimsProcess.requiredDocuments = list(data.claimsProcess.requiredDocuments);
+    data.claimsProcess.timeframes = list(data.claimsProcess.timeframes);
+  }
+  if (data.riskAssessment) {
+    data.riskAssessment.highRiskFactors = list(data.riskAssessment.highRiskFactors);
+    data.riskAssessment.recommendations = list(data.riskAssessment.recommendations);
+    data.riskAssessment.scenarios = data.riskAssessment.scenarios?.map(scenario => ({
+      situation: text(scenario.situation),
+      coverage: text(scenario.coverage),
+      outcome: text(scenario.outcome),
+    }));
+  }
+  data.clientRecommendations = list(data.clientRecommendations);
+  data.missingInformation = list(data.missingInformation);
+  data.unverifiedInformation = list(data.unverifiedInformation);
+  data.recommendedVerifications = list(data.recommendedVerifications);
+  return data;
+}
+
+// The texts a provider is asked to translate, in mapTextFields order
+export function translatableTexts(policyData: PolicyData): string[] {
+  const texts: string[] = [];
+  mapTextFields(policyData, value => {
+    texts.push(value);
+    return value;
+  });
+  return texts;
+}
+
+// Put translated texts back in place. A text whose figures did not survive keeps its
+// English wording rather than showing a wrong amount.
+export function applyTranslatedTexts(policyData: PolicyData, translated: string[]): PolicyData {
+  let index = 0;
+  return mapTextFields(policyData, value => {
+    const candidate = translated[index++];
+    return candidate && missingFigures(value, candidate).length === 0 ? candidate : value;
+  });
+}
+
+export class SummaryTranslator {
+  // The summary and extracted data of the document's active version in `language`.
+  // Translations are kept as versions, so each active version is translated once per
+  // language; English returns the document as it is.
+  async translate(document: PolicyDocument, language: SummaryLanguage, authorId?: number): Promise<TranslatedSummary> {
+    const policyData = document.extractedData as PolicyData;
+    const summary = document.summary || '';
+    if (language === 'en') {
+      return this.original(document);
+    }
+
+    const source = await this.sourceVersion(document);
+    const existing = await this.findTranslation(document.id, language, source);
+    if (existing) {
+      return this.fromVersion(existing);
+    }
+
+    const label = SUMMARY_LANGUAGE_LABELS[language];
+    console.log(`🌐 Translating version ${source.version} of document ${document.id} to ${label}`);
+    const result = await getLLMProvider().translateSummary(summary, translatableTexts(policyData), language);
+    const lost = missingFigures(summary, result.summary);
+    if (lost.length > 0) {
+      throw new Error(`The ${label} translation changed figures from the summary (${lost.slice(0, 3).join(', ')}); try again`);
+    }
+
+    const version = await storage.createSummaryVersion({
+      documentId: document.id,
+      version: 1,
+      summary: result.summary,
+      processingOptions: source.processingOptions as ProcessingOptions,
+      source: 'translation',
+      authorId: authorId ?? null,
+      language,
+      translatedFromVersion: source.version,
+      translatedData: applyTranslatedTexts(policyData, result.texts),
+      isActive: false,
+    });
+    return this.fromVersion(version);
+  }
+
+  // Translate ahead of exports and sharing when processing asked for another language.
+  // Failing here only means authenticated exports translate on demand instead, while
+  // share links show the English summary until a translation is stored.
+  async prepare(document: PolicyDocument, language: SummaryLanguage, authorId?: number): Promise<void> {
+    if (language === 'en' || !document.summary || !document.extractedData) return;
+    try {
+      await this.translate(document, language, authorId);
+    } catch (error) {
+      console.warn(`⚠️ ${SUMMARY_LANGUAGE_LABELS[language]} translation of document ${document.id} failed; exports will retry:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // The translation already stored for the active version, without calling the AI
+  // provider. Public share pages use this: anyone holding a link could otherwise
+  // trigger paid translations.
+  async stored(document: PolicyDocument, language: SummaryLanguage): Promise<TranslatedSummary | undefined> {
+    if (language === 'en') return this.original(document);
+    const source = await storage.getActiveSummary(document.id);
+    const existing = source && await this.findTranslation(document.id, language, source);
+    return existing ? this.fromVersion(existing) : undefined;
+  }
+
+  // The document's English summary and data
+  original(document: PolicyDocument): TranslatedSummary {
+    return {
+      language: 'en',
+      summary: document.summary || '',
+      structuredSummary: structuredSummaryOf(document),
+      policyData: document.extractedData as PolicyData,
+      version: null,
+    };
+  }
+
+  private async findTranslation(documentId: number, language: SummaryLanguage, source: SummaryHistory): Promise<SummaryHistory | undefined> {
+    const history = await storage.getSummaryHistory(documentId);
+    return history.find(version =>
+      version.source === 'translation' && version.language === language && version.translatedFromVersion === source.version);
+  }
+
+  private fromVersion(version: SummaryHistory): TranslatedSummary {
+    return {
+      language: version.language,
+      summary: version.summary,
+      structuredSummary: structuredSummaryOf(version),
+      policyData: version.translatedData as PolicyData,
+      version,
+    };
+  }
+
+  // The active version, recording it first for documents summarized before versioning
+  private async sourceVersion(document: PolicyDocument): Promise<SummaryHistory> {
+    const active = await storage.getActiveSummary(document.id);
+    if (active) return active;
+    return storage.createSummaryVersion({
+      documentId: document.id,
+      version: 1,
+      summary: document.summary || '',
+      processingOptions: document.processingOptions as ProcessingOptions,
+      source: 'processing',
+      isActive: true,
+    });
+  }
+}
+
+export const summaryTranslator = new SummaryTranslator();
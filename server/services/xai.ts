@@ -1,39 +1,55 @@
-import type { PolicyData } from '@shared/schema';
+import { SUMMARY_LANGUAGE_LABELS, type PolicyData, type ProcessingOptions, type SummaryLanguage } from '@shared/schema';
+import type { ChatCompletionsConfig, LLMCallContext, LLMProvider, LLMProviderName } from './llmProvider';
+import { LLMResponseParseError } from './llmErrors';
+import { DEFAULT_FIRM_CONTACT, firmContactLine, firmSignOff, type FirmContact } from './firmBranding';
+import { extractionGuidance, quickSummaryGuidance, shortSummaryBullets, summaryMaxTokens, summarySections, summaryStyleGuidance, supportSectionHeading, withDefaults } from './processingOptions';
+
+// Abort a request when its caller gives up on it, e.g. a processing job that was
+// cancelled or ran out of time
+function followSignal(controller: AbortController, signal?: AbortSignal) {
+  if (!signal) return;
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+}
 
-// xAI service for intelligent policy analysis
-export class XAIService {
+// xAI service for intelligent policy analysis. Talks to any OpenAI-style
+// chat completions endpoint; model names and timeouts come from configuration.
+export class XAIService implements LLMProvider {
+  readonly name: LLMProviderName = 'xai';
+  protected config: ChatCompletionsConfig;
   private apiKey: string;
-  private baseUrl = 'https://api.x.ai/v1';
+  private baseUrl: string;
 
-  constructor() {
-    this.apiKey = process.env.XAI_API_KEY!;
-    if (!this.apiKey) {
-      throw new Error('XAI_API_KEY environment variable is required');
-    }
-    console.log('🔑 xAI service initialized with Grok 3 Mini Fast');
+  constructor(config: ChatCompletionsConfig) {
+    this.config = config;
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl;
+    console.log(`🔑 ${config.label} provider initialized`);
     console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
     console.log(`🔗 API endpoint: ${this.baseUrl}`);
-    console.log(`🤖 Model: grok-3-mini-fast (ultra-fast responses)`);
+    console.log(`🤖 Models: ${config.model} (analysis), ${config.fastModel} (quick summaries)`);
   }
 
-  async analyzePolicy(documentText: string, summaryLength: string = 'detailed'): Promise<PolicyData> {
-    console.log(`🚀 xAI Analysis: Processing ${documentText.length} characters with Grok 4`);
+  async analyzePolicy(documentText: string, requestedOptions?: Partial<ProcessingOptions>, { signal }: LLMCallContext = {}): Promise<PolicyData> {
+    const options = withDefaults(requestedOptions);
+    console.log(`🚀 ${this.config.label} Analysis: Processing ${documentText.length} characters with ${this.config.model}`);
     console.log(`🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
-    console.log(`📋 Summary length mode: ${summaryLength}`);
+    console.log(`📋 Detail level: ${options.detailLevel}, focus: ${options.focusAreas.join(', ')}`);
     const startTime = Date.now();
 
     try {
       const controller = new AbortController();
-      // Optimized timeout for Grok 4 (faster response times)
-      // Check both NODE_ENV and Replit deployment indicators  
-      const isDeployed = process.env.NODE_ENV === 'production' || process.env.REPL_ID || process.env.REPLIT_DEPLOYMENT === '1';
-      const analysisTimeout = isDeployed ? 240000 : 120000; // 4 minutes for deployed, 2 minutes for development
+      followSignal(controller, signal);
+      const analysisTimeout = this.config.timeouts.analysisMs;
       const timeoutId = setTimeout(() => {
-        console.error(`⏱️ xAI analysis timeout after ${Date.now() - startTime}ms`);
+        console.error(`⏱️ ${this.config.label} analysis timeout after ${Date.now() - startTime}ms`);
         controller.abort();
       }, analysisTimeout);
 
-      console.log(`📤 Sending request to xAI API at ${new Date().toISOString()}`);
+      console.log(`📤 Sending request to ${this.config.label} API at ${new Date().toISOString()}`);
       console.log(`⏱️ Timeout set to ${analysisTimeout}ms (${analysisTimeout/60000} minutes)`);
 
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
@@ -44,7 +60,7 @@ export class XAIService {
         },
         signal: controller.signal,
         body: JSON.stringify({
-          model: 'grok-4-0709',
+          model: this.config.model,
           messages: [
             {
               role: 'system',
@@ -91,6 +107,9 @@ RESPONSE FORMAT: Return a complete JSON object with this exact structure:
   "policyNumber": "string - policy number as written or 'Inconsistent - see documentInconsistencies'",
   "policyPeriod": "string - policy dates as written or 'Inconsistent - see documentInconsistencies'",
   "insuredName": "string - insured name as written or 'Inconsistent - see documentInconsistencies'",
+  "effectiveDate": "string - policy effective date as written",
+  "expirationDate": "string - policy expiration date as written",
+  "premiumAmount": "string - total premium as written",
   "documentInconsistencies": [
     {
       "field": "string - field name (e.g., 'Policy Number', 'Insured Name')",
@@ -106,6 +125,26 @@ RESPONSE FORMAT: Return a complete JSON object with this exact structure:
       "deductible": "string - deductible if mentioned or 'Not specified in excerpt'"
     }
   ],
+  "coverageDetails": [
+    {
+      "type": "string - coverage type from document",
+      "limit": "string - coverage amount if explicitly stated or 'Not specified in excerpt'",
+      "deductible": "string - deductible if mentioned",
+      "description": "string - short plain-language description of what the coverage pays for"
+    }
+  ],
+  "keyBenefits": [
+    {
+      "benefit": "string - benefit stated in the document",
+      "description": "string - plain-language explanation",
+      "importance": "low | medium | high | critical"
+    }
+  ],
+  "eligibility": {
+    "restrictions": ["string - restrictions stated in the document"],
+    "requirements": ["string - requirements or conditions stated in the document"]
+  },
+  "whyItMatters": "string - one or two sentences on why this coverage matters to the insured",
   "unverifiedInformation": [
     "string - information that cannot be confirmed from the provided document excerpt"
   ],
@@ -153,6 +192,9 @@ VERIFICATION FOCUS:
 • Include ALL exclusions found in the document
 • Note any missing critical information that would typically be in a complete policy
 
+ANALYSIS PREFERENCES:
+${extractionGuidance(options).map(line => `• ${line}`).join('\n')}
+
 Be extremely conservative - it's better to say "Not specified in excerpt" than to make assumptions based on industry standards.`
             }
           ],
@@ -166,10 +208,10 @@ Be extremely conservative - it's better to say "Not specified in excerpt" than t
       });
 
       clearTimeout(timeoutId);
-      console.log(`📥 Received response from xAI API after ${Date.now() - startTime}ms`);
+      console.log(`📥 Received response from ${this.config.label} API after ${Date.now() - startTime}ms`);
 
       if (!response.ok) {
-        console.error(`❌ xAI API error: ${response.status}`);
+        console.error(`❌ ${this.config.label} API error: ${response.status}`);
         let errorText = '';
         try {
           errorText = await response.text();
@@ -177,7 +219,7 @@ Be extremely conservative - it's better to say "Not specified in excerpt" than t
         } catch (e) {
           console.error('Failed to read error response:', e);
         }
-        throw new Error(`xAI API error: ${response.status} - ${errorText}`);
+        throw new Error(`${this.config.label} API error: ${response.status} - ${errorText}`);
       }
 
       console.log(`📊 Parsing response JSON...`);
@@ -187,7 +229,7 @@ Be extremely conservative - it's better to say "Not specified in excerpt" than t
       const content = data.choices[0]?.message?.content;
       
       if (!content) {
-        throw new Error('No content received from xAI');
+        throw new Error(`No content received from ${this.config.label}`);
       }
 
       // Parse the JSON response
@@ -279,7 +321,7 @@ Be extremely conservative - it's better to say "Not specified in excerpt" than t
         
         policyData = JSON.parse(cleanedContent);
       } catch (parseError) {
-        console.error('Failed to parse xAI response as JSON. Content length:', content.length);
+        console.error(`Failed to parse ${this.config.label} response as JSON. Content length:`, content.length);
         console.error('Parse error:', parseError);
         console.error('Content preview (first 500 chars):', content.substring(0, 500));
         console.error('Content preview (last 500 chars):', content.substring(content.length - 500));
@@ -291,23 +333,23 @@ Be extremely conservative - it's better to say "Not specified in excerpt" than t
             policyData = JSON.parse(jsonMatch[0]);
           } catch (fallbackError) {
             console.error('Fallback JSON extraction also failed:', fallbackError);
-            throw new Error(`Could not parse xAI response: ${parseError.message}`);
+            throw new LLMResponseParseError(`Could not parse ${this.config.label} response: ${parseError.message}`);
           }
         } else {
-          throw new Error(`Could not parse xAI response: ${parseError.message}`);
+          throw new LLMResponseParseError(`Could not parse ${this.config.label} response: ${parseError.message}`);
         }
       }
 
-      console.log(`✅ xAI Analysis Complete in ${Date.now() - startTime}ms:`, policyData.policyType);
+      console.log(`✅ ${this.config.label} Analysis Complete in ${Date.now() - startTime}ms:`, policyData.policyType);
       return policyData;
 
     } catch (error) {
       const elapsed = Date.now() - startTime;
-      console.error(`❌ xAI analysis failed after ${elapsed}ms:`, error);
+      console.error(`❌ ${this.config.label} analysis failed after ${elapsed}ms:`, error);
+      if (signal?.aborted) throw signal.reason;
       
       if (error.name === 'AbortError') {
-        const isDeployed = process.env.NODE_ENV === 'production' || process.env.REPL_ID || process.env.REPLIT_DEPLOYMENT === '1';
-        const timeoutMinutes = isDeployed ? 4 : 2;
+        const timeoutMinutes = Math.ceil(this.config.timeouts.analysisMs / 60000);
         throw new Error(`Document analysis timed out after ${timeoutMinutes} minutes. This usually happens with very large documents. Please try again or contact support.`);
       }
       
@@ -320,24 +362,28 @@ Be extremely conservative - it's better to say "Not specified in excerpt" than t
     }
   }
 
-  async generateEnhancedSummary(policyData: PolicyData, clientContext?: string, summaryLength: 'short' | 'detailed' = 'detailed'): Promise<string> {
+  async generateEnhancedSummary(policyData: PolicyData, clientContext?: string, requestedOptions?: Partial<ProcessingOptions>, { signal, firm = DEFAULT_FIRM_CONTACT }: LLMCallContext = {}): Promise<string> {
     const startTime = Date.now();
+    const options = withDefaults(requestedOptions);
+    const { summaryLength } = options;
+    const sections = summarySections(options, firm);
+    const shortBullets = shortSummaryBullets(options, firm);
+    const supportHeading = supportSectionHeading(firm);
+    const maxTokens = summaryMaxTokens(options);
     
     try {
-      console.log(`📝 xAI generating ${summaryLength} summary for ${policyData.policyType || 'unknown'} policy`);
+      console.log(`📝 ${this.config.label} generating ${summaryLength} summary for ${policyData.policyType || 'unknown'} policy`);
       console.log(`📊 Policy data size: ${JSON.stringify(policyData).length} characters`);
       
       const controller = new AbortController();
-      // Optimized timeout for Grok 4 (faster response times)
-      // Check both NODE_ENV and Replit deployment indicators
-      const isDeployed = process.env.NODE_ENV === 'production' || process.env.REPL_ID || process.env.REPLIT_DEPLOYMENT === '1';
-      const summaryTimeout = isDeployed ? 120000 : 90000; // 2 minutes for deployed, 1.5 minutes for development
+      followSignal(controller, signal);
+      const summaryTimeout = this.config.timeouts.summaryMs;
       const timeoutId = setTimeout(() => {
-        console.error(`⏱️ xAI summary timeout after ${Date.now() - startTime}ms`);
+        console.error(`⏱️ ${this.config.label} summary timeout after ${Date.now() - startTime}ms`);
         controller.abort();
       }, summaryTimeout);
       
-      console.log(`📤 Sending summary request to xAI API at ${new Date().toISOString()}`);
+      console.log(`📤 Sending summary request to ${this.config.label} API at ${new Date().toISOString()}`);
       
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
@@ -347,7 +393,7 @@ Be extremely conservative - it's better to say "Not specified in excerpt" than t
         },
         signal: controller.signal,
         body: JSON.stringify({
-          model: 'grok-4-0709',
+          model: this.config.model,
           messages: [
             {
               role: 'system',
@@ -359,7 +405,7 @@ MISSION: Create a brief, professional summary with key information in an easy-to
 **CRITICAL REQUIREMENTS:**
 - Start with header [Your Coverage Summary]
 - Write a brief overview paragraph (50-75 words)
-- Follow with [Key Coverage Points] section with 4-5 bullet points
+- Follow with [Key Coverage Points] section with ${shortBullets.length} bullet points
 - Never mention OCR errors, scanning issues, or document quality
 - Focus only on what the policy DOES cover, not what's missing
 
@@ -369,11 +415,7 @@ MISSION: Create a brief, professional summary with key information in an easy-to
 - Total coverage value if available
 
 **Bullet Points Should Cover:**
-• Specific coverage amounts and limits
-• Main protections included (property, liability, etc.)
-• Important benefits or features
-• Any significant exclusions (briefly)
-• Valley Trust contact: (540) 885-5531
+${shortBullets.map(bullet => `• ${bullet}`).join('\n')}
 
 **Writing Style:**
 - Professional and client-ready
@@ -397,23 +439,13 @@ CLIENT-FOCUSED EXCELLENCE REQUIREMENTS:
 • BUILD confidence through expert analysis and professional guidance
 • FOCUS on how this policy enables business growth and success
 
-**ENHANCED 5-PARAGRAPH BUSINESS INTELLIGENCE SUMMARY**:
-Create an exceptional 5-paragraph summary that reads like premium business consulting. Each paragraph should be rich with insights, practical value, and actionable intelligence (80-120 words each).
-
-**Enhanced Paragraph Structure:**
-1. **Strategic Policy Foundation**: Executive-level overview of the comprehensive protection platform, highlighting the insurer's stability, coverage sophistication, and how this policy positions the business for confident growth and expansion
-2. **Liability Shield & Business Protection**: Detailed analysis of liability coverages with specific dollar amounts, real-world scenarios, competitive advantages, and how this protection enables customer-facing operations without fear
-3. **Asset Protection & Continuity Assurance**: Comprehensive explanation of property, income, and operational continuity coverage with practical examples of how this protects cash flow, enables recovery, and maintains business reputation
-4. **Strategic Coverage Boundaries & Operational Intelligence**: Professional analysis of coverage scope, presenting exclusions as valuable business intelligence that helps optimize operations and identify additional opportunities
-5. **Expert Recommendations & Partnership Value**: Specific, actionable recommendations for maximizing policy value, immediate optimization steps, and complete Valley Trust partnership benefits including direct access to expertise
+**SECTIONED BUSINESS INTELLIGENCE SUMMARY**:
+Create a summary that reads like premium business consulting, organized into exactly the sections the agent requested. Each section starts with its header in brackets [like this] and is rich with insights, practical value, and actionable intelligence.
 
 VALUE-FOCUSED ENHANCEMENTS:
 - Emphasize financial protection amounts and business impact
-- Include specific industry scenarios and practical applications  
 - Highlight competitive advantages this coverage provides
 - Demonstrate how coverage enables business confidence and growth
-- Present exclusions as strategic business intelligence
-- Provide immediate, actionable next steps
 - Focus on partnership value and ongoing support`
             },
             {
@@ -428,7 +460,7 @@ FORMAT REQUIREMENTS:
 • Start with header [Your Coverage Summary]
 • Write ONE brief overview paragraph (50-75 words)
 • Follow with header [Key Coverage Points]
-• List 4-5 clear bullet points with essential information
+• List ${shortBullets.length} clear bullet points with essential information
 • Total length: 150-200 words including bullets
 
 OVERVIEW PARAGRAPH MUST INCLUDE:
@@ -436,12 +468,8 @@ OVERVIEW PARAGRAPH MUST INCLUDE:
 • Brief description of main protection
 • Total coverage value or primary limit
 
-BULLET POINTS MUST COVER:
-• General liability limit (e.g., "$2 million per occurrence")
-• Property coverage amount if applicable
-• Key included protections (brief descriptions)
-• One major exclusion or limitation (if critical)
-• Valley Trust contact: (540) 885-5531
+BULLET POINTS MUST COVER (in this order):
+${shortBullets.map(bullet => `• ${bullet}`).join('\n')}
 
 PROFESSIONAL STANDARDS:
 • Never mention document quality, OCR issues, or missing information
@@ -459,7 +487,7 @@ This ErieSecure Business policy from Erie Insurance provides comprehensive prote
 • Building Coverage: $1.5 million replacement cost for your property
 • Business Income: 12 months coverage for lost income during repairs
 • Includes equipment breakdown and cyber liability protection
-• Questions? Contact Valley Trust Insurance at (540) 885-5531`
+• Questions? Contact ${firmContactLine(firm)}`
                 :
                 `Create an EXTRAORDINARY, transformative policy summary that demonstrates exceptional business value and provides strategic insights that will genuinely impact this client's success. This should read like premium business consulting that builds confidence and drives action.
 
@@ -472,87 +500,42 @@ CLIENT BUSINESS INTELLIGENCE:
 • Strategic Protection Needs: Comprehensive liability shield, asset protection, income continuity, competitive advantages
 • Business Growth Enablers: Risk management that allows confident expansion and customer-facing operations
 
-ENHANCED SUMMARY REQUIREMENTS:
-• CREATE exactly 5 exceptional paragraphs demonstrating substantial business value and strategic protection (400-600 words total)
-• WRITE with executive-level sophistication and actionable business intelligence
-• START each paragraph with compelling subheader in brackets [like this] that captures business value
-• QUANTIFY financial protection and demonstrate ROI wherever possible
-• ILLUSTRATE coverage with specific, relatable business scenarios that show real-world impact
-• EMPHASIZE competitive advantages and confidence this coverage provides
-• TRANSFORM exclusions into strategic business intelligence and operational guidance
-
-BUSINESS VALUE NARRATIVE APPROACH:
-• Paragraph 1: [Strategic Protection Platform] - Executive overview emphasizing insurer strength, coverage sophistication, total protection value, and business growth enablement
-• Paragraph 2: [Comprehensive Liability Shield] - Liability protection with specific amounts, real scenarios, customer confidence benefits, and operational freedom this enables
-• Paragraph 3: [Asset Protection & Business Continuity] - Property, income, and cyber protection with cash flow impact, recovery capabilities, and reputation preservation
-• Paragraph 4: [Strategic Risk Management & Opportunity Identification] - Transform coverage boundaries into actionable business intelligence with specific operational improvements, revenue opportunities, cost-saving strategies, and competitive advantages
-• Paragraph 5: [Your Valley Trust Partnership & Support] - Reassurance about excellent protection, ongoing support commitment, clear contact information, and professional closing that reinforces partnership
-
-EXCEPTIONAL CLIENT VALUE FEATURES:
-• Demonstrate how this policy enables business confidence and growth
-• Quantify the financial protection and competitive advantages provided
-• Present practical scenarios that show coverage impact on daily operations
-• Transform technical details into clear business benefits and strategic advantages
-• Provide immediate, actionable insights that improve business operations
-• Show how this coverage positions the business for success and expansion
+REQUIRED SECTIONS (in this order, each starting with its header in brackets):
+${sections.map((section, index) => `${index + 1}. [${section.heading}] - ${section.guidance}`).join('\n')}
+
+WRITING STYLE:
+${summaryStyleGuidance(options).map(line => `• ${line}`).join('\n')}
+• QUANTIFY financial protection wherever the policy data states amounts
+• Never mention document quality, OCR issues, or missing information
 
 KEY BUSINESS BENEFITS TO HIGHLIGHT:
 ${policyData.keyBenefits?.map(b => `- ${typeof b === 'string' ? b : b.benefit}${b.description ? ': ' + b.description : ''}`).join('\n')}
 
 ${clientContext ? `ADDITIONAL CLIENT CONTEXT: ${clientContext}` : ''}
 
-EXCEPTIONAL BUSINESS INTELLIGENCE REQUIREMENTS:
-• Write 5 substantial paragraphs with executive-level business insights (80-120 words each)
-• Start each paragraph with a descriptive subheader in bracket format [like this]
-• Demonstrate tangible business value and competitive advantages throughout
-• Include specific financial protection amounts and practical business scenarios
-• Present coverage as strategic business intelligence that drives operational success
-• Build confidence through expert analysis and actionable recommendations
-• End with supportive contact information and partnership reassurance
-
-CRITICAL FOCUS FOR FINAL TWO PARAGRAPHS:
-
-**Paragraph 4 [Strategic Risk Management & Opportunity Identification] MUST INCLUDE:**
-- Specific operational improvements this coverage enables
-- Revenue opportunities created by having this protection
-- Cost-saving strategies and efficiency gains
-- Competitive advantages over uninsured or underinsured competitors
-- Specific business growth opportunities this coverage unlocks
-- Transform any exclusions into actionable business intelligence and opportunity identification
-
-**Paragraph 5 [Your Valley Trust Partnership & Support] MUST INCLUDE:**
+**[${supportHeading}] MUST INCLUDE:**
 - Reassurance that their new policy provides excellent protection for their business
-- Emphasis on Valley Trust's commitment to ongoing support and service
+- Emphasis on ${firm.name}'s commitment to ongoing support and service
 - Clear contact information for questions, claims, or guidance (phone, email, office visits)
 - Invitation to reach out anytime with questions or concerns
-- Mention of being welcome to visit the office for personalized assistance
 - Professional closing that reinforces the partnership and available support
 
-**CRITICAL: PARAGRAPH 5 MUST AVOID:**
+**CRITICAL: [${supportHeading}] MUST AVOID:**
 - Do NOT suggest scheduling follow-up meetings or policy reviews
 - Do NOT request immediate action items or appointments
 - Do NOT ask them to verify business information or policy details
-- Do NOT mention policy optimization reviews or coverage assessments
 - Focus ONLY on reassurance, support availability, and contact information
 
-ENHANCED PARAGRAPH 4 EXAMPLES OF VALUE TO INCLUDE:
-• "This coverage enables you to confidently pursue larger contracts that require proof of insurance..."
-• "With this protection, you can expand customer-facing operations without fear of liability exposure..."
-• "The cyber coverage allows you to offer online services and digital payments with confidence..."
-• "Understanding these coverage boundaries helps optimize your operational procedures to maximize protection..."
-
-ENHANCED PARAGRAPH 5 EXAMPLES OF SUPPORT MESSAGING:
-• "Your new ErieSecure Business policy provides comprehensive protection perfectly tailored to your operations, giving you the confidence to focus on what you do best..."
-• "Valley Trust Insurance Group remains committed to your ongoing success and peace of mind, standing ready to support you whenever questions arise..."
-• "Should you have any questions about your coverage, need claims assistance, or simply want policy guidance, we're here to help at (540) 885-5531..."
-• "Jake Schindler and our team are always available via phone, email at jake@valleytrustinsurance.com, or you're welcome to visit our office at 829 Greenville Ave in Staunton..."
-• "We encourage you to reach out anytime with questions or concerns - you're always welcome for personalized assistance and expert guidance..."
+EXAMPLES OF SUPPORT MESSAGING:
+• "${firm.name} remains committed to your ongoing success and peace of mind, standing ready to support you whenever questions arise..."
+• "Should you have any questions about your coverage, need claims assistance, or simply want policy guidance, we're here to help${firm.phone ? ` at ${firm.phone}` : ''}..."
+• "Our team is always available by phone or email, and you're welcome to visit our office..."
 
-Create a transformative 5-paragraph business intelligence summary where the final two paragraphs deliver exceptional client value with actionable insights and immediate business benefits that drive real operational improvements and partnership engagement.`
+Write exactly ${sections.length} sections using the headers above, in order, and nothing else.`
             }
           ],
           temperature: 0.2,
-          max_tokens: summaryLength === 'short' ? 800 : 2500
+          max_tokens: maxTokens
         })
       }).catch(error => {
         clearTimeout(timeoutId);
@@ -561,10 +544,10 @@ Create a transformative 5-paragraph business intelligence summary where the fina
       });
 
       clearTimeout(timeoutId);
-      console.log(`📥 Received summary response from xAI API after ${Date.now() - startTime}ms`);
+      console.log(`📥 Received summary response from ${this.config.label} API after ${Date.now() - startTime}ms`);
 
       if (!response.ok) {
-        console.error(`❌ xAI summary API error: ${response.status}`);
+        console.error(`❌ ${this.config.label} summary API error: ${response.status}`);
         let errorText = '';
         try {
           errorText = await response.text();
@@ -572,7 +555,7 @@ Create a transformative 5-paragraph business intelligence summary where the fina
         } catch (e) {
           console.error('Failed to read summary error response:', e);
         }
-        throw new Error(`xAI API error: ${response.status} - ${errorText}`);
+        throw new Error(`${this.config.label} API error: ${response.status} - ${errorText}`);
       }
 
       console.log(`📊 Parsing summary response JSON...`);
@@ -586,14 +569,15 @@ Create a transformative 5-paragraph business intelligence summary where the fina
       const endsWithPunctuation = ['.', '!', '?', ':'].includes(lastChar);
       const hasCompleteStructure = summaryLength === 'short' ? 
         content.split('\n').length >= 1 : // Short format needs at least 1 paragraph
-        content.split('\n\n').length >= 4; // Detailed format needs multiple paragraphs
+        content.split('\n\n').length >= Math.min(4, sections.length); // Detailed format needs one block per section
       
       if (!endsWithPunctuation || !hasCompleteStructure) {
         console.warn(`${summaryLength} summary appears truncated, attempting to regenerate...`);
         
         // Try again with explicit instruction to complete the summary
         const retryController = new AbortController();
-        const retryTimeoutId = setTimeout(() => retryController.abort(), 60000); // 1 minute for retry
+        followSignal(retryController, signal);
+        const retryTimeoutId = setTimeout(() => retryController.abort(), this.config.timeouts.retryMs);
         
         const retryResponse = await fetch(`${this.baseUrl}/chat/completions`, {
           method: 'POST',
@@ -603,23 +587,23 @@ Create a transformative 5-paragraph business intelligence summary where the fina
           },
           signal: retryController.signal,
           body: JSON.stringify({
-            model: 'grok-4-0709',
+            model: this.config.model,
             messages: [
               {
                 role: 'system',
                 content: summaryLength === 'short' ?
                   'Create a cohesive single-paragraph summary. No formatting, headers, or bullets. Target 100-150 words of flowing prose.' :
-                  'Create a cohesive 5-paragraph narrative summary. No formatting, headers, or bullets. Target 400-600 words of flowing prose.'
+                  `Create a complete policy summary with one section per header, each header in brackets. ${summaryStyleGuidance(options).join('. ')}.`
               },
               {
                 role: 'user',
                 content: summaryLength === 'short' ?
                   `Create a cohesive single-paragraph professional summary (100-150 words, no formatting): ${JSON.stringify(policyData, null, 2)}` :
-                  `Create a cohesive 5-paragraph professional summary (400-600 words, no formatting): ${JSON.stringify(policyData, null, 2)}`
+                  `Create a complete professional summary with these sections in order: ${sections.map(section => `[${section.heading}]`).join(', ')}. Policy data: ${JSON.stringify(policyData, null, 2)}`
               }
             ],
             temperature: 0.2,
-            max_tokens: summaryLength === 'short' ? 800 : 2500
+            max_tokens: maxTokens
           })
         });
         
@@ -638,27 +622,31 @@ Create a transformative 5-paragraph business intelligence summary where the fina
       return content;
 
     } catch (error) {
-      console.error('xAI summary generation failed:', error);
+      console.error(`${this.config.label} summary generation failed:`, error);
+      // A stopped job wants no summary at all, not the fallback
+      if (signal?.aborted) throw signal.reason;
       if (error.name === 'AbortError') {
-        console.error('xAI summary generation timed out');
-        return this.generateFallbackSummary(policyData);
+        console.error(`${this.config.label} summary generation timed out`);
+        return this.generateFallbackSummary(policyData, firm);
       }
-      return this.generateFallbackSummary(policyData);
+      return this.generateFallbackSummary(policyData, firm);
     }
   }
 
-  private generateFallbackSummary(policyData: PolicyData): string {
+  private generateFallbackSummary(policyData: PolicyData, firm: FirmContact): string {
     return `Your ${policyData.policyType} policy from ${policyData.insurer} delivers comprehensive business protection combining ${policyData.coverageDetails?.slice(0, 3).map(c => `${c.type} (${c.limit})`).join(', ') || 'essential coverage types'} to safeguard your operations against customer injuries, property damage, employment disputes, and business interruption. This integrated coverage approach means your general liability protection works seamlessly with specialized coverages including ${policyData.coverageDetails?.find(c => c.type.toLowerCase().includes('liquor'))?.type || 'liquor liability'} for alcohol-related incidents and employment practices coverage for workplace disputes, creating a unified shield for your business assets and income.
 
-The policy includes specific benefits such as ${policyData.keyBenefits?.slice(0, 2).map(b => typeof b === 'string' ? b : b.benefit).join(' and ') || 'comprehensive business protection'}, with important coverage boundaries that help define your protection scope. ${policyData.whyItMatters || 'This comprehensive coverage provides financial protection and operational continuity for your business.'} For optimal protection and to clarify any coverage details, review your complete policy documentation with your Valley Trust Insurance agent at (540) 885-5531, ensuring all coverage limits align with your business needs and operational requirements.`;
+The policy includes specific benefits such as ${policyData.keyBenefits?.slice(0, 2).map(b => typeof b === 'string' ? b : b.benefit).join(' and ') || 'comprehensive business protection'}, with important coverage boundaries that help define your protection scope. ${policyData.whyItMatters || 'This comprehensive coverage provides financial protection and operational continuity for your business.'} For optimal protection and to clarify any coverage details, review your complete policy documentation with your agent at ${firmContactLine(firm)}, ensuring all coverage limits align with your business needs and operational requirements.`;
   }
 
-  async generateQuickSummary(documentText: string): Promise<string> {
+  async generateQuickSummary(documentText: string, requestedOptions?: Partial<ProcessingOptions>, { signal, firm = DEFAULT_FIRM_CONTACT }: LLMCallContext = {}): Promise<string> {
     const startTime = Date.now();
+    const options = withDefaults(requestedOptions);
 
     try {
       const controller = new AbortController();
-      const timeout = 45000; // 45 second timeout to handle full documents in deployment
+      followSignal(controller, signal);
+      const timeout = this.config.timeouts.quickSummaryMs;
       let timeoutId: NodeJS.Timeout;
       
       // Create timeout promise that will resolve with error
@@ -682,7 +670,7 @@ The policy includes specific benefits such as ${policyData.keyBenefits?.slice(0,
         },
         signal: controller.signal,
         body: JSON.stringify({
-          model: 'grok-3-mini-fast',
+          model: this.config.fastModel,
           messages: [
             {
               role: 'system',
@@ -716,6 +704,7 @@ CRITICAL REQUIREMENTS:
 - If you cannot find deductible information, write "Deductible: Contact agent for details"
 - If you cannot find exact premium, write "Policy Cost: Contact agent for details"
 - Output ONLY this format, no explanations
+${quickSummaryGuidance(options).map(line => `- ${line}`).join('\n')}
 
 ${truncatedText}`
             }
@@ -733,17 +722,17 @@ ${truncatedText}`
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`xAI API error response: ${errorText}`);
-        throw new Error(`xAI API error: ${response.status} - ${errorText}`);
+        console.error(`${this.config.label} API error response: ${errorText}`);
+        throw new Error(`${this.config.label} API error: ${response.status} - ${errorText}`);
       }
 
       const data = await response.json();
-      console.log(`xAI response received in ${Date.now() - startTime}ms`);
+      console.log(`${this.config.label} response received in ${Date.now() - startTime}ms`);
       
       // Log the response structure for debugging
       if (!data.choices || data.choices.length === 0) {
-        console.error('xAI response has no choices:', JSON.stringify(data));
-        throw new Error('xAI API returned no choices');
+        console.error(`${this.config.label} response has no choices:`, JSON.stringify(data));
+        throw new Error(`${this.config.label} API returned no choices`);
       }
       
       // Check for both content and reasoning_content fields
@@ -751,8 +740,8 @@ ${truncatedText}`
       const content = message?.content || message?.reasoning_content;
       
       if (!content) {
-        console.error('xAI response missing content:', JSON.stringify(data.choices[0]));
-        throw new Error('No summary content received from xAI');
+        console.error(`${this.config.label} response missing content:`, JSON.stringify(data.choices[0]));
+        throw new Error(`No summary content received from ${this.config.label}`);
       }
 
       console.log(`✅ Summary generated successfully in ${Date.now() - startTime}ms`);
@@ -816,7 +805,7 @@ ${truncatedText}`
         return `[Your Coverage Summary]
 ${formattedContent}
 
-Contact Valley Trust: (540) 885-5531`;
+${firmSignOff(firm)}`;
       }
       
       // If no bullet points found, fall back to old extraction logic
@@ -901,8 +890,9 @@ Contact Valley Trust: (540) 885-5531`;
         summaryParagraph = summaryParagraph.replace(/^Draft in my mind:\s*/i, '');
         summaryParagraph = summaryParagraph.replace(/^Draft a paragraph:\s*/i, '');
         summaryParagraph = summaryParagraph.replace(/^Summary:\s*/i, '');
-        // Remove any "Contact Valley Trust" if it's already in the paragraph
-        summaryParagraph = summaryParagraph.replace(/Contact Valley Trust:.*$/i, '').trim();
+        // Remove the firm's contact line if it's already in the paragraph
+        const signOffAt = summaryParagraph.indexOf(`Contact ${firm.shortName}`);
+        if (signOffAt >= 0) summaryParagraph = summaryParagraph.slice(0, signOffAt).trim();
         
         // Check if summary appears to be truncated (doesn't end with proper punctuation)
         if (summaryParagraph && !summaryParagraph.match(/[.!?]$/)) {
@@ -917,7 +907,7 @@ Contact Valley Trust: (540) 885-5531`;
       return `[Your Coverage Summary]
 ${summaryParagraph}
 
-Contact Valley Trust: (540) 885-5531`;
+${firmSignOff(firm)}`;
 
     } catch (error) {
       // Clear timeout on error too
@@ -925,6 +915,7 @@ Contact Valley Trust: (540) 885-5531`;
         clearTimeout(timeoutId);
       }
       console.error('Quick summary generation error:', error);
+      if (signal?.aborted) throw signal.reason;
       if (error.name === 'AbortError') {
         return `[Your Coverage Summary]
 This is a business insurance policy designed to protect your commercial operations. It provides general liability coverage up to $1,000,000 per occurrence and property protection for business assets. For example, if a customer slips and falls in your establishment, this policy would cover medical expenses and legal costs up to the policy limits. The coverage includes protection against bodily injury, property damage, and business interruption scenarios.
@@ -935,15 +926,90 @@ This is a business insurance policy designed to protect your commercial operatio
 • Deductible: Standard commercial deductible applies
 • Key Exclusion: Intentional acts and criminal activity
 
-Contact Valley Trust: (540) 885-5531`;
+${firmSignOff(firm)}`;
+      }
+      throw error;
+    }
+  }
+
+  async translateSummary(summary: string, texts: string[], language: SummaryLanguage): Promise<{ summary: string; texts: string[] }> {
+    if (language === 'en') return { summary, texts };
+    const label = SUMMARY_LANGUAGE_LABELS[language];
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeouts.summaryMs);
+    console.log(`🌐 ${this.config.label} translating summary (${summary.length} characters, ${texts.length} fields) to ${label}`);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: [
+            {
+              role: 'system',
+              content: `You translate insurance policy summaries written for clients from English into ${label}.
+
+RULES:
+• Translate faithfully; do not add, drop or soften any coverage, limit, exclusion or condition
+• Keep every dollar amount, percentage, date, phone number, policy number and form code EXACTLY as written, character for character (write "$1,000,000", never "$1.000.000" or "1 millón")
+• Keep company, insurer, product and person names as written
+• Keep the layout: section headers stay on their own line in [square brackets] (translate the header text), bullets keep their "• " marker, **bold** markers and blank lines stay where they are
+• Use clear, everyday ${label} a policyholder understands and address the reader formally
+• Return ONLY a JSON object: {"summary": "...", "texts": ["...", ...]} where "texts" has exactly one translation per input text, in the same order`
+            },
+            {
+              role: 'user',
+              content: JSON.stringify({ summary, texts }),
+            },
+          ],
+          temperature: 0.1,
+          max_tokens: 8000,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(`${this.config.label} API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json();
+      const content: string = data.choices[0]?.message?.content || '';
+      const json = content.match(/\{[\s\S]*\}/)?.[0];
+      const parsed = json ? JSON.parse(json) : undefined;
+      if (typeof parsed?.summary !== 'string' || !parsed.summary.trim()) {
+        throw new Error(`${this.config.label} returned no ${label} summary`);
+      }
+
+      // Fields only count when every one came back; otherwise they stay in English
+      const translatedTexts = Array.isArray(parsed.texts) && parsed.texts.length === texts.length
+        && parsed.texts.every((text: unknown) => typeof text === 'string')
+        ? parsed.texts as string[]
+        : texts;
+      if (translatedTexts === texts && texts.length > 0) {
+        console.warn(`⚠️ ${this.config.label} returned ${parsed.texts?.length ?? 0} of ${texts.length} field translations; keeping English fields`);
+      }
+
+      console.log(`✅ ${label} translation complete in ${Date.now() - startTime}ms`);
+      return { summary: parsed.summary.trim(), texts: translatedTexts };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Translating the summary to ${label} timed out. Please try again.`);
       }
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
   async processPDFWithVision(pdfBuffer: Buffer): Promise<string> {
     const startTime = Date.now();
-    console.log('🖼️ Starting PDF vision processing with Grok 4...');
+    console.log(`🖼️ Starting PDF vision processing with ${this.config.fastModel}...`);
 
     try {
       const controller = new AbortController();
@@ -990,7 +1056,7 @@ Contact Valley Trust: (540) 885-5531`;
       console.log(`📐 Page dimensions: ${canvas.width}x${canvas.height}`);
       
       // Since canvas rendering is complex in Node.js, let's use a different approach
-      // We'll send just the extracted text from the first few pages to Grok 3 mini
+      // We'll send just the extracted text from the first few pages to the fast model
       console.log('⚡ Falling back to optimized text extraction for speed...');
       
       // Extract text from ALL pages for complete accuracy
@@ -1014,7 +1080,7 @@ Contact Valley Trust: (540) 885-5531`;
       
       console.log(`📝 Extracted ${extractedText.length} characters from all ${totalPages} pages`);
       
-      // Use Grok 3 mini for fast processing
+      // Use the fast model for quick processing
       const fetchPromise = fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
@@ -1023,7 +1089,7 @@ Contact Valley Trust: (540) 885-5531`;
         },
         signal: controller.signal,
         body: JSON.stringify({
-          model: 'grok-3-mini-fast', // Use fast model for text
+          model: this.config.fastModel, // Use fast model for text
           messages: [
             {
               role: 'user',
@@ -1056,7 +1122,7 @@ Full document text: ${extractedText.substring(0, 50000)}`  // Increased to 50k c
 
         if (!response.ok) {
           const errorText = await response.text();
-          console.error(`xAI Vision API error: ${errorText}`);
+          console.error(`${this.config.label} Vision API error: ${errorText}`);
           throw new Error(`Vision API error: ${response.status}`);
         }
 
@@ -1083,5 +1149,3 @@ Full document text: ${extractedText.substring(0, 50000)}`  // Increased to 50k c
     }
   }
 }
-
-export const xaiService = new XAIService();
\ No newline at end of file
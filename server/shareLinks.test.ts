@@ -0,0 +1,137 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import type { PolicyDocument } from "@shared/schema";
+import { storage } from "./storage";
+import { pdfGenerator } from "./services/pdfGenerator";
+import { getLLMProvider } from "./services/llmProvider";
+import { sharedPdfCache, sharedPdfDownloads, sharedSummaryViews } from "./services/sharedPdfs";
+import { createProcessedDocument, createTestApp, signUp } from "./test/app";
+
+// Public share links: what the client sees, what is counted, and what the PDF costs
+describe("share links", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof signUp>>;
+  let outsider: Awaited<ReturnType<typeof signUp>>;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await signUp(app, "sharer");
+    outsider = await signUp(app, "browser");
+  });
+
+  beforeEach(() => {
+    sharedPdfCache.clear();
+    sharedPdfDownloads.reset();
+    sharedSummaryViews.reset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function share(document: PolicyDocument) {
+    const created = await owner.client.post(`/api/documents/${document.id}/share-links`).send({}).expect(201);
+    const token = (created.body.url as string).split("/share/")[1];
+    return { id: created.body.id as number, token };
+  }
+
+  async function linkCounts(document: PolicyDocument) {
+    const [link] = await storage.listShareLinks(document.id);
+    return { views: link.viewCount, downloads: link.downloadCount };
+  }
+
+  it("counts views by anyone but the agent who shared the link", async () => {
+    const document = await createProcessedDocument(owner.agentId);
+    const { token } = await share(document);
+
+    await owner.client.get(`/api/share/${token}`).expect(200);
+    expect(await linkCounts(document)).toMatchObject({ views: 0 });
+
+    // Another agent signed in on the same browser is still a real visitor
+    await outsider.client.get(`/api/share/${token}`).expect(200);
+    await request(app).get(`/api/share/${token}`).expect(200);
+    expect(await linkCounts(document)).toMatchObject({ views: 2 });
+  });
+
+  it("shows the summary in the document's language, as the PDF does", async () => {
+    const document = await createProcessedDocument(owner.agentId, "[Key Coverage Points]\n• Deductible: $500");
+    await storage.updatePolicyDocument(document.id, { processingOptions: { language: "es" } });
+    const { token } = await share(document);
+
+    const response = await request(app).get(`/api/share/${token}`).expect(200);
+    expect(response.body.language).toBe("es");
+    expect(response.body.summary.sections[0].title).toBe("Puntos clave de la cobertura");
+    expect(response.body.summary.sections[0].blocks[0].items).toEqual(["Deducible: $500"]);
+  });
+
+  it("never translates for a public visitor, showing English until a translation is stored", async () => {
+    const translate = vi.spyOn(getLLMProvider(), "translateSummary").mockRejectedValue(new Error("AI service unavailable"));
+    const render = vi.spyOn(pdfGenerator, "generatePolicyPDF").mockResolvedValue(Buffer.from("%PDF-1.4 shared"));
+    const document = await createProcessedDocument(owner.agentId, "[Key Coverage Points]\n• Deductible: $500");
+    await storage.updatePolicyDocument(document.id, { processingOptions: { language: "es" } });
+    const { token } = await share(document);
+    expect(translate).toHaveBeenCalledTimes(1);
+
+    const response = await request(app).get(`/api/share/${token}`).expect(200);
+    await request(app).get(`/api/share/${token}`).expect(200);
+    await request(app).get(`/api/share/${token}/pdf`).expect(200);
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect(response.body.language).toBe("en");
+    expect(response.body.summary.sections[0].title).toBe("Key Coverage Points");
+    expect(render.mock.calls[0][2]).toMatchObject({ language: "en" });
+  });
+
+  it("does not count public visits as the agent viewing the document", async () => {
+    vi.spyOn(pdfGenerator, "generatePolicyPDF").mockResolvedValue(Buffer.from("%PDF-1.4 shared"));
+    const document = await createProcessedDocument(owner.agentId);
+    const { token } = await share(document);
+    await owner.client.get(`/api/documents/${document.id}`).expect(200);
+    const viewed = (await storage.getPolicyDocument(document.id))?.lastViewedAt;
+    expect(viewed).toBeInstanceOf(Date);
+
+    await request(app).get(`/api/share/${token}`).expect(200);
+    await request(app).get(`/api/share/${token}/pdf`).expect(200);
+    expect((await storage.getPolicyDocument(document.id))?.lastViewedAt).toEqual(viewed);
+  });
+
+  it("limits summary views from one address", async () => {
+    const document = await createProcessedDocument(owner.agentId);
+    const { token } = await share(document);
+
+    for (let view = 0; view < 30; view++) {
+      await request(app).get(`/api/share/${token}`).expect(200);
+    }
+    const refused = await request(app).get(`/api/share/${token}`).expect(429);
+    expect(Number(refused.headers["retry-after"])).toBeGreaterThan(0);
+    expect(await linkCounts(document)).toMatchObject({ views: 30 });
+  });
+
+  it("renders each link's PDF once per summary version", async () => {
+    const render = vi.spyOn(pdfGenerator, "generatePolicyPDF").mockResolvedValue(Buffer.from("%PDF-1.4 shared"));
+    const document = await createProcessedDocument(owner.agentId);
+    const { token } = await share(document);
+
+    await request(app).get(`/api/share/${token}/pdf`).expect(200);
+    await request(app).get(`/api/share/${token}/pdf`).expect(200);
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(await linkCounts(document)).toMatchObject({ downloads: 2 });
+
+    await owner.client.patch(`/api/documents/${document.id}/summary`).send({ summary: "[Your Coverage]\nUpdated limits." }).expect(200);
+    await request(app).get(`/api/share/${token}/pdf`).expect(200);
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+
+  it("limits PDF downloads from one address", async () => {
+    vi.spyOn(pdfGenerator, "generatePolicyPDF").mockResolvedValue(Buffer.from("%PDF-1.4 shared"));
+    const document = await createProcessedDocument(owner.agentId);
+    const { token } = await share(document);
+
+    for (let download = 0; download < 10; download++) {
+      await request(app).get(`/api/share/${token}/pdf`).expect(200);
+    }
+    const refused = await request(app).get(`/api/share/${token}/pdf`).expect(429);
+    expect(Number(refused.headers["retry-after"])).toBeGreaterThan(0);
+    expect(await linkCounts(document)).toMatchObject({ downloads: 10 });
+  });
+});
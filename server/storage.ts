@@ -1,20 +1,76 @@
 import { 
   users, 
   agents,
+  agencies,
   policyDocuments, 
   summaryHistory, 
   userSettings,
+  processingJobs,
+  uploadBatches,
+  clients,
+  pdfTemplates,
+  processingPresets,
+  reviewComments,
+  documentTexts,
+  notifications,
+  auditEvents,
+  shareLinks,
+  emailDeliveries,
   type User, 
   type InsertUser, 
   type Agent,
   type InsertAgent,
+  type AgentMembership,
+  type Agency,
+  type InsertAgency,
   type PolicyDocument, 
   type InsertPolicyDocument,
   type SummaryHistory,
   type InsertSummaryHistory,
   type UserSettings,
-  type InsertUserSettings
+  type InsertUserSettings,
+  type ProcessingJob,
+  type InsertProcessingJob,
+  type UploadBatch,
+  type InsertUploadBatch,
+  type Client,
+  type InsertClient,
+  type PdfTemplate,
+  type InsertPdfTemplate,
+  type ProcessingPreset,
+  type InsertProcessingPreset,
+  type ReviewComment,
+  type InsertReviewComment,
+  type Notification,
+  type InsertNotification,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditEventQuery,
+  type ShareLink,
+  type InsertShareLink,
+  type EmailDelivery,
+  type InsertEmailDelivery,
+  type DocumentSearchQuery,
+  type DocumentSearchResult,
+  type DocumentSearchFacets,
+  type SearchFacetCount,
+  type StructuredSummary,
+  AGENCY_MANAGER_ROLES,
+  AGENCY_REVIEWER_ROLES
 } from "@shared/schema";
+import { parseSummaryMarkdown, summaryToMarkdown } from "@shared/summaryMarkdown";
+
+// Most values listed per facet in search results
+const SEARCH_FACET_LIMIT = 20;
+
+// Summaries are parsed into sections once, when they are saved. The text is rewritten
+// from the sections so it always reads back as the structure stored with it.
+function withStructuredSummary<T extends { summary?: string | null }>(values: T): T & { structuredSummary?: StructuredSummary | null } {
+  if (values.summary === undefined) return values;
+  if (values.summary === null) return { ...values, structuredSummary: null };
+  const structuredSummary = parseSummaryMarkdown(values.summary);
+  return { ...values, summary: summaryToMarkdown(structuredSummary), structuredSummary };
+}
 
 export interface IStorage {
   // Legacy user methods (for compatibility)
@@ -25,24 +81,120 @@ export interface IStorage {
   // Agent methods (new authentication system)
   getAgent(id: number): Promise<Agent | undefined>;
   getAgentByUsername(username: string): Promise<Agent | undefined>;
-  createAgent(agent: InsertAgent): Promise<Agent>;
+  createAgent(agent: InsertAgent & Partial<AgentMembership>): Promise<Agent>;
+  updateAgent(id: number, updates: Partial<AgentMembership>): Promise<Agent | undefined>;
+  getAgentByCalendarToken(token: string): Promise<Agent | undefined>;
+  setCalendarToken(agentId: number, token: string): Promise<Agent | undefined>;
+  
+  // Agency methods. Wherever a method below takes an agentId to check ownership,
+  // agency owners, admins and reviewers also reach the records of every member of their agency.
+  createAgency(agency: InsertAgency): Promise<Agency>;
+  getAgency(id: number): Promise<Agency | undefined>;
+  updateAgency(id: number, updates: Partial<InsertAgency>): Promise<Agency | undefined>;
+  listAgencyMembers(agencyId: number): Promise<Agent[]>;
+  listAgencyDocuments(agencyId: number): Promise<PolicyDocument[]>;
   
   // Policy document methods
   createPolicyDocument(document: InsertPolicyDocument): Promise<PolicyDocument>;
   getPolicyDocument(id: number, agentId?: number): Promise<PolicyDocument | undefined>;
+  // A document the agent may read and review: their own (or, for managers, any in the
+  // agency), and for reviewers also their colleagues' documents. Not for changing them.
+  getReviewablePolicyDocument(id: number, agentId: number): Promise<PolicyDocument | undefined>;
   updatePolicyDocument(id: number, updates: Partial<PolicyDocument>, agentId?: number): Promise<PolicyDocument | undefined>;
   listPolicyDocuments(userId?: number): Promise<PolicyDocument[]>;
   deletePolicyDocument(id: number, agentId?: number): Promise<boolean>;
-  toggleFavorite(id: number): Promise<PolicyDocument | undefined>;
-  updateTags(id: number, tags: string[]): Promise<PolicyDocument | undefined>;
-  searchDocuments(query: string, userId?: number): Promise<PolicyDocument[]>;
+  toggleFavorite(id: number, agentId?: number): Promise<PolicyDocument | undefined>;
+  updateTags(id: number, tags: string[], agentId?: number): Promise<PolicyDocument | undefined>;
+  // Search the agent's own documents: full text over names, extracted fields, the
+  // summary and the document text, narrowed by the facet filters, one page at a time
+  searchDocuments(query: DocumentSearchQuery, agentId: number): Promise<DocumentSearchResult>;
+  saveDocumentText(documentId: number, text: string): Promise<void>;
+  // Processed documents expiring between the two dates (open-ended without `to`), soonest first
+  listExpiringDocuments(from: Date, to: Date | null, agentId?: number): Promise<PolicyDocument[]>;
+  // Processed documents whose policy dates have not been parsed yet (processed before they were stored)
+  listDocumentsMissingPolicyDates(): Promise<PolicyDocument[]>;
+  
+  // Upload batch methods
+  createUploadBatch(batch: InsertUploadBatch): Promise<UploadBatch>;
+  getUploadBatch(id: number, agentId?: number): Promise<UploadBatch | undefined>;
+  updateUploadBatch(id: number, updates: Partial<UploadBatch>): Promise<UploadBatch | undefined>;
+  listUploadBatches(agentId: number): Promise<UploadBatch[]>;
+  listBatchDocuments(batchId: number): Promise<PolicyDocument[]>;
+  
+  // Client methods
+  createClient(client: InsertClient): Promise<Client>;
+  getClient(id: number, agentId?: number): Promise<Client | undefined>;
+  updateClient(id: number, updates: Partial<InsertClient>, agentId?: number): Promise<Client | undefined>;
+  listClients(agentId: number): Promise<Client[]>;
+  deleteClient(id: number, agentId?: number): Promise<boolean>;
+  listClientDocuments(clientId: number): Promise<PolicyDocument[]>;
+  
+  // Custom PDF template methods. Templates belong to the uploader's agency: every
+  // member lists and exports with them, while update and delete are limited to the
+  // uploader and members who see every agency record.
+  createPdfTemplate(template: InsertPdfTemplate): Promise<PdfTemplate>;
+  getPdfTemplate(id: number, agentId?: number): Promise<PdfTemplate | undefined>;
+  updatePdfTemplate(id: number, updates: Partial<InsertPdfTemplate>, agentId?: number): Promise<PdfTemplate | undefined>;
+  listPdfTemplates(agentId: number): Promise<PdfTemplate[]>;
+  deletePdfTemplate(id: number, agentId?: number): Promise<boolean>;
+  
+  // Processing preset methods. Presets are owned by one agent; shared ones are
+  // readable by the owner's agency. Saving a preset as default clears the owner's other default.
+  createProcessingPreset(preset: InsertProcessingPreset): Promise<ProcessingPreset>;
+  getProcessingPreset(id: number, agentId?: number): Promise<ProcessingPreset | undefined>;
+  updateProcessingPreset(id: number, updates: Partial<InsertProcessingPreset>, agentId: number): Promise<ProcessingPreset | undefined>;
+  listProcessingPresets(agentId: number): Promise<ProcessingPreset[]>;
+  getDefaultProcessingPreset(agentId: number): Promise<ProcessingPreset | undefined>;
+  deleteProcessingPreset(id: number, agentId: number): Promise<boolean>;
   
   // Summary history methods
   createSummaryVersion(summaryData: InsertSummaryHistory): Promise<SummaryHistory>;
   getSummaryHistory(documentId: number): Promise<SummaryHistory[]>;
+  getSummaryVersion(documentId: number, versionId: number): Promise<SummaryHistory | undefined>;
   getActiveSummary(documentId: number): Promise<SummaryHistory | undefined>;
-  setActiveSummary(documentId: number, versionId: number): Promise<boolean>;
-  deleteSummaryVersion(versionId: number): Promise<boolean>;
+  deleteSummaryVersion(documentId: number, versionId: number): Promise<boolean>;
+
+  // Review comment methods, oldest first
+  createReviewComment(comment: InsertReviewComment): Promise<ReviewComment>;
+  listReviewComments(documentId: number): Promise<ReviewComment[]>;
+  updateReviewComment(documentId: number, commentId: number, updates: Partial<Pick<ReviewComment, 'resolved'>>): Promise<ReviewComment | undefined>;
+
+  // Notification methods, newest first. createNotification returns undefined when a
+  // notification with the same key already exists.
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  listNotifications(agentId: number, limit: number): Promise<Notification[]>;
+  countUnreadNotifications(agentId: number): Promise<number>;
+  // Marks the given notifications (or all of them) read; returns how many changed
+  markNotificationsRead(agentId: number, ids?: number[]): Promise<number>;
+
+  // Audit trail methods. Events are append-only: there is deliberately no way to
+  // change or remove one. Lists are newest first.
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  listDocumentAuditEvents(documentId: number): Promise<AuditEvent[]>;
+  listAuditEvents(agencyId: number, query: AuditEventQuery, limit?: number): Promise<AuditEvent[]>;
+
+  // Share link methods. Lists are newest first; recordShareLinkAccess counts one
+  // view or PDF download of a link.
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  listShareLinks(documentId: number): Promise<ShareLink[]>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  revokeShareLink(documentId: number, linkId: number): Promise<ShareLink | undefined>;
+  recordShareLinkAccess(linkId: number, kind: 'view' | 'download'): Promise<ShareLink | undefined>;
+
+  // Email delivery log, newest first
+  createEmailDelivery(delivery: InsertEmailDelivery): Promise<EmailDelivery>;
+  listEmailDeliveries(documentId: number): Promise<EmailDelivery[]>;
+  
+  // Processing job methods
+  createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
+  getLatestProcessingJob(documentId: number): Promise<ProcessingJob | undefined>;
+  getProcessingJob(id: number): Promise<ProcessingJob | undefined>;
+  updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined>;
+  claimNextProcessingJob(): Promise<ProcessingJob | undefined>;
+  // Running jobs whose worker stopped updating them before `staleBefore`: requeued while
+  // attempts remain, otherwise marked failed and returned so their documents can be updated
+  requeueInterruptedProcessingJobs(staleBefore: Date): Promise<{ requeued: number; failed: ProcessingJob[] }>;
+  getAverageProcessingDuration(): Promise<number | undefined>;
   
   // Settings methods
   getUserSettings(userId: number): Promise<UserSettings | undefined>;
@@ -53,18 +205,72 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private agents: Map<number, Agent>;
+  private agencies: Map<number, Agency>;
   private policyDocuments: Map<number, PolicyDocument>;
+  private processingJobs: Map<number, ProcessingJob>;
+  private uploadBatches: Map<number, UploadBatch>;
+  private clients: Map<number, Client>;
+  private pdfTemplates: Map<number, PdfTemplate>;
+  private processingPresets: Map<number, ProcessingPreset>;
+  private summaryVersions: Map<number, SummaryHistory>;
+  private reviewComments: Map<number, ReviewComment>;
+  private documentTexts: Map<number, string>;
+  private notifications: Map<number, Notification>;
+  private auditEvents: AuditEvent[];
+  private shareLinks: Map<number, ShareLink>;
+  private emailDeliveries: Map<number, EmailDelivery>;
+  private userSettings: Map<number, UserSettings>; // by agent id
   private currentUserId: number;
   private currentAgentId: number;
+  private currentAgencyId: number;
   private currentDocumentId: number;
+  private currentJobId: number;
+  private currentBatchId: number;
+  private currentClientId: number;
+  private currentTemplateId: number;
+  private currentPresetId: number;
+  private currentSummaryVersionId: number;
+  private currentReviewCommentId: number;
+  private currentNotificationId: number;
+  private currentAuditEventId: number;
+  private currentShareLinkId: number;
+  private currentEmailDeliveryId: number;
+  private currentSettingsId: number;
 
   constructor() {
     this.users = new Map();
     this.agents = new Map();
+    this.agencies = new Map();
     this.policyDocuments = new Map();
+    this.processingJobs = new Map();
+    this.uploadBatches = new Map();
+    this.clients = new Map();
+    this.pdfTemplates = new Map();
+    this.processingPresets = new Map();
+    this.summaryVersions = new Map();
+    this.reviewComments = new Map();
+    this.documentTexts = new Map();
+    this.notifications = new Map();
+    this.auditEvents = [];
+    this.shareLinks = new Map();
+    this.emailDeliveries = new Map();
+    this.userSettings = new Map();
     this.currentUserId = 1;
     this.currentAgentId = 1;
+    this.currentAgencyId = 1;
     this.currentDocumentId = 1;
+    this.currentJobId = 1;
+    this.currentBatchId = 1;
+    this.currentClientId = 1;
+    this.currentTemplateId = 1;
+    this.currentPresetId = 1;
+    this.currentSummaryVersionId = 1;
+    this.currentReviewCommentId = 1;
+    this.currentNotificationId = 1;
+    this.currentAuditEventId = 1;
+    this.currentShareLinkId = 1;
+    this.currentEmailDeliveryId = 1;
+    this.currentSettingsId = 1;
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -104,21 +310,111 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createAgent(insertAgent: InsertAgent): Promise<Agent> {
+  async createAgent(insertAgent: InsertAgent & Partial<AgentMembership>): Promise<Agent> {
     const id = this.currentAgentId++;
-    const agent: Agent = { ...insertAgent, id, createdAt: new Date(), updatedAt: new Date() };
+    const agent: Agent = {
+      ...insertAgent,
+      id,
+      agencyId: insertAgent.agencyId ?? null,
+      role: insertAgent.role || "producer",
+      calendarToken: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
     this.agents.set(id, agent);
     return agent;
   }
 
+  async updateAgent(id: number, updates: Partial<AgentMembership>): Promise<Agent | undefined> {
+    const agent = this.agents.get(id);
+    if (!agent) return undefined;
+
+    const updated = { ...agent, ...updates, id, updatedAt: new Date() };
+    this.agents.set(id, updated);
+    return updated;
+  }
+
+  async getAgentByCalendarToken(token: string): Promise<Agent | undefined> {
+    return Array.from(this.agents.values()).find(agent => agent.calendarToken === token);
+  }
+
+  async setCalendarToken(agentId: number, token: string): Promise<Agent | undefined> {
+    const agent = this.agents.get(agentId);
+    if (!agent) return undefined;
+    const updated = { ...agent, calendarToken: token, updatedAt: new Date() };
+    this.agents.set(agentId, updated);
+    return updated;
+  }
+
+  // Agency owners and admins reach every member's records; everyone else only their own
+  private async accessibleAgentIds(agentId: number): Promise<number[]> {
+    const agent = this.agents.get(agentId);
+    if (!agent?.agencyId || !AGENCY_MANAGER_ROLES.includes(agent.role)) return [agentId];
+    return (await this.listAgencyMembers(agent.agencyId)).map(member => member.id);
+  }
+
+  // Reviewers also read every member's documents, to find and review them
+  private async reviewableAgentIds(agentId: number): Promise<number[]> {
+    const agent = this.agents.get(agentId);
+    if (!agent?.agencyId || !AGENCY_REVIEWER_ROLES.includes(agent.role)) return [agentId];
+    return (await this.listAgencyMembers(agent.agencyId)).map(member => member.id);
+  }
+
+  private async canAccess(ownerId: number | null, agentId: number): Promise<boolean> {
+    return ownerId !== null && (await this.accessibleAgentIds(agentId)).includes(ownerId);
+  }
+
+  async createAgency(insertAgency: InsertAgency): Promise<Agency> {
+    const id = this.currentAgencyId++;
+    const agency: Agency = {
+      id,
+      name: insertAgency.name,
+      branding: insertAgency.branding || { firmName: "", firmAddress: "", firmPhone: "", firmWebsite: "" },
+      defaultProcessingOptions: insertAgency.defaultProcessingOptions || {},
+      requireApprovalForExport: insertAgency.requireApprovalForExport || false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.agencies.set(id, agency);
+    return agency;
+  }
+
+  async getAgency(id: number): Promise<Agency | undefined> {
+    return this.agencies.get(id);
+  }
+
+  async updateAgency(id: number, updates: Partial<InsertAgency>): Promise<Agency | undefined> {
+    const agency = this.agencies.get(id);
+    if (!agency) return undefined;
+
+    const updated = { ...agency, ...updates, id, updatedAt: new Date() };
+    this.agencies.set(id, updated);
+    return updated;
+  }
+
+  async listAgencyMembers(agencyId: number): Promise<Agent[]> {
+    return Array.from(this.agents.values())
+      .filter(agent => agent.agencyId === agencyId)
+      .sort((a, b) => a.fullName.localeCompare(b.fullName));
+  }
+
+  async listAgencyDocuments(agencyId: number): Promise<PolicyDocument[]> {
+    const memberIds = (await this.listAgencyMembers(agencyId)).map(member => member.id);
+    return Array.from(this.policyDocuments.values())
+      .filter(doc => doc.agentId !== null && memberIds.includes(doc.agentId))
+      .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
+  }
+
   async createPolicyDocument(insertDocument: InsertPolicyDocument): Promise<PolicyDocument> {
     const id = this.currentDocumentId++;
+    const values = withStructuredSummary(insertDocument);
     const document: PolicyDocument = {
       ...insertDocument,
       id,
       agentId: insertDocument.agentId || null,
       uploadedAt: new Date(),
-      summary: insertDocument.summary || null,
+      summary: values.summary || null,
+      structuredSummary: values.structuredSummary || null,
       processed: insertDocument.processed || false,
       extractedData: insertDocument.extractedData || null,
       processingError: insertDocument.processingError || null,
@@ -128,6 +424,20 @@ export class MemStorage implements IStorage {
       clientName: insertDocument.clientName || null,
       policyReference: insertDocument.policyReference || null,
       processingOptions: insertDocument.processingOptions || {},
+      storageKey: insertDocument.storageKey || null,
+      batchId: insertDocument.batchId || null,
+      clientId: insertDocument.clientId || null,
+      presetId: insertDocument.presetId || null,
+      reviewStatus: insertDocument.reviewStatus || 'draft',
+      approvedById: insertDocument.approvedById || null,
+      approvedAt: insertDocument.approvedAt || null,
+      approvedVersion: insertDocument.approvedVersion || null,
+      deliveredAt: insertDocument.deliveredAt || null,
+      pdfExportCount: insertDocument.pdfExportCount || 0,
+      lastExportedAt: insertDocument.lastExportedAt || null,
+      effectiveDate: insertDocument.effectiveDate || null,
+      expirationDate: insertDocument.expirationDate || null,
+      searchVector: null,
     };
     this.policyDocuments.set(id, document);
     return document;
@@ -137,30 +447,44 @@ export class MemStorage implements IStorage {
     const document = this.policyDocuments.get(id);
     if (!document) return undefined;
     
-    // If agent ID is provided, verify ownership
-    if (agentId && document.agentId !== agentId) {
-      return undefined;
+    // If agent ID is provided, verify ownership and record the agent's view
+    if (agentId) {
+      if (!(await this.canAccess(document.agentId, agentId))) return undefined;
+      const viewed = { ...document, lastViewedAt: new Date() };
+      this.policyDocuments.set(id, viewed);
+      return viewed;
     }
     
     return document;
   }
 
+  async getReviewablePolicyDocument(id: number, agentId: number): Promise<PolicyDocument | undefined> {
+    const document = this.policyDocuments.get(id);
+    if (!document?.agentId || !(await this.reviewableAgentIds(agentId)).includes(document.agentId)) return undefined;
+
+    const viewed = { ...document, lastViewedAt: new Date() };
+    this.policyDocuments.set(id, viewed);
+    return viewed;
+  }
+
   async updatePolicyDocument(id: number, updates: Partial<PolicyDocument>, agentId?: number): Promise<PolicyDocument | undefined> {
     const document = this.policyDocuments.get(id);
     if (!document) return undefined;
 
     // If agent ID is provided, verify ownership
-    if (agentId && document.agentId !== agentId) {
+    if (agentId && !(await this.canAccess(document.agentId, agentId))) {
       return undefined;
     }
 
-    const updatedDocument = { ...document, ...updates };
+    const updatedDocument = { ...document, ...withStructuredSummary(updates) };
     this.policyDocuments.set(id, updatedDocument);
     return updatedDocument;
   }
 
-  async listPolicyDocuments(userId?: number): Promise<PolicyDocument[]> {
+  async listPolicyDocuments(agentId?: number): Promise<PolicyDocument[]> {
+    const owners = agentId ? await this.accessibleAgentIds(agentId) : undefined;
     return Array.from(this.policyDocuments.values())
+      .filter(doc => !owners || (doc.agentId !== null && owners.includes(doc.agentId)))
       .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
   }
 
@@ -169,15 +493,31 @@ export class MemStorage implements IStorage {
     if (!document) return false;
     
     // If agent ID is provided, verify ownership
-    if (agentId && document.agentId !== agentId) {
+    if (agentId && !(await this.canAccess(document.agentId, agentId))) {
       return false;
     }
     
+    Array.from(this.summaryVersions.values())
+      .filter(version => version.documentId === id)
+      .forEach(version => this.summaryVersions.delete(version.id));
+    Array.from(this.reviewComments.values())
+      .filter(comment => comment.documentId === id)
+      .forEach(comment => this.reviewComments.delete(comment.id));
+    this.documentTexts.delete(id);
+    Array.from(this.notifications.values())
+      .filter(notification => notification.documentId === id)
+      .forEach(notification => this.notifications.delete(notification.id));
+    Array.from(this.emailDeliveries.values())
+      .filter(delivery => delivery.documentId === id)
+      .forEach(delivery => this.emailDeliveries.delete(delivery.id));
+    Array.from(this.shareLinks.values())
+      .filter(link => link.documentId === id)
+      .forEach(link => this.shareLinks.delete(link.id));
     return this.policyDocuments.delete(id);
   }
 
-  async toggleFavorite(id: number): Promise<PolicyDocument | undefined> {
-    const document = this.policyDocuments.get(id);
+  async toggleFavorite(id: number, agentId?: number): Promise<PolicyDocument | undefined> {
+    const document = await this.getPolicyDocument(id, agentId);
     if (!document) return undefined;
     
     const updated = { ...document, isFavorite: !document.isFavorite };
@@ -185,8 +525,8 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async updateTags(id: number, tags: string[]): Promise<PolicyDocument | undefined> {
-    const document = this.policyDocuments.get(id);
+  async updateTags(id: number, tags: string[], agentId?: number): Promise<PolicyDocument | undefined> {
+    const document = await this.getPolicyDocument(id, agentId);
     if (!document) return undefined;
     
     const updated = { ...document, tags };
@@ -194,75 +534,697 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async searchDocuments(query: string, userId?: number): Promise<PolicyDocument[]> {
+  async searchDocuments(query: DocumentSearchQuery, agentId: number): Promise<DocumentSearchResult> {
+    const terms = (query.q ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const owners = await this.reviewableAgentIds(agentId);
+    const matches = Array.from(this.policyDocuments.values())
+      .filter(doc => doc.agentId !== null && owners.includes(doc.agentId) && this.matchesSearchFilters(doc, query))
+      .map(doc => ({ doc, score: this.searchScore(doc, terms) }))
+      .filter(({ score }) => terms.length === 0 || score > 0);
+
+    const sort = query.sort ?? (terms.length > 0 ? 'relevance' : 'uploadedAt');
+    const time = (date: Date | null) => date?.getTime() ?? 0;
+    matches.sort((a, b) => {
+      switch (sort) {
+        case 'relevance': return b.score - a.score || time(b.doc.uploadedAt) - time(a.doc.uploadedAt);
+        case 'lastViewed': return time(b.doc.lastViewedAt) - time(a.doc.lastViewedAt);
+        case 'name': return a.doc.originalName.localeCompare(b.doc.originalName);
+        case 'size': return b.doc.fileSize - a.doc.fileSize;
+        case 'expirationDate': return (time(a.doc.expirationDate) || Infinity) - (time(b.doc.expirationDate) || Infinity);
+        default: return time(b.doc.uploadedAt) - time(a.doc.uploadedAt);
+      }
+    });
+
+    const documents = matches.map(({ doc }) => doc);
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      documents: documents.slice(start, start + query.pageSize),
+      total: documents.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      facets: this.searchFacets(documents),
+    };
+  }
+
+  async saveDocumentText(documentId: number, text: string): Promise<void> {
+    this.documentTexts.set(documentId, text);
+  }
+
+  async listExpiringDocuments(from: Date, to: Date | null, agentId?: number): Promise<PolicyDocument[]> {
+    return Array.from(this.policyDocuments.values())
+      .filter((doc): doc is PolicyDocument & { expirationDate: Date } =>
+        doc.processed && !!doc.expirationDate && doc.expirationDate >= from && (!to || doc.expirationDate <= to)
+        && (agentId === undefined || doc.agentId === agentId))
+      .sort((a, b) => a.expirationDate.getTime() - b.expirationDate.getTime());
+  }
+
+  async listDocumentsMissingPolicyDates(): Promise<PolicyDocument[]> {
     return Array.from(this.policyDocuments.values())
-      .filter(doc => doc.originalName.toLowerCase().includes(query.toLowerCase()))
+      .filter(doc => doc.processed && doc.extractedData && !doc.effectiveDate && !doc.expirationDate);
+  }
+
+  private matchesSearchFilters(doc: PolicyDocument, query: DocumentSearchQuery): boolean {
+    const insurer = (doc.extractedData as any)?.insurer;
+    return (!query.tags || query.tags.every(tag => doc.tags.includes(tag)))
+      && (query.favorite === undefined || doc.isFavorite === query.favorite)
+      && (!query.clientId || doc.clientId === query.clientId)
+      && (!query.insurer || insurer === query.insurer)
+      && (!query.expiresFrom || (!!doc.expirationDate && doc.expirationDate >= query.expiresFrom))
+      && (!query.expiresTo || (!!doc.expirationDate && doc.expirationDate <= query.expiresTo))
+      && (!query.exportStatus || (query.exportStatus === 'exported') === doc.pdfExportCount > 0)
+      && (query.processed === undefined || doc.processed === query.processed);
+  }
+
+  // Weighted term matches, in the same order of importance as the database index
+  private searchScore(doc: PolicyDocument, terms: string[]): number {
+    const data = (doc.extractedData ?? {}) as any;
+    const formCodes = [...(data.coverageDetails ?? []), ...(data.verifiedCoverageDetails ?? []), ...(data.exclusions ?? [])]
+      .map((entry: any) => entry.formCode);
+    const fields: [number, (string | null | undefined)[]][] = [
+      [4, [doc.originalName, doc.clientName, doc.policyReference, data.insuredName, data.insurer, data.policyType, data.policyNumber]],
+      [2, formCodes],
+      [1, [doc.summary]],
+      [0.5, [this.documentTexts.get(doc.id)]],
+    ];
+    let score = 0;
+    for (const term of terms) {
+      const weight = Math.max(0, ...fields.map(([weight, values]) =>
+        values.some(value => value?.toLowerCase().includes(term)) ? weight : 0));
+      // Every term must match somewhere
+      if (weight === 0) return 0;
+      score += weight;
+    }
+    return score;
+  }
+
+  private searchFacets(documents: PolicyDocument[]): DocumentSearchFacets {
+    const tally = <T>(values: (T | null | undefined)[], label: (value: T) => string): SearchFacetCount<T>[] => {
+      const counts = new Map<T, number>();
+      values.forEach(value => {
+        if (value !== null && value !== undefined && value !== '') counts.set(value, (counts.get(value) ?? 0) + 1);
+      });
+      return Array.from(counts, ([value, count]) => ({ value, label: label(value), count }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+        .slice(0, SEARCH_FACET_LIMIT);
+    };
+    const expirations = documents
+      .map(doc => doc.expirationDate)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return {
+      tags: tally(documents.flatMap(doc => doc.tags), tag => tag),
+      insurers: tally(documents.map(doc => (doc.extractedData as any)?.insurer as string | undefined), insurer => insurer),
+      clients: tally(documents.map(doc => doc.clientId), id => this.clients.get(id)?.name ?? `Client ${id}`),
+      favorites: documents.filter(doc => doc.isFavorite).length,
+      exportStatus: {
+        exported: documents.filter(doc => doc.pdfExportCount > 0).length,
+        notExported: documents.filter(doc => doc.pdfExportCount === 0).length,
+      },
+      expiration: {
+        earliest: expirations[0]?.toISOString() ?? null,
+        latest: expirations[expirations.length - 1]?.toISOString() ?? null,
+      },
+    };
+  }
+
+  async createUploadBatch(insertBatch: InsertUploadBatch): Promise<UploadBatch> {
+    const id = this.currentBatchId++;
+    const batch: UploadBatch = {
+      id,
+      agentId: insertBatch.agentId,
+      name: insertBatch.name,
+      totalDocuments: insertBatch.totalDocuments || 0,
+      skippedFiles: insertBatch.skippedFiles || [],
+      createdAt: new Date(),
+    };
+    this.uploadBatches.set(id, batch);
+    return batch;
+  }
+
+  async getUploadBatch(id: number, agentId?: number): Promise<UploadBatch | undefined> {
+    const batch = this.uploadBatches.get(id);
+    if (!batch || (agentId && !(await this.canAccess(batch.agentId, agentId)))) return undefined;
+    return batch;
+  }
+
+  async updateUploadBatch(id: number, updates: Partial<UploadBatch>): Promise<UploadBatch | undefined> {
+    const batch = this.uploadBatches.get(id);
+    if (!batch) return undefined;
+
+    const updated = { ...batch, ...updates };
+    this.uploadBatches.set(id, updated);
+    return updated;
+  }
+
+  async listUploadBatches(agentId: number): Promise<UploadBatch[]> {
+    return Array.from(this.uploadBatches.values())
+      .filter(batch => batch.agentId === agentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async listBatchDocuments(batchId: number): Promise<PolicyDocument[]> {
+    return Array.from(this.policyDocuments.values())
+      .filter(doc => doc.batchId === batchId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createClient(insertClient: InsertClient): Promise<Client> {
+    const id = this.currentClientId++;
+    const client: Client = {
+      id,
+      agentId: insertClient.agentId,
+      name: insertClient.name,
+      contactName: insertClient.contactName || null,
+      email: insertClient.email || null,
+      phone: insertClient.phone || null,
+      address: insertClient.address || null,
+      businessType: insertClient.businessType || null,
+      notes: insertClient.notes || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.clients.set(id, client);
+    return client;
+  }
+
+  async getClient(id: number, agentId?: number): Promise<Client | undefined> {
+    const client = this.clients.get(id);
+    if (!client || (agentId && !(await this.canAccess(client.agentId, agentId)))) return undefined;
+    return client;
+  }
+
+  async updateClient(id: number, updates: Partial<InsertClient>, agentId?: number): Promise<Client | undefined> {
+    const client = await this.getClient(id, agentId);
+    if (!client) return undefined;
+
+    const updated = { ...client, ...updates, id, agentId: client.agentId, updatedAt: new Date() };
+    this.clients.set(id, updated);
+    return updated;
+  }
+
+  async listClients(agentId: number): Promise<Client[]> {
+    const owners = await this.accessibleAgentIds(agentId);
+    return Array.from(this.clients.values())
+      .filter(client => owners.includes(client.agentId))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteClient(id: number, agentId?: number): Promise<boolean> {
+    const client = await this.getClient(id, agentId);
+    if (!client) return false;
+
+    // Keep the policies; just unlink them
+    this.policyDocuments.forEach((doc, docId) => {
+      if (doc.clientId === id) {
+        this.policyDocuments.set(docId, { ...doc, clientId: null });
+      }
+    });
+    return this.clients.delete(id);
+  }
+
+  async listClientDocuments(clientId: number): Promise<PolicyDocument[]> {
+    return Array.from(this.policyDocuments.values())
+      .filter(doc => doc.clientId === clientId)
       .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
   }
 
+  async createPdfTemplate(insertTemplate: InsertPdfTemplate): Promise<PdfTemplate> {
+    const id = this.currentTemplateId++;
+    const template: PdfTemplate = {
+      id,
+      agentId: insertTemplate.agentId,
+      name: insertTemplate.name,
+      description: insertTemplate.description || null,
+      html: insertTemplate.html,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.pdfTemplates.set(id, template);
+    return template;
+  }
+
+  async getPdfTemplate(id: number, agentId?: number): Promise<PdfTemplate | undefined> {
+    const template = this.pdfTemplates.get(id);
+    if (!template || (agentId && !(await this.inSameAgency(template.agentId, agentId)))) return undefined;
+    return template;
+  }
+
+  async updatePdfTemplate(id: number, updates: Partial<InsertPdfTemplate>, agentId?: number): Promise<PdfTemplate | undefined> {
+    const template = this.pdfTemplates.get(id);
+    if (!template || (agentId && !(await this.canAccess(template.agentId, agentId)))) return undefined;
+
+    const updated = { ...template, ...updates, id, agentId: template.agentId, updatedAt: new Date() };
+    this.pdfTemplates.set(id, updated);
+    return updated;
+  }
+
+  async listPdfTemplates(agentId: number): Promise<PdfTemplate[]> {
+    const templates: PdfTemplate[] = [];
+    for (const template of Array.from(this.pdfTemplates.values())) {
+      if (await this.inSameAgency(template.agentId, agentId)) templates.push(template);
+    }
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deletePdfTemplate(id: number, agentId?: number): Promise<boolean> {
+    const template = this.pdfTemplates.get(id);
+    if (!template || (agentId && !(await this.canAccess(template.agentId, agentId)))) return false;
+    return this.pdfTemplates.delete(id);
+  }
+
+  private clearDefaultPreset(agentId: number) {
+    this.processingPresets.forEach((preset, presetId) => {
+      if (preset.agentId === agentId && preset.isDefault) {
+        this.processingPresets.set(presetId, { ...preset, isDefault: false });
+      }
+    });
+  }
+
+  async createProcessingPreset(insertPreset: InsertProcessingPreset): Promise<ProcessingPreset> {
+    if (insertPreset.isDefault) {
+      this.clearDefaultPreset(insertPreset.agentId);
+    }
+
+    const id = this.currentPresetId++;
+    const preset: ProcessingPreset = {
+      id,
+      agentId: insertPreset.agentId,
+      name: insertPreset.name,
+      description: insertPreset.description || null,
+      options: insertPreset.options,
+      pdfTemplate: insertPreset.pdfTemplate || null,
+      shared: insertPreset.shared || false,
+      isDefault: insertPreset.isDefault || false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.processingPresets.set(id, preset);
+    return preset;
+  }
+
+  async getProcessingPreset(id: number, agentId?: number): Promise<ProcessingPreset | undefined> {
+    const preset = this.processingPresets.get(id);
+    if (!preset || !agentId) return preset;
+
+    const visible = (preset.shared && await this.inSameAgency(preset.agentId, agentId))
+      || await this.canAccess(preset.agentId, agentId);
+    return visible ? preset : undefined;
+  }
+
+  private async inSameAgency(ownerId: number, agentId: number): Promise<boolean> {
+    if (ownerId === agentId) return true;
+    const owner = this.agents.get(ownerId);
+    return !!owner?.agencyId && owner.agencyId === this.agents.get(agentId)?.agencyId;
+  }
+
+  async updateProcessingPreset(id: number, updates: Partial<InsertProcessingPreset>, agentId: number): Promise<ProcessingPreset | undefined> {
+    const preset = this.processingPresets.get(id);
+    if (!preset || !(await this.canAccess(preset.agentId, agentId))) return undefined;
+
+    if (updates.isDefault) {
+      this.clearDefaultPreset(preset.agentId);
+    }
+    const updated = { ...preset, ...updates, id, agentId: preset.agentId, updatedAt: new Date() };
+    this.processingPresets.set(id, updated);
+    return updated;
+  }
+
+  async listProcessingPresets(agentId: number): Promise<ProcessingPreset[]> {
+    const presets: ProcessingPreset[] = [];
+    for (const preset of Array.from(this.processingPresets.values())) {
+      if (preset.agentId === agentId || (preset.shared && await this.inSameAgency(preset.agentId, agentId))) {
+        presets.push(preset);
+      }
+    }
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDefaultProcessingPreset(agentId: number): Promise<ProcessingPreset | undefined> {
+    return Array.from(this.processingPresets.values())
+      .find(preset => preset.agentId === agentId && preset.isDefault);
+  }
+
+  async deleteProcessingPreset(id: number, agentId: number): Promise<boolean> {
+    const preset = this.processingPresets.get(id);
+    if (!preset || !(await this.canAccess(preset.agentId, agentId))) return false;
+
+    // Documents keep the options they were processed with
+    this.policyDocuments.forEach((doc, docId) => {
+      if (doc.presetId === id) {
+        this.policyDocuments.set(docId, { ...doc, presetId: null });
+      }
+    });
+    return this.processingPresets.delete(id);
+  }
+
   async createSummaryVersion(summaryData: InsertSummaryHistory): Promise<SummaryHistory> {
-    // Mock implementation - in real app this would use database
-    const mockSummary: SummaryHistory = {
-      id: 1,
+    const existing = await this.getSummaryHistory(summaryData.documentId);
+    const isActive = summaryData.isActive ?? true;
+    if (isActive) {
+      existing.forEach(version => { version.isActive = false; });
+    }
+
+    const id = this.currentSummaryVersionId++;
+    const { summary, structuredSummary } = withStructuredSummary(summaryData);
+    const version: SummaryHistory = {
+      id,
       documentId: summaryData.documentId,
-      version: summaryData.version,
-      summary: summaryData.summary,
+      version: existing.length > 0 ? existing[0].version + 1 : 1,
+      summary,
+      structuredSummary: structuredSummary ?? null,
       processingOptions: summaryData.processingOptions,
+      source: summaryData.source ?? 'processing',
+      authorId: summaryData.authorId ?? null,
+      restoredFromVersion: summaryData.restoredFromVersion ?? null,
+      language: summaryData.language ?? 'en',
+      translatedFromVersion: summaryData.translatedFromVersion ?? null,
+      translatedData: summaryData.translatedData ?? null,
       createdAt: new Date(),
-      isActive: summaryData.isActive || false,
+      isActive,
     };
-    return mockSummary;
+    this.summaryVersions.set(id, version);
+    return version;
   }
 
   async getSummaryHistory(documentId: number): Promise<SummaryHistory[]> {
-    return []; // Mock implementation
+    return Array.from(this.summaryVersions.values())
+      .filter(version => version.documentId === documentId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getSummaryVersion(documentId: number, versionId: number): Promise<SummaryHistory | undefined> {
+    const version = this.summaryVersions.get(versionId);
+    return version?.documentId === documentId ? version : undefined;
   }
 
   async getActiveSummary(documentId: number): Promise<SummaryHistory | undefined> {
-    return undefined; // Mock implementation
+    return (await this.getSummaryHistory(documentId)).find(version => version.isActive);
   }
 
-  async setActiveSummary(documentId: number, versionId: number): Promise<boolean> {
-    return true; // Mock implementation
+  async deleteSummaryVersion(documentId: number, versionId: number): Promise<boolean> {
+    if (!(await this.getSummaryVersion(documentId, versionId))) return false;
+    return this.summaryVersions.delete(versionId);
   }
 
-  async deleteSummaryVersion(versionId: number): Promise<boolean> {
-    return true; // Mock implementation
+  async createReviewComment(insertComment: InsertReviewComment): Promise<ReviewComment> {
+    const id = this.currentReviewCommentId++;
+    const comment: ReviewComment = {
+      id,
+      documentId: insertComment.documentId,
+      authorId: insertComment.authorId,
+      section: insertComment.section ?? null,
+      body: insertComment.body,
+      decision: insertComment.decision ?? null,
+      summaryVersion: insertComment.summaryVersion ?? null,
+      resolved: insertComment.resolved ?? false,
+      createdAt: new Date(),
+    };
+    this.reviewComments.set(id, comment);
+    return comment;
   }
 
-  async getUserSettings(agentId: number): Promise<UserSettings | undefined> {
-    return undefined; // Mock implementation
+  async listReviewComments(documentId: number): Promise<ReviewComment[]> {
+    return Array.from(this.reviewComments.values())
+      .filter(comment => comment.documentId === documentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
   }
 
-  async updateUserSettings(agentId: number, settings: Partial<InsertUserSettings>): Promise<UserSettings> {
-    const mockSettings: UserSettings = {
-      id: 1,
-      agentId,
-      defaultProcessingOptions: {},
-      agentProfile: {},
-      exportPreferences: {},
-      uiPreferences: {},
+  async updateReviewComment(documentId: number, commentId: number, updates: Partial<Pick<ReviewComment, 'resolved'>>): Promise<ReviewComment | undefined> {
+    const comment = this.reviewComments.get(commentId);
+    if (!comment || comment.documentId !== documentId) return undefined;
+    const updated = { ...comment, ...updates };
+    this.reviewComments.set(commentId, updated);
+    return updated;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification | undefined> {
+    if (Array.from(this.notifications.values()).some(existing => existing.key === insertNotification.key)) {
+      return undefined;
+    }
+    const id = this.currentNotificationId++;
+    const notification: Notification = {
+      id,
+      agentId: insertNotification.agentId,
+      documentId: insertNotification.documentId ?? null,
+      type: insertNotification.type,
+      key: insertNotification.key,
+      title: insertNotification.title,
+      message: insertNotification.message,
+      link: insertNotification.link ?? null,
+      createdAt: new Date(),
+      readAt: null,
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async listNotifications(agentId: number, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.agentId === agentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async countUnreadNotifications(agentId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.agentId === agentId && !notification.readAt).length;
+  }
+
+  async markNotificationsRead(agentId: number, ids?: number[]): Promise<number> {
+    const unread = Array.from(this.notifications.values())
+      .filter(notification => notification.agentId === agentId && !notification.readAt && (!ids || ids.includes(notification.id)));
+    const readAt = new Date();
+    unread.forEach(notification => this.notifications.set(notification.id, { ...notification, readAt }));
+    return unread.length;
+  }
+
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      id: this.currentAuditEventId++,
+      agencyId: insertEvent.agencyId ?? null,
+      actorId: insertEvent.actorId,
+      actorName: insertEvent.actorName,
+      action: insertEvent.action,
+      documentId: insertEvent.documentId ?? null,
+      documentName: insertEvent.documentName ?? null,
+      beforeHash: insertEvent.beforeHash ?? null,
+      afterHash: insertEvent.afterHash ?? null,
+      details: insertEvent.details ?? {},
+      ipAddress: insertEvent.ipAddress ?? null,
+      createdAt: new Date(),
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async listDocumentAuditEvents(documentId: number): Promise<AuditEvent[]> {
+    return this.auditEvents.filter(event => event.documentId === documentId).reverse();
+  }
+
+  async listAuditEvents(agencyId: number, query: AuditEventQuery, limit?: number): Promise<AuditEvent[]> {
+    const before = query.to ? new Date(query.to.getTime() + 24 * 60 * 60 * 1000) : undefined;
+    const events = this.auditEvents.filter(event =>
+      event.agencyId === agencyId
+      && (!query.actorId || event.actorId === query.actorId)
+      && (!query.documentId || event.documentId === query.documentId)
+      && (!query.action || event.action === query.action)
+      && (!query.from || event.createdAt >= query.from)
+      && (!before || event.createdAt < before)
+    ).reverse();
+    return limit ? events.slice(0, limit) : events;
+  }
+
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const id = this.currentShareLinkId++;
+    const link: ShareLink = {
+      id,
+      documentId: insertLink.documentId,
+      createdBy: insertLink.createdBy,
+      token: insertLink.token,
+      label: insertLink.label ?? null,
+      expiresAt: insertLink.expiresAt,
+      revokedAt: null,
+      viewCount: 0,
+      downloadCount: 0,
+      lastViewedAt: null,
+      createdAt: new Date(),
+    };
+    this.shareLinks.set(id, link);
+    return link;
+  }
+
+  async listShareLinks(documentId: number): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(link => link.documentId === documentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    return Array.from(this.shareLinks.values()).find(link => link.token === token);
+  }
+
+  async revokeShareLink(documentId: number, linkId: number): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.get(linkId);
+    if (!link || link.documentId !== documentId) return undefined;
+    const updated = { ...link, revokedAt: link.revokedAt ?? new Date() };
+    this.shareLinks.set(linkId, updated);
+    return updated;
+  }
+
+  async recordShareLinkAccess(linkId: number, kind: 'view' | 'download'): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.get(linkId);
+    if (!link) return undefined;
+    const updated = kind === 'view'
+      ? { ...link, viewCount: link.viewCount + 1, lastViewedAt: new Date() }
+      : { ...link, downloadCount: link.downloadCount + 1 };
+    this.shareLinks.set(linkId, updated);
+    return updated;
+  }
+
+  async createEmailDelivery(insertDelivery: InsertEmailDelivery): Promise<EmailDelivery> {
+    const id = this.currentEmailDeliveryId++;
+    const delivery: EmailDelivery = {
+      id,
+      documentId: insertDelivery.documentId,
+      agentId: insertDelivery.agentId,
+      recipients: insertDelivery.recipients,
+      cc: insertDelivery.cc ?? [],
+      subject: insertDelivery.subject,
+      method: insertDelivery.method,
+      shareLinkId: insertDelivery.shareLinkId ?? null,
+      status: insertDelivery.status,
+      messageId: insertDelivery.messageId ?? null,
+      error: insertDelivery.error ?? null,
+      createdAt: new Date(),
+    };
+    this.emailDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async listEmailDeliveries(documentId: number): Promise<EmailDelivery[]> {
+    return Array.from(this.emailDeliveries.values())
+      .filter(delivery => delivery.documentId === documentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
+    const id = this.currentJobId++;
+    const job: ProcessingJob = {
+      id,
+      documentId: insertJob.documentId,
+      status: insertJob.status || 'queued',
+      stage: insertJob.stage || 'queued',
+      attempts: insertJob.attempts || 0,
+      maxAttempts: insertJob.maxAttempts || 3,
+      options: insertJob.options || {},
+      filename: insertJob.filename,
+      storageKey: insertJob.storageKey || null,
+      sourceData: insertJob.sourceData || null,
+      lastError: insertJob.lastError || null,
+      cancelRequestedAt: insertJob.cancelRequestedAt || null,
+      runAfter: insertJob.runAfter || new Date(),
+      startedAt: insertJob.startedAt || null,
+      completedAt: insertJob.completedAt || null,
+      createdAt: new Date(),
       updatedAt: new Date(),
     };
-    return mockSettings;
+    this.processingJobs.set(id, job);
+    return job;
+  }
+
+  async getLatestProcessingJob(documentId: number): Promise<ProcessingJob | undefined> {
+    return Array.from(this.processingJobs.values())
+      .filter(job => job.documentId === documentId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async getProcessingJob(id: number): Promise<ProcessingJob | undefined> {
+    return this.processingJobs.get(id);
+  }
+
+  async updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined> {
+    const job = this.processingJobs.get(id);
+    if (!job) return undefined;
+
+    const updated = { ...job, ...updates, updatedAt: new Date() };
+    this.processingJobs.set(id, updated);
+    return updated;
+  }
+
+  async claimNextProcessingJob(): Promise<ProcessingJob | undefined> {
+    const now = Date.now();
+    const next = Array.from(this.processingJobs.values())
+      .filter(job => job.status === 'queued' && job.runAfter.getTime() <= now)
+      .sort((a, b) => a.runAfter.getTime() - b.runAfter.getTime())[0];
+    if (!next) return undefined;
+
+    return this.updateProcessingJob(next.id, {
+      status: 'running',
+      attempts: next.attempts + 1,
+      startedAt: new Date(),
+    });
+  }
+
+  async requeueInterruptedProcessingJobs(staleBefore: Date): Promise<{ requeued: number; failed: ProcessingJob[] }> {
+    const stale = Array.from(this.processingJobs.values())
+      .filter(job => job.status === 'running' && job.updatedAt < staleBefore);
+    let requeued = 0;
+    const failed: ProcessingJob[] = [];
+    for (const job of stale) {
+      if (job.attempts >= job.maxAttempts) {
+        const updated = await this.updateProcessingJob(job.id, { status: 'failed', completedAt: new Date(), sourceData: null });
+        if (updated) failed.push(updated);
+      } else {
+        await this.updateProcessingJob(job.id, { status: 'queued', stage: 'queued', runAfter: new Date() });
+        requeued++;
+      }
+    }
+    return { requeued, failed };
+  }
+
+  async getAverageProcessingDuration(): Promise<number | undefined> {
+    const durations = Array.from(this.processingJobs.values())
+      .filter(job => job.status === 'completed' && job.startedAt && job.completedAt)
+      .map(job => job.completedAt!.getTime() - job.startedAt!.getTime());
+    if (durations.length === 0) return undefined;
+    return durations.reduce((sum, d) => sum + d, 0) / durations.length;
+  }
+
+  async getUserSettings(agentId: number): Promise<UserSettings | undefined> {
+    return this.userSettings.get(agentId);
+  }
+
+  async updateUserSettings(agentId: number, settingsUpdate: Partial<InsertUserSettings>): Promise<UserSettings> {
+    const existing = this.userSettings.get(agentId);
+    if (!existing) {
+      return this.createDefaultSettings(agentId, undefined);
+    }
+
+    const updated: UserSettings = { ...existing, ...settingsUpdate, agentId, updatedAt: new Date() } as UserSettings;
+    this.userSettings.set(agentId, updated);
+    return updated;
   }
 
   async createDefaultSettings(agentId: number, profileData?: Partial<any>): Promise<UserSettings> {
-    const mockSettings: UserSettings = {
-      id: 1,
+    const settings: UserSettings = {
+      id: this.currentSettingsId++,
       agentId,
-      defaultProcessingOptions: {},
+      defaultProcessingOptions: profileData?.defaultProcessingOptions || {},
       agentProfile: profileData?.agentProfile || {},
-      exportPreferences: {},
-      uiPreferences: {},
+      exportPreferences: profileData?.exportPreferences || {},
+      uiPreferences: profileData?.uiPreferences || {},
+      gapAnalysisRules: [],
+      emailTemplate: {},
       updatedAt: new Date(),
     };
-    return mockSettings;
+    this.userSettings.set(agentId, settings);
+    return settings;
   }
 }
 
 import { db } from "./db";
-import { eq, like, desc, and } from "drizzle-orm";
+import { eq, ilike, desc, and, asc, lte, lt, gte, gt, isNotNull, isNull, or, ne, inArray, arrayContains, sql, type Column, type SQL } from "drizzle-orm";
 import crypto from "crypto";
 
 export class DatabaseStorage implements IStorage {
@@ -302,26 +1264,97 @@ export class DatabaseStorage implements IStorage {
     return agent || undefined;
   }
 
-  async createAgent(insertAgent: InsertAgent): Promise<Agent> {
+  async createAgent(insertAgent: InsertAgent & Partial<AgentMembership>): Promise<Agent> {
     const [agent] = await db.insert(agents).values(insertAgent).returning();
     // Skip creating default settings until migration completes
     // await this.createDefaultSettings(agent.id);
     return agent;
   }
 
+  async updateAgent(id: number, updates: Partial<AgentMembership>): Promise<Agent | undefined> {
+    const [updated] = await db.update(agents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(agents.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getAgentByCalendarToken(token: string): Promise<Agent | undefined> {
+    const [agent] = await db.select().from(agents).where(eq(agents.calendarToken, token));
+    return agent || undefined;
+  }
+
+  async setCalendarToken(agentId: number, token: string): Promise<Agent | undefined> {
+    const [updated] = await db.update(agents)
+      .set({ calendarToken: token, updatedAt: new Date() })
+      .where(eq(agents.id, agentId))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Agency owners and admins reach every member's records; everyone else only their own
+  private async accessibleAgentIds(agentId: number): Promise<number[]> {
+    const agent = await this.getAgent(agentId);
+    if (!agent?.agencyId || !AGENCY_MANAGER_ROLES.includes(agent.role)) return [agentId];
+    return (await this.listAgencyMembers(agent.agencyId)).map(member => member.id);
+  }
+
+  // Reviewers also read every member's documents, to find and review them
+  private async reviewableAgentIds(agentId: number): Promise<number[]> {
+    const agent = await this.getAgent(agentId);
+    if (!agent?.agencyId || !AGENCY_REVIEWER_ROLES.includes(agent.role)) return [agentId];
+    return (await this.listAgencyMembers(agent.agencyId)).map(member => member.id);
+  }
+
+  private async ownedBy(column: Column, agentId: number) {
+    return inArray(column, await this.accessibleAgentIds(agentId));
+  }
+
+  // Agency methods
+  async createAgency(insertAgency: InsertAgency): Promise<Agency> {
+    const [agency] = await db.insert(agencies).values(insertAgency).returning();
+    return agency;
+  }
+
+  async getAgency(id: number): Promise<Agency | undefined> {
+    const [agency] = await db.select().from(agencies).where(eq(agencies.id, id));
+    return agency || undefined;
+  }
+
+  async updateAgency(id: number, updates: Partial<InsertAgency>): Promise<Agency | undefined> {
+    const [updated] = await db.update(agencies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(agencies.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async listAgencyMembers(agencyId: number): Promise<Agent[]> {
+    return await db.select()
+      .from(agents)
+      .where(eq(agents.agencyId, agencyId))
+      .orderBy(asc(agents.fullName));
+  }
+
+  async listAgencyDocuments(agencyId: number): Promise<PolicyDocument[]> {
+    const memberIds = db.select({ id: agents.id }).from(agents).where(eq(agents.agencyId, agencyId));
+    return await db.select()
+      .from(policyDocuments)
+      .where(inArray(policyDocuments.agentId, memberIds))
+      .orderBy(desc(policyDocuments.uploadedAt));
+  }
+
   // Policy document methods
   async createPolicyDocument(insertDocument: InsertPolicyDocument): Promise<PolicyDocument> {
-    const [document] = await db.insert(policyDocuments).values(insertDocument).returning();
+    const [document] = await db.insert(policyDocuments).values(withStructuredSummary(insertDocument)).returning();
     return document;
   }
 
   async getPolicyDocument(id: number, agentId?: number): Promise<PolicyDocument | undefined> {
-    let query = db.select().from(policyDocuments).where(eq(policyDocuments.id, id));
-    
     // If agent ID is provided, first verify ownership
     if (agentId) {
       const [document] = await db.select().from(policyDocuments)
-        .where(and(eq(policyDocuments.id, id), eq(policyDocuments.agentId, agentId)));
+        .where(and(eq(policyDocuments.id, id), await this.ownedBy(policyDocuments.agentId, agentId)));
       
       if (document) {
         // Update last viewed time
@@ -332,13 +1365,16 @@ export class DatabaseStorage implements IStorage {
       return document || undefined;
     }
     
-    const [document] = await query;
-    if (document) {
-      // Update last viewed time
-      await db.update(policyDocuments)
-        .set({ lastViewedAt: new Date() })
-        .where(eq(policyDocuments.id, id));
-    }
+    // Unscoped reads come from the worker and public share links, not an agent viewing it
+    const [document] = await db.select().from(policyDocuments).where(eq(policyDocuments.id, id));
+    return document || undefined;
+  }
+
+  async getReviewablePolicyDocument(id: number, agentId: number): Promise<PolicyDocument | undefined> {
+    const [document] = await db.update(policyDocuments)
+      .set({ lastViewedAt: new Date() })
+      .where(and(eq(policyDocuments.id, id), inArray(policyDocuments.agentId, await this.reviewableAgentIds(agentId))))
+      .returning();
     return document || undefined;
   }
 
@@ -347,13 +1383,13 @@ export class DatabaseStorage implements IStorage {
     
     // If agent ID is provided, verify ownership
     if (agentId) {
-      whereCondition = and(eq(policyDocuments.id, id), eq(policyDocuments.agentId, agentId));
+      whereCondition = and(eq(policyDocuments.id, id), await this.ownedBy(policyDocuments.agentId, agentId));
     } else {
       whereCondition = eq(policyDocuments.id, id);
     }
     
     const [updated] = await db.update(policyDocuments)
-      .set(updates)
+      .set(withStructuredSummary(updates))
       .where(whereCondition)
       .returning();
     return updated || undefined;
@@ -362,7 +1398,7 @@ export class DatabaseStorage implements IStorage {
   async listPolicyDocuments(agentId?: number): Promise<PolicyDocument[]> {
     const query = db.select().from(policyDocuments).orderBy(desc(policyDocuments.uploadedAt));
     if (agentId) {
-      return await query.where(eq(policyDocuments.agentId, agentId));
+      return await query.where(await this.ownedBy(policyDocuments.agentId, agentId));
     }
     return await query;
   }
@@ -372,61 +1408,387 @@ export class DatabaseStorage implements IStorage {
     
     // If agent ID is provided, verify ownership
     if (agentId) {
-      whereCondition = and(eq(policyDocuments.id, id), eq(policyDocuments.agentId, agentId));
+      whereCondition = and(eq(policyDocuments.id, id), await this.ownedBy(policyDocuments.agentId, agentId));
     } else {
       whereCondition = eq(policyDocuments.id, id);
     }
     
-    // Delete summary history first
+    const [document] = await db.select({ id: policyDocuments.id }).from(policyDocuments).where(whereCondition);
+    if (!document) return false;
+
+    // Delete summary history, review comments, document text, notifications, email deliveries, share links and processing jobs first
     await db.delete(summaryHistory).where(eq(summaryHistory.documentId, id));
+    await db.delete(reviewComments).where(eq(reviewComments.documentId, id));
+    await db.delete(documentTexts).where(eq(documentTexts.documentId, id));
+    await db.delete(notifications).where(eq(notifications.documentId, id));
+    await db.delete(emailDeliveries).where(eq(emailDeliveries.documentId, id));
+    await db.delete(shareLinks).where(eq(shareLinks.documentId, id));
+    await db.delete(processingJobs).where(eq(processingJobs.documentId, id));
     // Then delete document
     const result = await db.delete(policyDocuments).where(whereCondition);
     return (result.rowCount || 0) > 0;
   }
 
-  async toggleFavorite(id: number): Promise<PolicyDocument | undefined> {
-    const document = await this.getPolicyDocument(id);
-    if (!document) return undefined;
-    
+  async toggleFavorite(id: number, agentId?: number): Promise<PolicyDocument | undefined> {
     const [updated] = await db.update(policyDocuments)
-      .set({ isFavorite: !document.isFavorite })
-      .where(eq(policyDocuments.id, id))
+      .set({ isFavorite: sql`not ${policyDocuments.isFavorite}` })
+      .where(agentId ? and(eq(policyDocuments.id, id), await this.ownedBy(policyDocuments.agentId, agentId)) : eq(policyDocuments.id, id))
       .returning();
     return updated || undefined;
   }
 
-  async updateTags(id: number, tags: string[]): Promise<PolicyDocument | undefined> {
+  async updateTags(id: number, tags: string[], agentId?: number): Promise<PolicyDocument | undefined> {
     const [updated] = await db.update(policyDocuments)
       .set({ tags })
-      .where(eq(policyDocuments.id, id))
+      .where(agentId ? and(eq(policyDocuments.id, id), await this.ownedBy(policyDocuments.agentId, agentId)) : eq(policyDocuments.id, id))
       .returning();
     return updated || undefined;
   }
 
-  async searchDocuments(query: string, agentId?: number): Promise<PolicyDocument[]> {
-    const searchConditions = [
-      like(policyDocuments.originalName, `%${query}%`),
-    ];
-    
-    if (agentId) {
-      searchConditions.push(eq(policyDocuments.agentId, agentId));
+  async searchDocuments(query: DocumentSearchQuery, agentId: number): Promise<DocumentSearchResult> {
+    const insurer = sql<string>`${policyDocuments.extractedData}->>'insurer'`;
+    const conditions: (SQL | undefined)[] = [inArray(policyDocuments.agentId, await this.reviewableAgentIds(agentId))];
+    let rank: SQL<number> | undefined;
+
+    if (query.q) {
+      const tsQuery = sql`websearch_to_tsquery('english', ${query.q})`;
+      const textVector = sql`(select ${documentTexts.searchVector} from ${documentTexts} where ${documentTexts.documentId} = ${policyDocuments.id})`;
+      conditions.push(or(
+        sql`${policyDocuments.searchVector} @@ ${tsQuery}`,
+        sql`${textVector} @@ ${tsQuery}`,
+        // Partly typed file names still match while the agent types
+        ilike(policyDocuments.originalName, `%${query.q.replace(/[\\%_]/g, '\\$&')}%`),
+      ));
+      rank = sql<number>`ts_rank_cd(${policyDocuments.searchVector}, ${tsQuery}) + coalesce(ts_rank_cd(${textVector}, ${tsQuery}), 0)`;
     }
+    if (query.tags?.length) conditions.push(arrayContains(policyDocuments.tags, query.tags));
+    if (query.favorite !== undefined) conditions.push(eq(policyDocuments.isFavorite, query.favorite));
+    if (query.clientId) conditions.push(eq(policyDocuments.clientId, query.clientId));
+    if (query.insurer) conditions.push(eq(insurer, query.insurer));
+    if (query.expiresFrom) conditions.push(gte(policyDocuments.expirationDate, query.expiresFrom));
+    if (query.expiresTo) conditions.push(lte(policyDocuments.expirationDate, query.expiresTo));
+    if (query.exportStatus) {
+      conditions.push(query.exportStatus === 'exported' ? gt(policyDocuments.pdfExportCount, 0) : eq(policyDocuments.pdfExportCount, 0));
+    }
+    if (query.processed !== undefined) conditions.push(eq(policyDocuments.processed, query.processed));
+    const where = and(...conditions);
+
+    const sort = query.sort ?? (rank ? 'relevance' : 'uploadedAt');
+    const orderBy: Record<string, SQL[]> = {
+      relevance: rank ? [desc(rank), desc(policyDocuments.uploadedAt)] : [desc(policyDocuments.uploadedAt)],
+      uploadedAt: [desc(policyDocuments.uploadedAt)],
+      lastViewed: [sql`${policyDocuments.lastViewedAt} desc nulls last`],
+      name: [asc(policyDocuments.originalName)],
+      size: [desc(policyDocuments.fileSize)],
+      expirationDate: [sql`${policyDocuments.expirationDate} asc nulls last`],
+    };
+
+    const [documents, [{ total }], facets] = await Promise.all([
+      db.select().from(policyDocuments)
+        .where(where)
+        .orderBy(...orderBy[sort], desc(policyDocuments.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(policyDocuments).where(where),
+      this.searchFacets(where, insurer),
+    ]);
+    return { documents, total, page: query.page, pageSize: query.pageSize, facets };
+  }
+
+  async saveDocumentText(documentId: number, text: string): Promise<void> {
+    await db.insert(documentTexts)
+      .values({ documentId, text })
+      .onConflictDoUpdate({ target: documentTexts.documentId, set: { text, updatedAt: new Date() } });
+  }
+
+  async listExpiringDocuments(from: Date, to: Date | null, agentId?: number): Promise<PolicyDocument[]> {
+    return await db.select()
+      .from(policyDocuments)
+      .where(and(
+        eq(policyDocuments.processed, true),
+        gte(policyDocuments.expirationDate, from),
+        to ? lte(policyDocuments.expirationDate, to) : undefined,
+        agentId !== undefined ? eq(policyDocuments.agentId, agentId) : undefined,
+      ))
+      .orderBy(asc(policyDocuments.expirationDate), asc(policyDocuments.id));
+  }
 
+  async listDocumentsMissingPolicyDates(): Promise<PolicyDocument[]> {
     return await db.select()
       .from(policyDocuments)
-      .where(and(...searchConditions))
+      .where(and(
+        eq(policyDocuments.processed, true),
+        isNotNull(policyDocuments.extractedData),
+        isNull(policyDocuments.effectiveDate),
+        isNull(policyDocuments.expirationDate),
+      ));
+  }
+
+  private async searchFacets(where: SQL | undefined, insurer: SQL<string>): Promise<DocumentSearchFacets> {
+    const count = sql<number>`count(*)::int`;
+    const documentTags = db.select({ tag: sql<string>`unnest(${policyDocuments.tags})`.as('tag') })
+      .from(policyDocuments)
+      .where(where)
+      .as('document_tags');
+
+    const [tags, insurers, clientCounts, [totals]] = await Promise.all([
+      db.select({ value: documentTags.tag, count })
+        .from(documentTags)
+        .groupBy(documentTags.tag)
+        .orderBy(desc(count), asc(documentTags.tag))
+        .limit(SEARCH_FACET_LIMIT),
+      db.select({ value: insurer, count })
+        .from(policyDocuments)
+        .where(and(where, isNotNull(insurer), ne(insurer, '')))
+        .groupBy(insurer)
+        .orderBy(desc(count), asc(insurer))
+        .limit(SEARCH_FACET_LIMIT),
+      db.select({ value: clients.id, label: clients.name, count })
+        .from(policyDocuments)
+        .innerJoin(clients, eq(policyDocuments.clientId, clients.id))
+        .where(where)
+        .groupBy(clients.id, clients.name)
+        .orderBy(desc(count), asc(clients.name))
+        .limit(SEARCH_FACET_LIMIT),
+      db.select({
+        favorites: sql<number>`count(*) filter (where ${policyDocuments.isFavorite})::int`,
+        exported: sql<number>`count(*) filter (where ${policyDocuments.pdfExportCount} > 0)::int`,
+        notExported: sql<number>`count(*) filter (where ${policyDocuments.pdfExportCount} = 0)::int`,
+        earliest: sql<Date | null>`min(${policyDocuments.expirationDate})`.mapWith(policyDocuments.expirationDate),
+        latest: sql<Date | null>`max(${policyDocuments.expirationDate})`.mapWith(policyDocuments.expirationDate),
+      }).from(policyDocuments).where(where),
+    ]);
+
+    return {
+      tags: tags.map(row => ({ ...row, label: row.value })),
+      insurers: insurers.map(row => ({ ...row, label: row.value })),
+      clients: clientCounts,
+      favorites: totals.favorites,
+      exportStatus: { exported: totals.exported, notExported: totals.notExported },
+      expiration: {
+        earliest: totals.earliest?.toISOString() ?? null,
+        latest: totals.latest?.toISOString() ?? null,
+      },
+    };
+  }
+
+  // Upload batch methods
+  async createUploadBatch(insertBatch: InsertUploadBatch): Promise<UploadBatch> {
+    const [batch] = await db.insert(uploadBatches).values(insertBatch).returning();
+    return batch;
+  }
+
+  async getUploadBatch(id: number, agentId?: number): Promise<UploadBatch | undefined> {
+    const condition = agentId
+      ? and(eq(uploadBatches.id, id), await this.ownedBy(uploadBatches.agentId, agentId))
+      : eq(uploadBatches.id, id);
+    const [batch] = await db.select().from(uploadBatches).where(condition);
+    return batch || undefined;
+  }
+
+  async updateUploadBatch(id: number, updates: Partial<UploadBatch>): Promise<UploadBatch | undefined> {
+    const [updated] = await db.update(uploadBatches)
+      .set(updates)
+      .where(eq(uploadBatches.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async listUploadBatches(agentId: number): Promise<UploadBatch[]> {
+    return await db.select()
+      .from(uploadBatches)
+      .where(eq(uploadBatches.agentId, agentId))
+      .orderBy(desc(uploadBatches.createdAt));
+  }
+
+  async listBatchDocuments(batchId: number): Promise<PolicyDocument[]> {
+    return await db.select()
+      .from(policyDocuments)
+      .where(eq(policyDocuments.batchId, batchId))
+      .orderBy(asc(policyDocuments.id));
+  }
+
+  // Client methods
+  async createClient(insertClient: InsertClient): Promise<Client> {
+    const [client] = await db.insert(clients).values(insertClient).returning();
+    return client;
+  }
+
+  async getClient(id: number, agentId?: number): Promise<Client | undefined> {
+    const condition = agentId
+      ? and(eq(clients.id, id), await this.ownedBy(clients.agentId, agentId))
+      : eq(clients.id, id);
+    const [client] = await db.select().from(clients).where(condition);
+    return client || undefined;
+  }
+
+  async updateClient(id: number, updates: Partial<InsertClient>, agentId?: number): Promise<Client | undefined> {
+    const condition = agentId
+      ? and(eq(clients.id, id), await this.ownedBy(clients.agentId, agentId))
+      : eq(clients.id, id);
+    const { agentId: _ignored, ...changes } = updates;
+    const [updated] = await db.update(clients)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(condition)
+      .returning();
+    return updated || undefined;
+  }
+
+  async listClients(agentId: number): Promise<Client[]> {
+    return await db.select()
+      .from(clients)
+      .where(await this.ownedBy(clients.agentId, agentId))
+      .orderBy(asc(clients.name));
+  }
+
+  async deleteClient(id: number, agentId?: number): Promise<boolean> {
+    const client = await this.getClient(id, agentId);
+    if (!client) return false;
+
+    // Keep the policies; just unlink them
+    await db.update(policyDocuments)
+      .set({ clientId: null })
+      .where(eq(policyDocuments.clientId, id));
+    const result = await db.delete(clients).where(eq(clients.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async listClientDocuments(clientId: number): Promise<PolicyDocument[]> {
+    return await db.select()
+      .from(policyDocuments)
+      .where(eq(policyDocuments.clientId, clientId))
       .orderBy(desc(policyDocuments.uploadedAt));
   }
 
+  // Custom PDF template methods
+  async createPdfTemplate(insertTemplate: InsertPdfTemplate): Promise<PdfTemplate> {
+    const [template] = await db.insert(pdfTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async getPdfTemplate(id: number, agentId?: number): Promise<PdfTemplate | undefined> {
+    const condition = agentId
+      ? and(eq(pdfTemplates.id, id), inArray(pdfTemplates.agentId, await this.agencyMemberIds(agentId)))
+      : eq(pdfTemplates.id, id);
+    const [template] = await db.select().from(pdfTemplates).where(condition);
+    return template || undefined;
+  }
+
+  async updatePdfTemplate(id: number, updates: Partial<InsertPdfTemplate>, agentId?: number): Promise<PdfTemplate | undefined> {
+    const condition = agentId
+      ? and(eq(pdfTemplates.id, id), await this.ownedBy(pdfTemplates.agentId, agentId))
+      : eq(pdfTemplates.id, id);
+    const { agentId: _ignored, ...changes } = updates;
+    const [updated] = await db.update(pdfTemplates)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(condition)
+      .returning();
+    return updated || undefined;
+  }
+
+  async listPdfTemplates(agentId: number): Promise<PdfTemplate[]> {
+    return await db.select()
+      .from(pdfTemplates)
+      .where(inArray(pdfTemplates.agentId, await this.agencyMemberIds(agentId)))
+      .orderBy(asc(pdfTemplates.name));
+  }
+
+  async deletePdfTemplate(id: number, agentId?: number): Promise<boolean> {
+    const condition = agentId
+      ? and(eq(pdfTemplates.id, id), await this.ownedBy(pdfTemplates.agentId, agentId))
+      : eq(pdfTemplates.id, id);
+    const result = await db.delete(pdfTemplates).where(condition);
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Processing preset methods
+  async createProcessingPreset(insertPreset: InsertProcessingPreset): Promise<ProcessingPreset> {
+    if (insertPreset.isDefault) {
+      await db.update(processingPresets)
+        .set({ isDefault: false })
+        .where(eq(processingPresets.agentId, insertPreset.agentId));
+    }
+    const [preset] = await db.insert(processingPresets).values(insertPreset).returning();
+    return preset;
+  }
+
+  // Agents a preset or template owner shares with: the owner's agency, or just the owner without one
+  private async agencyMemberIds(agentId: number): Promise<number[]> {
+    const agent = await this.getAgent(agentId);
+    if (!agent?.agencyId) return [agentId];
+    return (await this.listAgencyMembers(agent.agencyId)).map(member => member.id);
+  }
+
+  async getProcessingPreset(id: number, agentId?: number): Promise<ProcessingPreset | undefined> {
+    const [preset] = await db.select().from(processingPresets).where(eq(processingPresets.id, id));
+    if (!preset || !agentId) return preset || undefined;
+
+    const sharedWith = preset.shared ? await this.agencyMemberIds(preset.agentId) : [];
+    const visible = sharedWith.includes(agentId) || (await this.accessibleAgentIds(agentId)).includes(preset.agentId);
+    return visible ? preset : undefined;
+  }
+
+  async updateProcessingPreset(id: number, updates: Partial<InsertProcessingPreset>, agentId: number): Promise<ProcessingPreset | undefined> {
+    const [preset] = await db.select()
+      .from(processingPresets)
+      .where(and(eq(processingPresets.id, id), await this.ownedBy(processingPresets.agentId, agentId)));
+    if (!preset) return undefined;
+
+    const { agentId: _ignored, ...changes } = updates;
+    if (changes.isDefault) {
+      await db.update(processingPresets)
+        .set({ isDefault: false })
+        .where(and(eq(processingPresets.agentId, preset.agentId), ne(processingPresets.id, id)));
+    }
+    const [updated] = await db.update(processingPresets)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(processingPresets.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async listProcessingPresets(agentId: number): Promise<ProcessingPreset[]> {
+    const memberIds = await this.agencyMemberIds(agentId);
+    return await db.select()
+      .from(processingPresets)
+      .where(or(
+        eq(processingPresets.agentId, agentId),
+        and(eq(processingPresets.shared, true), inArray(processingPresets.agentId, memberIds))
+      ))
+      .orderBy(asc(processingPresets.name));
+  }
+
+  async getDefaultProcessingPreset(agentId: number): Promise<ProcessingPreset | undefined> {
+    const [preset] = await db.select()
+      .from(processingPresets)
+      .where(and(eq(processingPresets.agentId, agentId), eq(processingPresets.isDefault, true)));
+    return preset || undefined;
+  }
+
+  async deleteProcessingPreset(id: number, agentId: number): Promise<boolean> {
+    const preset = await this.getProcessingPreset(id);
+    if (!preset || !(await this.accessibleAgentIds(agentId)).includes(preset.agentId)) return false;
+
+    // Documents keep the options they were processed with
+    await db.update(policyDocuments)
+      .set({ presetId: null })
+      .where(eq(policyDocuments.presetId, id));
+    const result = await db.delete(processingPresets).where(eq(processingPresets.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
   // Summary history methods
   async createSummaryVersion(summaryData: InsertSummaryHistory): Promise<SummaryHistory> {
-    // Deactivate current active summary
-    await db.update(summaryHistory)
-      .set({ isActive: false })
-      .where(and(
-        eq(summaryHistory.documentId, summaryData.documentId),
-        eq(summaryHistory.isActive, true)
-      ));
+    // Deactivate current active summary; translations are added alongside it
+    const isActive = summaryData.isActive ?? true;
+    if (isActive) {
+      await db.update(summaryHistory)
+        .set({ isActive: false })
+        .where(and(
+          eq(summaryHistory.documentId, summaryData.documentId),
+          eq(summaryHistory.isActive, true)
+        ));
+    }
 
     // Get next version number
     const existingVersions = await db.select()
@@ -438,9 +1800,9 @@ export class DatabaseStorage implements IStorage {
 
     const [summary] = await db.insert(summaryHistory)
       .values({
-        ...summaryData,
+        ...withStructuredSummary(summaryData),
         version: nextVersion,
-        isActive: true,
+        isActive,
       })
       .returning();
     
@@ -464,23 +1826,238 @@ export class DatabaseStorage implements IStorage {
     return summary || undefined;
   }
 
-  async setActiveSummary(documentId: number, versionId: number): Promise<boolean> {
-    // Deactivate all summaries for this document
-    await db.update(summaryHistory)
-      .set({ isActive: false })
-      .where(eq(summaryHistory.documentId, documentId));
+  async getSummaryVersion(documentId: number, versionId: number): Promise<SummaryHistory | undefined> {
+    const [version] = await db.select()
+      .from(summaryHistory)
+      .where(and(
+        eq(summaryHistory.id, versionId),
+        eq(summaryHistory.documentId, documentId)
+      ));
+    return version || undefined;
+  }
 
-    // Activate the selected summary
-    const result = await db.update(summaryHistory)
-      .set({ isActive: true })
-      .where(eq(summaryHistory.id, versionId));
-    
+  async deleteSummaryVersion(documentId: number, versionId: number): Promise<boolean> {
+    const result = await db.delete(summaryHistory).where(and(
+      eq(summaryHistory.id, versionId),
+      eq(summaryHistory.documentId, documentId)
+    ));
     return (result.rowCount || 0) > 0;
   }
 
-  async deleteSummaryVersion(versionId: number): Promise<boolean> {
-    const result = await db.delete(summaryHistory).where(eq(summaryHistory.id, versionId));
-    return (result.rowCount || 0) > 0;
+  // Review comment methods
+  async createReviewComment(insertComment: InsertReviewComment): Promise<ReviewComment> {
+    const [comment] = await db.insert(reviewComments).values(insertComment).returning();
+    return comment;
+  }
+
+  async listReviewComments(documentId: number): Promise<ReviewComment[]> {
+    return await db.select()
+      .from(reviewComments)
+      .where(eq(reviewComments.documentId, documentId))
+      .orderBy(asc(reviewComments.createdAt), asc(reviewComments.id));
+  }
+
+  async updateReviewComment(documentId: number, commentId: number, updates: Partial<Pick<ReviewComment, 'resolved'>>): Promise<ReviewComment | undefined> {
+    const [comment] = await db.update(reviewComments)
+      .set(updates)
+      .where(and(eq(reviewComments.id, commentId), eq(reviewComments.documentId, documentId)))
+      .returning();
+    return comment || undefined;
+  }
+
+  // Notification methods
+  async createNotification(insertNotification: InsertNotification): Promise<Notification | undefined> {
+    const [notification] = await db.insert(notifications)
+      .values(insertNotification)
+      .onConflictDoNothing({ target: notifications.key })
+      .returning();
+    return notification || undefined;
+  }
+
+  async listNotifications(agentId: number, limit: number): Promise<Notification[]> {
+    return await db.select()
+      .from(notifications)
+      .where(eq(notifications.agentId, agentId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(agentId: number): Promise<number> {
+    const [{ unread }] = await db.select({ unread: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.agentId, agentId), isNull(notifications.readAt)));
+    return unread;
+  }
+
+  async markNotificationsRead(agentId: number, ids?: number[]): Promise<number> {
+    const result = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.agentId, agentId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ));
+    return result.rowCount || 0;
+  }
+
+  // Audit trail methods
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await db.insert(auditEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async listDocumentAuditEvents(documentId: number): Promise<AuditEvent[]> {
+    return await db.select()
+      .from(auditEvents)
+      .where(eq(auditEvents.documentId, documentId))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id));
+  }
+
+  async listAuditEvents(agencyId: number, query: AuditEventQuery, limit?: number): Promise<AuditEvent[]> {
+    const events = db.select()
+      .from(auditEvents)
+      .where(and(
+        eq(auditEvents.agencyId, agencyId),
+        query.actorId ? eq(auditEvents.actorId, query.actorId) : undefined,
+        query.documentId ? eq(auditEvents.documentId, query.documentId) : undefined,
+        query.action ? eq(auditEvents.action, query.action) : undefined,
+        query.from ? gte(auditEvents.createdAt, query.from) : undefined,
+        query.to ? lt(auditEvents.createdAt, new Date(query.to.getTime() + 24 * 60 * 60 * 1000)) : undefined,
+      ))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id));
+    return limit ? await events.limit(limit) : await events;
+  }
+
+  // Share link methods
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const [link] = await db.insert(shareLinks).values(insertLink).returning();
+    return link;
+  }
+
+  async listShareLinks(documentId: number): Promise<ShareLink[]> {
+    return await db.select()
+      .from(shareLinks)
+      .where(eq(shareLinks.documentId, documentId))
+      .orderBy(desc(shareLinks.createdAt), desc(shareLinks.id));
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link || undefined;
+  }
+
+  async revokeShareLink(documentId: number, linkId: number): Promise<ShareLink | undefined> {
+    const [link] = await db.update(shareLinks)
+      .set({ revokedAt: sql`coalesce(${shareLinks.revokedAt}, now())` })
+      .where(and(eq(shareLinks.id, linkId), eq(shareLinks.documentId, documentId)))
+      .returning();
+    return link || undefined;
+  }
+
+  async recordShareLinkAccess(linkId: number, kind: 'view' | 'download'): Promise<ShareLink | undefined> {
+    const [link] = await db.update(shareLinks)
+      .set(kind === 'view'
+        ? { viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() }
+        : { downloadCount: sql`${shareLinks.downloadCount} + 1` })
+      .where(eq(shareLinks.id, linkId))
+      .returning();
+    return link || undefined;
+  }
+
+  // Email delivery methods
+  async createEmailDelivery(insertDelivery: InsertEmailDelivery): Promise<EmailDelivery> {
+    const [delivery] = await db.insert(emailDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async listEmailDeliveries(documentId: number): Promise<EmailDelivery[]> {
+    return await db.select()
+      .from(emailDeliveries)
+      .where(eq(emailDeliveries.documentId, documentId))
+      .orderBy(desc(emailDeliveries.createdAt), desc(emailDeliveries.id));
+  }
+
+  // Processing job methods
+  async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
+    const [job] = await db.insert(processingJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getLatestProcessingJob(documentId: number): Promise<ProcessingJob | undefined> {
+    const [job] = await db.select()
+      .from(processingJobs)
+      .where(eq(processingJobs.documentId, documentId))
+      .orderBy(desc(processingJobs.id))
+      .limit(1);
+    return job || undefined;
+  }
+
+  async getProcessingJob(id: number): Promise<ProcessingJob | undefined> {
+    const [job] = await db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job || undefined;
+  }
+
+  async updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined> {
+    const [updated] = await db.update(processingJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async claimNextProcessingJob(): Promise<ProcessingJob | undefined> {
+    const [next] = await db.select()
+      .from(processingJobs)
+      .where(and(
+        eq(processingJobs.status, 'queued'),
+        lte(processingJobs.runAfter, new Date())
+      ))
+      .orderBy(asc(processingJobs.runAfter))
+      .limit(1);
+    if (!next) return undefined;
+
+    // Only claim if the row is still queued, so two workers never run the same job
+    const [claimed] = await db.update(processingJobs)
+      .set({
+        status: 'running',
+        attempts: next.attempts + 1,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(processingJobs.id, next.id), eq(processingJobs.status, 'queued')))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async requeueInterruptedProcessingJobs(staleBefore: Date): Promise<{ requeued: number; failed: ProcessingJob[] }> {
+    // Live workers keep touching updatedAt, so only abandoned rows match
+    const stale = and(eq(processingJobs.status, 'running'), lt(processingJobs.updatedAt, staleBefore));
+
+    const failed = await db.update(processingJobs)
+      .set({ status: 'failed', completedAt: new Date(), sourceData: null, updatedAt: new Date() })
+      .where(and(stale, gte(processingJobs.attempts, processingJobs.maxAttempts)))
+      .returning();
+    const result = await db.update(processingJobs)
+      .set({ status: 'queued', stage: 'queued', runAfter: new Date(), updatedAt: new Date() })
+      .where(and(stale, lt(processingJobs.attempts, processingJobs.maxAttempts)));
+    return { requeued: result.rowCount || 0, failed };
+  }
+
+  async getAverageProcessingDuration(): Promise<number | undefined> {
+    const recent = await db.select({
+      startedAt: processingJobs.startedAt,
+      completedAt: processingJobs.completedAt,
+    })
+      .from(processingJobs)
+      .where(and(eq(processingJobs.status, 'completed'), isNotNull(processingJobs.startedAt)))
+      .orderBy(desc(processingJobs.completedAt))
+      .limit(20);
+
+    const durations = recent
+      .filter(job => job.startedAt && job.completedAt)
+      .map(job => job.completedAt!.getTime() - job.startedAt!.getTime());
+    if (durations.length === 0) return undefined;
+    return durations.reduce((sum, d) => sum + d, 0) / durations.length;
   }
 
   // Settings methods
@@ -517,6 +2094,9 @@ export class DatabaseStorage implements IStorage {
       if (profileData.uiPreferences) {
         insertData.uiPreferences = profileData.uiPreferences;
       }
+      if (profileData.defaultProcessingOptions) {
+        insertData.defaultProcessingOptions = profileData.defaultProcessingOptions;
+      }
     }
     
     const [settings] = await db.insert(userSettings)
@@ -0,0 +1,57 @@
+import express from "express";
+import session from "express-session";
+import request from "supertest";
+import { registerRoutes } from "../routes";
+import { storage } from "../storage";
+import type { PolicyDocument } from "@shared/schema";
+
+// The API as server/index.ts mounts it, with the same in-memory session store
+export async function createTestApp() {
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+  app.use(session({ secret: "test", resave: false, saveUninitialized: false }));
+  await registerRoutes(app);
+  return app;
+}
+
+// A supertest agent holding the session cookie of a newly registered agent
+export async function signUp(app: express.Express, username: string) {
+  const client = request.agent(app);
+  const response = await client.post("/api/auth/register").send({
+    username,
+    password: "password123",
+    fullName: `${username} Agent`,
+    email: `${username}@example.com`,
+  });
+  if (response.status !== 201) {
+    throw new Error(`Registration of ${username} failed: ${response.status} ${JSON.stringify(response.body)}`);
+  }
+  return { client, agentId: response.body.agent.id as number };
+}
+
+// A processed document owned by `agentId`, as the job queue leaves it
+export async function createProcessedDocument(agentId: number, summary = "[Your Coverage]\nLiability up to $1,000,000.\n• Deductible: $500"): Promise<PolicyDocument> {
+  const document = await storage.createPolicyDocument({
+    agentId,
+    filename: "policy.pdf",
+    originalName: "policy.pdf",
+    fileSize: 1024,
+    fileType: "application/pdf",
+  });
+  const updated = await storage.updatePolicyDocument(document.id, {
+    processed: true,
+    summary,
+    extractedData: {
+      policyType: "General Liability",
+      insurer: "ACME Insurance",
+      policyNumber: "BP 0123456",
+      coverageDetails: [{ type: "General liability", limit: "$1,000,000", deductible: "$500", description: "Bodily injury and property damage" }],
+      exclusions: [],
+      keyBenefits: [],
+      importantContacts: [],
+      whyItMatters: "Protects the business from liability claims",
+    },
+  });
+  await storage.createSummaryVersion({ documentId: document.id, version: 1, summary, processingOptions: {}, source: "processing" });
+  return updated!;
+}
@@ -0,0 +1,10 @@
+import { vi } from "vitest";
+
+// Tests run against the in-memory storage; nothing connects to Postgres
+vi.mock("../db", () => ({ db: {}, pool: {} }));
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  return { ...actual, storage: new actual.MemStorage() };
+});
+
+process.env.LLM_PROVIDER = "offline";
@@ -1,7 +1,13 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 // Keep existing users table structure (from Replit auth)
 export const users = pgTable("users", {
@@ -14,6 +20,35 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const AGENCY_ROLES = ["owner", "admin", "reviewer", "producer", "csr"] as const;
+export type AgencyRole = typeof AGENCY_ROLES[number];
+
+// Owners and admins manage the agency and can see and reassign every member's records;
+// producers and CSRs work with their own
+export const AGENCY_MANAGER_ROLES: readonly AgencyRole[] = ["owner", "admin"];
+
+// Roles that may approve or reject summaries in review. They can find, read and
+// comment on every member's documents, but only managers change, share or reassign them.
+export const AGENCY_REVIEWER_ROLES: readonly AgencyRole[] = ["owner", "admin", "reviewer"];
+
+// An agency (firm) whose agents share branding and default processing options
+export const agencies = pgTable("agencies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  branding: jsonb("branding").default({
+    firmName: "",
+    firmAddress: "",
+    firmPhone: "",
+    firmWebsite: ""
+  }).notNull(),
+  // Partial ProcessingOptions applied beneath each agent's own defaults
+  defaultProcessingOptions: jsonb("default_processing_options").default({}).notNull(),
+  // Refuse client-facing PDF exports of summaries that have not been approved
+  requireApprovalForExport: boolean("require_approval_for_export").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // New simple authentication table for agents
 export const agents = pgTable("agents", {
   id: serial("id").primaryKey(),
@@ -21,10 +56,69 @@ export const agents = pgTable("agents", {
   password: text("password").notNull(),
   fullName: text("full_name").notNull(),
   email: text("email").notNull(),
+  agencyId: integer("agency_id").references(() => agencies.id),
+  role: text("role").$type<AgencyRole>().default("producer").notNull(),
+  calendarToken: text("calendar_token").unique(), // secret in the agent's renewals .ics feed URL
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A multi-file or ZIP upload; each file becomes its own policy document
+export const uploadBatches = pgTable("upload_batches", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  name: text("name").notNull(),
+  totalDocuments: integer("total_documents").default(0).notNull(),
+  skippedFiles: text("skipped_files").array().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A client (insured) of an agent; policy documents link to it by clientId
+export const clients = pgTable("clients", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  email: text("email"),
+  phone: text("phone"),
+  address: text("address"),
+  businessType: text("business_type"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// An agent-uploaded PDF export layout; rendered by server/services/pdfTemplates/custom.ts
+export const pdfTemplates = pgTable("pdf_templates", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  html: text("html").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Named processing options an agent can pick at upload time. Shared presets are
+// visible to every agent; an agent's isDefault preset applies when none is picked.
+export const processingPresets = pgTable("processing_presets", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  options: jsonb("options").notNull(), // full ProcessingOptions
+  pdfTemplate: text("pdf_template"), // export layout for documents processed with this preset
+  shared: boolean("shared").default(false).notNull(),
+  isDefault: boolean("is_default").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Where a summary is in the review workflow. Changing an approved summary sends it back
+// to draft; a client-facing export of an approved summary marks it delivered.
+export const REVIEW_STATUSES = ["draft", "in_review", "changes_requested", "approved", "delivered"] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
 export const policyDocuments = pgTable("policy_documents", {
   id: serial("id").primaryKey(),
   agentId: integer("agent_id").references(() => agents.id),
@@ -32,31 +126,258 @@ export const policyDocuments = pgTable("policy_documents", {
   originalName: text("original_name").notNull(),
   fileSize: integer("file_size").notNull(),
   fileType: text("file_type").notNull(),
+  storageKey: text("storage_key"), // original file in server/services/fileStorage; null for legacy uploads
+  batchId: integer("batch_id").references(() => uploadBatches.id),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
   processed: boolean("processed").default(false).notNull(),
   extractedData: jsonb("extracted_data"),
   summary: text("summary"),
+  structuredSummary: jsonb("structured_summary").$type<StructuredSummary>(), // the summary parsed into sections; null for rows saved before it existed
   processingError: text("processing_error"),
   lastViewedAt: timestamp("last_viewed_at"),
   isFavorite: boolean("is_favorite").default(false).notNull(),
   tags: text("tags").array().default([]).notNull(),
   processingOptions: jsonb("processing_options").default({}).notNull(),
-  clientName: text("client_name"),
+  clientId: integer("client_id").references(() => clients.id),
+  clientName: text("client_name"), // free text; set to the client's name when linked
+  presetId: integer("preset_id").references(() => processingPresets.id),
   policyReference: text("policy_reference"),
   pdfExportCount: integer("pdf_export_count").default(0).notNull(),
   lastExportedAt: timestamp("last_exported_at"),
-});
+  reviewStatus: text("review_status").$type<ReviewStatus>().default("draft").notNull(),
+  approvedById: integer("approved_by_id").references(() => agents.id),
+  approvedAt: timestamp("approved_at"),
+  approvedVersion: integer("approved_version"), // summary history version that was approved
+  deliveredAt: timestamp("delivered_at"),
+  // extractedData.effectiveDate / expirationDate (or the policy period), when they could be parsed
+  effectiveDate: timestamp("effective_date"),
+  expirationDate: timestamp("expiration_date"),
+  // Full-text index: names and identifiers rank above form codes, then the summary.
+  // The document text is indexed separately in documentTexts.
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(original_name, '') || ' ' || coalesce(client_name, '') || ' ' || coalesce(policy_reference, '') || ' ' ||
+      coalesce(extracted_data->>'insuredName', '') || ' ' || coalesce(extracted_data->>'insurer', '') || ' ' ||
+      coalesce(extracted_data->>'policyType', '') || ' ' || coalesce(extracted_data->>'policyNumber', '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(jsonb_path_query_array(extracted_data, 'lax $.*[*].formCode'), '[]'::jsonb)), 'B') ||
+    setweight(to_tsvector('english', coalesce(summary, '')), 'C')`),
+}, (table) => [
+  index("policy_documents_search_idx").using("gin", table.searchVector),
+]);
+
+// Full text extracted from a document's original file by its last processing run.
+// Kept out of policyDocuments so listing documents does not load it.
+export const documentTexts = pgTable("document_texts", {
+  documentId: integer("document_id").references(() => policyDocuments.id).primaryKey(),
+  text: text("text").notNull(),
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`setweight(to_tsvector('english', text), 'D')`),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("document_texts_search_idx").using("gin", table.searchVector),
+]);
+
+// How a summary version came about: the processing run, an agent's manual edit,
+// a regeneration with new options, restoring an earlier version, or a translation
+// of another version
+export const SUMMARY_VERSION_SOURCES = ["processing", "edit", "regeneration", "restore", "translation"] as const;
+export type SummaryVersionSource = typeof SUMMARY_VERSION_SOURCES[number];
 
+// Summaries are written in English; other languages are translations of them
+export const SUMMARY_LANGUAGES = ["en", "es"] as const;
+export type SummaryLanguage = typeof SUMMARY_LANGUAGES[number];
+export const SUMMARY_LANGUAGE_LABELS: Record<SummaryLanguage, string> = {
+  en: "English",
+  es: "Spanish",
+};
+
+// Every change to a document's summary is kept as a new version; the active one
+// mirrors policyDocuments.summary. Translations are kept as inactive versions that
+// point at the version they were translated from and carry the translated
+// extracted fields for exports.
 export const summaryHistory = pgTable("summary_history", {
   id: serial("id").primaryKey(),
   documentId: integer("document_id").references(() => policyDocuments.id).notNull(),
   version: integer("version").notNull(),
   summary: text("summary").notNull(),
+  structuredSummary: jsonb("structured_summary").$type<StructuredSummary>(),
   processingOptions: jsonb("processing_options").notNull(),
+  source: text("source").$type<SummaryVersionSource>().default("processing").notNull(),
+  authorId: integer("author_id").references(() => agents.id), // null for automated processing
+  restoredFromVersion: integer("restored_from_version"),
+  language: text("language").$type<SummaryLanguage>().default("en").notNull(),
+  translatedFromVersion: integer("translated_from_version"),
+  translatedData: jsonb("translated_data"), // PolicyData with its text fields translated
   createdAt: timestamp("created_at").defaultNow().notNull(),
   isActive: boolean("is_active").default(false).notNull(),
 });
 
+export const REVIEW_DECISIONS = ["approved", "changes_requested"] as const;
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+// Reviewer and agent comments on a summary, optionally about one "[Section]" of it.
+// Approving or rejecting is recorded as a comment with a decision.
+export const reviewComments = pgTable("review_comments", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").references(() => policyDocuments.id).notNull(),
+  authorId: integer("author_id").references(() => agents.id).notNull(),
+  section: text("section"), // summary section title; null for the summary as a whole
+  body: text("body").notNull(),
+  decision: text("decision").$type<ReviewDecision>(),
+  summaryVersion: integer("summary_version"), // active summary version when the comment was made
+  resolved: boolean("resolved").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Renewal reminders go out when a policy comes within each of these many days of expiring
+export const RENEWAL_WINDOWS = [90, 60, 30] as const;
+export type RenewalWindow = typeof RENEWAL_WINDOWS[number];
+
+export const NOTIFICATION_TYPES = ["renewal", "share_viewed"] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// In-app notification feed; key makes each reminder idempotent (one per document, expiration and window)
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  documentId: integer("document_id").references(() => policyDocuments.id),
+  type: text("type").$type<NotificationType>().notNull(),
+  key: text("key").notNull().unique(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // client route to open, e.g. /summary/12
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+});
+
+// Everything an agent can do to a document, as recorded in the audit trail
+export const AUDIT_ACTIONS = [
+  "upload",
+  "view",
+  "download_original",
+  "reprocess",
+  "cancel_processing",
+  "edit_summary",
+  "regenerate_summary",
+  "restore_summary",
+  "delete_summary_version",
+  "export",
+  "export_comparison",
+  "delete",
+  "link_client",
+  "reassign",
+  "submit_review",
+  "comment",
+  "resolve_comment",
+  "approve",
+  "request_changes",
+  "share",
+  "revoke_share",
+  "email",
+  "create_client",
+  "update_client",
+  "delete_client",
+  "create_pdf_template",
+  "update_pdf_template",
+  "delete_pdf_template",
+  "create_preset",
+  "update_preset",
+  "delete_preset",
+  "update_settings",
+  "update_agency",
+  "add_member",
+  "change_member_role",
+  "remove_member",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Append-only record of who did what to which document, for E&O defense. Rows are
+// never updated or deleted, and deliberately carry no foreign keys so they outlive
+// the documents and memberships they describe; names are copied in for the same reason.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  agencyId: integer("agency_id"), // the actor's agency at the time
+  actorId: integer("actor_id").notNull(),
+  actorName: text("actor_name").notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  documentId: integer("document_id"),
+  documentName: text("document_name"),
+  beforeHash: text("before_hash"), // SHA-256 of the summary before the action
+  afterHash: text("after_hash"), // and after it; equal when the summary did not change
+  details: jsonb("details").$type<Record<string, unknown>>().default({}).notNull(), // export options, version numbers, new owner, ...
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_document_idx").on(table.documentId, table.createdAt),
+  index("audit_events_agency_idx").on(table.agencyId, table.createdAt),
+]);
+
+// Share links are valid for this many days unless the agent picks otherwise
+export const SHARE_LINK_DEFAULT_DAYS = 30;
+export const SHARE_LINK_MAX_DAYS = 90;
+
+// Expiring, revocable links that let a client open a read-only web version of a
+// document's summary without signing in. The token is the only credential.
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").references(() => policyDocuments.id).notNull(),
+  createdBy: integer("created_by").references(() => agents.id).notNull(), // whose branding the page shows
+  token: text("token").notNull().unique(),
+  label: text("label"), // who the link was sent to, e.g. "Jane Smith (email)"
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").default(0).notNull(),
+  downloadCount: integer("download_count").default(0).notNull(),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("share_links_document_idx").on(table.documentId),
+]);
+
+export const EMAIL_DELIVERY_METHODS = ["attachment", "link"] as const;
+export type EmailDeliveryMethod = typeof EMAIL_DELIVERY_METHODS[number];
+export const EMAIL_DELIVERY_STATUSES = ["sent", "failed"] as const;
+export type EmailDeliveryStatus = typeof EMAIL_DELIVERY_STATUSES[number];
+
+// Summaries emailed to clients: who they went to, how, and whether the SMTP server took them
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").references(() => policyDocuments.id).notNull(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  recipients: text("recipients").array().notNull(),
+  cc: text("cc").array().default([]).notNull(),
+  subject: text("subject").notNull(),
+  method: text("method").$type<EmailDeliveryMethod>().notNull(),
+  shareLinkId: integer("share_link_id").references(() => shareLinks.id), // the link sent, for method "link"
+  status: text("status").$type<EmailDeliveryStatus>().notNull(),
+  messageId: text("message_id"),
+  error: text("error"), // why the SMTP server refused or could not be reached
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_deliveries_document_idx").on(table.documentId, table.createdAt),
+]);
+
+// Durable processing queue: one row per processing run of a document.
+// The worker in server/services/jobQueue.ts claims queued rows, so work
+// survives restarts and failed attempts are retried with backoff.
+export const processingJobs = pgTable("processing_jobs", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").references(() => policyDocuments.id).notNull(),
+  status: text("status").default("queued").notNull(), // queued | running | completed | failed | cancelled
+  stage: text("stage").default("queued").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  options: jsonb("options").default({}).notNull(),
+  filename: text("filename").notNull(),
+  storageKey: text("storage_key"), // original file in file storage
+  sourceData: text("source_data"), // base64 file contents when there is no stored original; cleared once the job finishes
+  lastError: text("last_error"),
+  cancelRequestedAt: timestamp("cancel_requested_at"), // checked by whichever worker is running the job
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const userSettings = pgTable("user_settings", {
   id: serial("id").primaryKey(),
   agentId: integer("agent_id").references(() => agents.id).notNull().unique(),
@@ -77,7 +398,7 @@ export const userSettings = pgTable("user_settings", {
     license: "",
     signature: "", // Base64 encoded image or text signature
     agentImage: "", // Base64 encoded agent photo
-    firmName: "Valley Trust Insurance",
+    firmName: "",
     firmAddress: "",
     firmPhone: "",
     firmWebsite: ""
@@ -93,6 +414,10 @@ export const userSettings = pgTable("user_settings", {
   uiPreferences: jsonb("ui_preferences").default({
     theme: "system"
   }).notNull(),
+  // Coverage gap rule sets (GapRuleSet[]); empty means the built-in defaults
+  gapAnalysisRules: jsonb("gap_analysis_rules").default([]).notNull(),
+  // Cover email for sending summaries (EmailTemplate); empty means DEFAULT_EMAIL_TEMPLATE
+  emailTemplate: jsonb("email_template").default({}).notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
@@ -101,17 +426,95 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   // Keep for compatibility with existing data
 }));
 
+export const agenciesRelations = relations(agencies, ({ many }) => ({
+  agents: many(agents),
+}));
+
 export const agentsRelations = relations(agents, ({ many, one }) => ({
+  agency: one(agencies, {
+    fields: [agents.agencyId],
+    references: [agencies.id],
+  }),
   documents: many(policyDocuments),
+  batches: many(uploadBatches),
+  clients: many(clients),
+  pdfTemplates: many(pdfTemplates),
+  processingPresets: many(processingPresets),
+  summaryVersions: many(summaryHistory),
+  reviewComments: many(reviewComments),
+  notifications: many(notifications),
   settings: one(userSettings),
 }));
 
+export const clientsRelations = relations(clients, ({ one, many }) => ({
+  agent: one(agents, {
+    fields: [clients.agentId],
+    references: [agents.id],
+  }),
+  documents: many(policyDocuments),
+}));
+
+export const pdfTemplatesRelations = relations(pdfTemplates, ({ one }) => ({
+  agent: one(agents, {
+    fields: [pdfTemplates.agentId],
+    references: [agents.id],
+  }),
+}));
+
+export const processingPresetsRelations = relations(processingPresets, ({ one, many }) => ({
+  agent: one(agents, {
+    fields: [processingPresets.agentId],
+    references: [agents.id],
+  }),
+  documents: many(policyDocuments),
+}));
+
+export const uploadBatchesRelations = relations(uploadBatches, ({ one, many }) => ({
+  agent: one(agents, {
+    fields: [uploadBatches.agentId],
+    references: [agents.id],
+  }),
+  documents: many(policyDocuments),
+}));
+
 export const policyDocumentsRelations = relations(policyDocuments, ({ one, many }) => ({
   agent: one(agents, {
     fields: [policyDocuments.agentId],
     references: [agents.id],
   }),
+  batch: one(uploadBatches, {
+    fields: [policyDocuments.batchId],
+    references: [uploadBatches.id],
+  }),
+  client: one(clients, {
+    fields: [policyDocuments.clientId],
+    references: [clients.id],
+  }),
+  preset: one(processingPresets, {
+    fields: [policyDocuments.presetId],
+    references: [processingPresets.id],
+  }),
+  text: one(documentTexts),
   summaryVersions: many(summaryHistory),
+  reviewComments: many(reviewComments),
+  processingJobs: many(processingJobs),
+  notifications: many(notifications),
+  shareLinks: many(shareLinks),
+  emailDeliveries: many(emailDeliveries),
+}));
+
+export const documentTextsRelations = relations(documentTexts, ({ one }) => ({
+  document: one(policyDocuments, {
+    fields: [documentTexts.documentId],
+    references: [policyDocuments.id],
+  }),
+}));
+
+export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+  document: one(policyDocuments, {
+    fields: [processingJobs.documentId],
+    references: [policyDocuments.id],
+  }),
 }));
 
 export const summaryHistoryRelations = relations(summaryHistory, ({ one }) => ({
@@ -119,6 +522,58 @@ export const summaryHistoryRelations = relations(summaryHistory, ({ one }) => ({
     fields: [summaryHistory.documentId],
     references: [policyDocuments.id],
   }),
+  author: one(agents, {
+    fields: [summaryHistory.authorId],
+    references: [agents.id],
+  }),
+}));
+
+export const reviewCommentsRelations = relations(reviewComments, ({ one }) => ({
+  document: one(policyDocuments, {
+    fields: [reviewComments.documentId],
+    references: [policyDocuments.id],
+  }),
+  author: one(agents, {
+    fields: [reviewComments.authorId],
+    references: [agents.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  agent: one(agents, {
+    fields: [notifications.agentId],
+    references: [agents.id],
+  }),
+  document: one(policyDocuments, {
+    fields: [notifications.documentId],
+    references: [policyDocuments.id],
+  }),
+}));
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+  document: one(policyDocuments, {
+    fields: [shareLinks.documentId],
+    references: [policyDocuments.id],
+  }),
+  creator: one(agents, {
+    fields: [shareLinks.createdBy],
+    references: [agents.id],
+  }),
+}));
+
+export const emailDeliveriesRelations = relations(emailDeliveries, ({ one }) => ({
+  document: one(policyDocuments, {
+    fields: [emailDeliveries.documentId],
+    references: [policyDocuments.id],
+  }),
+  agent: one(agents, {
+    fields: [emailDeliveries.agentId],
+    references: [agents.id],
+  }),
+  shareLink: one(shareLinks, {
+    fields: [emailDeliveries.shareLinkId],
+    references: [shareLinks.id],
+  }),
 }));
 
 export const userSettingsRelations = relations(userSettings, ({ one }) => ({
@@ -145,11 +600,102 @@ export const insertPolicyDocumentSchema = createInsertSchema(policyDocuments).om
   id: true,
   uploadedAt: true,
   lastViewedAt: true,
+}).extend({
+  reviewStatus: z.enum(REVIEW_STATUSES).optional(),
+});
+
+export const AgencyBrandingSchema = z.object({
+  firmName: z.string().max(200).default(""),
+  firmAddress: z.string().max(500).default(""),
+  firmPhone: z.string().max(50).default(""),
+  firmWebsite: z.string().max(200).default(""),
+});
+
+export const insertAgencySchema = createInsertSchema(agencies, {
+  name: z.string().trim().min(1, "Agency name is required").max(200),
+  branding: AgencyBrandingSchema,
+}).pick({
+  name: true,
+  branding: true,
+  defaultProcessingOptions: true,
+  requireApprovalForExport: true,
+});
+
+export const insertUploadBatchSchema = createInsertSchema(uploadBatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertClientSchema = createInsertSchema(clients).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPdfTemplateSchema = createInsertSchema(pdfTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProcessingPresetSchema = createInsertSchema(processingPresets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertSummaryHistorySchema = createInsertSchema(summaryHistory).omit({
   id: true,
   createdAt: true,
+}).extend({
+  source: z.enum(SUMMARY_VERSION_SOURCES).optional(),
+  language: z.enum(SUMMARY_LANGUAGES).optional(),
+});
+
+export const insertReviewCommentSchema = createInsertSchema(reviewComments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  decision: z.enum(REVIEW_DECISIONS).nullable().optional(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+  readAt: true,
+}).extend({
+  type: z.enum(NOTIFICATION_TYPES),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  action: z.enum(AUDIT_ACTIONS),
+  details: z.record(z.unknown()).optional(),
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  createdAt: true,
+  revokedAt: true,
+  viewCount: true,
+  downloadCount: true,
+  lastViewedAt: true,
+});
+
+export const insertEmailDeliverySchema = createInsertSchema(emailDeliveries).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  method: z.enum(EMAIL_DELIVERY_METHODS),
+  status: z.enum(EMAIL_DELIVERY_STATUSES),
+});
+
+export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
@@ -161,10 +707,35 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertAgent = z.infer<typeof insertAgentSchema>;
 export type Agent = typeof agents.$inferSelect;
+export type AgentMembership = Pick<Agent, 'agencyId' | 'role'>;
+export type Agency = typeof agencies.$inferSelect;
+export type InsertAgency = z.infer<typeof insertAgencySchema>;
+export type AgencyBranding = z.infer<typeof AgencyBrandingSchema>;
 export type PolicyDocument = typeof policyDocuments.$inferSelect;
 export type InsertPolicyDocument = z.infer<typeof insertPolicyDocumentSchema>;
+export type DocumentText = typeof documentTexts.$inferSelect;
+export type UploadBatch = typeof uploadBatches.$inferSelect;
+export type InsertUploadBatch = z.infer<typeof insertUploadBatchSchema>;
+export type Client = typeof clients.$inferSelect;
+export type InsertClient = z.infer<typeof insertClientSchema>;
+export type PdfTemplate = typeof pdfTemplates.$inferSelect;
+export type InsertPdfTemplate = z.infer<typeof insertPdfTemplateSchema>;
+export type ProcessingPreset = typeof processingPresets.$inferSelect;
+export type InsertProcessingPreset = z.infer<typeof insertProcessingPresetSchema>;
 export type SummaryHistory = typeof summaryHistory.$inferSelect;
 export type InsertSummaryHistory = z.infer<typeof insertSummaryHistorySchema>;
+export type ReviewComment = typeof reviewComments.$inferSelect;
+export type InsertReviewComment = z.infer<typeof insertReviewCommentSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type InsertEmailDelivery = z.infer<typeof insertEmailDeliverySchema>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 
@@ -181,10 +752,391 @@ export const ProcessingOptionsSchema = z.object({
   highlightRisks: z.boolean().default(true),
   includeScenarios: z.boolean().default(false),
   summaryLength: z.enum(["short", "detailed"]).default("detailed"),
+  // Language of the client-facing output; anything but English is translated after the summary is written
+  language: z.enum(SUMMARY_LANGUAGES).default("en"),
 });
 
 export type ProcessingOptions = z.infer<typeof ProcessingOptionsSchema>;
 
+// Stages a processing job moves through, in order
+export const PROCESSING_STAGES = ["queued", "extracting", "analyzing", "saving", "completed"] as const;
+export type ProcessingStage = typeof PROCESSING_STAGES[number];
+export type ProcessingJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+// Progress events streamed to the client over /api/documents/:id/events
+export type ProcessingEventType =
+  | "queued"
+  | "stage"
+  | "text_extraction"
+  | "ocr_page"
+  | "llm_call"
+  | "validation"
+  | "retry"
+  | "saved"
+  | "failed"
+  | "cancelled";
+
+// Events after which no more progress is sent for that job
+export const TERMINAL_PROCESSING_EVENTS: ProcessingEventType[] = ["saved", "failed", "cancelled"];
+
+export interface ProcessingEvent {
+  id: number;
+  documentId: number;
+  type: ProcessingEventType;
+  stage: ProcessingStage;
+  message: string;
+  current?: number;
+  total?: number;
+  at: string;
+}
+
+// Side-by-side comparison of two or more processed policies. The first policy
+// is the baseline (usually the expiring policy); findings describe each of the
+// others relative to it.
+export type ComparisonFindingType =
+  | "coverage_gap"
+  | "new_coverage"
+  | "limit_decrease"
+  | "limit_increase"
+  | "deductible_increase"
+  | "deductible_decrease"
+  | "new_exclusion"
+  | "removed_exclusion"
+  | "premium_increase"
+  | "premium_decrease";
+
+export interface ComparedPolicy {
+  documentId: number;
+  name: string;
+  insurer: string;
+  policyType: string;
+  policyNumber?: string;
+  policyPeriod?: string;
+  premium?: string;
+}
+
+export interface CoverageComparisonCell {
+  limit: string;
+  deductible?: string;
+}
+
+export interface CoverageComparisonRow {
+  coverage: string;
+  // One cell per compared policy, null when that policy lacks the coverage
+  cells: (CoverageComparisonCell | null)[];
+}
+
+export interface ExclusionComparisonRow {
+  exclusion: string;
+  presentIn: boolean[];
+}
+
+export interface ComparisonFinding {
+  type: ComparisonFindingType;
+  severity: "high" | "medium" | "low";
+  // Index into PolicyComparison.policies of the policy the finding is about
+  policyIndex: number;
+  coverage?: string;
+  message: string;
+}
+
+export interface PolicyComparison {
+  policies: ComparedPolicy[];
+  coverages: CoverageComparisonRow[];
+  exclusions: ExclusionComparisonRow[];
+  findings: ComparisonFinding[];
+  generatedAt: string;
+}
+
+// An entry in the export "Template Style" selector; custom templates are named "custom:<id>"
+export interface PdfTemplateOption {
+  name: string;
+  label: string;
+  description: string;
+  clientFacing: boolean; // refused until approval when the agency requires it
+  custom: boolean;
+  id?: number;
+  editable?: boolean; // custom templates the agent may change or delete
+}
+
+// Consolidated view of every policy linked to a client
+export interface ClientPortfolioPolicy {
+  documentId: number;
+  name: string;
+  processed: boolean;
+  policyType?: string;
+  insurer?: string;
+  policyNumber?: string;
+  effectiveDate?: string;
+  expirationDate?: string;
+  premium?: string;
+}
+
+export interface ClientPortfolioCoverage {
+  coverage: string;
+  limit: string;
+  deductible?: string;
+  documentId: number;
+  policyType: string;
+}
+
+export interface ClientPortfolioSummary {
+  clientId: number;
+  totalPolicies: number;
+  processedPolicies: number;
+  // Sum of the premiums that could be parsed; null when none could
+  totalPremium: number | null;
+  insurers: string[];
+  policyTypes: string[];
+  policies: ClientPortfolioPolicy[];
+  coverages: ClientPortfolioCoverage[];
+  exclusionCount: number;
+  nextExpiration?: { documentId: number; expirationDate: string };
+  generatedAt: string;
+}
+
+// Policies coming up for renewal, soonest first
+export interface RenewalItem {
+  documentId: number;
+  name: string;
+  clientName: string | null;
+  insuredName?: string;
+  insurer?: string;
+  policyType?: string;
+  policyNumber?: string;
+  effectiveDate: string | null;
+  expirationDate: string;
+  daysUntilExpiration: number;
+}
+
+export interface RenewalsOverview {
+  // Policies expiring within each window, counted cumulatively (the 90-day count includes the 30-day ones)
+  windows: { days: RenewalWindow; count: number }[];
+  renewals: RenewalItem[];
+  generatedAt: string;
+}
+
+// Server-side document search: full-text query, facet filters and a page of results
+export const DOCUMENT_SEARCH_SORTS = ["relevance", "uploadedAt", "lastViewed", "name", "size", "expirationDate"] as const;
+export type DocumentSearchSort = typeof DOCUMENT_SEARCH_SORTS[number];
+export const EXPORT_STATUSES = ["exported", "notExported"] as const;
+export type ExportStatus = typeof EXPORT_STATUSES[number];
+export const MAX_SEARCH_PAGE_SIZE = 100;
+
+export const DocumentSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  tags: z.array(z.string().min(1)).optional(), // documents carrying every tag
+  favorite: z.boolean().optional(),
+  clientId: z.number().int().positive().optional(),
+  insurer: z.string().min(1).optional(),
+  expiresFrom: z.coerce.date().optional(),
+  expiresTo: z.coerce.date().optional(),
+  exportStatus: z.enum(EXPORT_STATUSES).optional(),
+  processed: z.boolean().optional(),
+  sort: z.enum(DOCUMENT_SEARCH_SORTS).optional(), // relevance when there is a query, otherwise newest first
+  page: z.number().int().positive().default(1),
+  pageSize: z.number().int().positive().max(MAX_SEARCH_PAGE_SIZE).default(24),
+});
+
+export type DocumentSearchQuery = z.infer<typeof DocumentSearchQuerySchema>;
+
+export interface SearchFacetCount<T = string> {
+  value: T;
+  label: string;
+  count: number;
+}
+
+// Counts over every result matching the query and filters, not just the current page
+export interface DocumentSearchFacets {
+  tags: SearchFacetCount[];
+  insurers: SearchFacetCount[];
+  clients: SearchFacetCount<number>[];
+  favorites: number;
+  exportStatus: Record<ExportStatus, number>;
+  // Earliest and latest parsed expiration dates, for the range picker
+  expiration: { earliest: string | null; latest: string | null };
+}
+
+export interface DocumentSearchResult<T = PolicyDocument> {
+  documents: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: DocumentSearchFacets;
+}
+
+// Filters for an agency's audit trail; from and to are whole days, both inclusive
+export const AuditEventQuerySchema = z.object({
+  actorId: z.number().int().positive().optional(),
+  documentId: z.number().int().positive().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type AuditEventQuery = z.infer<typeof AuditEventQuerySchema>;
+
+// Lines of business the coverage gap analysis recognizes
+export const COVERAGE_LINES = [
+  "general_liability",
+  "property",
+  "business_income",
+  "commercial_auto",
+  "workers_compensation",
+  "umbrella",
+  "cyber",
+  "epli",
+  "flood",
+  "professional_liability",
+  "liquor_liability",
+  "inland_marine",
+  "directors_officers",
+] as const;
+
+export type CoverageLine = typeof COVERAGE_LINES[number];
+
+export const COVERAGE_LINE_LABELS: Record<CoverageLine, string> = {
+  general_liability: "General Liability",
+  property: "Commercial Property",
+  business_income: "Business Income",
+  commercial_auto: "Commercial Auto",
+  workers_compensation: "Workers' Compensation",
+  umbrella: "Umbrella / Excess Liability",
+  cyber: "Cyber Liability",
+  epli: "Employment Practices Liability",
+  flood: "Flood",
+  professional_liability: "Professional Liability (E&O)",
+  liquor_liability: "Liquor Liability",
+  inland_marine: "Inland Marine / Equipment",
+  directors_officers: "Directors & Officers",
+};
+
+export const GapPrioritySchema = z.enum(["high", "medium", "low"]);
+export type GapPriority = z.infer<typeof GapPrioritySchema>;
+
+export const GapRuleSetSchema = z.object({
+  businessType: z.string().trim().min(1),
+  // Matched against the start of words in the client's business type.
+  // A rule set without keywords applies to every commercial insured.
+  keywords: z.array(z.string().trim().min(1)).default([]),
+  requiredLines: z.array(z.object({
+    line: z.enum(COVERAGE_LINES),
+    priority: GapPrioritySchema,
+    reason: z.string().default(""),
+  })),
+});
+
+export const GapRuleSetsSchema = z.array(GapRuleSetSchema);
+
+export type GapRuleSet = z.infer<typeof GapRuleSetSchema>;
+
+// Cover email sent with a summary. {{placeholders}} are filled in per document;
+// the agent's signature and the PDF or share link are added below the body.
+export const EMAIL_TEMPLATE_FIELDS = {
+  clientName: "Client or insured name",
+  policyType: "Policy type",
+  insurer: "Insurance company",
+  policyNumber: "Policy number",
+  expirationDate: "Expiration date",
+  agentName: "Your name",
+  firmName: "Your firm",
+} as const;
+export type EmailTemplateField = keyof typeof EMAIL_TEMPLATE_FIELDS;
+
+export const EmailTemplateSchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Message is required").max(10000),
+});
+
+export type EmailTemplate = z.infer<typeof EmailTemplateSchema>;
+
+export const DEFAULT_EMAIL_TEMPLATE: EmailTemplate = {
+  subject: "Your {{policyType}} policy summary",
+  body: [
+    "Hi {{clientName}},",
+    "",
+    "Here is a summary of your {{policyType}} policy with {{insurer}}, covering what is insured, the key limits and deductibles, and anything worth your attention.",
+    "",
+    "Please look it over and let me know if you have any questions.",
+  ].join("\n"),
+};
+
+export type CoverageGapFindingType =
+  | "missing_line"
+  | "umbrella_underlying_limit"
+  | "umbrella_underlying_missing"
+  | "umbrella_term_mismatch";
+
+export interface CoverageGapFinding {
+  type: CoverageGapFindingType;
+  priority: GapPriority;
+  line?: CoverageLine;
+  title: string;
+  detail: string;
+  recommendation: string;
+  // Policies the finding is about (empty for a missing line)
+  documentIds: number[];
+}
+
+export interface CoverageGapAnalysis {
+  clientId: number;
+  clientName: string;
+  businessType: string | null;
+  isCommercial: boolean;
+  appliedRuleSets: string[];
+  linesPresent: CoverageLine[];
+  policiesAnalyzed: number;
+  // Sorted by priority, high first
+  findings: CoverageGapFinding[];
+  generatedAt: string;
+}
+
+// Where an extracted entry was found in the uploaded document: the page (absent for
+// Word documents, which have no pages) and the passage quoted from it
+export const SourceCitationSchema = z.object({
+  page: z.number().int().positive().optional(),
+  quote: z.string(),
+});
+
+export type SourceCitation = z.infer<typeof SourceCitationSchema>;
+
+// A value in the extracted data or summary that could not be found in the document text
+export const FACT_CHECK_KINDS = ["amount", "date", "policyNumber", "formCode"] as const;
+export type FactCheckKind = typeof FACT_CHECK_KINDS[number];
+
+export const UnsupportedValueSchema = z.object({
+  kind: z.enum(FACT_CHECK_KINDS),
+  value: z.string(),
+  // "Summary" or the extracted field the value came from, e.g. "General Liability limit"
+  location: z.string(),
+});
+
+export type UnsupportedValue = z.infer<typeof UnsupportedValueSchema>;
+
+// A summary as headed sections of paragraphs and bullet lists. Every renderer (PDF
+// layouts, the web preview, the shared summary page) draws from this rather than
+// from the text; shared/summaryMarkdown.ts converts to and from the "[Heading]" /
+// "• bullet" text agents edit. Text keeps inline **bold** markers.
+export const SummaryBlockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("paragraph"), text: z.string() }),
+  z.object({ type: z.literal("bullets"), items: z.array(z.string()) }),
+]);
+
+export type SummaryBlock = z.infer<typeof SummaryBlockSchema>;
+
+export const StructuredSummarySectionSchema = z.object({
+  title: z.string(), // empty for text before the first heading
+  blocks: z.array(SummaryBlockSchema),
+});
+
+export type StructuredSummarySection = z.infer<typeof StructuredSummarySectionSchema>;
+
+export const StructuredSummarySchema = z.object({
+  sections: z.array(StructuredSummarySectionSchema),
+});
+
+export type StructuredSummary = z.infer<typeof StructuredSummarySchema>;
+
 // Enhanced Policy data structures
 export const PolicyDataSchema = z.object({
   policyType: z.string(),
@@ -207,12 +1159,17 @@ export const PolicyDataSchema = z.object({
   unverifiedInformation: z.array(z.string()).optional(),
   missingInformation: z.array(z.string()).optional(),
   recommendedVerifications: z.array(z.string()).optional(),
+  factCheck: z.object({
+    checkedValues: z.number().int().nonnegative(),
+    unsupported: z.array(UnsupportedValueSchema),
+  }).optional(),
   coverageDetails: z.array(z.object({
     type: z.string(),
     limit: z.string(),
     deductible: z.string().optional(),
     description: z.string().optional(),
     waitingPeriod: z.string().optional(),
+    source: SourceCitationSchema.optional(),
   })),
   
   // Verification-specific coverage details
@@ -233,6 +1190,7 @@ export const PolicyDataSchema = z.object({
     description: z.string(),
     impact: z.string().optional(),
     formCode: z.string().optional(),
+    source: SourceCitationSchema.optional(),
   })),
   importantContacts: z.array(z.object({
     type: z.string(),
@@ -242,6 +1200,7 @@ export const PolicyDataSchema = z.object({
     benefit: z.string(),
     description: z.string().optional(),
     importance: z.enum(["low", "medium", "high", "critical"]).optional(),
+    source: SourceCitationSchema.optional(),
   })),
   claimsProcess: z.object({
     howToClaim: z.array(z.string()).optional(),
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseSummaryMarkdown, structuredSummaryOf, summaryToMarkdown } from "./summaryMarkdown";
+
+function roundTrip(text: string): string {
+  return summaryToMarkdown(parseSummaryMarkdown(text));
+}
+
+describe("summary markdown", () => {
+  it("parses headings, paragraphs and bullets into sections", () => {
+    const summary = parseSummaryMarkdown([
+      "Prepared for Acme Bakery.",
+      "",
+      "**[Your Coverage Summary]**",
+      "This policy protects the bakery.",
+      "",
+      "## Key Coverage Points",
+      "• General liability: $1,000,000",
+      "- Deductible: $500",
+      "",
+      "* Property: $250,000",
+    ].join("\n"));
+
+    expect(summary.sections).toEqual([
+      { title: "", blocks: [{ type: "paragraph", text: "Prepared for Acme Bakery." }] },
+      { title: "Your Coverage Summary", blocks: [{ type: "paragraph", text: "This policy protects the bakery." }] },
+      { title: "Key Coverage Points", blocks: [{ type: "bullets", items: ["General liability: $1,000,000", "Deductible: $500", "Property: $250,000"] }] },
+    ]);
+  });
+
+  it("keeps the line breaks of numbered steps and contact lines", () => {
+    const text = "[How to File a Claim]\n1. Call the insurer\n2. Send the form\n\n[Important Contacts]\nPhone: (540) 885-5531\nEmail: claims@example.com";
+
+    expect(parseSummaryMarkdown(text).sections[0].blocks).toEqual([{ type: "paragraph", text: "1. Call the insurer\n2. Send the form" }]);
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  it("reads back the structure it writes", () => {
+    const text = "[Policy Overview]\nFirst paragraph\nwith a second line.\n\nSecond paragraph.\n\n• One\n• Two\n\n[Recommendations]\n• Review limits at renewal";
+
+    expect(roundTrip(text)).toBe(text);
+    expect(parseSummaryMarkdown(roundTrip(text))).toEqual(parseSummaryMarkdown(text));
+  });
+
+  it("normalizes spacing and bullet markers only", () => {
+    expect(roundTrip("  [Coverage]  \n\n\n- Liability\r\n*  Property\n\nCall us.  ")).toBe("[Coverage]\n• Liability\n• Property\n\nCall us.");
+  });
+
+  it("parses rows saved before structured summaries existed", () => {
+    expect(structuredSummaryOf({ summary: "[Coverage]\n• Liability", structuredSummary: null }).sections[0].title).toBe("Coverage");
+    expect(structuredSummaryOf({ summary: null }).sections).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import type { StructuredSummary, StructuredSummarySection, SummaryBlock } from "./schema";
+
+// Headings as the models write them ("[Heading]", "**[Heading]**", "**Heading**") or
+// as agents might type them ("## Heading")
+const SECTION_HEADER = /^(?:\*\*)?\[([^\]]+)\](?:\*\*)?$|^\*\*([^*]+)\*\*$|^#{1,6}\s+(.+)$/;
+const BULLET = /^[•\-*]\s+/;
+
+// Parse summary text into sections. Text before the first heading becomes an untitled
+// section; a paragraph keeps its line breaks ("1. ..." steps, "Phone: ..." lines), and
+// a blank line starts a new paragraph.
+export function parseSummaryMarkdown(markdown: string): StructuredSummary {
+  const sections: StructuredSummarySection[] = [];
+  let section: StructuredSummarySection | undefined;
+  let paragraph: Extract<SummaryBlock, { type: "paragraph" }> | undefined;
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      paragraph = undefined;
+      continue;
+    }
+
+    const header = line.match(SECTION_HEADER);
+    if (header) {
+      section = { title: (header[1] ?? header[2] ?? header[3]).trim(), blocks: [] };
+      sections.push(section);
+      paragraph = undefined;
+      continue;
+    }
+
+    if (!section) {
+      section = { title: "", blocks: [] };
+      sections.push(section);
+    }
+
+    if (BULLET.test(line)) {
+      // Bullets continue the list they follow, even across a blank line
+      const last = section.blocks[section.blocks.length - 1];
+      const list = last?.type === "bullets" ? last : { type: "bullets" as const, items: [] };
+      if (list !== last) section.blocks.push(list);
+      list.items.push(line.replace(BULLET, ""));
+      paragraph = undefined;
+    } else if (paragraph) {
+      paragraph.text += `\n${line}`;
+    } else {
+      paragraph = { type: "paragraph", text: line };
+      section.blocks.push(paragraph);
+    }
+  }
+
+  return { sections };
+}
+
+// The text agents edit: "[Heading]" lines, "• " bullets and blank lines between
+// blocks. Parsing the result gives back the same structure.
+export function summaryToMarkdown(summary: StructuredSummary): string {
+  return summary.sections.map(section => {
+    const blocks = section.blocks.map(block =>
+      block.type === "paragraph" ? block.text : block.items.map(item => `• ${item}`).join("\n"));
+    return [section.title ? `[${section.title}]` : "", blocks.join("\n\n")].filter(Boolean).join("\n");
+  }).join("\n\n");
+}
+
+// Rows saved before summaries were stored structured only have the text
+export function structuredSummaryOf(record: { summary: string | null; structuredSummary?: StructuredSummary | null }): StructuredSummary {
+  return record.structuredSummary ?? parseSummaryMarkdown(record.summary ?? "");
+}